@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { proxySubMind } from '@/lib/submind-proxy';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  return proxySubMind(request, `/ai/submind/conversations/${encodeURIComponent(params.id)}`, { method: 'GET' });
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return proxySubMind(request, `/ai/submind/conversations/${encodeURIComponent(params.id)}`, { method: 'DELETE' });
+}
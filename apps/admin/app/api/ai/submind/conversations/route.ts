@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { proxySubMind } from '@/lib/submind-proxy';
+
+export async function GET(request: NextRequest) {
+  const limit = request.nextUrl.searchParams.get('limit');
+  return proxySubMind(request, `/ai/submind/conversations${limit ? `?limit=${encodeURIComponent(limit)}` : ''}`, {
+    method: 'GET',
+  });
+}
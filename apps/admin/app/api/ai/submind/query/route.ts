@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { proxySubMind } from '@/lib/submind-proxy';
+
+export async function POST(request: NextRequest) {
+  return proxySubMind(request, '/ai/submind/query', {
+    method: 'POST',
+    body: JSON.stringify(await request.json()),
+  });
+}
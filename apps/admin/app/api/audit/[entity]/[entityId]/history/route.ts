@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BFF_URL = process.env.NEXT_PUBLIC_BFF_URL || 'http://localhost:3001';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { entity: string; entityId: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const at = searchParams.get('at');
+    const query = at ? `?at=${encodeURIComponent(at)}` : '';
+
+    const response = await fetch(
+      `${BFF_URL}/audit/${encodeURIComponent(params.entity)}/${encodeURIComponent(params.entityId)}/history${query}`
+    );
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Entity history proxy error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BFF_URL = process.env.NEXT_PUBLIC_BFF_URL || 'http://localhost:3001';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { entity: string; entityId: string } }
+) {
+  try {
+    const body = await request.json();
+
+    const response = await fetch(
+      `${BFF_URL}/audit/${encodeURIComponent(params.entity)}/${encodeURIComponent(params.entityId)}/revert`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      }
+    );
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Entity revert proxy error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revert' },
+      { status: 500 }
+    );
+  }
+}
@@ -43,6 +43,10 @@ export async function GET(
     const response: any = {
       jobId: job.id,
       status: job.status,
+      progress: job.progress,
+      progressMessage: job.progressMessage,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
       createdAt: job.createdAt,
       updatedAt: job.updatedAt
     };
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BFF_URL = process.env.NEXT_PUBLIC_BFF_URL || 'http://localhost:3001';
+
+// GET /api/expansion/scenarios/:id/board-pack?format=pdf|pptx - Download a board pack
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const format = request.nextUrl.searchParams.get('format') || 'pdf';
+
+    const response = await fetch(
+      `${BFF_URL}/expansion/scenarios/${encodeURIComponent(params.id)}/board-pack?format=${encodeURIComponent(format)}`
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      return NextResponse.json(error, { status: response.status });
+    }
+
+    return new NextResponse(await response.arrayBuffer(), {
+      headers: {
+        'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+        'Content-Disposition': response.headers.get('Content-Disposition') || 'attachment',
+      },
+    });
+  } catch (error) {
+    console.error('Board pack export proxy error:', error);
+    return NextResponse.json(
+      { message: 'Failed to export board pack' },
+      { status: 500 }
+    );
+  }
+}
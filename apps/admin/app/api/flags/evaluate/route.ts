@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { postToBff } from '@/lib/server-api-client';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Forward to BFF, which owns flag definitions, rollouts and conditions
+    const response = await postToBff('/settings/flags/evaluate', {
+      flags: body.flags,
+      context: body.context,
+    });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('❌ [API] Feature flag evaluation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Feature flag evaluation failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -11,9 +11,10 @@ export async function GET(
     const { searchParams } = new URL(request.url);
     const horizonMonths = searchParams.get('horizonMonths') || '12';
     const regenerate = searchParams.get('regenerate') || 'false';
+    const model = searchParams.get('model') || 'auto';
 
     const response = await fetch(
-      `${BFF_URL}/forecasts/store/${id}?horizonMonths=${horizonMonths}&regenerate=${regenerate}`,
+      `${BFF_URL}/forecasts/store/${id}?horizonMonths=${horizonMonths}&regenerate=${regenerate}&model=${encodeURIComponent(model)}`,
       {
         method: 'GET',
         headers: {
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BFF_URL = process.env.NEXT_PUBLIC_BFF_URL || 'http://localhost:3001';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const format = request.nextUrl.searchParams.get('format') || 'pdf';
+
+    const response = await fetch(`${BFF_URL}/scenarios/compare/board-pack?format=${encodeURIComponent(format)}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      return NextResponse.json(error, { status: response.status });
+    }
+
+    return new NextResponse(await response.arrayBuffer(), {
+      headers: {
+        'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+        'Content-Disposition': response.headers.get('Content-Disposition') || 'attachment',
+      },
+    });
+  } catch (error) {
+    console.error('Board pack export proxy error:', error);
+    return NextResponse.json(
+      { message: 'Failed to export board pack' },
+      { status: 500 }
+    );
+  }
+}
@@ -35,6 +35,9 @@ export async function GET(
     return NextResponse.json({
       id: job.id,
       status: job.status,
+      progress: job.progress,
+      progressMessage: job.progressMessage,
+      attempts: job.attempts,
       storesAnalyzed: job.storesAnalyzed,
       tokensUsed: job.tokensUsed,
       actualCost: job.actualCost,
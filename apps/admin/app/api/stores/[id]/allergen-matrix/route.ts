@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BFF_URL = process.env.NEXT_PUBLIC_BFF_URL || 'http://localhost:3001';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const response = await fetch(`${BFF_URL}/menu/allergen-matrix/${params.id}/csv`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      return NextResponse.json(error, { status: response.status });
+    }
+
+    return new NextResponse(await response.arrayBuffer(), {
+      headers: {
+        'Content-Type': response.headers.get('Content-Type') || 'text/csv',
+        'Content-Disposition': response.headers.get('Content-Disposition') || 'attachment',
+      },
+    });
+  } catch (error) {
+    console.error('Allergen matrix export proxy error:', error);
+    return NextResponse.json(
+      { message: 'Failed to export the allergen matrix' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BFF_URL = process.env.NEXT_PUBLIC_BFF_URL || 'http://localhost:3001';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; date: string } }
+) {
+  try {
+    const body = await request.json();
+
+    const response = await fetch(`${BFF_URL}/stores/${params.id}/hours/exceptions/${params.date}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Error saving hours exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; date: string } }
+) {
+  try {
+    const response = await fetch(`${BFF_URL}/stores/${params.id}/hours/exceptions/${params.date}`, {
+      method: 'DELETE'
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Error deleting hours exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,16 +8,9 @@ export async function GET(
 ) {
   try {
     const response = await fetch(`${BFF_URL}/stores/${params.id}/hours`);
-    
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: 'Failed to fetch hours' },
-        { status: response.status }
-      );
-    }
 
     const data = await response.json();
-    return NextResponse.json(data);
+    return NextResponse.json(data, { status: response.status });
   } catch (error) {
     console.error('Error fetching store hours:', error);
     return NextResponse.json(
@@ -39,16 +32,10 @@ export async function PUT(
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body)
     });
-    
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: 'Failed to update hours' },
-        { status: response.status }
-      );
-    }
 
+    // Pass BFF errors through so validation messages reach the form
     const data = await response.json();
-    return NextResponse.json(data);
+    return NextResponse.json(data, { status: response.status });
   } catch (error) {
     console.error('Error updating hours:', error);
     return NextResponse.json(
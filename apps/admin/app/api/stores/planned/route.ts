@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { postToBff } from '@/lib/server-api-client';
 
 const prisma = new PrismaClient();
 
 /**
  * POST /api/stores/planned
- * Save an expansion suggestion as a planned store
+ * Save an expansion suggestion as a planned store. Persisted suggestions go
+ * through the BFF site pipeline, which creates the store, links it to the
+ * suggestion and scenario and audits the change as the signed-in user.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -21,22 +24,37 @@ export async function POST(request: NextRequest) {
 
     // Extract location details from suggestion
     const city = suggestion.city || suggestion.locationContext?.city || null;
-    const country = suggestion.country || 'Germany';
-    const region = suggestion.region || 'EMEA';
+    const address = suggestion.specificLocation || suggestion.address || null;
     
     // Create store name from city or coordinates
     const storeName = city 
       ? `${city} - Planned (AI)`
       : `Planned Location ${suggestion.lat.toFixed(4)}, ${suggestion.lng.toFixed(4)}`;
 
+    // Suggestions loaded from a saved scenario carry their database id
+    if (suggestion.id) {
+      const { data: pipelineSite } = await postToBff('/pipeline/sites', {
+        suggestionId: suggestion.id,
+        name: storeName,
+        city: city ?? undefined,
+        address: address ?? undefined,
+      });
+
+      return NextResponse.json({
+        success: true,
+        store: pipelineSite.store,
+        pipelineSite
+      }, { status: 201 });
+    }
+
     // Create the planned store
     const store = await prisma.store.create({
       data: {
         name: storeName,
         city: city,
-        address: suggestion.specificLocation || suggestion.address || null,
-        country: country,
-        region: region,
+        address: address,
+        country: suggestion.country || null,
+        region: suggestion.region || 'EMEA',
         status: 'Planned',
         latitude: suggestion.lat,
         longitude: suggestion.lng,
@@ -67,13 +85,14 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      store
+      store,
+      pipelineSite: null
     }, { status: 201 });
 
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error creating planned store:', error);
     return NextResponse.json(
-      { error: 'Failed to create planned store' },
+      { error: error.message || 'Failed to create planned store' },
       { status: 500 }
     );
   }
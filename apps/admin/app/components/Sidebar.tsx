@@ -43,6 +43,7 @@ export default function Sidebar() {
         <Item href="/franchisees" label="Franchisees" svg={I.franchisees} />
         <Item href="/intelligence-map" label="Intelligence Map" svg={I.map} />
         <Item href="/portfolio"   label="Portfolio"   svg={I.portfolio} />
+        <Item href="/pipeline"    label="Pipeline"    svg={I.stores} />
         <Item href="/scenarios"   label="Scenarios"   svg={I.scenarios} />
         <Item href="/analytics"   label="Analytics"   svg={I.analytics} />
         <Item href="/settings"   label="Settings"   svg={I.users} />
@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { StoreAlertService } from '@/lib/services/store-alert.service';
+import {
+  ALERT_TYPE_LABELS,
+  AlertSeverity,
+  StoreAlert,
+  StoreAlertSummary,
+} from '@/lib/types/store-alert.types';
+import { useToast } from '@/app/components/ToastProvider';
+
+interface StoreAlertsProps {
+  /** Limits the list to one store; without it the panel covers every store the user can see */
+  storeId?: string;
+  limit?: number;
+}
+
+const severityColors: Record<AlertSeverity, { bg: string; color: string }> = {
+  info: { bg: 'var(--s-info-bg)', color: 'var(--s-info)' },
+  warning: { bg: 'var(--s-warning-bg)', color: 'var(--s-warning)' },
+  critical: { bg: 'var(--s-danger-bg)', color: 'var(--s-danger)' },
+};
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: 'var(--s-secondary)',
+  color: 'var(--s-text)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+function SeverityBadge({ severity }: { severity: AlertSeverity }) {
+  const colors = severityColors[severity];
+  return (
+    <span style={{ padding: '2px 8px', borderRadius: '12px', fontSize: '12px', backgroundColor: colors.bg, color: colors.color }}>
+      {severity}
+    </span>
+  );
+}
+
+export function StoreAlerts({ storeId, limit = 50 }: StoreAlertsProps) {
+  const [alerts, setAlerts] = useState<StoreAlert[]>([]);
+  const [summary, setSummary] = useState<StoreAlertSummary | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  const loadAlerts = async () => {
+    setError(null);
+    try {
+      const [list, counts] = await Promise.all([
+        StoreAlertService.getAlerts({ storeId, status: showResolved ? 'RESOLVED' : 'ACTIVE', limit }),
+        storeId ? Promise.resolve(null) : StoreAlertService.getSummary(),
+      ]);
+      setAlerts(list);
+      setSummary(counts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alerts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadAlerts();
+  }, [storeId, showResolved]);
+
+  const handleAcknowledge = async (alert: StoreAlert) => {
+    setBusy(alert.id);
+    const result = await StoreAlertService.acknowledge(alert.id);
+    setBusy(null);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', 'Alert acknowledged');
+    await loadAlerts();
+  };
+
+  const handleResolve = async (alert: StoreAlert) => {
+    const resolution = prompt('How was this resolved? (optional)');
+    if (resolution === null) return;
+
+    setBusy(alert.id);
+    const result = await StoreAlertService.resolve(alert.id, resolution || undefined);
+    setBusy(null);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', 'Alert resolved');
+    await loadAlerts();
+  };
+
+  return (
+    <section className="s-panel" style={{ marginBottom: '24px' }}>
+      <div className="s-panelCard">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px', gap: '12px', flexWrap: 'wrap' }}>
+          <div>
+            <p className="s-panelT">Store Alerts</p>
+            {summary && (
+              <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px' }}>
+                {summary.open} open · {summary.acknowledged} acknowledged · {summary.bySeverity.critical ?? 0} critical
+                across {summary.storesAffected} store{summary.storesAffected !== 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+          <select
+            value={showResolved ? 'RESOLVED' : 'ACTIVE'}
+            onChange={(e) => setShowResolved(e.target.value === 'RESOLVED')}
+            className="s-select"
+            style={{ width: '160px' }}
+          >
+            <option value="ACTIVE">Active</option>
+            <option value="RESOLVED">Resolved</option>
+          </select>
+        </div>
+
+        {loading ? (
+          <div style={{ padding: '24px', color: 'var(--s-muted)' }}>Loading alerts...</div>
+        ) : error ? (
+          <div style={{ padding: '24px', color: 'var(--s-muted)' }}>{error}</div>
+        ) : alerts.length === 0 ? (
+          <div style={{ padding: '24px', color: 'var(--s-muted)' }}>
+            {showResolved ? 'No resolved alerts' : 'No active alerts'}
+          </div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {alerts.map((alert) => (
+              <div
+                key={alert.id}
+                style={{
+                  border: '1px solid var(--s-border)',
+                  borderRadius: '6px',
+                  padding: '12px 16px',
+                  opacity: alert.status === 'ACKNOWLEDGED' ? 0.8 : 1,
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+                    <SeverityBadge severity={alert.severity} />
+                    <strong style={{ fontSize: '14px' }}>{alert.title}</strong>
+                    {!storeId && (
+                      <a href={`/stores/${alert.store.id}`} style={{ fontSize: '14px', color: 'var(--s-primary)' }}>
+                        {alert.store.name}
+                      </a>
+                    )}
+                    <span style={{ fontSize: '12px', color: 'var(--s-muted)' }}>{ALERT_TYPE_LABELS[alert.type]}</span>
+                  </div>
+                  {alert.status !== 'RESOLVED' && (
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                      {alert.status === 'OPEN' && (
+                        <button onClick={() => handleAcknowledge(alert)} disabled={busy === alert.id} style={buttonStyle}>
+                          Acknowledge
+                        </button>
+                      )}
+                      <button onClick={() => handleResolve(alert)} disabled={busy === alert.id} style={buttonStyle}>
+                        Resolve
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <p style={{ fontSize: '14px', marginTop: '8px' }}>{alert.message}</p>
+                <p style={{ fontSize: '12px', color: 'var(--s-muted)', marginTop: '4px' }}>
+                  First seen {formatTime(alert.firstDetectedAt)} · last seen {formatTime(alert.lastDetectedAt)}
+                  {alert.occurrences > 1 && ` · ${alert.occurrences} scans`}
+                  {alert.acknowledgedBy && ` · acknowledged by ${alert.acknowledgedBy}`}
+                  {alert.resolvedBy && ` · resolved by ${alert.resolvedBy} ${formatTime(alert.resolvedAt)}`}
+                  {alert.resolution && ` (${alert.resolution})`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { bffErrorMessage } from '@/lib/utils/bff-error';
+
+type EntityState = Record<string, unknown>;
+
+interface EntityVersion {
+  entryId: string;
+  actor: string;
+  action: string;
+  timestamp: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  state: EntityState | null;
+}
+
+interface EntityHistoryData {
+  entity: string;
+  entityId: string;
+  current: EntityState | null;
+  versions: EntityVersion[];
+  asOf?: { timestamp: string; entryId: string | null; state: EntityState | null };
+}
+
+interface EntityHistoryProps {
+  /** Route segment understood by GET /audit/:entity/:entityId/history, e.g. "store" or "menu-item" */
+  entity: string;
+  entityId: string;
+  /** Called after a revert so the caller can reload the entity */
+  onReverted?: () => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function EntityHistory({ entity, entityId, onReverted }: EntityHistoryProps) {
+  const [history, setHistory] = useState<EntityHistoryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [asOf, setAsOf] = useState('');
+  const [reverting, setReverting] = useState<string | null>(null);
+
+  const fetchHistory = async (at = asOf) => {
+    setError(null);
+    try {
+      const query = at ? `?at=${encodeURIComponent(new Date(at).toISOString())}` : '';
+      const response = await fetch(`/api/audit/${entity}/${entityId}/history${query}`);
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok || !body?.success) {
+        throw new Error(bffErrorMessage(body, 'Failed to load history'));
+      }
+      setHistory(body.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchHistory();
+  }, [entity, entityId]);
+
+  const handleRevert = async (version: EntityVersion) => {
+    if (!history) return;
+    const when = new Date(version.timestamp).toLocaleString();
+    if (!confirm(`Revert to the version from ${when}? The revert is recorded in the audit log.`)) return;
+
+    setReverting(version.entryId);
+    try {
+      const response = await fetch(`/api/audit/${entity}/${entityId}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          entryId: version.entryId,
+          expectedLatestEntryId: history.versions[0]?.entryId
+        })
+      });
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok || !body?.success) {
+        throw new Error(bffErrorMessage(body, 'Failed to revert'));
+      }
+      await fetchHistory();
+      onReverted?.();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to revert');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '24px' }}>Loading history...</div>;
+  }
+
+  if (error || !history) {
+    return (
+      <div style={{ padding: '24px', color: 'var(--s-muted)' }}>
+        {error || 'No history available'}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px', gap: '12px', flexWrap: 'wrap' }}>
+        <p style={{ color: 'var(--s-muted)', fontSize: '14px' }}>
+          {history.versions.length} change{history.versions.length !== 1 ? 's' : ''} recorded
+        </p>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <label htmlFor={`${entity}-as-of`} style={{ fontSize: '14px', color: 'var(--s-muted)' }}>As of</label>
+          <input
+            id={`${entity}-as-of`}
+            type="datetime-local"
+            className="s-input"
+            value={asOf}
+            onChange={(e) => {
+              setAsOf(e.target.value);
+              fetchHistory(e.target.value);
+            }}
+          />
+        </div>
+      </div>
+
+      {history.asOf && (
+        <div className="s-panel" style={{ marginBottom: '16px' }}>
+          <div className="s-panelCard" style={{ padding: '16px' }}>
+            <h3 style={{ fontSize: '14px', fontWeight: 600, marginBottom: '8px' }}>
+              State at {new Date(history.asOf.timestamp).toLocaleString()}
+            </h3>
+            {history.asOf.state ? (
+              <dl style={{ display: 'grid', gridTemplateColumns: 'max-content 1fr', gap: '4px 16px', fontSize: '14px' }}>
+                {Object.entries(history.asOf.state).map(([field, value]) => (
+                  <div key={field} style={{ display: 'contents' }}>
+                    <dt style={{ color: 'var(--s-muted)' }}>{field}</dt>
+                    <dd>{formatValue(value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : (
+              <p style={{ fontSize: '14px', color: 'var(--s-muted)' }}>Did not exist at this time</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="s-panel">
+        <div className="s-panelCard">
+          <div style={{ overflowX: 'auto' }}>
+            <table className="s-table">
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Who</th>
+                  <th>Action</th>
+                  <th>Changes</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.versions.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} style={{ textAlign: 'center', padding: '32px', color: 'var(--s-muted)' }}>
+                      No changes recorded yet
+                    </td>
+                  </tr>
+                ) : (
+                  history.versions.map((version, index) => (
+                    <tr key={version.entryId}>
+                      <td style={{ fontSize: '14px', color: 'var(--s-muted)', whiteSpace: 'nowrap' }}>
+                        {new Date(version.timestamp).toLocaleString()}
+                      </td>
+                      <td>{version.actor}</td>
+                      <td>
+                        <span className="badge">{version.action}</span>
+                      </td>
+                      <td style={{ fontSize: '13px' }}>
+                        {Object.entries(version.changes).map(([field, change]) => (
+                          <div key={field}>
+                            <strong>{field}</strong>: {formatValue(change.from)} → {formatValue(change.to)}
+                          </div>
+                        ))}
+                      </td>
+                      <td>
+                        {index > 0 && version.state && history.current && (
+                          <button
+                            onClick={() => handleRevert(version)}
+                            disabled={reverting !== null}
+                            className="s-btn s-btn--secondary"
+                            style={{ fontSize: '12px', padding: '4px 12px', whiteSpace: 'nowrap' }}
+                          >
+                            {reverting === version.entryId ? 'Reverting...' : 'Revert to this version'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
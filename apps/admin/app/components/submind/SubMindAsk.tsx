@@ -16,6 +16,8 @@ interface QueryState {
 
 export function SubMindAsk() {
   const [prompt, setPrompt] = useState('');
+  // Follow-up questions continue the same server-side thread until the user starts a new one
+  const [conversationId, setConversationId] = useState<string | undefined>();
   const [context, setContext] = useState({
     region: '',
     country: '',
@@ -64,6 +66,7 @@ export function SubMindAsk() {
       // Build query with context
       const query: SubMindQuery = {
         prompt: prompt.trim(),
+        conversationId,
         context: {
           screen: pageContext.screen,
           scope: {
@@ -78,6 +81,8 @@ export function SubMindAsk() {
       const result = await querySubMind(query);
 
       if (result.success) {
+        setConversationId(result.data.conversationId);
+        setPrompt('');
         setQueryState({
           loading: false,
           response: result.data,
@@ -117,7 +122,7 @@ export function SubMindAsk() {
       });
       showError(errorMessage);
     }
-  }, [prompt, context, showError]);
+  }, [prompt, context, conversationId, showError]);
 
   const handleCopy = useCallback(() => {
     if (queryState.response?.message) {
@@ -244,9 +249,21 @@ export function SubMindAsk() {
               Asking SubMind...
             </span>
           ) : (
-            'Ask SubMind'
+            conversationId ? 'Ask a follow-up' : 'Ask SubMind'
           )}
         </button>
+        {conversationId && !queryState.loading && (
+          <button
+            className="w-full text-xs py-1"
+            style={{ color: '#9ca3af' }}
+            onClick={() => {
+              setConversationId(undefined);
+              setQueryState({ loading: false, response: null, error: null, errorCode: undefined, persistentError: false });
+            }}
+          >
+            Start a new conversation
+          </button>
+        )}
         
         {/* Response area */}
         {queryState.response && (
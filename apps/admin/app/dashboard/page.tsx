@@ -2,6 +2,7 @@ import DashboardHeader from './components/DashboardHeader';
 import KPISection from './components/KPISection';
 import QuickActionsPanel from './components/QuickActionsPanel';
 import ChartSection from './components/ChartSection';
+import { StoreAlerts } from '../components/alerts/StoreAlerts';
 import { DashboardService } from './services/dashboard.service';
 
 export default async function DashboardPage() {
@@ -31,6 +32,8 @@ export default async function DashboardPage() {
           delta={delta} 
         />
 
+        <StoreAlerts limit={10} />
+
         <QuickActionsPanel 
           recent={data.recent} 
           health={data.health}
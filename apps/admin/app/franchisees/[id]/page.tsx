@@ -9,8 +9,10 @@ import {
   AlertTriangle,
   Sparkles,
   BarChart3,
-  Target
+  Target,
+  Receipt
 } from 'lucide-react';
+import { RoyaltiesTab } from './tabs/RoyaltiesTab';
 
 interface Franchisee {
   id: string;
@@ -75,7 +77,7 @@ interface FranchiseeAnalysis {
   };
 }
 
-type TabType = 'overview' | 'performance' | 'insights';
+type TabType = 'overview' | 'performance' | 'insights' | 'royalties';
 
 export default function FranchiseeDetailsPage() {
   const params = useParams();
@@ -377,6 +379,19 @@ export default function FranchiseeDetailsPage() {
                 AI Insights
               </span>
             </button>
+            <button
+              onClick={() => setActiveTab('royalties')}
+              className={`px-6 py-3 text-sm font-medium border-b-2 ${
+                activeTab === 'royalties'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                <Receipt className="w-4 h-4" />
+                Royalties
+              </span>
+            </button>
           </div>
         </div>
 
@@ -673,6 +688,10 @@ export default function FranchiseeDetailsPage() {
               )}
             </div>
           )}
+
+          {activeTab === 'royalties' && (
+            <RoyaltiesTab franchiseeId={franchisee.id} stores={stores} />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,431 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { FileText, Plus } from 'lucide-react';
+import { RoyaltyService } from '@/lib/services/royalty.service';
+import {
+  AgreementInput,
+  FranchiseAgreement,
+  ROYALTY_LINE_LABELS,
+  RoyaltyStatement,
+} from '@/lib/types/royalty.types';
+import { formatMoney } from '@/lib/utils/money';
+import { useToast } from '@/app/components/ToastProvider';
+
+interface RoyaltiesTabProps {
+  franchiseeId: string;
+  /** The franchisee's stores, offered when adding an agreement */
+  stores: Array<{ id: string; name: string }>;
+}
+
+interface AgreementForm {
+  storeId: string;
+  reference: string;
+  startDate: string;
+  endDate: string;
+  royaltyPercent: string;
+  marketingPercent: string;
+  minimumRoyalty: string;
+  minimumMarketing: string;
+  renewalOptions: string;
+  renewalTermMonths: string;
+}
+
+const emptyForm: AgreementForm = {
+  storeId: '',
+  reference: '',
+  startDate: '',
+  endDate: '',
+  royaltyPercent: '',
+  marketingPercent: '',
+  minimumRoyalty: '',
+  minimumMarketing: '',
+  renewalOptions: '0',
+  renewalTermMonths: '',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded text-sm';
+const smallButtonClass = 'px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/** Agreements end on an exclusive date; show the last day they apply */
+const lastDay = (endDate: string) => formatDate(new Date(new Date(endDate).getTime() - 86_400_000).toISOString());
+
+const formatRate = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+
+const previousMonth = () => {
+  const now = new Date();
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return month.toISOString().slice(0, 7);
+};
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+function toInput(form: AgreementForm): AgreementInput {
+  return {
+    storeId: form.storeId,
+    reference: form.reference.trim() || undefined,
+    startDate: form.startDate,
+    endDate: form.endDate,
+    royaltyRate: Number(form.royaltyPercent) / 100,
+    marketingFundRate: form.marketingPercent.trim() ? Number(form.marketingPercent) / 100 : undefined,
+    minimumMonthlyRoyalty: optionalNumber(form.minimumRoyalty),
+    minimumMonthlyMarketingFee: optionalNumber(form.minimumMarketing),
+    renewalOptions: optionalNumber(form.renewalOptions),
+    renewalTermMonths: optionalNumber(form.renewalTermMonths),
+  };
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const colors: Record<string, string> = {
+    ACTIVE: 'bg-green-100 text-green-800',
+    TERMINATED: 'bg-gray-100 text-gray-700',
+    DRAFT: 'bg-yellow-100 text-yellow-800',
+    ISSUED: 'bg-blue-100 text-blue-800',
+  };
+  return <span className={`px-2 py-1 text-xs rounded ${colors[status] ?? 'bg-gray-100 text-gray-700'}`}>{status}</span>;
+}
+
+export function RoyaltiesTab({ franchiseeId, stores }: RoyaltiesTabProps) {
+  const [agreements, setAgreements] = useState<FranchiseAgreement[]>([]);
+  const [statements, setStatements] = useState<RoyaltyStatement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<AgreementForm>(emptyForm);
+  const [period, setPeriod] = useState(previousMonth());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [adjustment, setAdjustment] = useState({ description: '', amount: '' });
+  const { showToast } = useToast();
+
+  const load = async () => {
+    setError(null);
+    try {
+      const [agreementList, statementList] = await Promise.all([
+        RoyaltyService.getAgreements(franchiseeId),
+        RoyaltyService.getStatements(franchiseeId),
+      ]);
+      setAgreements(agreementList);
+      setStatements(statementList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load royalties');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [franchiseeId]);
+
+  /** Runs a mutation, reports it and reloads; returns whether it succeeded */
+  const run = async (key: string, action: () => Promise<{ success: boolean; error?: string }>, message: string) => {
+    setBusy(key);
+    const result = await action();
+    setBusy(null);
+    if (!result.success) {
+      showToast('error', result.error ?? 'Request failed');
+      return false;
+    }
+    showToast('success', message);
+    await load();
+    return true;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await run('agreement', () => RoyaltyService.createAgreement(franchiseeId, toInput(form)), 'Agreement added');
+    if (created) {
+      setForm(emptyForm);
+      setShowForm(false);
+    }
+  };
+
+  const handleTerminate = async (agreement: FranchiseAgreement) => {
+    const endDate = prompt('Termination date (YYYY-MM-DD); royalties stop accruing from this day:', new Date().toISOString().slice(0, 10));
+    if (!endDate) return;
+    await run(agreement.id, () => RoyaltyService.terminateAgreement(agreement.id, endDate), 'Agreement terminated');
+  };
+
+  const handleAddAdjustment = async (statement: RoyaltyStatement) => {
+    const amount = Number(adjustment.amount);
+    if (!adjustment.description.trim() || !Number.isFinite(amount) || amount === 0) {
+      showToast('error', 'Enter a description and a non-zero amount');
+      return;
+    }
+    const added = await run(
+      statement.id,
+      () => RoyaltyService.addAdjustment(statement.id, adjustment.description.trim(), amount),
+      'Adjustment added',
+    );
+    if (added) setAdjustment({ description: '', amount: '' });
+  };
+
+  const handleIssue = async (statement: RoyaltyStatement) => {
+    if (!confirm(`Issue the ${statement.period} ${statement.currency} statement? It cannot be changed afterwards.`)) return;
+    await run(statement.id, () => RoyaltyService.issueStatement(statement.id), 'Statement issued');
+  };
+
+  if (loading) {
+    return <div className="py-12 text-center text-gray-500">Loading royalties...</div>;
+  }
+  if (error) {
+    return <div className="py-12 text-center text-gray-500">{error}</div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Franchise Agreements</h3>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add Agreement
+          </button>
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleCreate} className="grid grid-cols-4 gap-3 p-4 mb-4 bg-gray-50 border border-gray-200 rounded">
+            <label className="text-sm text-gray-600">
+              Store
+              <select required value={form.storeId} onChange={(e) => setForm({ ...form, storeId: e.target.value })} className={inputClass}>
+                <option value="">Select a store</option>
+                {stores.map((store) => (
+                  <option key={store.id} value={store.id}>{store.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              Reference
+              <input value={form.reference} onChange={(e) => setForm({ ...form, reference: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-600">
+              Start date
+              <input type="date" required value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-600">
+              End date (exclusive)
+              <input type="date" required value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-600">
+              Royalty %
+              <input type="number" required min="0" max="99" step="0.01" value={form.royaltyPercent} onChange={(e) => setForm({ ...form, royaltyPercent: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-600">
+              Marketing fund %
+              <input type="number" min="0" max="99" step="0.01" value={form.marketingPercent} onChange={(e) => setForm({ ...form, marketingPercent: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-600">
+              Minimum royalty / month
+              <input type="number" min="0" step="0.01" value={form.minimumRoyalty} onChange={(e) => setForm({ ...form, minimumRoyalty: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-600">
+              Minimum marketing fee / month
+              <input type="number" min="0" step="0.01" value={form.minimumMarketing} onChange={(e) => setForm({ ...form, minimumMarketing: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-600">
+              Renewal options
+              <input type="number" min="0" max="10" step="1" value={form.renewalOptions} onChange={(e) => setForm({ ...form, renewalOptions: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-600">
+              Renewal term (months)
+              <input type="number" min="1" max="240" step="1" value={form.renewalTermMonths} onChange={(e) => setForm({ ...form, renewalTermMonths: e.target.value })} className={inputClass} />
+            </label>
+            <div className="col-span-2 flex items-end justify-end gap-2">
+              <button type="button" onClick={() => setShowForm(false)} className="px-3 py-2 text-sm border border-gray-300 rounded hover:bg-gray-100">
+                Cancel
+              </button>
+              <button type="submit" disabled={busy === 'agreement'} className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">
+                Save Agreement
+              </button>
+            </div>
+          </form>
+        )}
+
+        {agreements.length === 0 ? (
+          <p className="text-sm text-gray-500">No agreements on file. Royalties are only calculated for stores with an agreement.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Store</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Term</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Royalty</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Marketing</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Minimums / month</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Renewals</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {agreements.map((agreement) => (
+                  <tr key={agreement.id}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{agreement.storeName}</div>
+                      {agreement.reference && <div className="text-xs text-gray-500">{agreement.reference}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {formatDate(agreement.startDate)} – {lastDay(agreement.endDate)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{formatRate(agreement.royaltyRate)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{formatRate(agreement.marketingFundRate)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {agreement.minimumMonthlyRoyalty ?? '—'} / {agreement.minimumMonthlyMarketingFee ?? '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {agreement.renewalOptions > 0 && agreement.renewalTermMonths
+                        ? `${agreement.renewalOptions} × ${agreement.renewalTermMonths} months`
+                        : 'None'}
+                    </td>
+                    <td className="px-4 py-3 text-sm"><StatusBadge status={agreement.status} /></td>
+                    <td className="px-4 py-3 text-sm text-right whitespace-nowrap">
+                      {agreement.status === 'ACTIVE' && (
+                        <div className="inline-flex gap-2">
+                          {agreement.renewalOptions > 0 && agreement.renewalTermMonths && (
+                            <button
+                              disabled={busy === agreement.id}
+                              onClick={() => run(agreement.id, () => RoyaltyService.renewAgreement(agreement.id), 'Agreement renewed')}
+                              className={smallButtonClass}
+                            >
+                              Renew
+                            </button>
+                          )}
+                          <button disabled={busy === agreement.id} onClick={() => handleTerminate(agreement)} className={smallButtonClass}>
+                            Terminate
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Royalty Statements</h3>
+          <div className="flex items-center gap-2">
+            <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} className="px-3 py-2 border border-gray-300 rounded text-sm" />
+            <button
+              disabled={!period || busy === 'generate'}
+              onClick={() => run('generate', () => RoyaltyService.generateStatements(franchiseeId, period), `Statements for ${period} drafted`)}
+              className="inline-flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              <FileText className="w-4 h-4" />
+              Generate
+            </button>
+          </div>
+        </div>
+
+        {statements.length === 0 ? (
+          <p className="text-sm text-gray-500">No statements yet. Drafts are generated monthly by the royalty statements schedule or on demand.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Period</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Net Sales</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Fees</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Adjustments</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total Due</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {statements.map((statement) => (
+                  <Fragment key={statement.id}>
+                    <tr className="cursor-pointer hover:bg-gray-50" onClick={() => setExpanded(expanded === statement.id ? null : statement.id)}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {statement.period} <span className="text-xs text-gray-500">{statement.currency}</span>
+                      </td>
+                      <td className="px-4 py-3 text-sm"><StatusBadge status={statement.status} /></td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{formatMoney(statement.netSales, statement.currency)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{formatMoney(statement.royaltyTotal, statement.currency)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{formatMoney(statement.adjustmentTotal, statement.currency)}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{formatMoney(statement.totalDue, statement.currency)}</td>
+                      <td className="px-4 py-3 text-xs text-right text-gray-500">{expanded === statement.id ? 'Hide' : 'Lines'}</td>
+                    </tr>
+                    {expanded === statement.id && (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-4 bg-gray-50">
+                          <table className="w-full mb-3">
+                            <tbody>
+                              {statement.lines.map((line) => (
+                                <tr key={line.id} className="text-sm">
+                                  <td className="py-1 pr-4 text-gray-500 whitespace-nowrap">{ROYALTY_LINE_LABELS[line.kind]}</td>
+                                  <td className="py-1 pr-4 text-gray-900">
+                                    {line.description}
+                                    {line.createdBy && <span className="text-xs text-gray-500"> · {line.createdBy}</span>}
+                                  </td>
+                                  <td className="py-1 text-right text-gray-900 whitespace-nowrap">{formatMoney(line.amount, statement.currency)}</td>
+                                  <td className="py-1 pl-4 w-20 text-right">
+                                    {statement.status === 'DRAFT' && line.kind === 'ADJUSTMENT' && (
+                                      <button
+                                        disabled={busy === statement.id}
+                                        onClick={() => run(statement.id, () => RoyaltyService.removeAdjustment(statement.id, line.id), 'Adjustment removed')}
+                                        className={smallButtonClass}
+                                      >
+                                        Remove
+                                      </button>
+                                    )}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+
+                          {statement.status === 'DRAFT' ? (
+                            <div className="flex items-center gap-2">
+                              <input
+                                placeholder="Adjustment description"
+                                value={adjustment.description}
+                                onChange={(e) => setAdjustment({ ...adjustment, description: e.target.value })}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm"
+                              />
+                              <input
+                                type="number"
+                                step="0.01"
+                                placeholder="Amount (negative to credit)"
+                                value={adjustment.amount}
+                                onChange={(e) => setAdjustment({ ...adjustment, amount: e.target.value })}
+                                className="w-56 px-3 py-2 border border-gray-300 rounded text-sm"
+                              />
+                              <button disabled={busy === statement.id} onClick={() => handleAddAdjustment(statement)} className="px-3 py-2 text-sm border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50">
+                                Add Adjustment
+                              </button>
+                              <button disabled={busy === statement.id} onClick={() => handleIssue(statement)} className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">
+                                Issue
+                              </button>
+                            </div>
+                          ) : (
+                            <p className="text-xs text-gray-500">
+                              Issued {statement.issuedAt ? formatDate(statement.issuedAt) : ''} by {statement.issuedBy}
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
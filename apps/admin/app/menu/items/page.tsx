@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from 'react';
 import { MenuItem, ModifierGroup } from '../../../lib/types';
 import MenuTable from './components/MenuTable';
 import { useToast } from '../../components/ToastProvider';
+import { EntityHistory } from '../../components/audit/EntityHistory';
 
 const mockItems: MenuItem[] = [
   { 
@@ -508,6 +509,7 @@ function EditItemDrawer({ isOpen, item, onClose, onSave }: EditItemDrawerProps)
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('');
   const [selectedModifiers, setSelectedModifiers] = useState<string[]>([]);
+  const [view, setView] = useState<'details' | 'history'>('details');
 
   const modifierGroups: ModifierGroup[] = [
     {
@@ -530,6 +532,7 @@ function EditItemDrawer({ isOpen, item, onClose, onSave }: EditItemDrawerProps)
   // Update form when item changes
   useEffect(() => {
     if (item) {
+      setView('details');
       setName(item.name);
       setPrice(item.price.toString());
       setActive(item.active);
@@ -576,119 +579,144 @@ function EditItemDrawer({ isOpen, item, onClose, onSave }: EditItemDrawerProps)
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="drawer-form">
-          <div className="form-group">
-            <label htmlFor="editItemName" className="form-label">Item Name</label>
-            <input
-              id="editItemName"
-              type="text"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              className="s-input"
-              placeholder="e.g., Italian BMT"
-              required
-            />
-          </div>
-
-          <div className="form-group">
-            <label htmlFor="editItemPrice" className="form-label">Price (£)</label>
-            <input
-              id="editItemPrice"
-              type="number"
-              step="0.01"
-              min="0"
-              value={price}
-              onChange={(e) => setPrice(e.target.value)}
-              className="s-input"
-              placeholder="e.g., 8.99"
-              required
-            />
-          </div>
+        <div style={{ display: 'flex', gap: '8px', borderBottom: '1px solid var(--s-border)', marginBottom: '16px' }}>
+          {(['details', 'history'] as const).map(tab => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setView(tab)}
+              style={{
+                padding: '8px 16px',
+                background: 'none',
+                border: 'none',
+                borderBottom: view === tab ? '2px solid var(--s-primary)' : '2px solid transparent',
+                color: view === tab ? 'var(--s-primary)' : 'var(--s-muted)',
+                fontWeight: view === tab ? '600' : '400',
+                cursor: 'pointer'
+              }}
+            >
+              {tab === 'details' ? 'Details' : 'History'}
+            </button>
+          ))}
+        </div>
 
-          <div className="form-group">
-            <label htmlFor="editItemDescription" className="form-label">Description (Optional)</label>
-            <textarea
-              id="editItemDescription"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              className="s-textarea"
-              placeholder="Brief description of the item"
-              rows={2}
-            />
-          </div>
+        {view === 'history' ? (
+          <EntityHistory entity="menu-item" entityId={item.id} />
+        ) : (
+          <form onSubmit={handleSubmit} className="drawer-form">
+            <div className="form-group">
+              <label htmlFor="editItemName" className="form-label">Item Name</label>
+              <input
+                id="editItemName"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="s-input"
+                placeholder="e.g., Italian BMT"
+                required
+              />
+            </div>
 
-          <div className="form-group">
-            <label htmlFor="editItemCategory" className="form-label">Category (Optional)</label>
-            <select
-              id="editItemCategory"
-              value={category}
-              onChange={(e) => setCategory(e.target.value)}
-              className="s-select"
-            >
-              <option value="">Select category</option>
-              <option value="Meat">Meat</option>
-              <option value="Vegetarian">Vegetarian</option>
-              <option value="Vegan">Vegan</option>
-              <option value="Sides">Sides</option>
-              <option value="Drinks">Drinks</option>
-              <option value="Desserts">Desserts</option>
-            </select>
-          </div>
+            <div className="form-group">
+              <label htmlFor="editItemPrice" className="form-label">Price (£)</label>
+              <input
+                id="editItemPrice"
+                type="number"
+                step="0.01"
+                min="0"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="s-input"
+                placeholder="e.g., 8.99"
+                required
+              />
+            </div>
 
-          <div className="form-group">
-            <label className="form-label">Available Modifiers</label>
-            <div className="modifier-groups">
-              {modifierGroups.map((group) => (
-                <div key={group.id} className="modifier-group">
-                  <label className="modifier-checkbox">
-                    <input
-                      type="checkbox"
-                      checked={selectedModifiers.includes(group.id)}
-                      onChange={() => toggleModifier(group.id)}
-                    />
-                    <span className="modifier-label">
-                      <strong>{group.name}</strong>
-                      {group.description && (
-                        <span className="modifier-options">
-                          {group.description}
-                        </span>
-                      )}
-                    </span>
-                  </label>
-                </div>
-              ))}
+            <div className="form-group">
+              <label htmlFor="editItemDescription" className="form-label">Description (Optional)</label>
+              <textarea
+                id="editItemDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="s-textarea"
+                placeholder="Brief description of the item"
+                rows={2}
+              />
             </div>
-          </div>
 
-          <div className="form-group">
-            <label className="form-label">Status</label>
-            <div className="status-toggle">
-              <button
-                type="button"
-                onClick={() => setActive(true)}
-                className={`status-btn ${active ? 'active' : ''}`}
+            <div className="form-group">
+              <label htmlFor="editItemCategory" className="form-label">Category (Optional)</label>
+              <select
+                id="editItemCategory"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="s-select"
               >
-                Active
+                <option value="">Select category</option>
+                <option value="Meat">Meat</option>
+                <option value="Vegetarian">Vegetarian</option>
+                <option value="Vegan">Vegan</option>
+                <option value="Sides">Sides</option>
+                <option value="Drinks">Drinks</option>
+                <option value="Desserts">Desserts</option>
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Available Modifiers</label>
+              <div className="modifier-groups">
+                {modifierGroups.map((group) => (
+                  <div key={group.id} className="modifier-group">
+                    <label className="modifier-checkbox">
+                      <input
+                        type="checkbox"
+                        checked={selectedModifiers.includes(group.id)}
+                        onChange={() => toggleModifier(group.id)}
+                      />
+                      <span className="modifier-label">
+                        <strong>{group.name}</strong>
+                        {group.description && (
+                          <span className="modifier-options">
+                            {group.description}
+                          </span>
+                        )}
+                      </span>
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Status</label>
+              <div className="status-toggle">
+                <button
+                  type="button"
+                  onClick={() => setActive(true)}
+                  className={`status-btn ${active ? 'active' : ''}`}
+                >
+                  Active
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setActive(false)}
+                  className={`status-btn ${!active ? 'active' : ''}`}
+                >
+                  Inactive
+                </button>
+              </div>
+            </div>
+
+            <div className="drawer-actions">
+              <button type="button" onClick={onClose} className="btn-secondary">
+                Cancel
               </button>
-              <button
-                type="button"
-                onClick={() => setActive(false)}
-                className={`status-btn ${!active ? 'active' : ''}`}
-              >
-                Inactive
+              <button type="submit" className="s-btn">
+                Save Changes
               </button>
             </div>
-          </div>
-
-          <div className="drawer-actions">
-            <button type="button" onClick={onClose} className="btn-secondary">
-              Cancel
-            </button>
-            <button type="submit" className="s-btn">
-              Save Changes
-            </button>
-          </div>
-        </form>
+          </form>
+        )}
       </div>
     </div>
   );
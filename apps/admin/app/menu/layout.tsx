@@ -42,6 +42,26 @@ const menuTabs: TabItem[] = [
         <path d="M12 1a1 1 0 0 1 1 1v1.07A7.002 7.002 0 0 1 19 10h1a1 1 0 1 1 0 2h-1a7.002 7.002 0 0 1-6 6.93V21a1 1 0 1 1-2 0v-1.07A7.002 7.002 0 0 1 5 12H4a1 1 0 1 1 0-2h1a7.002 7.002 0 0 1 6-6.93V2a1 1 0 0 1 1-1Z"/>
       </svg>
     )
+  },
+  {
+    key: 'master',
+    label: 'Master Menu',
+    href: '/menu/master',
+    icon: (
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M12 2 2 7l10 5 10-5-10-5Zm-8.5 9.25L12 15.5l8.5-4.25L22 12l-10 5-10-5 1.5-.75Zm0 5L12 20.5l8.5-4.25L22 17l-10 5-10-5 1.5-.75Z"/>
+      </svg>
+    )
+  },
+  {
+    key: 'versions',
+    label: 'Versions',
+    href: '/menu/versions',
+    icon: (
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6a7 7 0 1 1 2.05 4.95l-1.42 1.42A9 9 0 1 0 13 3Zm-1 5v5l4.25 2.52.77-1.28-3.52-2.09V8H12Z"/>
+      </svg>
+    )
   }
 ];
 
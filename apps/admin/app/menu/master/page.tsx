@@ -0,0 +1,556 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MasterMenuService } from '@/lib/services/master-menu.service';
+import {
+  EffectiveMenuItem,
+  MasterMenuItem,
+  MENU_CHANGE_LABELS,
+  MenuOverride,
+  MenuPublishScope,
+  OverrideLevel,
+  PublishPreview,
+} from '@/lib/types/master-menu.types';
+import { useToast } from '../../components/ToastProvider';
+
+interface ItemFormData {
+  name: string;
+  description: string;
+  price: string;
+  active: boolean;
+  categoryIds: string;
+  modifierGroupIds: string;
+}
+
+interface OverrideFormData {
+  level: OverrideLevel;
+  scope: string;
+  available: '' | 'yes' | 'no';
+  price: string;
+  categoryIds: string;
+  modifierGroupIds: string;
+}
+
+interface ScopeFormData {
+  country: string;
+  region: string;
+  storeIds: string;
+}
+
+const emptyItem: ItemFormData = { name: '', description: '', price: '', active: true, categoryIds: '', modifierGroupIds: '' };
+
+const emptyOverride: OverrideFormData = { level: 'COUNTRY', scope: '', available: '', price: '', categoryIds: '', modifierGroupIds: '' };
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid var(--s-border)',
+  borderRadius: '6px',
+  backgroundColor: 'var(--s-bg)',
+  color: 'var(--s-text)',
+  fontSize: '14px',
+};
+
+const labelStyle = { display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--s-muted)' };
+
+const cellStyle = { padding: '12px 8px', fontSize: '14px' };
+
+const headerStyle = { textAlign: 'left' as const, padding: '12px 8px', fontSize: '14px', fontWeight: '500', color: 'var(--s-muted)' };
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: 'var(--s-secondary)',
+  color: 'var(--s-text)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+};
+
+const primaryButtonStyle = {
+  padding: '8px 16px',
+  backgroundColor: 'var(--s-primary)',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '14px',
+};
+
+const splitList = (value: string) => value.split(',').map((part) => part.trim()).filter(Boolean);
+
+const formatPrice = (value: number) => `£${value.toFixed(2)}`;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  if (typeof value === 'number') return formatPrice(value);
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  return String(value);
+};
+
+const describeOverride = (override: MenuOverride) => {
+  const parts: string[] = [];
+  if (override.available !== null) parts.push(override.available ? 'available' : 'unavailable');
+  if (override.price !== null) parts.push(formatPrice(override.price));
+  if (override.categoryIds !== null) parts.push(`categories: ${formatValue(override.categoryIds)}`);
+  if (override.modifierGroupIds !== null) parts.push(`modifiers: ${formatValue(override.modifierGroupIds)}`);
+  return parts.join(' · ');
+};
+
+export default function MasterMenuPage() {
+  const [items, setItems] = useState<MasterMenuItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<MasterMenuItem | 'new' | null>(null);
+  const [itemForm, setItemForm] = useState<ItemFormData>(emptyItem);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [overrideForm, setOverrideForm] = useState<OverrideFormData>(emptyOverride);
+  const [storeId, setStoreId] = useState('');
+  const [effective, setEffective] = useState<EffectiveMenuItem[] | null>(null);
+  const [scope, setScope] = useState<ScopeFormData>({ country: '', region: '', storeIds: '' });
+  const [preview, setPreview] = useState<PublishPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { showToast } = useToast();
+
+  const selected = items.find((item) => item.id === selectedId) ?? null;
+
+  const loadItems = async () => {
+    try {
+      setItems(await MasterMenuService.getItems());
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to load the master menu');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  const openEditor = (item: MasterMenuItem | 'new') => {
+    setEditing(item);
+    setItemForm(item === 'new' ? emptyItem : {
+      name: item.name,
+      description: item.description ?? '',
+      price: item.price.toFixed(2),
+      active: item.active,
+      categoryIds: item.categoryIds.join(', '),
+      modifierGroupIds: item.modifierGroupIds.join(', '),
+    });
+  };
+
+  const handleSaveItem = async () => {
+    const price = parseFloat(itemForm.price);
+    if (!itemForm.name.trim() || isNaN(price) || price <= 0) {
+      showToast('error', 'Give a name and a price above zero');
+      return;
+    }
+    const input = {
+      name: itemForm.name.trim(),
+      description: itemForm.description.trim() || undefined,
+      price,
+      active: itemForm.active,
+      categoryIds: splitList(itemForm.categoryIds),
+      modifierGroupIds: splitList(itemForm.modifierGroupIds),
+    };
+
+    setBusy(true);
+    const result = editing === 'new' || editing === null
+      ? await MasterMenuService.createItem(input)
+      : await MasterMenuService.updateItem(editing.id, input);
+    setBusy(false);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', `${result.data.name} saved`);
+    setEditing(null);
+    setPreview(null);
+    await loadItems();
+  };
+
+  const handleDeleteItem = async (item: MasterMenuItem) => {
+    if (!confirm(`Remove ${item.name} from the master menu? Stores keep their copies as local items.`)) return;
+
+    const result = await MasterMenuService.deleteItem(item.id);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', `${item.name} removed`);
+    if (selectedId === item.id) setSelectedId(null);
+    await loadItems();
+  };
+
+  const handleSaveOverride = async () => {
+    if (!selected) return;
+    if (!overrideForm.scope.trim()) {
+      showToast('error', overrideForm.level === 'STORE' ? 'Give a store ID' : `Give a ${overrideForm.level.toLowerCase()}`);
+      return;
+    }
+    const price = overrideForm.price.trim() ? parseFloat(overrideForm.price) : null;
+    if (price !== null && (isNaN(price) || price <= 0)) {
+      showToast('error', 'Price must be above zero');
+      return;
+    }
+
+    setBusy(true);
+    const result = await MasterMenuService.setOverride(selected.id, {
+      level: overrideForm.level,
+      scope: overrideForm.scope.trim(),
+      available: overrideForm.available === '' ? null : overrideForm.available === 'yes',
+      price,
+      categoryIds: overrideForm.categoryIds.trim() ? splitList(overrideForm.categoryIds) : null,
+      modifierGroupIds: overrideForm.modifierGroupIds.trim() ? splitList(overrideForm.modifierGroupIds) : null,
+    });
+    setBusy(false);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', 'Override saved');
+    setOverrideForm(emptyOverride);
+    setPreview(null);
+    await loadItems();
+  };
+
+  const handleDeleteOverride = async (override: MenuOverride) => {
+    const result = await MasterMenuService.deleteOverride(override.id);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', 'Override removed');
+    setPreview(null);
+    await loadItems();
+  };
+
+  const handleLoadEffective = async () => {
+    if (!storeId.trim()) return;
+    try {
+      setEffective(await MasterMenuService.getEffectiveMenu(storeId.trim()));
+    } catch (err) {
+      setEffective(null);
+      showToast('error', err instanceof Error ? err.message : 'Failed to load the store menu');
+    }
+  };
+
+  const publishScope = (): MenuPublishScope => {
+    const storeIds = splitList(scope.storeIds);
+    return {
+      country: scope.country.trim() || undefined,
+      region: scope.region.trim() || undefined,
+      storeIds: storeIds.length > 0 ? storeIds : undefined,
+    };
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    const result = await MasterMenuService.previewPublish(publishScope());
+    setBusy(false);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    setPreview(result.data);
+  };
+
+  const handlePublish = async () => {
+    if (!preview || preview.storesChanged === 0) return;
+    if (!confirm(`Push the master menu to ${preview.storesChanged} store${preview.storesChanged !== 1 ? 's' : ''}?`)) return;
+
+    setBusy(true);
+    const result = await MasterMenuService.publish(publishScope());
+    setBusy(false);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', `Published to ${result.data.storesChanged} store${result.data.storesChanged !== 1 ? 's' : ''}`);
+    setPreview(null);
+    await loadItems();
+    if (effective) await handleLoadEffective();
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+      <section className="s-panel">
+        <div className="s-panelCard">
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
+            <div>
+              <p className="s-panelT">Master Menu</p>
+              <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px' }}>
+                Chain-wide items with country, region and store overrides. Changes reach stores when published.
+              </p>
+            </div>
+            <button onClick={() => openEditor('new')} style={primaryButtonStyle}>Add item</button>
+          </div>
+
+          {editing && (
+            <div style={{ border: '1px solid var(--s-border)', borderRadius: '6px', padding: '16px', marginBottom: '16px' }}>
+              <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '12px' }}>
+                <div>
+                  <label style={labelStyle}>Name</label>
+                  <input value={itemForm.name} onChange={(e) => setItemForm({ ...itemForm, name: e.target.value })} style={inputStyle} />
+                </div>
+                <div>
+                  <label style={labelStyle}>Price</label>
+                  <input value={itemForm.price} onChange={(e) => setItemForm({ ...itemForm, price: e.target.value })} style={inputStyle} placeholder="6.50" />
+                </div>
+                <div style={{ gridColumn: '1 / -1' }}>
+                  <label style={labelStyle}>Description</label>
+                  <input value={itemForm.description} onChange={(e) => setItemForm({ ...itemForm, description: e.target.value })} style={inputStyle} />
+                </div>
+                <div>
+                  <label style={labelStyle}>Category IDs (comma separated)</label>
+                  <input value={itemForm.categoryIds} onChange={(e) => setItemForm({ ...itemForm, categoryIds: e.target.value })} style={inputStyle} />
+                </div>
+                <div>
+                  <label style={labelStyle}>Modifier group IDs</label>
+                  <input value={itemForm.modifierGroupIds} onChange={(e) => setItemForm({ ...itemForm, modifierGroupIds: e.target.value })} style={inputStyle} />
+                </div>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '12px' }}>
+                <label style={{ fontSize: '14px', display: 'flex', gap: '8px', alignItems: 'center' }}>
+                  <input type="checkbox" checked={itemForm.active} onChange={(e) => setItemForm({ ...itemForm, active: e.target.checked })} />
+                  Active
+                </label>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <button onClick={() => setEditing(null)} style={buttonStyle}>Cancel</button>
+                  <button onClick={handleSaveItem} disabled={busy} style={primaryButtonStyle}>Save</button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div style={{ padding: '24px', color: 'var(--s-muted)' }}>Loading master menu...</div>
+          ) : items.length === 0 ? (
+            <div style={{ padding: '24px', color: 'var(--s-muted)' }}>No master menu items yet</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                  <th style={headerStyle}>Item</th>
+                  <th style={headerStyle}>Price</th>
+                  <th style={headerStyle}>Status</th>
+                  <th style={headerStyle}>Overrides</th>
+                  <th style={headerStyle}>Stores</th>
+                  <th style={headerStyle}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr
+                    key={item.id}
+                    style={{
+                      borderBottom: '1px solid var(--s-border)',
+                      backgroundColor: item.id === selectedId ? 'var(--s-secondary)' : undefined,
+                    }}
+                  >
+                    <td style={cellStyle}>
+                      <button
+                        onClick={() => setSelectedId(item.id === selectedId ? null : item.id)}
+                        style={{ background: 'none', border: 'none', color: 'var(--s-primary)', cursor: 'pointer', fontSize: '14px', padding: 0 }}
+                      >
+                        {item.name}
+                      </button>
+                    </td>
+                    <td style={cellStyle}>{formatPrice(item.price)}</td>
+                    <td style={cellStyle}>{item.active ? 'Active' : 'Inactive'}</td>
+                    <td style={cellStyle}>{item.overrides.length}</td>
+                    <td style={cellStyle}>{item.storeCount}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>
+                      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+                        <button onClick={() => openEditor(item)} style={buttonStyle}>Edit</button>
+                        <button onClick={() => handleDeleteItem(item)} style={buttonStyle}>Delete</button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </section>
+
+      {selected && (
+        <section className="s-panel">
+          <div className="s-panelCard">
+            <p className="s-panelT">Overrides for {selected.name}</p>
+            <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px', marginBottom: '16px' }}>
+              Country, then region, then store: the most specific override that sets a field wins. Blank fields inherit.
+            </p>
+
+            {selected.overrides.length === 0 ? (
+              <div style={{ paddingBottom: '16px', color: 'var(--s-muted)', fontSize: '14px' }}>No overrides; every store gets the master item</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '16px' }}>
+                <tbody>
+                  {selected.overrides.map((override) => (
+                    <tr key={override.id} style={{ borderBottom: '1px solid var(--s-border)' }}>
+                      <td style={{ ...cellStyle, color: 'var(--s-muted)', width: '100px' }}>{override.level}</td>
+                      <td style={cellStyle}>{override.scope}</td>
+                      <td style={cellStyle}>{describeOverride(override)}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>
+                        <button onClick={() => handleDeleteOverride(override)} style={buttonStyle}>Remove</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: '12px', alignItems: 'end' }}>
+              <div>
+                <label style={labelStyle}>Level</label>
+                <select
+                  value={overrideForm.level}
+                  onChange={(e) => setOverrideForm({ ...overrideForm, level: e.target.value as OverrideLevel })}
+                  className="s-select"
+                >
+                  <option value="COUNTRY">Country</option>
+                  <option value="REGION">Region</option>
+                  <option value="STORE">Store</option>
+                </select>
+              </div>
+              <div>
+                <label style={labelStyle}>{overrideForm.level === 'STORE' ? 'Store ID' : overrideForm.level === 'REGION' ? 'Region' : 'Country'}</label>
+                <input value={overrideForm.scope} onChange={(e) => setOverrideForm({ ...overrideForm, scope: e.target.value })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Availability</label>
+                <select
+                  value={overrideForm.available}
+                  onChange={(e) => setOverrideForm({ ...overrideForm, available: e.target.value as OverrideFormData['available'] })}
+                  className="s-select"
+                >
+                  <option value="">Inherit</option>
+                  <option value="yes">Available</option>
+                  <option value="no">Unavailable</option>
+                </select>
+              </div>
+              <div>
+                <label style={labelStyle}>Price</label>
+                <input value={overrideForm.price} onChange={(e) => setOverrideForm({ ...overrideForm, price: e.target.value })} style={inputStyle} placeholder="Inherit" />
+              </div>
+              <div style={{ gridColumn: 'span 2' }}>
+                <label style={labelStyle}>Category IDs</label>
+                <input value={overrideForm.categoryIds} onChange={(e) => setOverrideForm({ ...overrideForm, categoryIds: e.target.value })} style={inputStyle} placeholder="Inherit" />
+              </div>
+              <div style={{ gridColumn: 'span 2' }}>
+                <label style={labelStyle}>Modifier group IDs</label>
+                <input value={overrideForm.modifierGroupIds} onChange={(e) => setOverrideForm({ ...overrideForm, modifierGroupIds: e.target.value })} style={inputStyle} placeholder="Inherit" />
+              </div>
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '12px' }}>
+              <button onClick={handleSaveOverride} disabled={busy} style={primaryButtonStyle}>Save override</button>
+            </div>
+          </div>
+        </section>
+      )}
+
+      <section className="s-panel">
+        <div className="s-panelCard">
+          <p className="s-panelT">Store menu</p>
+          <div style={{ display: 'flex', gap: '8px', marginTop: '12px', marginBottom: '16px' }}>
+            <input value={storeId} onChange={(e) => setStoreId(e.target.value)} style={{ ...inputStyle, maxWidth: '320px' }} placeholder="Store ID" />
+            <button onClick={handleLoadEffective} style={buttonStyle}>Show effective menu</button>
+          </div>
+          {effective && (
+            effective.length === 0 ? (
+              <div style={{ color: 'var(--s-muted)', fontSize: '14px' }}>The master menu is empty</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                    <th style={headerStyle}>Item</th>
+                    <th style={headerStyle}>Price</th>
+                    <th style={headerStyle}>Available</th>
+                    <th style={headerStyle}>Modifier groups</th>
+                    <th style={headerStyle}>Published</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {effective.map((item) => (
+                    <tr key={item.masterItemId} style={{ borderBottom: '1px solid var(--s-border)', opacity: item.available ? 1 : 0.6 }}>
+                      <td style={cellStyle}>{item.name}</td>
+                      <td style={cellStyle}>
+                        {formatPrice(item.price)} <span style={{ fontSize: '12px', color: 'var(--s-muted)' }}>{item.sources.price.toLowerCase()}</span>
+                      </td>
+                      <td style={cellStyle}>
+                        {item.available ? 'Yes' : 'No'} <span style={{ fontSize: '12px', color: 'var(--s-muted)' }}>{item.sources.available.toLowerCase()}</span>
+                      </td>
+                      <td style={cellStyle}>{formatValue(item.modifierGroupIds)}</td>
+                      <td style={cellStyle}>{item.pendingAction ? `Pending: ${MENU_CHANGE_LABELS[item.pendingAction]}` : 'Up to date'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          )}
+        </div>
+      </section>
+
+      <section className="s-panel">
+        <div className="s-panelCard">
+          <p className="s-panelT">Push to stores</p>
+          <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px', marginBottom: '16px' }}>
+            Leave every field blank to publish to all of your stores. Preview first to see which stores change.
+          </p>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 2fr auto', gap: '12px', alignItems: 'end' }}>
+            <div>
+              <label style={labelStyle}>Country</label>
+              <input value={scope.country} onChange={(e) => { setScope({ ...scope, country: e.target.value }); setPreview(null); }} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Region</label>
+              <input value={scope.region} onChange={(e) => { setScope({ ...scope, region: e.target.value }); setPreview(null); }} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Store IDs</label>
+              <input value={scope.storeIds} onChange={(e) => { setScope({ ...scope, storeIds: e.target.value }); setPreview(null); }} style={inputStyle} />
+            </div>
+            <button onClick={handlePreview} disabled={busy} style={buttonStyle}>Preview</button>
+          </div>
+
+          {preview && (
+            <div style={{ marginTop: '16px' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+                <p style={{ fontSize: '14px' }}>
+                  {preview.storesChanged} of {preview.storesInScope} store{preview.storesInScope !== 1 ? 's' : ''} change:
+                  {' '}{preview.totals.create ?? 0} added · {preview.totals.link ?? 0} adopted · {preview.totals.update ?? 0} updated
+                  · {preview.totals.deactivate ?? 0} withdrawn
+                </p>
+                <button onClick={handlePublish} disabled={busy || preview.storesChanged === 0} style={primaryButtonStyle}>
+                  Publish
+                </button>
+              </div>
+              {preview.stores.map((store) => (
+                <div key={store.storeId} style={{ border: '1px solid var(--s-border)', borderRadius: '6px', padding: '12px 16px', marginBottom: '8px' }}>
+                  <a href={`/stores/${store.storeId}`} style={{ fontSize: '14px', fontWeight: 500, color: 'var(--s-primary)' }}>{store.storeName}</a>
+                  <ul style={{ margin: '8px 0 0', paddingLeft: '16px', fontSize: '14px' }}>
+                    {store.changes.map((change) => (
+                      <li key={change.masterItemId}>
+                        <strong>{MENU_CHANGE_LABELS[change.action]}</strong> {change.name}
+                        {Object.entries(change.fields).length > 0 && (
+                          <span style={{ color: 'var(--s-muted)' }}>
+                            {' — '}
+                            {Object.entries(change.fields)
+                              .map(([field, { from, to }]) => `${field}: ${formatValue(from)} → ${formatValue(to)}`)
+                              .join('; ')}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,627 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MenuVersionService } from '@/lib/services/menu-version.service';
+import { MENU_CHANGE_LABELS, PublishPreview } from '@/lib/types/master-menu.types';
+import {
+  EntryDiff,
+  MenuDiff,
+  MenuRollout,
+  MenuVersion,
+  MenuVersionSummary,
+  ROLLOUT_STATUS_LABELS,
+  VERSION_STATUS_LABELS,
+  VersionItem,
+  VersionStatus,
+} from '@/lib/types/menu-version.types';
+import { useToast } from '../../components/ToastProvider';
+
+type ContentTab = 'items' | 'categories' | 'modifiers';
+
+interface ItemEdit {
+  id: string;
+  name: string;
+  price: string;
+  active: boolean;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid var(--s-border)',
+  borderRadius: '6px',
+  backgroundColor: 'var(--s-bg)',
+  color: 'var(--s-text)',
+  fontSize: '14px',
+};
+
+const labelStyle = { display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--s-muted)' };
+
+const cellStyle = { padding: '12px 8px', fontSize: '14px' };
+
+const headerStyle = { textAlign: 'left' as const, padding: '12px 8px', fontSize: '14px', fontWeight: '500', color: 'var(--s-muted)' };
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: 'var(--s-secondary)',
+  color: 'var(--s-text)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+};
+
+const primaryButtonStyle = {
+  padding: '8px 16px',
+  backgroundColor: 'var(--s-primary)',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '14px',
+};
+
+const statusColors: Record<VersionStatus, { bg: string; color: string }> = {
+  DRAFT: { bg: 'var(--s-secondary)', color: 'var(--s-muted)' },
+  IN_REVIEW: { bg: 'var(--s-warning-bg)', color: 'var(--s-warning)' },
+  APPROVED: { bg: 'var(--s-success-bg)', color: 'var(--s-success)' },
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== null)
+      .map(([key, entry]) => `${key} ${formatValue(entry)}`)
+      .join(', ') || 'inherit';
+  }
+  return String(value);
+};
+
+function StatusBadge({ status }: { status: VersionStatus }) {
+  const colors = statusColors[status];
+  return (
+    <span style={{ padding: '2px 8px', borderRadius: '12px', fontSize: '12px', backgroundColor: colors.bg, color: colors.color }}>
+      {VERSION_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+function DiffSection({ title, entries }: { title: string; entries: EntryDiff[] }) {
+  if (entries.length === 0) return null;
+  return (
+    <div style={{ marginTop: '12px' }}>
+      <p style={{ fontSize: '14px', fontWeight: 500, marginBottom: '4px' }}>{title}</p>
+      <ul style={{ margin: 0, paddingLeft: '16px', fontSize: '14px' }}>
+        {entries.map((entry) => (
+          <li key={entry.id}>
+            <strong>{entry.change}</strong> {entry.name}
+            {Object.entries(entry.fields).map(([field, { from, to }]) => (
+              <div key={field} style={{ color: 'var(--s-muted)' }}>
+                {field}: {formatValue(from)} → {formatValue(to)}
+              </div>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function MenuVersionsPage() {
+  const [versions, setVersions] = useState<MenuVersionSummary[]>([]);
+  const [selected, setSelected] = useState<MenuVersion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [copyFrom, setCopyFrom] = useState('');
+  const [tab, setTab] = useState<ContentTab>('items');
+  const [itemEdit, setItemEdit] = useState<ItemEdit | null>(null);
+  const [market, setMarket] = useState('');
+  const [goLiveAt, setGoLiveAt] = useState('');
+  const [preview, setPreview] = useState<PublishPreview | null>(null);
+  const [diffFrom, setDiffFrom] = useState('');
+  const [diffTo, setDiffTo] = useState('');
+  const [diff, setDiff] = useState<MenuDiff | null>(null);
+  const { showToast } = useToast();
+
+  const loadVersions = async () => {
+    try {
+      setVersions(await MenuVersionService.getVersions());
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to load menu versions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectVersion = async (id: string) => {
+    try {
+      setSelected(await MenuVersionService.getVersion(id));
+      setItemEdit(null);
+      setPreview(null);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to load the version');
+    }
+  };
+
+  useEffect(() => {
+    loadVersions();
+  }, []);
+
+  // Runs a version mutation, then shows the updated version
+  const run = async (action: () => Promise<{ success: true; data: MenuVersion } | { success: false; error: string }>, message: string) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', message);
+    setSelected(result.data);
+    setItemEdit(null);
+    await loadVersions();
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      showToast('error', 'Give the version a name');
+      return;
+    }
+    await run(() => MenuVersionService.createVersion({ name: newName.trim(), fromVersionId: copyFrom || undefined }), 'Draft created');
+    setNewName('');
+    setCopyFrom('');
+  };
+
+  const handleDelete = async (version: MenuVersion) => {
+    if (!confirm(`Delete draft v${version.number} ${version.name}?`)) return;
+    const result = await MenuVersionService.deleteVersion(version.id);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', 'Draft deleted');
+    setSelected(null);
+    await loadVersions();
+  };
+
+  const handleReview = async (version: MenuVersion, approve: boolean) => {
+    const notes = prompt(approve ? 'Review notes (optional)' : 'What needs to change?');
+    if (notes === null) return;
+    await run(
+      () => (approve ? MenuVersionService.approve(version.id, notes || undefined) : MenuVersionService.reject(version.id, notes || undefined)),
+      approve ? 'Version approved' : 'Version sent back to draft',
+    );
+  };
+
+  const handleSaveItem = async (version: MenuVersion) => {
+    if (!itemEdit) return;
+    const price = parseFloat(itemEdit.price);
+    if (!itemEdit.name.trim() || isNaN(price) || price <= 0) {
+      showToast('error', 'Give a name and a price above zero');
+      return;
+    }
+    await run(
+      () => MenuVersionService.editItem(version.id, itemEdit.id, { name: itemEdit.name.trim(), price, active: itemEdit.active }),
+      'Item updated',
+    );
+  };
+
+  const handleModifierPrice = async (version: MenuVersion, groupId: string, modifierId: string, current: number) => {
+    const value = prompt('Price adjustment', current.toFixed(2));
+    if (value === null) return;
+    const priceAdjustment = parseFloat(value);
+    if (isNaN(priceAdjustment)) {
+      showToast('error', 'Enter a number');
+      return;
+    }
+    await run(
+      () => MenuVersionService.editModifierGroup(version.id, groupId, { modifiers: [{ id: modifierId, priceAdjustment }] }),
+      'Modifier updated',
+    );
+  };
+
+  const handlePreview = async (version: MenuVersion) => {
+    if (!market.trim()) {
+      showToast('error', 'Give a market (country)');
+      return;
+    }
+    setBusy(true);
+    const result = await MenuVersionService.preview(version.id, market.trim());
+    setBusy(false);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    setPreview(result.data);
+  };
+
+  const handleSchedule = async (version: MenuVersion) => {
+    if (!market.trim()) {
+      showToast('error', 'Give a market (country)');
+      return;
+    }
+    const when = goLiveAt ? new Date(goLiveAt) : null;
+    if (!confirm(when
+      ? `Schedule v${version.number} to go live in ${market.trim()} on ${when.toLocaleString()}?`
+      : `Publish v${version.number} to ${market.trim()} now?`)) return;
+
+    setBusy(true);
+    const result = await MenuVersionService.schedule(version.id, market.trim(), when?.toISOString());
+    setBusy(false);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', result.data.status === 'LIVE' ? `Live in ${result.data.market}` : `Scheduled for ${result.data.market}`);
+    setPreview(null);
+    await selectVersion(version.id);
+    await loadVersions();
+  };
+
+  const handleRollout = async (rollout: MenuRollout, action: 'cancel' | 'rollback') => {
+    if (action === 'rollback' && !confirm(`Roll ${rollout.market} back to the version live before v${rollout.version.number}?`)) return;
+
+    setBusy(true);
+    const result = action === 'cancel'
+      ? await MenuVersionService.cancelRollout(rollout.id)
+      : await MenuVersionService.rollback(rollout.id);
+    setBusy(false);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', action === 'cancel' ? 'Rollout cancelled' : `${rollout.market} is back on v${result.data.version.number}`);
+    if (selected) await selectVersion(selected.id);
+    await loadVersions();
+  };
+
+  const handleDiff = async () => {
+    if (!diffFrom || !diffTo) return;
+    try {
+      setDiff(await MenuVersionService.getDiff(diffFrom, diffTo));
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to compare versions');
+    }
+  };
+
+  const renderItemRow = (version: MenuVersion, item: VersionItem) => {
+    const editable = version.status === 'DRAFT';
+    if (itemEdit?.id === item.id) {
+      return (
+        <tr key={item.id} style={{ borderBottom: '1px solid var(--s-border)' }}>
+          <td style={cellStyle}>
+            <input value={itemEdit.name} onChange={(e) => setItemEdit({ ...itemEdit, name: e.target.value })} style={inputStyle} />
+          </td>
+          <td style={cellStyle}>
+            <input value={itemEdit.price} onChange={(e) => setItemEdit({ ...itemEdit, price: e.target.value })} style={{ ...inputStyle, width: '100px' }} />
+          </td>
+          <td style={cellStyle}>
+            <input type="checkbox" checked={itemEdit.active} onChange={(e) => setItemEdit({ ...itemEdit, active: e.target.checked })} />
+          </td>
+          <td style={cellStyle}>{item.overrides.length}</td>
+          <td style={{ ...cellStyle, textAlign: 'right' }}>
+            <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+              <button onClick={() => setItemEdit(null)} style={buttonStyle}>Cancel</button>
+              <button onClick={() => handleSaveItem(version)} disabled={busy} style={buttonStyle}>Save</button>
+            </div>
+          </td>
+        </tr>
+      );
+    }
+    return (
+      <tr key={item.id} style={{ borderBottom: '1px solid var(--s-border)', opacity: item.active ? 1 : 0.6 }}>
+        <td style={cellStyle}>{item.name}</td>
+        <td style={cellStyle}>£{item.price.toFixed(2)}</td>
+        <td style={cellStyle}>{item.active ? 'Active' : 'Inactive'}</td>
+        <td style={cellStyle}>{item.overrides.length}</td>
+        <td style={{ ...cellStyle, textAlign: 'right' }}>
+          {editable && (
+            <button
+              onClick={() => setItemEdit({ id: item.id, name: item.name, price: item.price.toFixed(2), active: item.active })}
+              style={buttonStyle}
+            >
+              Edit
+            </button>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+      <section className="s-panel">
+        <div className="s-panelCard">
+          <p className="s-panelT">Menu Versions</p>
+          <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px', marginBottom: '16px' }}>
+            Drafts snapshot the master menu, categories and modifiers. Approved versions go live per market at a scheduled time.
+          </p>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr auto', gap: '12px', alignItems: 'end', marginBottom: '16px' }}>
+            <div>
+              <label style={labelStyle}>New draft</label>
+              <input value={newName} onChange={(e) => setNewName(e.target.value)} style={inputStyle} placeholder="e.g. Summer 2025" />
+            </div>
+            <div>
+              <label style={labelStyle}>Start from</label>
+              <select value={copyFrom} onChange={(e) => setCopyFrom(e.target.value)} className="s-select">
+                <option value="">Current master menu</option>
+                {versions.map((version) => (
+                  <option key={version.id} value={version.id}>v{version.number} {version.name}</option>
+                ))}
+              </select>
+            </div>
+            <button onClick={handleCreate} disabled={busy} style={primaryButtonStyle}>Create draft</button>
+          </div>
+
+          {loading ? (
+            <div style={{ padding: '24px', color: 'var(--s-muted)' }}>Loading versions...</div>
+          ) : versions.length === 0 ? (
+            <div style={{ padding: '24px', color: 'var(--s-muted)' }}>No menu versions yet</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                  <th style={headerStyle}>Version</th>
+                  <th style={headerStyle}>Status</th>
+                  <th style={headerStyle}>Live in</th>
+                  <th style={headerStyle}>Items</th>
+                  <th style={headerStyle}>Created</th>
+                </tr>
+              </thead>
+              <tbody>
+                {versions.map((version) => (
+                  <tr
+                    key={version.id}
+                    onClick={() => selectVersion(version.id)}
+                    style={{
+                      borderBottom: '1px solid var(--s-border)',
+                      cursor: 'pointer',
+                      backgroundColor: version.id === selected?.id ? 'var(--s-secondary)' : undefined,
+                    }}
+                  >
+                    <td style={cellStyle}>v{version.number} {version.name}</td>
+                    <td style={cellStyle}><StatusBadge status={version.status} /></td>
+                    <td style={cellStyle}>{version.liveMarkets.length > 0 ? version.liveMarkets.join(', ') : '—'}</td>
+                    <td style={cellStyle}>{version.counts.items}</td>
+                    <td style={cellStyle}>{formatTime(version.createdAt)} by {version.createdBy}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </section>
+
+      {selected && (
+        <section className="s-panel">
+          <div className="s-panelCard">
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '12px', flexWrap: 'wrap' }}>
+              <div>
+                <p className="s-panelT">v{selected.number} {selected.name} <StatusBadge status={selected.status} /></p>
+                {selected.notes && <p style={{ fontSize: '14px', marginTop: '4px' }}>{selected.notes}</p>}
+                {selected.reviewNotes && (
+                  <p style={{ fontSize: '14px', marginTop: '4px', color: 'var(--s-muted)' }}>
+                    Review by {selected.reviewedBy}: {selected.reviewNotes}
+                  </p>
+                )}
+              </div>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                {selected.status === 'DRAFT' && (
+                  <>
+                    <button onClick={() => run(() => MenuVersionService.refresh(selected.id), 'Draft refreshed from the master menu')} disabled={busy} style={buttonStyle}>
+                      Refresh from master
+                    </button>
+                    <button onClick={() => run(() => MenuVersionService.submit(selected.id), 'Submitted for review')} disabled={busy} style={buttonStyle}>
+                      Submit for review
+                    </button>
+                    <button onClick={() => handleDelete(selected)} disabled={busy} style={buttonStyle}>Delete</button>
+                  </>
+                )}
+                {selected.status === 'IN_REVIEW' && (
+                  <>
+                    <button onClick={() => handleReview(selected, true)} disabled={busy} style={buttonStyle}>Approve</button>
+                    <button onClick={() => handleReview(selected, false)} disabled={busy} style={buttonStyle}>Reject</button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div style={{ display: 'flex', gap: '8px', margin: '16px 0' }}>
+              {(['items', 'categories', 'modifiers'] as ContentTab[]).map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setTab(key)}
+                  style={{ ...buttonStyle, fontWeight: tab === key ? 600 : 400, borderColor: tab === key ? 'var(--s-primary)' : 'var(--s-border)' }}
+                >
+                  {key === 'items' ? `Items (${selected.content.items.length})`
+                    : key === 'categories' ? `Categories (${selected.content.categories.length})`
+                    : `Modifier groups (${selected.content.modifierGroups.length})`}
+                </button>
+              ))}
+            </div>
+
+            {tab === 'items' && (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                    <th style={headerStyle}>Item</th>
+                    <th style={headerStyle}>Price</th>
+                    <th style={headerStyle}>Status</th>
+                    <th style={headerStyle}>Overrides</th>
+                    <th style={headerStyle}></th>
+                  </tr>
+                </thead>
+                <tbody>{selected.content.items.map((item) => renderItemRow(selected, item))}</tbody>
+              </table>
+            )}
+
+            {tab === 'categories' && (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                  {selected.content.categories.map((category) => (
+                    <tr key={category.id} style={{ borderBottom: '1px solid var(--s-border)', opacity: category.active ? 1 : 0.6 }}>
+                      <td style={cellStyle}>{category.name}</td>
+                      <td style={cellStyle}>{category.active ? 'Active' : 'Inactive'}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>
+                        {selected.status === 'DRAFT' && (
+                          <button
+                            onClick={() => run(
+                              () => MenuVersionService.editCategory(selected.id, category.id, { active: !category.active }),
+                              'Category updated',
+                            )}
+                            disabled={busy}
+                            style={buttonStyle}
+                          >
+                            {category.active ? 'Deactivate' : 'Activate'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {tab === 'modifiers' && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                {selected.content.modifierGroups.map((group) => (
+                  <div key={group.id} style={{ border: '1px solid var(--s-border)', borderRadius: '6px', padding: '12px 16px' }}>
+                    <p style={{ fontSize: '14px', fontWeight: 500 }}>{group.name}{!group.active && ' (inactive)'}</p>
+                    <ul style={{ margin: '8px 0 0', paddingLeft: '16px', fontSize: '14px' }}>
+                      {group.modifiers.map((modifier) => (
+                        <li key={modifier.id}>
+                          {modifier.name} {modifier.priceAdjustment >= 0 ? '+' : '−'}£{Math.abs(modifier.priceAdjustment).toFixed(2)}
+                          {selected.status === 'DRAFT' && (
+                            <button
+                              onClick={() => handleModifierPrice(selected, group.id, modifier.id, modifier.priceAdjustment)}
+                              style={{ ...buttonStyle, marginLeft: '8px' }}
+                            >
+                              Change price
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selected.status === 'APPROVED' && (
+              <div style={{ marginTop: '24px' }}>
+                <p style={{ fontSize: '14px', fontWeight: 500, marginBottom: '8px' }}>Roll out to a market</p>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto auto', gap: '12px', alignItems: 'end' }}>
+                  <div>
+                    <label style={labelStyle}>Market (country, or ALL to change shared categories and modifiers)</label>
+                    <input value={market} onChange={(e) => { setMarket(e.target.value); setPreview(null); }} style={inputStyle} />
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Go live at (blank for now)</label>
+                    <input type="datetime-local" value={goLiveAt} onChange={(e) => setGoLiveAt(e.target.value)} style={inputStyle} />
+                  </div>
+                  <button onClick={() => handlePreview(selected)} disabled={busy} style={buttonStyle}>Preview</button>
+                  <button onClick={() => handleSchedule(selected)} disabled={busy} style={primaryButtonStyle}>
+                    {goLiveAt ? 'Schedule' : 'Publish now'}
+                  </button>
+                </div>
+                {preview && (
+                  <p style={{ fontSize: '14px', marginTop: '12px', color: 'var(--s-muted)' }}>
+                    {preview.storesChanged} of {preview.storesInScope} stores would change:
+                    {' '}{(Object.keys(MENU_CHANGE_LABELS) as Array<keyof typeof MENU_CHANGE_LABELS>)
+                      .map((action) => `${preview.totals[action] ?? 0} ${MENU_CHANGE_LABELS[action].toLowerCase()}`)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {selected.rollouts.length > 0 && (
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '24px' }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                    <th style={headerStyle}>Market</th>
+                    <th style={headerStyle}>Go live</th>
+                    <th style={headerStyle}>Status</th>
+                    <th style={headerStyle}>Result</th>
+                    <th style={headerStyle}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.rollouts.map((rollout) => (
+                    <tr key={rollout.id} style={{ borderBottom: '1px solid var(--s-border)' }}>
+                      <td style={cellStyle}>{rollout.market}</td>
+                      <td style={cellStyle}>{formatTime(rollout.goLiveAt)}</td>
+                      <td style={cellStyle}>
+                        {ROLLOUT_STATUS_LABELS[rollout.status]}
+                        {rollout.rolledBackBy && ` by ${rollout.rolledBackBy}`}
+                      </td>
+                      <td style={{ ...cellStyle, color: 'var(--s-muted)' }}>
+                        {rollout.error
+                          ?? (rollout.result
+                            ? `${rollout.result.storesChanged} of ${rollout.result.storesInScope} stores changed` +
+                              (rollout.result.skippedItems.length > 0 ? `; skipped ${rollout.result.skippedItems.join(', ')}` : '')
+                            : '—')}
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>
+                        {rollout.status === 'SCHEDULED' && (
+                          <button onClick={() => handleRollout(rollout, 'cancel')} disabled={busy} style={buttonStyle}>Cancel</button>
+                        )}
+                        {rollout.status === 'LIVE' && rollout.previousRolloutId && (
+                          <button onClick={() => handleRollout(rollout, 'rollback')} disabled={busy} style={buttonStyle}>Roll back</button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </section>
+      )}
+
+      <section className="s-panel">
+        <div className="s-panelCard">
+          <p className="s-panelT">Compare versions</p>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '12px', alignItems: 'end', marginTop: '12px' }}>
+            <div>
+              <label style={labelStyle}>From</label>
+              <select value={diffFrom} onChange={(e) => setDiffFrom(e.target.value)} className="s-select">
+                <option value="">Select a version</option>
+                {versions.map((version) => (
+                  <option key={version.id} value={version.id}>v{version.number} {version.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label style={labelStyle}>To</label>
+              <select value={diffTo} onChange={(e) => setDiffTo(e.target.value)} className="s-select">
+                <option value="">Select a version</option>
+                {versions.map((version) => (
+                  <option key={version.id} value={version.id}>v{version.number} {version.name}</option>
+                ))}
+              </select>
+            </div>
+            <button onClick={handleDiff} disabled={!diffFrom || !diffTo} style={buttonStyle}>Compare</button>
+          </div>
+          {diff && (
+            diff.unchanged ? (
+              <p style={{ fontSize: '14px', marginTop: '12px', color: 'var(--s-muted)' }}>The versions are identical</p>
+            ) : (
+              <>
+                <DiffSection title="Items" entries={diff.items} />
+                <DiffSection title="Categories" entries={diff.categories} />
+                <DiffSection title="Modifier groups" entries={diff.modifierGroups} />
+              </>
+            )
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { bff } from '../../../lib/api';
 import { useToast } from '../../components/ToastProvider';
+import { REPORTING_CURRENCIES } from '../../../lib/types/money.types';
+import { formatMoney } from '../../../lib/utils/money';
 import {
   LineChart,
   Line,
@@ -23,6 +25,7 @@ interface AnalyticsSummary {
   totalOrders: number;
   totalRevenue: number;
   avgOrderValue: number;
+  currency: string | null;
   ordersByStatus: Array<{ status: string; count: number }>;
   recentOrders: Array<{
     id: string;
@@ -51,6 +54,7 @@ interface StorePerformance {
     orderCount: number;
     totalRevenue: number;
     avgOrderValue: number;
+    currency: string | null;
   }>;
 }
 
@@ -81,6 +85,8 @@ export default function OrderAnalyticsPage() {
   const { showError } = useToast();
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState('30days');
+  // Blank leaves store revenue in each store's own currency
+  const [currency, setCurrency] = useState('GBP');
   
   const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
   const [trends, setTrends] = useState<TrendData | null>(null);
@@ -90,11 +96,12 @@ export default function OrderAnalyticsPage() {
   const fetchAnalytics = async () => {
     try {
       setLoading(true);
+      const currencyParam = currency ? `&currency=${currency}` : '';
 
       const [summaryData, trendsData, storesData, hoursData] = await Promise.all([
-        bff<AnalyticsSummary>(`/orders/analytics/summary?dateRange=${dateRange}`),
-        bff<TrendData>(`/orders/analytics/trends?days=${dateRange === 'today' ? 1 : dateRange === '7days' ? 7 : dateRange === '30days' ? 30 : 90}`),
-        bff<StorePerformance>(`/orders/analytics/stores?dateRange=${dateRange}`),
+        bff<AnalyticsSummary>(`/orders/analytics/summary?dateRange=${dateRange}${currencyParam}`),
+        bff<TrendData>(`/orders/analytics/trends?days=${dateRange === 'today' ? 1 : dateRange === '7days' ? 7 : dateRange === '30days' ? 30 : 90}${currencyParam}`),
+        bff<StorePerformance>(`/orders/analytics/stores?dateRange=${dateRange}${currencyParam}`),
         bff<PeakHours>(`/orders/analytics/peak-hours?days=${dateRange === 'today' ? 1 : dateRange === '7days' ? 7 : 30}`)
       ]);
 
@@ -112,7 +119,7 @@ export default function OrderAnalyticsPage() {
 
   useEffect(() => {
     fetchAnalytics();
-  }, [dateRange]);
+  }, [dateRange, currency]);
 
   if (loading) {
     return (
@@ -137,7 +144,18 @@ export default function OrderAnalyticsPage() {
               Performance insights and trends across all locations
             </p>
           </div>
-          <div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="s-select"
+              aria-label="Reporting currency"
+            >
+              {REPORTING_CURRENCIES.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+              <option value="">Local currencies</option>
+            </select>
             <select
               value={dateRange}
               onChange={(e) => setDateRange(e.target.value)}
@@ -167,7 +185,7 @@ export default function OrderAnalyticsPage() {
             <div style={{ padding: '20px' }}>
               <div style={{ fontSize: '14px', color: 'var(--s-muted)', marginBottom: '8px' }}>Total Revenue</div>
               <div style={{ fontSize: '32px', fontWeight: '700', color: '#10b981' }}>
-                £{summary?.totalRevenue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) || '0.00'}
+                {formatMoney(summary?.totalRevenue ?? 0, summary?.currency)}
               </div>
             </div>
           </div>
@@ -176,7 +194,7 @@ export default function OrderAnalyticsPage() {
             <div style={{ padding: '20px' }}>
               <div style={{ fontSize: '14px', color: 'var(--s-muted)', marginBottom: '8px' }}>Avg Order Value</div>
               <div style={{ fontSize: '32px', fontWeight: '700', color: '#3b82f6' }}>
-                £{summary?.avgOrderValue.toFixed(2) || '0.00'}
+                {formatMoney(summary?.avgOrderValue ?? 0, summary?.currency)}
               </div>
             </div>
           </div>
@@ -216,7 +234,7 @@ export default function OrderAnalyticsPage() {
                       dataKey="revenue" 
                       stroke="#10b981" 
                       strokeWidth={2}
-                      name="Revenue (£)"
+                      name={currency ? `Revenue (${currency})` : 'Revenue'}
                     />
                   </LineChart>
                 </ResponsiveContainer>
@@ -369,10 +387,10 @@ export default function OrderAnalyticsPage() {
                       <span style={{ fontWeight: '600' }}>{store.orderCount}</span>
                     </div>
                     <div className="orders-cell">
-                      <span className="order-total">£{store.totalRevenue.toFixed(2)}</span>
+                      <span className="order-total">{formatMoney(store.totalRevenue, store.currency)}</span>
                     </div>
                     <div className="orders-cell">
-                      <span>£{store.avgOrderValue.toFixed(2)}</span>
+                      <span>{formatMoney(store.avgOrderValue, store.currency)}</span>
                     </div>
                   </div>
                 ))}
@@ -0,0 +1,357 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { SitePipelineService } from '@/lib/services/site-pipeline.service';
+import { MoveStageSchema, PipelineSite, PipelineStage, StageDefinition, parseChecklist } from '@/lib/types/site-pipeline.types';
+import { TelemetryErrorBoundary } from '@/app/components/TelemetryErrorBoundary';
+import { useToast } from '@/app/components/ToastProvider';
+
+const columnStyle = {
+  minWidth: '240px',
+  flex: '0 0 240px',
+  backgroundColor: 'var(--s-secondary)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '8px',
+  padding: '12px',
+};
+
+const cardStyle = {
+  backgroundColor: 'var(--s-bg)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '6px',
+  padding: '10px',
+  marginBottom: '8px',
+  cursor: 'pointer',
+};
+
+const smallButtonStyle = {
+  padding: '4px 8px',
+  backgroundColor: 'var(--s-secondary)',
+  color: 'var(--s-text)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+};
+
+const labelStyle = { display: 'block', fontSize: '12px', marginBottom: '4px', color: 'var(--s-muted)' };
+
+function isOverdue(site: PipelineSite): boolean {
+  return !!site.dueDate && new Date(site.dueDate) < new Date() && site.stage !== 'OPENED' && site.stage !== 'ABANDONED';
+}
+
+export default function SitePipelinePage() {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [stages, setStages] = useState<StageDefinition[]>([]);
+  const [sites, setSites] = useState<PipelineSite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [ownerFilter, setOwnerFilter] = useState('');
+  const [selected, setSelected] = useState<PipelineSite | null>(null);
+  const [moveOwner, setMoveOwner] = useState('');
+  const [moveDueDate, setMoveDueDate] = useState('');
+  const [moveNote, setMoveNote] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadSites = async () => {
+    try {
+      setLoading(true);
+      const [stageList, siteList] = await Promise.all([
+        stages.length > 0 ? Promise.resolve(stages) : SitePipelineService.getStages(),
+        SitePipelineService.getSites(),
+      ]);
+      setStages(stageList);
+      setSites(siteList);
+    } catch (error) {
+      showToast('error', 'Failed to load the site pipeline');
+      console.error('Error loading site pipeline:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSites();
+  }, []);
+
+  const owners = useMemo(
+    () => Array.from(new Set(sites.map((site) => site.owner).filter((owner): owner is string => !!owner))).sort(),
+    [sites],
+  );
+
+  const openSite = async (site: PipelineSite) => {
+    setMoveOwner(site.owner ?? '');
+    setMoveDueDate('');
+    setMoveNote('');
+    try {
+      setSelected(await SitePipelineService.getSite(site.id));
+    } catch (error) {
+      showToast('error', 'Failed to load site');
+      console.error('Error loading pipeline site:', error);
+    }
+  };
+
+  const applyResult = (result: Awaited<ReturnType<typeof SitePipelineService.moveToStage>>) => {
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    const updated = result.site;
+    setSelected(updated);
+    setSites((current) => current.map((site) => (site.id === updated.id ? updated : site)));
+  };
+
+  const toggleChecklistItem = async (site: PipelineSite, item: string, done: boolean) => {
+    setBusy(true);
+    try {
+      const result = await SitePipelineService.setChecklistItem(site.id, item, done);
+      applyResult(result);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const moveTo = async (site: PipelineSite, stage: PipelineStage) => {
+    let reason: string | undefined;
+    if (stage === 'ABANDONED') {
+      reason = prompt('Why is this site being abandoned?') ?? undefined;
+      if (reason === undefined) return;
+    }
+
+    const parsed = MoveStageSchema.safeParse({
+      stage,
+      owner: moveOwner.trim() || undefined,
+      dueDate: moveDueDate ? new Date(moveDueDate).toISOString() : undefined,
+      note: moveNote.trim() || undefined,
+      reason,
+    });
+    if (!parsed.success) {
+      showToast('error', parsed.error.issues[0].message);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await SitePipelineService.moveToStage(site.id, parsed.data);
+      if (result.success) {
+        showToast('success', `Moved ${result.site.store.name} to ${stages.find((s) => s.stage === stage)?.label ?? stage}`);
+        setMoveDueDate('');
+        setMoveNote('');
+      }
+      applyResult(result);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveAssignment = async (site: PipelineSite) => {
+    setBusy(true);
+    try {
+      const result = await SitePipelineService.assign(site.id, {
+        owner: moveOwner.trim() || null,
+        dueDate: moveDueDate ? new Date(moveDueDate).toISOString() : site.dueDate,
+      });
+      if (result.success) showToast('success', 'Assignment saved');
+      applyResult(result);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const stageIndex = (stage: PipelineStage) => stages.findIndex((s) => s.stage === stage);
+  const selectedStage = selected ? stages.find((s) => s.stage === selected.stage) : undefined;
+  const selectedChecklist = selected ? parseChecklist(selected.checklist) : {};
+  const nextStage = selected && selectedStage && !selectedStage.terminal ? stages[stageIndex(selected.stage) + 1] : undefined;
+  const checklistComplete = selectedStage?.checklist.every((item) => selectedChecklist[item.key]) ?? false;
+
+  return (
+    <TelemetryErrorBoundary>
+      <main>
+        <div className="s-wrap" style={{ maxWidth: 'none' }}>
+          <div className="menu-header-section">
+            <div>
+              <h1 className="s-h1">Site Pipeline</h1>
+              <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '8px' }}>
+                Track expansion sites from suggestion to opened store
+              </p>
+            </div>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+              <select className="s-select" value={ownerFilter} onChange={(e) => setOwnerFilter(e.target.value)}>
+                <option value="">All owners</option>
+                {owners.map((owner) => (
+                  <option key={owner} value={owner}>{owner}</option>
+                ))}
+              </select>
+              <button onClick={() => router.push('/stores/map')} className="s-btn s-btn--secondary">
+                ← Expansion Map
+              </button>
+            </div>
+          </div>
+
+          {loading && sites.length === 0 ? (
+            <div style={{ textAlign: 'center', padding: '40px', color: 'var(--s-muted)' }}>Loading pipeline...</div>
+          ) : (
+            <div style={{ display: 'flex', gap: '12px', overflowX: 'auto', paddingBottom: '12px' }}>
+              {stages.map((stage) => {
+                const column = sites.filter((site) => site.stage === stage.stage && (!ownerFilter || site.owner === ownerFilter));
+                return (
+                  <div key={stage.stage} style={columnStyle}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '12px' }}>
+                      <strong style={{ fontSize: '14px' }}>{stage.label}</strong>
+                      <span style={{ fontSize: '12px', color: 'var(--s-muted)' }}>{column.length}</span>
+                    </div>
+                    {column.map((site) => {
+                      const checklist = parseChecklist(site.checklist);
+                      const done = stage.checklist.filter((item) => checklist[item.key]).length;
+                      return (
+                        <div
+                          key={site.id}
+                          onClick={() => openSite(site)}
+                          style={{
+                            ...cardStyle,
+                            borderColor: selected?.id === site.id ? 'var(--s-primary)' : 'var(--s-border)',
+                          }}
+                        >
+                          <div style={{ fontSize: '14px', fontWeight: 500 }}>{site.store.name}</div>
+                          <div style={{ fontSize: '12px', color: 'var(--s-muted)', marginTop: '2px' }}>
+                            {[site.store.city, site.store.country].filter(Boolean).join(', ') || 'Location TBC'}
+                          </div>
+                          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginTop: '8px' }}>
+                            <span style={{ color: 'var(--s-muted)' }}>{site.owner ?? 'Unassigned'}</span>
+                            {site.dueDate && (
+                              <span style={{ color: isOverdue(site) ? 'var(--s-danger)' : 'var(--s-muted)' }}>
+                                {new Date(site.dueDate).toLocaleDateString()}
+                              </span>
+                            )}
+                          </div>
+                          {stage.checklist.length > 0 && (
+                            <div style={{ fontSize: '12px', color: 'var(--s-muted)', marginTop: '4px' }}>
+                              Checklist {done}/{stage.checklist.length}
+                            </div>
+                          )}
+                          {site.abandonedReason && (
+                            <div style={{ fontSize: '12px', color: 'var(--s-danger)', marginTop: '4px' }}>{site.abandonedReason}</div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {selected && selectedStage && (
+            <div className="s-panel" style={{ marginTop: '24px' }}>
+              <div className="s-panelCard">
+                <div className="s-panelHeader" style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <p className="s-panelT">
+                    {selected.store.name} · {selectedStage.label}
+                  </p>
+                  <button onClick={() => setSelected(null)} style={smallButtonStyle}>Close</button>
+                </div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '24px' }}>
+                  <div>
+                    <p style={{ fontSize: '14px', fontWeight: 500, marginBottom: '8px' }}>{selectedStage.label} checklist</p>
+                    {selectedStage.checklist.length === 0 ? (
+                      <p style={{ fontSize: '14px', color: 'var(--s-muted)' }}>Nothing to complete in this stage</p>
+                    ) : (
+                      selectedStage.checklist.map((item) => {
+                        const entry = selectedChecklist[item.key];
+                        return (
+                          <label key={item.key} style={{ display: 'flex', gap: '8px', fontSize: '14px', marginBottom: '8px' }}>
+                            <input
+                              type="checkbox"
+                              checked={!!entry}
+                              disabled={busy}
+                              onChange={(e) => toggleChecklistItem(selected, item.key, e.target.checked)}
+                            />
+                            <span>
+                              {item.label}
+                              {entry && (
+                                <span style={{ display: 'block', fontSize: '12px', color: 'var(--s-muted)' }}>
+                                  {entry.completedBy} · {new Date(entry.completedAt).toLocaleDateString()}
+                                </span>
+                              )}
+                            </span>
+                          </label>
+                        );
+                      })
+                    )}
+                    {selected.suggestion && (
+                      <p style={{ fontSize: '12px', color: 'var(--s-muted)', marginTop: '12px' }}>
+                        From {selected.scenario?.label ?? 'a deleted scenario'} · {(selected.suggestion.confidence * 100).toFixed(0)}% confidence
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    {!selectedStage.terminal && (
+                      <>
+                        <label style={labelStyle}>Owner</label>
+                        <input className="s-input" value={moveOwner} onChange={(e) => setMoveOwner(e.target.value)} placeholder="owner@example.com" />
+                        <label style={{ ...labelStyle, marginTop: '8px' }}>Due date</label>
+                        <input className="s-input" type="date" value={moveDueDate} onChange={(e) => setMoveDueDate(e.target.value)} />
+                        <label style={{ ...labelStyle, marginTop: '8px' }}>Note for the stage change</label>
+                        <input className="s-input" value={moveNote} onChange={(e) => setMoveNote(e.target.value)} />
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '12px' }}>
+                          <button onClick={() => saveAssignment(selected)} disabled={busy} className="s-btn s-btn--secondary">
+                            Save Assignment
+                          </button>
+                          {nextStage && nextStage.stage !== 'ABANDONED' && (
+                            <button
+                              onClick={() => moveTo(selected, nextStage.stage)}
+                              disabled={busy || !checklistComplete}
+                              title={checklistComplete ? undefined : 'Complete the checklist first'}
+                              className="s-btn"
+                            >
+                              Move to {nextStage.label} →
+                            </button>
+                          )}
+                          {stageIndex(selected.stage) > 0 && (
+                            <button
+                              onClick={() => moveTo(selected, stages[stageIndex(selected.stage) - 1].stage)}
+                              disabled={busy}
+                              className="s-btn s-btn--secondary"
+                            >
+                              ← Back
+                            </button>
+                          )}
+                          <button
+                            onClick={() => moveTo(selected, 'ABANDONED')}
+                            disabled={busy}
+                            style={{ ...smallButtonStyle, color: 'var(--s-danger)' }}
+                          >
+                            Abandon
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  <div>
+                    <p style={{ fontSize: '14px', fontWeight: 500, marginBottom: '8px' }}>History</p>
+                    {(selected.stageChanges ?? []).slice().reverse().map((change) => (
+                      <div key={change.id} style={{ fontSize: '12px', marginBottom: '8px' }}>
+                        <div>
+                          {change.fromStage ? `${change.fromStage} → ` : ''}{change.toStage}
+                          <span style={{ color: 'var(--s-muted)' }}> · {change.changedBy}</span>
+                        </div>
+                        <div style={{ color: 'var(--s-muted)' }}>
+                          {new Date(change.changedAt).toLocaleString()}
+                          {change.note ? ` · ${change.note}` : ''}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </TelemetryErrorBoundary>
+  );
+}
@@ -29,15 +29,52 @@ interface OptimizationResult {
   };
   aiInsights: string;
   warnings: string[];
+  revenueTransfers: {
+    model: 'huff';
+    spendPerCapita: number;
+    calibrated: boolean;
+    populationCells: number;
+    competitors: number;
+    existingStores: Array<{
+      storeId: string;
+      storeName: string;
+      baselineRevenue: number;
+      projectedRevenue: number;
+      loss: number;
+    }>;
+    selectedStores: Array<{
+      candidateId: string;
+      name: string;
+      networkRevenue: number;
+      standaloneRevenue: number;
+      fromExistingStores: Array<{ storeId: string; storeName: string; amount: number }>;
+      fromCompetitors: number;
+      newDemand: number;
+      lostToSelected: Array<{ candidateId: string; name: string; amount: number }>;
+    }>;
+    totalTransferFromExisting: number;
+    totalTransferFromCompetitors: number;
+  } | null;
+  optimality: {
+    objective: number;
+    greedyObjective: number | null;
+    improvementOverGreedy: number | null;
+    upperBound: number;
+    optimalityGap: number;
+    proven: boolean;
+    nodesExplored: number;
+    candidatesConsidered: number;
+  } | null;
 }
 
 export default function PortfolioOptimizerPage() {
   const router = useRouter();
   const [budget, setBudget] = useState(50000000);
-  const [mode, setMode] = useState<'maximize_count' | 'maximize_roi' | 'balanced'>('maximize_roi');
+  const [mode, setMode] = useState<'maximize_count' | 'maximize_roi' | 'balanced' | 'optimal'>('maximize_roi');
   const [minROI, setMinROI] = useState(15);
   const [maxCannibalization, setMaxCannibalization] = useState(10);
   const [regionFilter, setRegionFilter] = useState('');
+  const [minSpacingKm, setMinSpacingKm] = useState(0);
   
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<OptimizationResult | null>(null);
@@ -57,7 +94,8 @@ export default function PortfolioOptimizerPage() {
           constraints: {
             minROI,
             maxCannibalization,
-            regionFilter: regionFilter || undefined
+            regionFilter: regionFilter || undefined,
+            minSpacingKm: mode === 'optimal' && minSpacingKm > 0 ? minSpacingKm : undefined
           }
         })
       });
@@ -141,14 +179,32 @@ export default function PortfolioOptimizerPage() {
                   <option value="maximize_roi">Maximize ROI</option>
                   <option value="maximize_count">Maximize Store Count</option>
                   <option value="balanced">Balanced</option>
+                  <option value="optimal">Optimal (exact)</option>
                 </select>
                 <p style={{ fontSize: '11px', color: 'var(--s-muted)', marginTop: '4px' }}>
                   {mode === 'maximize_roi' && 'Focus on highest-return locations'}
                   {mode === 'maximize_count' && 'Get as many stores as possible'}
                   {mode === 'balanced' && 'Balance quantity and quality'}
+                  {mode === 'optimal' && 'Best NPV net of cannibalization under all constraints'}
                 </p>
               </div>
 
+              {mode === 'optimal' && (
+                <div>
+                  <label style={{ fontSize: '12px', color: 'var(--s-muted)', textTransform: 'uppercase', fontWeight: '500', display: 'block', marginBottom: '8px' }}>
+                    Min Spacing (km)
+                  </label>
+                  <input
+                    type="number"
+                    value={minSpacingKm}
+                    onChange={(e) => setMinSpacingKm(Number(e.target.value))}
+                    className="s-input"
+                    placeholder="0"
+                    min="0"
+                  />
+                </div>
+              )}
+
               <div>
                 <label style={{ fontSize: '12px', color: 'var(--s-muted)', textTransform: 'uppercase', fontWeight: '500', display: 'block', marginBottom: '8px' }}>
                   Minimum ROI Required (%)
@@ -281,6 +337,20 @@ export default function PortfolioOptimizerPage() {
                     </div>
                   </div>
 
+                  {/* Optimality */}
+                  {result.optimality && (
+                    <div style={{ padding: '16px', backgroundColor: 'var(--s-bg-secondary)', borderRadius: '8px', marginBottom: '16px', fontSize: '13px' }}>
+                      <strong>{result.optimality.proven ? 'Proven optimal' : `Within ${formatNumber(result.optimality.optimalityGap)}% of optimal`}</strong>
+                      {' '}— NPV net of cannibalization {formatCurrency(result.optimality.objective)}
+                      {result.optimality.greedyObjective !== null && (
+                        <> vs {formatCurrency(result.optimality.greedyObjective)} greedy
+                          {result.optimality.improvementOverGreedy !== null && ` (+${formatNumber(result.optimality.improvementOverGreedy)}%)`}
+                        </>
+                      )}
+                      . {result.optimality.candidatesConsidered} candidates, {result.optimality.nodesExplored.toLocaleString()} nodes explored.
+                    </div>
+                  )}
+
                   {/* AI Insights */}
                   {result.aiInsights && (
                     <div style={{ 
@@ -371,6 +441,90 @@ export default function PortfolioOptimizerPage() {
                 </div>
               </div>
             </div>
+
+            {/* Revenue Transfers */}
+            {result.revenueTransfers && (
+              <div className="s-panel" style={{ marginTop: '24px' }}>
+                <div className="s-panelCard">
+                  <div className="s-panelHeader">
+                    <p className="s-panelT">Revenue Transfers</p>
+                  </div>
+                  <p style={{ padding: '0 16px', fontSize: '12px', color: 'var(--s-muted)' }}>
+                    Huff market-share model over {result.revenueTransfers.populationCells} population cells and{' '}
+                    {result.revenueTransfers.competitors} competitors
+                    {result.revenueTransfers.calibrated
+                      ? `, calibrated to ${formatCurrency(result.revenueTransfers.spendPerCapita)} per resident from existing store turnover`
+                      : ' (uncalibrated: no existing store turnover in the area)'}
+                    . Taken from existing stores: {formatCurrency(result.revenueTransfers.totalTransferFromExisting)}; from competitors:{' '}
+                    {formatCurrency(result.revenueTransfers.totalTransferFromCompetitors)}.
+                  </p>
+
+                  <div style={{ overflowX: 'auto' }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                      <thead>
+                        <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                          <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>New Site</th>
+                          <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>Network Revenue</th>
+                          <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>Standalone</th>
+                          <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>From Competitors</th>
+                          <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>New Demand</th>
+                          <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>From Existing Stores</th>
+                          <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>Lost to Other New Sites</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.revenueTransfers.selectedStores.map((site) => (
+                          <tr key={site.candidateId} style={{ borderBottom: '1px solid var(--s-border)' }}>
+                            <td style={{ padding: '12px', fontSize: '14px', fontWeight: '500' }}>{site.name}</td>
+                            <td style={{ padding: '12px', textAlign: 'right', fontSize: '14px' }}>{formatCurrency(site.networkRevenue)}</td>
+                            <td style={{ padding: '12px', textAlign: 'right', fontSize: '14px' }}>{formatCurrency(site.standaloneRevenue)}</td>
+                            <td style={{ padding: '12px', textAlign: 'right', fontSize: '14px' }}>{formatCurrency(site.fromCompetitors)}</td>
+                            <td style={{ padding: '12px', textAlign: 'right', fontSize: '14px' }}>{formatCurrency(site.newDemand)}</td>
+                            <td style={{ padding: '12px', fontSize: '12px' }}>
+                              {site.fromExistingStores.slice(0, 3).map((t) => (
+                                <div key={t.storeId}>{t.storeName}: {formatCurrency(t.amount)}</div>
+                              ))}
+                            </td>
+                            <td style={{ padding: '12px', fontSize: '12px' }}>
+                              {site.lostToSelected.slice(0, 3).map((t) => (
+                                <div key={t.candidateId}>{t.name}: {formatCurrency(t.amount)}</div>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {result.revenueTransfers.existingStores.length > 0 && (
+                    <div style={{ overflowX: 'auto', marginTop: '16px' }}>
+                      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <thead>
+                          <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                            <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>Existing Store</th>
+                            <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>Modelled Revenue Today</th>
+                            <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>With Portfolio</th>
+                            <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', fontWeight: '600', color: 'var(--s-muted)' }}>Loss</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {result.revenueTransfers.existingStores.slice(0, 20).map((store) => (
+                            <tr key={store.storeId} style={{ borderBottom: '1px solid var(--s-border)' }}>
+                              <td style={{ padding: '12px', fontSize: '14px' }}>{store.storeName}</td>
+                              <td style={{ padding: '12px', textAlign: 'right', fontSize: '14px' }}>{formatCurrency(store.baselineRevenue)}</td>
+                              <td style={{ padding: '12px', textAlign: 'right', fontSize: '14px' }}>{formatCurrency(store.projectedRevenue)}</td>
+                              <td style={{ padding: '12px', textAlign: 'right', fontSize: '14px', color: '#ef4444' }}>
+                                -{formatCurrency(store.loss)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
           </>
         )}
 
@@ -66,6 +66,7 @@ export default function ScenariosPage() {
   const [comparison, setComparison] = useState<any>(null);
   const [recommendation, setRecommendation] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<'pdf' | 'pptx' | null>(null);
 
   const handleQuickScenario = async (type: 'budget' | 'store_count' | 'timeline' | 'geographic') => {
     setLoading(true);
@@ -97,6 +98,39 @@ export default function ScenariosPage() {
     }
   };
 
+  const handleExportBoardPack = async (format: 'pdf' | 'pptx') => {
+    setExporting(format);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/scenarios/board-pack?format=${format}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scenarios, comparison, recommendation })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Board pack export failed');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `board-pack.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Board pack export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -310,8 +344,20 @@ export default function ScenariosPage() {
         {scenarios.length > 0 && !loading && (
           <div className="s-panel" style={{ marginBottom: '24px' }}>
             <div className="s-panelCard">
-              <div className="s-panelHeader">
+              <div className="s-panelHeader" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                 <p className="s-panelT">Scenario Comparison</p>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  {(['pdf', 'pptx'] as const).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportBoardPack(format)}
+                      disabled={exporting !== null}
+                      className="s-btn s-btn--secondary"
+                    >
+                      {exporting === format ? 'Exporting...' : `Board Pack (${format.toUpperCase()})`}
+                    </button>
+                  ))}
+                </div>
               </div>
               
               <div style={{ overflowX: 'auto' }}>
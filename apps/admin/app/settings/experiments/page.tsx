@@ -0,0 +1,526 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ExperimentService } from '@/lib/services/experiment.service';
+import { CreateExperimentSchema, Experiment, ExperimentReport, MetricComparison, MetricEstimate, parsePriceRules } from '@/lib/types/experiment.types';
+import { TelemetryErrorBoundary } from '@/app/components/TelemetryErrorBoundary';
+import { useToast } from '@/app/components/ToastProvider';
+import { useTelemetry } from '@/app/hooks/useTelemetry';
+
+interface StoreOption {
+  id: string;
+  name: string;
+}
+
+interface ExperimentFormData {
+  name: string;
+  description: string;
+  startDate: string;
+  endDate: string;
+  storeIds: string[];
+  treatmentName: string;
+  treatmentWeight: string;
+  menuItemName: string;
+  ruleType: 'FIXED' | 'PERCENT';
+  ruleValue: string;
+}
+
+const emptyForm: ExperimentFormData = {
+  name: '',
+  description: '',
+  startDate: '',
+  endDate: '',
+  storeIds: [],
+  treatmentName: 'Treatment',
+  treatmentWeight: '50',
+  menuItemName: '',
+  ruleType: 'PERCENT',
+  ruleValue: '',
+};
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid var(--s-border)',
+  borderRadius: '6px',
+  backgroundColor: 'var(--s-bg)',
+  color: 'var(--s-text)',
+  fontSize: '14px',
+};
+
+const labelStyle = { display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--s-muted)' };
+
+const cellStyle = { padding: '12px 8px', fontSize: '14px' };
+
+const headerStyle = { textAlign: 'left' as const, padding: '12px 8px', fontSize: '14px', fontWeight: '500', color: 'var(--s-muted)' };
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: 'var(--s-secondary)',
+  color: 'var(--s-text)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+};
+
+const statusColors: Record<string, { bg: string; color: string }> = {
+  DRAFT: { bg: 'var(--s-info-bg)', color: 'var(--s-info)' },
+  RUNNING: { bg: 'var(--s-success-bg)', color: 'var(--s-success)' },
+  COMPLETED: { bg: 'var(--s-warning-bg)', color: 'var(--s-warning)' },
+  CANCELLED: { bg: 'var(--s-danger-bg)', color: 'var(--s-danger)' },
+};
+
+export default function SettingsExperimentsPage() {
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [stores, setStores] = useState<StoreOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [formData, setFormData] = useState<ExperimentFormData>(emptyForm);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [selected, setSelected] = useState<Experiment | null>(null);
+  const [report, setReport] = useState<ExperimentReport | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+
+  const { showToast } = useToast();
+  const telemetry = useTelemetry();
+
+  useEffect(() => {
+    telemetry.trackPageView('/settings/experiments', {
+      component: 'SettingsExperimentsPage',
+      totalExperiments: experiments.length
+    });
+  }, [telemetry, experiments.length]);
+
+  const loadExperiments = async () => {
+    try {
+      setLoading(true);
+      setExperiments(await ExperimentService.getExperiments());
+    } catch (error) {
+      showToast('error', 'Failed to load experiments');
+      console.error('Error loading experiments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadStores = async () => {
+    try {
+      const response = await fetch('/api/stores');
+      if (!response.ok) return;
+      const storesData = await response.json();
+      const list = Array.isArray(storesData) ? storesData : storesData.data ?? [];
+      setStores(list.map((store: StoreOption) => ({ id: store.id, name: store.name })));
+    } catch (error) {
+      console.error('Error loading stores:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadExperiments();
+    loadStores();
+  }, []);
+
+  const handleSelect = async (experiment: Experiment) => {
+    setSelected(experiment);
+    setReport(null);
+    if (experiment.status === 'DRAFT') return;
+
+    try {
+      setReportLoading(true);
+      setReport(await ExperimentService.getResults(experiment.id));
+    } catch (error) {
+      showToast('error', 'Failed to load experiment results');
+      console.error('Error loading experiment results:', error);
+    } finally {
+      setReportLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const treatmentWeight = Number(formData.treatmentWeight);
+    const payload = {
+      name: formData.name,
+      description: formData.description || undefined,
+      startDate: formData.startDate ? new Date(formData.startDate).toISOString() : undefined,
+      endDate: formData.endDate ? new Date(formData.endDate).toISOString() : undefined,
+      storeIds: formData.storeIds,
+      variants: [
+        { key: 'control', name: 'Control', isControl: true, weight: 100 - treatmentWeight },
+        {
+          key: 'treatment',
+          name: formData.treatmentName,
+          weight: treatmentWeight,
+          priceRules: formData.menuItemName
+            ? [{ menuItemName: formData.menuItemName, type: formData.ruleType, value: Number(formData.ruleValue) }]
+            : [],
+        },
+      ],
+    };
+
+    const errors: Record<string, string> = {};
+    const parsed = CreateExperimentSchema.safeParse(payload);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        errors[String(issue.path[0])] = issue.message;
+      }
+    }
+    if (!Number.isInteger(treatmentWeight) || treatmentWeight < 1 || treatmentWeight > 99) {
+      errors.treatmentWeight = 'Treatment share must be between 1 and 99';
+    }
+    if (formData.storeIds.length < 2) {
+      errors.storeIds = 'Select at least two stores';
+    }
+    if (formData.menuItemName && !Number.isFinite(Number(formData.ruleValue))) {
+      errors.ruleValue = 'Price change must be a number';
+    }
+
+    setFormErrors(errors);
+    if (!parsed.success || Object.keys(errors).length > 0) return;
+
+    setSubmitting(true);
+    try {
+      const result = await ExperimentService.createExperiment(parsed.data);
+      if (result.success) {
+        showToast('success', 'Experiment created');
+        telemetry.trackUserAction('experiment_created', 'SettingsExperimentsPage', {
+          experimentId: result.experiment.id,
+          stores: formData.storeIds.length,
+        });
+        setShowCreateForm(false);
+        setFormData(emptyForm);
+        await loadExperiments();
+      } else {
+        showToast('error', result.error);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleLifecycle = async (experiment: Experiment, action: 'start' | 'stop' | 'cancel' | 'delete') => {
+    if (action === 'delete' && !confirm(`Delete experiment "${experiment.name}"?`)) return;
+    if (action === 'cancel' && !confirm(`Cancel experiment "${experiment.name}"? Test prices will be removed.`)) return;
+
+    try {
+      const result = action === 'start'
+        ? await ExperimentService.startExperiment(experiment.id)
+        : action === 'stop'
+          ? await ExperimentService.stopExperiment(experiment.id, 'COMPLETED')
+          : action === 'cancel'
+            ? await ExperimentService.stopExperiment(experiment.id, 'CANCELLED')
+            : await ExperimentService.deleteExperiment(experiment.id);
+
+      if (!result.success) {
+        showToast('error', result.error);
+        return;
+      }
+
+      showToast('success', `Experiment ${action === 'delete' ? 'deleted' : action === 'start' ? 'started' : 'stopped'}`);
+      telemetry.trackUserAction(`experiment_${action}`, 'SettingsExperimentsPage', { experimentId: experiment.id });
+      if (selected?.id === experiment.id) {
+        setSelected(null);
+        setReport(null);
+      }
+      await loadExperiments();
+    } catch (error) {
+      showToast('error', `Failed to ${action} experiment`);
+      telemetry.trackError(error instanceof Error ? error : new Error(`Failed to ${action} experiment`), 'SettingsExperimentsPage', {
+        experimentId: experiment.id,
+      });
+    }
+  };
+
+  const formatEstimate = (estimate: MetricEstimate, currency = false) => {
+    const format = (value: number) => (currency ? `$${value.toFixed(2)}` : value.toFixed(2));
+    return `${format(estimate.mean)} (${format(estimate.ciLow)} – ${format(estimate.ciHigh)})`;
+  };
+
+  const formatLift = (comparison: MetricComparison) => {
+    const lift = comparison.relativeLift === null ? 'n/a' : `${(comparison.relativeLift * 100).toFixed(1)}%`;
+    return (
+      <span style={{ color: comparison.significant ? (comparison.difference > 0 ? 'var(--s-success)' : 'var(--s-danger)') : 'var(--s-muted)' }}>
+        {lift}{comparison.significant ? ' *' : ''}
+      </span>
+    );
+  };
+
+  return (
+    <TelemetryErrorBoundary>
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '24px' }}>
+        <section className="s-panel">
+          <div className="s-panelCard">
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
+              <div>
+                <p className="s-panelT">Price Experiments</p>
+                <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px' }}>
+                  Test price changes on a treatment group of stores against a control group
+                </p>
+              </div>
+              <button
+                onClick={() => { setFormErrors({}); setShowCreateForm(true); }}
+                style={{
+                  padding: '8px 16px',
+                  backgroundColor: 'var(--s-primary)',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                }}
+              >
+                New Experiment
+              </button>
+            </div>
+
+            {loading ? (
+              <div style={{ textAlign: 'center', padding: '40px', color: 'var(--s-muted)' }}>
+                Loading experiments...
+              </div>
+            ) : experiments.length === 0 ? (
+              <div style={{ textAlign: 'center', padding: '40px', color: 'var(--s-muted)' }}>
+                No experiments yet
+              </div>
+            ) : (
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                      <th style={headerStyle}>Name</th>
+                      <th style={headerStyle}>Status</th>
+                      <th style={headerStyle}>Stores</th>
+                      <th style={headerStyle}>Window</th>
+                      <th style={{ ...headerStyle, textAlign: 'right' }}>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {experiments.map((experiment) => {
+                      const colors = statusColors[experiment.status] ?? statusColors.DRAFT;
+                      return (
+                        <tr
+                          key={experiment.id}
+                          onClick={() => handleSelect(experiment)}
+                          style={{
+                            borderBottom: '1px solid var(--s-border)',
+                            cursor: 'pointer',
+                            backgroundColor: selected?.id === experiment.id ? 'var(--s-secondary)' : undefined,
+                          }}
+                        >
+                          <td style={cellStyle}>{experiment.name}</td>
+                          <td style={cellStyle}>
+                            <span style={{ padding: '2px 8px', borderRadius: '12px', fontSize: '12px', backgroundColor: colors.bg, color: colors.color }}>
+                              {experiment.status}
+                            </span>
+                          </td>
+                          <td style={cellStyle}>{experiment.assignments.length}</td>
+                          <td style={{ ...cellStyle, color: 'var(--s-muted)' }}>
+                            {experiment.startDate ? new Date(experiment.startDate).toLocaleDateString() : '—'}
+                            {' → '}
+                            {experiment.endDate ? new Date(experiment.endDate).toLocaleDateString() : 'open'}
+                          </td>
+                          <td style={{ ...cellStyle, textAlign: 'right' }} onClick={(e) => e.stopPropagation()}>
+                            <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+                              {experiment.status === 'DRAFT' && (
+                                <>
+                                  <button onClick={() => handleLifecycle(experiment, 'start')} style={buttonStyle}>Start</button>
+                                  <button onClick={() => handleLifecycle(experiment, 'delete')} style={{ ...buttonStyle, color: 'var(--s-danger)' }}>Delete</button>
+                                </>
+                              )}
+                              {experiment.status === 'RUNNING' && (
+                                <>
+                                  <button onClick={() => handleLifecycle(experiment, 'stop')} style={buttonStyle}>Complete</button>
+                                  <button onClick={() => handleLifecycle(experiment, 'cancel')} style={{ ...buttonStyle, color: 'var(--s-danger)' }}>Cancel</button>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </section>
+
+        {/* Results */}
+        <section className="s-panel">
+          <div className="s-panelCard">
+            <p className="s-panelT">Results</p>
+            {!selected ? (
+              <div style={{ textAlign: 'center', padding: '40px', color: 'var(--s-muted)' }}>
+                Select an experiment to see its results
+              </div>
+            ) : (
+              <div style={{ marginTop: '16px' }}>
+                <p style={{ fontWeight: 500 }}>{selected.name}</p>
+                {selected.description && (
+                  <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px' }}>{selected.description}</p>
+                )}
+                <div style={{ marginTop: '12px', fontSize: '14px' }}>
+                  {selected.variants.map((variant) => (
+                    <div key={variant.id} style={{ marginBottom: '8px' }}>
+                      <strong>{variant.name}</strong>{variant.isControl ? ' (control)' : ''} · {selected.assignments.filter((a) => a.variantId === variant.id).length} stores
+                      {parsePriceRules(variant).map((rule) => (
+                        <div key={rule.menuItemName} style={{ color: 'var(--s-muted)', fontSize: '12px' }}>
+                          {rule.menuItemName}: {rule.type === 'FIXED' ? `$${rule.value.toFixed(2)}` : `${rule.value > 0 ? '+' : ''}${rule.value}%`}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+
+                {selected.status === 'DRAFT' ? (
+                  <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '16px' }}>
+                    Results are available once the experiment has started.
+                  </p>
+                ) : reportLoading ? (
+                  <div style={{ textAlign: 'center', padding: '20px', color: 'var(--s-muted)' }}>Loading results...</div>
+                ) : report && (
+                  <div style={{ marginTop: '16px', fontSize: '13px' }}>
+                    <p style={{ color: 'var(--s-muted)', marginBottom: '8px' }}>
+                      {report.days} days · 95% intervals in brackets
+                    </p>
+                    {report.variants.map((variant) => {
+                      const comparison = report.comparisons.find((c) => c.variantKey === variant.key);
+                      return (
+                        <div key={variant.variantId} style={{ padding: '12px', border: '1px solid var(--s-border)', borderRadius: '6px', marginBottom: '8px' }}>
+                          <p style={{ fontWeight: 500, marginBottom: '4px' }}>{variant.name}</p>
+                          <div>Orders/store-day: {formatEstimate(variant.ordersPerStoreDay)} {comparison && formatLift(comparison.ordersPerStoreDay)}</div>
+                          <div>Avg ticket: {formatEstimate(variant.averageTicket, true)} {comparison && formatLift(comparison.averageTicket)}</div>
+                          <div>Revenue/store-day: {formatEstimate(variant.revenuePerStoreDay, true)} {comparison && formatLift(comparison.revenuePerStoreDay)}</div>
+                          <div style={{ color: 'var(--s-muted)' }}>{variant.orders} orders · ${variant.revenue.toFixed(2)} total</div>
+                        </div>
+                      );
+                    })}
+                    {report.warnings.map((warning) => (
+                      <p key={warning} style={{ color: 'var(--s-warning)', fontSize: '12px' }}>{warning}</p>
+                    ))}
+                    <p style={{ color: 'var(--s-muted)', fontSize: '12px' }}>* significant difference vs control</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </section>
+      </div>
+
+      {/* Create Experiment Modal */}
+      {showCreateForm && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000,
+        }}>
+          <div style={{
+            backgroundColor: 'var(--s-bg)',
+            border: '1px solid var(--s-border)',
+            borderRadius: '8px',
+            padding: '24px',
+            width: '560px',
+            maxHeight: '90vh',
+            overflowY: 'auto',
+          }}>
+            <h3 style={{ marginBottom: '16px' }}>New Price Experiment</h3>
+            <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '16px' }}>
+              <div>
+                <label style={labelStyle}>Name</label>
+                <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} style={inputStyle} />
+                {formErrors.name && <p style={{ color: 'var(--s-danger)', fontSize: '12px' }}>{formErrors.name}</p>}
+              </div>
+              <div>
+                <label style={labelStyle}>Description</label>
+                <input type="text" value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} style={inputStyle} />
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                <div>
+                  <label style={labelStyle}>Start</label>
+                  <input type="date" value={formData.startDate} onChange={(e) => setFormData({ ...formData, startDate: e.target.value })} style={inputStyle} />
+                </div>
+                <div>
+                  <label style={labelStyle}>End</label>
+                  <input type="date" value={formData.endDate} onChange={(e) => setFormData({ ...formData, endDate: e.target.value })} style={inputStyle} />
+                </div>
+              </div>
+              <div>
+                <label style={labelStyle}>Stores ({formData.storeIds.length} selected)</label>
+                <select
+                  multiple
+                  value={formData.storeIds}
+                  onChange={(e) => setFormData({ ...formData, storeIds: Array.from(e.target.selectedOptions, (option) => option.value) })}
+                  style={{ ...inputStyle, height: '140px' }}
+                >
+                  {stores.map((store) => (
+                    <option key={store.id} value={store.id}>{store.name}</option>
+                  ))}
+                </select>
+                {formErrors.storeIds && <p style={{ color: 'var(--s-danger)', fontSize: '12px' }}>{formErrors.storeIds}</p>}
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '12px' }}>
+                <div>
+                  <label style={labelStyle}>Treatment name</label>
+                  <input type="text" value={formData.treatmentName} onChange={(e) => setFormData({ ...formData, treatmentName: e.target.value })} style={inputStyle} />
+                </div>
+                <div>
+                  <label style={labelStyle}>Treatment share (%)</label>
+                  <input type="number" min="1" max="99" value={formData.treatmentWeight} onChange={(e) => setFormData({ ...formData, treatmentWeight: e.target.value })} style={inputStyle} />
+                  {formErrors.treatmentWeight && <p style={{ color: 'var(--s-danger)', fontSize: '12px' }}>{formErrors.treatmentWeight}</p>}
+                </div>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr', gap: '12px' }}>
+                <div>
+                  <label style={labelStyle}>Menu item</label>
+                  <input type="text" value={formData.menuItemName} placeholder="e.g. Footlong" onChange={(e) => setFormData({ ...formData, menuItemName: e.target.value })} style={inputStyle} />
+                </div>
+                <div>
+                  <label style={labelStyle}>Rule</label>
+                  <select value={formData.ruleType} onChange={(e) => setFormData({ ...formData, ruleType: e.target.value as 'FIXED' | 'PERCENT' })} style={inputStyle}>
+                    <option value="PERCENT">% change</option>
+                    <option value="FIXED">Fixed price</option>
+                  </select>
+                </div>
+                <div>
+                  <label style={labelStyle}>Value</label>
+                  <input type="number" step="0.01" value={formData.ruleValue} onChange={(e) => setFormData({ ...formData, ruleValue: e.target.value })} style={inputStyle} />
+                  {formErrors.ruleValue && <p style={{ color: 'var(--s-danger)', fontSize: '12px' }}>{formErrors.ruleValue}</p>}
+                </div>
+              </div>
+              {formErrors.variants && <p style={{ color: 'var(--s-danger)', fontSize: '12px' }}>{formErrors.variants}</p>}
+              <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+                <button type="button" onClick={() => setShowCreateForm(false)} style={{ ...buttonStyle, padding: '8px 16px', fontSize: '14px' }}>
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  style={{
+                    padding: '8px 16px',
+                    backgroundColor: 'var(--s-primary)',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: submitting ? 'not-allowed' : 'pointer',
+                    fontSize: '14px',
+                  }}
+                >
+                  {submitting ? 'Creating...' : 'Create Experiment'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </TelemetryErrorBoundary>
+  );
+}
@@ -11,6 +11,7 @@ interface FlagFormData {
   key: string;
   enabled: boolean;
   description: string;
+  rolloutPercentage: string;
 }
 
 export default function SettingsFlagsPage() {
@@ -24,7 +25,7 @@ export default function SettingsFlagsPage() {
   const [enabledFilter, setEnabledFilter] = useState<boolean | ''>('');
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingFlag, setEditingFlag] = useState<FeatureFlag | null>(null);
-  const [formData, setFormData] = useState<FlagFormData>({ key: '', enabled: false, description: '' });
+  const [formData, setFormData] = useState<FlagFormData>({ key: '', enabled: false, description: '', rolloutPercentage: '' });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [submitting, setSubmitting] = useState(false);
   
@@ -89,14 +90,19 @@ export default function SettingsFlagsPage() {
 
   const handleCreateFlag = () => {
     setEditingFlag(null);
-    setFormData({ key: '', enabled: false, description: '' });
+    setFormData({ key: '', enabled: false, description: '', rolloutPercentage: '' });
     setFormErrors({});
     setShowCreateForm(true);
   };
 
   const handleEditFlag = (flag: FeatureFlag) => {
     setEditingFlag(flag);
-    setFormData({ key: flag.key, enabled: flag.enabled, description: flag.description || '' });
+    setFormData({
+      key: flag.key,
+      enabled: flag.enabled,
+      description: flag.description || '',
+      rolloutPercentage: flag.rolloutPercentage != null ? String(flag.rolloutPercentage) : '',
+    });
     setFormErrors({});
     setShowCreateForm(true);
   };
@@ -104,7 +110,7 @@ export default function SettingsFlagsPage() {
   const handleCloseForm = () => {
     setShowCreateForm(false);
     setEditingFlag(null);
-    setFormData({ key: '', enabled: false, description: '' });
+    setFormData({ key: '', enabled: false, description: '', rolloutPercentage: '' });
     setFormErrors({});
   };
 
@@ -113,9 +119,16 @@ export default function SettingsFlagsPage() {
     
     if (!formData.key.trim()) {
       errors.key = 'Key is required';
-    } else if (!/^[A-Z_][A-Z0-9_]*$/.test(formData.key)) {
+    } else if (!editingFlag && !/^[A-Z_][A-Z0-9_]*$/.test(formData.key)) {
       errors.key = 'Key must be uppercase with underscores only (e.g., FEATURE_NAME)';
     }
+
+    if (formData.rolloutPercentage !== '') {
+      const rollout = Number(formData.rolloutPercentage);
+      if (!Number.isInteger(rollout) || rollout < 0 || rollout > 100) {
+        errors.rolloutPercentage = 'Rollout must be a whole number between 0 and 100';
+      }
+    }
     
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
@@ -134,6 +147,8 @@ export default function SettingsFlagsPage() {
         const updateData: UpdateFeatureFlagRequest = {};
         if (formData.enabled !== editingFlag.enabled) updateData.enabled = formData.enabled;
         if (formData.description !== (editingFlag.description || '')) updateData.description = formData.description;
+        const rollout = formData.rolloutPercentage === '' ? null : Number(formData.rolloutPercentage);
+        if (rollout !== (editingFlag.rolloutPercentage ?? null)) updateData.rolloutPercentage = rollout;
         
         if (Object.keys(updateData).length === 0) {
           showToast('info', 'No changes to save');
@@ -141,7 +156,7 @@ export default function SettingsFlagsPage() {
           return;
         }
         
-        const result = await FeatureFlagService.updateFeatureFlag(editingFlag.id, updateData);
+        const result = await FeatureFlagService.updateFeatureFlag(editingFlag.key, updateData);
         
         if (result.success) {
           showToast('success', 'Feature flag updated successfully');
@@ -157,6 +172,7 @@ export default function SettingsFlagsPage() {
           key: formData.key,
           enabled: formData.enabled,
           description: formData.description || undefined,
+          rolloutPercentage: formData.rolloutPercentage === '' ? undefined : Number(formData.rolloutPercentage),
         };
         
         const result = await FeatureFlagService.createFeatureFlag(createData);
@@ -182,7 +198,7 @@ export default function SettingsFlagsPage() {
     const newState = !flag.enabled;
     
     try {
-      const result = await FeatureFlagService.toggleFeatureFlag(flag.id, newState);
+      const result = await FeatureFlagService.toggleFeatureFlag(flag.key, newState);
       
       if (result.success) {
         showToast('success', `Feature flag ${newState ? 'enabled' : 'disabled'}`);
@@ -220,7 +236,7 @@ export default function SettingsFlagsPage() {
     }
     
     try {
-      const result = await FeatureFlagService.deleteFeatureFlag(flag.id);
+      const result = await FeatureFlagService.deleteFeatureFlag(flag.key);
       
       if (result.success) {
         showToast('success', 'Feature flag deleted successfully');
@@ -439,6 +455,13 @@ export default function SettingsFlagsPage() {
                           </td>
                           <td style={{ padding: '12px 8px', fontSize: '14px', color: 'var(--s-muted)' }}>
                             {flag.description || 'No description'}
+                            {(flag.rolloutPercentage != null || (flag.conditions?.length ?? 0) > 0) && (
+                              <div style={{ fontSize: '12px', marginTop: '4px' }}>
+                                {flag.rolloutPercentage != null && `Rollout ${flag.rolloutPercentage}%`}
+                                {flag.rolloutPercentage != null && (flag.conditions?.length ?? 0) > 0 && ' · '}
+                                {(flag.conditions?.length ?? 0) > 0 && `${flag.conditions!.length} condition(s)`}
+                              </div>
+                            )}
                           </td>
                           <td style={{ padding: '12px 8px', fontSize: '14px', color: 'var(--s-muted)' }}>
                             {new Date(flag.updatedAt).toLocaleDateString()}
@@ -676,6 +699,34 @@ export default function SettingsFlagsPage() {
                 />
               </div>
 
+              <div style={{ marginBottom: '16px' }}>
+                <label style={{ display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--s-muted)' }}>
+                  Rollout percentage
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={formData.rolloutPercentage}
+                  onChange={(e) => setFormData(prev => ({ ...prev, rolloutPercentage: e.target.value }))}
+                  style={{
+                    width: '100%',
+                    padding: '8px 12px',
+                    border: `1px solid ${formErrors.rolloutPercentage ? 'var(--s-danger)' : 'var(--s-border)'}`,
+                    borderRadius: '6px',
+                    backgroundColor: 'var(--s-bg)',
+                    color: 'var(--s-text)',
+                    fontSize: '14px',
+                  }}
+                  placeholder="Leave empty to enable for everyone"
+                />
+                {formErrors.rolloutPercentage && (
+                  <p style={{ color: 'var(--s-danger)', fontSize: '12px', marginTop: '4px' }}>
+                    {formErrors.rolloutPercentage}
+                  </p>
+                )}
+              </div>
+
               <div style={{ marginBottom: '24px' }}>
                 <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
                   <input
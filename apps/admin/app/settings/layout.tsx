@@ -32,6 +32,36 @@ const settingsTabs: TabItem[] = [
         <path d="M5 3h14l-3 4 3 4H5V3Z"/>
       </svg>
     )
+  },
+  {
+    key: 'experiments',
+    label: 'Experiments',
+    href: '/settings/experiments',
+    icon: (
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M9 2h6v2h-1v5.5l5.6 9.3A2 2 0 0 1 17.9 22H6.1a2 2 0 0 1-1.7-3.2L10 9.5V4H9V2Z"/>
+      </svg>
+    )
+  },
+  {
+    key: 'schedules',
+    label: 'Scheduled Jobs',
+    href: '/settings/schedules',
+    icon: (
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M12 2a10 10 0 1 0 10 10A10 10 0 0 0 12 2Zm1 10.4 3.3 3.3-1.4 1.4-3.9-3.9V6h2Z"/>
+      </svg>
+    )
+  },
+  {
+    key: 'tax',
+    label: 'Tax & Currency',
+    href: '/settings/tax',
+    icon: (
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M3 6h18v12H3V6Zm9 2.5A3.5 3.5 0 1 0 15.5 12 3.5 3.5 0 0 0 12 8.5ZM5 8v2a2 2 0 0 0 2-2H5Zm12 0a2 2 0 0 0 2 2V8h-2ZM5 14v2h2a2 2 0 0 0-2-2Zm14 0a2 2 0 0 0-2 2h2v-2Z"/>
+      </svg>
+    )
   }
 ];
 
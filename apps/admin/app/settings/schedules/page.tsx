@@ -0,0 +1,651 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ScheduledJobService } from '@/lib/services/scheduled-job.service';
+import {
+  BUDGETED_KINDS,
+  SCHEDULE_KIND_LABELS,
+  ScheduledJob,
+  ScheduledJobInput,
+  ScheduledJobInputSchema,
+  ScheduledJobRun,
+  ScheduleKind,
+  ScheduleParams,
+} from '@/lib/types/scheduled-job.types';
+import { TelemetryErrorBoundary } from '@/app/components/TelemetryErrorBoundary';
+import { useToast } from '@/app/components/ToastProvider';
+import { useTelemetry } from '@/app/hooks/useTelemetry';
+
+interface ScheduleFormData {
+  name: string;
+  kind: ScheduleKind;
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+  catchUp: 'ONCE' | 'SKIP';
+  monthlyBudgetUsd: string;
+  region: string;
+  country: string;
+  storeIds: string;
+  horizonMonths: string;
+  regenerate: boolean;
+  model: 'gpt-5-mini' | 'gpt-5.2';
+  categories: string;
+  status: string;
+}
+
+const emptyForm: ScheduleFormData = {
+  name: '',
+  kind: 'forecast',
+  cron: '0 2 * * 1',
+  timezone: 'UTC',
+  enabled: true,
+  catchUp: 'ONCE',
+  monthlyBudgetUsd: '',
+  region: '',
+  country: '',
+  storeIds: '',
+  horizonMonths: '12',
+  regenerate: true,
+  model: 'gpt-5-mini',
+  categories: '',
+  status: '',
+};
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid var(--s-border)',
+  borderRadius: '6px',
+  backgroundColor: 'var(--s-bg)',
+  color: 'var(--s-text)',
+  fontSize: '14px',
+};
+
+const labelStyle = { display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--s-muted)' };
+
+const cellStyle = { padding: '12px 8px', fontSize: '14px' };
+
+const headerStyle = { textAlign: 'left' as const, padding: '12px 8px', fontSize: '14px', fontWeight: '500', color: 'var(--s-muted)' };
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: 'var(--s-secondary)',
+  color: 'var(--s-text)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+};
+
+const runStatusColors: Record<string, { bg: string; color: string }> = {
+  queued: { bg: 'var(--s-info-bg)', color: 'var(--s-info)' },
+  running: { bg: 'var(--s-info-bg)', color: 'var(--s-info)' },
+  completed: { bg: 'var(--s-success-bg)', color: 'var(--s-success)' },
+  skipped: { bg: 'var(--s-warning-bg)', color: 'var(--s-warning)' },
+  failed: { bg: 'var(--s-danger-bg)', color: 'var(--s-danger)' },
+  cancelled: { bg: 'var(--s-danger-bg)', color: 'var(--s-danger)' },
+};
+
+const splitList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+function RunStatus({ run }: { run: ScheduledJobRun }) {
+  const colors = runStatusColors[run.status] ?? runStatusColors.queued;
+  return (
+    <span style={{ padding: '2px 8px', borderRadius: '12px', fontSize: '12px', backgroundColor: colors.bg, color: colors.color }}>
+      {run.status}
+    </span>
+  );
+}
+
+function toForm(schedule: ScheduledJob): ScheduleFormData {
+  const params = schedule.params;
+  return {
+    name: schedule.name,
+    kind: schedule.kind,
+    cron: schedule.cron,
+    timezone: schedule.timezone,
+    enabled: schedule.enabled,
+    catchUp: schedule.catchUp,
+    monthlyBudgetUsd: schedule.monthlyBudgetUsd === null ? '' : String(schedule.monthlyBudgetUsd),
+    region: params.region ?? '',
+    country: params.country ?? '',
+    storeIds: (params.storeIds ?? (params.storeId ? [params.storeId] : [])).join(', '),
+    horizonMonths: String(params.horizonMonths ?? 12),
+    regenerate: params.regenerate ?? false,
+    model: params.model ?? 'gpt-5-mini',
+    categories: (params.categories ?? []).join(', '),
+    status: params.status ?? '',
+  };
+}
+
+/** Only the params the kind accepts; the BFF rejects the rest */
+function toParams(form: ScheduleFormData): ScheduleParams {
+  const region = form.region.trim() || undefined;
+  const country = form.country.trim() || undefined;
+  const storeIds = splitList(form.storeIds);
+
+  switch (form.kind) {
+    case 'forecast':
+      return {
+        region,
+        country,
+        storeId: storeIds[0],
+        horizonMonths: Number(form.horizonMonths),
+        regenerate: form.regenerate,
+      };
+    case 'store-analysis':
+      return { region, storeIds: storeIds.length > 0 ? storeIds : undefined, model: form.model };
+    case 'competitor-refresh':
+      return { region, country, categories: form.categories ? splitList(form.categories) : undefined };
+    case 'franchisee-scores':
+      return { status: form.status.trim() || undefined };
+    case 'store-anomalies':
+      return { region, country, storeIds: storeIds.length > 0 ? storeIds : undefined };
+    case 'royalty-statements':
+      return {};
+  }
+}
+
+export default function SettingsSchedulesPage() {
+  const [schedules, setSchedules] = useState<ScheduledJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ScheduledJob | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<ScheduleFormData>(emptyForm);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<{ runs: string[]; error?: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [selected, setSelected] = useState<ScheduledJob | null>(null);
+  const [runs, setRuns] = useState<ScheduledJobRun[]>([]);
+  const [runsLoading, setRunsLoading] = useState(false);
+
+  const { showToast } = useToast();
+  const telemetry = useTelemetry();
+
+  useEffect(() => {
+    telemetry.trackPageView('/settings/schedules', {
+      component: 'SettingsSchedulesPage',
+      totalSchedules: schedules.length
+    });
+  }, [telemetry, schedules.length]);
+
+  const loadSchedules = async () => {
+    try {
+      setLoading(true);
+      const list = await ScheduledJobService.getSchedules();
+      setSchedules(list);
+      setSelected((current) => (current ? list.find((schedule) => schedule.id === current.id) ?? null : null));
+    } catch (error) {
+      showToast('error', 'Failed to load scheduled jobs');
+      console.error('Error loading scheduled jobs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRuns = async (schedule: ScheduledJob) => {
+    try {
+      setRunsLoading(true);
+      setRuns(await ScheduledJobService.getRuns(schedule.id));
+    } catch (error) {
+      showToast('error', 'Failed to load run history');
+      console.error('Error loading run history:', error);
+    } finally {
+      setRunsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  // Show what the cron expression means before it is saved
+  useEffect(() => {
+    if (!showForm || !formData.cron.trim()) {
+      setPreview(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const result = await ScheduledJobService.preview(formData.cron, formData.timezone || 'UTC');
+      setPreview(result.success ? { runs: result.data.upcomingRuns } : { runs: [], error: result.error });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [showForm, formData.cron, formData.timezone]);
+
+  const handleSelect = async (schedule: ScheduledJob) => {
+    setSelected(schedule);
+    await loadRuns(schedule);
+  };
+
+  const openForm = (schedule: ScheduledJob | null) => {
+    setEditing(schedule);
+    setFormData(schedule ? toForm(schedule) : emptyForm);
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  const toInput = (form: ScheduleFormData, overrides: Partial<ScheduledJobInput> = {}) => ({
+    name: form.name,
+    kind: form.kind,
+    cron: form.cron.trim(),
+    timezone: form.timezone.trim() || 'UTC',
+    params: toParams(form),
+    enabled: form.enabled,
+    catchUp: form.catchUp,
+    monthlyBudgetUsd: BUDGETED_KINDS.includes(form.kind) && form.monthlyBudgetUsd !== '' ? Number(form.monthlyBudgetUsd) : null,
+    ...overrides,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const errors: Record<string, string> = {};
+    const parsed = ScheduledJobInputSchema.safeParse(toInput(formData));
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        errors[String(issue.path[issue.path.length - 1])] = issue.message;
+      }
+    }
+    if (formData.kind === 'store-analysis' && !formData.region.trim() && !formData.storeIds.trim()) {
+      errors.region = 'Give a country or store IDs';
+    }
+
+    setFormErrors(errors);
+    if (!parsed.success || Object.keys(errors).length > 0) return;
+
+    setSubmitting(true);
+    try {
+      const result = editing
+        ? await ScheduledJobService.updateSchedule(editing.id, parsed.data)
+        : await ScheduledJobService.createSchedule(parsed.data);
+      if (result.success) {
+        showToast('success', editing ? 'Schedule updated' : 'Schedule created');
+        telemetry.trackUserAction(editing ? 'schedule_updated' : 'schedule_created', 'SettingsSchedulesPage', {
+          scheduleId: result.data.id,
+          kind: result.data.kind,
+        });
+        setShowForm(false);
+        await loadSchedules();
+      } else {
+        showToast('error', result.error);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAction = async (schedule: ScheduledJob, action: 'run' | 'toggle' | 'delete') => {
+    if (action === 'delete' && !confirm(`Delete schedule "${schedule.name}" and its run history?`)) return;
+
+    try {
+      const result = action === 'run'
+        ? await ScheduledJobService.runNow(schedule.id)
+        : action === 'toggle'
+          ? await ScheduledJobService.updateSchedule(schedule.id, toInput(toForm(schedule), { enabled: !schedule.enabled }))
+          : await ScheduledJobService.deleteSchedule(schedule.id);
+
+      if (!result.success) {
+        showToast('error', result.error);
+        return;
+      }
+
+      const message = action === 'run'
+        ? `Run ${(result.data as ScheduledJobRun).status}`
+        : action === 'toggle'
+          ? `Schedule ${schedule.enabled ? 'paused' : 'resumed'}`
+          : 'Schedule deleted';
+      showToast('success', message);
+      telemetry.trackUserAction(`schedule_${action}`, 'SettingsSchedulesPage', { scheduleId: schedule.id });
+
+      if (action === 'delete' && selected?.id === schedule.id) {
+        setSelected(null);
+        setRuns([]);
+      } else if (selected?.id === schedule.id) {
+        await loadRuns(schedule);
+      }
+      await loadSchedules();
+    } catch (error) {
+      showToast('error', `Failed to ${action} schedule`);
+      telemetry.trackError(error instanceof Error ? error : new Error(`Failed to ${action} schedule`), 'SettingsSchedulesPage', {
+        scheduleId: schedule.id,
+      });
+    }
+  };
+
+  const fieldError = (key: string) => formErrors[key] && (
+    <p style={{ color: 'var(--s-danger)', fontSize: '12px' }}>{formErrors[key]}</p>
+  );
+
+  return (
+    <TelemetryErrorBoundary>
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '24px' }}>
+        <section className="s-panel">
+          <div className="s-panelCard">
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
+              <div>
+                <p className="s-panelT">Scheduled Jobs</p>
+                <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px' }}>
+                  Recurring forecasts, store analysis, competitor refreshes, franchisee scoring and anomaly scans
+                </p>
+              </div>
+              <button
+                onClick={() => openForm(null)}
+                style={{
+                  padding: '8px 16px',
+                  backgroundColor: 'var(--s-primary)',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                }}
+              >
+                New Schedule
+              </button>
+            </div>
+
+            {loading ? (
+              <div style={{ textAlign: 'center', padding: '40px', color: 'var(--s-muted)' }}>
+                Loading scheduled jobs...
+              </div>
+            ) : schedules.length === 0 ? (
+              <div style={{ textAlign: 'center', padding: '40px', color: 'var(--s-muted)' }}>
+                No scheduled jobs yet
+              </div>
+            ) : (
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                      <th style={headerStyle}>Name</th>
+                      <th style={headerStyle}>Schedule</th>
+                      <th style={headerStyle}>Next run</th>
+                      <th style={headerStyle}>Last run</th>
+                      <th style={{ ...headerStyle, textAlign: 'right' }}>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {schedules.map((schedule) => (
+                      <tr
+                        key={schedule.id}
+                        onClick={() => handleSelect(schedule)}
+                        style={{
+                          borderBottom: '1px solid var(--s-border)',
+                          cursor: 'pointer',
+                          backgroundColor: selected?.id === schedule.id ? 'var(--s-secondary)' : undefined,
+                          opacity: schedule.enabled ? 1 : 0.6,
+                        }}
+                      >
+                        <td style={cellStyle}>
+                          <div>{schedule.name}</div>
+                          <div style={{ color: 'var(--s-muted)', fontSize: '12px' }}>{SCHEDULE_KIND_LABELS[schedule.kind]}</div>
+                        </td>
+                        <td style={cellStyle}>
+                          <code>{schedule.cron}</code>
+                          <div style={{ color: 'var(--s-muted)', fontSize: '12px' }}>{schedule.timezone}</div>
+                        </td>
+                        <td style={{ ...cellStyle, color: 'var(--s-muted)' }}>
+                          {schedule.enabled ? formatTime(schedule.nextRunAt) : 'Paused'}
+                        </td>
+                        <td style={cellStyle}>
+                          {schedule.lastRun ? (
+                            <>
+                              <RunStatus run={schedule.lastRun} />
+                              <div style={{ color: 'var(--s-muted)', fontSize: '12px' }}>{formatTime(schedule.lastRun.startedAt)}</div>
+                            </>
+                          ) : (
+                            <span style={{ color: 'var(--s-muted)' }}>Never</span>
+                          )}
+                        </td>
+                        <td style={{ ...cellStyle, textAlign: 'right' }} onClick={(e) => e.stopPropagation()}>
+                          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+                            <button onClick={() => handleAction(schedule, 'run')} style={buttonStyle}>Run now</button>
+                            <button onClick={() => handleAction(schedule, 'toggle')} style={buttonStyle}>
+                              {schedule.enabled ? 'Pause' : 'Resume'}
+                            </button>
+                            <button onClick={() => openForm(schedule)} style={buttonStyle}>Edit</button>
+                            <button onClick={() => handleAction(schedule, 'delete')} style={{ ...buttonStyle, color: 'var(--s-danger)' }}>Delete</button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </section>
+
+        {/* Run history */}
+        <section className="s-panel">
+          <div className="s-panelCard">
+            <p className="s-panelT">Run History</p>
+            {!selected ? (
+              <div style={{ textAlign: 'center', padding: '40px', color: 'var(--s-muted)' }}>
+                Select a schedule to see its runs
+              </div>
+            ) : (
+              <div style={{ marginTop: '16px', fontSize: '13px' }}>
+                <p style={{ fontWeight: 500 }}>{selected.name}</p>
+                {selected.monthToDateUsd !== null && (
+                  <p style={{ color: 'var(--s-muted)', marginTop: '4px' }}>
+                    ${selected.monthToDateUsd.toFixed(2)} spent this month
+                    {selected.monthlyBudgetUsd !== null && ` of $${selected.monthlyBudgetUsd.toFixed(2)} budget`}
+                  </p>
+                )}
+                {selected.kind === 'store-analysis' && (
+                  <p style={{ color: 'var(--s-muted)', marginTop: '4px' }}>
+                    Runs only while Continuous Intelligence is enabled and within the AI cost limits.
+                  </p>
+                )}
+                {selected.upcomingRuns.length > 0 && (
+                  <div style={{ marginTop: '12px' }}>
+                    <p style={{ color: 'var(--s-muted)', marginBottom: '4px' }}>Upcoming</p>
+                    {selected.upcomingRuns.map((run) => <div key={run}>{formatTime(run)}</div>)}
+                  </div>
+                )}
+
+                <p style={{ color: 'var(--s-muted)', margin: '16px 0 8px' }}>Recent runs</p>
+                {runsLoading ? (
+                  <div style={{ textAlign: 'center', padding: '20px', color: 'var(--s-muted)' }}>Loading runs...</div>
+                ) : runs.length === 0 ? (
+                  <p style={{ color: 'var(--s-muted)' }}>No runs yet</p>
+                ) : runs.map((run) => (
+                  <div key={run.id} style={{ padding: '12px', border: '1px solid var(--s-border)', borderRadius: '6px', marginBottom: '8px' }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                      <RunStatus run={run} />
+                      <span style={{ color: 'var(--s-muted)', fontSize: '12px' }}>
+                        {run.trigger === 'manual' ? `Manual${run.actor ? ` · ${run.actor}` : ''}` : run.trigger === 'catch-up' ? 'Catch-up' : 'Scheduled'}
+                      </span>
+                    </div>
+                    <div style={{ marginTop: '4px' }}>{formatTime(run.scheduledFor)}</div>
+                    {run.message && <div style={{ color: 'var(--s-muted)', marginTop: '4px' }}>{run.message}</div>}
+                    {run.tokensUsed !== null && (
+                      <div style={{ color: 'var(--s-muted)', fontSize: '12px' }}>{run.tokensUsed.toLocaleString()} tokens</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+      </div>
+
+      {/* Create / Edit Schedule Modal */}
+      {showForm && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000,
+        }}>
+          <div style={{
+            backgroundColor: 'var(--s-bg)',
+            border: '1px solid var(--s-border)',
+            borderRadius: '8px',
+            padding: '24px',
+            width: '560px',
+            maxHeight: '90vh',
+            overflowY: 'auto',
+          }}>
+            <h3 style={{ marginBottom: '16px' }}>{editing ? 'Edit Schedule' : 'New Schedule'}</h3>
+            <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '16px' }}>
+              <div>
+                <label style={labelStyle}>Name</label>
+                <input type="text" value={formData.name} placeholder="e.g. EMEA forecasts" onChange={(e) => setFormData({ ...formData, name: e.target.value })} style={inputStyle} />
+                {fieldError('name')}
+              </div>
+              <div>
+                <label style={labelStyle}>Job</label>
+                <select value={formData.kind} onChange={(e) => setFormData({ ...formData, kind: e.target.value as ScheduleKind })} style={inputStyle}>
+                  {(Object.keys(SCHEDULE_KIND_LABELS) as ScheduleKind[]).map((kind) => (
+                    <option key={kind} value={kind}>{SCHEDULE_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                <div>
+                  <label style={labelStyle}>Cron (min hour day month weekday)</label>
+                  <input type="text" value={formData.cron} onChange={(e) => setFormData({ ...formData, cron: e.target.value })} style={{ ...inputStyle, fontFamily: 'monospace' }} />
+                  {fieldError('cron')}
+                </div>
+                <div>
+                  <label style={labelStyle}>Timezone</label>
+                  <input type="text" value={formData.timezone} placeholder="e.g. Europe/London" onChange={(e) => setFormData({ ...formData, timezone: e.target.value })} style={inputStyle} />
+                </div>
+              </div>
+              {preview && (
+                <div style={{ fontSize: '12px', color: preview.error ? 'var(--s-danger)' : 'var(--s-muted)' }}>
+                  {preview.error ?? `Next: ${preview.runs.slice(0, 3).map((run) => formatTime(run)).join(' · ')}`}
+                </div>
+              )}
+
+              {(formData.kind === 'forecast' || formData.kind === 'competitor-refresh' || formData.kind === 'store-analysis' || formData.kind === 'store-anomalies') && (
+                <div style={{ display: 'grid', gridTemplateColumns: formData.kind === 'store-analysis' ? '1fr' : '1fr 1fr', gap: '12px' }}>
+                  <div>
+                    <label style={labelStyle}>{formData.kind === 'store-analysis' ? 'Country' : 'Region'}</label>
+                    <input type="text" value={formData.region} onChange={(e) => setFormData({ ...formData, region: e.target.value })} style={inputStyle} />
+                    {fieldError('region')}
+                  </div>
+                  {formData.kind !== 'store-analysis' && (
+                    <div>
+                      <label style={labelStyle}>Country</label>
+                      <input type="text" value={formData.country} onChange={(e) => setFormData({ ...formData, country: e.target.value })} style={inputStyle} />
+                    </div>
+                  )}
+                </div>
+              )}
+              {formData.kind === 'forecast' && (
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '12px', alignItems: 'end' }}>
+                  <div>
+                    <label style={labelStyle}>Store ID (optional)</label>
+                    <input type="text" value={formData.storeIds} onChange={(e) => setFormData({ ...formData, storeIds: e.target.value })} style={inputStyle} />
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Horizon (months)</label>
+                    <input type="number" min="1" max="36" value={formData.horizonMonths} onChange={(e) => setFormData({ ...formData, horizonMonths: e.target.value })} style={inputStyle} />
+                    {fieldError('horizonMonths')}
+                  </div>
+                  <label style={{ ...labelStyle, display: 'flex', gap: '8px', alignItems: 'center' }}>
+                    <input type="checkbox" checked={formData.regenerate} onChange={(e) => setFormData({ ...formData, regenerate: e.target.checked })} />
+                    Regenerate existing
+                  </label>
+                </div>
+              )}
+              {formData.kind === 'store-analysis' && (
+                <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '12px' }}>
+                  <div>
+                    <label style={labelStyle}>Store IDs (comma separated, optional)</label>
+                    <input type="text" value={formData.storeIds} onChange={(e) => setFormData({ ...formData, storeIds: e.target.value })} style={inputStyle} />
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Model</label>
+                    <select value={formData.model} onChange={(e) => setFormData({ ...formData, model: e.target.value as ScheduleFormData['model'] })} style={inputStyle}>
+                      <option value="gpt-5-mini">gpt-5-mini</option>
+                      <option value="gpt-5.2">gpt-5.2</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+              {formData.kind === 'competitor-refresh' && (
+                <div>
+                  <label style={labelStyle}>Categories (comma separated)</label>
+                  <input type="text" value={formData.categories} placeholder="qsr, coffee, pizza" onChange={(e) => setFormData({ ...formData, categories: e.target.value })} style={inputStyle} />
+                </div>
+              )}
+              {formData.kind === 'store-anomalies' && (
+                <div>
+                  <label style={labelStyle}>Store IDs (comma separated, blank for all)</label>
+                  <input type="text" value={formData.storeIds} onChange={(e) => setFormData({ ...formData, storeIds: e.target.value })} style={inputStyle} />
+                </div>
+              )}
+              {formData.kind === 'franchisee-scores' && (
+                <div>
+                  <label style={labelStyle}>Franchisee status (blank for all)</label>
+                  <input type="text" value={formData.status} placeholder="e.g. ACTIVE" onChange={(e) => setFormData({ ...formData, status: e.target.value })} style={inputStyle} />
+                </div>
+              )}
+              {formData.kind === 'royalty-statements' && (
+                <p style={{ color: 'var(--s-muted)', fontSize: '12px', margin: 0 }}>
+                  Drafts the previous month&apos;s royalty statements for every franchisee with an agreement in force. Issued statements are left unchanged.
+                </p>
+              )}
+
+              <div style={{ display: 'grid', gridTemplateColumns: BUDGETED_KINDS.includes(formData.kind) ? '1fr 1fr' : '1fr', gap: '12px' }}>
+                <div>
+                  <label style={labelStyle}>Missed runs</label>
+                  <select value={formData.catchUp} onChange={(e) => setFormData({ ...formData, catchUp: e.target.value as 'ONCE' | 'SKIP' })} style={inputStyle}>
+                    <option value="ONCE">Catch up with one run</option>
+                    <option value="SKIP">Skip</option>
+                  </select>
+                </div>
+                {BUDGETED_KINDS.includes(formData.kind) && (
+                  <div>
+                    <label style={labelStyle}>Monthly budget ($, optional)</label>
+                    <input type="number" min="0" step="0.01" value={formData.monthlyBudgetUsd} onChange={(e) => setFormData({ ...formData, monthlyBudgetUsd: e.target.value })} style={inputStyle} />
+                    {fieldError('monthlyBudgetUsd')}
+                  </div>
+                )}
+              </div>
+              <label style={{ ...labelStyle, display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <input type="checkbox" checked={formData.enabled} onChange={(e) => setFormData({ ...formData, enabled: e.target.checked })} />
+                Enabled
+              </label>
+
+              <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+                <button type="button" onClick={() => setShowForm(false)} style={{ ...buttonStyle, padding: '8px 16px', fontSize: '14px' }}>
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  style={{
+                    padding: '8px 16px',
+                    backgroundColor: 'var(--s-primary)',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: submitting ? 'not-allowed' : 'pointer',
+                    fontSize: '14px',
+                  }}
+                >
+                  {submitting ? 'Saving...' : editing ? 'Save Schedule' : 'Create Schedule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </TelemetryErrorBoundary>
+  );
+}
@@ -0,0 +1,408 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { MoneyService } from '@/lib/services/money.service';
+import { FxRate, TaxSetting } from '@/lib/types/money.types';
+import { TelemetryErrorBoundary } from '@/app/components/TelemetryErrorBoundary';
+import { useToast } from '@/app/components/ToastProvider';
+import { useTelemetry } from '@/app/hooks/useTelemetry';
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid var(--s-border)',
+  borderRadius: '6px',
+  backgroundColor: 'var(--s-bg)',
+  color: 'var(--s-text)',
+  fontSize: '14px',
+};
+
+const labelStyle = { display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--s-muted)' };
+
+const cellStyle = { padding: '12px 8px', fontSize: '14px' };
+
+const headerStyle = { textAlign: 'left' as const, padding: '12px 8px', fontSize: '14px', fontWeight: '500', color: 'var(--s-muted)' };
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: 'var(--s-secondary)',
+  color: 'var(--s-text)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+};
+
+const primaryButtonStyle = {
+  padding: '8px 16px',
+  backgroundColor: 'var(--s-primary)',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '14px',
+};
+
+// Rates are stored as fractions and edited as percentages
+const percent = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+const toRate = (value: string) => Number(value) / 100;
+
+const emptyTaxForm = { country: '', pricesIncludeTax: true, standardRate: '' };
+const emptyFxForm = { base: 'EUR', quote: '', rate: '', effectiveFrom: new Date().toISOString().slice(0, 10), source: '' };
+
+export default function SettingsTaxPage() {
+  const [settings, setSettings] = useState<TaxSetting[]>([]);
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [categories, setCategories] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
+  const [taxForm, setTaxForm] = useState(emptyTaxForm);
+  const [categoryForm, setCategoryForm] = useState({ categoryId: '', rate: '' });
+  const [fxForm, setFxForm] = useState(emptyFxForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { showToast } = useToast();
+  const telemetry = useTelemetry();
+
+  useEffect(() => {
+    telemetry.trackPageView('/settings/tax', {
+      component: 'SettingsTaxPage',
+      countries: settings.length
+    });
+  }, [telemetry, settings.length]);
+
+  const loadAll = async () => {
+    try {
+      setLoading(true);
+      const [taxSettings, fxRates, categoryList] = await Promise.all([
+        MoneyService.getTaxSettings(),
+        MoneyService.getFxRates(),
+        MoneyService.getCategories(),
+      ]);
+      setSettings(taxSettings);
+      setRates(fxRates);
+      setCategories(categoryList);
+    } catch (error) {
+      showToast('error', 'Failed to load tax and currency settings');
+      console.error('Error loading tax and currency settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const selected = settings.find((setting) => setting.country === selectedCountry) ?? null;
+
+  const replaceSetting = (updated: TaxSetting) => {
+    setSettings((current) => {
+      const others = current.filter((setting) => setting.country !== updated.country);
+      return [...others, updated].sort((a, b) => a.country.localeCompare(b.country));
+    });
+  };
+
+  const editSetting = (setting: TaxSetting) => {
+    setSelectedCountry(setting.country);
+    setTaxForm({
+      country: setting.country,
+      pricesIncludeTax: setting.pricesIncludeTax,
+      standardRate: String(Math.round(setting.standardRate * 10000) / 100),
+    });
+  };
+
+  const handleSaveSetting = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!taxForm.country.trim() || taxForm.standardRate === '') {
+      showToast('error', 'Country and standard rate are required');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await MoneyService.saveTaxSetting(taxForm.country.trim(), {
+        pricesIncludeTax: taxForm.pricesIncludeTax,
+        standardRate: toRate(taxForm.standardRate),
+      });
+      if (!result.success) {
+        showToast('error', result.error);
+        return;
+      }
+      replaceSetting(result.data);
+      setSelectedCountry(result.data.country);
+      setTaxForm(emptyTaxForm);
+      showToast('success', `Tax setting for ${result.data.country} saved`);
+      telemetry.trackUserAction('tax_setting_saved', 'SettingsTaxPage', { country: result.data.country });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteSetting = async (setting: TaxSetting) => {
+    if (!confirm(`Remove the tax setting for ${setting.country}? Orders there will be recorded without tax.`)) return;
+
+    const result = await MoneyService.deleteTaxSetting(setting.country);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    setSettings((current) => current.filter((entry) => entry.country !== setting.country));
+    if (selectedCountry === setting.country) setSelectedCountry(null);
+    showToast('success', `Tax setting for ${setting.country} removed`);
+  };
+
+  const handleSetCategoryRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !categoryForm.categoryId || categoryForm.rate === '') return;
+
+    const result = await MoneyService.setCategoryRate(selected.country, categoryForm.categoryId, toRate(categoryForm.rate));
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    replaceSetting(result.data);
+    setCategoryForm({ categoryId: '', rate: '' });
+    showToast('success', 'Category rate saved');
+  };
+
+  const handleRemoveCategoryRate = async (categoryId: string) => {
+    if (!selected) return;
+
+    const result = await MoneyService.removeCategoryRate(selected.country, categoryId);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    replaceSetting(result.data);
+    showToast('success', 'Category rate removed');
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fxForm.base.trim() || !fxForm.quote.trim() || fxForm.rate === '' || !fxForm.effectiveFrom) {
+      showToast('error', 'Currencies, rate and effective date are required');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await MoneyService.createFxRate({
+        base: fxForm.base.trim().toUpperCase(),
+        quote: fxForm.quote.trim().toUpperCase(),
+        rate: Number(fxForm.rate),
+        effectiveFrom: new Date(`${fxForm.effectiveFrom}T00:00:00Z`).toISOString(),
+        source: fxForm.source.trim() || undefined,
+      });
+      if (!result.success) {
+        showToast('error', result.error);
+        return;
+      }
+      setRates(await MoneyService.getFxRates());
+      setFxForm({ ...emptyFxForm, base: fxForm.base });
+      showToast('success', `${result.data.base}/${result.data.quote} rate added`);
+      telemetry.trackUserAction('fx_rate_added', 'SettingsTaxPage', { pair: `${result.data.base}/${result.data.quote}` });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteRate = async (rate: FxRate) => {
+    if (!confirm(`Delete the ${rate.base}/${rate.quote} rate from ${rate.effectiveFrom.slice(0, 10)}? Reports over that period will use the previous rate.`)) return;
+
+    const result = await MoneyService.deleteFxRate(rate.id);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    setRates((current) => current.filter((entry) => entry.id !== rate.id));
+    showToast('success', 'FX rate deleted');
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: 'var(--s-muted)' }}>
+        Loading tax and currency settings...
+      </div>
+    );
+  }
+
+  return (
+    <TelemetryErrorBoundary>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '24px' }}>
+        <section className="s-panel">
+          <div className="s-panelCard">
+            <p className="s-panelT">Tax by Country</p>
+            <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px' }}>
+              VAT or sales tax applied to new orders. Countries without a setting are recorded untaxed.
+            </p>
+
+            {settings.length === 0 ? (
+              <div style={{ textAlign: 'center', padding: '24px', color: 'var(--s-muted)' }}>
+                No tax settings yet
+              </div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '16px' }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                    <th style={headerStyle}>Country</th>
+                    <th style={headerStyle}>Menu prices</th>
+                    <th style={headerStyle}>Standard</th>
+                    <th style={headerStyle}>Category rates</th>
+                    <th style={{ ...headerStyle, textAlign: 'right' }}>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {settings.map((setting) => (
+                    <tr
+                      key={setting.country}
+                      onClick={() => setSelectedCountry(setting.country)}
+                      style={{
+                        borderBottom: '1px solid var(--s-border)',
+                        cursor: 'pointer',
+                        backgroundColor: selectedCountry === setting.country ? 'var(--s-secondary)' : undefined,
+                      }}
+                    >
+                      <td style={cellStyle}>{setting.country}</td>
+                      <td style={{ ...cellStyle, color: 'var(--s-muted)' }}>
+                        {setting.pricesIncludeTax ? 'Include tax' : 'Tax added'}
+                      </td>
+                      <td style={cellStyle}>{percent(setting.standardRate)}</td>
+                      <td style={{ ...cellStyle, color: 'var(--s-muted)' }}>{setting.categoryRates.length || '—'}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }} onClick={(e) => e.stopPropagation()}>
+                        <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+                          <button onClick={() => editSetting(setting)} style={buttonStyle}>Edit</button>
+                          <button onClick={() => handleDeleteSetting(setting)} style={{ ...buttonStyle, color: 'var(--s-danger)' }}>Delete</button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <form onSubmit={handleSaveSetting} style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr auto', gap: '12px', alignItems: 'end', marginTop: '16px' }}>
+              <div>
+                <label style={labelStyle}>Country</label>
+                <input type="text" value={taxForm.country} placeholder="e.g. DE" onChange={(e) => setTaxForm({ ...taxForm, country: e.target.value })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Standard rate (%)</label>
+                <input type="number" min="0" max="99" step="0.01" value={taxForm.standardRate} onChange={(e) => setTaxForm({ ...taxForm, standardRate: e.target.value })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Menu prices</label>
+                <select value={taxForm.pricesIncludeTax ? 'gross' : 'net'} onChange={(e) => setTaxForm({ ...taxForm, pricesIncludeTax: e.target.value === 'gross' })} style={inputStyle}>
+                  <option value="gross">Include tax</option>
+                  <option value="net">Tax added at till</option>
+                </select>
+              </div>
+              <button type="submit" disabled={submitting} style={primaryButtonStyle}>Save</button>
+            </form>
+
+            {selected && (
+              <div style={{ marginTop: '24px' }}>
+                <p style={{ fontWeight: 500, fontSize: '14px' }}>{selected.country} category rates</p>
+                <p style={{ color: 'var(--s-muted)', fontSize: '12px', marginTop: '4px' }}>
+                  Replace the standard rate for items in a category; an item in several takes the highest.
+                </p>
+                {selected.categoryRates.map((entry) => (
+                  <div key={entry.categoryId} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '8px 0', borderBottom: '1px solid var(--s-border)', fontSize: '14px' }}>
+                    <span>{entry.categoryName}</span>
+                    <span style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+                      {percent(entry.rate)}
+                      <button onClick={() => handleRemoveCategoryRate(entry.categoryId)} style={{ ...buttonStyle, color: 'var(--s-danger)' }}>Remove</button>
+                    </span>
+                  </div>
+                ))}
+                <form onSubmit={handleSetCategoryRate} style={{ display: 'grid', gridTemplateColumns: '2fr 1fr auto', gap: '12px', alignItems: 'end', marginTop: '12px' }}>
+                  <div>
+                    <label style={labelStyle}>Category</label>
+                    <select value={categoryForm.categoryId} onChange={(e) => setCategoryForm({ ...categoryForm, categoryId: e.target.value })} style={inputStyle}>
+                      <option value="">Select a category</option>
+                      {categories.map((category) => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Rate (%)</label>
+                    <input type="number" min="0" max="99" step="0.01" value={categoryForm.rate} onChange={(e) => setCategoryForm({ ...categoryForm, rate: e.target.value })} style={inputStyle} />
+                  </div>
+                  <button type="submit" style={primaryButtonStyle}>Set</button>
+                </form>
+              </div>
+            )}
+          </div>
+        </section>
+
+        <section className="s-panel">
+          <div className="s-panelCard">
+            <p className="s-panelT">FX Rates</p>
+            <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px' }}>
+              Used to report order revenue in one currency. Each order converts at the rate in effect on its date;
+              pairs without a direct rate are crossed through EUR.
+            </p>
+
+            <form onSubmit={handleAddRate} style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1.4fr', gap: '12px', marginTop: '16px' }}>
+              <div>
+                <label style={labelStyle}>Base</label>
+                <input type="text" maxLength={3} value={fxForm.base} onChange={(e) => setFxForm({ ...fxForm, base: e.target.value })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Quote</label>
+                <input type="text" maxLength={3} value={fxForm.quote} placeholder="e.g. GBP" onChange={(e) => setFxForm({ ...fxForm, quote: e.target.value })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Rate</label>
+                <input type="number" min="0" step="any" value={fxForm.rate} onChange={(e) => setFxForm({ ...fxForm, rate: e.target.value })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Effective from</label>
+                <input type="date" value={fxForm.effectiveFrom} onChange={(e) => setFxForm({ ...fxForm, effectiveFrom: e.target.value })} style={inputStyle} />
+              </div>
+              <div style={{ gridColumn: '1 / span 3' }}>
+                <label style={labelStyle}>Source (optional)</label>
+                <input type="text" value={fxForm.source} placeholder="e.g. ECB reference rate" onChange={(e) => setFxForm({ ...fxForm, source: e.target.value })} style={inputStyle} />
+              </div>
+              <div style={{ display: 'flex', alignItems: 'end' }}>
+                <button type="submit" disabled={submitting} style={{ ...primaryButtonStyle, width: '100%' }}>Add rate</button>
+              </div>
+            </form>
+
+            {rates.length === 0 ? (
+              <div style={{ textAlign: 'center', padding: '24px', color: 'var(--s-muted)' }}>
+                No FX rates yet
+              </div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '16px' }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                    <th style={headerStyle}>Pair</th>
+                    <th style={headerStyle}>Rate</th>
+                    <th style={headerStyle}>From</th>
+                    <th style={headerStyle}>Source</th>
+                    <th style={{ ...headerStyle, textAlign: 'right' }}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rates.map((rate) => (
+                    <tr key={rate.id} style={{ borderBottom: '1px solid var(--s-border)' }}>
+                      <td style={cellStyle}><code>{rate.base}/{rate.quote}</code></td>
+                      <td style={cellStyle}>{rate.rate}</td>
+                      <td style={{ ...cellStyle, color: 'var(--s-muted)' }}>{rate.effectiveFrom.slice(0, 10)}</td>
+                      <td style={{ ...cellStyle, color: 'var(--s-muted)' }}>{rate.source ?? rate.createdBy}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>
+                        <button onClick={() => handleDeleteRate(rate)} style={{ ...buttonStyle, color: 'var(--s-danger)' }}>Delete</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </section>
+      </div>
+    </TelemetryErrorBoundary>
+  );
+}
@@ -242,7 +242,9 @@ export default function SettingsUsersPage() {
                 >
                   <option value="">All Roles</option>
                   <option value="ADMIN">Admin</option>
-                  <option value="MANAGER">Manager</option>
+                  <option value="REGIONAL_MANAGER">Regional Manager</option>
+                  <option value="STORE_MANAGER">Store Manager</option>
+                  <option value="ANALYST">Analyst</option>
                   <option value="STAFF">Staff</option>
                 </select>
               </div>
@@ -306,9 +308,9 @@ export default function SettingsUsersPage() {
                               fontSize: '12px',
                               fontWeight: '500',
                               backgroundColor: user.role === 'ADMIN' ? 'var(--s-danger-bg)' : 
-                                             user.role === 'MANAGER' ? 'var(--s-warning-bg)' : 'var(--s-info-bg)',
+                                             user.role.endsWith('MANAGER') ? 'var(--s-warning-bg)' : 'var(--s-info-bg)',
                               color: user.role === 'ADMIN' ? 'var(--s-danger)' : 
-                                     user.role === 'MANAGER' ? 'var(--s-warning)' : 'var(--s-info)',
+                                     user.role.endsWith('MANAGER') ? 'var(--s-warning)' : 'var(--s-info)',
                             }}
                           >
                             {user.role}
@@ -482,7 +484,9 @@ export default function SettingsUsersPage() {
                   }}
                 >
                   <option value="STAFF">Staff</option>
-                  <option value="MANAGER">Manager</option>
+                  <option value="ANALYST">Analyst</option>
+                  <option value="STORE_MANAGER">Store Manager</option>
+                  <option value="REGIONAL_MANAGER">Regional Manager</option>
                   <option value="ADMIN">Admin</option>
                 </select>
                 {formErrors.role && (
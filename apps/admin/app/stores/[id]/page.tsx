@@ -9,6 +9,9 @@ import { OrdersTab } from './tabs/OrdersTab';
 import { StaffTab } from './tabs/StaffTab';
 import { PhotosTab } from './tabs/PhotosTab';
 import { HoursTab } from './tabs/HoursTab';
+import { HistoryTab } from './tabs/HistoryTab';
+import { AlertsTab } from './tabs/AlertsTab';
+import { AllergensTab } from './tabs/AllergensTab';
 import AdvancedAnalysisTab from './tabs/AdvancedAnalysisTab';
 
 interface Store {
@@ -22,14 +25,15 @@ interface Store {
   status: string | null;
   latitude: number | null;
   longitude: number | null;
-  operatingHours: string | null;
+  timezone: string | null;
+  holidayPolicy: string;
   phoneNumber: string | null;
   email: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
-type TabType = 'overview' | 'performance' | 'forecast' | 'advanced' | 'orders' | 'staff' | 'photos' | 'hours';
+type TabType = 'overview' | 'performance' | 'forecast' | 'advanced' | 'orders' | 'staff' | 'photos' | 'hours' | 'alerts' | 'allergens' | 'history';
 
 export default function StoreDetailsPage() {
   const router = useRouter();
@@ -117,7 +121,10 @@ export default function StoreDetailsPage() {
     { id: 'orders', label: 'Orders' },
     { id: 'staff', label: 'Staff' },
     { id: 'photos', label: 'Photos' },
-    { id: 'hours', label: 'Hours' }
+    { id: 'hours', label: 'Hours' },
+    { id: 'alerts', label: 'Alerts' },
+    { id: 'allergens', label: 'Allergens' },
+    { id: 'history', label: 'History' }
   ];
 
   return (
@@ -167,7 +174,10 @@ export default function StoreDetailsPage() {
         {activeTab === 'orders' && <OrdersTab storeId={storeId} />}
         {activeTab === 'staff' && <StaffTab storeId={storeId} />}
         {activeTab === 'photos' && <PhotosTab storeId={storeId} />}
-        {activeTab === 'hours' && <HoursTab storeId={storeId} store={store} onUpdate={fetchStore} />}
+        {activeTab === 'hours' && <HoursTab storeId={storeId} onUpdate={fetchStore} />}
+        {activeTab === 'alerts' && <AlertsTab storeId={storeId} />}
+        {activeTab === 'allergens' && <AllergensTab storeId={storeId} />}
+        {activeTab === 'history' && <HistoryTab storeId={storeId} onUpdate={fetchStore} />}
       </div>
     </main>
   );
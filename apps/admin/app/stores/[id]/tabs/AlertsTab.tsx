@@ -0,0 +1,7 @@
+'use client';
+
+import { StoreAlerts } from '../../../components/alerts/StoreAlerts';
+
+export function AlertsTab({ storeId }: { storeId: string }) {
+  return <StoreAlerts storeId={storeId} />;
+}
@@ -0,0 +1,400 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MenuLabellingService } from '@/lib/services/menu-labelling.service';
+import {
+  ALLERGENS,
+  ALLERGEN_LABELS,
+  Allergen,
+  AllergenMatrix,
+  AllergenMatrixRow,
+  ConfiguredProfile,
+  ItemLabelling,
+  NUTRIENTS,
+  NUTRIENT_LABELS,
+  Nutrition,
+} from '@/lib/types/menu-labelling.types';
+import { useToast } from '@/app/components/ToastProvider';
+
+// Per allergen: what the item contains / may contain, or what the modifier adds / removes
+type Mark = '' | 'contains' | 'may' | 'adds' | 'removes';
+
+interface Draft {
+  row: AllergenMatrixRow;
+  declared: boolean;
+  marks: Record<Allergen, Mark>;
+  nutrition: Record<string, string>;
+}
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: 'var(--s-secondary)',
+  color: 'var(--s-text)',
+  border: '1px solid var(--s-border)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+};
+
+const primaryButtonStyle = {
+  padding: '8px 16px',
+  backgroundColor: 'var(--s-primary)',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '14px',
+};
+
+const inputStyle = {
+  width: '100%',
+  padding: '6px 10px',
+  border: '1px solid var(--s-border)',
+  borderRadius: '6px',
+  backgroundColor: 'var(--s-bg)',
+  color: 'var(--s-text)',
+  fontSize: '14px',
+};
+
+const cellStyle = { padding: '6px 4px', fontSize: '13px', textAlign: 'center' as const };
+
+const headerStyle = { padding: '6px 4px', fontSize: '11px', fontWeight: '500', color: 'var(--s-muted)', textAlign: 'center' as const };
+
+function MatrixCell({ row, allergen }: { row: AllergenMatrixRow; allergen: Allergen }) {
+  if (!row.declared) return <td style={{ ...cellStyle, color: 'var(--s-muted)' }}>?</td>;
+  if (row.contains.includes(allergen)) {
+    return <td style={{ ...cellStyle, fontWeight: 600, color: 'var(--s-danger)' }}>{row.kind === 'item' ? '●' : '+'}</td>;
+  }
+  if (row.mayContain.includes(allergen)) return <td style={{ ...cellStyle, color: 'var(--s-warning)' }}>○</td>;
+  if (row.removes.includes(allergen)) return <td style={{ ...cellStyle, color: 'var(--s-success)' }}>−</td>;
+  return <td style={cellStyle}></td>;
+}
+
+const formatList = (allergens: Allergen[]) => (allergens.length > 0 ? allergens.map((allergen) => ALLERGEN_LABELS[allergen]).join(', ') : 'None');
+
+function draftOf(row: AllergenMatrixRow): Draft {
+  const marks = Object.fromEntries(ALLERGENS.map((allergen) => {
+    let mark: Mark = '';
+    if (row.contains.includes(allergen)) mark = row.kind === 'item' ? 'contains' : 'adds';
+    else if (row.mayContain.includes(allergen)) mark = 'may';
+    else if (row.removes.includes(allergen)) mark = 'removes';
+    return [allergen, mark];
+  })) as Record<Allergen, Mark>;
+  const nutrition = Object.fromEntries(NUTRIENTS.map((nutrient) => [nutrient, row.nutrition?.[nutrient]?.toString() ?? '']));
+  return { row, declared: row.declared, marks, nutrition };
+}
+
+export function AllergensTab({ storeId }: { storeId: string }) {
+  const [matrix, setMatrix] = useState<AllergenMatrix | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [configuring, setConfiguring] = useState<ItemLabelling | null>(null);
+  const [selectedModifiers, setSelectedModifiers] = useState<string[]>([]);
+  const [profile, setProfile] = useState<ConfiguredProfile | null>(null);
+  const { showToast } = useToast();
+
+  const loadMatrix = async () => {
+    setError(null);
+    try {
+      setMatrix(await MenuLabellingService.getMatrix(storeId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the allergen matrix');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadMatrix();
+  }, [storeId]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const response = await fetch(`/api/stores/${storeId}/allergen-matrix`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || errorData.message || 'Export failed');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'allergen-matrix.csv';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const nutrition: Nutrition = {};
+    for (const nutrient of NUTRIENTS) {
+      const value = draft.nutrition[nutrient].trim();
+      if (!value) continue;
+      const parsed = parseFloat(value);
+      if (isNaN(parsed) || (draft.row.kind === 'item' && parsed < 0)) {
+        showToast('error', `${NUTRIENT_LABELS[nutrient]} must be ${draft.row.kind === 'item' ? 'zero or more' : 'a number'}`);
+        return;
+      }
+      nutrition[nutrient] = parsed;
+    }
+    const marked = (mark: Mark) => ALLERGENS.filter((allergen) => draft.marks[allergen] === mark);
+    const hasNutrition = Object.keys(nutrition).length > 0;
+
+    setSaving(true);
+    const result = draft.row.kind === 'item'
+      ? await MenuLabellingService.updateItem(draft.row.id, {
+        allergens: draft.declared ? marked('contains') : null,
+        mayContain: marked('may'),
+        nutrition: hasNutrition ? nutrition : null,
+      })
+      : await MenuLabellingService.updateModifier(draft.row.groupId!, draft.row.id, {
+        allergensAdded: marked('adds'),
+        allergensRemoved: marked('removes'),
+        nutritionDelta: hasNutrition ? nutrition : null,
+      });
+    setSaving(false);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    showToast('success', `${draft.row.name} updated`);
+    setDraft(null);
+    await loadMatrix();
+  };
+
+  const handleConfigure = async (row: AllergenMatrixRow) => {
+    try {
+      setConfiguring(await MenuLabellingService.getItem(row.id));
+      setSelectedModifiers([]);
+      setProfile(null);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to load the item');
+    }
+  };
+
+  const handleProfile = async () => {
+    if (!configuring) return;
+    const result = await MenuLabellingService.getProfile(configuring.id, selectedModifiers);
+    if (!result.success) {
+      showToast('error', result.error);
+      return;
+    }
+    setProfile(result.data);
+  };
+
+  const toggleModifier = (id: string) => {
+    setProfile(null);
+    setSelectedModifiers((current) => (current.includes(id) ? current.filter((other) => other !== id) : [...current, id]));
+  };
+
+  if (loading) {
+    return <div style={{ padding: '24px', color: 'var(--s-muted)' }}>Loading allergen matrix...</div>;
+  }
+  if (error || !matrix) {
+    return <div style={{ padding: '24px', color: 'var(--s-danger)' }}>{error ?? 'No allergen matrix'}</div>;
+  }
+
+  const items = matrix.rows.filter((row) => row.kind === 'item');
+  const modifiers = matrix.rows.filter((row) => row.kind === 'modifier');
+  const markOptions: Array<[Mark, string]> = draft?.row.kind === 'modifier'
+    ? [['', '—'], ['adds', 'Adds'], ['removes', 'Removes']]
+    : [['', '—'], ['contains', 'Contains'], ['may', 'May contain']];
+
+  const renderRow = (row: AllergenMatrixRow) => (
+    <tr key={row.id} style={{ borderBottom: '1px solid var(--s-border)' }}>
+      <td style={{ ...cellStyle, textAlign: 'left', whiteSpace: 'nowrap' }}>
+        {row.name}
+        {row.group && <span style={{ color: 'var(--s-muted)', fontSize: '12px' }}> ({row.group})</span>}
+      </td>
+      {ALLERGENS.map((allergen) => <MatrixCell key={allergen} row={row} allergen={allergen} />)}
+      <td style={cellStyle}>{row.nutrition?.energyKcal ?? '—'}</td>
+      <td className="no-print" style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+        <button onClick={() => setDraft(draftOf(row))} style={buttonStyle}>Edit</button>
+        {row.kind === 'item' && (
+          <button onClick={() => handleConfigure(row)} style={{ ...buttonStyle, marginLeft: '4px' }}>Configure</button>
+        )}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+      <section className="s-panel">
+        <div className="s-panelCard">
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '12px' }}>
+            <div>
+              <p className="s-panelT">Allergen matrix</p>
+              <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px' }}>
+                {matrix.rules.name} · ● contains · ○ may contain · + modifier adds · − modifier removes · ? not declared
+              </p>
+            </div>
+            <div className="no-print" style={{ display: 'flex', gap: '8px' }}>
+              <button onClick={() => window.print()} style={buttonStyle}>Print</button>
+              <button onClick={handleExport} disabled={exporting} style={buttonStyle}>
+                {exporting ? 'Exporting...' : 'Export CSV'}
+              </button>
+            </div>
+          </div>
+
+          {matrix.issues.length > 0 && (
+            <div className="no-print" style={{ marginTop: '16px', padding: '12px 16px', borderRadius: '6px', backgroundColor: 'var(--s-warning-bg)' }}>
+              <p style={{ fontSize: '14px', fontWeight: 500, color: 'var(--s-warning)' }}>
+                {matrix.issues.length} labelling issue{matrix.issues.length !== 1 ? 's' : ''}
+              </p>
+              <ul style={{ margin: '8px 0 0', paddingLeft: '16px', fontSize: '14px' }}>
+                {matrix.issues.map((issue) => <li key={`${issue.id}-${issue.code}`}>{issue.message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {matrix.rows.length === 0 ? (
+            <div style={{ padding: '24px', color: 'var(--s-muted)' }}>No active menu items</div>
+          ) : (
+            <div style={{ overflowX: 'auto', marginTop: '16px' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--s-border)' }}>
+                    <th style={{ ...headerStyle, textAlign: 'left' }}>Item</th>
+                    {ALLERGENS.map((allergen) => <th key={allergen} style={headerStyle}>{ALLERGEN_LABELS[allergen]}</th>)}
+                    <th style={headerStyle}>kcal</th>
+                    <th className="no-print" style={headerStyle}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map(renderRow)}
+                  {modifiers.length > 0 && (
+                    <tr>
+                      <td colSpan={ALLERGENS.length + 3} style={{ ...cellStyle, textAlign: 'left', fontWeight: 500, paddingTop: '16px' }}>
+                        Modifiers
+                      </td>
+                    </tr>
+                  )}
+                  {modifiers.map(renderRow)}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </section>
+
+      {draft && (
+        <section className="s-panel no-print">
+          <div className="s-panelCard">
+            <p className="s-panelT">{draft.row.name}</p>
+            {draft.row.kind === 'item' && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', marginTop: '12px' }}>
+                <input type="checkbox" checked={draft.declared} onChange={(e) => setDraft({ ...draft, declared: e.target.checked })} />
+                Allergens declared (leave ticked with nothing marked for an allergen-free item)
+              </label>
+            )}
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '12px', marginTop: '16px' }}>
+              {ALLERGENS.map((allergen) => (
+                <div key={allergen}>
+                  <label style={{ display: 'block', fontSize: '13px', marginBottom: '4px', color: 'var(--s-muted)' }}>{ALLERGEN_LABELS[allergen]}</label>
+                  <select
+                    value={draft.marks[allergen]}
+                    onChange={(e) => setDraft({ ...draft, marks: { ...draft.marks, [allergen]: e.target.value as Mark } })}
+                    disabled={draft.row.kind === 'item' && !draft.declared}
+                    className="s-select"
+                  >
+                    {markOptions.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <p style={{ fontSize: '14px', fontWeight: 500, margin: '16px 0 8px' }}>
+              {draft.row.kind === 'item' ? 'Nutrition per serving' : 'Change to nutrition per serving (negative for removals)'}
+            </p>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))', gap: '12px' }}>
+              {NUTRIENTS.map((nutrient) => (
+                <div key={nutrient}>
+                  <label style={{ display: 'block', fontSize: '13px', marginBottom: '4px', color: 'var(--s-muted)' }}>{NUTRIENT_LABELS[nutrient]}</label>
+                  <input
+                    value={draft.nutrition[nutrient]}
+                    onChange={(e) => setDraft({ ...draft, nutrition: { ...draft.nutrition, [nutrient]: e.target.value } })}
+                    style={inputStyle}
+                  />
+                </div>
+              ))}
+            </div>
+            <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', marginTop: '16px' }}>
+              <button onClick={() => setDraft(null)} style={buttonStyle}>Cancel</button>
+              <button onClick={handleSave} disabled={saving} style={primaryButtonStyle}>{saving ? 'Saving...' : 'Save'}</button>
+            </div>
+          </div>
+        </section>
+      )}
+
+      {configuring && (
+        <section className="s-panel no-print">
+          <div className="s-panelCard">
+            <p className="s-panelT">Configure {configuring.name}</p>
+            <p style={{ color: 'var(--s-muted)', fontSize: '14px', marginTop: '4px' }}>
+              Choose modifiers to see the allergens and calories of the item as ordered.
+            </p>
+            {configuring.modifierGroups.length === 0 ? (
+              <p style={{ fontSize: '14px', marginTop: '12px' }}>No modifiers are offered on this item.</p>
+            ) : (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '24px', marginTop: '12px' }}>
+                {configuring.modifierGroups.map((group) => (
+                  <div key={group.id}>
+                    <p style={{ fontSize: '14px', fontWeight: 500 }}>
+                      {group.name}
+                      {group.maxSelection !== null && <span style={{ color: 'var(--s-muted)' }}> (up to {group.maxSelection})</span>}
+                    </p>
+                    {group.modifiers.filter((modifier) => modifier.active).map((modifier) => (
+                      <label key={modifier.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', marginTop: '4px' }}>
+                        <input type="checkbox" checked={selectedModifiers.includes(modifier.id)} onChange={() => toggleModifier(modifier.id)} />
+                        {modifier.name}
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+            <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+              <button onClick={handleProfile} style={primaryButtonStyle}>Calculate</button>
+              <button onClick={() => setConfiguring(null)} style={buttonStyle}>Close</button>
+            </div>
+            {profile && (
+              <div style={{ marginTop: '16px', fontSize: '14px', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                <div><strong>Contains:</strong> {profile.allergens ? formatList(profile.allergens) : 'Not declared'}</div>
+                <div><strong>May contain:</strong> {formatList(profile.mayContain)}</div>
+                <div>
+                  <strong>Nutrition:</strong>{' '}
+                  {profile.nutrition
+                    ? NUTRIENTS.filter((nutrient) => profile.nutrition?.[nutrient] !== undefined)
+                      .map((nutrient) => `${NUTRIENT_LABELS[nutrient]} ${profile.nutrition?.[nutrient]}`)
+                      .join(' · ') || 'None declared'
+                    : 'Not declared'}
+                </div>
+                {profile.modifiersWithoutNutrition.length > 0 && (
+                  <div style={{ color: 'var(--s-warning)' }}>
+                    Totals leave out {profile.modifiersWithoutNutrition.length} modifier{profile.modifiersWithoutNutrition.length !== 1 ? 's' : ''} with no nutrition on file
+                  </div>
+                )}
+                {profile.issues.map((issue) => (
+                  <div key={`${issue.id}-${issue.code}`} style={{ color: 'var(--s-danger)' }}>{issue.message}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
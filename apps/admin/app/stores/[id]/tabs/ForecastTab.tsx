@@ -23,6 +23,13 @@ interface StoreForecast {
     growthRate: number;
     confidence: number;
   };
+  model?: {
+    name: string;
+    description: string;
+    reason: string;
+    backtestMape: number | null;
+    backtestCoverage: number | null;
+  };
   historicalData: Array<{
     date: string;
     revenue: number;
@@ -247,6 +254,14 @@ export function ForecastTab({ storeId }: { storeId: string }) {
           <p style={{ fontSize: '11px', color: 'var(--s-muted)', marginTop: '12px', textAlign: 'center' }}>
             Shaded area represents 80% confidence interval
           </p>
+          {forecast.model && (
+            <p style={{ fontSize: '11px', color: 'var(--s-muted)', marginTop: '4px', textAlign: 'center' }}>
+              Model: {forecast.model.description}
+              {forecast.model.backtestMape !== null && ` · backtest error ${forecast.model.backtestMape.toFixed(1)}%`}
+              {forecast.model.backtestCoverage !== null && ` · ${Math.round(forecast.model.backtestCoverage * 100)}% of actuals inside interval`}
+              {' · '}{forecast.model.reason}
+            </p>
+          )}
         </div>
       </div>
 
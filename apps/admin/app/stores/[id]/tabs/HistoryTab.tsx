@@ -0,0 +1,7 @@
+'use client';
+
+import { EntityHistory } from '../../../components/audit/EntityHistory';
+
+export function HistoryTab({ storeId, onUpdate }: { storeId: string; onUpdate: () => void }) {
+  return <EntityHistory entity="store" entityId={storeId} onReverted={onUpdate} />;
+}
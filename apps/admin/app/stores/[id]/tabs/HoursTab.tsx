@@ -1,114 +1,241 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { bffErrorMessage } from '@/lib/utils/bff-error';
 
-interface Store {
-  operatingHours: string | null;
+interface HoursInterval {
+  opensAt: string;
+  closesAt: string;
 }
 
-interface DayHours {
-  open: string;
-  close: string;
+type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+type WeeklyHours = Record<Weekday, HoursInterval[]>;
+type HolidayPolicy = 'CLOSED' | 'REGULAR' | 'SUNDAY';
+
+interface HoursException {
+  date: string;
   closed: boolean;
+  intervals: HoursInterval[];
+  reason?: string | null;
 }
 
-interface OperatingHours {
-  monday: DayHours;
-  tuesday: DayHours;
-  wednesday: DayHours;
-  thursday: DayHours;
-  friday: DayHours;
-  saturday: DayHours;
-  sunday: DayHours;
+interface StoreHours {
+  timezone: string;
+  timezoneSource: 'store' | 'country' | 'default';
+  holidayPolicy: HolidayPolicy;
+  holidayCalendar: boolean;
+  weekly: WeeklyHours;
+  exceptions: HoursException[];
+  upcomingHolidays: Array<{ date: string; holiday?: string; intervals: HoursInterval[] }>;
+  openNow: { open: boolean; localTime: string; source: string; holiday?: string; reason?: string };
 }
 
-const defaultHours: DayHours = { open: '09:00', close: '21:00', closed: false };
-const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const days: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const defaultInterval: HoursInterval = { opensAt: '09:00', closesAt: '21:00' };
 
-export function HoursTab({ storeId, store, onUpdate }: { storeId: string; store: Store; onUpdate: () => void }) {
-  const [hours, setHours] = useState<OperatingHours>(() => {
-    if (store.operatingHours) {
-      try {
-        return JSON.parse(store.operatingHours);
-      } catch {
-        return days.reduce((acc, day) => ({ ...acc, [day]: defaultHours }), {} as OperatingHours);
-      }
-    }
-    return days.reduce((acc, day) => ({ ...acc, [day]: defaultHours }), {} as OperatingHours);
-  });
+const policyLabels: Record<HolidayPolicy, string> = {
+  CLOSED: 'Closed on public holidays',
+  REGULAR: 'Regular hours on public holidays',
+  SUNDAY: 'Sunday hours on public holidays'
+};
+
+function formatIntervals(intervals: HoursInterval[]): string {
+  if (intervals.length === 0) return 'Closed';
+  return intervals.map(interval => `${interval.opensAt} - ${interval.closesAt}`).join(', ');
+}
+
+export function HoursTab({ storeId, onUpdate }: { storeId: string; onUpdate: () => void }) {
+  const [hours, setHours] = useState<StoreHours | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   const [isEditing, setIsEditing] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [weekly, setWeekly] = useState<WeeklyHours | null>(null);
+  const [timezone, setTimezone] = useState('');
+  const [holidayPolicy, setHolidayPolicy] = useState<HolidayPolicy>('CLOSED');
+
+  const [exceptionDate, setExceptionDate] = useState('');
+  const [exceptionClosed, setExceptionClosed] = useState(true);
+  const [exceptionInterval, setExceptionInterval] = useState<HoursInterval>(defaultInterval);
+  const [exceptionReason, setExceptionReason] = useState('');
+  const [savingException, setSavingException] = useState(false);
+
+  const fetchHours = async () => {
+    try {
+      const response = await fetch(`/api/stores/${storeId}/hours`);
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok || !body?.success) {
+        throw new Error(bffErrorMessage(body, 'Failed to load hours'));
+      }
+      setHours(body.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load hours');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHours();
+  }, [storeId]);
+
+  const startEditing = () => {
+    if (!hours) return;
+    setWeekly(hours.weekly);
+    setTimezone(hours.timezoneSource === 'store' ? hours.timezone : '');
+    setHolidayPolicy(hours.holidayPolicy);
+    setIsEditing(true);
+  };
 
   const handleSave = async () => {
+    if (!weekly) return;
     setSaving(true);
     try {
       const response = await fetch(`/api/stores/${storeId}/hours`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ operatingHours: hours })
+        body: JSON.stringify({ timezone: timezone.trim() || null, holidayPolicy, weekly })
       });
+      const body = await response.json().catch(() => null);
 
-      if (response.ok) {
-        setIsEditing(false);
-        onUpdate();
-      } else {
-        alert('Failed to save hours');
+      if (!response.ok) {
+        throw new Error(bffErrorMessage(body, 'Failed to save hours'));
       }
+      setIsEditing(false);
+      await fetchHours();
+      onUpdate();
     } catch (err) {
-      alert('Failed to save hours');
+      alert(err instanceof Error ? err.message : 'Failed to save hours');
     } finally {
       setSaving(false);
     }
   };
 
-  const handleCancel = () => {
-    if (store.operatingHours) {
-      try {
-        setHours(JSON.parse(store.operatingHours));
-      } catch {
-        setHours(days.reduce((acc, day) => ({ ...acc, [day]: defaultHours }), {} as OperatingHours));
+  const updateInterval = (day: Weekday, index: number, field: keyof HoursInterval, value: string) => {
+    setWeekly(prev => prev && {
+      ...prev,
+      [day]: prev[day].map((interval, i) => i === index ? { ...interval, [field]: value } : interval)
+    });
+  };
+
+  const addInterval = (day: Weekday) => {
+    setWeekly(prev => {
+      if (!prev) return prev;
+      const last = prev[day][prev[day].length - 1];
+      // A second interval usually follows a break, so start it where the last one closes
+      const next = last ? { opensAt: last.closesAt, closesAt: defaultInterval.closesAt } : defaultInterval;
+      return { ...prev, [day]: [...prev[day], next] };
+    });
+  };
+
+  const removeInterval = (day: Weekday, index: number) => {
+    setWeekly(prev => prev && { ...prev, [day]: prev[day].filter((_, i) => i !== index) });
+  };
+
+  const applyToAll = (day: Weekday) => {
+    setWeekly(prev => prev && days.reduce((acc, d) => ({
+      ...acc,
+      [d]: prev[day].map(interval => ({ ...interval }))
+    }), {} as WeeklyHours));
+  };
+
+  const handleAddException = async () => {
+    if (!exceptionDate) return;
+    setSavingException(true);
+    try {
+      const response = await fetch(`/api/stores/${storeId}/hours/exceptions/${exceptionDate}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          closed: exceptionClosed,
+          intervals: exceptionClosed ? undefined : [exceptionInterval],
+          reason: exceptionReason.trim() || undefined
+        })
+      });
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(bffErrorMessage(body, 'Failed to save exception'));
       }
+      setExceptionDate('');
+      setExceptionReason('');
+      await fetchHours();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save exception');
+    } finally {
+      setSavingException(false);
     }
-    setIsEditing(false);
   };
 
-  const updateDay = (day: string, field: keyof DayHours, value: string | boolean) => {
-    setHours(prev => ({
-      ...prev,
-      [day]: {
-        ...prev[day as keyof OperatingHours],
-        [field]: value
+  const handleDeleteException = async (date: string) => {
+    if (!confirm(`Remove the exception on ${date}?`)) return;
+    try {
+      const response = await fetch(`/api/stores/${storeId}/hours/exceptions/${date}`, { method: 'DELETE' });
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(bffErrorMessage(body, 'Failed to remove exception'));
       }
-    }));
+      await fetchHours();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to remove exception');
+    }
   };
 
-  const applyToAll = (day: string) => {
-    const dayHours = hours[day as keyof OperatingHours];
-    const newHours = days.reduce((acc, d) => ({
-      ...acc,
-      [d]: { ...dayHours }
-    }), {} as OperatingHours);
-    setHours(newHours);
-  };
+  if (loading) {
+    return <div style={{ padding: '24px' }}>Loading hours...</div>;
+  }
+
+  if (error || !hours) {
+    return (
+      <div style={{ padding: '24px', color: 'var(--s-muted)' }}>
+        {error || 'Hours not available'}
+      </div>
+    );
+  }
+
+  const hasHours = days.some(day => hours.weekly[day].length > 0);
+  const shownWeekly = isEditing && weekly ? weekly : hours.weekly;
 
   return (
     <>
-      <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '16px', gap: '8px' }}>
-        {isEditing ? (
-          <>
-            <button onClick={handleCancel} className="s-btn s-btn--secondary" disabled={saving}>
-              Cancel
-            </button>
-            <button onClick={handleSave} className="s-btn s-btn--primary" disabled={saving}>
-              {saving ? 'Saving...' : 'Save Hours'}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px', gap: '8px' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px', fontSize: '14px' }}>
+          {hasHours && (
+            <span
+              className="badge"
+              style={hours.openNow.open ? { background: 'var(--s-success-bg)', color: 'var(--s-success-text)' } : undefined}
+            >
+              {hours.openNow.open ? 'Open now' : 'Closed now'}
+            </span>
+          )}
+          <span style={{ color: 'var(--s-muted)' }}>
+            {hours.openNow.localTime} local time ({hours.timezone}
+            {hours.timezoneSource === 'country' && ', from country'}
+            {hours.timezoneSource === 'default' && ', no timezone set'})
+            {hours.openNow.holiday && ` · ${hours.openNow.holiday}`}
+            {hours.openNow.reason && ` · ${hours.openNow.reason}`}
+          </span>
+        </div>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {isEditing ? (
+            <>
+              <button onClick={() => setIsEditing(false)} className="s-btn s-btn--secondary" disabled={saving}>
+                Cancel
+              </button>
+              <button onClick={handleSave} className="s-btn s-btn--primary" disabled={saving}>
+                {saving ? 'Saving...' : 'Save Hours'}
+              </button>
+            </>
+          ) : (
+            <button onClick={startEditing} className="s-btn s-btn--primary">
+              Edit Hours
             </button>
-          </>
-        ) : (
-          <button onClick={() => setIsEditing(true)} className="s-btn s-btn--primary">
-            Edit Hours
-          </button>
-        )}
+          )}
+        </div>
       </div>
 
       <div className="s-panel">
@@ -118,86 +245,256 @@ export function HoursTab({ storeId, store, onUpdate }: { storeId: string; store:
           </div>
 
           <div style={{ padding: '24px' }}>
-            {days.map(day => {
-              const dayHours = hours[day as keyof OperatingHours];
-              return (
-                <div
-                  key={day}
-                  style={{
-                    display: 'grid',
-                    gridTemplateColumns: isEditing ? '120px 1fr 1fr 100px 100px' : '120px 1fr',
-                    gap: '16px',
-                    alignItems: 'center',
-                    padding: '12px 0',
-                    borderBottom: '1px solid var(--s-border)'
-                  }}
-                >
-                  <div style={{ fontWeight: '600', textTransform: 'capitalize' }}>
-                    {day}
-                  </div>
+            {isEditing && (
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '16px' }}>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '14px' }}>
+                  Timezone
+                  <input
+                    type="text"
+                    value={timezone}
+                    onChange={(e) => setTimezone(e.target.value)}
+                    placeholder={hours.timezoneSource === 'store' ? 'Use the country\'s timezone' : hours.timezone}
+                    className="s-input"
+                  />
+                </label>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '14px' }}>
+                  Public holidays
+                  <select
+                    value={holidayPolicy}
+                    onChange={(e) => setHolidayPolicy(e.target.value as HolidayPolicy)}
+                    className="s-select"
+                  >
+                    {(Object.keys(policyLabels) as HolidayPolicy[]).map(policy => (
+                      <option key={policy} value={policy}>{policyLabels[policy]}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
 
-                  {isEditing ? (
-                    <>
-                      <input
-                        type="time"
-                        value={dayHours.open}
-                        onChange={(e) => updateDay(day, 'open', e.target.value)}
-                        disabled={dayHours.closed}
-                        className="s-input"
-                      />
-                      <input
-                        type="time"
-                        value={dayHours.close}
-                        onChange={(e) => updateDay(day, 'close', e.target.value)}
-                        disabled={dayHours.closed}
-                        className="s-input"
-                      />
-                      <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
-                        <input
-                          type="checkbox"
-                          checked={dayHours.closed}
-                          onChange={(e) => updateDay(day, 'closed', e.target.checked)}
-                        />
-                        <span style={{ fontSize: '14px' }}>Closed</span>
-                      </label>
+            {days.map(day => (
+              <div
+                key={day}
+                style={{
+                  display: 'grid',
+                  gridTemplateColumns: isEditing ? '120px 1fr 100px' : '120px 1fr',
+                  gap: '16px',
+                  alignItems: 'start',
+                  padding: '12px 0',
+                  borderBottom: '1px solid var(--s-border)'
+                }}
+              >
+                <div style={{ fontWeight: '600', textTransform: 'capitalize' }}>
+                  {day}
+                </div>
+
+                {isEditing ? (
+                  <>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                      {shownWeekly[day].length === 0 && (
+                        <span style={{ color: 'var(--s-muted)', fontSize: '14px' }}>Closed</span>
+                      )}
+                      {shownWeekly[day].map((interval, index) => (
+                        <div key={index} style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                          <input
+                            type="time"
+                            value={interval.opensAt}
+                            onChange={(e) => updateInterval(day, index, 'opensAt', e.target.value)}
+                            className="s-input"
+                          />
+                          <span>-</span>
+                          <input
+                            type="time"
+                            value={interval.closesAt}
+                            onChange={(e) => updateInterval(day, index, 'closesAt', e.target.value)}
+                            className="s-input"
+                          />
+                          <button
+                            onClick={() => removeInterval(day, index)}
+                            className="s-btn s-btn--secondary"
+                            style={{ fontSize: '12px', padding: '6px 12px' }}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
                       <button
-                        onClick={() => applyToAll(day)}
+                        onClick={() => addInterval(day)}
                         className="s-btn s-btn--secondary"
-                        style={{ fontSize: '12px', padding: '6px 12px' }}
+                        style={{ fontSize: '12px', padding: '6px 12px', alignSelf: 'flex-start' }}
                       >
-                        Apply to All
+                        Add hours
                       </button>
-                    </>
-                  ) : (
-                    <div style={{ color: dayHours.closed ? 'var(--s-muted)' : 'var(--s-text)' }}>
-                      {dayHours.closed ? (
-                        'Closed'
-                      ) : (
-                        `${dayHours.open} - ${dayHours.close}`
-                      )}
                     </div>
-                  )}
-                </div>
-              );
-            })}
+                    <button
+                      onClick={() => applyToAll(day)}
+                      className="s-btn s-btn--secondary"
+                      style={{ fontSize: '12px', padding: '6px 12px' }}
+                    >
+                      Apply to All
+                    </button>
+                  </>
+                ) : (
+                  <div style={{ color: shownWeekly[day].length === 0 ? 'var(--s-muted)' : 'var(--s-text)' }}>
+                    {formatIntervals(shownWeekly[day])}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {isEditing ? (
+              <p style={{ marginTop: '12px', fontSize: '13px', color: 'var(--s-muted)' }}>
+                A closing time at or before the opening time runs past midnight, e.g. 18:00 - 02:00.
+              </p>
+            ) : (
+              <p style={{ marginTop: '12px', fontSize: '14px', color: 'var(--s-muted)' }}>
+                {policyLabels[hours.holidayPolicy]}
+                {!hours.holidayCalendar && ' (no holiday calendar for this country; add holidays as exceptions)'}
+              </p>
+            )}
           </div>
         </div>
       </div>
 
-      {!store.operatingHours && !isEditing && (
-        <div style={{ 
-          marginTop: '16px', 
-          padding: '16px', 
-          backgroundColor: 'var(--s-warning-bg)', 
+      {!hasHours && !isEditing && (
+        <div style={{
+          marginTop: '16px',
+          padding: '16px',
+          backgroundColor: 'var(--s-warning-bg)',
           border: '1px solid var(--s-warning-border)',
           borderRadius: '8px',
           color: 'var(--s-warning-text)'
         }}>
           <p style={{ fontSize: '14px' }}>
-            ⚠️ Operating hours not set. Click "Edit Hours" to configure store hours.
+            ⚠️ Operating hours not set. Click &quot;Edit Hours&quot; to configure store hours.
           </p>
         </div>
       )}
+
+      <div className="s-panel" style={{ marginTop: '16px' }}>
+        <div className="s-panelCard">
+          <div className="s-panelHeader">
+            <p className="s-panelT">Exceptions</p>
+          </div>
+
+          <div style={{ padding: '24px' }}>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '16px' }}>
+              <input
+                type="date"
+                value={exceptionDate}
+                onChange={(e) => setExceptionDate(e.target.value)}
+                className="s-input"
+              />
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={exceptionClosed}
+                  onChange={(e) => setExceptionClosed(e.target.checked)}
+                />
+                <span style={{ fontSize: '14px' }}>Closed</span>
+              </label>
+              {!exceptionClosed && (
+                <>
+                  <input
+                    type="time"
+                    value={exceptionInterval.opensAt}
+                    onChange={(e) => setExceptionInterval(prev => ({ ...prev, opensAt: e.target.value }))}
+                    className="s-input"
+                  />
+                  <span>-</span>
+                  <input
+                    type="time"
+                    value={exceptionInterval.closesAt}
+                    onChange={(e) => setExceptionInterval(prev => ({ ...prev, closesAt: e.target.value }))}
+                    className="s-input"
+                  />
+                </>
+              )}
+              <input
+                type="text"
+                value={exceptionReason}
+                onChange={(e) => setExceptionReason(e.target.value)}
+                placeholder="Reason (optional)"
+                className="s-input"
+              />
+              <button
+                onClick={handleAddException}
+                className="s-btn s-btn--primary"
+                disabled={!exceptionDate || savingException}
+              >
+                {savingException ? 'Saving...' : 'Add Exception'}
+              </button>
+            </div>
+
+            <table className="s-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Hours</th>
+                  <th>Reason</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {hours.exceptions.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} style={{ textAlign: 'center', padding: '24px', color: 'var(--s-muted)' }}>
+                      No upcoming exceptions
+                    </td>
+                  </tr>
+                ) : (
+                  hours.exceptions.map(exception => (
+                    <tr key={exception.date}>
+                      <td>{exception.date}</td>
+                      <td>{exception.closed ? 'Closed' : formatIntervals(exception.intervals)}</td>
+                      <td style={{ color: 'var(--s-muted)' }}>{exception.reason || '—'}</td>
+                      <td>
+                        <button
+                          onClick={() => handleDeleteException(exception.date)}
+                          className="s-btn s-btn--secondary"
+                          style={{ fontSize: '12px', padding: '4px 12px' }}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {hours.upcomingHolidays.length > 0 && (
+        <div className="s-panel" style={{ marginTop: '16px' }}>
+          <div className="s-panelCard">
+            <div className="s-panelHeader">
+              <p className="s-panelT">Upcoming Public Holidays</p>
+            </div>
+
+            <div style={{ padding: '24px' }}>
+              {hours.upcomingHolidays.map(day => (
+                <div
+                  key={day.date}
+                  style={{
+                    display: 'grid',
+                    gridTemplateColumns: '120px 1fr 1fr',
+                    gap: '16px',
+                    padding: '8px 0',
+                    borderBottom: '1px solid var(--s-border)',
+                    fontSize: '14px'
+                  }}
+                >
+                  <span>{day.date}</span>
+                  <span>{day.holiday}</span>
+                  <span style={{ color: 'var(--s-muted)' }}>{formatIntervals(day.intervals)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
     </>
   );
 }
@@ -8,6 +8,7 @@ interface Store {
   address: string | null;
   postcode: string | null;
   country: string | null;
+  currency?: string | null;
   region: string | null;
   city: string | null;
   status: string | null;
@@ -200,6 +201,27 @@ export function OverviewTab({ store, onUpdate }: OverviewTabProps) {
               )}
             </div>
 
+            <div>
+              <label style={{ fontSize: '12px', color: 'var(--s-muted)', textTransform: 'uppercase', fontWeight: '500' }}>
+                Currency
+              </label>
+              {isEditing ? (
+                <input
+                  type="text"
+                  maxLength={3}
+                  value={editForm.currency || ''}
+                  placeholder="Country default"
+                  onChange={(e) => setEditForm({ ...editForm, currency: e.target.value.toUpperCase() })}
+                  className="s-input"
+                  style={{ marginTop: '4px' }}
+                />
+              ) : (
+                <p style={{ fontSize: '16px', marginTop: '4px', color: 'var(--s-text)' }}>
+                  {store.currency || 'Country default'}
+                </p>
+              )}
+            </div>
+
             <div>
               <label style={{ fontSize: '12px', color: 'var(--s-muted)', textTransform: 'uppercase', fontWeight: '500' }}>
                 Region
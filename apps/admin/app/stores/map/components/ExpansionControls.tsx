@@ -374,6 +374,31 @@ export default function ExpansionControls({
               {currentScenario.suggestionCount >= 200 ? 'Max Suggestions Reached' : 'Expand Model'}
             </button>
           )}
+
+          {/* Board Pack Export */}
+          <div style={{ display: 'flex', gap: '8px' }}>
+            {(['pdf', 'pptx'] as const).map(format => (
+              <a
+                key={format}
+                href={`/api/expansion/scenarios/${currentScenario.id}/board-pack?format=${format}`}
+                download
+                style={{
+                  flex: 1,
+                  padding: '8px',
+                  background: 'white',
+                  color: 'var(--s-text, #111)',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px',
+                  fontSize: '13px',
+                  fontWeight: 500,
+                  textAlign: 'center',
+                  textDecoration: 'none'
+                }}
+              >
+                📑 Board Pack ({format.toUpperCase()})
+              </a>
+            ))}
+          </div>
         </div>
       )}
 
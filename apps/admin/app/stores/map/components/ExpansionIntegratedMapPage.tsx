@@ -16,6 +16,7 @@ import SuggestionMarker, { ExpansionSuggestion } from './SuggestionMarker';
 import SuggestionInfoCard from './SuggestionInfoCard';
 import AIIndicatorLegend from './AIIndicatorLegend';
 import StrategicAnalysisPanel from './StrategicAnalysisPanel';
+import GeneratorDiagnosticsPanel from './GeneratorDiagnosticsPanel';
 import QuadrantSelector, { Quadrant } from './QuadrantSelector';
 import StoreAnalysisControls, { StoreAnalysisParams } from './StoreAnalysisControls';
 import StoreAnalysisResults from './StoreAnalysisResults';
@@ -45,6 +46,9 @@ export default function ExpansionIntegratedMapPage() {
   const [scenarios, setScenarios] = useState<Array<{ id: string; label: string; createdAt: Date }>>([]);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [strategicAnalysis, setStrategicAnalysis] = useState<{ marketGaps: string; recommendations: string } | null>(null);
+  // Last completed generation job, kept after polling ends so its suggestions can be diagnosed
+  const [diagnosticsJob, setDiagnosticsJob] = useState<{ jobId: string; country: string } | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
   
   // Competitor intelligence state - SIMPLE ARCHITECTURE WITHOUT CIRCULAR DEPENDENCIES
   const [competitors, setCompetitors] = useState<any[]>([]);
@@ -286,6 +290,7 @@ export default function ExpansionIntegratedMapPage() {
       
       if (result) {
         setSuggestions(result.suggestions || []);
+        setDiagnosticsJob({ jobId, country: params.region.country || 'Germany' });
 
         // Capture strategic analysis if available
         if (result.metadata?.strategicAnalysis) {
@@ -378,9 +383,9 @@ export default function ExpansionIntegratedMapPage() {
           return jobData.result;
         }
         
-        if (jobData.status === 'failed') {
+        if (jobData.status === 'failed' || jobData.status === 'cancelled') {
           ExpansionJobRecovery.removeJob(storageKey);
-          throw new Error(jobData.error || 'Job failed');
+          throw new Error(jobData.error || `Job ${jobData.status}`);
         }
         
         // Still running - wait and retry
@@ -484,7 +489,8 @@ export default function ExpansionIntegratedMapPage() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to save as planned store');
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to save as planned store');
       }
 
       const data = await response.json();
@@ -496,7 +502,10 @@ export default function ExpansionIntegratedMapPage() {
       // Refresh stores to show the new planned store
       await refetch();
 
-      alert(`✅ Saved as planned store!\n\nThe location will now appear on the map with a purple ring and will be considered in future expansion analysis.`);
+      alert(
+        `✅ Saved as planned store!\n\nThe location will now appear on the map with a purple ring and will be considered in future expansion analysis.` +
+          (data.pipelineSite ? `\n\nIt has also been added to the site pipeline.` : '')
+      );
     } catch (error: any) {
       console.error('Save as planned store error:', error);
       alert(`Failed to save as planned store: ${error.message}`);
@@ -575,7 +584,7 @@ export default function ExpansionIntegratedMapPage() {
           setStoreAnalyses(job.result.analyses);
           console.log(`✅ Analysis completed: ${job.result.analyses.length} stores analyzed`);
         }
-      } else if (job.status === 'failed') {
+      } else if (job.status === 'failed' || job.status === 'cancelled') {
         setAnalysisLoading(false);
         setCurrentAnalysisJobId(null);
         console.error('❌ Analysis job failed:', job.error);
@@ -764,6 +773,8 @@ export default function ExpansionIntegratedMapPage() {
                     setSuggestions([]);
                     setSelectedSuggestion(null);
                     setStrategicAnalysis(null);
+                    setDiagnosticsJob(null);
+                    setShowDiagnostics(false);
                     console.log('🧹 Cleared expansion suggestions');
                   }}
                   className="s-btn"
@@ -779,6 +790,16 @@ export default function ExpansionIntegratedMapPage() {
                   🗑️ Clear Suggestions ({suggestions.length})
                 </button>
               )}
+              {expansionMode && diagnosticsJob && (
+                <button
+                  onClick={() => setShowDiagnostics(!showDiagnostics)}
+                  className="s-btn"
+                  title="Backtest, Pareto frontier, stability and counterfactuals for the last generation"
+                  style={{ padding: '6px 12px', fontSize: '13px' }}
+                >
+                  🔬 Diagnostics
+                </button>
+              )}
               <div style={{ display: 'flex', gap: '8px' }}>
                 <button
                   onClick={() => {
@@ -1131,6 +1152,19 @@ export default function ExpansionIntegratedMapPage() {
         />
       )}
 
+      {/* Location generator diagnostics for the last completed job */}
+      {expansionMode && diagnosticsJob && showDiagnostics && !isFullscreen && (
+        <GeneratorDiagnosticsPanel
+          jobId={diagnosticsJob.jobId}
+          country={diagnosticsJob.country}
+          onSelectSite={(siteId) => {
+            const suggestion = suggestions.find(s => s.id === siteId);
+            if (suggestion) setSelectedSuggestion(suggestion);
+          }}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
+
       {/* Add CSS for loading states */}
       <style jsx global>{`
         .loading-spinner-small {
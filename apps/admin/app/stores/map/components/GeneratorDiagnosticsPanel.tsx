@@ -0,0 +1,418 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { LocationGeneratorService } from '../../../../lib/services/location-generator.service';
+import {
+  CounterfactualReport,
+  GeneratorBacktestReport,
+  ParetoFrontierReport,
+  StabilityReport,
+} from '../../../../lib/types/location-generator.types';
+
+type DiagnosticsTab = 'backtest' | 'pareto' | 'stability' | 'counterfactuals';
+
+export interface GeneratorDiagnosticsPanelProps {
+  jobId: string;
+  country: string;
+  onSelectSite?: (siteId: string) => void;
+  onClose: () => void;
+}
+
+const TABS: Array<{ id: DiagnosticsTab; label: string }> = [
+  { id: 'backtest', label: 'Backtest' },
+  { id: 'pareto', label: 'Pareto' },
+  { id: 'stability', label: 'Stability' },
+  { id: 'counterfactuals', label: 'Top 20' },
+];
+
+const LEVEL_COLORS = { high: '#16a34a', medium: '#d97706', low: '#dc2626' };
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const defaultCutoff = () => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - 2);
+  return date.toISOString().slice(0, 10);
+};
+
+export default function GeneratorDiagnosticsPanel({ jobId, country, onSelectSite, onClose }: GeneratorDiagnosticsPanelProps) {
+  const [tab, setTab] = useState<DiagnosticsTab>('backtest');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [openedSince, setOpenedSince] = useState(defaultCutoff);
+  const [backtest, setBacktest] = useState<GeneratorBacktestReport | null>(null);
+  const [pareto, setPareto] = useState<ParetoFrontierReport | null>(null);
+  const [stability, setStability] = useState<StabilityReport | null>(null);
+  const [counterfactuals, setCounterfactuals] = useState<CounterfactualReport | null>(null);
+
+  // Job analyses belong to one generation run; drop them when a new job completes
+  useEffect(() => {
+    setPareto(null);
+    setStability(null);
+    setCounterfactuals(null);
+  }, [jobId]);
+
+  const load = useCallback(async <T,>(fetcher: () => Promise<T>, apply: (value: T) => void) => {
+    setLoading(true);
+    setError(null);
+    try {
+      apply(await fetcher());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Analysis failed');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (tab === 'pareto' && !pareto) {
+      load(() => LocationGeneratorService.getParetoFrontier(jobId), setPareto);
+    } else if (tab === 'stability' && !stability) {
+      load(() => LocationGeneratorService.getStability(jobId), setStability);
+    } else if (tab === 'counterfactuals' && !counterfactuals) {
+      load(() => LocationGeneratorService.getCounterfactuals(jobId), setCounterfactuals);
+    }
+  }, [tab, jobId, pareto, stability, counterfactuals, load]);
+
+  const runBacktest = async () => {
+    setLoading(true);
+    setError(null);
+    const result = await LocationGeneratorService.runBacktest({ country, openedSince });
+    if (result.success) {
+      setBacktest(result.data);
+    } else {
+      setError(result.error);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        bottom: '20px',
+        right: '20px',
+        width: '460px',
+        maxHeight: '620px',
+        background: 'var(--s-panel, white)',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+        border: '1px solid var(--s-border, #e5e7eb)',
+        zIndex: 1000,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        style={{
+          padding: '12px 16px',
+          borderBottom: '1px solid var(--s-border, #e5e7eb)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between'
+        }}
+      >
+        <h3 style={{ margin: 0, fontSize: '15px', fontWeight: 600 }}>Generator Diagnostics</h3>
+        <button
+          onClick={onClose}
+          className="s-btn"
+          style={{ padding: '2px 8px', fontSize: '13px' }}
+          title="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', borderBottom: '1px solid var(--s-border, #e5e7eb)' }}>
+        {TABS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            style={{
+              flex: 1,
+              padding: '8px 0',
+              fontSize: '13px',
+              background: 'none',
+              border: 'none',
+              borderBottom: tab === id ? '2px solid var(--s-accent)' : '2px solid transparent',
+              color: tab === id ? 'var(--s-accent)' : 'var(--s-muted)',
+              fontWeight: tab === id ? 600 : 400,
+              cursor: 'pointer'
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ padding: '12px 16px', overflowY: 'auto', fontSize: '13px' }}>
+        {error && (
+          <div style={{ padding: '8px', marginBottom: '8px', borderRadius: '4px', background: '#fee2e2', color: '#991b1b' }}>
+            {error}
+          </div>
+        )}
+        {loading && <div style={{ color: 'var(--s-muted)', marginBottom: '8px' }}>Running analysis…</div>}
+
+        {tab === 'backtest' && (
+          <BacktestView
+            country={country}
+            openedSince={openedSince}
+            onOpenedSinceChange={setOpenedSince}
+            onRun={runBacktest}
+            running={loading}
+            report={backtest}
+          />
+        )}
+        {tab === 'pareto' && pareto && <ParetoView report={pareto} />}
+        {tab === 'stability' && stability && <StabilityView report={stability} onSelectSite={onSelectSite} />}
+        {tab === 'counterfactuals' && counterfactuals && (
+          <CounterfactualView report={counterfactuals} onSelectSite={onSelectSite} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{ padding: '8px', borderRadius: '6px', background: 'var(--s-bg, #f9fafb)' }}>
+      <div style={{ fontSize: '11px', color: 'var(--s-muted)' }}>{label}</div>
+      <div style={{ fontSize: '16px', fontWeight: 600 }}>{value}</div>
+    </div>
+  );
+}
+
+function BacktestView({
+  country,
+  openedSince,
+  onOpenedSinceChange,
+  onRun,
+  running,
+  report
+}: {
+  country: string;
+  openedSince: string;
+  onOpenedSinceChange: (value: string) => void;
+  onRun: () => void;
+  running: boolean;
+  report: GeneratorBacktestReport | null;
+}) {
+  return (
+    <div>
+      <p style={{ margin: '0 0 8px', color: 'var(--s-muted)' }}>
+        Hide stores opened in {country} since the cutoff, generate from the rest, and check whether the
+        generator would have found them.
+      </p>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '12px' }}>
+        <label htmlFor="backtest-cutoff">Opened since</label>
+        <input
+          id="backtest-cutoff"
+          type="date"
+          value={openedSince}
+          onChange={(e) => onOpenedSinceChange(e.target.value)}
+          className="s-input"
+        />
+        <button onClick={onRun} disabled={running || !openedSince} className="s-btn">
+          Run backtest
+        </button>
+      </div>
+
+      {report && (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px', marginBottom: '12px' }}>
+            <Metric label="Hit rate" value={percent(report.metrics.hitRate)} />
+            <Metric
+              label="Median distance"
+              value={report.metrics.medianDistanceKm === null ? '—' : `${report.metrics.medianDistanceKm.toFixed(1)} km`}
+            />
+            <Metric label="Coverage uplift" value={percent(report.metrics.coverageUplift)} />
+          </div>
+          <div style={{ marginBottom: '8px' }}>
+            <strong style={{ color: report.passed ? '#16a34a' : '#dc2626' }}>{report.passed ? 'Passed' : 'Failed'}</strong>
+            {' · '}
+            {report.trainingStores} training stores, {report.heldOutStores} held out, {report.candidatesEvaluated} candidate cells
+          </div>
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '8px' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: 'var(--s-muted)' }}>
+                <th>Opening</th>
+                <th>Nearest prediction</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {report.openings.map((opening) => (
+                <tr key={opening.storeId}>
+                  <td>{opening.name}</td>
+                  <td>{opening.nearestPredictionKm === null ? '—' : `${opening.nearestPredictionKm.toFixed(1)} km`}</td>
+                  <td>{opening.hit ? '✅' : '❌'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.recommendations.map((recommendation) => (
+            <div key={recommendation} style={{ color: 'var(--s-muted)' }}>• {recommendation}</div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+function ParetoView({ report }: { report: ParetoFrontierReport }) {
+  const width = 420;
+  const height = 160;
+  const points = report.frontier;
+  const maxK = Math.max(...points.map((point) => point.k), 1);
+  const maxRoi = Math.max(...points.map((point) => point.roi), 0.0001);
+  const x = (k: number) => 24 + (k / maxK) * (width - 36);
+  const y = (roi: number) => height - 20 - (roi / maxRoi) * (height - 32);
+
+  return (
+    <div>
+      <p style={{ margin: '0 0 8px', color: 'var(--s-muted)' }}>
+        Portfolio ROI by number of stores across {report.candidates} suggested sites. The knee is where adding
+        more stores stops paying for the extra risk.
+      </p>
+      <svg width={width} height={height} role="img" aria-label="Pareto frontier of store count against ROI">
+        <line x1={24} y1={height - 20} x2={width - 12} y2={height - 20} stroke="var(--s-border, #e5e7eb)" />
+        <polyline
+          fill="none"
+          stroke="var(--s-accent, #00a651)"
+          strokeWidth={2}
+          points={points.map((point) => `${x(point.k)},${y(point.roi)}`).join(' ')}
+        />
+        {points.map((point) => (
+          <circle
+            key={point.k}
+            cx={x(point.k)}
+            cy={y(point.roi)}
+            r={point.isKnee ? 6 : 3}
+            fill={point.isKnee ? '#d97706' : 'var(--s-accent, #00a651)'}
+          >
+            <title>{`${point.k} stores · ROI ${point.roi.toFixed(2)} · risk ${point.risk.toFixed(2)}`}</title>
+          </circle>
+        ))}
+        <text x={width - 12} y={height - 4} fontSize={10} textAnchor="end" fill="currentColor">stores</text>
+      </svg>
+
+      {report.knee ? (
+        <div style={{ margin: '8px 0' }}>
+          <strong>Knee: {report.knee.k} stores</strong> — ROI {report.knee.roi.toFixed(2)}, risk{' '}
+          {report.knee.risk.toFixed(2)}, coverage {percent(report.knee.coverage)}
+        </div>
+      ) : (
+        <div style={{ margin: '8px 0', color: 'var(--s-muted)' }}>No clear knee in this frontier.</div>
+      )}
+
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', color: 'var(--s-muted)' }}>
+            <th>Stores</th>
+            <th>ROI</th>
+            <th>Risk</th>
+            <th>Coverage</th>
+          </tr>
+        </thead>
+        <tbody>
+          {points.map((point) => (
+            <tr key={point.k} style={{ fontWeight: point.isKnee ? 600 : 400 }}>
+              <td>{point.k}{point.isKnee ? ' ★' : ''}</td>
+              <td>{point.roi.toFixed(2)}</td>
+              <td>{point.risk.toFixed(2)}</td>
+              <td>{percent(point.coverage)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function StabilityView({ report, onSelectSite }: { report: StabilityReport; onSelectSite?: (siteId: string) => void }) {
+  const sites = [...report.sites].sort((a, b) => b.stabilityScore - a.stabilityScore);
+
+  return (
+    <div>
+      <p style={{ margin: '0 0 8px', color: 'var(--s-muted)' }}>
+        How often each site stays in the top {report.targetK} when scoring weights are jittered over{' '}
+        {report.iterations} runs.
+      </p>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px', marginBottom: '12px' }}>
+        <Metric label="Overall" value={percent(report.overallStability)} />
+        <Metric label="Stable sites" value={String(report.stableSites)} />
+        <Metric label="Unstable sites" value={String(report.unstableSites)} />
+      </div>
+      {report.recommendedActions.map((action) => (
+        <div key={action} style={{ color: 'var(--s-muted)', marginBottom: '4px' }}>• {action}</div>
+      ))}
+      <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '8px' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', color: 'var(--s-muted)' }}>
+            <th>Site</th>
+            <th>Stability</th>
+            <th>Sensitive to</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sites.map((site) => (
+            <tr
+              key={site.siteId}
+              onClick={() => onSelectSite?.(site.siteId)}
+              style={{ cursor: onSelectSite ? 'pointer' : 'default' }}
+            >
+              <td>{site.siteId}</td>
+              <td style={{ color: LEVEL_COLORS[site.confidenceLevel] }}>{percent(site.stabilityScore)}</td>
+              <td>{site.sensitiveParameters.join(', ') || '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function CounterfactualView({
+  report,
+  onSelectSite
+}: {
+  report: CounterfactualReport;
+  onSelectSite?: (siteId: string) => void;
+}) {
+  if (report.sites.length === 0) {
+    return <div style={{ color: 'var(--s-muted)' }}>Every suggested site already ranks in the top {report.targetRank}.</div>;
+  }
+
+  return (
+    <div>
+      <p style={{ margin: '0 0 8px', color: 'var(--s-muted)' }}>
+        What would need to change for sites outside the top {report.targetRank} to make the cut.
+      </p>
+      {report.sites.map((site) => (
+        <div
+          key={site.siteId}
+          onClick={() => onSelectSite?.(site.siteId)}
+          style={{
+            padding: '8px',
+            marginBottom: '8px',
+            borderRadius: '6px',
+            border: '1px solid var(--s-border, #e5e7eb)',
+            cursor: onSelectSite ? 'pointer' : 'default'
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
+            <strong>{site.siteId}</strong>
+            <span style={{ color: 'var(--s-muted)' }}>rank #{site.currentRank}</span>
+          </div>
+          <div style={{ marginBottom: '4px' }}>{site.summary}</div>
+          <div style={{ color: 'var(--s-muted)' }}>
+            Easiest path: {site.easiestPath.impact}{' '}
+            <span style={{ color: LEVEL_COLORS[site.easiestPath.likelihood] }}>({site.easiestPath.likelihood} likelihood)</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
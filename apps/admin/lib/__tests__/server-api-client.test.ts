@@ -0,0 +1,53 @@
+import { getFromBff } from '../server-api-client';
+
+const mockGetUser = jest.fn();
+
+jest.mock('server-only', () => ({}));
+jest.mock('next/headers', () => ({
+  cookies: () => ({ get: () => ({ value: 'session-cookie' }) }),
+}));
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: () => ({ auth: { getUser: mockGetUser } }),
+}));
+
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+function sentHeaders(): Headers {
+  return mockFetch.mock.calls[0][1]!.headers as Headers;
+}
+
+describe('server API client', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({
+      ok: true,
+      text: async () => JSON.stringify({ success: true, data: [] }),
+    } as Response);
+    mockGetUser.mockReset();
+  });
+
+  test('forwards the signed-in store manager so the BFF scopes the request', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'u1', email: 'manager@example.com' } } });
+
+    await getFromBff('/stores');
+
+    expect(sentHeaders().get('x-acting-user')).toBe('manager@example.com');
+  });
+
+  test('sends no acting user when nobody is signed in', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null } });
+
+    await getFromBff('/stores');
+
+    expect(sentHeaders().has('x-acting-user')).toBe(false);
+  });
+
+  test('sends no acting user outside a request', async () => {
+    mockGetUser.mockRejectedValue(new Error('cookies was called outside a request scope'));
+
+    await getFromBff('/stores');
+
+    expect(sentHeaders().has('x-acting-user')).toBe(false);
+  });
+});
@@ -1,9 +1,9 @@
 import { z } from 'zod';
-import { bff, bffWithErrorHandling } from './api';
 
 // Request/Response schemas
 export const SubMindQuerySchema = z.object({
   prompt: z.string().min(1).max(4000),
+  conversationId: z.string().optional(),
   context: z.object({
     screen: z.string().optional(),
     selection: z.any().optional(),
@@ -18,6 +18,7 @@ export const SubMindQuerySchema = z.object({
 
 export const SubMindResponseSchema = z.object({
   message: z.string(),
+  conversationId: z.string().optional(),
   sources: z.array(z.object({
     type: z.enum(['api', 'sql', 'note']),
     ref: z.string(),
@@ -25,6 +26,7 @@ export const SubMindResponseSchema = z.object({
   meta: z.object({
     tokens: z.number().optional(),
     latencyMs: z.number().optional(),
+    toolCalls: z.number().optional(),
   }).optional(),
 });
 
@@ -54,14 +56,23 @@ export async function querySubMind(query: SubMindQuery): Promise<{
     // Validate input
     const validatedQuery = SubMindQuerySchema.parse(query);
     
-    const result = await bffWithErrorHandling<SubMindResponse>(
-      '/ai/submind/query',
-      SubMindResponseSchema,
-      {
-        method: 'POST',
-        body: JSON.stringify(validatedQuery),
-      }
-    );
+    // Through the admin API so the BFF answers for the signed-in user
+    const response = await fetch('/api/ai/submind/query', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(validatedQuery),
+    });
+    const payload = await response.json().catch(() => null);
+    const parsed = SubMindResponseSchema.safeParse(payload);
+    const result = response.ok && parsed.success
+      ? { success: true as const, data: parsed.data }
+      : {
+          success: false as const,
+          error: typeof payload?.error === 'string'
+            ? payload.error
+            : response.ok ? 'Invalid response format from SubMind' : `Request failed with status ${response.status}`,
+          details: payload,
+        };
 
     if (result.success) {
       return { success: true, data: result.data };
@@ -70,7 +81,9 @@ export async function querySubMind(query: SubMindQuery): Promise<{
       let code: string | undefined;
       let retryAfter: number | undefined;
 
-      if (result.error.includes('rate_limited')) {
+      if (response.status === 401) {
+        code = 'UNAUTHENTICATED';
+      } else if (result.error.includes('rate_limited')) {
         code = 'RATE_LIMITED';
         // Try to extract retry-after from error details
         if (result.details?.retryAfter) {
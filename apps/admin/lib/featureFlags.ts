@@ -8,6 +8,19 @@ export const FEATURE_FLAGS = {
   EXPANSION_PREDICTOR: 'NEXT_PUBLIC_FEATURE_EXPANSION_PREDICTOR',
 } as const;
 
+// Keys of the same flags in the BFF flag store
+export const FLAG_KEYS = {
+  SUBMIND: 'SUBMIND',
+  EXPANSION_PREDICTOR: 'EXPANSION_PREDICTOR',
+} as const;
+
+export interface FlagEvaluationContext {
+  userId?: string;
+  sessionId?: string;
+  region?: string;
+  [key: string]: unknown;
+}
+
 // Feature flag checker utility
 export class FeatureFlags {
   /**
@@ -31,6 +44,51 @@ export class FeatureFlags {
     return process.env[flagKey] === 'true';
   }
 
+  /**
+   * Evaluate flags through the BFF so rollouts and conditions apply. Falls back
+   * to the NEXT_PUBLIC_FEATURE_<KEY> environment value if the BFF is unreachable.
+   */
+  static async evaluate(
+    flagKeys: string[],
+    context: FlagEvaluationContext = {}
+  ): Promise<Record<string, boolean>> {
+    const fallback = () => Object.fromEntries(
+      flagKeys.map(key => [key, FeatureFlags.isEnabled(`NEXT_PUBLIC_FEATURE_${key.toUpperCase()}`)])
+    );
+
+    try {
+      const response = await fetch('/api/flags/evaluate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ flags: flagKeys, context }),
+      });
+      if (!response.ok) {
+        return fallback();
+      }
+
+      const result = await response.json();
+      const evaluations: Record<string, { enabled: boolean; reason: string }> = result?.data ?? {};
+      const defaults = fallback();
+
+      // Flags that have not been created in the BFF yet keep their environment value
+      return Object.fromEntries(flagKeys.map(key => {
+        const evaluation = evaluations[key];
+        return [key, evaluation && evaluation.reason !== 'Flag not found' ? evaluation.enabled : defaults[key]];
+      }));
+    } catch (error) {
+      console.warn('Feature flag evaluation failed, using environment defaults:', error);
+      return fallback();
+    }
+  }
+
+  /**
+   * Evaluate a single flag through the BFF
+   */
+  static async isEnabledFor(flagKey: string, context: FlagEvaluationContext = {}): Promise<boolean> {
+    const result = await FeatureFlags.evaluate([flagKey], context);
+    return result[flagKey];
+  }
+
   /**
    * Get all feature flag states for debugging
    */
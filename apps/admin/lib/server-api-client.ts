@@ -1,5 +1,8 @@
 // apps/admin/lib/server-api-client.ts
 import 'server-only';
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import { ApiError } from './errors/base.error';
 
 const BFF_BASE_URL =
   process.env.NEXT_PUBLIC_BFF_URL ??
@@ -8,6 +11,9 @@ const BFF_BASE_URL =
 
 const INTERNAL_ADMIN_SECRET = process.env.INTERNAL_ADMIN_SECRET;
 
+// The BFF resolves this header to the user's role and store scope (see AuthGuard)
+export const ACTING_USER_HEADER = 'x-acting-user';
+
 if (!BFF_BASE_URL) {
   console.warn('[server-api-client] BFF_BASE_URL / NEXT_PUBLIC_BFF_URL is not set');
 }
@@ -16,6 +22,42 @@ if (!INTERNAL_ADMIN_SECRET) {
   console.warn('[server-api-client] INTERNAL_ADMIN_SECRET is not set – BFF auth will fail');
 }
 
+/**
+ * Email of the signed-in user, or null when nobody is signed in or there is no
+ * request in scope (scripts, background work) - the BFF then treats the call as
+ * coming from the admin service itself.
+ */
+export async function getActingUserEmail(): Promise<string | null> {
+  try {
+    const cookieStore = cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set() {},
+          remove() {},
+        },
+      },
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.email ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** A non-2xx reply from the BFF, with its status and body so API routes can pass them on */
+export class BffResponseError extends ApiError {
+  constructor(message: string, statusCode: number, public readonly body: unknown) {
+    super(message, 'BFF_ERROR', statusCode);
+  }
+}
+
 async function fetchFromBff(path: string, options: RequestInit = {}): Promise<any> {
   const url = `${BFF_BASE_URL}${path}`;
   const headers = new Headers(options.headers || {});
@@ -30,6 +72,14 @@ async function fetchFromBff(path: string, options: RequestInit = {}): Promise<an
     headers.set('Authorization', `Bearer ${INTERNAL_ADMIN_SECRET}`);
   }
 
+  // Act as the signed-in user so the BFF applies their permissions and store scope
+  if (!headers.has(ACTING_USER_HEADER)) {
+    const actingUser = await getActingUserEmail();
+    if (actingUser) {
+      headers.set(ACTING_USER_HEADER, actingUser);
+    }
+  }
+
   const response = await fetch(url, {
     ...options,
     headers,
@@ -52,8 +102,10 @@ async function fetchFromBff(path: string, options: RequestInit = {}): Promise<an
       statusText: response.statusText,
       data,
     });
-    throw new Error(
+    throw new BffResponseError(
       `BFF request failed: ${response.status} ${response.statusText} – ${JSON.stringify(data)}`,
+      response.status,
+      data,
     );
   }
 
@@ -53,9 +53,9 @@ jest.mock('../snapping.service', () => ({
   SnappingService: jest.fn().mockImplementation(() => ({}))
 }));
 
-jest.mock('../germany-land-mask.service', () => ({
-  GermanyLandMaskService: jest.fn().mockImplementation(() => ({
-    getGermanyBounds: () => ({
+jest.mock('../country-land-mask.service', () => ({
+  CountryLandMaskService: jest.fn().mockImplementation(() => ({
+    getCountryBounds: () => ({
       north: 55.0,
       south: 47.0,
       east: 16.0,
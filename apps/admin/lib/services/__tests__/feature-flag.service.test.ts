@@ -75,8 +75,8 @@ describe('FeatureFlagService', () => {
     });
   });
 
-  describe('getFeatureFlagById', () => {
-    test('should fetch feature flag by ID', async () => {
+  describe('getFeatureFlag', () => {
+    test('should fetch feature flag by key', async () => {
       const mockFlag: FeatureFlag = {
         id: '1',
         key: 'TEST_FLAG',
@@ -88,9 +88,9 @@ describe('FeatureFlagService', () => {
 
       mockBff.mockResolvedValueOnce(mockFlag);
 
-      const result = await FeatureFlagService.getFeatureFlagById('1');
+      const result = await FeatureFlagService.getFeatureFlag('TEST_FLAG');
 
-      expect(mockBff).toHaveBeenCalledWith('/settings/flags/1', expect.any(Object));
+      expect(mockBff).toHaveBeenCalledWith('/settings/flags/TEST_FLAG', expect.any(Object));
       expect(result).toEqual(mockFlag);
     });
   });
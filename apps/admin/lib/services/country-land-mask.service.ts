@@ -0,0 +1,105 @@
+import { BoundaryIndex, BoundingBox, CountryInfo, getBoundaryIndex } from '@subway/geo-boundaries';
+
+export interface LandMaskResult {
+  isOnLand: boolean;
+  isInCountry: boolean;
+  distanceToCoastKm?: number;
+  countryCode?: string;
+}
+
+export class CountryLandMaskService {
+  private readonly country: CountryInfo;
+  private readonly COASTLINE_BUFFER_M = parseInt(
+    process.env.EXPANSION_COASTLINE_BUFFER_M || '300'
+  );
+
+  /**
+   * @param country ISO code or name of a country in the geo-boundaries bundle
+   */
+  constructor(country: string, private readonly boundaries: BoundaryIndex = getBoundaryIndex()) {
+    const info = boundaries.findCountry(country);
+    if (!info) {
+      throw new Error(`No boundary data for country: ${country}`);
+    }
+    this.country = info;
+  }
+
+  get countryCode(): string {
+    return this.country.iso2;
+  }
+
+  /**
+   * Check if a point is on land inside the country and away from the coastline
+   */
+  async validatePoint(lat: number, lng: number): Promise<LandMaskResult> {
+    const country = this.boundaries.countryAt(lat, lng);
+
+    if (country?.iso2 !== this.country.iso2) {
+      return {
+        isOnLand: country !== null || this.boundaries.isOnLand(lat, lng) === true,
+        isInCountry: false,
+        countryCode: country?.iso2
+      };
+    }
+
+    const distanceToCoastKm = this.boundaries.distanceToCoastKm(lat, lng) ?? undefined;
+    const isAwayFromCoast = distanceToCoastKm === undefined || distanceToCoastKm * 1000 >= this.COASTLINE_BUFFER_M;
+
+    return {
+      isOnLand: isAwayFromCoast,
+      isInCountry: true,
+      countryCode: this.country.iso2,
+      distanceToCoastKm
+    };
+  }
+
+  /**
+   * Filter H3 cells to only include those on land inside the country
+   */
+  async filterH3CellsToLand(cells: Array<{ id: string; center: [number, number] }>): Promise<Array<{ id: string; center: [number, number] }>> {
+    const landCells = [];
+    let waterCount = 0;
+    let coastCount = 0;
+
+    for (const cell of cells) {
+      const result = await this.validatePoint(cell.center[1], cell.center[0]);
+
+      if (result.isOnLand && result.isInCountry) {
+        landCells.push(cell);
+      } else if (result.isInCountry && !result.isOnLand) {
+        coastCount++;
+      } else {
+        waterCount++;
+      }
+    }
+
+    console.log(`🏝️  Land mask filtering: ${landCells.length} land cells, ${coastCount} too close to coast, ${waterCount} outside ${this.country.name}`);
+
+    return landCells;
+  }
+
+  /**
+   * Get the country's bounds for H3 grid generation, excluding overseas territories
+   */
+  async getCountryBounds(): Promise<BoundingBox> {
+    const bounds = this.boundaries.getBounds(this.country.iso2);
+    if (!bounds) {
+      throw new Error(`No boundary polygons for country: ${this.country.name}`);
+    }
+    return bounds;
+  }
+
+  /**
+   * Validate that a snapped point is still within the country
+   */
+  async validateSnappedPoint(originalLat: number, originalLng: number, snappedLat: number, snappedLng: number): Promise<boolean> {
+    const result = await this.validatePoint(snappedLat, snappedLng);
+
+    if (!result.isInCountry) {
+      console.log(`⚠️  Snapped point moved outside ${this.country.name}: ${originalLat.toFixed(6)}, ${originalLng.toFixed(6)} → ${snappedLat.toFixed(6)}, ${snappedLng.toFixed(6)}`);
+      return false;
+    }
+
+    return true;
+  }
+}
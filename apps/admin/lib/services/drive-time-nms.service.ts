@@ -1,21 +1,42 @@
 import * as turf from '@turf/turf';
 import { PrismaClient } from '@prisma/client';
+import { Router, RoutingMethod, getRouter } from '@subway/routing';
+
+// Nearest neighbours further than this are left out of the drive-time stats
+const NEAREST_NEIGHBOUR_MAX_MINUTES = 60;
+
+export interface NMSCandidate {
+  id: string;
+  lat: number;
+  lng: number;
+  score: number;
+  [key: string]: unknown;
+}
+
+/** A candidate within drive time of a cluster's center, the center included */
+export interface NMSClusterMember extends NMSCandidate {
+  driveTimeFromCenter: number;
+  driveTimeMethod: RoutingMethod;
+  distanceFromCenter: number;
+}
+
+export interface NMSCluster {
+  center: NMSCandidate;
+  members: NMSClusterMember[];
+  avgDriveTime: number;
+}
 
 export interface DriveTimeNMSResult {
-  selected: any[];
-  suppressed: any[];
-  clusters: Array<{
-    center: any;
-    members: any[];
-    avgDriveTime: number;
-  }>;
+  selected: NMSCandidate[];
+  suppressed: NMSClusterMember[];
+  clusters: NMSCluster[];
 }
 
 export class DriveTimeNMSService {
   private readonly DRIVE_TIME_MINUTES = parseInt(process.env.EXPANSION_DRIVE_TIME_NMS_MINUTES || '10');
-  private readonly DRIVE_SPEED_KMH = parseInt(process.env.EXPANSION_DRIVE_SPEED_KMH || '50'); // Urban driving speed
+  private readonly DRIVE_SPEED_KMH = parseInt(process.env.EXPANSION_DRIVE_SPEED_KMH || '50'); // Straight-line speed where no road graph is loaded
   
-  // Convert drive time to approximate distance
+  // Convert drive time to approximate distance, for logging
   private readonly MAX_DISTANCE_M = (this.DRIVE_TIME_MINUTES / 60) * this.DRIVE_SPEED_KMH * 1000;
 
   /**
@@ -42,32 +63,43 @@ export class DriveTimeNMSService {
     return { lng, lat };
   }
 
-  constructor(private readonly prisma: PrismaClient) {
-    console.log(`🚗 Drive-time NMS initialized: ${this.DRIVE_TIME_MINUTES}min (≈${Math.round(this.MAX_DISTANCE_M / 1000)}km at ${this.DRIVE_SPEED_KMH}km/h)`);
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly router: Router = getRouter()
+  ) {
+    const graphs = router.graphVersions;
+    console.log(`🚗 Drive-time NMS initialized: ${this.DRIVE_TIME_MINUTES}min by road over ${graphs.length} graph(s), else ≈${Math.round(this.MAX_DISTANCE_M / 1000)}km at ${this.DRIVE_SPEED_KMH}km/h`);
+  }
+
+  /**
+   * Drive times from origin to each destination along the road network,
+   * falling back to straight lines at DRIVE_SPEED_KMH outside the loaded graphs
+   */
+  private driveTimes(
+    origin: { lng: number; lat: number },
+    destinations: Array<{ lng: number; lat: number }>,
+    maxMinutes: number
+  ) {
+    return this.router.travelTimes(origin, destinations, 'drive', {
+      maxMinutes,
+      fallbackSpeedKmh: this.DRIVE_SPEED_KMH
+    });
   }
 
   /**
    * Apply 10-minute drive-time Non-Maximum Suppression
    * Groups candidates within drive-time and keeps highest scoring
    */
-  async applyDriveTimeNMS(
-    candidates: Array<{
-      id: string;
-      lat: number;
-      lng: number;
-      score: number;
-      [key: string]: any;
-    }>
-  ): Promise<DriveTimeNMSResult> {
+  async applyDriveTimeNMS(candidates: NMSCandidate[]): Promise<DriveTimeNMSResult> {
     
     console.log(`🚗 Applying drive-time NMS to ${candidates.length} candidates...`);
     
     // Sort by score descending
     const sorted = [...candidates].sort((a, b) => b.score - a.score);
     
-    const selected: any[] = [];
-    const suppressed: any[] = [];
-    const clusters: Array<{ center: any; members: any[]; avgDriveTime: number }> = [];
+    const selected: NMSCandidate[] = [];
+    const suppressed: NMSClusterMember[] = [];
+    const clusters: NMSCluster[] = [];
     const processed = new Set<string>();
 
     for (const candidate of sorted) {
@@ -107,20 +139,19 @@ export class DriveTimeNMSService {
    * Find all candidates within drive time of a center candidate
    */
   private findDriveTimeCluster(
-    center: any,
-    allCandidates: any[],
+    center: NMSCandidate,
+    allCandidates: NMSCandidate[],
     processed: Set<string>
-  ): { center: any; members: any[]; avgDriveTime: number } {
+  ): NMSCluster {
     
     // Extract and validate center coordinates
     const centerCoords = this.extractCoordinates(center);
     if (!centerCoords) {
-      return { center, members: [center], avgDriveTime: 0 };
+      return { center, members: [], avgDriveTime: 0 };
     }
     
     const centerPoint = turf.point([centerCoords.lng, centerCoords.lat]);
-    const members = [];
-    let totalDriveTime = 0;
+    const nearby: Array<{ candidate: NMSCandidate; coords: { lng: number; lat: number } }> = [];
 
     for (const candidate of allCandidates) {
       if (processed.has(candidate.id)) continue;
@@ -131,22 +162,27 @@ export class DriveTimeNMSService {
         continue;
       }
 
-      const candidatePoint = turf.point([candidateCoords.lng, candidateCoords.lat]);
-      const distance = turf.distance(centerPoint, candidatePoint, { units: 'meters' });
-      
-      // Approximate drive time based on distance and urban speed
-      const driveTimeMinutes = (distance / 1000) / this.DRIVE_SPEED_KMH * 60;
-      
-      if (driveTimeMinutes <= this.DRIVE_TIME_MINUTES) {
-        members.push({
-          ...candidate,
-          driveTimeFromCenter: driveTimeMinutes,
-          distanceFromCenter: distance
-        });
-        totalDriveTime += driveTimeMinutes;
-      }
+      nearby.push({ candidate, coords: candidateCoords });
     }
 
+    // Rivers, motorways and rail lines keep candidates on either side apart
+    const { minutes, method } = this.driveTimes(centerCoords, nearby.map(n => n.coords), this.DRIVE_TIME_MINUTES);
+    const members: NMSClusterMember[] = [];
+    let totalDriveTime = 0;
+
+    nearby.forEach(({ candidate, coords }, i) => {
+      const driveTimeMinutes = candidate.id === center.id ? 0 : minutes[i];
+      if (driveTimeMinutes === null) return;
+
+      members.push({
+        ...candidate,
+        driveTimeFromCenter: driveTimeMinutes,
+        driveTimeMethod: method,
+        distanceFromCenter: turf.distance(centerPoint, turf.point([coords.lng, coords.lat]), { units: 'meters' })
+      });
+      totalDriveTime += driveTimeMinutes;
+    });
+
     const avgDriveTime = members.length > 0 ? totalDriveTime / members.length : 0;
 
     return {
@@ -549,24 +585,21 @@ export class DriveTimeNMSService {
         continue;
       }
       
-      const candidatePoint = turf.point([candidateCoords.lng, candidateCoords.lat]);
-      
-      let nearestDriveTime = Infinity;
-      
+      const others: Array<{ lng: number; lat: number }> = [];
       for (let j = 0; j < candidates.length; j++) {
         if (i === j) continue;
         
-        const other = candidates[j];
-        
         // Extract and validate other coordinates
-        const otherCoords = this.extractCoordinates(other);
-        if (!otherCoords) {
-          continue;
+        const otherCoords = this.extractCoordinates(candidates[j]);
+        if (otherCoords) {
+          others.push(otherCoords);
         }
-        
-        const otherPoint = turf.point([otherCoords.lng, otherCoords.lat]);
-        const distance = turf.distance(candidatePoint, otherPoint, { units: 'meters' });
-        const driveTime = (distance / 1000) / this.DRIVE_SPEED_KMH * 60;
+      }
+      
+      let nearestDriveTime = Infinity;
+      
+      for (const driveTime of this.driveTimes(candidateCoords, others, NEAREST_NEIGHBOUR_MAX_MINUTES).minutes) {
+        if (driveTime === null) continue;
         
         if (driveTime < nearestDriveTime) {
           nearestDriveTime = driveTime;
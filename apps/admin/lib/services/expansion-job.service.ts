@@ -7,7 +7,11 @@ import { ExpansionLogger } from '../logging/expansion-logger';
 export interface ExpansionJob {
   id: string;
   idempotencyKey: string;
-  status: 'queued' | 'running' | 'completed' | 'failed';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  progressMessage?: string;
+  attempts: number;
+  maxAttempts: number;
   userId: string;
   params: GenerationParams;
   result?: ExpansionJobResult;
@@ -78,6 +82,10 @@ export class ExpansionJobService {
       id: job.id,
       idempotencyKey: job.idempotencyKey,
       status: job.status as any,
+      progress: job.progress,
+      progressMessage: job.progressMessage || undefined,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
       userId: job.userId,
       params: JSON.parse(job.params),
       result: job.result ? (typeof job.result === 'string' ? JSON.parse(job.result) : job.result) : undefined,
@@ -304,6 +312,10 @@ export class ExpansionJobService {
       id: job.id,
       idempotencyKey: job.idempotencyKey,
       status: job.status as any,
+      progress: job.progress,
+      progressMessage: job.progressMessage || undefined,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
       userId: job.userId,
       params: JSON.parse(job.params),
       result: job.result ? (typeof job.result === 'string' ? JSON.parse(job.result) : job.result) : undefined,
@@ -1,6 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { MapboxTilequeryService } from './mapbox-tilequery.service';
-import { GermanyLandMaskService } from './germany-land-mask.service';
+import { CountryLandMaskService } from './country-land-mask.service';
 import { EnhancedSnappingService } from './enhanced-snapping.service';
 
 export interface SmokeTestResult {
@@ -16,7 +16,7 @@ export interface SmokeTestResult {
 
 export class ExpansionSmokeTestService {
   private mapboxService: MapboxTilequeryService;
-  private landMaskService: GermanyLandMaskService;
+  private landMaskService: CountryLandMaskService;
   private snappingService: EnhancedSnappingService;
 
   // Known urban coordinates in Germany
@@ -28,7 +28,7 @@ export class ExpansionSmokeTestService {
 
   constructor(private readonly prisma: PrismaClient) {
     this.mapboxService = new MapboxTilequeryService(prisma);
-    this.landMaskService = new GermanyLandMaskService(prisma);
+    this.landMaskService = new CountryLandMaskService('DE');
     this.snappingService = new EnhancedSnappingService(prisma);
   }
 
@@ -0,0 +1,64 @@
+import { bff, bffWithErrorHandling } from '../api';
+import {
+  CreateExperimentRequest,
+  Experiment,
+  ExperimentReport,
+  ExperimentReportSchema,
+  ExperimentSchema,
+  ExperimentStatus,
+} from '../types/experiment.types';
+import { z } from 'zod';
+
+type MutationResult = { success: true; experiment: Experiment } | { success: false; error: string };
+
+export class ExperimentService {
+  static async getExperiments(status?: ExperimentStatus): Promise<Experiment[]> {
+    const query = status ? `?status=${status}` : '';
+    return bff(`/experiments${query}`, z.array(ExperimentSchema));
+  }
+
+  static async getExperiment(id: string): Promise<Experiment> {
+    return bff(`/experiments/${encodeURIComponent(id)}`, ExperimentSchema);
+  }
+
+  static async createExperiment(data: CreateExperimentRequest): Promise<MutationResult> {
+    return this.mutate('/experiments', { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  static async updateExperiment(id: string, data: CreateExperimentRequest): Promise<MutationResult> {
+    return this.mutate(`/experiments/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(data) });
+  }
+
+  static async startExperiment(id: string): Promise<MutationResult> {
+    return this.mutate(`/experiments/${encodeURIComponent(id)}/start`, { method: 'POST' });
+  }
+
+  static async stopExperiment(id: string, outcome: 'COMPLETED' | 'CANCELLED' = 'COMPLETED'): Promise<MutationResult> {
+    return this.mutate(`/experiments/${encodeURIComponent(id)}/stop`, {
+      method: 'POST',
+      body: JSON.stringify({ outcome }),
+    });
+  }
+
+  static async deleteExperiment(id: string): Promise<{ success: true } | { success: false; error: string }> {
+    const result = await bffWithErrorHandling(`/experiments/${encodeURIComponent(id)}`, z.unknown(), {
+      method: 'DELETE',
+    });
+
+    return result.success ? { success: true } : { success: false, error: result.error };
+  }
+
+  static async getResults(id: string): Promise<ExperimentReport> {
+    return bff(`/experiments/${encodeURIComponent(id)}/results`, ExperimentReportSchema);
+  }
+
+  private static async mutate(path: string, init: RequestInit): Promise<MutationResult> {
+    const result = await bffWithErrorHandling<Experiment>(path, ExperimentSchema, init);
+
+    if (result.success) {
+      return { success: true, experiment: result.data };
+    } else {
+      return { success: false, error: result.error };
+    }
+  }
+}
@@ -6,6 +6,7 @@ import {
   FeatureFlagQuery, 
   FeatureFlagsResponse,
   FeatureFlagEvent,
+  FeatureFlagHistoryEntry,
   FeatureFlagSchema
 } from '../types/feature-flag.types';
 import { z } from 'zod';
@@ -28,6 +29,14 @@ const FeatureFlagEventSchema = z.object({
   newValue: z.boolean().optional(),
 });
 
+const FeatureFlagHistoryEntrySchema = z.object({
+  id: z.string(),
+  actor: z.string(),
+  action: z.string(),
+  diff: z.record(z.unknown()).nullable(),
+  timestamp: z.string().datetime(),
+});
+
 export class FeatureFlagService {
   static async getFeatureFlags(query: FeatureFlagQuery): Promise<FeatureFlagsResponse> {
     const searchParams = new URLSearchParams();
@@ -40,8 +49,8 @@ export class FeatureFlagService {
     return bff(`/settings/flags?${searchParams.toString()}`, FeatureFlagsResponseSchema);
   }
 
-  static async getFeatureFlagById(id: string): Promise<FeatureFlag> {
-    return bff(`/settings/flags/${id}`, FeatureFlagSchema);
+  static async getFeatureFlag(key: string): Promise<FeatureFlag> {
+    return bff(`/settings/flags/${encodeURIComponent(key)}`, FeatureFlagSchema);
   }
 
   static async createFeatureFlag(data: CreateFeatureFlagRequest): Promise<{ success: true; flag: FeatureFlag } | { success: false; error: string }> {
@@ -57,8 +66,8 @@ export class FeatureFlagService {
     }
   }
 
-  static async updateFeatureFlag(id: string, data: UpdateFeatureFlagRequest): Promise<{ success: true; flag: FeatureFlag } | { success: false; error: string }> {
-    const result = await bffWithErrorHandling<FeatureFlag>(`/settings/flags/${id}`, FeatureFlagSchema, {
+  static async updateFeatureFlag(key: string, data: UpdateFeatureFlagRequest): Promise<{ success: true; flag: FeatureFlag } | { success: false; error: string }> {
+    const result = await bffWithErrorHandling<FeatureFlag>(`/settings/flags/${encodeURIComponent(key)}`, FeatureFlagSchema, {
       method: 'PATCH',
       body: JSON.stringify(data),
     });
@@ -70,16 +79,20 @@ export class FeatureFlagService {
     }
   }
 
-  static async toggleFeatureFlag(id: string, enabled: boolean): Promise<{ success: true; flag: FeatureFlag } | { success: false; error: string }> {
-    return this.updateFeatureFlag(id, { enabled });
+  static async toggleFeatureFlag(key: string, enabled: boolean): Promise<{ success: true; flag: FeatureFlag } | { success: false; error: string }> {
+    return this.updateFeatureFlag(key, { enabled });
   }
 
-  static async deleteFeatureFlag(id: string): Promise<{ success: true } | { success: false; error: string }> {
-    return bffWithErrorHandling(`/settings/flags/${id}`, z.object({}), {
+  static async deleteFeatureFlag(key: string): Promise<{ success: true } | { success: false; error: string }> {
+    return bffWithErrorHandling(`/settings/flags/${encodeURIComponent(key)}`, z.object({}), {
       method: 'DELETE',
     });
   }
 
+  static async getFlagHistory(key: string, limit: number = 50): Promise<FeatureFlagHistoryEntry[]> {
+    return bff(`/settings/flags/${encodeURIComponent(key)}/history?limit=${limit}`, z.array(FeatureFlagHistoryEntrySchema));
+  }
+
   static async getRecentEvents(limit: number = 10): Promise<FeatureFlagEvent[]> {
     return bff(`/settings/flags/events?limit=${limit}`, z.array(FeatureFlagEventSchema));
   }
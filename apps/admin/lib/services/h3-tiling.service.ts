@@ -1,5 +1,6 @@
 import { latLngToCell, cellToBoundary, cellToLatLng, gridDisk } from 'h3-js';
 import * as turf from '@turf/turf';
+import { BoundaryIndex, getBoundaryIndex } from '@subway/geo-boundaries';
 
 export interface BoundingBox {
   north: number;
@@ -12,6 +13,7 @@ export interface H3TileConfig {
   resolution: number; // 6, 7, or 8
   samplesPerTile: number; // Fixed count per tile
   bounds: BoundingBox;
+  country?: string; // ISO code or name - drops tiles whose center is outside the country or at sea
   settlementAware?: boolean; // Enable settlement-aware gap detection
   adaptiveResolution?: boolean; // Enable adaptive resolution based on settlement density
   settlements?: Array<{ lat: number; lng: number; name: string; type: string }>; // Settlement data for gap detection and adaptive resolution
@@ -44,7 +46,7 @@ export class H3TilingService {
   private readonly SETTLEMENT_AWARE = process.env.EXPANSION_H3_SETTLEMENT_AWARE !== 'false';
   private readonly GAP_FOCUS_RADIUS_M = parseInt(process.env.EXPANSION_H3_GAP_FOCUS_RADIUS_M || '10000');
 
-  constructor() {
+  constructor(private readonly boundaries: BoundaryIndex = getBoundaryIndex()) {
     console.log('🔷 H3TilingService initialized:', {
       resolution: this.DEFAULT_RESOLUTION,
       samplesPerTile: this.DEFAULT_SAMPLES_PER_TILE,
@@ -341,13 +343,19 @@ export class H3TilingService {
     const centerLng = (bounds.east + bounds.west) / 2;
     const centerCell = latLngToCell(centerLat, centerLng, resolution);
     
+    // Resolve the country once rather than per cell
+    const country = adaptiveConfig.country ? this.boundaries.findCountry(adaptiveConfig.country) : undefined;
+    if (adaptiveConfig.country && !country) {
+      console.warn(`🔷 No boundary data for ${adaptiveConfig.country} - tiles are not clipped to the country`);
+    }
+    
     // Use gridDisk to get cells in expanding rings until we cover the bbox
     let ring = 0;
     const maxRings = 50; // Safety limit
     
     while (ring < maxRings) {
       const cells = gridDisk(centerCell, ring);
-      let addedInRing = 0;
+      let inBoundsInRing = 0;
       
       for (const h3Index of cells) {
         if (processedCells.has(h3Index)) {
@@ -361,6 +369,12 @@ export class H3TilingService {
         // Check if cell center is within bounds
         if (lat >= bounds.south && lat <= bounds.north &&
             lng >= bounds.west && lng <= bounds.east) {
+          inBoundsInRing++;
+          
+          // Drop cells abroad or at sea
+          if (country && !this.boundaries.isInCountry(lat, lng, country.iso2)) {
+            continue;
+          }
           
           // Get cell boundary
           const boundary = cellToBoundary(h3Index, true); // true for GeoJSON format
@@ -371,12 +385,11 @@ export class H3TilingService {
             center: [lng, lat],
             bounds: polygon
           });
-          addedInRing++;
         }
       }
       
-      // If we didn't add any cells in this ring and we have some tiles, we're done
-      if (addedInRing === 0 && tiles.length > 0) {
+      // If no cells in this ring were inside the bbox and we have some tiles, we're done
+      if (inBoundsInRing === 0 && tiles.length > 0) {
         break;
       }
       
@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import * as crypto from 'crypto';
 import * as turf from '@turf/turf';
+import { BoundaryIndex, getBoundaryIndex } from '@subway/geo-boundaries';
 
 export interface LandValidationResult {
   isOnLand: boolean;
@@ -33,18 +34,29 @@ export class LandValidationService {
   private readonly CACHE_TTL_DAYS = 90;
   private readonly TILEQUERY_RADIUS_M = 500; // Search radius for coastline features
   
+  private offlineHits = 0;
   private cacheHits = 0;
   private cacheMisses = 0;
 
-  constructor(private readonly prisma: PrismaClient) {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly boundaries: BoundaryIndex = getBoundaryIndex()
+  ) {
     console.log('🌍 LandValidationService initialized with coastline buffer:', this.COASTLINE_BUFFER_M, 'm');
   }
 
   /**
    * Validate that coordinates are on land and away from coast
-   * Uses Mapbox land layer or Natural Earth dataset
+   * Uses the offline Natural Earth boundaries, falling back to the Mapbox
+   * land layer only for points too far from any bundled boundary to classify
    */
   async validateLand(lat: number, lng: number): Promise<LandValidationResult> {
+    const offline = this.validateOffline(lat, lng);
+    if (offline) {
+      this.offlineHits++;
+      return offline;
+    }
+
     const hash = this.hashCoordinate(lat, lng);
     const cached = await this.getFromCache(hash);
     
@@ -105,6 +117,38 @@ export class LandValidationService {
     }
   }
 
+  /**
+   * Classify a point from the bundled boundaries
+   * Returns null when the point is too far from any boundary to tell
+   */
+  private validateOffline(lat: number, lng: number): LandValidationResult | null {
+    const isOnLand = this.boundaries.isOnLand(lat, lng);
+    if (isOnLand === null) {
+      return null;
+    }
+
+    if (!isOnLand) {
+      return {
+        isOnLand: false,
+        distanceToCoastM: null,
+        landPolygonId: null,
+        rejectionReason: 'in_water'
+      };
+    }
+
+    const distanceKm = this.boundaries.distanceToCoastKm(lat, lng);
+    const distanceToCoastM = distanceKm === null ? null : Math.round(distanceKm * 1000);
+
+    return {
+      isOnLand: true,
+      distanceToCoastM,
+      landPolygonId: this.boundaries.countryAt(lat, lng)?.iso2 ?? null,
+      rejectionReason: distanceToCoastM !== null && distanceToCoastM < this.COASTLINE_BUFFER_M
+        ? 'too_close_to_coast'
+        : undefined
+    };
+  }
+
   /**
    * Query Mapbox land layer for polygon membership
    * Returns true if land, false if water/ocean
@@ -298,6 +342,7 @@ export class LandValidationService {
     const hitRate = total > 0 ? (this.cacheHits / total) * 100 : 0;
     
     return {
+      offlineHits: this.offlineHits,
       cacheHits: this.cacheHits,
       cacheMisses: this.cacheMisses,
       hitRate: Math.round(hitRate * 100) / 100
@@ -308,6 +353,7 @@ export class LandValidationService {
    * Reset cache statistics
    */
   resetCacheStats() {
+    this.offlineHits = 0;
     this.cacheHits = 0;
     this.cacheMisses = 0;
   }
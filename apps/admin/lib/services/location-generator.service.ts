@@ -0,0 +1,50 @@
+import { bff, bffWithErrorHandling } from '../api';
+import {
+  CounterfactualReport,
+  CounterfactualReportSchema,
+  GeneratorBacktestReport,
+  GeneratorBacktestReportSchema,
+  GeneratorBacktestRequest,
+  ParetoFrontierReport,
+  ParetoFrontierReportSchema,
+  StabilityReport,
+  StabilityReportSchema,
+} from '../types/location-generator.types';
+
+export class LocationGeneratorService {
+  static async runBacktest(
+    request: GeneratorBacktestRequest,
+  ): Promise<{ success: true; data: GeneratorBacktestReport } | { success: false; error: string }> {
+    const result = await bffWithErrorHandling('/expansion/generator/backtest', GeneratorBacktestReportSchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+
+    return result.success ? result : { success: false, error: result.error };
+  }
+
+  static async getParetoFrontier(jobId: string, minK?: number, maxK?: number): Promise<ParetoFrontierReport> {
+    const params = new URLSearchParams();
+    if (minK) params.set('minK', String(minK));
+    if (maxK) params.set('maxK', String(maxK));
+    const query = params.toString() ? `?${params}` : '';
+    return bff(`${this.jobPath(jobId)}/pareto${query}`, ParetoFrontierReportSchema);
+  }
+
+  static async getStability(jobId: string, targetK?: number, iterations?: number): Promise<StabilityReport> {
+    const params = new URLSearchParams();
+    if (targetK) params.set('targetK', String(targetK));
+    if (iterations) params.set('iterations', String(iterations));
+    const query = params.toString() ? `?${params}` : '';
+    return bff(`${this.jobPath(jobId)}/stability${query}`, StabilityReportSchema);
+  }
+
+  static async getCounterfactuals(jobId: string, siteId?: string): Promise<CounterfactualReport> {
+    const query = siteId ? `?siteId=${encodeURIComponent(siteId)}` : '';
+    return bff(`${this.jobPath(jobId)}/counterfactuals${query}`, CounterfactualReportSchema);
+  }
+
+  private static jobPath(jobId: string): string {
+    return `/expansion/generator/jobs/${encodeURIComponent(jobId)}`;
+  }
+}
@@ -0,0 +1,66 @@
+import { bff, bffWithErrorHandling } from '../api';
+import {
+  EffectiveMenuItem,
+  EffectiveMenuItemSchema,
+  MasterMenuItem,
+  MasterMenuItemInput,
+  MasterMenuItemSchema,
+  MenuOverride,
+  MenuOverrideInput,
+  MenuOverrideSchema,
+  MenuPublishScope,
+  PublishPreview,
+  PublishPreviewSchema,
+} from '../types/master-menu.types';
+import { z } from 'zod';
+
+type MutationResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export class MasterMenuService {
+  static async getItems(): Promise<MasterMenuItem[]> {
+    return bff('/menu/master/items', z.array(MasterMenuItemSchema));
+  }
+
+  static async getEffectiveMenu(storeId: string): Promise<EffectiveMenuItem[]> {
+    return bff(`/menu/master/stores/${encodeURIComponent(storeId)}`, z.array(EffectiveMenuItemSchema));
+  }
+
+  static async createItem(input: MasterMenuItemInput): Promise<MutationResult<MasterMenuItem>> {
+    return this.mutate('/menu/master/items', MasterMenuItemSchema, { method: 'POST', body: JSON.stringify(input) });
+  }
+
+  static async updateItem(id: string, input: MasterMenuItemInput): Promise<MutationResult<MasterMenuItem>> {
+    return this.mutate(`/menu/master/items/${encodeURIComponent(id)}`, MasterMenuItemSchema, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async deleteItem(id: string): Promise<MutationResult<{ deleted: boolean }>> {
+    return this.mutate(`/menu/master/items/${encodeURIComponent(id)}`, z.object({ deleted: z.boolean() }), { method: 'DELETE' });
+  }
+
+  static async setOverride(masterItemId: string, input: MenuOverrideInput): Promise<MutationResult<MenuOverride>> {
+    return this.mutate(`/menu/master/items/${encodeURIComponent(masterItemId)}/overrides`, MenuOverrideSchema, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async deleteOverride(id: string): Promise<MutationResult<{ deleted: boolean }>> {
+    return this.mutate(`/menu/master/overrides/${encodeURIComponent(id)}`, z.object({ deleted: z.boolean() }), { method: 'DELETE' });
+  }
+
+  static async previewPublish(scope: MenuPublishScope): Promise<MutationResult<PublishPreview>> {
+    return this.mutate('/menu/master/publish/preview', PublishPreviewSchema, { method: 'POST', body: JSON.stringify(scope) });
+  }
+
+  static async publish(scope: MenuPublishScope): Promise<MutationResult<PublishPreview>> {
+    return this.mutate('/menu/master/publish', PublishPreviewSchema, { method: 'POST', body: JSON.stringify(scope) });
+  }
+
+  private static async mutate<T>(path: string, schema: z.ZodSchema<T>, init: RequestInit): Promise<MutationResult<T>> {
+    const result = await bffWithErrorHandling<T>(path, schema, init);
+    return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+  }
+}
@@ -0,0 +1,54 @@
+import { bff, bffWithErrorHandling } from '../api';
+import {
+  AllergenMatrix,
+  AllergenMatrixSchema,
+  ConfiguredProfile,
+  ConfiguredProfileSchema,
+  ItemLabelling,
+  ItemLabellingInput,
+  ItemLabellingSchema,
+  LabelledModifier,
+  LabelledModifierSchema,
+  ModifierLabellingInput,
+} from '../types/menu-labelling.types';
+import { z } from 'zod';
+
+type MutationResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export class MenuLabellingService {
+  static async getMatrix(storeId: string): Promise<AllergenMatrix> {
+    return bff(`/menu/allergen-matrix/${encodeURIComponent(storeId)}`, AllergenMatrixSchema);
+  }
+
+  static async getItem(itemId: string): Promise<ItemLabelling> {
+    return bff(`/menu/items/${encodeURIComponent(itemId)}/labelling`, ItemLabellingSchema);
+  }
+
+  static async getProfile(itemId: string, modifierIds: string[]): Promise<MutationResult<ConfiguredProfile>> {
+    const searchParams = new URLSearchParams();
+    if (modifierIds.length > 0) searchParams.set('modifierIds', modifierIds.join(','));
+    return this.mutate(`/menu/items/${encodeURIComponent(itemId)}/labelling/profile?${searchParams.toString()}`, ConfiguredProfileSchema, {
+      method: 'GET',
+    });
+  }
+
+  static async updateItem(itemId: string, input: ItemLabellingInput): Promise<MutationResult<ItemLabelling>> {
+    return this.mutate(`/menu/items/${encodeURIComponent(itemId)}/labelling`, ItemLabellingSchema, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async updateModifier(groupId: string, modifierId: string, input: ModifierLabellingInput): Promise<MutationResult<LabelledModifier>> {
+    return this.mutate(
+      `/menu/modifier-groups/${encodeURIComponent(groupId)}/modifiers/${encodeURIComponent(modifierId)}/labelling`,
+      LabelledModifierSchema,
+      { method: 'PUT', body: JSON.stringify(input) },
+    );
+  }
+
+  private static async mutate<T>(path: string, schema: z.ZodSchema<T>, init: RequestInit): Promise<MutationResult<T>> {
+    const result = await bffWithErrorHandling<T>(path, schema, init);
+    return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+  }
+}
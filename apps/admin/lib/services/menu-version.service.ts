@@ -0,0 +1,115 @@
+import { bff, bffWithErrorHandling } from '../api';
+import { PublishPreview, PublishPreviewSchema } from '../types/master-menu.types';
+import {
+  MenuDiff,
+  MenuDiffSchema,
+  MenuRollout,
+  MenuRolloutSchema,
+  MenuVersion,
+  MenuVersionSchema,
+  MenuVersionSummary,
+  MenuVersionSummarySchema,
+  VersionCategoryPatch,
+  VersionItemPatch,
+  VersionModifierGroupPatch,
+} from '../types/menu-version.types';
+import { z } from 'zod';
+
+type MutationResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export class MenuVersionService {
+  static async getVersions(): Promise<MenuVersionSummary[]> {
+    return bff('/menu/versions', z.array(MenuVersionSummarySchema));
+  }
+
+  static async getVersion(id: string): Promise<MenuVersion> {
+    return bff(`/menu/versions/${encodeURIComponent(id)}`, MenuVersionSchema);
+  }
+
+  static async getDiff(fromId: string, toId: string): Promise<MenuDiff> {
+    const searchParams = new URLSearchParams({ from: fromId, to: toId });
+    return bff(`/menu/versions/diff?${searchParams.toString()}`, MenuDiffSchema);
+  }
+
+  static async getRollouts(market?: string): Promise<MenuRollout[]> {
+    const searchParams = new URLSearchParams();
+    if (market) searchParams.set('market', market);
+    return bff(`/menu/rollouts?${searchParams.toString()}`, z.array(MenuRolloutSchema));
+  }
+
+  static async createVersion(input: { name: string; notes?: string; fromVersionId?: string }): Promise<MutationResult<MenuVersion>> {
+    return this.mutate('/menu/versions', MenuVersionSchema, { method: 'POST', body: JSON.stringify(input) });
+  }
+
+  static async deleteVersion(id: string): Promise<MutationResult<{ deleted: boolean }>> {
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}`, z.object({ deleted: z.boolean() }), { method: 'DELETE' });
+  }
+
+  static async refresh(id: string): Promise<MutationResult<MenuVersion>> {
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}/refresh`, MenuVersionSchema, { method: 'POST' });
+  }
+
+  static async editItem(id: string, itemId: string, patch: VersionItemPatch): Promise<MutationResult<MenuVersion>> {
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}/items/${encodeURIComponent(itemId)}`, MenuVersionSchema, {
+      method: 'PATCH',
+      body: JSON.stringify(patch),
+    });
+  }
+
+  static async editCategory(id: string, categoryId: string, patch: VersionCategoryPatch): Promise<MutationResult<MenuVersion>> {
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}/categories/${encodeURIComponent(categoryId)}`, MenuVersionSchema, {
+      method: 'PATCH',
+      body: JSON.stringify(patch),
+    });
+  }
+
+  static async editModifierGroup(id: string, groupId: string, patch: VersionModifierGroupPatch): Promise<MutationResult<MenuVersion>> {
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}/modifier-groups/${encodeURIComponent(groupId)}`, MenuVersionSchema, {
+      method: 'PATCH',
+      body: JSON.stringify(patch),
+    });
+  }
+
+  static async submit(id: string): Promise<MutationResult<MenuVersion>> {
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}/submit`, MenuVersionSchema, { method: 'POST' });
+  }
+
+  static async approve(id: string, notes?: string): Promise<MutationResult<MenuVersion>> {
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}/approve`, MenuVersionSchema, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    });
+  }
+
+  static async reject(id: string, notes?: string): Promise<MutationResult<MenuVersion>> {
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}/reject`, MenuVersionSchema, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    });
+  }
+
+  static async preview(id: string, market: string): Promise<MutationResult<PublishPreview>> {
+    const searchParams = new URLSearchParams({ market });
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}/preview?${searchParams.toString()}`, PublishPreviewSchema, { method: 'GET' });
+  }
+
+  static async schedule(id: string, market: string, goLiveAt?: string): Promise<MutationResult<MenuRollout>> {
+    return this.mutate(`/menu/versions/${encodeURIComponent(id)}/rollouts`, MenuRolloutSchema, {
+      method: 'POST',
+      body: JSON.stringify({ market, goLiveAt }),
+    });
+  }
+
+  static async cancelRollout(id: string): Promise<MutationResult<MenuRollout>> {
+    return this.mutate(`/menu/rollouts/${encodeURIComponent(id)}/cancel`, MenuRolloutSchema, { method: 'POST' });
+  }
+
+  static async rollback(id: string): Promise<MutationResult<MenuRollout>> {
+    return this.mutate(`/menu/rollouts/${encodeURIComponent(id)}/rollback`, MenuRolloutSchema, { method: 'POST' });
+  }
+
+  private static async mutate<T>(path: string, schema: z.ZodSchema<T>, init: RequestInit): Promise<MutationResult<T>> {
+    const result = await bffWithErrorHandling<T>(path, schema, init);
+    return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+  }
+}
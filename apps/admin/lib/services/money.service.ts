@@ -0,0 +1,60 @@
+import { bff, bffWithErrorHandling } from '../api';
+import { FxRate, FxRateInput, FxRateSchema, TaxSetting, TaxSettingInput, TaxSettingSchema } from '../types/money.types';
+import { z } from 'zod';
+
+type MutationResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export class MoneyService {
+  static async getTaxSettings(): Promise<TaxSetting[]> {
+    return bff('/tax/settings', z.array(TaxSettingSchema));
+  }
+
+  static async saveTaxSetting(country: string, input: TaxSettingInput): Promise<MutationResult<TaxSetting>> {
+    return this.mutate(`/tax/settings/${encodeURIComponent(country)}`, TaxSettingSchema, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async deleteTaxSetting(country: string): Promise<MutationResult<unknown>> {
+    return this.mutate(`/tax/settings/${encodeURIComponent(country)}`, z.unknown(), { method: 'DELETE' });
+  }
+
+  static async setCategoryRate(country: string, categoryId: string, rate: number): Promise<MutationResult<TaxSetting>> {
+    return this.mutate(
+      `/tax/settings/${encodeURIComponent(country)}/categories/${encodeURIComponent(categoryId)}`,
+      TaxSettingSchema,
+      { method: 'PUT', body: JSON.stringify({ rate }) },
+    );
+  }
+
+  static async removeCategoryRate(country: string, categoryId: string): Promise<MutationResult<TaxSetting>> {
+    return this.mutate(
+      `/tax/settings/${encodeURIComponent(country)}/categories/${encodeURIComponent(categoryId)}`,
+      TaxSettingSchema,
+      { method: 'DELETE' },
+    );
+  }
+
+  /** Category names for the reduced-rate picker */
+  static async getCategories(): Promise<Array<{ id: string; name: string }>> {
+    return bff('/menu/categories', z.array(z.object({ id: z.string(), name: z.string() })));
+  }
+
+  static async getFxRates(): Promise<FxRate[]> {
+    return bff('/fx/rates', z.array(FxRateSchema));
+  }
+
+  static async createFxRate(input: FxRateInput): Promise<MutationResult<FxRate>> {
+    return this.mutate('/fx/rates', FxRateSchema, { method: 'POST', body: JSON.stringify(input) });
+  }
+
+  static async deleteFxRate(id: string): Promise<MutationResult<unknown>> {
+    return this.mutate(`/fx/rates/${encodeURIComponent(id)}`, z.unknown(), { method: 'DELETE' });
+  }
+
+  private static async mutate<T>(path: string, schema: z.ZodSchema<T>, init: RequestInit): Promise<MutationResult<T>> {
+    const result = await bffWithErrorHandling<T>(path, schema, init);
+    return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+  }
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { LlmClient } from '@subway/shared-ai';
 import * as crypto from 'crypto';
 import { IOpenAIContextAnalysisService } from './interfaces/intelligent-expansion.interfaces';
 import {
@@ -16,8 +17,8 @@ import { IndividualLocationAnalysisMonitor } from '../monitoring/individual-loca
  * Provides AI-driven location context analysis with unique insights for each location
  */
 export class OpenAIContextAnalysisService implements IOpenAIContextAnalysisService {
-  private readonly OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || 'gpt-5-mini';
+  private readonly llm = LlmClient.getInstance();
+  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || this.llm.defaultModel;
   private readonly REASONING_EFFORT: 'minimal' | 'low' | 'medium' | 'high' = 'medium'; // Context analysis needs medium reasoning
   private readonly TEXT_VERBOSITY: 'low' | 'medium' | 'high' = 'medium'; // Balanced output for analysis
   private readonly MAX_TOKENS = parseInt(process.env.EXPANSION_OPENAI_MAX_TOKENS || '500');
@@ -47,8 +48,8 @@ export class OpenAIContextAnalysisService implements IOpenAIContextAnalysisServi
   ): Promise<AIContextAnalysis> {
     console.log(`🤖 Analyzing location ${lat.toFixed(4)}, ${lng.toFixed(4)} with AI demographic analysis`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI demographic analysis');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI demographic analysis');
     }
 
     // Check cache first
@@ -121,8 +122,8 @@ export class OpenAIContextAnalysisService implements IOpenAIContextAnalysisServi
   ): Promise<ContextualInsights> {
     console.log(`🤖 Generating competitive insights for location ${uniqueLocationData.lat.toFixed(4)}, ${uniqueLocationData.lng.toFixed(4)}`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI competition analysis');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI competition analysis');
     }
 
     try {
@@ -249,54 +250,27 @@ Focus on location-specific insights using the exact settlement name, coordinates
     
     const startTime = Date.now();
     const result = await OpenAISafetyWrapper.makeCall(
-      async () => {
-        const response = await fetch('https://api.openai.com/v1/responses', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: this.MODEL,
-          input: `System: You are a market analyst specializing in restaurant site selection. Provide detailed, location-specific analysis in valid JSON format.\n\nUser: ${prompt}`,
-          max_output_tokens: this.MAX_TOKENS,
-          reasoning: { effort: this.REASONING_EFFORT },
-          text: { verbosity: this.TEXT_VERBOSITY }
-        })
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-        }
-
-        const data = await response.json();
-        
-        // GPT-5 Responses API has a different structure
-        if (!data.output || !Array.isArray(data.output)) {
-          throw new Error('No response from OpenAI');
-        }
-
-        return data;
-      },
+      () => this.llm.complete({
+        purpose: `context-analysis.${operation}`,
+        messages: [
+          { role: 'system', content: 'You are a market analyst specializing in restaurant site selection. Provide detailed, location-specific analysis in valid JSON format.' },
+          { role: 'user', content: prompt }
+        ],
+        model: this.MODEL,
+        maxOutputTokens: this.MAX_TOKENS,
+        reasoningEffort: this.REASONING_EFFORT,
+        verbosity: this.TEXT_VERBOSITY
+      }),
       `context-analysis-${operation}`,
       lat && lng ? `${lat}-${lng}` : undefined
     );
 
-    // For GPT-5, prefer reasoning output, but fall back to message if reasoning is empty
-    let contentOutput = result.output.find((item: any) => item.type === 'reasoning');
-    
-    // If reasoning is empty or missing, use message output
-    if (!contentOutput || !contentOutput.content || !contentOutput.content[0] || !contentOutput.content[0].text) {
-      contentOutput = result.output.find((item: any) => item.type === 'message');
-    }
-    
-    if (!contentOutput || !contentOutput.content || !contentOutput.content[0] || !contentOutput.content[0].text) {
-      throw new Error(`No usable content in OpenAI response. Available outputs: ${result.output.map((o: any) => `${o.type}:${o.content?.length || 0}`).join(', ')}`);
+    if (!result.text.trim()) {
+      throw new Error(`No usable content in ${result.provider} response`);
     }
 
-    const responseText = contentOutput.content[0].text.trim();
-    const tokensUsed = result.usage?.total_tokens || 0;
+    const responseText = result.text.trim();
+    const tokensUsed = result.usage.totalTokens;
     const responseTime = Date.now() - startTime;
     this.totalTokensUsed += tokensUsed;
 
@@ -458,8 +432,8 @@ Focus on actionable insights specific to this exact location and competitive env
   ): Promise<string> {
     console.log(`🤖 Analyzing accessibility intelligence for ${lat.toFixed(4)}, ${lng.toFixed(4)}`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI accessibility analysis');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI accessibility analysis');
     }
 
     try {
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { LlmClient } from '@subway/shared-ai';
 import { IOpenAIExpansionIntensityService } from './interfaces/intelligent-expansion.interfaces';
 import {
   AIRankedLocations,
@@ -17,8 +18,8 @@ import {
  * Provides AI-driven intensity scaling and market potential analysis
  */
 export class OpenAIExpansionIntensityService implements IOpenAIExpansionIntensityService {
-  private readonly OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || 'gpt-5-mini';
+  private readonly llm = LlmClient.getInstance();
+  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || this.llm.defaultModel;
   private readonly TEMPERATURE = parseFloat(process.env.EXPANSION_OPENAI_TEMPERATURE || '0.3');
   private readonly MAX_TOKENS = parseInt(process.env.EXPANSION_OPENAI_MAX_TOKENS || '800');
   
@@ -58,8 +59,8 @@ export class OpenAIExpansionIntensityService implements IOpenAIExpansionIntensit
   ): Promise<AIRankedLocations> {
     console.log(`🤖 Ranking ${allCandidates.length} locations by market potential using AI`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI market potential ranking');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI market potential ranking');
     }
 
     if (allCandidates.length === 0) {
@@ -129,8 +130,8 @@ export class OpenAIExpansionIntensityService implements IOpenAIExpansionIntensit
     const intensityConfig = this.getIntensityConfiguration(intensityLevel);
     console.log(`🤖 Selecting optimal locations for ${intensityLevel} intensity level (${intensityConfig.targetCount} stores)`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI intensity optimization');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI intensity optimization');
     }
 
     if (rankedLocations.rankings.length === 0) {
@@ -219,8 +220,8 @@ export class OpenAIExpansionIntensityService implements IOpenAIExpansionIntensit
   ): Promise<SaturationAnalysis> {
     console.log(`🤖 Analyzing market saturation: ${highPotentialLocations.length} high-potential locations vs ${existingStores.length} existing stores`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI market saturation analysis');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI market saturation analysis');
     }
 
     try {
@@ -435,50 +436,30 @@ Provide scores from 0.0 to 1.0 where 1.0 is highest potential.`;
     const { OpenAISafetyWrapper } = await import('./openai-safety-wrapper');
     
     const result = await OpenAISafetyWrapper.makeCall(
-      async () => {
-        const response = await fetch('https://api.openai.com/v1/responses', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.OPENAI_API_KEY}`,
-            'Content-Type': 'application/json'
+      () => this.llm.complete({
+        purpose: 'expansion-intensity',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a market expansion strategist specializing in restaurant location analysis. Always respond with valid JSON and provide detailed strategic reasoning.'
           },
-          body: JSON.stringify({
-            model: this.MODEL,
-            messages: [
-              {
-                role: 'system',
-                content: 'You are a market expansion strategist specializing in restaurant location analysis. Always respond with valid JSON and provide detailed strategic reasoning.'
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            max_completion_tokens: this.MAX_TOKENS
-            // Note: temperature parameter removed as GPT-5 models only support default (1.0)
-          })
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-        }
-
-        const data = await response.json();
-        
-        if (!data.choices || data.choices.length === 0) {
-          throw new Error('No response from OpenAI');
-        }
-
-        return data;
-      },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        model: this.MODEL,
+        maxOutputTokens: this.MAX_TOKENS
+      }),
       'expansion-intensity'
     );
 
-    // Extract text from GPT-5 Responses API structure
-      const messageOutput = result.output.find((item: any) => item.type === 'message');
-      const responseText = messageOutput.content[0].text.trim();
-    const tokensUsed = result.usage?.total_tokens || 0;
+    if (!result.text.trim()) {
+      throw new Error(`No response from ${result.provider}`);
+    }
+
+    const responseText = result.text.trim();
+    const tokensUsed = result.usage.totalTokens;
     this.totalTokensUsed += tokensUsed;
 
     return responseText;
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { LlmClient } from '@subway/shared-ai';
 import * as crypto from 'crypto';
 
 // Types for OpenAI Strategy Layer
@@ -87,8 +88,8 @@ export interface OpenAIStrategyConfig {
 }
 
 export class OpenAIExpansionStrategyService {
-  private readonly OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || 'gpt-5-mini';
+  private readonly llm = LlmClient.getInstance();
+  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || this.llm.defaultModel;
   private readonly REASONING_EFFORT: 'minimal' | 'low' | 'medium' | 'high' = 'medium'; // Strategic analysis needs medium reasoning
   private readonly TEXT_VERBOSITY: 'low' | 'medium' | 'high' = 'medium'; // Balanced output for rationales
   private readonly MAX_TOKENS = parseInt(process.env.EXPANSION_OPENAI_MAX_TOKENS || '4000');
@@ -113,8 +114,8 @@ export class OpenAIExpansionStrategyService {
       RETRY_ATTEMPTS: this.RETRY_ATTEMPTS,
       TIMEOUT_MS: this.TIMEOUT_MS,
       FALLBACK_ENABLED: this.FALLBACK_ENABLED,
-      API_KEY_CONFIGURED: !!this.OPENAI_API_KEY,
-      API_KEY_PREFIX: this.OPENAI_API_KEY?.substring(0, 10) || 'NONE'
+      PROVIDER: this.llm.providerName,
+      PROVIDER_CONFIGURED: this.llm.isConfigured()
     });
   }
 
@@ -125,8 +126,8 @@ export class OpenAIExpansionStrategyService {
     console.log(`🤖 OpenAI Strategy Layer analyzing ${input.candidates.length} candidates for ${input.targetCount} selections...`);
     
     // Check if OpenAI is configured
-    console.log(`🔍 OpenAI API Key check: ${this.OPENAI_API_KEY ? 'SET' : 'NOT SET'} (length: ${this.OPENAI_API_KEY?.length || 0})`);
-    if (!this.OPENAI_API_KEY) {
+    console.log(`🔍 LLM provider check: ${this.llm.providerName} ${this.llm.isConfigured() ? 'configured' : 'NOT configured'}`);
+    if (!this.llm.isConfigured()) {
       if (this.FALLBACK_ENABLED) {
         console.warn('⚠️  OpenAI API key not configured, falling back to deterministic selection');
         return this.fallbackToDeterministicSelection(input);
@@ -247,78 +248,50 @@ export class OpenAIExpansionStrategyService {
    */
   private async callOpenAI(promptData: StrategyPromptData): Promise<string> {
     // Development mode: Use mock response if API key is placeholder
-    if (this.OPENAI_API_KEY === 'sk-your-openai-api-key-here' || this.OPENAI_API_KEY === 'mock') {
+    if (process.env.OPENAI_API_KEY === 'sk-your-openai-api-key-here' || process.env.OPENAI_API_KEY === 'mock') {
       console.log('🧪 Using mock OpenAI response for development');
       return this.generateMockResponse(promptData);
     }
     const prompt = this.buildSubwayStrategistPrompt(promptData);
     
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.TIMEOUT_MS);
-    
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new Error(`OpenAI API timeout after ${this.TIMEOUT_MS}ms`)), this.TIMEOUT_MS);
+    });
+
     try {
       const { OpenAISafetyWrapper } = await import('./openai-safety-wrapper');
       
       const result = await OpenAISafetyWrapper.makeCall(
-        async () => {
-          const response = await fetch('https://api.openai.com/v1/responses', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${this.OPENAI_API_KEY}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              model: this.MODEL,
-              input: `System: You are the Subway Expansion Strategist AI. You analyze market data and make strategic location decisions for restaurant expansion. Always respond with valid JSON in the exact format requested.\n\nUser: ${prompt}`,
-              max_output_tokens: this.MAX_TOKENS,
-              reasoning: { effort: this.REASONING_EFFORT },
-              text: { verbosity: this.TEXT_VERBOSITY }
-            }),
-            signal: controller.signal
-          });
-
-          clearTimeout(timeoutId);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-          }
-
-          const data = await response.json();
-          
-          // GPT-5 Responses API has a different structure
-          if (!data.output || !Array.isArray(data.output)) {
-            throw new Error('No response from OpenAI');
-          }
-
-          // Find the message output (type: "message")
-          const messageOutput = data.output.find((item: any) => item.type === 'message');
-          if (!messageOutput || !messageOutput.content || !messageOutput.content[0]) {
-            throw new Error('No message content in OpenAI response');
-          }
-
-          return data;
-        },
+        () => Promise.race([
+          this.llm.complete({
+            purpose: 'expansion-strategy',
+            messages: [
+              { role: 'system', content: 'You are the Subway Expansion Strategist AI. You analyze market data and make strategic location decisions for restaurant expansion. Always respond with valid JSON in the exact format requested.' },
+              { role: 'user', content: prompt }
+            ],
+            model: this.MODEL,
+            maxOutputTokens: this.MAX_TOKENS,
+            reasoningEffort: this.REASONING_EFFORT,
+            verbosity: this.TEXT_VERBOSITY
+          }),
+          timeout
+        ]),
         'expansion-strategy'
       );
 
-      // Extract text from GPT-5 Responses API structure
-      const messageOutput = result.output.find((item: any) => item.type === 'message');
-      const responseText = messageOutput.content[0].text.trim();
-      const tokensUsed = result.usage?.total_tokens || 0;
+      if (!result.text.trim()) {
+        throw new Error(`No message content in ${result.provider} response`);
+      }
+
+      const responseText = result.text.trim();
+      const tokensUsed = result.usage.totalTokens;
       this.totalTokensUsed += tokensUsed;
 
-      console.log(`   OpenAI API success: ${tokensUsed} tokens used`);
+      console.log(`   LLM call success (${result.provider}): ${tokensUsed} tokens used`);
       return responseText;
-      
-    } catch (error) {
+    } finally {
       clearTimeout(timeoutId);
-      
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`OpenAI API timeout after ${this.TIMEOUT_MS}ms`);
-      }
-      
-      throw error;
     }
   }
 
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { LlmClient } from '@subway/shared-ai';
 import { IOpenAIPlacementIntelligenceService } from './interfaces/intelligent-expansion.interfaces';
 import {
   AIPlacementScore,
@@ -19,8 +20,8 @@ import {
  * Provides AI-driven placement analysis and pattern detection
  */
 export class OpenAIPlacementIntelligenceService implements IOpenAIPlacementIntelligenceService {
-  private readonly OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || 'gpt-5-mini';
+  private readonly llm = LlmClient.getInstance();
+  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || this.llm.defaultModel;
   private readonly TEMPERATURE = parseFloat(process.env.EXPANSION_OPENAI_TEMPERATURE || '0.3');
   private readonly MAX_TOKENS = parseInt(process.env.EXPANSION_OPENAI_MAX_TOKENS || '600');
   
@@ -44,8 +45,8 @@ export class OpenAIPlacementIntelligenceService implements IOpenAIPlacementIntel
   ): Promise<AIPlacementScore> {
     console.log(`🤖 Evaluating viability for ${candidate.name} (${candidate.lat.toFixed(4)}, ${candidate.lng.toFixed(4)})`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI viability scoring');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI viability scoring');
     }
 
     try {
@@ -203,50 +204,30 @@ Provide location-specific insights based on the exact coordinates and local cont
     const { OpenAISafetyWrapper } = await import('./openai-safety-wrapper');
     
     const result = await OpenAISafetyWrapper.makeCall(
-      async () => {
-        const response = await fetch('https://api.openai.com/v1/responses', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.OPENAI_API_KEY}`,
-            'Content-Type': 'application/json'
+      () => this.llm.complete({
+        purpose: 'placement-intelligence',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a restaurant location viability expert specializing in site selection analysis. Always respond with valid JSON and provide detailed, location-specific insights.'
           },
-          body: JSON.stringify({
-            model: this.MODEL,
-            messages: [
-              {
-                role: 'system',
-                content: 'You are a restaurant location viability expert specializing in site selection analysis. Always respond with valid JSON and provide detailed, location-specific insights.'
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            max_completion_tokens: this.MAX_TOKENS
-            // Note: temperature parameter removed as GPT-5 models only support default (1.0)
-          })
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-        }
-
-        const data = await response.json();
-        
-        if (!data.choices || data.choices.length === 0) {
-          throw new Error('No response from OpenAI');
-        }
-
-        return data;
-      },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        model: this.MODEL,
+        maxOutputTokens: this.MAX_TOKENS
+      }),
       'placement-intelligence'
     );
 
-    // Extract text from GPT-5 Responses API structure
-      const messageOutput = result.output.find((item: any) => item.type === 'message');
-      const responseText = messageOutput.content[0].text.trim();
-    const tokensUsed = result.usage?.total_tokens || 0;
+    if (!result.text.trim()) {
+      throw new Error(`No response from ${result.provider}`);
+    }
+
+    const responseText = result.text.trim();
+    const tokensUsed = result.usage.totalTokens;
     this.totalTokensUsed += tokensUsed;
 
     return responseText;
@@ -305,8 +286,8 @@ Provide location-specific insights based on the exact coordinates and local cont
   ): Promise<OptimizedPlacement> {
     console.log(`🤖 Optimizing placement for ${candidates.length} candidates, target: ${targetCount} locations`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI placement optimization');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI placement optimization');
     }
 
     if (candidates.length === 0) {
@@ -601,8 +582,8 @@ Focus on strategic market coverage and sustainable expansion patterns.`;
   ): Promise<RealWorldFactorAnalysis> {
     console.log(`🤖 Analyzing real-world factors for ${candidate.name}`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI real-world factor analysis');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI real-world factor analysis');
     }
 
     try {
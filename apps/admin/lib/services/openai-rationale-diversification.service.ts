@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { LlmClient } from '@subway/shared-ai';
 import * as crypto from 'crypto';
 import { IOpenAIRationaleDiversificationService } from './interfaces/intelligent-expansion.interfaces';
 import {
@@ -14,8 +15,8 @@ import { RationaleContext } from './openai-rationale.service';
  * Extends existing rationale service with diversity enforcement and uniqueness validation
  */
 export class OpenAIRationaleDiversificationService implements IOpenAIRationaleDiversificationService {
-  private readonly OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || 'gpt-5-mini';
+  private readonly llm = LlmClient.getInstance();
+  private readonly MODEL = process.env.EXPANSION_OPENAI_MODEL || this.llm.defaultModel;
   private readonly REASONING_EFFORT: 'minimal' | 'low' | 'medium' | 'high' = 'medium'; // Rationale generation needs medium reasoning
   private readonly TEXT_VERBOSITY: 'low' | 'medium' | 'high' = 'medium'; // Balanced output for rationales
   private readonly MAX_TOKENS = parseInt(process.env.EXPANSION_OPENAI_MAX_TOKENS || '300');
@@ -45,8 +46,8 @@ export class OpenAIRationaleDiversificationService implements IOpenAIRationaleDi
   ): Promise<UniqueRationale> {
     console.log(`🤖 Generating unique rationale for location ${locationCoordinates.lat.toFixed(4)}, ${locationCoordinates.lng.toFixed(4)}`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI rationale diversification');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI rationale diversification');
     }
 
     // Check cache first
@@ -115,8 +116,8 @@ export class OpenAIRationaleDiversificationService implements IOpenAIRationaleDi
   ): Promise<DiversityReport> {
     console.log(`🤖 Validating diversity of ${locationSpecificRationales.length} rationales`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI diversity validation');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI diversity validation');
     }
 
     if (locationSpecificRationales.length === 0) {
@@ -157,8 +158,8 @@ export class OpenAIRationaleDiversificationService implements IOpenAIRationaleDi
   ): Promise<UniqueRationale[]> {
     console.log(`🤖 Enforcing uniqueness for ${individualCandidates.length} candidates (target: ${targetCount})`);
     
-    if (!this.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured - cannot perform AI uniqueness enforcement');
+    if (!this.llm.isConfigured()) {
+      throw new Error('LLM provider not configured - cannot perform AI uniqueness enforcement');
     }
 
     const uniqueRationales: UniqueRationale[] = [];
@@ -337,53 +338,26 @@ Focus on what makes this specific location unique compared to others.`;
     const { OpenAISafetyWrapper } = await import('./openai-safety-wrapper');
     
     const result = await OpenAISafetyWrapper.makeCall(
-      async () => {
-        const response = await fetch('https://api.openai.com/v1/responses', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: this.MODEL,
-          input: `System: You are a location analysis expert specializing in creating unique, location-specific rationales. Always respond with valid JSON and ensure each rationale is completely unique.\n\nUser: ${prompt}`,
-          max_output_tokens: this.MAX_TOKENS,
-          reasoning: { effort: this.REASONING_EFFORT },
-          text: { verbosity: this.TEXT_VERBOSITY }
-        })
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-        }
-
-        const data = await response.json();
-        
-        // GPT-5 Responses API has a different structure
-        if (!data.output || !Array.isArray(data.output)) {
-          throw new Error('No response from OpenAI');
-        }
-
-        return data;
-      },
+      () => this.llm.complete({
+        purpose: 'rationale-diversification',
+        messages: [
+          { role: 'system', content: 'You are a location analysis expert specializing in creating unique, location-specific rationales. Always respond with valid JSON and ensure each rationale is completely unique.' },
+          { role: 'user', content: prompt }
+        ],
+        model: this.MODEL,
+        maxOutputTokens: this.MAX_TOKENS,
+        reasoningEffort: this.REASONING_EFFORT,
+        verbosity: this.TEXT_VERBOSITY
+      }),
       'rationale-diversification'
     );
 
-    // For GPT-5, prefer reasoning output, but fall back to message if reasoning is empty
-    let contentOutput = result.output.find((item: any) => item.type === 'reasoning');
-    
-    // If reasoning is empty or missing, use message output
-    if (!contentOutput || !contentOutput.content || !contentOutput.content[0] || !contentOutput.content[0].text) {
-      contentOutput = result.output.find((item: any) => item.type === 'message');
-    }
-    
-    if (!contentOutput || !contentOutput.content || !contentOutput.content[0] || !contentOutput.content[0].text) {
-      throw new Error(`No usable content in OpenAI response. Available outputs: ${result.output.map((o: any) => `${o.type}:${o.content?.length || 0}`).join(', ')}`);
+    if (!result.text.trim()) {
+      throw new Error(`No usable content in ${result.provider} response`);
     }
 
-    const responseText = contentOutput.content[0].text.trim();
-    const tokensUsed = result.usage?.total_tokens || 0;
+    const responseText = result.text.trim();
+    const tokensUsed = result.usage.totalTokens;
     this.totalTokensUsed += tokensUsed;
 
     return responseText;
@@ -1,5 +1,6 @@
 import fs from 'fs';
 import path from 'path';
+import { LlmUsage } from '@subway/shared-ai';
 
 interface CostLogEntry {
   timestamp: string;
@@ -10,6 +11,11 @@ interface CostLogEntry {
   jobId?: string;
 }
 
+/** Raw OpenAI payloads report usage.total_tokens, LlmClient responses usage.totalTokens */
+interface MeteredResult {
+  usage?: Partial<LlmUsage> & { total_tokens?: number };
+}
+
 export class OpenAISafetyWrapper {
   private static readonly COST_LOG_FILE = path.join(process.cwd(), 'openai-costs.log');
   private static readonly DAILY_LIMIT = 5.00; // £5 per day
@@ -47,7 +53,8 @@ export class OpenAISafetyWrapper {
       const result = await apiCall();
       
       // Log the cost
-      const tokens = (result as any)?.usage?.total_tokens || 0;
+      const usage = (result as MeteredResult | null)?.usage;
+      const tokens = usage?.total_tokens || usage?.totalTokens || 0;
       const cost = this.estimateCost(tokens);
       
       this.logCost(tokens, cost, context, jobId);
@@ -0,0 +1,71 @@
+import { bff, bffWithErrorHandling } from '../api';
+import {
+  AgreementInput,
+  FranchiseAgreement,
+  FranchiseAgreementSchema,
+  RoyaltyStatement,
+  RoyaltyStatementSchema,
+} from '../types/royalty.types';
+import { z } from 'zod';
+
+type MutationResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export class RoyaltyService {
+  static async getAgreements(franchiseeId: string): Promise<FranchiseAgreement[]> {
+    return bff(`/franchisees/${encodeURIComponent(franchiseeId)}/agreements`, z.array(FranchiseAgreementSchema));
+  }
+
+  static async createAgreement(franchiseeId: string, input: AgreementInput): Promise<MutationResult<FranchiseAgreement>> {
+    return this.mutate(`/franchisees/${encodeURIComponent(franchiseeId)}/agreements`, FranchiseAgreementSchema, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async renewAgreement(id: string): Promise<MutationResult<FranchiseAgreement>> {
+    return this.mutate(`/franchise-agreements/${encodeURIComponent(id)}/renew`, FranchiseAgreementSchema, { method: 'POST' });
+  }
+
+  static async terminateAgreement(id: string, endDate: string): Promise<MutationResult<FranchiseAgreement>> {
+    return this.mutate(`/franchise-agreements/${encodeURIComponent(id)}/terminate`, FranchiseAgreementSchema, {
+      method: 'POST',
+      body: JSON.stringify({ endDate }),
+    });
+  }
+
+  static async getStatements(franchiseeId: string): Promise<RoyaltyStatement[]> {
+    return bff(`/franchisees/${encodeURIComponent(franchiseeId)}/royalty-statements`, z.array(RoyaltyStatementSchema));
+  }
+
+  /** Drafts, or recalculates the drafts of, the statements for a YYYY-MM period */
+  static async generateStatements(franchiseeId: string, period: string): Promise<MutationResult<RoyaltyStatement[]>> {
+    return this.mutate(`/franchisees/${encodeURIComponent(franchiseeId)}/royalty-statements`, z.array(RoyaltyStatementSchema), {
+      method: 'POST',
+      body: JSON.stringify({ period }),
+    });
+  }
+
+  static async addAdjustment(statementId: string, description: string, amount: number): Promise<MutationResult<RoyaltyStatement>> {
+    return this.mutate(`/royalty-statements/${encodeURIComponent(statementId)}/adjustments`, RoyaltyStatementSchema, {
+      method: 'POST',
+      body: JSON.stringify({ description, amount }),
+    });
+  }
+
+  static async removeAdjustment(statementId: string, lineId: string): Promise<MutationResult<RoyaltyStatement>> {
+    return this.mutate(
+      `/royalty-statements/${encodeURIComponent(statementId)}/adjustments/${encodeURIComponent(lineId)}`,
+      RoyaltyStatementSchema,
+      { method: 'DELETE' },
+    );
+  }
+
+  static async issueStatement(statementId: string): Promise<MutationResult<RoyaltyStatement>> {
+    return this.mutate(`/royalty-statements/${encodeURIComponent(statementId)}/issue`, RoyaltyStatementSchema, { method: 'POST' });
+  }
+
+  private static async mutate<T>(path: string, schema: z.ZodSchema<T>, init: RequestInit): Promise<MutationResult<T>> {
+    const result = await bffWithErrorHandling<T>(path, schema, init);
+    return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+  }
+}
@@ -0,0 +1,52 @@
+import { bff, bffWithErrorHandling } from '../api';
+import {
+  CronPreview,
+  CronPreviewSchema,
+  ScheduledJob,
+  ScheduledJobInput,
+  ScheduledJobRun,
+  ScheduledJobRunSchema,
+  ScheduledJobSchema,
+} from '../types/scheduled-job.types';
+import { z } from 'zod';
+
+type MutationResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export class ScheduledJobService {
+  static async getSchedules(): Promise<ScheduledJob[]> {
+    return bff('/scheduled-jobs', z.array(ScheduledJobSchema));
+  }
+
+  static async getRuns(id: string, limit = 20): Promise<ScheduledJobRun[]> {
+    return bff(`/scheduled-jobs/${encodeURIComponent(id)}/runs?limit=${limit}`, z.array(ScheduledJobRunSchema));
+  }
+
+  static async preview(cron: string, timezone: string): Promise<MutationResult<CronPreview>> {
+    const query = new URLSearchParams({ cron, timezone });
+    return this.mutate(`/scheduled-jobs/preview?${query}`, CronPreviewSchema, {});
+  }
+
+  static async createSchedule(data: ScheduledJobInput): Promise<MutationResult<ScheduledJob>> {
+    return this.mutate('/scheduled-jobs', ScheduledJobSchema, { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  static async updateSchedule(id: string, data: ScheduledJobInput): Promise<MutationResult<ScheduledJob>> {
+    return this.mutate(`/scheduled-jobs/${encodeURIComponent(id)}`, ScheduledJobSchema, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  static async deleteSchedule(id: string): Promise<MutationResult<unknown>> {
+    return this.mutate(`/scheduled-jobs/${encodeURIComponent(id)}`, z.unknown(), { method: 'DELETE' });
+  }
+
+  static async runNow(id: string): Promise<MutationResult<ScheduledJobRun>> {
+    return this.mutate(`/scheduled-jobs/${encodeURIComponent(id)}/run`, ScheduledJobRunSchema, { method: 'POST' });
+  }
+
+  private static async mutate<T>(path: string, schema: z.ZodSchema<T>, init: RequestInit): Promise<MutationResult<T>> {
+    const result = await bffWithErrorHandling<T>(path, schema, init);
+    return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+  }
+}
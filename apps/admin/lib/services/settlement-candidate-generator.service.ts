@@ -1,5 +1,6 @@
 import * as turf from '@turf/turf';
 import { PrismaClient } from '@prisma/client';
+import { BoundaryIndex, BoundingBox, CountryInfo, getBoundaryIndex } from '@subway/geo-boundaries';
 
 export interface SettlementPlace {
   id: string;
@@ -98,7 +99,10 @@ export class SettlementCandidateGeneratorService {
     villages: parseFloat(process.env.EXPANSION_SETTLEMENT_DIVERSITY_VILLAGES || '0.2')
   };
 
-  constructor(private readonly prisma: PrismaClient) {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly boundaries: BoundaryIndex = getBoundaryIndex()
+  ) {
     console.log('🏘️  Settlement Generator initialized:', {
       POP_MIN: this.POP_MIN,
       MAX_CANDIDATES: this.MAX_CANDIDATES_PER_REGION,
@@ -330,7 +334,7 @@ export class SettlementCandidateGeneratorService {
    * Generate settlement-based candidates for a region
    */
   async generateSettlementCandidates(
-    region: { country?: string; state?: string; boundingBox?: any },
+    region: { country?: string; state?: string; boundingBox?: BoundingBox },
     stores: Array<{ id: string; latitude: number; longitude: number; annualTurnover?: number }>,
     targetCount: number
   ): Promise<{
@@ -388,42 +392,45 @@ export class SettlementCandidateGeneratorService {
    * Fetch OSM places (cities, towns, villages) within region
    */
   private async fetchOSMPlaces(region: any): Promise<SettlementPlace[]> {
-    
-    if (region.country === 'Germany' || region.country === 'DE') {
+    const country = this.boundaries.findCountry(region.country);
+
+    if (country) {
       try {
-        // Try to fetch real OSM data for Germany
-        const osmPlaces = await this.fetchRealOSMPlaces('Germany');
+        const osmPlaces = await this.fetchRealOSMPlaces(country);
         if (osmPlaces.length > 0) {
-          console.log(`   ✅ Fetched ${osmPlaces.length} real OSM places for Germany`);
+          console.log(`   ✅ Fetched ${osmPlaces.length} real OSM places for ${country.name}`);
           return osmPlaces;
         }
       } catch (error: any) {
-        console.warn('   ⚠️ OSM API failed, falling back to expanded mock data:', error?.message || error);
+        console.warn(`   ⚠️ OSM API failed for ${country.name}, falling back:`, error?.message || error);
+      }
+
+      if (country.iso2 === 'DE') {
+        // Fallback to expanded mock data
+        return this.getExpandedGermanSettlements();
       }
-      
-      // Fallback to expanded mock data
-      return this.getExpandedGermanSettlements();
     }
-    
-    // Fallback: generate places from bounding box
-    if (region.boundingBox) {
-      return this.generatePlacesFromBounds(region.boundingBox);
+
+    // Fallback: generate places from the region's or country's bounding box
+    const bounds = region.boundingBox ?? (country ? this.boundaries.getBounds(country.iso2) : null);
+    if (bounds) {
+      return this.generatePlacesFromBounds(bounds, country);
     }
-    
+
     return [];
   }
 
   /**
    * Fetch real OSM places using Overpass API
    */
-  private async fetchRealOSMPlaces(country: string): Promise<SettlementPlace[]> {
+  private async fetchRealOSMPlaces(country: CountryInfo): Promise<SettlementPlace[]> {
     const overpassUrl = 'https://overpass-api.de/api/interpreter';
     
-    // Overpass query for German settlements with population data
+    // Overpass query for the country's settlements with population data
     const query = `
       [out:json][timeout:30];
       (
-        relation["ISO3166-1"="DE"]["admin_level"="2"];
+        relation["ISO3166-1"="${country.iso2}"]["admin_level"="2"];
       )->.country;
       (
         node(area.country)["place"~"^(city|town|village)$"]["population"];
@@ -790,9 +797,10 @@ export class SettlementCandidateGeneratorService {
 
   /**
    * Generate places from bounding box (fallback method)
+   * Grid points outside the country, including at sea, are dropped
    */
-  private generatePlacesFromBounds(bounds: any): SettlementPlace[] {
-    // Simple grid-based place generation for non-Germany regions
+  private generatePlacesFromBounds(bounds: BoundingBox, country?: CountryInfo): SettlementPlace[] {
+    // Simple grid-based place generation for regions without OSM data
     const places: SettlementPlace[] = [];
     const latStep = (bounds.north - bounds.south) / 10;
     const lngStep = (bounds.east - bounds.west) / 10;
@@ -801,6 +809,11 @@ export class SettlementCandidateGeneratorService {
       for (let j = 1; j < 10; j++) {
         const lat = bounds.south + (i * latStep);
         const lng = bounds.west + (j * lngStep);
+
+        const onLand = country
+          ? this.boundaries.isInCountry(lat, lng, country.iso2)
+          : this.boundaries.isOnLand(lat, lng) !== false;
+        if (!onLand) continue;
         
         places.push({
           id: `generated_${i}_${j}`,
@@ -0,0 +1,69 @@
+import { bff, bffWithErrorHandling } from '../api';
+import {
+  MoveStageRequest,
+  PipelineSite,
+  PipelineSiteSchema,
+  PipelineStage,
+  StageDefinition,
+  StageDefinitionSchema,
+} from '../types/site-pipeline.types';
+import { z } from 'zod';
+
+type MutationResult = { success: true; site: PipelineSite } | { success: false; error: string };
+
+export class SitePipelineService {
+  static async getStages(): Promise<StageDefinition[]> {
+    return bff('/pipeline/stages', z.array(StageDefinitionSchema));
+  }
+
+  static async getSites(filters: { stage?: PipelineStage; scenarioId?: string; owner?: string } = {}): Promise<PipelineSite[]> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString() ? `?${params}` : '';
+    return bff(`/pipeline/sites${query}`, z.array(PipelineSiteSchema));
+  }
+
+  static async getSite(id: string): Promise<PipelineSite> {
+    return bff(`/pipeline/sites/${encodeURIComponent(id)}`, PipelineSiteSchema);
+  }
+
+  static async addSuggestion(data: {
+    suggestionId: string;
+    name?: string;
+    city?: string;
+    owner?: string;
+    dueDate?: string;
+  }): Promise<MutationResult> {
+    return this.mutate('/pipeline/sites', { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  static async assign(id: string, data: { owner?: string | null; dueDate?: string | null }): Promise<MutationResult> {
+    return this.mutate(`/pipeline/sites/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(data) });
+  }
+
+  static async setChecklistItem(id: string, item: string, done: boolean, note?: string): Promise<MutationResult> {
+    return this.mutate(`/pipeline/sites/${encodeURIComponent(id)}/checklist/${encodeURIComponent(item)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ done, note }),
+    });
+  }
+
+  static async moveToStage(id: string, data: MoveStageRequest): Promise<MutationResult> {
+    return this.mutate(`/pipeline/sites/${encodeURIComponent(id)}/stage`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  private static async mutate(path: string, init: RequestInit): Promise<MutationResult> {
+    const result = await bffWithErrorHandling<PipelineSite>(path, PipelineSiteSchema, init);
+
+    if (result.success) {
+      return { success: true, site: result.data };
+    } else {
+      return { success: false, error: result.error };
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { bff, bffWithErrorHandling } from '../api';
+import {
+  StoreAlert,
+  StoreAlertQuery,
+  StoreAlertSchema,
+  StoreAlertSummary,
+  StoreAlertSummarySchema,
+} from '../types/store-alert.types';
+import { z } from 'zod';
+
+type MutationResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export class StoreAlertService {
+  static async getAlerts(query: StoreAlertQuery = {}): Promise<StoreAlert[]> {
+    const searchParams = new URLSearchParams();
+    if (query.storeId) searchParams.set('storeId', query.storeId);
+    if (query.status) searchParams.set('status', query.status);
+    if (query.severity) searchParams.set('severity', query.severity);
+    if (query.type) searchParams.set('type', query.type);
+    if (query.limit) searchParams.set('limit', query.limit.toString());
+
+    return bff(`/store-alerts?${searchParams.toString()}`, z.array(StoreAlertSchema));
+  }
+
+  static async getSummary(): Promise<StoreAlertSummary> {
+    return bff('/store-alerts/summary', StoreAlertSummarySchema);
+  }
+
+  static async acknowledge(id: string): Promise<MutationResult<StoreAlert>> {
+    return this.mutate(`/store-alerts/${encodeURIComponent(id)}/acknowledge`, StoreAlertSchema, { method: 'POST' });
+  }
+
+  static async resolve(id: string, resolution?: string): Promise<MutationResult<StoreAlert>> {
+    return this.mutate(`/store-alerts/${encodeURIComponent(id)}/resolve`, StoreAlertSchema, {
+      method: 'POST',
+      body: JSON.stringify({ resolution }),
+    });
+  }
+
+  private static async mutate<T>(path: string, schema: z.ZodSchema<T>, init: RequestInit): Promise<MutationResult<T>> {
+    const result = await bffWithErrorHandling<T>(path, schema, init);
+    return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+  }
+}
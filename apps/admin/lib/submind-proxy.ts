@@ -0,0 +1,35 @@
+import 'server-only';
+import { NextRequest, NextResponse } from 'next/server';
+import { ACTING_USER_HEADER, BffResponseError, fetchFromBff, getActingUserEmail } from './server-api-client';
+
+/**
+ * Forwards a SubMind request to the BFF as the signed-in user. SubMind's tools
+ * and saved conversations act for that user, so a request nobody is signed in
+ * for gets a 401 instead of the admin service's own access.
+ */
+export async function proxySubMind(request: NextRequest, path: string, init: RequestInit = {}): Promise<NextResponse> {
+  const email = await getActingUserEmail();
+  if (!email) {
+    return NextResponse.json({ error: 'Sign in to use SubMind', code: 'UNAUTHENTICATED' }, { status: 401 });
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set(ACTING_USER_HEADER, email);
+  // Keeps SubMind's rate limit per browser rather than one bucket for the admin server
+  const clientIp = request.headers.get('x-forwarded-for') ?? request.ip;
+  if (clientIp) {
+    headers.set('x-forwarded-for', clientIp);
+  }
+
+  try {
+    const data = await fetchFromBff(path, { ...init, headers });
+    return data === null ? new NextResponse(null, { status: 204 }) : NextResponse.json(data);
+  } catch (error) {
+    if (error instanceof BffResponseError && error.statusCode) {
+      return NextResponse.json(error.body, { status: error.statusCode });
+    }
+
+    console.error('❌ [API] SubMind request failed:', error);
+    return NextResponse.json({ error: 'SubMind service unavailable', code: 'SERVICE_UNAVAILABLE' }, { status: 502 });
+  }
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+
+export const ExperimentStatusSchema = z.enum(['DRAFT', 'RUNNING', 'COMPLETED', 'CANCELLED']);
+
+export const PriceRuleSchema = z.object({
+  menuItemName: z.string().min(1, 'Menu item is required'),
+  type: z.enum(['FIXED', 'PERCENT']),
+  value: z.number(),
+});
+
+export const ExperimentVariantSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  name: z.string(),
+  isControl: z.boolean(),
+  weight: z.number().int(),
+  // JSON-encoded PriceRule[]; read it with parsePriceRules
+  priceRules: z.string().nullable(),
+});
+
+export const ExperimentAssignmentSchema = z.object({
+  storeId: z.string(),
+  variantId: z.string(),
+  pinned: z.boolean(),
+});
+
+export const ExperimentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  status: ExperimentStatusSchema,
+  startDate: z.string().datetime().nullable(),
+  endDate: z.string().datetime().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  variants: z.array(ExperimentVariantSchema),
+  assignments: z.array(ExperimentAssignmentSchema),
+});
+
+export const ExperimentVariantInputSchema = z.object({
+  key: z.string().min(1, 'Variant key is required'),
+  name: z.string().min(1, 'Variant name is required'),
+  isControl: z.boolean().optional(),
+  weight: z.number().int().min(0).optional(),
+  storeIds: z.array(z.string()).optional(),
+  priceRules: z.array(PriceRuleSchema).optional(),
+});
+
+export const CreateExperimentSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  storeIds: z.array(z.string()),
+  variants: z.array(ExperimentVariantInputSchema).min(2, 'At least two variants are required'),
+});
+
+export const MetricEstimateSchema = z.object({
+  mean: z.number(),
+  standardError: z.number(),
+  ciLow: z.number(),
+  ciHigh: z.number(),
+  sampleSize: z.number(),
+  degreesOfFreedom: z.number(),
+});
+
+export const MetricComparisonSchema = z.object({
+  difference: z.number(),
+  ciLow: z.number(),
+  ciHigh: z.number(),
+  relativeLift: z.number().nullable(),
+  significant: z.boolean(),
+});
+
+export const ExperimentReportSchema = z.object({
+  experimentId: z.string(),
+  name: z.string(),
+  status: z.string(),
+  windowStart: z.string().datetime(),
+  windowEnd: z.string().datetime(),
+  days: z.number(),
+  variants: z.array(z.object({
+    variantId: z.string(),
+    key: z.string(),
+    name: z.string(),
+    isControl: z.boolean(),
+    stores: z.number(),
+    storeDays: z.number(),
+    orders: z.number(),
+    revenue: z.number(),
+    ordersPerStoreDay: MetricEstimateSchema,
+    revenuePerStoreDay: MetricEstimateSchema,
+    averageTicket: MetricEstimateSchema,
+  })),
+  comparisons: z.array(z.object({
+    variantKey: z.string(),
+    controlKey: z.string(),
+    ordersPerStoreDay: MetricComparisonSchema,
+    revenuePerStoreDay: MetricComparisonSchema,
+    averageTicket: MetricComparisonSchema,
+  })),
+  warnings: z.array(z.string()),
+});
+
+export type ExperimentStatus = z.infer<typeof ExperimentStatusSchema>;
+export type PriceRule = z.infer<typeof PriceRuleSchema>;
+export type ExperimentVariant = z.infer<typeof ExperimentVariantSchema>;
+export type Experiment = z.infer<typeof ExperimentSchema>;
+export type CreateExperimentRequest = z.infer<typeof CreateExperimentSchema>;
+export type MetricEstimate = z.infer<typeof MetricEstimateSchema>;
+export type MetricComparison = z.infer<typeof MetricComparisonSchema>;
+export type ExperimentReport = z.infer<typeof ExperimentReportSchema>;
+
+export function parsePriceRules(variant: ExperimentVariant): PriceRule[] {
+  if (!variant.priceRules) return [];
+  const parsed = z.array(PriceRuleSchema).safeParse(JSON.parse(variant.priceRules));
+  return parsed.success ? parsed.data : [];
+}
@@ -1,10 +1,19 @@
 import { z } from 'zod';
 
+export const FeatureFlagConditionSchema = z.object({
+  type: z.enum(['user_id', 'region', 'environment', 'time_window', 'custom']),
+  operator: z.enum(['equals', 'not_equals', 'in', 'not_in', 'greater_than', 'less_than']),
+  value: z.unknown(),
+});
+
 export const FeatureFlagSchema = z.object({
   id: z.string(),
   key: z.string(),
   enabled: z.boolean(),
   description: z.string().nullable(),
+  category: z.string().optional(),
+  rolloutPercentage: z.number().int().min(0).max(100).nullable().optional(),
+  conditions: z.array(FeatureFlagConditionSchema).optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -13,11 +22,15 @@ export const CreateFeatureFlagSchema = z.object({
   key: z.string().min(1, 'Key is required').regex(/^[A-Z_][A-Z0-9_]*$/, 'Key must be uppercase with underscores only'),
   enabled: z.boolean().default(false),
   description: z.string().optional(),
+  rolloutPercentage: z.number().int().min(0).max(100).optional(),
+  conditions: z.array(FeatureFlagConditionSchema).optional(),
 });
 
 export const UpdateFeatureFlagSchema = z.object({
   enabled: z.boolean().optional(),
   description: z.string().optional(),
+  rolloutPercentage: z.number().int().min(0).max(100).nullable().optional(),
+  conditions: z.array(FeatureFlagConditionSchema).optional(),
 });
 
 export const FeatureFlagQuerySchema = z.object({
@@ -28,6 +41,7 @@ export const FeatureFlagQuerySchema = z.object({
 });
 
 export type FeatureFlag = z.infer<typeof FeatureFlagSchema>;
+export type FeatureFlagCondition = z.infer<typeof FeatureFlagConditionSchema>;
 export type CreateFeatureFlagRequest = z.infer<typeof CreateFeatureFlagSchema>;
 export type UpdateFeatureFlagRequest = z.infer<typeof UpdateFeatureFlagSchema>;
 export type FeatureFlagQuery = z.infer<typeof FeatureFlagQuerySchema>;
@@ -48,4 +62,19 @@ export interface FeatureFlagEvent {
   timestamp: string;
   previousValue?: boolean;
   newValue?: boolean;
-}
\ No newline at end of file
+}
+
+export interface FeatureFlagHistoryEntry {
+  id: string;
+  actor: string;
+  action: string;
+  diff: Record<string, unknown> | null;
+  timestamp: string;
+}
+
+export interface FeatureFlagEvaluation {
+  flagName: string;
+  enabled: boolean;
+  reason: string;
+  evaluatedAt: string;
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+
+export const GeneratorBacktestReportSchema = z.object({
+  country: z.string(),
+  openedSince: z.string(),
+  trainingStores: z.number(),
+  heldOutStores: z.number(),
+  gridResolution: z.number(),
+  candidatesEvaluated: z.number(),
+  metrics: z.object({
+    hitRate: z.number(),
+    medianDistanceKm: z.number().nullable(),
+    coverageUplift: z.number(),
+    precision: z.number(),
+    recall: z.number(),
+  }),
+  passed: z.boolean(),
+  openings: z.array(
+    z.object({
+      storeId: z.string(),
+      name: z.string(),
+      nearestPredictionKm: z.number().nullable(),
+      hit: z.boolean(),
+    }),
+  ),
+  recommendations: z.array(z.string()),
+});
+
+const ParetoPointSchema = z.object({
+  k: z.number(),
+  roi: z.number(),
+  risk: z.number(),
+  coverage: z.number(),
+});
+
+export const ParetoFrontierReportSchema = z.object({
+  jobId: z.string(),
+  candidates: z.number(),
+  frontier: z.array(ParetoPointSchema.extend({ isKnee: z.boolean(), siteIds: z.array(z.string()) })),
+  knee: ParetoPointSchema.nullable(),
+  dominated: z.array(ParetoPointSchema),
+});
+
+export const SiteStabilitySchema = z.object({
+  siteId: z.string(),
+  stabilityScore: z.number(),
+  confidenceLevel: z.enum(['high', 'medium', 'low']),
+  sensitiveParameters: z.array(z.string()),
+  robustnessMetrics: z.object({
+    selectionRate: z.number(),
+    avgRankChange: z.number(),
+    maxRankChange: z.number(),
+  }),
+});
+
+export const StabilityReportSchema = z.object({
+  jobId: z.string(),
+  targetK: z.number(),
+  iterations: z.number(),
+  overallStability: z.number(),
+  stableSites: z.number(),
+  unstableSites: z.number(),
+  sites: z.array(SiteStabilitySchema),
+  recommendedActions: z.array(z.string()),
+});
+
+const CounterfactualThresholdSchema = z.object({
+  parameter: z.string(),
+  currentValue: z.number(),
+  thresholdValue: z.number(),
+  direction: z.enum(['increase', 'decrease']),
+  impact: z.string(),
+  likelihood: z.enum(['high', 'medium', 'low']),
+});
+
+export const SiteCounterfactualSchema = z.object({
+  siteId: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  currentRank: z.number(),
+  targetRank: z.number(),
+  thresholds: z.array(CounterfactualThresholdSchema),
+  primaryThresholds: z.array(z.object({ feature: z.string(), threshold: z.number(), unit: z.string() })),
+  easiestPath: CounterfactualThresholdSchema,
+  summary: z.string(),
+});
+
+export const CounterfactualReportSchema = z.object({
+  jobId: z.string(),
+  targetRank: z.number(),
+  sites: z.array(SiteCounterfactualSchema),
+});
+
+export type GeneratorBacktestReport = z.infer<typeof GeneratorBacktestReportSchema>;
+export type ParetoFrontierReport = z.infer<typeof ParetoFrontierReportSchema>;
+export type SiteStability = z.infer<typeof SiteStabilitySchema>;
+export type StabilityReport = z.infer<typeof StabilityReportSchema>;
+export type SiteCounterfactual = z.infer<typeof SiteCounterfactualSchema>;
+export type CounterfactualReport = z.infer<typeof CounterfactualReportSchema>;
+
+export interface GeneratorBacktestRequest {
+  country: string;
+  openedSince: string;
+  targetK?: number;
+  distanceThresholdKm?: number;
+}
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+
+export const OverrideLevelSchema = z.enum(['COUNTRY', 'REGION', 'STORE']);
+
+export const MenuSourceSchema = z.enum(['MASTER', 'COUNTRY', 'REGION', 'STORE']);
+
+export const MenuOverrideSchema = z.object({
+  id: z.string(),
+  masterItemId: z.string(),
+  level: OverrideLevelSchema,
+  // Country or region name, or store id
+  scope: z.string(),
+  // Null fields inherit from the level above
+  available: z.boolean().nullable(),
+  price: z.number().nullable(),
+  categoryIds: z.array(z.string()).nullable(),
+  modifierGroupIds: z.array(z.string()).nullable(),
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const MasterMenuItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  price: z.number(),
+  active: z.boolean(),
+  categoryIds: z.array(z.string()),
+  modifierGroupIds: z.array(z.string()),
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  overrides: z.array(MenuOverrideSchema),
+  storeCount: z.number(),
+});
+
+export const MenuChangeActionSchema = z.enum(['create', 'link', 'update', 'deactivate']);
+
+export const EffectiveMenuItemSchema = z.object({
+  masterItemId: z.string(),
+  name: z.string(),
+  price: z.number(),
+  available: z.boolean(),
+  categoryIds: z.array(z.string()),
+  modifierGroupIds: z.array(z.string()),
+  sources: z.object({
+    price: MenuSourceSchema,
+    available: MenuSourceSchema,
+    categoryIds: MenuSourceSchema,
+    modifierGroupIds: MenuSourceSchema,
+  }),
+  menuItemId: z.string().nullable(),
+  pendingAction: MenuChangeActionSchema.nullable(),
+});
+
+export const PublishPreviewSchema = z.object({
+  storesInScope: z.number(),
+  storesChanged: z.number(),
+  totals: z.record(MenuChangeActionSchema, z.number()),
+  stores: z.array(z.object({
+    storeId: z.string(),
+    storeName: z.string(),
+    changes: z.array(z.object({
+      masterItemId: z.string(),
+      name: z.string(),
+      action: MenuChangeActionSchema,
+      menuItemId: z.string().nullable(),
+      fields: z.record(z.object({ from: z.unknown(), to: z.unknown() })),
+    })),
+  })),
+});
+
+export type OverrideLevel = z.infer<typeof OverrideLevelSchema>;
+export type MenuSource = z.infer<typeof MenuSourceSchema>;
+export type MenuOverride = z.infer<typeof MenuOverrideSchema>;
+export type MasterMenuItem = z.infer<typeof MasterMenuItemSchema>;
+export type MenuChangeAction = z.infer<typeof MenuChangeActionSchema>;
+export type EffectiveMenuItem = z.infer<typeof EffectiveMenuItemSchema>;
+export type PublishPreview = z.infer<typeof PublishPreviewSchema>;
+
+export interface MasterMenuItemInput {
+  name: string;
+  description?: string;
+  price: number;
+  active?: boolean;
+  categoryIds?: string[];
+  modifierGroupIds?: string[];
+}
+
+export interface MenuOverrideInput {
+  level: OverrideLevel;
+  scope: string;
+  available?: boolean | null;
+  price?: number | null;
+  categoryIds?: string[] | null;
+  modifierGroupIds?: string[] | null;
+}
+
+export interface MenuPublishScope {
+  storeIds?: string[];
+  region?: string;
+  country?: string;
+  masterItemIds?: string[];
+}
+
+export const MENU_CHANGE_LABELS: Record<MenuChangeAction, string> = {
+  create: 'Add to store',
+  link: 'Adopt store item',
+  update: 'Update',
+  deactivate: 'Withdraw',
+};
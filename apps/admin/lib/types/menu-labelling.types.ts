@@ -0,0 +1,161 @@
+import { z } from 'zod';
+
+export const ALLERGENS = [
+  'CELERY',
+  'GLUTEN',
+  'CRUSTACEANS',
+  'EGGS',
+  'FISH',
+  'LUPIN',
+  'MILK',
+  'MOLLUSCS',
+  'MUSTARD',
+  'TREE_NUTS',
+  'PEANUTS',
+  'SESAME',
+  'SOYA',
+  'SULPHITES',
+] as const;
+
+export const NUTRIENTS = ['energyKcal', 'energyKj', 'fat', 'saturates', 'carbohydrate', 'sugars', 'fibre', 'protein', 'salt'] as const;
+
+export const AllergenSchema = z.enum(ALLERGENS);
+
+// Energy in kcal and kJ, everything else in grams per serving
+export const NutritionSchema = z.object({
+  energyKcal: z.number().optional(),
+  energyKj: z.number().optional(),
+  fat: z.number().optional(),
+  saturates: z.number().optional(),
+  carbohydrate: z.number().optional(),
+  sugars: z.number().optional(),
+  fibre: z.number().optional(),
+  protein: z.number().optional(),
+  salt: z.number().optional(),
+});
+
+export const LabellingRuleSetSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  allergensRequired: z.boolean(),
+  requiredNutrients: z.array(z.enum(NUTRIENTS)),
+  modifierNutrientsRequired: z.boolean(),
+});
+
+export const LabellingIssueSchema = z.object({
+  entity: z.enum(['MenuItem', 'Modifier']),
+  id: z.string(),
+  name: z.string(),
+  code: z.enum(['ALLERGENS_UNDECLARED', 'NUTRIENT_MISSING', 'NUTRITION_INCONSISTENT', 'ALLERGEN_CONFLICT']),
+  message: z.string(),
+});
+
+export const LabelledModifierSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  priceAdjustment: z.number(),
+  active: z.boolean(),
+  allergensAdded: z.array(AllergenSchema),
+  allergensRemoved: z.array(AllergenSchema),
+  nutritionDelta: NutritionSchema.nullable(),
+});
+
+export const ItemLabellingSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  storeId: z.string(),
+  active: z.boolean(),
+  // null until the item's allergens have been declared
+  allergens: z.array(AllergenSchema).nullable(),
+  mayContain: z.array(AllergenSchema),
+  nutrition: NutritionSchema.nullable(),
+  modifierGroups: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    maxSelection: z.number().nullable(),
+    modifiers: z.array(LabelledModifierSchema),
+  })),
+});
+
+export const ConfiguredProfileSchema = z.object({
+  itemId: z.string(),
+  modifierIds: z.array(z.string()),
+  allergens: z.array(AllergenSchema).nullable(),
+  mayContain: z.array(AllergenSchema),
+  nutrition: NutritionSchema.nullable(),
+  modifiersWithoutNutrition: z.array(z.string()),
+  rules: LabellingRuleSetSchema,
+  issues: z.array(LabellingIssueSchema),
+});
+
+export const AllergenMatrixSchema = z.object({
+  storeId: z.string(),
+  storeName: z.string(),
+  country: z.string().nullable(),
+  rules: LabellingRuleSetSchema,
+  generatedAt: z.string().datetime(),
+  rows: z.array(z.object({
+    kind: z.enum(['item', 'modifier']),
+    id: z.string(),
+    name: z.string(),
+    groupId: z.string().nullable(),
+    group: z.string().nullable(),
+    contains: z.array(AllergenSchema),
+    mayContain: z.array(AllergenSchema),
+    removes: z.array(AllergenSchema),
+    nutrition: NutritionSchema.nullable(),
+    declared: z.boolean(),
+  })),
+  issues: z.array(LabellingIssueSchema),
+});
+
+export type Allergen = z.infer<typeof AllergenSchema>;
+export type Nutrient = typeof NUTRIENTS[number];
+export type Nutrition = z.infer<typeof NutritionSchema>;
+export type LabellingIssue = z.infer<typeof LabellingIssueSchema>;
+export type LabelledModifier = z.infer<typeof LabelledModifierSchema>;
+export type ItemLabelling = z.infer<typeof ItemLabellingSchema>;
+export type ConfiguredProfile = z.infer<typeof ConfiguredProfileSchema>;
+export type AllergenMatrix = z.infer<typeof AllergenMatrixSchema>;
+export type AllergenMatrixRow = AllergenMatrix['rows'][number];
+
+export interface ItemLabellingInput {
+  allergens?: Allergen[] | null;
+  mayContain?: Allergen[];
+  nutrition?: Nutrition | null;
+}
+
+export interface ModifierLabellingInput {
+  allergensAdded?: Allergen[];
+  allergensRemoved?: Allergen[];
+  nutritionDelta?: Nutrition | null;
+}
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  CELERY: 'Celery',
+  GLUTEN: 'Gluten',
+  CRUSTACEANS: 'Crustaceans',
+  EGGS: 'Eggs',
+  FISH: 'Fish',
+  LUPIN: 'Lupin',
+  MILK: 'Milk',
+  MOLLUSCS: 'Molluscs',
+  MUSTARD: 'Mustard',
+  TREE_NUTS: 'Tree nuts',
+  PEANUTS: 'Peanuts',
+  SESAME: 'Sesame',
+  SOYA: 'Soya',
+  SULPHITES: 'Sulphites',
+};
+
+export const NUTRIENT_LABELS: Record<Nutrient, string> = {
+  energyKcal: 'Energy (kcal)',
+  energyKj: 'Energy (kJ)',
+  fat: 'Fat (g)',
+  saturates: 'Saturates (g)',
+  carbohydrate: 'Carbohydrate (g)',
+  sugars: 'Sugars (g)',
+  fibre: 'Fibre (g)',
+  protein: 'Protein (g)',
+  salt: 'Salt (g)',
+};
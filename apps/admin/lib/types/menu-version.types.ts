@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import { MenuChangeActionSchema, OverrideLevelSchema } from './master-menu.types';
+
+export const VersionStatusSchema = z.enum(['DRAFT', 'IN_REVIEW', 'APPROVED']);
+
+export const RolloutStatusSchema = z.enum(['SCHEDULED', 'PUBLISHING', 'LIVE', 'SUPERSEDED', 'ROLLED_BACK', 'CANCELLED', 'FAILED']);
+
+export const VersionItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  price: z.number(),
+  active: z.boolean(),
+  categoryIds: z.array(z.string()),
+  modifierGroupIds: z.array(z.string()),
+  overrides: z.array(z.object({
+    level: OverrideLevelSchema,
+    scope: z.string(),
+    available: z.boolean().nullable(),
+    price: z.number().nullable(),
+    categoryIds: z.array(z.string()).nullable(),
+    modifierGroupIds: z.array(z.string()).nullable(),
+  })),
+});
+
+export const VersionCategorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  sortOrder: z.number(),
+  active: z.boolean(),
+});
+
+export const VersionModifierGroupSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  minSelection: z.number(),
+  maxSelection: z.number().nullable(),
+  required: z.boolean(),
+  active: z.boolean(),
+  modifiers: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    priceAdjustment: z.number(),
+    active: z.boolean(),
+  })),
+});
+
+export const RolloutResultSchema = z.object({
+  storesInScope: z.number(),
+  storesChanged: z.number(),
+  totals: z.record(MenuChangeActionSchema, z.number()),
+  skippedItems: z.array(z.string()),
+});
+
+export const MenuRolloutSchema = z.object({
+  id: z.string(),
+  versionId: z.string(),
+  // Country as written on Store
+  market: z.string(),
+  goLiveAt: z.string().datetime(),
+  status: RolloutStatusSchema,
+  previousRolloutId: z.string().nullable(),
+  scheduledBy: z.string(),
+  publishedAt: z.string().datetime().nullable(),
+  rolledBackBy: z.string().nullable(),
+  rolledBackAt: z.string().datetime().nullable(),
+  result: RolloutResultSchema.nullable(),
+  error: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  version: z.object({ id: z.string(), number: z.number(), name: z.string() }),
+});
+
+export const MenuVersionSummarySchema = z.object({
+  id: z.string(),
+  number: z.number(),
+  name: z.string(),
+  notes: z.string().nullable(),
+  status: VersionStatusSchema,
+  createdBy: z.string(),
+  submittedBy: z.string().nullable(),
+  submittedAt: z.string().datetime().nullable(),
+  reviewedBy: z.string().nullable(),
+  reviewedAt: z.string().datetime().nullable(),
+  reviewNotes: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  counts: z.object({ items: z.number(), categories: z.number(), modifierGroups: z.number() }),
+  liveMarkets: z.array(z.string()),
+});
+
+export const MenuVersionSchema = MenuVersionSummarySchema.extend({
+  content: z.object({
+    items: z.array(VersionItemSchema),
+    categories: z.array(VersionCategorySchema),
+    modifierGroups: z.array(VersionModifierGroupSchema),
+  }),
+  rollouts: z.array(MenuRolloutSchema),
+});
+
+const EntryDiffSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  change: z.enum(['added', 'removed', 'changed']),
+  fields: z.record(z.object({ from: z.unknown(), to: z.unknown() })),
+});
+
+export const MenuDiffSchema = z.object({
+  items: z.array(EntryDiffSchema),
+  categories: z.array(EntryDiffSchema),
+  modifierGroups: z.array(EntryDiffSchema),
+  unchanged: z.boolean(),
+});
+
+export type VersionStatus = z.infer<typeof VersionStatusSchema>;
+export type RolloutStatus = z.infer<typeof RolloutStatusSchema>;
+export type VersionItem = z.infer<typeof VersionItemSchema>;
+export type VersionCategory = z.infer<typeof VersionCategorySchema>;
+export type VersionModifierGroup = z.infer<typeof VersionModifierGroupSchema>;
+export type MenuRollout = z.infer<typeof MenuRolloutSchema>;
+export type MenuVersionSummary = z.infer<typeof MenuVersionSummarySchema>;
+export type MenuVersion = z.infer<typeof MenuVersionSchema>;
+export type MenuDiff = z.infer<typeof MenuDiffSchema>;
+export type EntryDiff = z.infer<typeof EntryDiffSchema>;
+
+export type VersionItemPatch = Partial<Pick<VersionItem, 'name' | 'price' | 'active' | 'categoryIds' | 'modifierGroupIds'>> & {
+  description?: string;
+};
+
+export type VersionCategoryPatch = Partial<Pick<VersionCategory, 'name' | 'sortOrder' | 'active'>>;
+
+export interface VersionModifierGroupPatch {
+  name?: string;
+  active?: boolean;
+  modifiers?: Array<{ id: string; name?: string; priceAdjustment?: number; active?: boolean }>;
+}
+
+export const VERSION_STATUS_LABELS: Record<VersionStatus, string> = {
+  DRAFT: 'Draft',
+  IN_REVIEW: 'In review',
+  APPROVED: 'Approved',
+};
+
+export const ROLLOUT_STATUS_LABELS: Record<RolloutStatus, string> = {
+  SCHEDULED: 'Scheduled',
+  PUBLISHING: 'Publishing',
+  LIVE: 'Live',
+  SUPERSEDED: 'Superseded',
+  ROLLED_BACK: 'Rolled back',
+  CANCELLED: 'Cancelled',
+  FAILED: 'Failed',
+};
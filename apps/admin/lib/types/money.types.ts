@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+// Currencies offered for reporting; any ISO 4217 code with FX rates on file also works
+export const REPORTING_CURRENCIES = ['GBP', 'EUR', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF', 'RON', 'TRY', 'AED', 'USD'] as const;
+
+export const TaxSettingSchema = z.object({
+  country: z.string(),
+  pricesIncludeTax: z.boolean(),
+  standardRate: z.number(),
+  categoryRates: z.array(z.object({
+    categoryId: z.string(),
+    categoryName: z.string(),
+    rate: z.number(),
+  })),
+  updatedBy: z.string(),
+  updatedAt: z.string().datetime(),
+});
+
+export const FxRateSchema = z.object({
+  id: z.string(),
+  base: z.string(),
+  quote: z.string(),
+  // Units of quote currency per one unit of base
+  rate: z.number(),
+  effectiveFrom: z.string().datetime(),
+  source: z.string().nullable(),
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+});
+
+export type TaxSetting = z.infer<typeof TaxSettingSchema>;
+export type FxRate = z.infer<typeof FxRateSchema>;
+
+export interface TaxSettingInput {
+  pricesIncludeTax: boolean;
+  standardRate: number;
+}
+
+export interface FxRateInput {
+  base: string;
+  quote: string;
+  rate: number;
+  effectiveFrom: string;
+  source?: string;
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+export const AgreementStatusSchema = z.enum(['ACTIVE', 'TERMINATED']);
+export const StatementStatusSchema = z.enum(['DRAFT', 'ISSUED']);
+export const RoyaltyLineKindSchema = z.enum(['ROYALTY', 'ROYALTY_MINIMUM', 'MARKETING_FUND', 'MARKETING_MINIMUM', 'ADJUSTMENT']);
+
+export const FranchiseAgreementSchema = z.object({
+  id: z.string(),
+  storeId: z.string(),
+  storeName: z.string(),
+  franchiseeId: z.string(),
+  reference: z.string().nullable(),
+  startDate: z.string().datetime(),
+  // Exclusive: the first day the agreement no longer applies
+  endDate: z.string().datetime(),
+  renewalOptions: z.number(),
+  renewalTermMonths: z.number().nullable(),
+  // Fractions of net sales
+  royaltyRate: z.number(),
+  marketingFundRate: z.number(),
+  minimumMonthlyRoyalty: z.number().nullable(),
+  minimumMonthlyMarketingFee: z.number().nullable(),
+  status: AgreementStatusSchema,
+  notes: z.string().nullable(),
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const RoyaltyStatementLineSchema = z.object({
+  id: z.string(),
+  kind: RoyaltyLineKindSchema,
+  storeId: z.string().nullable(),
+  agreementId: z.string().nullable(),
+  description: z.string(),
+  salesBase: z.number().nullable(),
+  rate: z.number().nullable(),
+  amount: z.number(),
+  createdBy: z.string().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export const RoyaltyStatementSchema = z.object({
+  id: z.string(),
+  franchiseeId: z.string(),
+  // YYYY-MM
+  period: z.string(),
+  currency: z.string(),
+  status: StatementStatusSchema,
+  netSales: z.number(),
+  royaltyTotal: z.number(),
+  adjustmentTotal: z.number(),
+  totalDue: z.number(),
+  generatedBy: z.string(),
+  generatedAt: z.string().datetime(),
+  issuedBy: z.string().nullable(),
+  issuedAt: z.string().datetime().nullable(),
+  lines: z.array(RoyaltyStatementLineSchema),
+});
+
+export type AgreementStatus = z.infer<typeof AgreementStatusSchema>;
+export type StatementStatus = z.infer<typeof StatementStatusSchema>;
+export type RoyaltyLineKind = z.infer<typeof RoyaltyLineKindSchema>;
+export type FranchiseAgreement = z.infer<typeof FranchiseAgreementSchema>;
+export type RoyaltyStatementLine = z.infer<typeof RoyaltyStatementLineSchema>;
+export type RoyaltyStatement = z.infer<typeof RoyaltyStatementSchema>;
+
+export interface AgreementInput {
+  storeId: string;
+  reference?: string;
+  startDate: string;
+  endDate: string;
+  renewalOptions?: number;
+  renewalTermMonths?: number;
+  royaltyRate: number;
+  marketingFundRate?: number;
+  minimumMonthlyRoyalty?: number;
+  minimumMonthlyMarketingFee?: number;
+  notes?: string;
+}
+
+export const ROYALTY_LINE_LABELS: Record<RoyaltyLineKind, string> = {
+  ROYALTY: 'Royalty',
+  ROYALTY_MINIMUM: 'Royalty minimum',
+  MARKETING_FUND: 'Marketing fund',
+  MARKETING_MINIMUM: 'Marketing minimum',
+  ADJUSTMENT: 'Adjustment',
+};
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+
+export const ScheduleKindSchema = z.enum(['forecast', 'store-analysis', 'competitor-refresh', 'franchisee-scores', 'store-anomalies', 'royalty-statements']);
+
+export const CatchUpPolicySchema = z.enum(['ONCE', 'SKIP']);
+
+export const ScheduleParamsSchema = z.object({
+  storeId: z.string().optional(),
+  storeIds: z.array(z.string()).optional(),
+  region: z.string().optional(),
+  country: z.string().optional(),
+  horizonMonths: z.number().int().min(1).max(36).optional(),
+  regenerate: z.boolean().optional(),
+  model: z.enum(['gpt-5.2', 'gpt-5-mini']).optional(),
+  analysisType: z.string().optional(),
+  categories: z.array(z.string()).optional(),
+  status: z.string().optional(),
+});
+
+export const ScheduledJobRunSchema = z.object({
+  id: z.string(),
+  scheduleId: z.string(),
+  scheduledFor: z.string().datetime(),
+  trigger: z.enum(['schedule', 'catch-up', 'manual']),
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled', 'skipped']),
+  jobType: z.string().nullable(),
+  jobId: z.string().nullable(),
+  message: z.string().nullable(),
+  tokensUsed: z.number().nullable(),
+  actor: z.string().nullable(),
+  startedAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+});
+
+export const ScheduledJobSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: ScheduleKindSchema,
+  cron: z.string(),
+  timezone: z.string(),
+  params: ScheduleParamsSchema,
+  enabled: z.boolean(),
+  catchUp: CatchUpPolicySchema,
+  monthlyBudgetUsd: z.number().nullable(),
+  nextRunAt: z.string().datetime().nullable(),
+  lastRunAt: z.string().datetime().nullable(),
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  upcomingRuns: z.array(z.string().datetime()),
+  lastRun: ScheduledJobRunSchema.nullable(),
+  // Estimated LLM spend this month; null for kinds that make no LLM calls
+  monthToDateUsd: z.number().nullable(),
+});
+
+export const CronPreviewSchema = z.object({
+  cron: z.string(),
+  timezone: z.string(),
+  upcomingRuns: z.array(z.string().datetime()),
+});
+
+export const ScheduledJobInputSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  kind: ScheduleKindSchema,
+  cron: z.string().min(1, 'Cron expression is required'),
+  timezone: z.string().optional(),
+  params: ScheduleParamsSchema.optional(),
+  enabled: z.boolean().optional(),
+  catchUp: CatchUpPolicySchema.optional(),
+  monthlyBudgetUsd: z.number().min(0).nullable().optional(),
+});
+
+export type ScheduleKind = z.infer<typeof ScheduleKindSchema>;
+export type ScheduleParams = z.infer<typeof ScheduleParamsSchema>;
+export type ScheduledJobRun = z.infer<typeof ScheduledJobRunSchema>;
+export type ScheduledJob = z.infer<typeof ScheduledJobSchema>;
+export type CronPreview = z.infer<typeof CronPreviewSchema>;
+export type ScheduledJobInput = z.infer<typeof ScheduledJobInputSchema>;
+
+export const SCHEDULE_KIND_LABELS: Record<ScheduleKind, string> = {
+  forecast: 'Revenue forecasts',
+  'store-analysis': 'AI store analysis',
+  'competitor-refresh': 'Competitor refresh',
+  'franchisee-scores': 'Franchisee scores',
+  'store-anomalies': 'Store anomaly scan',
+  'royalty-statements': 'Royalty statements',
+};
+
+/** Kinds whose runs spend LLM tokens and so can carry a monthly budget */
+export const BUDGETED_KINDS: ScheduleKind[] = ['forecast', 'store-analysis'];
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+
+export const PipelineStageSchema = z.enum([
+  'IDENTIFIED',
+  'SHORTLISTED',
+  'SITE_VISIT',
+  'LOI',
+  'LEASE_SIGNED',
+  'BUILD_OUT',
+  'OPENED',
+  'ABANDONED',
+]);
+
+export const StageDefinitionSchema = z.object({
+  stage: PipelineStageSchema,
+  label: z.string(),
+  checklist: z.array(z.object({ key: z.string(), label: z.string() })),
+  terminal: z.boolean(),
+});
+
+export const ChecklistEntrySchema = z.object({
+  completedBy: z.string(),
+  completedAt: z.string(),
+  note: z.string().optional(),
+});
+
+export const PipelineStageChangeSchema = z.object({
+  id: z.string(),
+  fromStage: PipelineStageSchema.nullable(),
+  toStage: PipelineStageSchema,
+  owner: z.string().nullable(),
+  dueDate: z.string().datetime().nullable(),
+  note: z.string().nullable(),
+  changedBy: z.string(),
+  changedAt: z.string().datetime(),
+});
+
+export const PipelineSiteSchema = z.object({
+  id: z.string(),
+  suggestionId: z.string().nullable(),
+  scenarioId: z.string().nullable(),
+  storeId: z.string(),
+  stage: PipelineStageSchema,
+  owner: z.string().nullable(),
+  dueDate: z.string().datetime().nullable(),
+  // JSON-encoded Record<itemKey, ChecklistEntry>; read it with parseChecklist
+  checklist: z.string(),
+  stageEnteredAt: z.string().datetime(),
+  abandonedReason: z.string().nullable(),
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  store: z.object({
+    id: z.string(),
+    name: z.string(),
+    city: z.string().nullable(),
+    country: z.string().nullable(),
+    status: z.string().nullable(),
+    latitude: z.number().nullable(),
+    longitude: z.number().nullable(),
+  }),
+  suggestion: z
+    .object({
+      id: z.string(),
+      confidence: z.number(),
+      band: z.string(),
+      status: z.string(),
+      rationaleText: z.string(),
+    })
+    .nullable(),
+  scenario: z.object({ id: z.string(), label: z.string() }).nullable(),
+  stageChanges: z.array(PipelineStageChangeSchema).optional(),
+});
+
+export const MoveStageSchema = z
+  .object({
+    stage: PipelineStageSchema,
+    owner: z.string().optional(),
+    dueDate: z.string().datetime().optional(),
+    note: z.string().max(1000).optional(),
+    reason: z.string().max(1000).optional(),
+  })
+  .refine((data) => data.stage !== 'ABANDONED' || !!data.reason?.trim(), {
+    message: 'A reason is required to abandon a site',
+    path: ['reason'],
+  });
+
+export type PipelineStage = z.infer<typeof PipelineStageSchema>;
+export type StageDefinition = z.infer<typeof StageDefinitionSchema>;
+export type ChecklistEntry = z.infer<typeof ChecklistEntrySchema>;
+export type PipelineStageChange = z.infer<typeof PipelineStageChangeSchema>;
+export type PipelineSite = z.infer<typeof PipelineSiteSchema>;
+export type MoveStageRequest = z.infer<typeof MoveStageSchema>;
+
+export function parseChecklist(checklist: string): Record<string, ChecklistEntry> {
+  try {
+    const parsed = z.record(ChecklistEntrySchema).safeParse(JSON.parse(checklist));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+export const AlertTypeSchema = z.enum(['REVENUE_DROP', 'CANCELLATION_RATE', 'MISSING_FEED']);
+
+export const AlertSeveritySchema = z.enum(['info', 'warning', 'critical']);
+
+export const AlertStatusSchema = z.enum(['OPEN', 'ACKNOWLEDGED', 'RESOLVED']);
+
+export const StoreAlertSchema = z.object({
+  id: z.string(),
+  storeId: z.string(),
+  type: AlertTypeSchema,
+  severity: AlertSeveritySchema,
+  status: AlertStatusSchema,
+  title: z.string(),
+  message: z.string(),
+  // Figures behind the latest detection, e.g. actualRevenue and forecastLow
+  metrics: z.record(z.union([z.number(), z.string(), z.null()])),
+  occurrences: z.number().int(),
+  firstDetectedAt: z.string().datetime(),
+  lastDetectedAt: z.string().datetime(),
+  acknowledgedBy: z.string().nullable(),
+  acknowledgedAt: z.string().datetime().nullable(),
+  resolvedBy: z.string().nullable(),
+  resolvedAt: z.string().datetime().nullable(),
+  resolution: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  store: z.object({ id: z.string(), name: z.string() }),
+});
+
+export const StoreAlertSummarySchema = z.object({
+  open: z.number(),
+  acknowledged: z.number(),
+  bySeverity: z.record(AlertSeveritySchema, z.number()),
+  byType: z.record(AlertTypeSchema, z.number()),
+  storesAffected: z.number(),
+});
+
+export type AlertType = z.infer<typeof AlertTypeSchema>;
+export type AlertSeverity = z.infer<typeof AlertSeveritySchema>;
+export type AlertStatus = z.infer<typeof AlertStatusSchema>;
+export type StoreAlert = z.infer<typeof StoreAlertSchema>;
+export type StoreAlertSummary = z.infer<typeof StoreAlertSummarySchema>;
+
+export interface StoreAlertQuery {
+  storeId?: string;
+  /** ACTIVE (the default) means OPEN or ACKNOWLEDGED */
+  status?: AlertStatus | 'ACTIVE';
+  severity?: AlertSeverity;
+  type?: AlertType;
+  limit?: number;
+}
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  REVENUE_DROP: 'Revenue drop',
+  CANCELLATION_RATE: 'Cancellations',
+  MISSING_FEED: 'Missing order feed',
+};
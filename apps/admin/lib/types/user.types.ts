@@ -1,12 +1,14 @@
 import { z } from 'zod';
 
-export const UserRoleSchema = z.enum(['ADMIN', 'MANAGER', 'STAFF']);
+export const UserRoleSchema = z.enum(['ADMIN', 'REGIONAL_MANAGER', 'STORE_MANAGER', 'ANALYST', 'STAFF']);
 export type UserRole = z.infer<typeof UserRoleSchema>;
 
 export const UserSchema = z.object({
   id: z.string(),
   email: z.string().email(),
   role: UserRoleSchema,
+  region: z.string().nullable().optional(),
+  country: z.string().nullable().optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
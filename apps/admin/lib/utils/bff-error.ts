@@ -0,0 +1,15 @@
+/**
+ * Message from a BFF error body, which carries either a plain message or a
+ * JSON-encoded { code, message } in `error`.
+ */
+export function bffErrorMessage(body: { error?: string; message?: string } | null, fallback: string): string {
+  if (!body) return fallback;
+  if (body.error) {
+    try {
+      return JSON.parse(body.error).message || body.error;
+    } catch {
+      return body.error;
+    }
+  }
+  return body.message || fallback;
+}
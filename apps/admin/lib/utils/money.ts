@@ -0,0 +1,11 @@
+/** Formats an amount in its currency, falling back to the bare number for unknown codes */
+export function formatMoney(amount: number, currency: string | null | undefined): string {
+  if (!currency) {
+    return amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
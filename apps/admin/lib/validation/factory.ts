@@ -55,7 +55,7 @@ export class ValidationFactory {
    * Creates a validator for user roles
    */
   static createUserRoleValidator(): Validator {
-    const validRoles = ['ADMIN', 'MANAGER', 'STAFF'];
+    const validRoles = ['ADMIN', 'REGIONAL_MANAGER', 'STORE_MANAGER', 'ANALYST', 'STAFF'];
     return Validator.create()
       .required('Role is required')
       .addRule({
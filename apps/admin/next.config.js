@@ -6,6 +6,10 @@ module.exports = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  experimental: {
+    // Both load their data bundles from disk relative to their own directory
+    serverComponentsExternalPackages: ['@subway/geo-boundaries', '@subway/routing'],
+  },
   env: {
     // Force these environment variables to be available
     NEXT_PUBLIC_ENABLE_JOB_PROCESSING: 'true',
@@ -0,0 +1,47 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaClient } from '@prisma/client';
+import { AppModule } from '../module';
+import { EnhancedIntelligenceConfigService } from '../config/enhanced-intelligence.config';
+import { FeatureFlagsService } from '../config/feature-flags.service';
+import { AuditHistoryService } from '../services/audit/audit-history.service';
+
+// Builds the real module graph (only the database is stubbed) so provider
+// wiring that unit tests mock away still has to hold together
+describe('AppModule', () => {
+  let module: TestingModule;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL ??= 'postgresql://localhost:5432/test';
+    process.env.OPENAI_API_KEY ??= 'test-key';
+    module = await Test.createTestingModule({ imports: [AppModule] })
+      .overrideProvider(PrismaClient)
+      .useValue({
+        featureFlag: { findMany: jest.fn().mockRejectedValue(new Error('database unavailable')) },
+        featureFlagTombstone: { findMany: jest.fn().mockRejectedValue(new Error('database unavailable')) },
+      })
+      .compile();
+  });
+
+  afterAll(async () => {
+    await module.close();
+  });
+
+  it('resolves the intelligence config with every section defaulted', () => {
+    const config = module.get(EnhancedIntelligenceConfigService).getConfig();
+
+    expect(config.features).toBeDefined();
+    expect(config.environment.name).toBeDefined();
+  });
+
+  it('initialises feature flags from config when the database is unreachable', async () => {
+    const flags = module.get(FeatureFlagsService);
+
+    await flags.onModuleInit();
+
+    expect(flags.getAllFlags().length).toBeGreaterThan(0);
+  });
+
+  it('resolves services that depend on feature flags', () => {
+    expect(module.get(AuditHistoryService)).toBeInstanceOf(AuditHistoryService);
+  });
+});
@@ -0,0 +1,47 @@
+import { Body, Controller, HttpCode, Post } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { useJsonBodyParsers } from '../body-parsers';
+
+@Controller()
+class UploadController {
+  @Post('/competitors/import')
+  @HttpCode(200)
+  importFile(@Body() body: { content: string }) {
+    return { length: body.content.length };
+  }
+
+  @Post('/stores')
+  @HttpCode(200)
+  createStore(@Body() body: { content: string }) {
+    return { length: body.content.length };
+  }
+}
+
+describe('useJsonBodyParsers', () => {
+  let app: NestExpressApplication;
+  const file = { content: 'x'.repeat(1024 * 1024) };
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({ controllers: [UploadController] }).compile();
+    app = module.createNestApplication<NestExpressApplication>();
+    useJsonBodyParsers(app);
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('accepts a whole file on the competitor import route', async () => {
+    const response = await request(app.getHttpServer()).post('/competitors/import').send(file).expect(200);
+
+    expect(response.body).toEqual({ length: file.content.length });
+  });
+
+  it('keeps the default limit everywhere else', async () => {
+    await request(app.getHttpServer()).post('/stores').send(file).expect(413);
+    await request(app.getHttpServer()).post('/stores').send({ content: 'Soho' }).expect(200);
+  });
+});
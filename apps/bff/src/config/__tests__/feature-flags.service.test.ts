@@ -1,10 +1,78 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaClient } from '@prisma/client';
 import { FeatureFlagsService, FeatureFlag, FeatureFlagCondition } from '../feature-flags.service';
 import { EnhancedIntelligenceConfigService } from '../enhanced-intelligence.config';
 
+interface StoredFlag {
+  id: string;
+  key: string;
+  enabled: boolean;
+  description: string | null;
+  category: string;
+  rolloutPercentage: number | null;
+  conditions: string | null;
+  metadata: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Minimal in-memory stand-in for the Prisma tables the service touches
+function createPrismaMock() {
+  const flags = new Map<string, StoredFlag>();
+  const tombstones = new Map<string, { key: string; deletedBy: string | null }>();
+  const auditEntries: Array<Record<string, unknown>> = [];
+  let nextId = 1;
+
+  return {
+    flags,
+    tombstones,
+    auditEntries,
+    $transaction: jest.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+    featureFlag: {
+      findMany: jest.fn(async () => Array.from(flags.values()).map(flag => ({ ...flag }))),
+      create: jest.fn(async ({ data }: { data: Omit<StoredFlag, 'id' | 'createdAt' | 'updatedAt'> }) => {
+        const record = { ...data, id: `flag-${nextId++}`, createdAt: new Date(), updatedAt: new Date() } as StoredFlag;
+        flags.set(record.key, record);
+        return { ...record };
+      }),
+      update: jest.fn(async ({ where, data }: { where: { key: string }; data: Partial<StoredFlag> }) => {
+        const record = { ...flags.get(where.key)!, ...data, updatedAt: new Date() };
+        flags.set(where.key, record);
+        return { ...record };
+      }),
+      delete: jest.fn(async ({ where }: { where: { key: string } }) => {
+        const record = flags.get(where.key);
+        flags.delete(where.key);
+        return record;
+      }),
+    },
+    featureFlagTombstone: {
+      findMany: jest.fn(async () => Array.from(tombstones.values()).map(tombstone => ({ ...tombstone }))),
+      upsert: jest.fn(async ({ create }: { create: { key: string; deletedBy: string } }) => {
+        tombstones.set(create.key, { ...create });
+        return create;
+      }),
+      deleteMany: jest.fn(async ({ where }: { where: { key: string } }) => ({ count: Number(tombstones.delete(where.key)) })),
+    },
+    auditEntry: {
+      create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        const entry = { id: `audit-${auditEntries.length + 1}`, ...data };
+        auditEntries.push(entry);
+        return entry;
+      }),
+      findMany: jest.fn(async ({ where }: { where: { entityId: { in: string[] } } }) =>
+        auditEntries.filter(entry => where.entityId.in.includes(entry.entityId as string)).reverse()),
+    },
+    telemetryEvent: {
+      create: jest.fn(async () => ({})),
+    },
+  };
+}
+
 describe('FeatureFlagsService', () => {
   let service: FeatureFlagsService;
   let configService: jest.Mocked<EnhancedIntelligenceConfigService>;
+  let prisma: ReturnType<typeof createPrismaMock>;
 
   const mockConfig = {
     features: {
@@ -28,15 +96,19 @@ describe('FeatureFlagsService', () => {
 
   beforeEach(async () => {
     const mockConfigService = {
-      getConfig: jest.fn().mockReturnValue(mockConfig)
+      getConfig: jest.fn().mockReturnValue(mockConfig),
+      getEnvironmentConfig: jest.fn().mockReturnValue(mockConfig.environment)
     };
+    prisma = createPrismaMock();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         FeatureFlagsService,
-        { provide: EnhancedIntelligenceConfigService, useValue: mockConfigService }
+        { provide: EnhancedIntelligenceConfigService, useValue: mockConfigService },
+        { provide: PrismaClient, useValue: prisma }
       ],
     }).compile();
+    await module.init();
 
     service = module.get<FeatureFlagsService>(FeatureFlagsService);
     configService = module.get(EnhancedIntelligenceConfigService);
@@ -575,4 +647,104 @@ describe('FeatureFlagsService', () => {
       expect(evaluation0.enabled).toBe(false);
     });
   });
+
+  describe('Persistence', () => {
+    it('should seed config-defined flags into the database on first sync', async () => {
+      await service.syncFromDatabase();
+
+      expect(prisma.flags.has('demographic_inference')).toBe(true);
+      expect(prisma.flags.get('debug_mode')?.conditions).toBe(
+        JSON.stringify([{ type: 'environment', operator: 'equals', value: 'development' }])
+      );
+
+      // A second sync must not insert duplicates
+      prisma.featureFlag.create.mockClear();
+      await service.syncFromDatabase();
+      expect(prisma.featureFlag.create).not.toHaveBeenCalled();
+    });
+
+    it('should persist created flags with rollout and conditions', async () => {
+      await service.createFlag({
+        name: 'new_checkout',
+        enabled: true,
+        description: 'New checkout flow',
+        category: 'experimental',
+        rolloutPercentage: 25,
+        conditions: [{ type: 'region', operator: 'in', value: ['EMEA'] }]
+      }, 'admin@example.com');
+
+      const stored = prisma.flags.get('new_checkout');
+      expect(stored?.rolloutPercentage).toBe(25);
+      expect(JSON.parse(stored!.conditions!)).toEqual([{ type: 'region', operator: 'in', value: ['EMEA'] }]);
+    });
+
+    it('should pick up changes made by another instance after a resync', async () => {
+      await service.syncFromDatabase();
+      prisma.flags.set('demographic_inference', { ...prisma.flags.get('demographic_inference')!, enabled: false });
+
+      await service.syncFromDatabase();
+
+      expect(await service.isEnabled('demographic_inference')).toBe(false);
+    });
+
+    it('should not seed a deleted config-defined flag again after a restart', async () => {
+      await service.deleteFlag('debug_mode', 'admin@example.com');
+
+      const restarted = new FeatureFlagsService(configService, prisma as unknown as PrismaClient);
+      await restarted.onModuleInit();
+
+      expect(prisma.tombstones.get('debug_mode')?.deletedBy).toBe('admin@example.com');
+      expect(prisma.flags.has('debug_mode')).toBe(false);
+      expect(await restarted.getFlag('debug_mode')).toBeUndefined();
+      expect(await restarted.getFlag('demographic_inference')).toBeDefined();
+    });
+
+    it('should lift the tombstone when a deleted flag is created again', async () => {
+      await service.deleteFlag('debug_mode');
+      await service.createFlag({ name: 'debug_mode', enabled: false, description: 'Back again', category: 'experimental' });
+
+      expect(prisma.tombstones.has('debug_mode')).toBe(false);
+      expect(prisma.flags.get('debug_mode')?.enabled).toBe(false);
+    });
+
+    it('should keep serving cached flags when the database is unavailable', async () => {
+      prisma.featureFlag.findMany.mockRejectedValueOnce(new Error('connection refused'));
+
+      await service.syncFromDatabase();
+
+      expect(await service.isEnabled('demographic_inference')).toBe(true);
+    });
+
+    it('should reject rollout percentages outside 0-100', async () => {
+      await expect(service.updateFlag('demographic_inference', { rolloutPercentage: 150 }))
+        .rejects.toThrow('rolloutPercentage must be an integer between 0 and 100');
+    });
+
+    it('should record change history in the audit log', async () => {
+      await service.updateFlag('demographic_inference', { enabled: false }, 'admin@example.com');
+      await service.updateFlag('demographic_inference', { rolloutPercentage: 50 }, 'admin@example.com');
+
+      const history = await service.getFlagHistory('demographic_inference');
+
+      expect(history.map(entry => entry.action)).toEqual(['FEATURE_FLAG_UPDATE', 'FEATURE_FLAG_TOGGLE']);
+      expect(history[0].actor).toBe('admin@example.com');
+      expect(history[0].diff).toEqual({ rolloutPercentage: { from: null, to: 50 } });
+    });
+  });
+
+  describe('Batch Evaluation', () => {
+    it('should evaluate the requested flags for one context', async () => {
+      const evaluations = await service.evaluateFlags(['demographic_inference', 'viability_assessment'], { userId: 'u1' });
+
+      expect(Object.keys(evaluations)).toEqual(['demographic_inference', 'viability_assessment']);
+      expect(evaluations.demographic_inference.enabled).toBe(true);
+      expect(evaluations.viability_assessment.enabled).toBe(false);
+    });
+
+    it('should evaluate every flag when none are named', async () => {
+      const evaluations = await service.evaluateFlags(undefined);
+
+      expect(Object.keys(evaluations)).toEqual(expect.arrayContaining(['caching', 'telemetry', 'debug_mode']));
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { json } from 'express';
+
+/** Routes that take whole files in a JSON body, with the size each accepts */
+export const LARGE_JSON_BODY_ROUTES: Record<string, string> = {
+  // Competitor imports post whole CSV/GeoJSON files
+  '/competitors/import': '20mb',
+};
+
+/**
+ * Parses JSON bodies with the default 100kb limit, except on the file upload
+ * routes. Must be called before the app is initialised. Nest leaves out its
+ * own JSON parser once one is registered, so the default one is added here
+ * after the route-specific ones, which it skips since they have already
+ * read the body.
+ */
+export function useJsonBodyParsers(app: NestExpressApplication): void {
+  for (const [path, limit] of Object.entries(LARGE_JSON_BODY_ROUTES)) {
+    app.use(path, json({ limit }));
+  }
+  app.useBodyParser('json');
+}
@@ -14,7 +14,7 @@ const IntelligenceConfigSchema = z.object({
     enablePerformanceOptimization: z.boolean().default(true),
     enableTelemetry: z.boolean().default(true),
     enableHealthChecks: z.boolean().default(true)
-  }),
+  }).default({}),
 
   // Performance settings
   performance: z.object({
@@ -24,7 +24,7 @@ const IntelligenceConfigSchema = z.object({
     cacheTimeoutMs: z.number().min(60000).max(86400000).default(3600000), // 1 hour
     maxRetries: z.number().min(0).max(5).default(3),
     retryDelayMs: z.number().min(100).max(10000).default(1000)
-  }),
+  }).default({}),
 
   // Quality thresholds
   thresholds: z.object({
@@ -35,7 +35,7 @@ const IntelligenceConfigSchema = z.object({
     maxErrorRate: z.number().min(0).max(1).default(0.1),
     minCacheHitRate: z.number().min(0).max(1).default(0.7),
     maxResponseTimeMs: z.number().min(100).max(30000).default(5000)
-  }),
+  }).default({}),
 
   // AI provider configuration
   ai: z.object({
@@ -45,7 +45,7 @@ const IntelligenceConfigSchema = z.object({
     maxTokens: z.number().min(100).max(4000).default(1000),
     temperature: z.number().min(0).max(2).default(0.7),
     apiTimeoutMs: z.number().min(5000).max(60000).default(30000)
-  }),
+  }).default({}),
 
   // Cache configuration
   cache: z.object({
@@ -58,7 +58,7 @@ const IntelligenceConfigSchema = z.object({
       lng: z.number(),
       priority: z.number().min(0).max(100).default(50)
     })).default([])
-  }),
+  }).default({}),
 
   // Monitoring and telemetry
   monitoring: z.object({
@@ -70,8 +70,8 @@ const IntelligenceConfigSchema = z.object({
       responseTime: z.number().min(1000).max(30000).default(5000),
       memoryUsage: z.number().min(100).max(2000).default(512), // MB
       cacheHitRate: z.number().min(0).max(1).default(0.7)
-    })
-  }),
+    }).default({})
+  }).default({}),
 
   // Environment-specific settings
   environment: z.object({
@@ -79,7 +79,7 @@ const IntelligenceConfigSchema = z.object({
     logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
     enableDebugMode: z.boolean().default(false),
     enableExperimentalFeatures: z.boolean().default(false)
-  })
+  }).default({})
 });
 
 export type EnhancedIntelligenceConfig = z.infer<typeof IntelligenceConfigSchema>;
@@ -87,7 +87,7 @@ export type EnhancedIntelligenceConfig = z.infer<typeof IntelligenceConfigSchema
 export interface ConfigurationSource {
   name: string;
   priority: number;
-  load(): Promise<Partial<EnhancedIntelligenceConfig>>;
+  load(): Partial<EnhancedIntelligenceConfig>;
 }
 
 @Injectable()
@@ -97,6 +97,11 @@ export class EnhancedIntelligenceConfigService {
   private configSources: ConfigurationSource[] = [];
   private lastReloadTime: Date = new Date();
 
+  /**
+   * Every source is read synchronously so the configuration is complete by the
+   * time the constructor returns; providers such as FeatureFlagsService read it
+   * while the module is being built.
+   */
   constructor() {
     this.initializeConfigSources();
     this.loadConfiguration();
@@ -107,35 +112,35 @@ export class EnhancedIntelligenceConfigService {
     this.configSources.push({
       name: 'environment',
       priority: 100,
-      load: async () => this.loadFromEnvironment()
+      load: () => this.loadFromEnvironment()
     });
 
     // Configuration file source (medium priority)
     this.configSources.push({
       name: 'file',
       priority: 50,
-      load: async () => this.loadFromFile()
+      load: () => this.loadFromFile()
     });
 
     // Default configuration (lowest priority)
     this.configSources.push({
       name: 'defaults',
       priority: 1,
-      load: async () => this.getDefaultConfiguration()
+      load: () => this.getDefaultConfiguration()
     });
 
     // Sort by priority (highest first)
     this.configSources.sort((a, b) => b.priority - a.priority);
   }
 
-  private async loadConfiguration(): Promise<void> {
+  private loadConfiguration(): void {
     try {
       let mergedConfig: Partial<EnhancedIntelligenceConfig> = {};
 
       // Load from all sources in priority order
       for (const source of this.configSources) {
         try {
-          const sourceConfig = await source.load();
+          const sourceConfig = source.load();
           mergedConfig = this.mergeConfigurations(mergedConfig, sourceConfig);
           this.logger.debug(`Loaded configuration from source: ${source.name}`);
         } catch (error) {
@@ -227,6 +232,16 @@ export class EnhancedIntelligenceConfigService {
     const retryDelayMs = this.parseNumberEnv('INTELLIGENCE_RETRY_DELAY_MS');
     if (retryDelayMs !== undefined) performance.retryDelayMs = retryDelayMs;
 
+    // Thresholds
+    const minCommercialViabilityScore = this.parseNumberEnv('INTELLIGENCE_MIN_COMMERCIAL_VIABILITY_SCORE');
+    if (minCommercialViabilityScore !== undefined) thresholds.minCommercialViabilityScore = minCommercialViabilityScore;
+    
+    const minMarketFitScore = this.parseNumberEnv('INTELLIGENCE_MIN_MARKET_FIT_SCORE');
+    if (minMarketFitScore !== undefined) thresholds.minMarketFitScore = minMarketFitScore;
+    
+    const minConfidenceScore = this.parseNumberEnv('INTELLIGENCE_MIN_CONFIDENCE_SCORE');
+    if (minConfidenceScore !== undefined) thresholds.minConfidenceScore = minConfidenceScore;
+
     // AI
     if (process.env.INTELLIGENCE_AI_PROVIDER) ai.provider = process.env.INTELLIGENCE_AI_PROVIDER as 'openai' | 'anthropic';
     if (process.env.INTELLIGENCE_DEMOGRAPHIC_MODEL) ai.demographicInferenceModel = process.env.INTELLIGENCE_DEMOGRAPHIC_MODEL;
@@ -275,7 +290,7 @@ export class EnhancedIntelligenceConfigService {
     return config;
   }
 
-  private async loadFromFile(): Promise<Partial<EnhancedIntelligenceConfig>> {
+  private loadFromFile(): Partial<EnhancedIntelligenceConfig> {
     try {
       // In a real implementation, this would load from a configuration file
       // For now, return empty configuration
@@ -316,7 +331,11 @@ export class EnhancedIntelligenceConfigService {
   private parseBooleanEnv(key: string): boolean | undefined {
     const value = process.env[key];
     if (value === undefined) return undefined;
-    return value.toLowerCase() === 'true';
+    // Anything other than true/false (including "undefined" or "1") falls back to the default
+    const normalized = value.toLowerCase();
+    if (normalized === 'true') return true;
+    if (normalized === 'false') return false;
+    return undefined;
   }
 
   private parseNumberEnv(key: string): number | undefined {
@@ -405,7 +424,7 @@ export class EnhancedIntelligenceConfigService {
   // Configuration reload
   async reloadConfiguration(): Promise<void> {
     this.logger.log('Reloading intelligence configuration...');
-    await this.loadConfiguration();
+    this.loadConfiguration();
   }
 
   // Configuration validation
@@ -1,14 +1,19 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { FeatureFlag as FeatureFlagRecord, PrismaClient } from '@prisma/client';
 import { EnhancedIntelligenceConfigService } from './enhanced-intelligence.config';
+import { createComprehensiveLoggingUtil } from '../util/comprehensive-logging.util';
 
 export interface FeatureFlag {
+  id?: string;
   name: string;
   enabled: boolean;
   description: string;
-  category: 'intelligence' | 'performance' | 'monitoring' | 'experimental';
-  rolloutPercentage?: number;
+  category: 'general' | 'intelligence' | 'performance' | 'monitoring' | 'experimental';
+  rolloutPercentage?: number | null;
   conditions?: FeatureFlagCondition[];
   metadata?: Record<string, any>;
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
 export interface FeatureFlagCondition {
@@ -25,20 +30,48 @@ export interface FeatureFlagEvaluation {
   context?: Record<string, any>;
 }
 
+export interface FeatureFlagHistoryEntry {
+  id: string;
+  actor: string;
+  action: string;
+  diff: Record<string, unknown> | null;
+  timestamp: Date;
+}
+
+/**
+ * Single source of truth for feature flags. Flags live in the FeatureFlag table;
+ * the map below is a per-instance read cache that is re-synced every
+ * `syncIntervalMs` so that changes made through another instance (or the
+ * settings screens) are picked up. Flags defined in the intelligence config are
+ * seeded into the table the first time they are missing; deleting one leaves a
+ * FeatureFlagTombstone so it is not seeded again.
+ */
 @Injectable()
-export class FeatureFlagsService {
+export class FeatureFlagsService implements OnModuleInit {
   private readonly logger = new Logger(FeatureFlagsService.name);
   private flags: Map<string, FeatureFlag> = new Map();
   private evaluationCache: Map<string, FeatureFlagEvaluation> = new Map();
   private readonly cacheTimeoutMs = 60000; // 1 minute
+  private readonly syncIntervalMs = 30000;
+  private lastSyncedAt = 0;
+  private syncInFlight: Promise<void> | null = null;
+  private initialized = false;
 
   constructor(
-    private readonly configService: EnhancedIntelligenceConfigService
-  ) {
+    private readonly configService: EnhancedIntelligenceConfigService,
+    @Inject(PrismaClient) private readonly prisma: PrismaClient
+  ) {}
+
+  async onModuleInit(): Promise<void> {
     this.initializeFlags();
+    await this.syncFromDatabase();
   }
 
+  /** Fills the cache with the config-defined flags; runs once, before the first sync */
   private initializeFlags(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
     const config = this.configService.getConfig();
     
     // Initialize feature flags from configuration
@@ -133,11 +166,138 @@ export class FeatureFlagsService {
     this.logger.log(`Initialized ${flags.length} feature flags`);
   }
 
+  /**
+   * Loads every flag from the database, inserting config-defined flags that
+   * are neither stored nor deleted. Keeps the current cache if the database
+   * is unreachable.
+   */
+  async syncFromDatabase(): Promise<void> {
+    if (this.syncInFlight) {
+      return this.syncInFlight;
+    }
+
+    this.syncInFlight = (async () => {
+      try {
+        const [records, tombstones] = await Promise.all([
+          this.prisma.featureFlag.findMany(),
+          this.prisma.featureFlagTombstone.findMany({ select: { key: true } }),
+        ]);
+        const storedKeys = new Set([...records, ...tombstones].map(record => record.key));
+
+        for (const flag of this.flags.values()) {
+          if (flag.id || storedKeys.has(flag.name)) continue;
+          records.push(await this.prisma.featureFlag.create({ data: this.toRecordData(flag) }));
+        }
+
+        this.flags = new Map(records.map(record => [record.key, this.fromRecord(record)]));
+        this.evaluationCache.clear();
+        this.lastSyncedAt = Date.now();
+      } catch (error) {
+        this.logger.warn(`Failed to sync feature flags from database: ${error instanceof Error ? error.message : error}`);
+        // Back off until the next interval rather than hitting the database on every evaluation
+        this.lastSyncedAt = Date.now();
+      } finally {
+        this.syncInFlight = null;
+      }
+    })();
+
+    return this.syncInFlight;
+  }
+
+  private async ensureFresh(): Promise<void> {
+    this.initializeFlags();
+    if (Date.now() - this.lastSyncedAt > this.syncIntervalMs) {
+      await this.syncFromDatabase();
+    }
+  }
+
+  private fromRecord(record: FeatureFlagRecord): FeatureFlag {
+    return {
+      id: record.id,
+      name: record.key,
+      enabled: record.enabled,
+      description: record.description ?? '',
+      category: record.category as FeatureFlag['category'],
+      rolloutPercentage: record.rolloutPercentage ?? undefined,
+      conditions: record.conditions ? JSON.parse(record.conditions) : undefined,
+      metadata: record.metadata ? JSON.parse(record.metadata) : undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private toRecordData(flag: FeatureFlag) {
+    return {
+      key: flag.name,
+      enabled: flag.enabled,
+      description: flag.description || null,
+      category: flag.category,
+      rolloutPercentage: flag.rolloutPercentage ?? null,
+      conditions: flag.conditions && flag.conditions.length > 0 ? JSON.stringify(flag.conditions) : null,
+      metadata: flag.metadata ? JSON.stringify(flag.metadata) : null,
+    };
+  }
+
+  /** The audited fields of a flag, as stored in its audit trail */
+  snapshot(flag: FeatureFlag): Record<string, unknown> {
+    return {
+      enabled: flag.enabled,
+      description: flag.description,
+      category: flag.category,
+      rolloutPercentage: flag.rolloutPercentage ?? null,
+      conditions: flag.conditions ?? [],
+    };
+  }
+
+  private validateFlag(flag: FeatureFlag): void {
+    if (!flag.name || !/^[A-Za-z][A-Za-z0-9_.-]*$/.test(flag.name)) {
+      throw new Error(`Invalid flag name '${flag.name}'`);
+    }
+    if (
+      flag.rolloutPercentage !== undefined &&
+      flag.rolloutPercentage !== null &&
+      (!Number.isInteger(flag.rolloutPercentage) || flag.rolloutPercentage < 0 || flag.rolloutPercentage > 100)
+    ) {
+      throw new Error('rolloutPercentage must be an integer between 0 and 100');
+    }
+    if (flag.conditions !== undefined && !Array.isArray(flag.conditions)) {
+      throw new Error('conditions must be an array');
+    }
+  }
+
+  private async recordChange(
+    actor: string,
+    action: 'CREATE' | 'UPDATE' | 'TOGGLE' | 'DELETE' | 'REVERT',
+    flag: FeatureFlag,
+    oldFlag?: FeatureFlag,
+    newFlag?: FeatureFlag,
+    revertedEntryId?: string
+  ): Promise<void> {
+    await createComprehensiveLoggingUtil(this.prisma).logUserAction({
+      userId: actor,
+      action: `FEATURE_FLAG_${action}`,
+      entity: 'FeatureFlag',
+      entityId: flag.id ?? flag.name,
+      oldData: oldFlag ? this.snapshot(oldFlag) : undefined,
+      newData: newFlag ? this.snapshot(newFlag) : undefined,
+      metadata: { flagKey: flag.name, ...(revertedEntryId && { revertedEntryId }) },
+      telemetryEventType: 'feature_flag_changed',
+      telemetryProperties: {
+        flagKey: flag.name,
+        operation: action,
+        oldValue: oldFlag?.enabled,
+        newValue: newFlag?.enabled,
+      },
+    });
+  }
+
   // Evaluate a feature flag for a given context
   async evaluateFlag(
     flagName: string, 
     context: Record<string, any> = {}
   ): Promise<FeatureFlagEvaluation> {
+    await this.ensureFresh();
+
     const cacheKey = this.generateCacheKey(flagName, context);
     
     // Check cache first
@@ -187,8 +347,8 @@ export class FeatureFlagsService {
     }
 
     // Check rollout percentage
-    if (flag.rolloutPercentage !== undefined) {
-      const rolloutCheck = this.checkRolloutPercentage(flag.rolloutPercentage, context);
+    if (flag.rolloutPercentage !== undefined && flag.rolloutPercentage !== null) {
+      const rolloutCheck = this.checkRolloutPercentage(flag.name, flag.rolloutPercentage, context);
       if (!rolloutCheck.enabled) {
         evaluation.enabled = false;
         evaluation.reason = rolloutCheck.reason;
@@ -213,12 +373,14 @@ export class FeatureFlagsService {
   }
 
   private checkRolloutPercentage(
+    flagName: string,
     percentage: number, 
     context: Record<string, any>
   ): { enabled: boolean; reason: string } {
-    // Use user ID or session ID for consistent rollout
+    // Use user ID or session ID for consistent rollout; salting with the flag
+    // name keeps two flags at the same percentage from picking the same users
     const identifier = context.userId || context.sessionId || 'anonymous';
-    const hash = this.simpleHash(identifier);
+    const hash = this.simpleHash(`${flagName}:${identifier}`);
     const rolloutValue = hash % 100;
     
     if (rolloutValue < percentage) {
@@ -311,6 +473,51 @@ export class FeatureFlagsService {
     return this.evaluateFlag(flagName, context);
   }
 
+  /**
+   * Evaluates several flags (all of them when no names are given) for one context.
+   */
+  async evaluateFlags(
+    flagNames: string[] | undefined,
+    context: Record<string, unknown> = {}
+  ): Promise<Record<string, FeatureFlagEvaluation>> {
+    await this.ensureFresh();
+
+    const names = flagNames && flagNames.length > 0 ? flagNames : Array.from(this.flags.keys());
+    const evaluations = await Promise.all(names.map(name => this.evaluateFlag(name, context)));
+
+    return Object.fromEntries(evaluations.map(evaluation => [evaluation.flagName, evaluation]));
+  }
+
+  async listFlags(): Promise<FeatureFlag[]> {
+    await this.ensureFresh();
+    return this.getAllFlags().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getFlag(flagName: string): Promise<FeatureFlag | undefined> {
+    await this.ensureFresh();
+    return this.flags.get(flagName);
+  }
+
+  async getFlagHistory(flagName: string, limit = 50): Promise<FeatureFlagHistoryEntry[]> {
+    const flag = await this.getFlag(flagName);
+    const entries = await this.prisma.auditEntry.findMany({
+      where: {
+        entity: 'FeatureFlag',
+        entityId: { in: flag?.id ? [flag.id, flagName] : [flagName] },
+      },
+      orderBy: { timestamp: 'desc' },
+      take: limit,
+    });
+
+    return entries.map(entry => ({
+      id: entry.id,
+      actor: entry.actor,
+      action: entry.action,
+      diff: entry.diff ? JSON.parse(entry.diff) : null,
+      timestamp: entry.timestamp,
+    }));
+  }
+
   getAllFlags(): FeatureFlag[] {
     return Array.from(this.flags.values());
   }
@@ -320,37 +527,89 @@ export class FeatureFlagsService {
   }
 
   // Flag management
-  async updateFlag(flagName: string, updates: Partial<FeatureFlag>): Promise<void> {
+  /**
+   * Pass revertedEntryId when the update restores an earlier version from the
+   * audit trail, so the change is recorded as a revert.
+   */
+  async updateFlag(
+    flagName: string,
+    updates: Partial<FeatureFlag>,
+    actor = 'system',
+    revertedEntryId?: string
+  ): Promise<FeatureFlag> {
+    await this.ensureFresh();
     const existingFlag = this.flags.get(flagName);
     if (!existingFlag) {
       throw new Error(`Flag '${flagName}' not found`);
     }
 
-    const updatedFlag = { ...existingFlag, ...updates };
+    const changes: Partial<FeatureFlag> = { ...updates };
+    delete changes.id;
+    delete changes.name;
+    delete changes.createdAt;
+    delete changes.updatedAt;
+    const merged: FeatureFlag = { ...existingFlag, ...changes, name: flagName };
+    this.validateFlag(merged);
+
+    const record = await this.prisma.featureFlag.update({
+      where: { key: flagName },
+      data: this.toRecordData(merged),
+    });
+    const updatedFlag = this.fromRecord(record);
     this.flags.set(flagName, updatedFlag);
     
     // Clear related cache entries
     this.clearFlagCache(flagName);
+
+    const onlyToggled = Object.keys(changes).every(key => key === 'enabled');
+    const action = revertedEntryId ? 'REVERT' : onlyToggled ? 'TOGGLE' : 'UPDATE';
+    await this.recordChange(actor, action, updatedFlag, existingFlag, updatedFlag, revertedEntryId);
     
     this.logger.log(`Feature flag updated: ${flagName}`, updates);
+    return updatedFlag;
   }
 
-  async createFlag(flag: FeatureFlag): Promise<void> {
+  async createFlag(flag: FeatureFlag, actor = 'system'): Promise<FeatureFlag> {
+    await this.ensureFresh();
     if (this.flags.has(flag.name)) {
       throw new Error(`Flag '${flag.name}' already exists`);
     }
+    this.validateFlag(flag);
+
+    // Recreating a deleted flag lifts its tombstone
+    const [, record] = await this.prisma.$transaction([
+      this.prisma.featureFlagTombstone.deleteMany({ where: { key: flag.name } }),
+      this.prisma.featureFlag.create({ data: this.toRecordData(flag) }),
+    ]);
+    const createdFlag = this.fromRecord(record);
+    this.flags.set(createdFlag.name, createdFlag);
+    this.clearFlagCache(createdFlag.name);
+
+    await this.recordChange(actor, 'CREATE', createdFlag, undefined, createdFlag);
 
-    this.flags.set(flag.name, flag);
     this.logger.log(`Feature flag created: ${flag.name}`);
+    return createdFlag;
   }
 
-  async deleteFlag(flagName: string): Promise<void> {
-    if (!this.flags.has(flagName)) {
+  async deleteFlag(flagName: string, actor = 'system'): Promise<void> {
+    await this.ensureFresh();
+    const existingFlag = this.flags.get(flagName);
+    if (!existingFlag) {
       throw new Error(`Flag '${flagName}' not found`);
     }
 
+    await this.prisma.$transaction([
+      this.prisma.featureFlag.delete({ where: { key: flagName } }),
+      this.prisma.featureFlagTombstone.upsert({
+        where: { key: flagName },
+        create: { key: flagName, deletedBy: actor },
+        update: { deletedBy: actor, deletedAt: new Date() },
+      }),
+    ]);
     this.flags.delete(flagName);
     this.clearFlagCache(flagName);
+
+    await this.recordChange(actor, 'DELETE', existingFlag, existingFlag);
     this.logger.log(`Feature flag deleted: ${flagName}`);
   }
 
@@ -436,6 +695,7 @@ export class FeatureFlagsService {
       cacheSize,
       details: {
         flagsByCategory: {
+          general: this.getFlagsByCategory('general').length,
           intelligence: this.getFlagsByCategory('intelligence').length,
           performance: this.getFlagsByCategory('performance').length,
           monitoring: this.getFlagsByCategory('monitoring').length,
@@ -0,0 +1,21 @@
+// DTOs for the entity history API
+import { IsDateString, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class EntityHistoryQueryDto {
+  /** Also reconstruct the entity as it was at this time */
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
+
+export class RevertEntityDto {
+  /** Audit entry whose resulting state is restored */
+  @IsString()
+  @IsNotEmpty()
+  entryId: string;
+
+  /** Newest entry the caller has seen; the revert is refused if there is a newer one */
+  @IsOptional()
+  @IsString()
+  expectedLatestEntryId?: string;
+}
@@ -0,0 +1,9 @@
+// DTOs for board pack exports
+import { IsIn, IsOptional } from 'class-validator';
+import { BoardPackFormat } from '../services/board-pack/board-pack.types';
+
+export class BoardPackQueryDto {
+  @IsOptional()
+  @IsIn(['pdf', 'pptx'])
+  format?: BoardPackFormat;
+}
@@ -0,0 +1,128 @@
+// DTOs for competitor file imports, refresh jobs and change reports
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { CompetitorFileFormat } from '../services/competitive/competitor-file-parser';
+
+const FILE_FORMATS: CompetitorFileFormat[] = ['csv', 'geojson'];
+
+export class ImportCompetitorsDto {
+  @IsIn(FILE_FORMATS)
+  format: CompetitorFileFormat;
+
+  /** The file's text; CSV may be comma, semicolon or tab separated */
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+
+  /** Who the data came from, e.g. "osm" or a vendor name; closures only touch places this source has reported */
+  @IsString()
+  @Matches(/^[a-z0-9][a-z0-9_-]*$/, { message: 'source must be lowercase letters, digits, - or _' })
+  @MaxLength(50)
+  source: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  fileName?: string;
+
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+
+  /** The file is the complete list for its brands in the region or country; places missing from it are closed */
+  @IsOptional()
+  @IsBoolean()
+  closeMissing?: boolean;
+
+  /** Report what would change without writing anything */
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class BoundingBoxDto {
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  north: number;
+
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  south: number;
+
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  east: number;
+
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  west: number;
+}
+
+export class RefreshCompetitorsDto {
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BoundingBoxDto)
+  boundingBox?: BoundingBoxDto;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  categories?: string[];
+}
+
+export class CompetitorChangesQueryDto {
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+
+  /** Defaults to one month ago */
+  @IsOptional()
+  @IsDateString()
+  since?: string;
+}
+
+export class CompetitorImportsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,92 @@
+// DTOs for the experiments API
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PriceRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  menuItemName: string;
+
+  @IsIn(['FIXED', 'PERCENT'])
+  type: 'FIXED' | 'PERCENT';
+
+  @IsNumber()
+  value: number;
+}
+
+export class ExperimentVariantDto {
+  @IsString()
+  @IsNotEmpty()
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isControl?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  weight?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  storeIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PriceRuleDto)
+  priceRules?: PriceRuleDto[];
+}
+
+export class ExperimentDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  storeIds: string[];
+
+  @IsArray()
+  @ArrayMinSize(2)
+  @ValidateNested({ each: true })
+  @Type(() => ExperimentVariantDto)
+  variants: ExperimentVariantDto[];
+}
+
+export class StopExperimentDto {
+  @IsOptional()
+  @IsIn(['COMPLETED', 'CANCELLED'])
+  outcome?: 'COMPLETED' | 'CANCELLED';
+}
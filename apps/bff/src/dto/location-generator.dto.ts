@@ -0,0 +1,59 @@
+// DTOs for the location-generator diagnostics API
+import { IsDateString, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class GeneratorBacktestDto {
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  @IsDateString()
+  openedSince: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  targetK?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(50)
+  distanceThresholdKm?: number;
+}
+
+export class ParetoQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  minK?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  maxK?: number;
+}
+
+export class StabilityQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  targetK?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(10)
+  @Max(200)
+  iterations?: number;
+}
+
+export class CounterfactualQueryDto {
+  @IsOptional()
+  @IsString()
+  siteId?: string;
+}
@@ -0,0 +1,290 @@
+// DTOs for the master menu and menu versions API
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { OVERRIDE_LEVELS, OverrideLevel } from '../services/menu/menu-resolver';
+
+export class MasterMenuItemDto {
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  @MinLength(1)
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Max(999.99)
+  price: number;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categoryIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  modifierGroupIds?: string[];
+}
+
+/** Fields sent as null, or left out, inherit from the level above */
+export class MenuOverrideDto {
+  @IsIn(OVERRIDE_LEVELS)
+  level: OverrideLevel;
+
+  /** Country or region name, or store id for STORE */
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  @MinLength(1)
+  scope: string;
+
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsBoolean()
+  available?: boolean | null;
+
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Max(999.99)
+  price?: number | null;
+
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsArray()
+  @IsString({ each: true })
+  categoryIds?: string[] | null;
+
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsArray()
+  @IsString({ each: true })
+  modifierGroupIds?: string[] | null;
+}
+
+export class MenuPublishDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  storeIds?: string[];
+
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  masterItemIds?: string[];
+}
+
+export class CreateMenuVersionDto {
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  @MinLength(1)
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+
+  @IsOptional()
+  @IsString()
+  fromVersionId?: string;
+}
+
+export class UpdateMenuVersionDto {
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  @MinLength(1)
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class VersionItemPatchDto {
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  @MinLength(1)
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Max(999.99)
+  price?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categoryIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  modifierGroupIds?: string[];
+}
+
+export class VersionCategoryPatchDto {
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  @MinLength(1)
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sortOrder?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class VersionModifierPatchDto {
+  @IsString()
+  id: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(-999.99)
+  @Max(999.99)
+  priceAdjustment?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class VersionModifierGroupPatchDto {
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  @MinLength(1)
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minSelection?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxSelection?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => VersionModifierPatchDto)
+  modifiers?: VersionModifierPatchDto[];
+}
+
+export class VersionReviewDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class VersionDiffQueryDto {
+  @IsString()
+  from: string;
+
+  @IsString()
+  to: string;
+}
+
+export class MarketQueryDto {
+  /** Country as written on Store */
+  @IsString()
+  @MinLength(1)
+  market: string;
+}
+
+export class ListRolloutsQueryDto {
+  @IsOptional()
+  @IsString()
+  market?: string;
+}
+
+export class ScheduleRolloutDto {
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  @MinLength(1)
+  market: string;
+
+  /** Publishes straight away when omitted or already passed */
+  @IsOptional()
+  @IsDateString()
+  goLiveAt?: string;
+}
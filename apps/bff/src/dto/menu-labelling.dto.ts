@@ -0,0 +1,135 @@
+// DTOs for the menu allergen and nutrition labelling API
+import { IsArray, IsIn, IsNumber, IsOptional, IsString, Min, ValidateNested } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { Allergen, EU_ALLERGENS } from '../services/menu/labelling';
+
+/** Nutrition per serving; energy in kcal and kJ, the rest in grams */
+export class NutritionDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  energyKcal?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  energyKj?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fat?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  saturates?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  carbohydrate?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  sugars?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fibre?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  protein?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  salt?: number;
+}
+
+/** A modifier's change to nutrition per serving; negative for removals */
+export class NutritionDeltaDto {
+  @IsOptional()
+  @IsNumber()
+  energyKcal?: number;
+
+  @IsOptional()
+  @IsNumber()
+  energyKj?: number;
+
+  @IsOptional()
+  @IsNumber()
+  fat?: number;
+
+  @IsOptional()
+  @IsNumber()
+  saturates?: number;
+
+  @IsOptional()
+  @IsNumber()
+  carbohydrate?: number;
+
+  @IsOptional()
+  @IsNumber()
+  sugars?: number;
+
+  @IsOptional()
+  @IsNumber()
+  fibre?: number;
+
+  @IsOptional()
+  @IsNumber()
+  protein?: number;
+
+  @IsOptional()
+  @IsNumber()
+  salt?: number;
+}
+
+export class ItemLabellingDto {
+  /** null clears the declaration */
+  @IsOptional()
+  @IsArray()
+  @IsIn(EU_ALLERGENS, { each: true })
+  allergens?: Allergen[] | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(EU_ALLERGENS, { each: true })
+  mayContain?: Allergen[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionDto)
+  nutrition?: NutritionDto | null;
+}
+
+export class ModifierLabellingDto {
+  @IsOptional()
+  @IsArray()
+  @IsIn(EU_ALLERGENS, { each: true })
+  allergensAdded?: Allergen[];
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(EU_ALLERGENS, { each: true })
+  allergensRemoved?: Allergen[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionDeltaDto)
+  nutritionDelta?: NutritionDeltaDto | null;
+}
+
+export class LabellingProfileQueryDto {
+  /** Comma-separated modifier ids */
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',').filter(Boolean) : value))
+  @IsArray()
+  @IsString({ each: true })
+  modifierIds?: string[];
+}
@@ -0,0 +1,73 @@
+// DTOs for the tax and FX rate API
+import { IsBoolean, IsDateString, IsNotEmpty, IsNumber, IsOptional, IsString, Length, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class TaxSettingDto {
+  @IsOptional()
+  @IsBoolean()
+  pricesIncludeTax?: boolean;
+
+  /** Fraction, e.g. 0.2 for 20% */
+  @IsNumber()
+  @Min(0)
+  @Max(0.99)
+  standardRate!: number;
+}
+
+export class TaxCategoryRateDto {
+  @IsNumber()
+  @Min(0)
+  @Max(0.99)
+  rate!: number;
+}
+
+export class FxRateDto {
+  @IsString()
+  @Length(3, 3)
+  base!: string;
+
+  @IsString()
+  @Length(3, 3)
+  quote!: string;
+
+  /** Units of quote currency per one unit of base */
+  @IsNumber()
+  @Min(0)
+  rate!: number;
+
+  @IsDateString()
+  effectiveFrom!: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  source?: string;
+}
+
+export class FxRateQueryDto {
+  @IsOptional()
+  @IsString()
+  base?: string;
+
+  @IsOptional()
+  @IsString()
+  quote?: string;
+}
+
+export class FxConvertQueryDto {
+  @Type(() => Number)
+  @IsNumber()
+  amount!: number;
+
+  @IsString()
+  @Length(3, 3)
+  from!: string;
+
+  @IsString()
+  @Length(3, 3)
+  to!: string;
+
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
@@ -0,0 +1,61 @@
+// DTOs for the routing API
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, ArrayMinSize, IsIn, IsInt, IsLatitude, IsLongitude, IsNumber, IsOptional, Max, Min, ValidateNested } from 'class-validator';
+import { TRAVEL_MODES, TravelMode } from '@subway/routing';
+
+export class LatLngDto {
+  @Type(() => Number)
+  @IsLatitude()
+  lat: number;
+
+  @Type(() => Number)
+  @IsLongitude()
+  lng: number;
+}
+
+export class IsochroneQueryDto extends LatLngDto {
+  @IsOptional()
+  @IsIn(TRAVEL_MODES)
+  mode?: TravelMode;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  minutes?: number;
+}
+
+export class TravelTimesDto {
+  @ValidateNested()
+  @Type(() => LatLngDto)
+  origin: LatLngDto;
+
+  @ValidateNested({ each: true })
+  @Type(() => LatLngDto)
+  @ArrayMinSize(1)
+  @ArrayMaxSize(1000)
+  destinations: LatLngDto[];
+
+  @IsOptional()
+  @IsIn(TRAVEL_MODES)
+  mode?: TravelMode;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(120)
+  maxMinutes?: number;
+}
+
+export class TradeAreaIsochroneDto {
+  @IsOptional()
+  @IsIn(TRAVEL_MODES)
+  mode?: TravelMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  minutes?: number;
+}
@@ -0,0 +1,135 @@
+// DTOs for the franchise agreement and royalty statement API
+import { IsDateString, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Matches, Max, MaxLength, Min } from 'class-validator';
+
+export class CreateAgreementDto {
+  @IsString()
+  @IsNotEmpty()
+  storeId!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+
+  @IsDateString()
+  startDate!: string;
+
+  /** First day the agreement no longer applies */
+  @IsDateString()
+  endDate!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  renewalOptions?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(240)
+  renewalTermMonths?: number;
+
+  /** Fraction of net sales, e.g. 0.06 for 6% */
+  @IsNumber()
+  @Min(0)
+  @Max(0.99)
+  royaltyRate!: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(0.99)
+  marketingFundRate?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minimumMonthlyRoyalty?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minimumMonthlyMarketingFee?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class UpdateAgreementDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  renewalOptions?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(240)
+  renewalTermMonths?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(0.99)
+  royaltyRate?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(0.99)
+  marketingFundRate?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minimumMonthlyRoyalty?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minimumMonthlyMarketingFee?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class TerminateAgreementDto {
+  /** Royalties stop accruing from this date */
+  @IsDateString()
+  endDate!: string;
+}
+
+export class GenerateStatementsDto {
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'period must be YYYY-MM' })
+  period!: string;
+}
+
+export class StatementAdjustmentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  description!: string;
+
+  /** Positive to charge more, negative to credit the franchisee */
+  @IsNumber()
+  amount!: number;
+}
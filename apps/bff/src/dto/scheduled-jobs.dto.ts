@@ -0,0 +1,110 @@
+// DTOs for the scheduled jobs API
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SCHEDULE_KINDS, ScheduleKind } from '../services/jobs/scheduled-job.service';
+
+/** Scope for the job; which fields apply depends on the schedule's kind */
+export class ScheduleParamsDto {
+  @IsOptional()
+  @IsString()
+  storeId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  storeIds?: string[];
+
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(36)
+  horizonMonths?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  regenerate?: boolean;
+
+  @IsOptional()
+  @IsIn(['gpt-5.2', 'gpt-5-mini'])
+  model?: 'gpt-5.2' | 'gpt-5-mini';
+
+  @IsOptional()
+  @IsString()
+  analysisType?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categories?: string[];
+
+  @IsOptional()
+  @IsString()
+  status?: string;
+}
+
+export class ScheduledJobDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsIn(SCHEDULE_KINDS)
+  kind: ScheduleKind;
+
+  /** Five-field cron expression or @daily-style shorthand */
+  @IsString()
+  @IsNotEmpty()
+  cron: string;
+
+  /** IANA zone the cron expression is read in; defaults to UTC */
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScheduleParamsDto)
+  params?: ScheduleParamsDto;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsIn(['ONCE', 'SKIP'])
+  catchUp?: 'ONCE' | 'SKIP';
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  monthlyBudgetUsd?: number | null;
+}
+
+export class CronPreviewQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  cron: string;
+
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+}
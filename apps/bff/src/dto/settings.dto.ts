@@ -1,5 +1,6 @@
-import { IsString, IsBoolean, IsOptional, IsEmail, IsIn } from 'class-validator';
+import { IsString, IsBoolean, IsOptional, IsEmail, IsIn, IsInt, Min, Max, IsArray, IsObject } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { USER_ROLES } from '../types/auth.types';
 
 // User Management DTOs
 export class CreateUserDto {
@@ -8,9 +9,17 @@ export class CreateUserDto {
   email: string;
 
   @IsString()
-  @IsIn(['ADMIN', 'MANAGER', 'STAFF'])
+  @IsIn([...USER_ROLES])
   role: string;
 
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+
   @IsOptional()
   @IsString()
   @Transform(({ value }) => value?.trim())
@@ -34,9 +43,17 @@ export class UpdateUserDto {
 
   @IsOptional()
   @IsString()
-  @IsIn(['ADMIN', 'MANAGER', 'STAFF'])
+  @IsIn([...USER_ROLES])
   role?: string;
 
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+
   @IsOptional()
   @IsString()
   @Transform(({ value }) => value?.trim())
@@ -80,12 +97,69 @@ export class AuditLogQueryDto {
 }
 
 // Feature Flag DTOs
+const FEATURE_FLAG_CATEGORIES = ['general', 'intelligence', 'performance', 'monitoring', 'experimental'];
+
+export class CreateFeatureFlagDto {
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  key: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => value?.trim())
+  description?: string;
+
+  @IsOptional()
+  @IsIn(FEATURE_FLAG_CATEGORIES)
+  category?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  rolloutPercentage?: number;
+
+  @IsOptional()
+  @IsArray()
+  conditions?: Record<string, unknown>[];
+}
+
 export class UpdateFeatureFlagDto {
+  @IsOptional()
   @IsBoolean()
-  enabled: boolean;
+  enabled?: boolean;
 
   @IsOptional()
   @IsString()
   @Transform(({ value }) => value?.trim())
   description?: string;
+
+  @IsOptional()
+  @IsIn(FEATURE_FLAG_CATEGORIES)
+  category?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  rolloutPercentage?: number | null;
+
+  @IsOptional()
+  @IsArray()
+  conditions?: Record<string, unknown>[];
+}
+
+export class EvaluateFeatureFlagsDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  flags?: string[];
+
+  @IsOptional()
+  @IsObject()
+  context?: Record<string, unknown>;
 }
\ No newline at end of file
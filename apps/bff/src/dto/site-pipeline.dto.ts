@@ -0,0 +1,89 @@
+// DTOs for the site acquisition pipeline
+import { IsBoolean, IsDateString, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength, ValidateIf } from 'class-validator';
+import { PIPELINE_STAGES, PipelineStage } from '../services/pipeline/site-pipeline.service';
+
+export class PipelineSiteQueryDto {
+  @IsOptional()
+  @IsIn(PIPELINE_STAGES)
+  stage?: PipelineStage;
+
+  @IsOptional()
+  @IsString()
+  scenarioId?: string;
+
+  @IsOptional()
+  @IsString()
+  owner?: string;
+}
+
+export class AddPipelineSiteDto {
+  @IsString()
+  @IsNotEmpty()
+  suggestionId: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @IsOptional()
+  @IsString()
+  owner?: string;
+
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+}
+
+export class AssignPipelineSiteDto {
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  owner?: string | null;
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString()
+  dueDate?: string | null;
+}
+
+export class ChecklistItemDto {
+  @IsBoolean()
+  done: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class MovePipelineStageDto {
+  @IsIn(PIPELINE_STAGES)
+  stage: PipelineStage;
+
+  @IsOptional()
+  @IsString()
+  owner?: string;
+
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
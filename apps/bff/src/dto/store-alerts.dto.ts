@@ -0,0 +1,59 @@
+// DTOs for the store alerts API
+import { IsArray, IsIn, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ALERT_SEVERITIES,
+  ALERT_STATUSES,
+  ALERT_TYPES,
+  AlertSeverity,
+  AlertStatus,
+  AlertType,
+} from '../services/alerts/anomaly-rules';
+
+export class StoreAlertQueryDto {
+  @IsOptional()
+  @IsString()
+  storeId?: string;
+
+  /** ACTIVE (the default) means OPEN or ACKNOWLEDGED */
+  @IsOptional()
+  @IsIn([...ALERT_STATUSES, 'ACTIVE'])
+  status?: AlertStatus | 'ACTIVE';
+
+  @IsOptional()
+  @IsIn(ALERT_SEVERITIES)
+  severity?: AlertSeverity;
+
+  @IsOptional()
+  @IsIn(ALERT_TYPES)
+  type?: AlertType;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class AlertScanDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  storeIds?: string[];
+
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  country?: string;
+}
+
+export class ResolveAlertDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  resolution?: string;
+}
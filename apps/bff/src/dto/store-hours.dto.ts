@@ -0,0 +1,115 @@
+// DTOs for the store hours API
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+const TIME = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export class HoursIntervalDto {
+  @Matches(TIME, { message: 'opensAt must be HH:MM' })
+  opensAt: string;
+
+  /** At or before opensAt means the interval runs past midnight */
+  @Matches(TIME, { message: 'closesAt must be HH:MM' })
+  closesAt: string;
+}
+
+export class WeeklyHoursDto {
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HoursIntervalDto)
+  monday?: HoursIntervalDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HoursIntervalDto)
+  tuesday?: HoursIntervalDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HoursIntervalDto)
+  wednesday?: HoursIntervalDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HoursIntervalDto)
+  thursday?: HoursIntervalDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HoursIntervalDto)
+  friday?: HoursIntervalDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HoursIntervalDto)
+  saturday?: HoursIntervalDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HoursIntervalDto)
+  sunday?: HoursIntervalDto[];
+}
+
+export class SetStoreHoursDto {
+  /** IANA zone; null clears it so the country's zone applies */
+  @IsOptional()
+  @IsString()
+  timezone?: string | null;
+
+  @IsOptional()
+  @IsIn(['CLOSED', 'REGULAR', 'SUNDAY'])
+  holidayPolicy?: 'CLOSED' | 'REGULAR' | 'SUNDAY';
+
+  /** Days left out are closed */
+  @ValidateNested()
+  @Type(() => WeeklyHoursDto)
+  weekly: WeeklyHoursDto;
+}
+
+export class SetHoursExceptionDto {
+  @IsBoolean()
+  closed: boolean;
+
+  /** Replacement hours for the day when not closed */
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HoursIntervalDto)
+  intervals?: HoursIntervalDto[];
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class OpenAtQueryDto {
+  /** Defaults to now */
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
+
+export class ScheduleQueryDto {
+  @Matches(DATE, { message: 'from must be YYYY-MM-DD' })
+  from: string;
+
+  @Matches(DATE, { message: 'to must be YYYY-MM-DD' })
+  to: string;
+}
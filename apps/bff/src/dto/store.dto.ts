@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, Length, IsOptional } from 'class-validator';
+import { IsString, IsNotEmpty, Length, IsOptional, Matches } from 'class-validator';
 
 export class CreateStoreDto {
   @IsString()
@@ -33,6 +33,12 @@ export class UpdateStoreDto {
   @IsOptional()
   @IsString()
   status?: string;
+
+  /** ISO 4217 code; an empty string clears it back to the country default */
+  @IsOptional()
+  @IsString()
+  @Matches(/^([A-Za-z]{3})?$/, { message: 'Currency must be a 3-letter ISO 4217 code' })
+  currency?: string;
 }
 
 export class StoreQueryDto {
@@ -1,5 +1,6 @@
 export interface SubMindQueryDto {
   prompt: string;
+  conversationId?: string; // Continue an existing thread; omitted to start a new one
   context?: {
     screen?: string;
     selection?: any;
@@ -19,6 +20,7 @@ export interface SubMindQueryDto {
 
 export interface SubMindResponseDto {
   message: string;
+  conversationId?: string; // Set when the question was saved to a thread
   sources?: Array<{
     type: 'api' | 'sql' | 'note';
     ref: string;
@@ -26,6 +28,7 @@ export interface SubMindResponseDto {
   meta?: {
     tokens?: number;
     latencyMs?: number;
+    toolCalls?: number;
   };
 }
 
@@ -0,0 +1,15 @@
+/** Thrown by job handlers for failures a retry cannot fix, e.g. invalid params */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/** Thrown inside a handler once cancellation was requested or its lease was lost */
+export class JobCancelledError extends Error {
+  constructor(message = 'Job was cancelled') {
+    super(message);
+    this.name = 'JobCancelledError';
+  }
+}
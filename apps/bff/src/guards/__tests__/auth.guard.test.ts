@@ -0,0 +1,76 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PrismaClient } from '@prisma/client';
+import type { Request } from 'express';
+import { ACTING_USER_HEADER, AuthGuard } from '../auth.guard';
+
+function contextFor(request: Partial<Request>): ExecutionContext {
+  return {
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+describe('AuthGuard', () => {
+  const originalSecret = process.env.INTERNAL_ADMIN_SECRET;
+  let findUnique: jest.Mock;
+  let guard: AuthGuard;
+
+  beforeEach(() => {
+    process.env.INTERNAL_ADMIN_SECRET = 'admin-secret';
+    findUnique = jest.fn();
+    const reflector = { getAllAndOverride: jest.fn().mockReturnValue(false) } as unknown as Reflector;
+    guard = new AuthGuard(reflector, { user: { findUnique } } as unknown as PrismaClient);
+  });
+
+  afterAll(() => {
+    process.env.INTERNAL_ADMIN_SECRET = originalSecret;
+  });
+
+  it('attaches the acting store manager with their scope', async () => {
+    findUnique.mockResolvedValue({
+      id: 'u1',
+      email: 'manager@example.com',
+      role: 'STORE_MANAGER',
+      region: null,
+      country: 'UK',
+      active: true,
+    });
+    const request: Partial<Request> = {
+      url: '/stores',
+      headers: { authorization: 'Bearer admin-secret', [ACTING_USER_HEADER]: ' Manager@Example.com ' },
+    };
+
+    await expect(guard.canActivate(contextFor(request))).resolves.toBe(true);
+
+    expect(findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { email: 'manager@example.com' } }));
+    expect(request.user).toEqual({
+      id: 'u1',
+      email: 'manager@example.com',
+      role: 'STORE_MANAGER',
+      region: null,
+      country: 'UK',
+      source: 'internal-admin',
+    });
+  });
+
+  it('treats a request without an acting user as the admin service', async () => {
+    const request: Partial<Request> = { url: '/stores', headers: { authorization: 'Bearer admin-secret' } };
+
+    await guard.canActivate(contextFor(request));
+
+    expect(request.user).toEqual(expect.objectContaining({ id: 'admin-service', role: 'SYSTEM' }));
+    expect(findUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects an acting user that is inactive', async () => {
+    findUnique.mockResolvedValue({ id: 'u2', email: 'gone@example.com', role: 'ANALYST', active: false });
+    const request: Partial<Request> = {
+      url: '/stores',
+      headers: { authorization: 'Bearer admin-secret', [ACTING_USER_HEADER]: 'gone@example.com' },
+    };
+
+    await expect(guard.canActivate(contextFor(request))).rejects.toThrow(UnauthorizedException);
+  });
+});
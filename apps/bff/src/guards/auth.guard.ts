@@ -2,18 +2,33 @@
 import {
   CanActivate,
   ExecutionContext,
+  Inject,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { PrismaClient } from '@prisma/client';
 import type { Request } from 'express';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { AuthenticatedUser, SYSTEM_ROLE, normalizeRole } from '../types/auth.types';
+
+/** Header the admin app uses to say which signed-in user a request is made for */
+export const ACTING_USER_HEADER = 'x-acting-user';
+
+const SYSTEM_USER: AuthenticatedUser = {
+  id: 'admin-service',
+  role: SYSTEM_ROLE,
+  source: 'internal-admin',
+};
 
 @Injectable()
 export class AuthGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     // Check if route is marked as public
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
@@ -29,6 +44,7 @@ export class AuthGuard implements CanActivate {
 
     // 1) Optional dev bypass for local development
     if (process.env.DEV_AUTH_BYPASS === 'true') {
+      request.user = await this.resolveActingUser(request, 'dev-bypass');
       return true;
     }
 
@@ -36,12 +52,14 @@ export class AuthGuard implements CanActivate {
     // TODO: Remove this after setting INTERNAL_ADMIN_SECRET in Railway
     if (!process.env.INTERNAL_ADMIN_SECRET) {
       console.warn('[AuthGuard] TEMPORARY: Bypassing auth due to missing INTERNAL_ADMIN_SECRET');
+      request.user = { ...SYSTEM_USER, source: 'dev-bypass' };
       return true;
     }
 
-    // 2) Public endpoints that don't require auth (telemetry, SubMind)
-    // These are called directly from the browser and cannot safely include secrets
-    const publicPaths = ['/telemetry', '/ai/submind'];
+    // 2) Public endpoints that don't require auth (telemetry)
+    // These are called directly from the browser and cannot safely include secrets.
+    // SubMind acts for the signed-in user, so it goes through the admin API routes instead
+    const publicPaths = ['/telemetry'];
     if (publicPaths.some((p) => path.startsWith(p))) {
       return true;
     }
@@ -59,12 +77,9 @@ export class AuthGuard implements CanActivate {
     // 3) Internal Admin secret – used by the Next.js admin app when calling the BFF
     const internalSecret = process.env.INTERNAL_ADMIN_SECRET;
     if (internalSecret && token === internalSecret) {
-      // Optionally attach a fake "user" to the request for logging/audit
-      (request as any).user = {
-        id: 'admin-service',
-        role: 'system',
-        source: 'internal-admin',
-      };
+      // Requests made on behalf of a signed-in user carry their email; anything else
+      // is the admin service itself and keeps full access
+      request.user = await this.resolveActingUser(request, 'internal-admin');
       return true;
     }
 
@@ -72,4 +87,33 @@ export class AuthGuard implements CanActivate {
     // For now, if it's not the internal secret, we treat it as invalid.
     throw new UnauthorizedException('Invalid or unsupported token');
   }
+
+  private async resolveActingUser(
+    request: Request,
+    source: AuthenticatedUser['source'],
+  ): Promise<AuthenticatedUser> {
+    const header = request.headers[ACTING_USER_HEADER];
+    const email = Array.isArray(header) ? header[0] : header;
+    if (!email) {
+      return { ...SYSTEM_USER, source };
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+      select: { id: true, email: true, role: true, region: true, country: true, active: true },
+    });
+
+    if (!user || !user.active) {
+      throw new UnauthorizedException('Acting user is unknown or inactive');
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      role: normalizeRole(user.role),
+      region: user.region,
+      country: user.country,
+      source,
+    };
+  }
 }
@@ -1,13 +1,16 @@
 import 'dotenv/config';
 import 'reflect-metadata';
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe } from '@nestjs/common';
 import { AppModule } from './module';
 import { ErrorInterceptor } from './interceptors/error.interceptor';
 import { ConfigService } from './config/config.service';
+import { useJsonBodyParsers } from './config/body-parsers';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  useJsonBodyParsers(app);
   
   // Get config service
   const configService = app.get(ConfigService);
@@ -42,6 +45,9 @@ async function bootstrap() {
   // Global error interceptor
   app.useGlobalInterceptors(new ErrorInterceptor());
   
+  // Run onModuleDestroy on SIGTERM so the job worker can hand its leases back
+  app.enableShutdownHooks();
+  
   const port = configService.port;
   const server = await app.listen(port);
   
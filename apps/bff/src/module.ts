@@ -2,35 +2,66 @@ import { Module } from '@nestjs/common';
 import { APP_GUARD } from '@nestjs/core';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
 import { PrismaClient } from '@prisma/client';
+import { Router, getRouter } from '@subway/routing';
+import { LlmClient } from '@subway/shared-ai';
 import { HealthController } from './routes/health';
 import { KpiController } from './routes/kpis';
 import { MetricsController } from './routes/metrics';
 import { StoresController } from './routes/stores';
 import { OrdersController } from './routes/orders';
 import { MenuController } from './routes/menu';
+import { MasterMenuController } from './routes/master-menu.controller';
+import { MenuVersionsController } from './routes/menu-versions.controller';
+import { MenuLabellingController } from './routes/menu-labelling.controller';
+import { MoneyController } from './routes/money.controller';
 import { TelemetryController } from './routes/telemetry';
 import { SettingsController } from './routes/settings';
+import { IntelligenceConfigController } from './routes/intelligence-config.controller';
+import { ExperimentsController } from './routes/experiments.controller';
+import { AuditController } from './routes/audit.controller';
+import { JobsController } from './routes/jobs.controller';
+import { ScheduledJobsController } from './routes/scheduled-jobs.controller';
+import { StoreAlertsController } from './routes/store-alerts.controller';
 import { SubMindController } from './routes/submind.controller';
 import { ExpansionController } from './routes/expansion.controller';
 import { AIIntelligenceController } from './routes/ai-intelligence.controller';
 import { PortfolioOptimizerController } from './routes/portfolio-optimizer.controller';
+import { LocationGeneratorController } from './routes/location-generator.controller';
+import { BoardPackController } from './routes/board-pack.controller';
+import { SitePipelineController } from './routes/site-pipeline.controller';
+import { RoutingController } from './routes/routing.controller';
 import { ScenarioModelingController } from './routes/scenario-modeling.controller';
 import { RevenueForecastingController } from './routes/revenue-forecasting.controller';
 import { FranchiseeController } from './routes/franchisee.controller';
+import { RoyaltyController } from './routes/royalty.controller';
 import { AdvancedStoreAnalysisController } from './routes/advanced-store-analysis.controller';
 import { CompetitiveIntelligenceController } from './routes/competitive-intelligence.controller';
 import { CompetitorsNearbyController } from './routes/competitors-nearby.controller';
+import { CompetitorDataController } from './routes/competitor-data.controller';
 // import { GeocodeController } from './routes/geocode';
 import { StoreService } from './services/store.service';
+import { OrderPricingService } from './services/orders/order-pricing.service';
+import { StoreAccessService } from './services/store-access.service';
+import { ExperimentService } from './services/experiments/experiment.service';
+import { AuditHistoryService } from './services/audit/audit-history.service';
+import { StoreHoursService } from './services/hours/store-hours.service';
+import { ExperimentResultsService } from './services/experiments/experiment-results.service';
 import { PortfolioOptimizerService } from './services/portfolio/portfolio-optimizer.service';
 import { ROICalculatorService } from './services/portfolio/roi-calculator.service';
 import { CannibalizationCalculatorService } from './services/portfolio/cannibalization-calculator.service';
+import { HuffMarketShareService } from './services/portfolio/huff-market-share.service';
+import { GeneratorAnalysisService } from './services/location-generator/generator-analysis.service';
+import { BoardPackExportService } from './services/board-pack/board-pack-export.service';
+import { SitePipelineService } from './services/pipeline/site-pipeline.service';
+import { IsochroneService } from './services/routing/isochrone.service';
+import { StaticMapRenderer } from './services/board-pack/static-map.renderer';
 import { ScenarioModelingService } from './services/scenario/scenario-modeling.service';
 import { RevenueForecastingService } from './services/forecasting/revenue-forecasting.service';
 import { ForecastExplainerService } from './services/forecasting/forecast-explainer.service';
 import { FranchiseeService } from './services/franchisee/franchisee.service';
 import { FranchiseeAnalyticsService } from './services/franchisee/franchisee-analytics.service';
 import { FranchiseeIntelligenceService } from './services/franchisee/franchisee-intelligence.service';
+import { RoyaltyService } from './services/franchisee/royalty.service';
 import { PeerBenchmarkingService } from './services/intelligence/peer-benchmarking.service';
 import { PerformanceClusteringService } from './services/intelligence/performance-clustering.service';
 import { TurnoverPredictionService } from './services/intelligence/turnover-prediction.service';
@@ -39,6 +70,7 @@ import { CompetitiveAnalysisService } from './services/competitive/competitive-a
 import { GooglePlacesService } from './services/competitive/google-places.service';
 import { MapboxCompetitorsService } from './services/competitive/mapbox-competitors.service';
 import { GooglePlacesNearbyService } from './services/competitive/google-places-nearby.service';
+import { CompetitorImportService } from './services/competitive/competitor-import.service';
 import { ExpansionService } from './services/expansion.service';
 import { AIPipelineController } from './services/ai/ai-pipeline-controller.service';
 import { MarketAnalysisService } from './services/ai/market-analysis.service';
@@ -51,11 +83,32 @@ import { ModelConfigurationManager } from './services/ai/model-configuration.ser
 import { SubMindService } from './services/submind.service';
 import { SubMindRateLimitService } from './services/submind.rate-limit';
 import { SubMindTelemetryService } from './services/submind-telemetry.service';
-import { ExpansionJobWorkerService } from './services/expansion-job-worker.service';
+import { SubMindToolsService } from './services/submind-tools.service';
+import { SubMindConversationService } from './services/submind-conversation.service';
+import { JobQueueService } from './services/jobs/job-queue.service';
+import { JobWorkerService } from './services/jobs/job-worker.service';
+import { ExpansionJobHandler } from './services/jobs/handlers/expansion-job.handler';
+import { StoreAnalysisJobHandler } from './services/jobs/handlers/store-analysis-job.handler';
+import { ForecastJobHandler } from './services/jobs/handlers/forecast-job.handler';
+import { CompetitorRefreshJobHandler } from './services/jobs/handlers/competitor-refresh-job.handler';
+import { ScheduledJobService } from './services/jobs/scheduled-job.service';
+import { StoreAlertService } from './services/alerts/store-alert.service';
+import { MasterMenuService } from './services/menu/master-menu.service';
+import { MenuVersionService } from './services/menu/menu-version.service';
+import { MenuLabellingService } from './services/menu/menu-labelling.service';
+import { TaxService } from './services/money/tax.service';
+import { FxService } from './services/money/fx.service';
+import { AIModelConfigService } from './services/ai/ai-model-config.service';
+import { StoreContextBuilderService } from './services/ai/store-context-builder.service';
+import { StoreIntelligenceService } from './services/ai/store-intelligence.service';
+import { AIIntelligenceControllerService } from './services/ai/ai-intelligence-controller.service';
 // import { GeocodeService } from './services/geocode.service';
 import { PrismaStoreRepository } from './repositories/store.repository';
 import { ConfigService } from './config/config.service';
+import { EnhancedIntelligenceConfigService } from './config/enhanced-intelligence.config';
+import { FeatureFlagsService } from './config/feature-flags.service';
 import { AuthGuard } from './guards/auth.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
 import { IntelligenceModule, LocationIntelligenceService, GeographicValidationService } from './services/intelligence/intelligence.module';
 
 const prisma = new PrismaClient();
@@ -76,25 +129,49 @@ const prisma = new PrismaClient();
     OrdersController,
     StoresController,
     MenuController,
+    MasterMenuController,
+    MenuVersionsController,
+    MenuLabellingController,
+    MoneyController,
     TelemetryController,
     SettingsController,
+    IntelligenceConfigController,
+    ExperimentsController,
+    AuditController,
+    JobsController,
+    ScheduledJobsController,
+    StoreAlertsController,
     SubMindController,
     ExpansionController,
     AIIntelligenceController,
     PortfolioOptimizerController,
+    LocationGeneratorController,
+    BoardPackController,
+    SitePipelineController,
+    RoutingController,
     ScenarioModelingController,
     RevenueForecastingController,
     FranchiseeController,
+    RoyaltyController,
     AdvancedStoreAnalysisController,
     CompetitiveIntelligenceController,
     CompetitorsNearbyController,
+    CompetitorDataController,
     // GeocodeController,
   ],
   providers: [
     ConfigService,
     { provide: PrismaClient, useValue: prisma },
+    EnhancedIntelligenceConfigService,
+    FeatureFlagsService,
     PrismaStoreRepository,
     StoreService,
+    OrderPricingService,
+    StoreAccessService,
+    ExperimentService,
+    AuditHistoryService,
+    StoreHoursService,
+    ExperimentResultsService,
     // AI Pipeline Services
     ModelConfigurationManager,
     MarketAnalysisService,
@@ -114,11 +191,44 @@ const prisma = new PrismaClient();
     SubMindService,
     SubMindRateLimitService,
     SubMindTelemetryService,
-    ExpansionJobWorkerService, // Background worker for expansion jobs
+    SubMindToolsService,
+    SubMindConversationService,
+    // LLM provider shared by every AI service, chosen by LLM_PROVIDER
+    { provide: LlmClient, useFactory: () => LlmClient.getInstance() },
+    // Durable job queue and its background worker
+    JobQueueService,
+    ExpansionJobHandler,
+    StoreAnalysisJobHandler,
+    ForecastJobHandler,
+    CompetitorRefreshJobHandler,
+    ScheduledJobService,
+    StoreAlertService,
+    MasterMenuService,
+    MenuVersionService,
+    MenuLabellingService,
+    TaxService,
+    FxService,
+    JobWorkerService,
+    // AI intelligence controls, consulted before scheduled store analysis runs
+    AIModelConfigService,
+    StoreContextBuilderService,
+    StoreIntelligenceService,
+    AIIntelligenceControllerService,
     // Portfolio Optimizer Services
     PortfolioOptimizerService,
     ROICalculatorService,
     CannibalizationCalculatorService,
+    HuffMarketShareService,
+    // Location generator diagnostics
+    GeneratorAnalysisService,
+    // Board pack exports
+    BoardPackExportService,
+    StaticMapRenderer,
+    // Site acquisition pipeline
+    SitePipelineService,
+    // Road-network travel times and isochrones
+    { provide: Router, useFactory: () => getRouter() },
+    IsochroneService,
     // Scenario Modeling Services
     ScenarioModelingService,
     // Revenue Forecasting Services
@@ -128,6 +238,7 @@ const prisma = new PrismaClient();
     FranchiseeService,
     FranchiseeAnalyticsService,
     FranchiseeIntelligenceService,
+    RoyaltyService,
     // Advanced Store Analysis Services
     PeerBenchmarkingService,
     PerformanceClusteringService,
@@ -138,12 +249,18 @@ const prisma = new PrismaClient();
     GooglePlacesService,
     MapboxCompetitorsService,
     GooglePlacesNearbyService,
+    CompetitorImportService,
     // GeocodeService,
     // Apply authentication globally
     {
       provide: APP_GUARD,
       useClass: AuthGuard,
     },
+    // Enforce @RequirePermissions once the caller is known
+    {
+      provide: APP_GUARD,
+      useClass: PermissionsGuard,
+    },
     // Apply rate limiting globally
     {
       provide: APP_GUARD,
@@ -11,6 +11,7 @@ export interface StoreFilters {
   city?: string;
   status?: string;
   storeId?: string;
+  storeIds?: string[]; // Row-level restriction from the caller's store access
   limit?: number;
   offset?: number;
 }
@@ -62,7 +63,9 @@ export class PrismaStoreRepository extends BaseRepository implements StoreReposi
         openedAt: true,
         cityPopulationBand: true,
         isAISuggested: true,
-        operatingHours: true,
+        timezone: true,
+        holidayPolicy: true,
+        currency: true,
         phoneNumber: true,
         email: true,
         franchiseeId: true,
@@ -93,7 +96,9 @@ export class PrismaStoreRepository extends BaseRepository implements StoreReposi
         openedAt: true,
         cityPopulationBand: true,
         isAISuggested: true,
-        operatingHours: true,
+        timezone: true,
+        holidayPolicy: true,
+        currency: true,
         phoneNumber: true,
         email: true,
         franchiseeId: true,
@@ -122,7 +127,9 @@ export class PrismaStoreRepository extends BaseRepository implements StoreReposi
         openedAt: true,
         cityPopulationBand: true,
         isAISuggested: true,
-        operatingHours: true,
+        timezone: true,
+        holidayPolicy: true,
+        currency: true,
         phoneNumber: true,
         email: true,
         franchiseeId: true,
@@ -152,7 +159,9 @@ export class PrismaStoreRepository extends BaseRepository implements StoreReposi
         openedAt: true,
         cityPopulationBand: true,
         isAISuggested: true,
-        operatingHours: true,
+        timezone: true,
+        holidayPolicy: true,
+        currency: true,
         phoneNumber: true,
         email: true,
         franchiseeId: true,
@@ -180,6 +189,10 @@ export class PrismaStoreRepository extends BaseRepository implements StoreReposi
       where.id = filters.storeId;
     }
 
+    if (filters.storeIds) {
+      where.AND = [{ id: { in: filters.storeIds } }];
+    }
+
     if (filters.country) {
       where.country = {
         equals: filters.country,
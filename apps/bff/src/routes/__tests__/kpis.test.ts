@@ -0,0 +1,48 @@
+import { PrismaClient } from '@prisma/client';
+import { KpiController } from '../kpis';
+import { FxService } from '../../services/money/fx.service';
+
+describe('KpiController', () => {
+  const prisma = {
+    order: {
+      count: jest.fn().mockResolvedValue(3),
+      aggregate: jest.fn().mockResolvedValue({ _sum: { total: 35.5 } }),
+      findMany: jest.fn(),
+    },
+    menuItem: { count: jest.fn().mockResolvedValue(12) },
+    fxRate: {
+      findMany: jest.fn().mockResolvedValue([
+        { base: 'EUR', quote: 'GBP', rate: 0.85, effectiveFrom: new Date('2025-01-01') },
+        { base: 'EUR', quote: 'GBP', rate: 0.8, effectiveFrom: new Date('2025-03-01') },
+      ]),
+    },
+    // One row per order currency and day, as the aggregate query returns them
+    $queryRaw: jest.fn().mockResolvedValue([
+      { currency: 'GBP', storeCurrency: null, storeCountry: 'UK', day: new Date('2025-02-01'), total: 17 },
+      { currency: null, storeCurrency: null, storeCountry: 'UK', day: new Date('2025-04-01'), total: 8 },
+      { currency: 'EUR', storeCurrency: null, storeCountry: 'UK', day: new Date('2025-04-01'), total: 10.5 },
+    ]),
+  };
+  const controller = new KpiController(prisma as unknown as PrismaClient, new FxService(prisma as unknown as PrismaClient));
+
+  beforeEach(() => {
+    prisma.order.findMany.mockClear();
+    prisma.$queryRaw.mockClear();
+  });
+
+  it('converts daily currency totals instead of loading every order', async () => {
+    const result = await controller.kpis({ scope: 'region', country: 'UK', currency: 'eur' });
+
+    expect(prisma.order.findMany).not.toHaveBeenCalled();
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    // 17 GBP at 0.85 and 8 GBP at 0.80, plus 10.50 already in euros
+    expect(result).toMatchObject({ currency: 'EUR', revenueToday: 40.5, ordersToday: 3 });
+  });
+
+  it('reports the stored totals when no currency is asked for', async () => {
+    const result = await controller.kpis({ scope: 'global' });
+
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ currency: null, revenueToday: 35.5 });
+  });
+});
@@ -0,0 +1,86 @@
+import { INestApplication } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { PrismaClient } from '@prisma/client';
+import request from 'supertest';
+import { ACTING_USER_HEADER, AuthGuard } from '../../guards/auth.guard';
+import { SubMindController } from '../submind.controller';
+import { SubMindService } from '../../services/submind.service';
+import { SubMindRateLimitService } from '../../services/submind.rate-limit';
+import { SubMindTelemetryService } from '../../services/submind-telemetry.service';
+import { SubMindConversationService } from '../../services/submind-conversation.service';
+
+// SubMind behind the real AuthGuard, configured as in production
+describe('SubMind authentication', () => {
+  const originalSecret = process.env.INTERNAL_ADMIN_SECRET;
+  const processQuery = jest.fn().mockResolvedValue({ message: 'Soho is 4% behind plan', meta: { tokens: 20 } });
+  const list = jest.fn().mockResolvedValue([]);
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    process.env.INTERNAL_ADMIN_SECRET = 'admin-secret';
+    const module = await Test.createTestingModule({
+      controllers: [SubMindController],
+      providers: [
+        { provide: APP_GUARD, useClass: AuthGuard },
+        {
+          provide: PrismaClient,
+          useValue: {
+            user: {
+              findUnique: jest.fn().mockResolvedValue({
+                id: 'u1',
+                email: 'analyst@example.com',
+                role: 'ANALYST',
+                region: null,
+                country: null,
+                active: true,
+              }),
+            },
+          },
+        },
+        { provide: SubMindService, useValue: { isServiceEnabled: () => true, processQuery } },
+        {
+          provide: SubMindRateLimitService,
+          useValue: { checkRateLimit: () => ({ allowed: true, remainingTokens: 9, resetTime: Date.now() + 60_000 }) },
+        },
+        { provide: SubMindTelemetryService, useValue: { emitQueryEvent: jest.fn(), emitErrorEvent: jest.fn() } },
+        { provide: SubMindConversationService, useValue: { list } },
+      ],
+    }).compile();
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    process.env.INTERNAL_ADMIN_SECRET = originalSecret;
+  });
+
+  it('rejects browser calls that carry no credentials', async () => {
+    await request(app.getHttpServer()).post('/ai/submind/query').send({ prompt: 'How is Soho doing?' }).expect(401);
+    await request(app.getHttpServer()).get('/ai/submind/conversations').expect(401);
+
+    expect(processQuery).not.toHaveBeenCalled();
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  it('answers for the user the admin app acts for', async () => {
+    await request(app.getHttpServer())
+      .post('/ai/submind/query')
+      .set('Authorization', 'Bearer admin-secret')
+      .set(ACTING_USER_HEADER, 'analyst@example.com')
+      .send({ prompt: 'How is Soho doing?' })
+      .expect(200);
+    await request(app.getHttpServer())
+      .get('/ai/submind/conversations')
+      .set('Authorization', 'Bearer admin-secret')
+      .set(ACTING_USER_HEADER, 'analyst@example.com')
+      .expect(200);
+
+    expect(processQuery).toHaveBeenCalledWith(
+      { prompt: 'How is Soho doing?' },
+      expect.objectContaining({ id: 'u1', role: 'ANALYST' }),
+    );
+    expect(list).toHaveBeenCalledWith('u1', 20);
+  });
+});
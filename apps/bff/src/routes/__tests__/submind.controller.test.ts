@@ -1,16 +1,22 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { HttpStatus } from '@nestjs/common';
+import { HttpStatus, UnauthorizedException } from '@nestjs/common';
+import type { Request } from 'express';
 import { SubMindController } from '../submind.controller';
 import { SubMindService } from '../../services/submind.service';
 import { SubMindRateLimitService } from '../../services/submind.rate-limit';
 import { SubMindTelemetryService } from '../../services/submind-telemetry.service';
+import { SubMindConversationService } from '../../services/submind-conversation.service';
 import { SubMindQueryDto } from '../../dto/submind.dto';
+import { AuthenticatedUser } from '../../types/auth.types';
+
+const user: AuthenticatedUser = { id: 'u1', email: 'analyst@example.com', role: 'ANALYST', source: 'internal-admin' };
 
 describe('SubMindController', () => {
   let controller: SubMindController;
   let subMindService: jest.Mocked<SubMindService>;
   let rateLimitService: jest.Mocked<SubMindRateLimitService>;
   let telemetryService: jest.Mocked<SubMindTelemetryService>;
+  let conversationService: { list: jest.Mock; detail: jest.Mock; remove: jest.Mock };
 
   beforeEach(async () => {
     const mockSubMindService = {
@@ -28,6 +34,8 @@ describe('SubMindController', () => {
       emitErrorEvent: jest.fn(),
     };
 
+    conversationService = { list: jest.fn(), detail: jest.fn(), remove: jest.fn() };
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [SubMindController],
       providers: [
@@ -43,6 +51,10 @@ describe('SubMindController', () => {
           provide: SubMindTelemetryService,
           useValue: mockTelemetryService,
         },
+        {
+          provide: SubMindConversationService,
+          useValue: conversationService,
+        },
       ],
     }).compile();
 
@@ -77,10 +89,10 @@ describe('SubMindController', () => {
       });
       subMindService.processQuery.mockResolvedValue(mockResponse);
 
-      const result = await controller.query(queryDto, mockRequest);
+      const result = await controller.query(queryDto, mockRequest, user);
 
       expect(result).toEqual(mockResponse);
-      expect(subMindService.processQuery).toHaveBeenCalledWith(queryDto);
+      expect(subMindService.processQuery).toHaveBeenCalledWith(queryDto, user);
       expect(telemetryService.emitQueryEvent).toHaveBeenCalledWith(
         queryDto,
         mockResponse,
@@ -96,7 +108,7 @@ describe('SubMindController', () => {
 
       subMindService.isServiceEnabled.mockReturnValue(false);
 
-      await expect(controller.query(queryDto, mockRequest)).rejects.toMatchObject({
+      await expect(controller.query(queryDto, mockRequest, user)).rejects.toMatchObject({
         response: {
           error: 'AI disabled - missing API key',
           code: 'AI_DISABLED',
@@ -124,7 +136,7 @@ describe('SubMindController', () => {
         resetTime: Date.now() + 30000,
       });
 
-      await expect(controller.query(queryDto, mockRequest)).rejects.toMatchObject({
+      await expect(controller.query(queryDto, mockRequest, user)).rejects.toMatchObject({
         response: {
           error: 'rate_limited',
           code: 'RATE_LIMIT_EXCEEDED',
@@ -153,7 +165,7 @@ describe('SubMindController', () => {
       });
 
       for (const query of invalidQueries) {
-        await expect(controller.query(query as any, mockRequest)).rejects.toMatchObject({
+        await expect(controller.query(query as any, mockRequest, user)).rejects.toMatchObject({
           status: HttpStatus.BAD_REQUEST,
         });
       }
@@ -185,7 +197,7 @@ describe('SubMindController', () => {
       });
 
       for (const query of invalidQueries) {
-        await expect(controller.query(query as any, mockRequest)).rejects.toMatchObject({
+        await expect(controller.query(query as any, mockRequest, user)).rejects.toMatchObject({
           status: HttpStatus.BAD_REQUEST,
         });
       }
@@ -216,7 +228,7 @@ describe('SubMindController', () => {
         meta: { tokens: 10, latencyMs: 500 },
       });
 
-      await controller.query(queryDto, requestWithHeaders);
+      await controller.query(queryDto, requestWithHeaders, user);
 
       // Should use first IP from x-forwarded-for
       expect(rateLimitService.checkRateLimit).toHaveBeenCalledWith('203.0.113.1');
@@ -235,7 +247,7 @@ describe('SubMindController', () => {
       });
       subMindService.processQuery.mockRejectedValue(new Error('AI processing failed: OpenAI error'));
 
-      await expect(controller.query(queryDto, mockRequest)).rejects.toMatchObject({
+      await expect(controller.query(queryDto, mockRequest, user)).rejects.toMatchObject({
         response: {
           error: 'AI service temporarily unavailable',
           code: 'AI_SERVICE_ERROR',
@@ -264,7 +276,7 @@ describe('SubMindController', () => {
       });
       subMindService.processQuery.mockRejectedValue(new Error('Unknown error'));
 
-      await expect(controller.query(queryDto, mockRequest)).rejects.toMatchObject({
+      await expect(controller.query(queryDto, mockRequest, user)).rejects.toMatchObject({
         response: {
           error: 'Internal server error',
           code: 'INTERNAL_ERROR',
@@ -305,10 +317,35 @@ describe('SubMindController', () => {
       });
       subMindService.processQuery.mockResolvedValue(mockResponse);
 
-      const result = await controller.query(queryDto, mockRequest);
+      const result = await controller.query(queryDto, mockRequest, user);
 
       expect(result).toEqual(mockResponse);
-      expect(subMindService.processQuery).toHaveBeenCalledWith(queryDto);
+      expect(subMindService.processQuery).toHaveBeenCalledWith(queryDto, user);
+    });
+  });
+
+  describe('signed-in user', () => {
+    it('rejects a query nobody is signed in for', async () => {
+      subMindService.isServiceEnabled.mockReturnValue(true);
+
+      await expect(controller.query({ prompt: 'Which stores are behind?' }, { headers: {} } as unknown as Request)).rejects.toThrow(UnauthorizedException);
+      expect(rateLimitService.checkRateLimit).not.toHaveBeenCalled();
+      expect(subMindService.processQuery).not.toHaveBeenCalled();
+    });
+
+    it('rejects conversation requests without a user', async () => {
+      await expect(controller.listConversations(undefined)).rejects.toThrow(UnauthorizedException);
+      await expect(controller.getConversation('c1', undefined)).rejects.toThrow(UnauthorizedException);
+      await expect(controller.deleteConversation('c1', undefined)).rejects.toThrow(UnauthorizedException);
+      expect(conversationService.remove).not.toHaveBeenCalled();
+    });
+
+    it("lists only the signed-in user's conversations", async () => {
+      conversationService.list.mockResolvedValue([]);
+
+      await controller.listConversations(user, '5');
+
+      expect(conversationService.list).toHaveBeenCalledWith('u1', 5);
     });
   });
 
@@ -335,7 +372,7 @@ describe('SubMindController', () => {
         meta: { tokens: 10, latencyMs: 500 },
       });
 
-      await controller.query(queryDto, requestWithoutHeaders);
+      await controller.query(queryDto, requestWithoutHeaders, user);
 
       // Should fall back to 'unknown'
       expect(rateLimitService.checkRateLimit).toHaveBeenCalledWith('unknown');
@@ -4,6 +4,7 @@ import { AIIntelligenceControllerService } from '../services/ai/ai-intelligence-
 import { AIModelConfigService } from '../services/ai/ai-model-config.service';
 import { StoreIntelligenceService } from '../services/ai/store-intelligence.service';
 import { StoreContextBuilderService } from '../services/ai/store-context-builder.service';
+import { RequirePermissions } from '../decorators/permissions.decorator';
 
 /**
  * AI Intelligence Controller
@@ -69,6 +70,7 @@ export class AIIntelligenceController {
    * POST /ai/intelligence/analyze/:storeId
    */
   @Post('analyze/:storeId')
+  @RequirePermissions('ai:run')
   async analyzeStore(
     @Param('storeId') storeId: string,
     @Body() body: { userId?: string; premium?: boolean }
@@ -143,6 +145,7 @@ export class AIIntelligenceController {
    * POST /ai/intelligence/continuous/toggle
    */
   @Post('continuous/toggle')
+  @RequirePermissions('ai:run')
   async toggleContinuous(@Body() body: { enabled: boolean }) {
     try {
       await this.aiController.toggleContinuousIntelligence(body.enabled);
@@ -165,6 +168,7 @@ export class AIIntelligenceController {
    * POST /ai/intelligence/ondemand/toggle
    */
   @Post('ondemand/toggle')
+  @RequirePermissions('ai:run')
   async toggleOnDemand(@Body() body: { enabled: boolean }) {
     try {
       await this.aiController.toggleOnDemandIntelligence(body.enabled);
@@ -0,0 +1,37 @@
+import { Body, Controller, Get, Param, Post, Query, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import { EntityHistoryQueryDto, RevertEntityDto } from '../dto/audit.dto';
+import { AuditHistoryService, EntityHistory, RevertResult } from '../services/audit/audit-history.service';
+
+// Permissions depend on the entity, so AuditHistoryService checks them per request
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class AuditController {
+  constructor(private readonly auditHistory: AuditHistoryService) {}
+
+  @Get('/audit/:entity/:entityId/history')
+  async getHistory(
+    @Param('entity') entity: string,
+    @Param('entityId') entityId: string,
+    @Query() query: EntityHistoryQueryDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<EntityHistory>> {
+    const at = query.at ? new Date(query.at) : undefined;
+    return ApiResponseBuilder.success(await this.auditHistory.getHistory(entity, entityId, user, at));
+  }
+
+  @Post('/audit/:entity/:entityId/revert')
+  async revert(
+    @Param('entity') entity: string,
+    @Param('entityId') entityId: string,
+    @Body() dto: RevertEntityDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<RevertResult>> {
+    return ApiResponseBuilder.success(
+      await this.auditHistory.revert(entity, entityId, dto.entryId, user, dto.expectedLatestEntryId),
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { Body, Controller, Get, Param, Post, Query, Res, UseInterceptors } from '@nestjs/common';
+import { Response } from 'express';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { BoardPackQueryDto } from '../dto/board-pack.dto';
+import { BoardPackExportService, ScenarioComparison } from '../services/board-pack/board-pack-export.service';
+import { RenderedBoardPack } from '../services/board-pack/board-pack.types';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class BoardPackController {
+  constructor(private readonly boardPacks: BoardPackExportService) {}
+
+  @Get('/expansion/scenarios/:scenarioId/board-pack')
+  @RequirePermissions('analytics:read')
+  async exportScenario(
+    @Param('scenarioId') scenarioId: string,
+    @Query() query: BoardPackQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    this.send(res, await this.boardPacks.exportScenario(scenarioId, query.format ?? 'pdf'));
+  }
+
+  /** Export a /scenarios/compare result without re-running the comparison */
+  @Post('/scenarios/compare/board-pack')
+  @RequirePermissions('analytics:read')
+  async exportComparison(
+    @Body() body: ScenarioComparison,
+    @Query() query: BoardPackQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    this.send(res, await this.boardPacks.exportComparison(body, query.format ?? 'pdf'));
+  }
+
+  private send(res: Response, pack: RenderedBoardPack) {
+    res
+      .status(200)
+      .set({
+        'Content-Type': pack.contentType,
+        'Content-Disposition': `attachment; filename="${pack.filename}"`,
+        'Content-Length': String(pack.body.length),
+      })
+      .send(pack.body);
+  }
+}
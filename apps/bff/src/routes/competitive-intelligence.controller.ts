@@ -4,6 +4,7 @@ import { CompetitiveAnalysisService, CompetitiveAnalysisRequest } from '../servi
 import { GooglePlacesService } from '../services/competitive/google-places.service';
 import { MapboxCompetitorsService, MapboxCompetitorRequest } from '../services/competitive/mapbox-competitors.service';
 import { PrismaClient } from '@prisma/client';
+import { RequirePermissions } from '../decorators/permissions.decorator';
 
 /**
  * Controller for competitive intelligence features.
@@ -134,7 +135,8 @@ export class CompetitiveIntelligenceController {
 
   /**
    * @deprecated This endpoint is deprecated and returns 410 Gone.
-   * Use POST /api/competitors/nearby instead for on-demand competitor discovery.
+   * Use POST /api/competitors/nearby instead for on-demand competitor discovery,
+   * or POST /api/competitors/refresh to queue a sweep that records changes.
    * 
    * The new system:
    * - Uses Google Places API instead of Mapbox Tilequery
@@ -152,6 +154,7 @@ export class CompetitiveIntelligenceController {
         message: 'The competitor refresh endpoint has been deprecated. Use POST /api/competitors/nearby instead for on-demand competitor discovery.',
         migration: {
           newEndpoint: 'POST /api/competitors/nearby',
+          refreshJobEndpoint: 'POST /api/competitors/refresh',
           documentation: 'The new system uses Google Places API for on-demand competitor discovery with in-memory caching.',
           example: {
             url: '/api/competitors/nearby',
@@ -170,6 +173,7 @@ export class CompetitiveIntelligenceController {
   }
 
   @Post('analyze')
+  @RequirePermissions('ai:run')
   async analyzeCompetition(@Body() request: CompetitiveAnalysisRequest) {
     try {
       const analysis = await this.competitiveAnalysisService.analyzeCompetition(request);
@@ -0,0 +1,84 @@
+import { BadRequestException, Body, Controller, Get, Param, Post, Query, UseInterceptors } from '@nestjs/common';
+import { CompetitorChange, CompetitorImport, CompetitorPlace } from '@prisma/client';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import {
+  CompetitorChangesQueryDto,
+  CompetitorImportsQueryDto,
+  ImportCompetitorsDto,
+  RefreshCompetitorsDto,
+} from '../dto/competitor-data.dto';
+import {
+  CompetitorChangesReport,
+  CompetitorImportService,
+  CompetitorImportSummary,
+} from '../services/competitive/competitor-import.service';
+import { CompetitorRefreshJobHandler } from '../services/jobs/handlers/competitor-refresh-job.handler';
+
+/**
+ * Persisted competitor data: file imports, refresh sweeps and the changes
+ * they detect. On-demand lookups stay on POST /competitors/nearby.
+ */
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class CompetitorDataController {
+  constructor(
+    private readonly imports: CompetitorImportService,
+    private readonly refreshJobs: CompetitorRefreshJobHandler,
+  ) {}
+
+  @Post('/competitors/import')
+  @RequirePermissions('stores:write')
+  async importFile(
+    @Body() dto: ImportCompetitorsDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<CompetitorImportSummary>> {
+    return ApiResponseBuilder.success(await this.imports.importFile(dto, this.actorOf(user)));
+  }
+
+  @Get('/competitors/imports')
+  @RequirePermissions('stores:read')
+  async listImports(@Query() query: CompetitorImportsQueryDto): Promise<ApiResponse<CompetitorImport[]>> {
+    return ApiResponseBuilder.success(await this.imports.listImports(query.limit));
+  }
+
+  /** Queues a refresh sweep; poll GET /jobs/competitor-refresh/:id for progress */
+  @Post('/competitors/refresh')
+  @RequirePermissions('stores:write')
+  async refresh(@Body() dto: RefreshCompetitorsDto): Promise<ApiResponse<{ jobId: string; status: string }>> {
+    if (!dto.boundingBox && !dto.region && !dto.country) {
+      throw new BadRequestException('Provide a boundingBox, region or country to refresh');
+    }
+    if (dto.boundingBox && (dto.boundingBox.north <= dto.boundingBox.south || dto.boundingBox.east <= dto.boundingBox.west)) {
+      throw new BadRequestException('boundingBox needs north > south and east > west');
+    }
+
+    const job = await this.refreshJobs.enqueue(dto);
+    return ApiResponseBuilder.success({ jobId: job.id, status: job.status });
+  }
+
+  @Get('/competitors/changes')
+  @RequirePermissions('analytics:read')
+  async changes(@Query() query: CompetitorChangesQueryDto): Promise<ApiResponse<CompetitorChangesReport>> {
+    return ApiResponseBuilder.success(
+      await this.imports.changesReport({
+        region: query.region,
+        country: query.country,
+        since: query.since ? new Date(query.since) : undefined,
+      }),
+    );
+  }
+
+  @Get('/competitors/:id/history')
+  @RequirePermissions('stores:read')
+  async history(@Param('id') id: string): Promise<ApiResponse<CompetitorPlace & { changes: CompetitorChange[] }>> {
+    return ApiResponseBuilder.success(await this.imports.history(id));
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
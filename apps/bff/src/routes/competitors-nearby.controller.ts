@@ -1,4 +1,4 @@
-import { Controller, Post, Body, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { Controller, Post, Body, HttpException, HttpStatus, Logger, OnModuleDestroy } from '@nestjs/common';
 import { z } from 'zod';
 import { 
   GooglePlacesNearbyService, 
@@ -13,7 +13,8 @@ const NearbyCompetitorsRequestSchema = z.object({
   lat: z.number().min(-90).max(90),
   lng: z.number().min(-180).max(180),
   radiusKm: z.number().min(0.1).max(50).default(5),
-  brands: z.array(z.string()).optional()
+  brands: z.array(z.string()).optional(),
+  driveMinutes: z.number().min(1).max(60).optional()
 });
 
 /**
@@ -74,17 +75,23 @@ class RateLimiter {
  * 
  * POST /competitors/nearby
  * - Fetches competitors within radius of a location
+ * - Optionally keeps only those within driveMinutes by road
  * - Rate limited to 10 requests per minute per session
  * - Returns results with summary statistics
  */
 @Controller('competitors')
-export class CompetitorsNearbyController {
+export class CompetitorsNearbyController implements OnModuleDestroy {
   private readonly logger = new Logger(CompetitorsNearbyController.name);
   private readonly rateLimiter = new RateLimiter(60000, 10); // 10 requests per minute
+  private readonly cleanupInterval: NodeJS.Timeout;
 
   constructor(private readonly googlePlacesNearbyService: GooglePlacesNearbyService) {
     // Cleanup rate limiter every 5 minutes
-    setInterval(() => this.rateLimiter.cleanup(), 5 * 60 * 1000);
+    this.cleanupInterval = setInterval(() => this.rateLimiter.cleanup(), 5 * 60 * 1000);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.cleanupInterval);
   }
 
   /**
@@ -118,7 +125,8 @@ export class CompetitorsNearbyController {
       lat: parseResult.data.lat,
       lng: parseResult.data.lng,
       radiusKm: parseResult.data.radiusKm ?? 5,
-      brands: parseResult.data.brands
+      brands: parseResult.data.brands,
+      driveMinutes: parseResult.data.driveMinutes
     };
     
     // Rate limiting - use a simple session key based on coordinates
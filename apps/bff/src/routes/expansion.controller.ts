@@ -5,6 +5,7 @@ import { ExpansionRecommendationsDto, ExpansionRecomputeDto, ScopeExpansionDto,
 import { ValidationError } from '../errors/validation.error';
 import { validateScopeExpansionParams, validateScope } from '../utils/scopeValidation';
 import { CurrentUser } from '../decorators/current-user.decorator';
+import { RequirePermissions } from '../decorators/permissions.decorator';
 
 @Controller()
 export class ExpansionController {
@@ -70,6 +71,7 @@ export class ExpansionController {
   }
 
   @Post('/expansion/recompute')
+  @RequirePermissions('ai:run')
   async recomputeScores(@Body() body: ExpansionRecomputeDto) {
     try {
       console.info('POST /expansion/recompute called', { region: body.region });
@@ -363,6 +365,7 @@ export class ExpansionController {
   }
 
   @Post('/expansion/recompute-scope')
+  @RequirePermissions('ai:run')
   async recomputeForScope(@Body() body: ScopeRecomputeDto) {
     try {
       console.info('POST /expansion/recompute-scope called', {
@@ -415,6 +418,7 @@ export class ExpansionController {
   }
 
   @Post('/ai/pipeline/execute')
+  @RequirePermissions('ai:run')
   async executeAIPipeline(@Body() body: {
     region: string;
     bounds?: {
@@ -679,6 +683,7 @@ export class ExpansionController {
   }
 
   @Post('/expansion/ai-analysis')
+  @RequirePermissions('ai:run')
   async getScopeAIAnalysis(@Body() body: {
     scope: {
       type: string;
@@ -0,0 +1,152 @@
+import { Body, Controller, Delete, ForbiddenException, Get, Param, Post, Put, Query, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import { ExperimentDto, StopExperimentDto } from '../dto/experiments.dto';
+import {
+  ExperimentDefinition,
+  ExperimentService,
+  ExperimentStatus,
+  ExperimentWithVariants,
+} from '../services/experiments/experiment.service';
+import { ExperimentReport, ExperimentResultsService } from '../services/experiments/experiment-results.service';
+import { StoreAccessService } from '../services/store-access.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class ExperimentsController {
+  constructor(
+    private readonly experiments: ExperimentService,
+    private readonly results: ExperimentResultsService,
+    private readonly storeAccess: StoreAccessService,
+  ) {}
+
+  @Get('/experiments')
+  @RequirePermissions('analytics:read')
+  async list(@Query('status') status?: ExperimentStatus): Promise<ApiResponse<ExperimentWithVariants[]>> {
+    return ApiResponseBuilder.success(await this.experiments.list(status));
+  }
+
+  @Get('/experiments/:id')
+  @RequirePermissions('analytics:read')
+  async getById(@Param('id') id: string): Promise<ApiResponse<ExperimentWithVariants>> {
+    return ApiResponseBuilder.success(await this.experiments.get(id));
+  }
+
+  @Post('/experiments')
+  @RequirePermissions('experiments:manage')
+  async create(
+    @Body() dto: ExperimentDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ExperimentWithVariants>> {
+    const definition = this.toDefinition(dto);
+    await this.assertStoresAccessible(user, definition);
+
+    return ApiResponseBuilder.success(await this.experiments.create(definition, this.actorOf(user)));
+  }
+
+  @Put('/experiments/:id')
+  @RequirePermissions('experiments:manage')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: ExperimentDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ExperimentWithVariants>> {
+    const definition = this.toDefinition(dto);
+    await this.assertStoresAccessible(user, definition);
+
+    return ApiResponseBuilder.success(await this.experiments.update(id, definition, this.actorOf(user)));
+  }
+
+  @Post('/experiments/:id/start')
+  @RequirePermissions('experiments:manage')
+  async start(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ExperimentWithVariants>> {
+    return ApiResponseBuilder.success(await this.experiments.start(id, this.actorOf(user)));
+  }
+
+  @Post('/experiments/:id/stop')
+  @RequirePermissions('experiments:manage')
+  async stop(
+    @Param('id') id: string,
+    @Body() dto: StopExperimentDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ExperimentWithVariants>> {
+    return ApiResponseBuilder.success(
+      await this.experiments.stop(id, dto.outcome ?? 'COMPLETED', this.actorOf(user)),
+    );
+  }
+
+  @Delete('/experiments/:id')
+  @RequirePermissions('experiments:manage')
+  async delete(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<null>> {
+    await this.experiments.delete(id, this.actorOf(user));
+    return ApiResponseBuilder.success(null);
+  }
+
+  @Get('/experiments/:id/results')
+  @RequirePermissions('analytics:read')
+  async getResults(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ExperimentReport>> {
+    const experiment = await this.experiments.get(id);
+    const storeIds = await this.storeAccess.getAccessibleStoreIds(user);
+    if (storeIds !== null && experiment.assignments.some((assignment) => !storeIds.includes(assignment.storeId))) {
+      throw new ForbiddenException('Experiment includes stores outside your access');
+    }
+
+    return ApiResponseBuilder.success(await this.results.getReport(id));
+  }
+
+  @Get('/experiments/:id/stores/:storeId/variant')
+  @RequirePermissions('stores:read')
+  async getStoreVariant(
+    @Param('id') id: string,
+    @Param('storeId') storeId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<{ key: string; name: string; isControl: boolean } | null>> {
+    await this.storeAccess.assertStoreAccess(user, storeId);
+    return ApiResponseBuilder.success(await this.experiments.getStoreVariant(id, storeId));
+  }
+
+  private toDefinition(dto: ExperimentDto): ExperimentDefinition {
+    return {
+      name: dto.name.trim(),
+      description: dto.description,
+      startDate: dto.startDate ? new Date(dto.startDate) : undefined,
+      endDate: dto.endDate ? new Date(dto.endDate) : undefined,
+      storeIds: dto.storeIds,
+      variants: dto.variants.map((variant) => ({
+        key: variant.key.trim(),
+        name: variant.name.trim(),
+        isControl: variant.isControl,
+        weight: variant.weight,
+        storeIds: variant.storeIds,
+        priceRules: variant.priceRules,
+      })),
+    };
+  }
+
+  private async assertStoresAccessible(user: AuthenticatedUser | undefined, definition: ExperimentDefinition): Promise<void> {
+    const accessible = await this.storeAccess.getAccessibleStoreIds(user);
+    if (accessible === null) return;
+
+    const requested = [...definition.storeIds, ...definition.variants.flatMap((variant) => variant.storeIds ?? [])];
+    const outside = requested.filter((storeId) => !accessible.includes(storeId));
+    if (outside.length > 0) {
+      throw new ForbiddenException(`You do not have access to store(s): ${outside.join(', ')}`);
+    }
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
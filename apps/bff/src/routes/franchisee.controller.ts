@@ -8,6 +8,7 @@ import {
 import { FranchiseeAnalyticsService } from '../services/franchisee/franchisee-analytics.service';
 import { FranchiseeIntelligenceService } from '../services/franchisee/franchisee-intelligence.service';
 import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { RequirePermissions } from '../decorators/permissions.decorator';
 
 @Controller('franchisees')
 @UseInterceptors(ErrorInterceptor)
@@ -114,6 +115,7 @@ export class FranchiseeController {
   }
 
   @Post(':id/analyze')
+  @RequirePermissions('ai:run')
   async analyzeFranchisee(@Param('id') id: string) {
     return this.intelligenceService.analyzeFranchisee(id);
   }
@@ -136,26 +138,11 @@ export class FranchiseeController {
   @Post(':id/recalculate')
   async recalculateMetrics(@Param('id') id: string) {
     await this.franchiseeService.recalculateMetrics(id);
-    
-    // Recalculate scores
-    const performanceScore = await this.analyticsService.calculatePerformanceScore(id);
-    const expansionScore = await this.analyticsService.calculateExpansionScore(id);
-    const riskScore = await this.analyticsService.calculateRiskScore(id);
-
-    await this.franchiseeService.updateFranchisee(id, {
-      // @ts-ignore - these fields exist but not in UpdateDto
-      performanceScore,
-      expansionScore,
-      riskScore,
-    });
+    const scores = await this.analyticsService.recalculateScores(id);
 
     return {
       success: true,
-      scores: {
-        performanceScore,
-        expansionScore,
-        riskScore,
-      },
+      scores,
     };
   }
 }
@@ -1,6 +1,9 @@
 import { Controller, Get, Post, Put, Delete, Body, Param, Query, HttpException, HttpStatus, Logger } from '@nestjs/common';
 import { EnhancedIntelligenceConfigService, EnhancedIntelligenceConfig } from '../config/enhanced-intelligence.config';
-import { FeatureFlagsService, FeatureFlag, FeatureFlagEvaluation } from '../config/feature-flags.service';
+import { FeatureFlagsService, FeatureFlag, FeatureFlagEvaluation, FeatureFlagHistoryEntry } from '../config/feature-flags.service';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
 
 interface ConfigUpdateRequest {
   section: 'features' | 'performance' | 'thresholds' | 'ai' | 'cache' | 'monitoring';
@@ -11,7 +14,7 @@ interface FeatureFlagRequest {
   name: string;
   enabled: boolean;
   description?: string;
-  category?: 'intelligence' | 'performance' | 'monitoring' | 'experimental';
+  category?: FeatureFlag['category'];
   rolloutPercentage?: number;
   conditions?: any[];
 }
@@ -111,6 +114,7 @@ export class IntelligenceConfigController {
   }
 
   @Post('reload')
+  @RequirePermissions('settings:manage')
   async reloadConfiguration(): Promise<{ message: string; timestamp: Date }> {
     try {
       await this.configService.reloadConfiguration();
@@ -125,6 +129,7 @@ export class IntelligenceConfigController {
   }
 
   @Put('update')
+  @RequirePermissions('settings:manage')
   async updateConfiguration(@Body() request: ConfigUpdateRequest): Promise<{ message: string }> {
     try {
       const { section, updates } = request;
@@ -174,6 +179,7 @@ export class IntelligenceConfigController {
   }
 
   @Post('import')
+  @RequirePermissions('settings:manage')
   async importConfiguration(@Body() body: { configuration: string }): Promise<{ message: string }> {
     try {
       await this.configService.importConfiguration(body.configuration);
@@ -201,7 +207,7 @@ export class IntelligenceConfigController {
   @Get('flags')
   async getAllFeatureFlags(): Promise<FeatureFlag[]> {
     try {
-      return this.featureFlagsService.getAllFlags();
+      return await this.featureFlagsService.listFlags();
     } catch (error) {
       this.logger.error('Failed to get feature flags:', error);
       throw new HttpException('Failed to retrieve feature flags', HttpStatus.INTERNAL_SERVER_ERROR);
@@ -210,7 +216,7 @@ export class IntelligenceConfigController {
 
   @Get('flags/category/:category')
   async getFeatureFlagsByCategory(
-    @Param('category') category: 'intelligence' | 'performance' | 'monitoring' | 'experimental'
+    @Param('category') category: FeatureFlag['category']
   ): Promise<FeatureFlag[]> {
     try {
       return this.featureFlagsService.getFlagsByCategory(category);
@@ -248,8 +254,22 @@ export class IntelligenceConfigController {
     }
   }
 
+  @Get('flags/:flagName/history')
+  async getFeatureFlagHistory(@Param('flagName') flagName: string): Promise<FeatureFlagHistoryEntry[]> {
+    try {
+      return await this.featureFlagsService.getFlagHistory(flagName);
+    } catch (error) {
+      this.logger.error('Failed to get feature flag history:', error);
+      throw new HttpException('Failed to retrieve feature flag history', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
   @Post('flags')
-  async createFeatureFlag(@Body() request: FeatureFlagRequest): Promise<{ message: string }> {
+  @RequirePermissions('settings:manage')
+  async createFeatureFlag(
+    @Body() request: FeatureFlagRequest,
+    @CurrentUser() user?: AuthenticatedUser
+  ): Promise<{ message: string }> {
     try {
       const flag: FeatureFlag = {
         name: request.name,
@@ -260,38 +280,50 @@ export class IntelligenceConfigController {
         conditions: request.conditions
       };
 
-      await this.featureFlagsService.createFlag(flag);
+      await this.featureFlagsService.createFlag(flag, user?.email ?? user?.id ?? 'system');
       return { message: `Feature flag '${request.name}' created successfully` };
     } catch (error) {
       this.logger.error('Failed to create feature flag:', error);
       if (error instanceof Error && error.message.includes('already exists')) {
         throw new HttpException(error.message, HttpStatus.CONFLICT);
       }
+      if (error instanceof Error && /^Invalid|must be/.test(error.message)) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
       throw new HttpException('Failed to create feature flag', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
   @Put('flags/:flagName')
+  @RequirePermissions('settings:manage')
   async updateFeatureFlag(
     @Param('flagName') flagName: string,
-    @Body() updates: Partial<FeatureFlagRequest>
+    @Body() updates: Partial<FeatureFlagRequest>,
+    @CurrentUser() user?: AuthenticatedUser
   ): Promise<{ message: string }> {
     try {
-      await this.featureFlagsService.updateFlag(flagName, updates);
+      await this.featureFlagsService.updateFlag(flagName, updates, user?.email ?? user?.id ?? 'system');
       return { message: `Feature flag '${flagName}' updated successfully` };
     } catch (error) {
       this.logger.error('Failed to update feature flag:', error);
       if (error instanceof Error && error.message.includes('not found')) {
         throw new HttpException(error.message, HttpStatus.NOT_FOUND);
       }
+      if (error instanceof Error && /^Invalid|must be/.test(error.message)) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
       throw new HttpException('Failed to update feature flag', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
   @Delete('flags/:flagName')
-  async deleteFeatureFlag(@Param('flagName') flagName: string): Promise<{ message: string }> {
+  @RequirePermissions('settings:manage')
+  async deleteFeatureFlag(
+    @Param('flagName') flagName: string,
+    @CurrentUser() user?: AuthenticatedUser
+  ): Promise<{ message: string }> {
     try {
-      await this.featureFlagsService.deleteFlag(flagName);
+      await this.featureFlagsService.deleteFlag(flagName, user?.email ?? user?.id ?? 'system');
       return { message: `Feature flag '${flagName}' deleted successfully` };
     } catch (error) {
       this.logger.error('Failed to delete feature flag:', error);
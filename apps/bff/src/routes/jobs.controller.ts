@@ -0,0 +1,56 @@
+import { Controller, Get, Param, Post, Query, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import { JobQueueService, JobSummary, JobType } from '../services/jobs/job-queue.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class JobsController {
+  constructor(private readonly queue: JobQueueService) {}
+
+  @Get('/jobs/:type/:id')
+  @RequirePermissions('analytics:read')
+  async getJob(@Param('type') type: JobType, @Param('id') id: string): Promise<ApiResponse<JobSummary>> {
+    return ApiResponseBuilder.success(await this.queue.getJob(type, id));
+  }
+
+  @Get('/jobs/:type/:id/events')
+  @RequirePermissions('analytics:read')
+  async getEvents(
+    @Param('type') type: JobType,
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+  ) {
+    // Resolves the job first so unknown ids 404 instead of returning no events
+    await this.queue.getJob(type, id);
+    const take = Math.min(Math.max(parseInt(limit || '100', 10) || 100, 1), 500);
+    return ApiResponseBuilder.success(await this.queue.getEvents(type, id, take));
+  }
+
+  @Post('/jobs/:type/:id/cancel')
+  @RequirePermissions('ai:run')
+  async cancel(
+    @Param('type') type: JobType,
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<JobSummary>> {
+    return ApiResponseBuilder.success(await this.queue.cancel(type, id, this.actorOf(user)));
+  }
+
+  @Post('/jobs/:type/:id/retry')
+  @RequirePermissions('ai:run')
+  async retry(
+    @Param('type') type: JobType,
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<JobSummary>> {
+    return ApiResponseBuilder.success(await this.queue.retry(type, id, this.actorOf(user)));
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
@@ -1,10 +1,15 @@
-import { Controller, Get, Query, Inject } from '@nestjs/common';
-import { PrismaClient } from '@prisma/client';
-import { parseScope, makeWhere } from '../util/scope';
+import { Controller, Get, Query, Inject, HttpException } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { parseScope, makeWhere, makeOrderSql } from '../util/scope';
+import { FxService } from '../services/money/fx.service';
+import { normaliseCurrency, roundCurrency } from '../services/money/currency';
 
 @Controller()
 export class KpiController {
-  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly fx: FxService,
+  ) {}
 
   @Get('/kpis')
   async kpis(@Query() q: Record<string, unknown>) {
@@ -28,14 +33,27 @@ export class KpiController {
         this.prisma.menuItem.count({ where: menuWhere }),
         this.prisma.order.count({ where: { ...orderWhere, status: 'PENDING' } }),
       ]);
+      // With a reporting currency, restate each currency's daily total at that day's rate before summing
+      const currency = typeof q.currency === 'string' && q.currency ? normaliseCurrency(q.currency) : null;
+      let revenue = Number(revenueAgg._sum.total ?? 0);
+      if (currency) {
+        const convert = await this.fx.orderConverter(currency);
+        const totals = await this.dailyTotalsByCurrency(makeOrderSql(scopeParsed));
+        revenue = roundCurrency(totals.reduce((sum, total) => sum + convert(total), 0));
+      }
       return {
         scopeApplied: scopeParsed,
         ordersToday: ordersToday ?? 0,
-        revenueToday: Number(revenueAgg._sum.total ?? 0),
+        revenueToday: revenue,
+        currency,
         menuItems: menuCount ?? 0,
         pendingOrders: pending ?? 0,
       };
     } catch (error) {
+      // A bad currency or a missing FX rate is the caller's to fix, not an outage
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.error('KPIs route error:', error instanceof Error ? error.message : error, error instanceof Error ? error.stack : undefined);
       return {
         cards: [
@@ -51,4 +69,28 @@ export class KpiController {
       };
     }
   }
+
+  /**
+   * Order totals summed per order currency and UTC day, shaped like orders so
+   * the FX order converter applies. Rates are entered per day from midnight
+   * UTC, so every order in a group converts at the same rate.
+   */
+  private async dailyTotalsByCurrency(scope: Prisma.Sql) {
+    const rows = await this.prisma.$queryRaw<
+      Array<{ currency: string | null; storeCurrency: string | null; storeCountry: string | null; day: Date; total: number }>
+    >`
+      SELECT o.currency, s.currency AS "storeCurrency", s.country AS "storeCountry",
+             date_trunc('day', o."createdAt") AS day, SUM(o.total)::float AS total
+      FROM "Order" o
+      JOIN "Store" s ON s.id = o."storeId"
+      WHERE ${scope}
+      GROUP BY 1, 2, 3, 4
+    `;
+    return rows.map((row) => ({
+      total: Number(row.total),
+      currency: row.currency,
+      createdAt: row.day,
+      Store: { currency: row.storeCurrency, country: row.storeCountry },
+    }));
+  }
 }
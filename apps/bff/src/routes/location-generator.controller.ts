@@ -0,0 +1,63 @@
+import { Body, Controller, Get, Param, Post, Query, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import {
+  CounterfactualQueryDto,
+  GeneratorBacktestDto,
+  ParetoQueryDto,
+  StabilityQueryDto,
+} from '../dto/location-generator.dto';
+import {
+  CounterfactualReport,
+  GeneratorAnalysisService,
+  GeneratorBacktestReport,
+  ParetoFrontierReport,
+  StabilityReport,
+} from '../services/location-generator/generator-analysis.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class LocationGeneratorController {
+  constructor(private readonly analysis: GeneratorAnalysisService) {}
+
+  @Post('/expansion/generator/backtest')
+  @RequirePermissions('analytics:read')
+  async backtest(@Body() dto: GeneratorBacktestDto): Promise<ApiResponse<GeneratorBacktestReport>> {
+    return ApiResponseBuilder.success(
+      await this.analysis.backtest({
+        country: dto.country,
+        openedSince: new Date(dto.openedSince),
+        targetK: dto.targetK,
+        distanceThresholdKm: dto.distanceThresholdKm,
+      }),
+    );
+  }
+
+  @Get('/expansion/generator/jobs/:jobId/pareto')
+  @RequirePermissions('analytics:read')
+  async pareto(
+    @Param('jobId') jobId: string,
+    @Query() query: ParetoQueryDto,
+  ): Promise<ApiResponse<ParetoFrontierReport>> {
+    return ApiResponseBuilder.success(await this.analysis.paretoFrontier(jobId, query.minK, query.maxK));
+  }
+
+  @Get('/expansion/generator/jobs/:jobId/stability')
+  @RequirePermissions('analytics:read')
+  async stability(
+    @Param('jobId') jobId: string,
+    @Query() query: StabilityQueryDto,
+  ): Promise<ApiResponse<StabilityReport>> {
+    return ApiResponseBuilder.success(await this.analysis.stability(jobId, query.targetK, query.iterations));
+  }
+
+  @Get('/expansion/generator/jobs/:jobId/counterfactuals')
+  @RequirePermissions('analytics:read')
+  async counterfactuals(
+    @Param('jobId') jobId: string,
+    @Query() query: CounterfactualQueryDto,
+  ): Promise<ApiResponse<CounterfactualReport>> {
+    return ApiResponseBuilder.success(await this.analysis.counterfactuals(jobId, query.siteId));
+  }
+}
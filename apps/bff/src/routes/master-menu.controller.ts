@@ -0,0 +1,133 @@
+import { Body, Controller, Delete, ForbiddenException, Get, Param, Post, Put, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import { MasterMenuItemDto, MenuOverrideDto, MenuPublishDto } from '../dto/master-menu.dto';
+import {
+  EffectiveMenuItem,
+  MasterItemView,
+  MasterMenuService,
+  OverrideView,
+  PublishPreview,
+} from '../services/menu/master-menu.service';
+import { OverrideLevel } from '../services/menu/menu-resolver';
+import { StoreAccessService } from '../services/store-access.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class MasterMenuController {
+  constructor(
+    private readonly masterMenu: MasterMenuService,
+    private readonly storeAccess: StoreAccessService,
+  ) {}
+
+  @Get('/menu/master/items')
+  @RequirePermissions('menu:read')
+  async listItems(): Promise<ApiResponse<MasterItemView[]>> {
+    return ApiResponseBuilder.success(await this.masterMenu.listItems());
+  }
+
+  @Get('/menu/master/items/:id')
+  @RequirePermissions('menu:read')
+  async getItem(@Param('id') id: string): Promise<ApiResponse<MasterItemView>> {
+    return ApiResponseBuilder.success(await this.masterMenu.getItem(id));
+  }
+
+  @Post('/menu/master/items')
+  @RequirePermissions('settings:manage')
+  async createItem(
+    @Body() dto: MasterMenuItemDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MasterItemView>> {
+    return ApiResponseBuilder.success(await this.masterMenu.createItem(dto, this.actorOf(user)));
+  }
+
+  @Put('/menu/master/items/:id')
+  @RequirePermissions('settings:manage')
+  async updateItem(
+    @Param('id') id: string,
+    @Body() dto: MasterMenuItemDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MasterItemView>> {
+    return ApiResponseBuilder.success(await this.masterMenu.updateItem(id, dto, this.actorOf(user)));
+  }
+
+  @Delete('/menu/master/items/:id')
+  @RequirePermissions('settings:manage')
+  async deleteItem(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<{ deleted: boolean }>> {
+    await this.masterMenu.deleteItem(id, this.actorOf(user));
+    return ApiResponseBuilder.success({ deleted: true });
+  }
+
+  @Put('/menu/master/items/:id/overrides')
+  @RequirePermissions('menu:write')
+  async setOverride(
+    @Param('id') id: string,
+    @Body() dto: MenuOverrideDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<OverrideView>> {
+    await this.assertScopeAccess(dto.level, dto.scope, user);
+    return ApiResponseBuilder.success(await this.masterMenu.setOverride(id, dto, this.actorOf(user)));
+  }
+
+  @Delete('/menu/master/overrides/:overrideId')
+  @RequirePermissions('menu:write')
+  async deleteOverride(
+    @Param('overrideId') overrideId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<{ deleted: boolean }>> {
+    const override = await this.masterMenu.getOverride(overrideId);
+    await this.assertScopeAccess(override.level as OverrideLevel, override.scope, user);
+    await this.masterMenu.deleteOverride(overrideId, this.actorOf(user));
+    return ApiResponseBuilder.success({ deleted: true });
+  }
+
+  @Get('/menu/master/stores/:storeId')
+  @RequirePermissions('menu:read')
+  async effectiveMenu(
+    @Param('storeId') storeId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<EffectiveMenuItem[]>> {
+    await this.storeAccess.assertStoreAccess(user, storeId);
+    return ApiResponseBuilder.success(await this.masterMenu.effectiveMenu(storeId));
+  }
+
+  @Post('/menu/master/publish/preview')
+  @RequirePermissions('menu:write')
+  async previewPublish(
+    @Body() dto: MenuPublishDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<PublishPreview>> {
+    const storeIds = await this.storeAccess.getAccessibleStoreIds(user);
+    return ApiResponseBuilder.success(await this.masterMenu.previewPublish(dto, storeIds));
+  }
+
+  @Post('/menu/master/publish')
+  @RequirePermissions('menu:write')
+  async publish(
+    @Body() dto: MenuPublishDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<PublishPreview>> {
+    const storeIds = await this.storeAccess.getAccessibleStoreIds(user);
+    return ApiResponseBuilder.success(await this.masterMenu.publish(dto, this.actorOf(user), storeIds));
+  }
+
+  /** Overrides for a country or region need access to every store in it */
+  private async assertScopeAccess(level: OverrideLevel, scope: string, user?: AuthenticatedUser): Promise<void> {
+    const accessible = await this.storeAccess.getAccessibleStoreIds(user);
+    if (accessible === null) return;
+    const covered = await this.masterMenu.storesInScope(level, scope);
+    if (covered.some(storeId => !accessible.includes(storeId))) {
+      throw new ForbiddenException('You do not have access to every store this override covers');
+    }
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
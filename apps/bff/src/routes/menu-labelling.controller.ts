@@ -0,0 +1,105 @@
+import { Body, Controller, Get, Param, Put, Query, Res, UseInterceptors } from '@nestjs/common';
+import { Response } from 'express';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import { ItemLabellingDto, LabellingProfileQueryDto, ModifierLabellingDto } from '../dto/menu-labelling.dto';
+import {
+  AllergenMatrix,
+  ConfiguredItemProfile,
+  ItemLabellingView,
+  LabelledModifierView,
+  MenuLabellingService,
+} from '../services/menu/menu-labelling.service';
+import { StoreAccessService } from '../services/store-access.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class MenuLabellingController {
+  constructor(
+    private readonly labelling: MenuLabellingService,
+    private readonly storeAccess: StoreAccessService,
+  ) {}
+
+  @Get('/menu/items/:id/labelling')
+  @RequirePermissions('menu:read')
+  async getItem(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ItemLabellingView>> {
+    const item = await this.labelling.getItem(id);
+    await this.storeAccess.assertStoreAccess(user, item.storeId);
+    return ApiResponseBuilder.success(item);
+  }
+
+  @Put('/menu/items/:id/labelling')
+  @RequirePermissions('menu:write')
+  async updateItem(
+    @Param('id') id: string,
+    @Body() dto: ItemLabellingDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ItemLabellingView>> {
+    const item = await this.labelling.getItem(id);
+    await this.storeAccess.assertStoreAccess(user, item.storeId);
+    return ApiResponseBuilder.success(await this.labelling.updateItem(id, dto, this.actorOf(user)));
+  }
+
+  /** The allergens and nutrition of the item as ordered with the given modifiers */
+  @Get('/menu/items/:id/labelling/profile')
+  @RequirePermissions('menu:read')
+  async profile(
+    @Param('id') id: string,
+    @Query() query: LabellingProfileQueryDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ConfiguredItemProfile>> {
+    const item = await this.labelling.getItem(id);
+    await this.storeAccess.assertStoreAccess(user, item.storeId);
+    return ApiResponseBuilder.success(await this.labelling.profile(id, query.modifierIds ?? []));
+  }
+
+  @Put('/menu/modifier-groups/:groupId/modifiers/:modifierId/labelling')
+  @RequirePermissions('menu:write')
+  async updateModifier(
+    @Param('groupId') groupId: string,
+    @Param('modifierId') modifierId: string,
+    @Body() dto: ModifierLabellingDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<LabelledModifierView>> {
+    return ApiResponseBuilder.success(await this.labelling.updateModifier(groupId, modifierId, dto, this.actorOf(user)));
+  }
+
+  @Get('/menu/allergen-matrix/:storeId')
+  @RequirePermissions('menu:read')
+  async matrix(
+    @Param('storeId') storeId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<AllergenMatrix>> {
+    await this.storeAccess.assertStoreAccess(user, storeId);
+    return ApiResponseBuilder.success(await this.labelling.matrix(storeId));
+  }
+
+  @Get('/menu/allergen-matrix/:storeId/csv')
+  @RequirePermissions('menu:read')
+  async exportMatrix(
+    @Param('storeId') storeId: string,
+    @Res() res: Response,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<void> {
+    await this.storeAccess.assertStoreAccess(user, storeId);
+    const file = await this.labelling.matrixCsv(storeId);
+    res
+      .status(200)
+      .set({
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Content-Length': String(file.body.length),
+      })
+      .send(file.body);
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
@@ -0,0 +1,224 @@
+import { Body, Controller, Delete, ForbiddenException, Get, Param, Patch, Post, Query, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import {
+  CreateMenuVersionDto,
+  ListRolloutsQueryDto,
+  MarketQueryDto,
+  ScheduleRolloutDto,
+  UpdateMenuVersionDto,
+  VersionCategoryPatchDto,
+  VersionDiffQueryDto,
+  VersionItemPatchDto,
+  VersionModifierGroupPatchDto,
+  VersionReviewDto,
+} from '../dto/master-menu.dto';
+import { MasterMenuService, PublishPreview } from '../services/menu/master-menu.service';
+import { MenuDiff } from '../services/menu/menu-diff';
+import {
+  ALL_MARKETS,
+  MenuRolloutView,
+  MenuVersionService,
+  MenuVersionSummary,
+  MenuVersionView,
+} from '../services/menu/menu-version.service';
+import { StoreAccessService } from '../services/store-access.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class MenuVersionsController {
+  constructor(
+    private readonly versions: MenuVersionService,
+    private readonly masterMenu: MasterMenuService,
+    private readonly storeAccess: StoreAccessService,
+  ) {}
+
+  @Get('/menu/versions')
+  @RequirePermissions('menu:read')
+  async list(): Promise<ApiResponse<MenuVersionSummary[]>> {
+    return ApiResponseBuilder.success(await this.versions.list());
+  }
+
+  @Get('/menu/versions/diff')
+  @RequirePermissions('menu:read')
+  async diff(@Query() query: VersionDiffQueryDto): Promise<ApiResponse<MenuDiff>> {
+    return ApiResponseBuilder.success(await this.versions.diff(query.from, query.to));
+  }
+
+  @Get('/menu/versions/:id')
+  @RequirePermissions('menu:read')
+  async get(@Param('id') id: string): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.get(id));
+  }
+
+  @Post('/menu/versions')
+  @RequirePermissions('menu:write')
+  async create(
+    @Body() dto: CreateMenuVersionDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.create(dto, this.actorOf(user)));
+  }
+
+  @Patch('/menu/versions/:id')
+  @RequirePermissions('menu:write')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateMenuVersionDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.update(id, dto, this.actorOf(user)));
+  }
+
+  @Delete('/menu/versions/:id')
+  @RequirePermissions('menu:write')
+  async delete(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<{ deleted: boolean }>> {
+    await this.versions.delete(id, this.actorOf(user));
+    return ApiResponseBuilder.success({ deleted: true });
+  }
+
+  @Post('/menu/versions/:id/refresh')
+  @RequirePermissions('menu:write')
+  async refresh(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.refresh(id, this.actorOf(user)));
+  }
+
+  @Patch('/menu/versions/:id/items/:itemId')
+  @RequirePermissions('menu:write')
+  async editItem(
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+    @Body() dto: VersionItemPatchDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.editItem(id, itemId, dto, this.actorOf(user)));
+  }
+
+  @Patch('/menu/versions/:id/categories/:categoryId')
+  @RequirePermissions('menu:write')
+  async editCategory(
+    @Param('id') id: string,
+    @Param('categoryId') categoryId: string,
+    @Body() dto: VersionCategoryPatchDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.editCategory(id, categoryId, dto, this.actorOf(user)));
+  }
+
+  @Patch('/menu/versions/:id/modifier-groups/:groupId')
+  @RequirePermissions('menu:write')
+  async editModifierGroup(
+    @Param('id') id: string,
+    @Param('groupId') groupId: string,
+    @Body() dto: VersionModifierGroupPatchDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.editModifierGroup(id, groupId, dto, this.actorOf(user)));
+  }
+
+  @Post('/menu/versions/:id/submit')
+  @RequirePermissions('menu:write')
+  async submit(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.submit(id, this.actorOf(user)));
+  }
+
+  @Post('/menu/versions/:id/approve')
+  @RequirePermissions('settings:manage')
+  async approve(
+    @Param('id') id: string,
+    @Body() dto: VersionReviewDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.approve(id, this.actorOf(user), dto.notes));
+  }
+
+  @Post('/menu/versions/:id/reject')
+  @RequirePermissions('settings:manage')
+  async reject(
+    @Param('id') id: string,
+    @Body() dto: VersionReviewDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuVersionView>> {
+    return ApiResponseBuilder.success(await this.versions.reject(id, this.actorOf(user), dto.notes));
+  }
+
+  @Get('/menu/versions/:id/preview')
+  @RequirePermissions('menu:write')
+  async preview(
+    @Param('id') id: string,
+    @Query() query: MarketQueryDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<PublishPreview>> {
+    await this.assertMarketAccess(query.market, user);
+    return ApiResponseBuilder.success(await this.versions.preview(id, query.market));
+  }
+
+  @Post('/menu/versions/:id/rollouts')
+  @RequirePermissions('menu:write')
+  async schedule(
+    @Param('id') id: string,
+    @Body() dto: ScheduleRolloutDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuRolloutView>> {
+    await this.assertMarketAccess(dto.market, user);
+    const goLiveAt = dto.goLiveAt ? new Date(dto.goLiveAt) : undefined;
+    return ApiResponseBuilder.success(await this.versions.schedule(id, dto.market, goLiveAt, this.actorOf(user)));
+  }
+
+  @Get('/menu/rollouts')
+  @RequirePermissions('menu:read')
+  async listRollouts(@Query() query: ListRolloutsQueryDto): Promise<ApiResponse<MenuRolloutView[]>> {
+    return ApiResponseBuilder.success(await this.versions.listRollouts(query.market));
+  }
+
+  @Post('/menu/rollouts/:id/cancel')
+  @RequirePermissions('menu:write')
+  async cancel(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuRolloutView>> {
+    const rollout = await this.versions.getRollout(id);
+    await this.assertMarketAccess(rollout.market, user);
+    return ApiResponseBuilder.success(await this.versions.cancelRollout(id, this.actorOf(user)));
+  }
+
+  @Post('/menu/rollouts/:id/rollback')
+  @RequirePermissions('menu:write')
+  async rollback(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<MenuRolloutView>> {
+    const rollout = await this.versions.getRollout(id);
+    await this.assertMarketAccess(rollout.market, user);
+    return ApiResponseBuilder.success(await this.versions.rollback(id, this.actorOf(user)));
+  }
+
+  /** Rolling a version out to a market needs access to every store in it */
+  private async assertMarketAccess(market: string, user?: AuthenticatedUser): Promise<void> {
+    const accessible = await this.storeAccess.getAccessibleStoreIds(user);
+    if (accessible === null) return;
+    if (market.trim().toUpperCase() === ALL_MARKETS) {
+      throw new ForbiddenException('Only users with access to every store can roll out to all markets');
+    }
+    const covered = await this.masterMenu.storesInScope('COUNTRY', market);
+    if (covered.some(storeId => !accessible.includes(storeId))) {
+      throw new ForbiddenException('You do not have access to every store in this market');
+    }
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
@@ -27,6 +27,10 @@ import {
   MENU_ITEM_PRICING_SELECT
 } from '../selectors/menu.selectors';
 import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { StoreAccessService } from '../services/store-access.service';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
 import { createAuditUtil } from '../util/audit.util';
 import { 
   MenuItemResponse, 
@@ -63,17 +67,24 @@ import {
 @Controller()
 @UseInterceptors(ErrorInterceptor)
 export class MenuController {
-  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly storeAccess: StoreAccessService,
+  ) {}
 
   @Get('/menu/items')
-  async getMenuItems(@ValidateQuery(MenuItemQuerySchema) q: MenuItemQueryDto): Promise<MenuItemResponse[]> {
+  @RequirePermissions('menu:read')
+  async getMenuItems(
+    @ValidateQuery(MenuItemQuerySchema) q: MenuItemQueryDto,
+    @CurrentUser() user: AuthenticatedUser
+  ): Promise<MenuItemResponse[]> {
     const where = makeWhere(parseScope(q as Record<string, unknown>)); // supports region/country/storeId
     const storeWhere: Record<string, unknown> = (where.store as Record<string, unknown>) ?? {};
     
     const results = await this.prisma.menuItem.findMany({
-      where: {
+      where: await this.storeAccess.restrictByStoreId(user, {
         Store: storeWhere,
-      },
+      }),
       select: MENU_ITEM_SELECT,
       orderBy: { name: 'asc' },
       take: q.take || 100,
@@ -84,8 +95,13 @@ export class MenuController {
   }
 
   @Post('/menu/items')
-  async createMenuItem(@ValidateBody(CreateMenuItemSchema) body: CreateMenuItemDto): Promise<ApiResponse<MenuItemResponse>> {
+  @RequirePermissions('menu:write')
+  async createMenuItem(
+    @ValidateBody(CreateMenuItemSchema) body: CreateMenuItemDto,
+    @CurrentUser() user: AuthenticatedUser
+  ): Promise<ApiResponse<MenuItemResponse>> {
     const { name, price, storeId, active = true } = body;
+    await this.storeAccess.assertStoreAccess(user, storeId);
 
     // Verify store exists
     const store = await this.prisma.store.findUnique({
@@ -139,6 +155,7 @@ export class MenuController {
   }
 
   @Get('/menu/modifier-groups')
+  @RequirePermissions('menu:read')
   async getModifierGroups(): Promise<ApiResponse<ModifierGroupResponse[]>> {
     const groups = await this.prisma.modifierGroup.findMany({
       where: { active: true },
@@ -152,6 +169,7 @@ export class MenuController {
 
 
   @Get('/menu/items/:id/modifiers')
+  @RequirePermissions('menu:read')
   async getItemModifiers(@Param('id') itemId: string): Promise<ApiResponse<ModifierGroupResponse[]>> {
     // Single query to get menu item with its modifiers
     const menuItemWithModifiers = await this.prisma.menuItem.findUnique({
@@ -168,6 +186,7 @@ export class MenuController {
   }
 
   @Post('/menu/items/:id/modifiers')
+  @RequirePermissions('menu:write')
   async attachModifier(
     @ValidateParams(MenuItemParamsSchema) params: { id: string },
     @ValidateBody(AttachModifierSchema) body: AttachModifierDto
@@ -235,6 +254,7 @@ export class MenuController {
   }
 
   @Delete('/menu/items/:id/modifiers/:groupId')
+  @RequirePermissions('menu:write')
   async detachModifier(
     @Param('id') itemId: string,
     @Param('groupId') groupId: string
@@ -292,6 +312,7 @@ export class MenuController {
 
   // Modifier Group CRUD endpoints
   @Post('/menu/modifier-groups')
+  @RequirePermissions('menu:write')
   async createModifierGroup(@Body() body: CreateModifierGroupDto): Promise<ApiResponse<ModifierGroupResponse>> {
     const { name, description, minSelection = 0, maxSelection, required = false, active = true } = body;
 
@@ -344,6 +365,7 @@ export class MenuController {
   }
 
   @Patch('/menu/modifier-groups/:id')
+  @RequirePermissions('menu:write')
   async updateModifierGroup(
     @Param('id') groupId: string,
     @Body() body: UpdateModifierGroupDto
@@ -379,6 +401,7 @@ export class MenuController {
   }
 
   @Delete('/menu/modifier-groups/:id')
+  @RequirePermissions('menu:write')
   async deleteModifierGroup(@Param('id') groupId: string): Promise<ApiResponse<null>> {
     // Verify modifier group exists
     const existing = await this.prisma.modifierGroup.findUnique({
@@ -397,6 +420,7 @@ export class MenuController {
 
   // Individual Modifier CRUD endpoints
   @Get('/menu/modifier-groups/:groupId/modifiers')
+  @RequirePermissions('menu:read')
   async getModifiers(@Param('groupId') groupId: string): Promise<ApiResponse<ModifierResponse[]>> {
     // Verify modifier group exists
     const group = await this.prisma.modifierGroup.findUnique({
@@ -421,6 +445,7 @@ export class MenuController {
   }
 
   @Post('/menu/modifier-groups/:groupId/modifiers')
+  @RequirePermissions('menu:write')
   async createModifier(
     @Param('groupId') groupId: string,
     @Body() body: CreateModifierDto
@@ -463,6 +488,7 @@ export class MenuController {
   }
 
   @Patch('/menu/modifier-groups/:groupId/modifiers/:modifierId')
+  @RequirePermissions('menu:write')
   async updateModifier(
     @Param('groupId') groupId: string,
     @Param('modifierId') modifierId: string,
@@ -506,6 +532,7 @@ export class MenuController {
   }
 
   @Delete('/menu/modifier-groups/:groupId/modifiers/:modifierId')
+  @RequirePermissions('menu:write')
   async deleteModifier(
     @Param('groupId') groupId: string,
     @Param('modifierId') modifierId: string
@@ -530,6 +557,7 @@ export class MenuController {
 
   // Category endpoints
   @Get('/menu/categories')
+  @RequirePermissions('menu:read')
   async getCategories(): Promise<ApiResponse<CategoryResponse[]>> {
     const categories = await this.prisma.category.findMany({
       select: {
@@ -555,6 +583,7 @@ export class MenuController {
   }
 
   @Get('/menu/categories/:id')
+  @RequirePermissions('menu:read')
   async getCategory(@Param('id') categoryId: string): Promise<ApiResponse<CategoryWithItemsResponse>> {
     const category = await this.prisma.category.findUnique({
       where: { id: categoryId },
@@ -580,6 +609,7 @@ export class MenuController {
   }
 
   @Post('/menu/categories')
+  @RequirePermissions('menu:write')
   async createCategory(@Body() body: CreateCategoryDto): Promise<ApiResponse<CategoryResponse>> {
     const { name, description, sortOrder = 0, active = true } = body;
 
@@ -605,6 +635,7 @@ export class MenuController {
   }
 
   @Patch('/menu/categories/:id')
+  @RequirePermissions('menu:write')
   async updateCategory(
     @Param('id') categoryId: string,
     @Body() body: UpdateCategoryDto
@@ -640,6 +671,7 @@ export class MenuController {
   }
 
   @Delete('/menu/categories/:id')
+  @RequirePermissions('menu:write')
   async deleteCategory(@Param('id') categoryId: string): Promise<ApiResponse<null>> {
     // Verify category exists
     const existing = await this.prisma.category.findUnique({
@@ -670,6 +702,7 @@ export class MenuController {
   }
 
   @Put('/menu/categories/reorder')
+  @RequirePermissions('menu:write')
   async reorderCategories(@Body() body: ReorderCategoriesDto): Promise<ApiResponse<null>> {
     const { categoryIds } = body;
 
@@ -698,6 +731,7 @@ export class MenuController {
 
   // Category-Item relationship endpoints
   @Post('/menu/categories/:id/items')
+  @RequirePermissions('menu:write')
   async assignItemToCategory(
     @Param('id') categoryId: string,
     @Body() body: CategoryItemAssignmentDto
@@ -745,6 +779,7 @@ export class MenuController {
   }
 
   @Delete('/menu/categories/:id/items/:itemId')
+  @RequirePermissions('menu:write')
   async removeItemFromCategory(
     @Param('id') categoryId: string,
     @Param('itemId') menuItemId: string
@@ -777,15 +812,19 @@ export class MenuController {
 
   // Pricing endpoints
   @Get('/menu/pricing')
-  async getMenuPricing(@Query() q: MenuItemQueryDto): Promise<ApiResponse<MenuItemPricingResponse[]>> {
+  @RequirePermissions('menu:read')
+  async getMenuPricing(
+    @Query() q: MenuItemQueryDto,
+    @CurrentUser() user: AuthenticatedUser
+  ): Promise<ApiResponse<MenuItemPricingResponse[]>> {
     const where = makeWhere(parseScope(q as Record<string, unknown>));
     const storeWhere: Record<string, unknown> = (where.store as Record<string, unknown>) ?? {};
     
     const results = await this.prisma.menuItem.findMany({
-      where: {
+      where: await this.storeAccess.restrictByStoreId(user, {
         Store: storeWhere,
         active: true,
-      },
+      }),
       select: MENU_ITEM_PRICING_SELECT,
       orderBy: { name: 'asc' },
       take: q.take || 100,
@@ -804,9 +843,11 @@ export class MenuController {
   }
 
   @Patch('/menu/pricing/:itemId')
+  @RequirePermissions('pricing:write')
   async updateMenuItemPricing(
     @Param('itemId') itemId: string,
-    @Body() body: UpdateMenuItemPricingDto
+    @Body() body: UpdateMenuItemPricingDto,
+    @CurrentUser() user: AuthenticatedUser
   ): Promise<ApiResponse<MenuItemPricingResponse>> {
     const { basePrice } = body;
 
@@ -825,6 +866,8 @@ export class MenuController {
       return ApiResponseBuilder.error('Menu item not found');
     }
 
+    await this.storeAccess.assertStoreAccess(user, existingItem.storeId);
+
     // Create audit trail
     const auditUtil = createAuditUtil(this.prisma);
     const oldData = {
@@ -0,0 +1,110 @@
+import { Body, Controller, Delete, Get, Param, Post, Put, Query, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import { FxConvertQueryDto, FxRateDto, FxRateQueryDto, TaxCategoryRateDto, TaxSettingDto } from '../dto/money.dto';
+import { TaxService, TaxSettingView } from '../services/money/tax.service';
+import { FxRateView, FxService } from '../services/money/fx.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class MoneyController {
+  constructor(
+    private readonly tax: TaxService,
+    private readonly fx: FxService,
+  ) {}
+
+  @Get('/tax/settings')
+  @RequirePermissions('analytics:read')
+  async listTaxSettings(): Promise<ApiResponse<TaxSettingView[]>> {
+    return ApiResponseBuilder.success(await this.tax.list());
+  }
+
+  @Put('/tax/settings/:country')
+  @RequirePermissions('settings:manage')
+  async upsertTaxSetting(
+    @Param('country') country: string,
+    @Body() dto: TaxSettingDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<TaxSettingView>> {
+    return ApiResponseBuilder.success(await this.tax.upsert(country, dto, this.actorOf(user)));
+  }
+
+  @Delete('/tax/settings/:country')
+  @RequirePermissions('settings:manage')
+  async deleteTaxSetting(
+    @Param('country') country: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<null>> {
+    await this.tax.remove(country, this.actorOf(user));
+    return ApiResponseBuilder.success(null);
+  }
+
+  @Put('/tax/settings/:country/categories/:categoryId')
+  @RequirePermissions('settings:manage')
+  async setCategoryRate(
+    @Param('country') country: string,
+    @Param('categoryId') categoryId: string,
+    @Body() dto: TaxCategoryRateDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<TaxSettingView>> {
+    return ApiResponseBuilder.success(await this.tax.setCategoryRate(country, categoryId, dto.rate, this.actorOf(user)));
+  }
+
+  @Delete('/tax/settings/:country/categories/:categoryId')
+  @RequirePermissions('settings:manage')
+  async removeCategoryRate(
+    @Param('country') country: string,
+    @Param('categoryId') categoryId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<TaxSettingView>> {
+    return ApiResponseBuilder.success(await this.tax.removeCategoryRate(country, categoryId, this.actorOf(user)));
+  }
+
+  @Get('/fx/rates')
+  @RequirePermissions('analytics:read')
+  async listRates(@Query() query: FxRateQueryDto): Promise<ApiResponse<FxRateView[]>> {
+    return ApiResponseBuilder.success(await this.fx.list(query));
+  }
+
+  @Post('/fx/rates')
+  @RequirePermissions('settings:manage')
+  async createRate(
+    @Body() dto: FxRateDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<FxRateView>> {
+    return ApiResponseBuilder.success(await this.fx.create(
+      { ...dto, effectiveFrom: new Date(dto.effectiveFrom) },
+      this.actorOf(user),
+    ));
+  }
+
+  @Delete('/fx/rates/:id')
+  @RequirePermissions('settings:manage')
+  async deleteRate(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<null>> {
+    await this.fx.remove(id, this.actorOf(user));
+    return ApiResponseBuilder.success(null);
+  }
+
+  /** Converts an amount at the rate in effect on `at` (default now) */
+  @Get('/fx/convert')
+  @RequirePermissions('analytics:read')
+  async convert(@Query() query: FxConvertQueryDto) {
+    const at = query.at ? new Date(query.at) : new Date();
+    return ApiResponseBuilder.success({
+      ...(await this.fx.convert(query.amount, query.from, query.to, at)),
+      from: query.from.toUpperCase(),
+      to: query.to.toUpperCase(),
+      at,
+    });
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
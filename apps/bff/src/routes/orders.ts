@@ -2,6 +2,15 @@ import { Controller, Get, Post, Patch, Inject, Query, Body, Param, HttpException
 import { PrismaClient } from '@prisma/client';
 import { parseScope, makeWhere } from '../util/scope';
 import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { OrderPricingService } from '../services/orders/order-pricing.service';
+import { StoreAccessService } from '../services/store-access.service';
+import { StoreHoursService } from '../services/hours/store-hours.service';
+import { TaxService } from '../services/money/tax.service';
+import { FxService, REPORTABLE_ORDER_SELECT, ReportableOrder } from '../services/money/fx.service';
+import { normaliseCurrency, roundCurrency, storeCurrency } from '../services/money/currency';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
 
 interface CreateOrderDto {
   storeId: string;
@@ -9,6 +18,7 @@ interface CreateOrderDto {
   items: Array<{
     menuItemId: string;
     quantity: number;
+    modifierIds?: string[];
   }>;
 }
 
@@ -19,12 +29,20 @@ interface UpdateOrderStatusDto {
 @Controller()
 @UseInterceptors(ErrorInterceptor)
 export class OrdersController {
-  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly pricingService: OrderPricingService,
+    private readonly storeAccess: StoreAccessService,
+    private readonly storeHours: StoreHoursService,
+    private readonly taxService: TaxService,
+    private readonly fx: FxService,
+  ) {}
 
   @Get('/orders/recent')
-  async recent(@Query() q: Record<string, unknown>) {
+  @RequirePermissions('orders:read')
+  async recent(@Query() q: Record<string, unknown>, @CurrentUser() user: AuthenticatedUser) {
     const w = makeWhere(parseScope(q)) as Record<string, unknown>;
-    const where: Record<string, unknown> = { ...(w || {}) };
+    let where: Record<string, unknown> = { ...(w || {}) };
     
     // Handle store filtering
     if (where.store) {
@@ -74,6 +92,8 @@ export class OrdersController {
       ];
     }
 
+    where = await this.storeAccess.restrictByStoreId(user, where);
+
     // Handle pagination
     const page = q.page ? parseInt(String(q.page), 10) : 1;
     const limit = q.limit ? parseInt(String(q.limit), 10) : 10;
@@ -85,6 +105,7 @@ export class OrdersController {
         select: {
           id: true,
           total: true,
+          currency: true,
           status: true,
           createdAt: true,
           Store: { 
@@ -93,7 +114,8 @@ export class OrdersController {
               name: true, 
               region: true, 
               country: true, 
-              city: true 
+              city: true,
+              currency: true
             } 
           },
           User: {
@@ -113,7 +135,8 @@ export class OrdersController {
     return {
       orders: orders.map(order => ({ 
         ...order, 
-        total: Number(order.total ?? 0) 
+        total: Number(order.total ?? 0),
+        currency: order.currency ?? storeCurrency(order.Store)
       })),
       pagination: {
         page,
@@ -125,12 +148,16 @@ export class OrdersController {
   }
 
   @Get('/orders/:id')
-  async getById(@Param('id') id: string) {
+  @RequirePermissions('orders:read')
+  async getById(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
     const order = await this.prisma.order.findUnique({
       where: { id },
       select: {
         id: true,
         total: true,
+        netTotal: true,
+        taxTotal: true,
+        currency: true,
         status: true,
         createdAt: true,
         updatedAt: true,
@@ -140,7 +167,8 @@ export class OrdersController {
             name: true, 
             region: true, 
             country: true, 
-            city: true 
+            city: true,
+            currency: true
           } 
         },
         User: {
@@ -154,13 +182,25 @@ export class OrdersController {
             id: true,
             quantity: true,
             price: true,
+            basePrice: true,
+            priceOverrideId: true,
             subtotal: true,
+            taxRate: true,
+            taxAmount: true,
             MenuItem: {
               select: {
                 id: true,
                 name: true,
                 price: true,
               }
+            },
+            modifiers: {
+              select: {
+                modifierId: true,
+                modifierGroupId: true,
+                name: true,
+                priceAdjustment: true,
+              }
             }
           }
         }
@@ -171,23 +211,38 @@ export class OrdersController {
       throw new HttpException('Order not found', HttpStatus.NOT_FOUND);
     }
 
+    await this.storeAccess.assertStoreAccess(user, order.Store.id);
+
     return {
       ...order,
       total: Number(order.total ?? 0),
+      netTotal: order.netTotal === null ? null : Number(order.netTotal),
+      taxTotal: order.taxTotal === null ? null : Number(order.taxTotal),
+      currency: order.currency ?? storeCurrency(order.Store),
       items: order.items.map(item => ({
         ...item,
         price: Number(item.price),
+        basePrice: item.basePrice === null ? null : Number(item.basePrice),
         subtotal: Number(item.subtotal),
+        taxRate: item.taxRate === null ? null : Number(item.taxRate),
+        taxAmount: item.taxAmount === null ? null : Number(item.taxAmount),
         MenuItem: {
           ...item.MenuItem,
           price: Number(item.MenuItem.price),
-        }
+        },
+        modifiers: item.modifiers.map(modifier => ({
+          ...modifier,
+          priceAdjustment: Number(modifier.priceAdjustment),
+        }))
       }))
     };
   }
 
   @Post('/orders/create')
-  async create(@Body() dto: CreateOrderDto) {
+  @RequirePermissions('orders:write')
+  async create(@Body() dto: CreateOrderDto, @CurrentUser() user: AuthenticatedUser) {
+    await this.storeAccess.assertStoreAccess(user, dto.storeId);
+
     try {
       // Validate store exists
       const store = await this.prisma.store.findUnique({
@@ -198,38 +253,13 @@ export class OrdersController {
         throw new HttpException('Store not found', HttpStatus.BAD_REQUEST);
       }
 
-      // Validate and fetch menu items
-      const menuItems = await this.prisma.menuItem.findMany({
-        where: {
-          id: { in: dto.items.map(item => item.menuItemId) },
-          storeId: dto.storeId,
-          active: true
-        }
-      });
+      // Resolve overrides and modifiers into unit prices
+      const priced = await this.pricingService.priceOrder(dto.storeId, dto.items);
 
-      if (menuItems.length !== dto.items.length) {
-        throw new HttpException('One or more menu items not found or inactive', HttpStatus.BAD_REQUEST);
-      }
-
-      // Calculate order total
-      let total = 0;
-      const orderItems = dto.items.map(item => {
-        const menuItem = menuItems.find(mi => mi.id === item.menuItemId);
-        if (!menuItem) {
-          throw new HttpException(`Menu item ${item.menuItemId} not found`, HttpStatus.BAD_REQUEST);
-        }
-
-        const price = Number(menuItem.price);
-        const subtotal = price * item.quantity;
-        total += subtotal;
-
-        return {
-          menuItemId: item.menuItemId,
-          quantity: item.quantity,
-          price: menuItem.price,
-          subtotal: subtotal
-        };
-      });
+      // Tax each line at its country and category rate; the order total is gross
+      const tax = await this.taxService.taxOrder(store.country, priced.lines);
+      const total = tax.grossTotal;
+      const currency = storeCurrency(store);
 
       // Create order with items
       const order = await this.prisma.order.create({
@@ -237,9 +267,24 @@ export class OrdersController {
           storeId: dto.storeId,
           userId: dto.userId,
           total: total,
+          netTotal: tax.netTotal,
+          taxTotal: tax.taxTotal,
+          currency,
           status: 'PENDING',
           items: {
-            create: orderItems
+            create: priced.lines.map((line, index) => ({
+              menuItemId: line.menuItemId,
+              quantity: line.quantity,
+              basePrice: line.basePrice,
+              priceOverrideId: line.priceOverrideId,
+              price: line.unitPrice,
+              subtotal: line.subtotal,
+              taxRate: tax.lines[index].taxRate,
+              taxAmount: tax.lines[index].tax,
+              modifiers: {
+                create: line.modifiers
+              }
+            }))
           }
         },
         include: {
@@ -266,7 +311,8 @@ export class OrdersController {
                   name: true,
                   price: true
                 }
-              }
+              },
+              modifiers: true
             }
           }
         }
@@ -281,7 +327,11 @@ export class OrdersController {
             orderId: order.id,
             storeId: dto.storeId,
             total: total,
-            itemCount: dto.items.length
+            taxTotal: tax.taxTotal,
+            currency,
+            itemCount: dto.items.length,
+            overridesApplied: priced.lines.filter(line => line.priceOverrideId).length,
+            modifierCount: priced.lines.reduce((sum, line) => sum + line.modifiers.length, 0)
           })
         }
       });
@@ -289,14 +339,23 @@ export class OrdersController {
       return {
         ...order,
         total: Number(order.total),
+        netTotal: Number(order.netTotal),
+        taxTotal: Number(order.taxTotal),
         items: order.items.map(item => ({
           ...item,
           price: Number(item.price),
+          basePrice: item.basePrice === null ? null : Number(item.basePrice),
           subtotal: Number(item.subtotal),
+          taxRate: Number(item.taxRate),
+          taxAmount: Number(item.taxAmount),
           MenuItem: {
             ...item.MenuItem,
             price: Number(item.MenuItem.price)
-          }
+          },
+          modifiers: item.modifiers.map(modifier => ({
+            ...modifier,
+            priceAdjustment: Number(modifier.priceAdjustment)
+          }))
         }))
       };
     } catch (error) {
@@ -309,10 +368,11 @@ export class OrdersController {
   }
 
   @Get('/orders/analytics/summary')
-  async getAnalyticsSummary(@Query() q: Record<string, unknown>) {
+  @RequirePermissions('analytics:read')
+  async getAnalyticsSummary(@Query() q: Record<string, unknown>, @CurrentUser() user: AuthenticatedUser) {
     try {
       const w = makeWhere(parseScope(q)) as Record<string, unknown>;
-      const where: Record<string, unknown> = { ...(w || {}) };
+      let where: Record<string, unknown> = { ...(w || {}) };
 
       // Handle store filtering
       if (where.store) {
@@ -345,6 +405,9 @@ export class OrdersController {
         where.createdAt = { gte: startDate };
       }
 
+      where = await this.storeAccess.restrictByStoreId(user, where);
+      const reporting = await this.reportingConverter(q);
+
       // Get summary statistics
       const [totalOrders, totalRevenue, ordersByStatus, recentOrders] = await Promise.all([
         this.prisma.order.count({ where }),
@@ -364,43 +427,56 @@ export class OrdersController {
           select: {
             id: true,
             total: true,
+            currency: true,
             status: true,
             createdAt: true,
             Store: {
-              select: { name: true, region: true }
+              select: { name: true, region: true, country: true, currency: true }
             }
           }
         })
       ]);
 
+      // Mixed-currency totals only add up once each order is restated
+      const revenue = reporting
+        ? roundCurrency((await this.prisma.order.findMany({ where, select: REPORTABLE_ORDER_SELECT }))
+          .reduce((sum, order) => sum + reporting.convert(order), 0))
+        : Number(totalRevenue._sum.total || 0);
+
       const avgOrderValue = totalOrders > 0 
-        ? Number(totalRevenue._sum.total || 0) / totalOrders 
+        ? revenue / totalOrders 
         : 0;
 
       return {
         totalOrders,
-        totalRevenue: Number(totalRevenue._sum.total || 0),
+        totalRevenue: revenue,
         avgOrderValue,
+        currency: reporting?.currency ?? null,
         ordersByStatus: ordersByStatus.map(s => ({
           status: s.status,
           count: s._count
         })),
         recentOrders: recentOrders.map(o => ({
           ...o,
-          total: Number(o.total)
+          total: reporting ? roundCurrency(reporting.convert(o)) : Number(o.total),
+          currency: reporting?.currency ?? o.currency ?? storeCurrency(o.Store)
         }))
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.error('Error fetching analytics summary:', error);
       throw new HttpException('Failed to fetch analytics', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
   @Get('/orders/analytics/trends')
-  async getAnalyticsTrends(@Query() q: Record<string, unknown>) {
+  @RequirePermissions('analytics:read')
+  async getAnalyticsTrends(@Query() q: Record<string, unknown>, @CurrentUser() user: AuthenticatedUser) {
     try {
       const w = makeWhere(parseScope(q)) as Record<string, unknown>;
-      const where: Record<string, unknown> = { ...(w || {}) };
+      let where: Record<string, unknown> = { ...(w || {}) };
 
       // Handle store filtering
       if (where.store) {
@@ -413,12 +489,14 @@ export class OrdersController {
       const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
       where.createdAt = { gte: startDate };
 
+      where = await this.storeAccess.restrictByStoreId(user, where);
+      const reporting = await this.reportingConverter(q);
+
       // Get orders grouped by date
       const orders = await this.prisma.order.findMany({
         where,
         select: {
-          createdAt: true,
-          total: true,
+          ...REPORTABLE_ORDER_SELECT,
           status: true
         },
         orderBy: { createdAt: 'asc' }
@@ -433,25 +511,29 @@ export class OrdersController {
           dailyData[date] = { date, orders: 0, revenue: 0 };
         }
         dailyData[date].orders++;
-        dailyData[date].revenue += Number(order.total);
+        dailyData[date].revenue += reporting ? reporting.convert(order) : Number(order.total);
       });
 
-      const trends = Object.values(dailyData).sort((a, b) => 
-        a.date.localeCompare(b.date)
-      );
+      const trends = Object.values(dailyData)
+        .map(day => ({ ...day, revenue: roundCurrency(day.revenue) }))
+        .sort((a, b) => a.date.localeCompare(b.date));
 
-      return { trends };
+      return { trends, currency: reporting?.currency ?? null };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.error('Error fetching analytics trends:', error);
       throw new HttpException('Failed to fetch trends', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
   @Get('/orders/analytics/stores')
-  async getStorePerformance(@Query() q: Record<string, unknown>) {
+  @RequirePermissions('analytics:read')
+  async getStorePerformance(@Query() q: Record<string, unknown>, @CurrentUser() user: AuthenticatedUser) {
     try {
       const w = makeWhere(parseScope(q)) as Record<string, unknown>;
-      const where: Record<string, unknown> = { ...(w || {}) };
+      let where: Record<string, unknown> = { ...(w || {}) };
 
       // Handle date range
       if (q.dateRange && q.dateRange !== 'all') {
@@ -475,13 +557,21 @@ export class OrdersController {
         where.createdAt = { gte: startDate };
       }
 
-      // Get orders grouped by store
-      const storeOrders = await this.prisma.order.groupBy({
-        by: ['storeId'],
-        where,
-        _count: true,
-        _sum: { total: true }
-      });
+      where = await this.storeAccess.restrictByStoreId(user, where);
+      const reporting = await this.reportingConverter(q);
+
+      // Get orders grouped by store, restating each order first when reporting in one currency
+      const storeOrders = reporting
+        ? this.sumByStore(
+          await this.prisma.order.findMany({ where, select: { ...REPORTABLE_ORDER_SELECT, storeId: true } }),
+          reporting.convert,
+        )
+        : (await this.prisma.order.groupBy({
+          by: ['storeId'],
+          where,
+          _count: true,
+          _sum: { total: true }
+        })).map(so => ({ storeId: so.storeId, count: so._count, revenue: Number(so._sum.total || 0) }));
 
       // Get store details
       const storeIds = storeOrders.map(s => s.storeId);
@@ -492,7 +582,8 @@ export class OrdersController {
           name: true,
           region: true,
           country: true,
-          city: true
+          city: true,
+          currency: true
         }
       });
 
@@ -500,8 +591,8 @@ export class OrdersController {
 
       const performance = storeOrders.map(so => {
         const store = storeMap.get(so.storeId);
-        const revenue = Number(so._sum.total || 0);
-        const avgOrderValue = so._count > 0 ? revenue / so._count : 0;
+        const revenue = so.revenue;
+        const avgOrderValue = so.count > 0 ? revenue / so.count : 0;
 
         return {
           storeId: so.storeId,
@@ -509,24 +600,29 @@ export class OrdersController {
           region: store?.region || 'Unknown',
           country: store?.country || 'Unknown',
           city: store?.city || 'Unknown',
-          orderCount: so._count,
+          orderCount: so.count,
           totalRevenue: revenue,
-          avgOrderValue
+          avgOrderValue,
+          currency: reporting?.currency ?? (store ? storeCurrency(store) : null)
         };
       }).sort((a, b) => b.totalRevenue - a.totalRevenue);
 
-      return { stores: performance };
+      return { stores: performance, currency: reporting?.currency ?? null };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.error('Error fetching store performance:', error);
       throw new HttpException('Failed to fetch store performance', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
   @Get('/orders/analytics/peak-hours')
-  async getPeakHours(@Query() q: Record<string, unknown>) {
+  @RequirePermissions('analytics:read')
+  async getPeakHours(@Query() q: Record<string, unknown>, @CurrentUser() user: AuthenticatedUser) {
     try {
       const w = makeWhere(parseScope(q)) as Record<string, unknown>;
-      const where: Record<string, unknown> = { ...(w || {}) };
+      let where: Record<string, unknown> = { ...(w || {}) };
 
       // Handle store filtering
       if (where.store) {
@@ -539,28 +635,54 @@ export class OrdersController {
       const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
       where.createdAt = { gte: startDate };
 
+      where = await this.storeAccess.restrictByStoreId(user, where);
+
       const orders = await this.prisma.order.findMany({
         where,
-        select: { createdAt: true }
+        select: { createdAt: true, storeId: true }
       });
 
-      // Group by hour
+      // Stores with configured hours are bucketed by their local hour and
+      // measured against the hours they were trading; others keep server time
+      const calendars = await this.storeHours.loadCalendars([...new Set(orders.map(order => order.storeId))]);
+      const now = new Date();
+
       const hourlyData: Record<number, number> = {};
+      const openMinutes: number[] = new Array(24).fill(0);
       for (let i = 0; i < 24; i++) {
         hourlyData[i] = 0;
       }
 
+      for (const calendar of calendars.values()) {
+        calendar
+          .hourlyOpenMinutes(calendar.local(startDate).date, calendar.local(now).date)
+          .forEach((minutes, hour) => { openMinutes[hour] += minutes; });
+      }
+
+      let outsideHoursOrders = 0;
       orders.forEach(order => {
-        const hour = order.createdAt.getHours();
-        hourlyData[hour]++;
+        const calendar = calendars.get(order.storeId);
+        if (!calendar) {
+          hourlyData[order.createdAt.getHours()]++;
+          return;
+        }
+        hourlyData[calendar.local(order.createdAt).hour]++;
+        if (!calendar.isOpenAt(order.createdAt).open) {
+          outsideHoursOrders++;
+        }
       });
 
-      const peakHours = Object.entries(hourlyData).map(([hour, count]) => ({
-        hour: parseInt(hour),
-        orderCount: count
-      })).sort((a, b) => b.orderCount - a.orderCount);
+      const peakHours = Object.entries(hourlyData).map(([hour, count]) => {
+        const openStoreHours = Math.round(openMinutes[Number(hour)] / 6) / 10;
+        return {
+          hour: parseInt(hour),
+          orderCount: count,
+          openStoreHours,
+          ordersPerOpenHour: openStoreHours > 0 ? Math.round((count / openStoreHours) * 100) / 100 : null
+        };
+      }).sort((a, b) => b.orderCount - a.orderCount);
 
-      return { peakHours };
+      return { peakHours, storesWithHours: calendars.size, outsideHoursOrders };
     } catch (error) {
       console.error('Error fetching peak hours:', error);
       throw new HttpException('Failed to fetch peak hours', HttpStatus.INTERNAL_SERVER_ERROR);
@@ -568,7 +690,12 @@ export class OrdersController {
   }
 
   @Patch('/orders/:id/status')
-  async updateStatus(@Param('id') id: string, @Body() dto: UpdateOrderStatusDto) {
+  @RequirePermissions('orders:write')
+  async updateStatus(
+    @Param('id') id: string,
+    @Body() dto: UpdateOrderStatusDto,
+    @CurrentUser() user: AuthenticatedUser
+  ) {
     try {
       // Validate order exists
       const existingOrder = await this.prisma.order.findUnique({
@@ -579,6 +706,8 @@ export class OrdersController {
         throw new HttpException('Order not found', HttpStatus.NOT_FOUND);
       }
 
+      await this.storeAccess.assertStoreAccess(user, existingOrder.storeId);
+
       // Validate status transition
       const validTransitions: Record<string, string[]> = {
         'PENDING': ['PREPARING', 'CANCELLED'],
@@ -664,4 +793,25 @@ export class OrdersController {
       throw new HttpException('Failed to update order status', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
+
+  /** Converter for the `currency` query param; without one, totals stay in each order's own currency */
+  private async reportingConverter(q: Record<string, unknown>) {
+    if (typeof q.currency !== 'string' || !q.currency) return undefined;
+    const currency = normaliseCurrency(q.currency);
+    return { currency, convert: await this.fx.orderConverter(currency) };
+  }
+
+  private sumByStore(
+    orders: Array<ReportableOrder & { storeId: string }>,
+    convert: (order: ReportableOrder) => number,
+  ): Array<{ storeId: string; count: number; revenue: number }> {
+    const totals = new Map<string, { storeId: string; count: number; revenue: number }>();
+    for (const order of orders) {
+      const entry = totals.get(order.storeId) ?? { storeId: order.storeId, count: 0, revenue: 0 };
+      entry.count++;
+      entry.revenue += convert(order);
+      totals.set(order.storeId, entry);
+    }
+    return [...totals.values()].map(entry => ({ ...entry, revenue: roundCurrency(entry.revenue) }));
+  }
 }
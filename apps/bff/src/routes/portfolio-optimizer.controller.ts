@@ -1,6 +1,7 @@
 import { Controller, Post, Body, HttpException, HttpStatus, UseInterceptors } from '@nestjs/common';
 import { PortfolioOptimizerService, OptimizationRequest, OptimizationResult } from '../services/portfolio/portfolio-optimizer.service';
 import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { RequirePermissions } from '../decorators/permissions.decorator';
 
 @Controller()
 @UseInterceptors(ErrorInterceptor)
@@ -10,6 +11,7 @@ export class PortfolioOptimizerController {
   ) {}
 
   @Post('/portfolio/optimize')
+  @RequirePermissions('ai:run')
   async optimizePortfolio(@Body() request: OptimizationRequest): Promise<OptimizationResult> {
     try {
       console.log('📊 Portfolio optimization request received:', request);
@@ -45,20 +47,26 @@ export class PortfolioOptimizerController {
   }
 
   @Post('/portfolio/preview')
-  async previewCandidate(@Body() body: { candidateId: string }): Promise<any> {
+  @RequirePermissions('ai:run')
+  async previewPortfolio(@Body() request: OptimizationRequest): Promise<OptimizationResult> {
     try {
-      // This endpoint provides a quick preview of a single candidate
-      // Useful for UI to show details before running full optimization
-      
-      // TODO: Implement candidate preview
-      return {
-        candidateId: body.candidateId,
-        message: 'Preview endpoint - to be implemented'
-      };
+      // Same selection as /portfolio/optimize without the AI commentary,
+      // so the UI can iterate on constraints quickly
+      this.validateRequest(request);
+
+      const result = await this.portfolioOptimizer.previewPortfolio(request);
+      result.summary.budgetRemaining = request.budget - result.summary.totalInvestment;
+
+      return result;
     } catch (error) {
-      console.error('❌ Candidate preview failed:', error);
+      console.error('❌ Portfolio preview failed:', error);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
       throw new HttpException(
-        'Failed to preview candidate',
+        error instanceof Error ? error.message : 'Portfolio preview failed',
         HttpStatus.INTERNAL_SERVER_ERROR
       );
     }
@@ -73,7 +81,7 @@ export class PortfolioOptimizerController {
       throw new HttpException('Budget must be at least $500,000', HttpStatus.BAD_REQUEST);
     }
 
-    if (!request.mode || !['maximize_count', 'maximize_roi', 'balanced'].includes(request.mode)) {
+    if (!request.mode || !['maximize_count', 'maximize_roi', 'balanced', 'optimal'].includes(request.mode)) {
       throw new HttpException('Invalid optimization mode', HttpStatus.BAD_REQUEST);
     }
 
@@ -88,5 +96,16 @@ export class PortfolioOptimizerController {
     if (request.constraints.maxCannibalization < 0 || request.constraints.maxCannibalization > 100) {
       throw new HttpException('Max cannibalization must be between 0 and 100', HttpStatus.BAD_REQUEST);
     }
+
+    if (request.constraints.minSpacingKm !== undefined && !(request.constraints.minSpacingKm >= 0)) {
+      throw new HttpException('Min spacing must be 0 km or more', HttpStatus.BAD_REQUEST);
+    }
+
+    for (const [region, quota] of Object.entries(request.constraints.regionQuotas ?? {})) {
+      const { min = 0, max = Infinity } = quota ?? {};
+      if (!(min >= 0) || !(max >= min)) {
+        throw new HttpException(`Invalid quota for region ${region}: need 0 <= min <= max`, HttpStatus.BAD_REQUEST);
+      }
+    }
   }
 }
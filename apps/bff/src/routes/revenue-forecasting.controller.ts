@@ -1,27 +1,34 @@
 import { Controller, Get, Post, Param, Query, Body, HttpException, HttpStatus, UseInterceptors } from '@nestjs/common';
-import { RevenueForecastingService } from '../services/forecasting/revenue-forecasting.service';
+import { ForecastModelSelection, RevenueForecastingService } from '../services/forecasting/revenue-forecasting.service';
+import { FORECAST_MODELS } from '../services/forecasting/forecast-models';
 import { ForecastExplainerService } from '../services/forecasting/forecast-explainer.service';
+import { ForecastJobHandler } from '../services/jobs/handlers/forecast-job.handler';
 import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { RequirePermissions } from '../decorators/permissions.decorator';
 
 @Controller()
 @UseInterceptors(ErrorInterceptor)
 export class RevenueForecastingController {
   constructor(
     private readonly forecastingService: RevenueForecastingService,
-    private readonly explainerService: ForecastExplainerService
+    private readonly explainerService: ForecastExplainerService,
+    private readonly forecastJobs: ForecastJobHandler
   ) {}
 
   @Get('/forecasts/store/:storeId')
   async getStoreForecast(
     @Param('storeId') storeId: string,
     @Query('horizonMonths') horizonMonths?: string,
-    @Query('regenerate') regenerate?: string
+    @Query('regenerate') regenerate?: string,
+    @Query('model') model?: string
   ) {
     try {
       console.log(`📊 Forecast request for store ${storeId}`);
 
       const horizon = horizonMonths ? parseInt(horizonMonths, 10) : 12;
-      const shouldRegenerate = regenerate === 'true';
+      const selection = this.parseModel(model);
+      // Asking for a specific model always refits
+      const shouldRegenerate = regenerate === 'true' || selection !== 'auto';
 
       // Check if we have existing forecasts
       if (!shouldRegenerate) {
@@ -33,7 +40,7 @@ export class RevenueForecastingController {
       }
 
       // Generate new forecast
-      const forecast = await this.forecastingService.forecastStore(storeId, horizon);
+      const forecast = await this.forecastingService.forecastStore(storeId, horizon, selection);
 
       console.log(`✅ Forecast generated successfully`);
 
@@ -86,18 +93,20 @@ export class RevenueForecastingController {
   }
 
   @Post('/forecasts/generate')
+  @RequirePermissions('ai:run')
   async generateForecasts(
     @Body() body: {
       storeId?: string;
       region?: string;
       country?: string;
       horizonMonths?: number;
+      regenerate?: boolean;
     }
   ) {
     try {
       console.log(`📊 Batch forecast generation request:`, body);
 
-      const { storeId, region, country, horizonMonths = 12 } = body;
+      const { storeId, region, country, horizonMonths = 12, regenerate } = body;
 
       // If specific store, generate for that store
       if (storeId) {
@@ -109,11 +118,15 @@ export class RevenueForecastingController {
         };
       }
 
-      // Otherwise, this would be a batch job (implement later)
-      throw new HttpException(
-        'Batch forecasting not yet implemented. Please specify a storeId.',
-        HttpStatus.NOT_IMPLEMENTED
-      );
+      // Otherwise queue a batch job; poll GET /jobs/forecast/:id for progress
+      const job = await this.forecastJobs.enqueue({ region, country, horizonMonths, regenerate });
+      console.log(`📋 Queued forecast job ${job.id}`);
+
+      return {
+        success: true,
+        jobId: job.id,
+        status: job.status
+      };
     } catch (error) {
       console.error('❌ Batch forecast generation failed:', error);
       
@@ -136,4 +149,17 @@ export class RevenueForecastingController {
       timestamp: new Date().toISOString()
     };
   }
+
+  private parseModel(model?: string): ForecastModelSelection {
+    if (!model || model === 'auto') {
+      return 'auto';
+    }
+    if (!(FORECAST_MODELS as readonly string[]).includes(model)) {
+      throw new HttpException(
+        `Unknown forecast model "${model}". Use auto or one of: ${FORECAST_MODELS.join(', ')}`,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+    return model as ForecastModelSelection;
+  }
 }
@@ -0,0 +1,53 @@
+import { Body, Controller, Get, Param, Post, Query, UseInterceptors } from '@nestjs/common';
+import { TradeArea } from '@prisma/client';
+import { TravelTimes } from '@subway/routing';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { IsochroneQueryDto, TradeAreaIsochroneDto, TravelTimesDto } from '../dto/routing.dto';
+import { IsochroneResult, IsochroneService } from '../services/routing/isochrone.service';
+
+const DEFAULT_MINUTES = 10;
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class RoutingController {
+  constructor(private readonly isochrones: IsochroneService) {}
+
+  @Get('/routing/graphs')
+  @RequirePermissions('analytics:read')
+  graphs(): ApiResponse<string[]> {
+    return ApiResponseBuilder.success(this.isochrones.graphVersions());
+  }
+
+  @Get('/routing/isochrone')
+  @RequirePermissions('analytics:read')
+  async isochrone(@Query() query: IsochroneQueryDto): Promise<ApiResponse<IsochroneResult>> {
+    return ApiResponseBuilder.success(
+      await this.isochrones.getIsochrone(
+        { lat: query.lat, lng: query.lng },
+        query.mode ?? 'drive',
+        query.minutes ?? DEFAULT_MINUTES,
+      ),
+    );
+  }
+
+  @Post('/routing/travel-times')
+  @RequirePermissions('analytics:read')
+  travelTimes(@Body() dto: TravelTimesDto): ApiResponse<TravelTimes> {
+    return ApiResponseBuilder.success(
+      this.isochrones.travelTimes(dto.origin, dto.destinations, dto.mode ?? 'drive', { maxMinutes: dto.maxMinutes }),
+    );
+  }
+
+  @Post('/routing/trade-areas/:id/isochrone')
+  @RequirePermissions('stores:write')
+  async attachToTradeArea(
+    @Param('id') id: string,
+    @Body() dto: TradeAreaIsochroneDto,
+  ): Promise<ApiResponse<TradeArea>> {
+    return ApiResponseBuilder.success(
+      await this.isochrones.attachToTradeArea(id, dto.mode ?? 'drive', dto.minutes ?? DEFAULT_MINUTES),
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import {
+  CreateAgreementDto,
+  GenerateStatementsDto,
+  StatementAdjustmentDto,
+  TerminateAgreementDto,
+  UpdateAgreementDto,
+} from '../dto/royalty.dto';
+import { AgreementView, RoyaltyService, StatementView } from '../services/franchisee/royalty.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class RoyaltyController {
+  constructor(private readonly royalties: RoyaltyService) {}
+
+  @Get('/franchisees/:id/agreements')
+  @RequirePermissions('analytics:read')
+  async listAgreements(@Param('id') franchiseeId: string): Promise<ApiResponse<AgreementView[]>> {
+    return ApiResponseBuilder.success(await this.royalties.listAgreements(franchiseeId));
+  }
+
+  @Post('/franchisees/:id/agreements')
+  @RequirePermissions('stores:write')
+  async createAgreement(
+    @Param('id') franchiseeId: string,
+    @Body() dto: CreateAgreementDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<AgreementView>> {
+    return ApiResponseBuilder.success(await this.royalties.createAgreement(
+      franchiseeId,
+      { ...dto, startDate: new Date(dto.startDate), endDate: new Date(dto.endDate) },
+      this.actorOf(user),
+    ));
+  }
+
+  @Patch('/franchise-agreements/:id')
+  @RequirePermissions('stores:write')
+  async updateAgreement(
+    @Param('id') id: string,
+    @Body() dto: UpdateAgreementDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<AgreementView>> {
+    const { startDate, endDate, ...terms } = dto;
+    return ApiResponseBuilder.success(await this.royalties.updateAgreement(
+      id,
+      {
+        ...terms,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined,
+      },
+      this.actorOf(user),
+    ));
+  }
+
+  @Post('/franchise-agreements/:id/renew')
+  @RequirePermissions('stores:write')
+  async renewAgreement(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<AgreementView>> {
+    return ApiResponseBuilder.success(await this.royalties.renewAgreement(id, this.actorOf(user)));
+  }
+
+  @Post('/franchise-agreements/:id/terminate')
+  @RequirePermissions('stores:write')
+  async terminateAgreement(
+    @Param('id') id: string,
+    @Body() dto: TerminateAgreementDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<AgreementView>> {
+    return ApiResponseBuilder.success(await this.royalties.terminateAgreement(id, new Date(dto.endDate), this.actorOf(user)));
+  }
+
+  @Get('/franchisees/:id/royalty-statements')
+  @RequirePermissions('analytics:read')
+  async listStatements(@Param('id') franchiseeId: string): Promise<ApiResponse<StatementView[]>> {
+    return ApiResponseBuilder.success(await this.royalties.listStatements(franchiseeId));
+  }
+
+  /** Drafts (or recalculates the drafts of) a franchisee's statements for a month */
+  @Post('/franchisees/:id/royalty-statements')
+  @RequirePermissions('settings:manage')
+  async generateStatements(
+    @Param('id') franchiseeId: string,
+    @Body() dto: GenerateStatementsDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<StatementView[]>> {
+    return ApiResponseBuilder.success(await this.royalties.generateStatements(franchiseeId, dto.period, this.actorOf(user)));
+  }
+
+  @Get('/royalty-statements/:id')
+  @RequirePermissions('analytics:read')
+  async getStatement(@Param('id') id: string): Promise<ApiResponse<StatementView>> {
+    return ApiResponseBuilder.success(await this.royalties.getStatement(id));
+  }
+
+  @Post('/royalty-statements/:id/adjustments')
+  @RequirePermissions('settings:manage')
+  async addAdjustment(
+    @Param('id') id: string,
+    @Body() dto: StatementAdjustmentDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<StatementView>> {
+    return ApiResponseBuilder.success(await this.royalties.addAdjustment(id, dto, this.actorOf(user)));
+  }
+
+  @Delete('/royalty-statements/:id/adjustments/:lineId')
+  @RequirePermissions('settings:manage')
+  async removeAdjustment(
+    @Param('id') id: string,
+    @Param('lineId') lineId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<StatementView>> {
+    return ApiResponseBuilder.success(await this.royalties.removeAdjustment(id, lineId, this.actorOf(user)));
+  }
+
+  @Post('/royalty-statements/:id/issue')
+  @RequirePermissions('settings:manage')
+  async issueStatement(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<StatementView>> {
+    return ApiResponseBuilder.success(await this.royalties.issueStatement(id, this.actorOf(user)));
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
@@ -1,6 +1,7 @@
 import { Controller, Post, Body, HttpException, HttpStatus, UseInterceptors } from '@nestjs/common';
 import { ScenarioModelingService, ScenarioConfig, ScenarioResult } from '../services/scenario/scenario-modeling.service';
 import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { RequirePermissions } from '../decorators/permissions.decorator';
 
 @Controller()
 @UseInterceptors(ErrorInterceptor)
@@ -10,6 +11,7 @@ export class ScenarioModelingController {
   ) {}
 
   @Post('/scenarios/generate')
+  @RequirePermissions('ai:run')
   async generateScenario(@Body() config: ScenarioConfig): Promise<ScenarioResult> {
     try {
       console.log('📊 Scenario generation request:', config.name);
@@ -42,6 +44,7 @@ export class ScenarioModelingController {
   }
 
   @Post('/scenarios/compare')
+  @RequirePermissions('ai:run')
   async compareScenarios(
     @Body() body: { scenarios: ScenarioConfig[] }
   ): Promise<{
@@ -94,6 +97,7 @@ export class ScenarioModelingController {
   }
 
   @Post('/scenarios/quick')
+  @RequirePermissions('ai:run')
   async generateQuickScenarios(
     @Body() body: {
       type: 'budget' | 'store_count' | 'geographic' | 'timeline';
@@ -0,0 +1,82 @@
+import { Body, Controller, Delete, Get, Param, Post, Put, Query, UseInterceptors } from '@nestjs/common';
+import { ScheduledJobRun } from '@prisma/client';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import { CronPreviewQueryDto, ScheduledJobDto } from '../dto/scheduled-jobs.dto';
+import { ScheduledJobService, ScheduleView } from '../services/jobs/scheduled-job.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class ScheduledJobsController {
+  constructor(private readonly schedules: ScheduledJobService) {}
+
+  @Get('/scheduled-jobs')
+  @RequirePermissions('analytics:read')
+  async list(): Promise<ApiResponse<ScheduleView[]>> {
+    return ApiResponseBuilder.success(await this.schedules.list());
+  }
+
+  @Get('/scheduled-jobs/preview')
+  @RequirePermissions('analytics:read')
+  async preview(@Query() query: CronPreviewQueryDto) {
+    return ApiResponseBuilder.success(this.schedules.preview(query.cron, query.timezone));
+  }
+
+  @Get('/scheduled-jobs/:id')
+  @RequirePermissions('analytics:read')
+  async getById(@Param('id') id: string): Promise<ApiResponse<ScheduleView>> {
+    return ApiResponseBuilder.success(await this.schedules.get(id));
+  }
+
+  @Get('/scheduled-jobs/:id/runs')
+  @RequirePermissions('analytics:read')
+  async runs(@Param('id') id: string, @Query('limit') limit?: string): Promise<ApiResponse<ScheduledJobRun[]>> {
+    const take = Math.min(Math.max(parseInt(limit || '50', 10) || 50, 1), 200);
+    return ApiResponseBuilder.success(await this.schedules.runs(id, take));
+  }
+
+  @Post('/scheduled-jobs')
+  @RequirePermissions('settings:manage')
+  async create(
+    @Body() dto: ScheduledJobDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ScheduleView>> {
+    return ApiResponseBuilder.success(await this.schedules.create(dto, this.actorOf(user)));
+  }
+
+  @Put('/scheduled-jobs/:id')
+  @RequirePermissions('settings:manage')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: ScheduledJobDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ScheduleView>> {
+    return ApiResponseBuilder.success(await this.schedules.update(id, dto, this.actorOf(user)));
+  }
+
+  @Delete('/scheduled-jobs/:id')
+  @RequirePermissions('settings:manage')
+  async delete(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<null>> {
+    await this.schedules.delete(id, this.actorOf(user));
+    return ApiResponseBuilder.success(null);
+  }
+
+  @Post('/scheduled-jobs/:id/run')
+  @RequirePermissions('settings:manage')
+  async runNow(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<ScheduledJobRun>> {
+    return ApiResponseBuilder.success(await this.schedules.runNow(id, this.actorOf(user)));
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
@@ -4,31 +4,41 @@ import {
   CreateUserDto, 
   UpdateUserDto,
   AuditLogQueryDto,
-  UpdateFeatureFlagDto
+  CreateFeatureFlagDto,
+  UpdateFeatureFlagDto,
+  EvaluateFeatureFlagsDto
 } from '../dto/settings.dto';
 import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
 import { 
   USER_SELECT, 
-  AUDIT_ENTRY_SELECT,
-  FEATURE_FLAG_SELECT
+  AUDIT_ENTRY_SELECT
 } from '../selectors/settings.selectors';
 import { ErrorInterceptor } from '../interceptors/error.interceptor';
 import { createAuditUtil } from '../util/audit.util';
-import { createComprehensiveLoggingUtil } from '../util/comprehensive-logging.util';
 import { 
   UserResponse, 
   AuditEntryResponse,
   FeatureFlagResponse,
+  FeatureFlagEvaluationResponse,
+  FeatureFlagHistoryResponse,
   AuditLogPaginatedResponse
 } from '../types/settings-responses';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { AuthenticatedUser, USER_ROLES } from '../types/auth.types';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { FeatureFlag, FeatureFlagCondition, FeatureFlagsService } from '../config/feature-flags.service';
 
 @Controller()
 @UseInterceptors(ErrorInterceptor)
 export class SettingsController {
-  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly featureFlags: FeatureFlagsService,
+  ) {}
 
   // Users & Roles CRUD endpoints
   @Get('/settings/users')
+  @RequirePermissions('settings:manage')
   async getUsers(): Promise<ApiResponse<UserResponse[]>> {
     const users = await this.prisma.user.findMany({
       select: USER_SELECT,
@@ -41,6 +51,7 @@ export class SettingsController {
   }
 
   @Get('/settings/users/:id')
+  @RequirePermissions('settings:manage')
   async getUser(@Param('id') userId: string): Promise<ApiResponse<UserResponse>> {
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
@@ -55,8 +66,9 @@ export class SettingsController {
   }
 
   @Post('/settings/users')
+  @RequirePermissions('settings:manage')
   async createUser(@Body() body: CreateUserDto): Promise<ApiResponse<UserResponse>> {
-    const { email, role, firstName, lastName, active = true } = body;
+    const { email, role, region, country, firstName, lastName, active = true } = body;
 
     // Check if user with same email already exists
     const existing = await this.prisma.user.findUnique({
@@ -67,15 +79,16 @@ export class SettingsController {
     }
 
     // Validate role
-    const validRoles = ['ADMIN', 'MANAGER', 'STAFF'];
-    if (!validRoles.includes(role)) {
-      return ApiResponseBuilder.error('Invalid role. Must be one of: ADMIN, MANAGER, STAFF');
+    if (!(USER_ROLES as readonly string[]).includes(role)) {
+      return ApiResponseBuilder.error(`Invalid role. Must be one of: ${USER_ROLES.join(', ')}`);
     }
 
     const user = await this.prisma.user.create({
       data: {
         email,
         role,
+        region,
+        country,
         firstName,
         lastName,
         active,
@@ -103,6 +116,7 @@ export class SettingsController {
   }
 
   @Patch('/settings/users/:id')
+  @RequirePermissions('settings:manage')
   async updateUser(
     @Param('id') userId: string,
     @Body() body: UpdateUserDto
@@ -127,11 +141,8 @@ export class SettingsController {
     }
 
     // Validate role if provided
-    if (body.role) {
-      const validRoles = ['ADMIN', 'MANAGER', 'STAFF'];
-      if (!validRoles.includes(body.role)) {
-        return ApiResponseBuilder.error('Invalid role. Must be one of: ADMIN, MANAGER, STAFF');
-      }
+    if (body.role && !(USER_ROLES as readonly string[]).includes(body.role)) {
+      return ApiResponseBuilder.error(`Invalid role. Must be one of: ${USER_ROLES.join(', ')}`);
     }
 
     const user = await this.prisma.user.update({
@@ -167,6 +178,7 @@ export class SettingsController {
   }
 
   @Delete('/settings/users/:id')
+  @RequirePermissions('settings:manage')
   async deleteUser(@Param('id') userId: string): Promise<ApiResponse<null>> {
     // Verify user exists
     const existing = await this.prisma.user.findUnique({
@@ -210,6 +222,7 @@ export class SettingsController {
 
   // Audit Log endpoints
   @Get('/settings/audit')
+  @RequirePermissions('settings:manage')
   async getAuditLog(@Query() query: AuditLogQueryDto): Promise<ApiResponse<AuditLogPaginatedResponse>> {
     const { search, entity, action, actor, page = 1, limit = 50 } = query;
     
@@ -266,144 +279,150 @@ export class SettingsController {
   }
 
   // Feature Flags endpoints
+  // Flags are owned by FeatureFlagsService so that these screens, the intelligence
+  // config API and runtime evaluation all read the same persisted definitions.
   @Get('/settings/flags')
   async getFeatureFlags(): Promise<ApiResponse<FeatureFlagResponse[]>> {
-    const flags = await this.prisma.featureFlag.findMany({
-      select: FEATURE_FLAG_SELECT,
-      orderBy: { key: 'asc' },
-    });
+    const flags = await this.featureFlags.listFlags();
+    return ApiResponseBuilder.success(flags.map(flag => this.toFlagResponse(flag)));
+  }
+
+  @Post('/settings/flags/evaluate')
+  async evaluateFeatureFlags(
+    @Body() body: EvaluateFeatureFlagsDto,
+    @CurrentUser() user?: AuthenticatedUser
+  ): Promise<ApiResponse<Record<string, FeatureFlagEvaluationResponse>>> {
+    const context = {
+      userId: user?.id,
+      region: user?.region ?? undefined,
+      ...body.context,
+    };
+    const evaluations = await this.featureFlags.evaluateFlags(body.flags, context);
+
+    const response: Record<string, FeatureFlagEvaluationResponse> = {};
+    for (const [key, evaluation] of Object.entries(evaluations)) {
+      response[key] = {
+        flagName: evaluation.flagName,
+        enabled: evaluation.enabled,
+        reason: evaluation.reason,
+        evaluatedAt: evaluation.evaluatedAt,
+      };
+    }
 
-    return ApiResponseBuilder.success(flags);
+    return ApiResponseBuilder.success(response);
   }
 
   @Get('/settings/flags/:key')
   async getFeatureFlag(@Param('key') key: string): Promise<ApiResponse<FeatureFlagResponse>> {
-    const flag = await this.prisma.featureFlag.findUnique({
-      where: { key },
-      select: FEATURE_FLAG_SELECT
-    });
+    const flag = await this.featureFlags.getFlag(key);
 
     if (!flag) {
       return ApiResponseBuilder.error('Feature flag not found');
     }
 
-    return ApiResponseBuilder.success(flag);
+    return ApiResponseBuilder.success(this.toFlagResponse(flag));
+  }
+
+  @Get('/settings/flags/:key/history')
+  async getFeatureFlagHistory(
+    @Param('key') key: string,
+    @Query('limit') limit?: string
+  ): Promise<ApiResponse<FeatureFlagHistoryResponse[]>> {
+    const take = Math.min(Math.max(parseInt(limit || '50') || 50, 1), 200);
+    return ApiResponseBuilder.success(await this.featureFlags.getFlagHistory(key, take));
   }
 
   @Patch('/settings/flags/:key')
+  @RequirePermissions('settings:manage')
   async updateFeatureFlag(
     @Param('key') key: string,
-    @Body() body: UpdateFeatureFlagDto
+    @Body() body: UpdateFeatureFlagDto,
+    @CurrentUser() user?: AuthenticatedUser
   ): Promise<ApiResponse<FeatureFlagResponse>> {
-    const { enabled, description } = body;
-
-    // Verify feature flag exists
-    const existing = await this.prisma.featureFlag.findUnique({
-      where: { key },
-      select: FEATURE_FLAG_SELECT
-    });
-    if (!existing) {
-      return ApiResponseBuilder.error('Feature flag not found');
-    }
-
-    const updateData: Record<string, unknown> = { enabled };
-    if (description !== undefined) {
-      updateData.description = description;
-    }
-
-    const flag = await this.prisma.featureFlag.update({
-      where: { key },
-      data: updateData,
-      select: FEATURE_FLAG_SELECT
-    });
-
-    // Create comprehensive audit trail and telemetry
-    const loggingUtil = createComprehensiveLoggingUtil(this.prisma);
-    await loggingUtil.logFeatureFlagChange({
-      userId: 'system', // In a real app, this would come from the authenticated user
-      flagId: flag.id,
-      flagKey: key,
-      operation: existing.enabled !== flag.enabled ? 'TOGGLE' : 'UPDATE',
-      oldValue: existing.enabled,
-      newValue: flag.enabled,
-      metadata: {
-        source: 'admin_dashboard',
-        descriptionChanged: existing.description !== flag.description,
-        oldDescription: existing.description,
-        newDescription: flag.description
+    const updates: Partial<FeatureFlag> = {};
+    if (body.enabled !== undefined) updates.enabled = body.enabled;
+    if (body.description !== undefined) updates.description = body.description;
+    if (body.category !== undefined) updates.category = body.category as FeatureFlag['category'];
+    if (body.rolloutPercentage !== undefined) updates.rolloutPercentage = body.rolloutPercentage;
+    if (body.conditions !== undefined) updates.conditions = body.conditions as unknown as FeatureFlagCondition[];
+
+    try {
+      const flag = await this.featureFlags.updateFlag(key, updates, this.actorOf(user));
+      return ApiResponseBuilder.success(this.toFlagResponse(flag));
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        return ApiResponseBuilder.error('Feature flag not found');
       }
-    });
-
-    return ApiResponseBuilder.success(flag);
+      if (error instanceof Error && /^Invalid|must be/.test(error.message)) {
+        return ApiResponseBuilder.error(error.message);
+      }
+      throw error;
+    }
   }
 
   @Post('/settings/flags')
-  async createFeatureFlag(@Body() body: { key: string; enabled?: boolean; description?: string }): Promise<ApiResponse<FeatureFlagResponse>> {
-    const { key, enabled = false, description } = body;
-
-    // Check if feature flag with same key already exists
-    const existing = await this.prisma.featureFlag.findUnique({
-      where: { key }
-    });
-    if (existing) {
-      return ApiResponseBuilder.error('Feature flag with this key already exists');
-    }
+  @RequirePermissions('settings:manage')
+  async createFeatureFlag(
+    @Body() body: CreateFeatureFlagDto,
+    @CurrentUser() user?: AuthenticatedUser
+  ): Promise<ApiResponse<FeatureFlagResponse>> {
+    const { key, enabled = false, description, category = 'general', rolloutPercentage, conditions } = body;
 
-    const flag = await this.prisma.featureFlag.create({
-      data: {
-        key,
+    try {
+      const flag = await this.featureFlags.createFlag({
+        name: key,
         enabled,
-        description,
-      },
-      select: FEATURE_FLAG_SELECT
-    });
-
-    // Create audit trail
-    const auditUtil = createAuditUtil(this.prisma);
-    await auditUtil.createAuditEntry({
-      actor: 'system', // In a real app, this would come from the authenticated user
-      entity: 'FeatureFlag',
-      entityId: flag.id,
-      action: 'CREATE',
-      newData: {
-        key: flag.key,
-        enabled: flag.enabled,
-        description: flag.description
+        description: description ?? '',
+        category: category as FeatureFlag['category'],
+        rolloutPercentage,
+        conditions: conditions as unknown as FeatureFlagCondition[] | undefined,
+      }, this.actorOf(user));
+
+      return ApiResponseBuilder.success(this.toFlagResponse(flag));
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already exists')) {
+        return ApiResponseBuilder.error('Feature flag with this key already exists');
       }
-    });
-
-    return ApiResponseBuilder.success(flag);
+      if (error instanceof Error && /^Invalid|must be/.test(error.message)) {
+        return ApiResponseBuilder.error(error.message);
+      }
+      throw error;
+    }
   }
 
   @Delete('/settings/flags/:key')
-  async deleteFeatureFlag(@Param('key') key: string): Promise<ApiResponse<null>> {
-    // Verify feature flag exists
-    const existing = await this.prisma.featureFlag.findUnique({
-      where: { key },
-      select: FEATURE_FLAG_SELECT
-    });
-    if (!existing) {
-      return ApiResponseBuilder.error('Feature flag not found');
+  @RequirePermissions('settings:manage')
+  async deleteFeatureFlag(
+    @Param('key') key: string,
+    @CurrentUser() user?: AuthenticatedUser
+  ): Promise<ApiResponse<null>> {
+    try {
+      await this.featureFlags.deleteFlag(key, this.actorOf(user));
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        return ApiResponseBuilder.error('Feature flag not found');
+      }
+      throw error;
     }
 
-    await this.prisma.featureFlag.delete({
-      where: { key }
-    });
+    return ApiResponseBuilder.success(null);
+  }
 
-    // Create audit trail
-    const auditUtil = createAuditUtil(this.prisma);
-    await auditUtil.createAuditEntry({
-      actor: 'system', // In a real app, this would come from the authenticated user
-      entity: 'FeatureFlag',
-      entityId: existing.id,
-      action: 'DELETE',
-      oldData: {
-        key: existing.key,
-        enabled: existing.enabled,
-        description: existing.description
-      }
-    });
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
 
-    return ApiResponseBuilder.success(null);
+  private toFlagResponse(flag: FeatureFlag): FeatureFlagResponse {
+    return {
+      id: flag.id ?? flag.name,
+      key: flag.name,
+      enabled: flag.enabled,
+      description: flag.description || null,
+      category: flag.category,
+      rolloutPercentage: flag.rolloutPercentage ?? null,
+      conditions: flag.conditions ?? [],
+      createdAt: flag.createdAt ?? new Date(0),
+      updatedAt: flag.updatedAt ?? new Date(0),
+    };
   }
 }
\ No newline at end of file
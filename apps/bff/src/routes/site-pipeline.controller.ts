@@ -0,0 +1,109 @@
+import { Body, Controller, Get, Param, Patch, Post, Put, Query, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import {
+  AddPipelineSiteDto,
+  AssignPipelineSiteDto,
+  ChecklistItemDto,
+  MovePipelineStageDto,
+  PipelineSiteQueryDto,
+} from '../dto/site-pipeline.dto';
+import {
+  PipelineSiteDetail,
+  PipelineSiteWithLinks,
+  SitePipelineService,
+  StageDefinition,
+} from '../services/pipeline/site-pipeline.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class SitePipelineController {
+  constructor(private readonly pipeline: SitePipelineService) {}
+
+  @Get('/pipeline/stages')
+  @RequirePermissions('stores:read')
+  stages(): ApiResponse<StageDefinition[]> {
+    return ApiResponseBuilder.success(this.pipeline.stages());
+  }
+
+  @Get('/pipeline/sites')
+  @RequirePermissions('stores:read')
+  async list(@Query() query: PipelineSiteQueryDto): Promise<ApiResponse<PipelineSiteWithLinks[]>> {
+    return ApiResponseBuilder.success(await this.pipeline.list(query));
+  }
+
+  @Get('/pipeline/sites/:id')
+  @RequirePermissions('stores:read')
+  async getById(@Param('id') id: string): Promise<ApiResponse<PipelineSiteDetail>> {
+    return ApiResponseBuilder.success(await this.pipeline.get(id));
+  }
+
+  @Post('/pipeline/sites')
+  @RequirePermissions('stores:write')
+  async add(
+    @Body() dto: AddPipelineSiteDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<PipelineSiteDetail>> {
+    return ApiResponseBuilder.success(
+      await this.pipeline.addFromSuggestion(
+        { ...dto, dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined },
+        this.actorOf(user),
+      ),
+    );
+  }
+
+  @Patch('/pipeline/sites/:id')
+  @RequirePermissions('stores:write')
+  async assign(
+    @Param('id') id: string,
+    @Body() dto: AssignPipelineSiteDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<PipelineSiteDetail>> {
+    return ApiResponseBuilder.success(
+      await this.pipeline.assign(
+        id,
+        {
+          owner: dto.owner,
+          dueDate: dto.dueDate === undefined ? undefined : dto.dueDate === null ? null : new Date(dto.dueDate),
+        },
+        this.actorOf(user),
+      ),
+    );
+  }
+
+  @Put('/pipeline/sites/:id/checklist/:item')
+  @RequirePermissions('stores:write')
+  async setChecklistItem(
+    @Param('id') id: string,
+    @Param('item') item: string,
+    @Body() dto: ChecklistItemDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<PipelineSiteDetail>> {
+    return ApiResponseBuilder.success(
+      await this.pipeline.setChecklistItem(id, item, dto.done, this.actorOf(user), dto.note),
+    );
+  }
+
+  @Post('/pipeline/sites/:id/stage')
+  @RequirePermissions('stores:write')
+  async moveToStage(
+    @Param('id') id: string,
+    @Body() dto: MovePipelineStageDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<PipelineSiteDetail>> {
+    return ApiResponseBuilder.success(
+      await this.pipeline.moveToStage(
+        id,
+        { ...dto, dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined },
+        this.actorOf(user),
+      ),
+    );
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
@@ -0,0 +1,90 @@
+import { Body, Controller, Get, Param, Post, Query, UseInterceptors } from '@nestjs/common';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { ApiResponse, ApiResponseBuilder } from '../types/api-response';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import { AlertScanDto, ResolveAlertDto, StoreAlertQueryDto } from '../dto/store-alerts.dto';
+import {
+  AlertScanResult,
+  StoreAlertService,
+  StoreAlertSummary,
+  StoreAlertView,
+} from '../services/alerts/store-alert.service';
+import { StoreAccessService } from '../services/store-access.service';
+
+@Controller()
+@UseInterceptors(ErrorInterceptor)
+export class StoreAlertsController {
+  constructor(
+    private readonly alerts: StoreAlertService,
+    private readonly storeAccess: StoreAccessService,
+  ) {}
+
+  @Get('/store-alerts')
+  @RequirePermissions('analytics:read')
+  async list(
+    @Query() query: StoreAlertQueryDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<StoreAlertView[]>> {
+    if (query.storeId) {
+      await this.storeAccess.assertStoreAccess(user, query.storeId);
+    }
+    const storeIds = await this.storeAccess.getAccessibleStoreIds(user);
+    return ApiResponseBuilder.success(await this.alerts.list(query, storeIds));
+  }
+
+  @Get('/store-alerts/summary')
+  @RequirePermissions('analytics:read')
+  async summary(@CurrentUser() user?: AuthenticatedUser): Promise<ApiResponse<StoreAlertSummary>> {
+    const storeIds = await this.storeAccess.getAccessibleStoreIds(user);
+    return ApiResponseBuilder.success(await this.alerts.summary(storeIds));
+  }
+
+  @Post('/store-alerts/scan')
+  @RequirePermissions('settings:manage')
+  async scan(@Body() dto: AlertScanDto): Promise<ApiResponse<AlertScanResult>> {
+    return ApiResponseBuilder.success(await this.alerts.scan(dto));
+  }
+
+  @Get('/store-alerts/:id')
+  @RequirePermissions('analytics:read')
+  async getById(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<StoreAlertView>> {
+    const alert = await this.alerts.get(id);
+    await this.storeAccess.assertStoreAccess(user, alert.storeId);
+    return ApiResponseBuilder.success(alert);
+  }
+
+  @Post('/store-alerts/:id/acknowledge')
+  @RequirePermissions('orders:write')
+  async acknowledge(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<StoreAlertView>> {
+    await this.assertAlertAccess(id, user);
+    return ApiResponseBuilder.success(await this.alerts.acknowledge(id, this.actorOf(user)));
+  }
+
+  @Post('/store-alerts/:id/resolve')
+  @RequirePermissions('orders:write')
+  async resolve(
+    @Param('id') id: string,
+    @Body() dto: ResolveAlertDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ApiResponse<StoreAlertView>> {
+    await this.assertAlertAccess(id, user);
+    return ApiResponseBuilder.success(await this.alerts.resolve(id, this.actorOf(user), dto.resolution));
+  }
+
+  private async assertAlertAccess(id: string, user?: AuthenticatedUser): Promise<void> {
+    const alert = await this.alerts.get(id);
+    await this.storeAccess.assertStoreAccess(user, alert.storeId);
+  }
+
+  private actorOf(user?: AuthenticatedUser): string {
+    return user?.email ?? user?.id ?? 'system';
+  }
+}
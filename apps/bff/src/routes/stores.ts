@@ -2,22 +2,32 @@ import { Body, Controller, Get, Post, Put, Delete, Query, Param, HttpException,
 import { PrismaClient } from '@prisma/client';
 import { StoreService } from '../services/store.service';
 import { CreateStoreDto, UpdateStoreDto, StoreQueryDto } from '../dto/store.dto';
+import { OpenAtQueryDto, ScheduleQueryDto, SetHoursExceptionDto, SetStoreHoursDto } from '../dto/store-hours.dto';
 import { ValidationError } from '../errors/validation.error';
 import { parseScope } from '../util/scope';
 import { createAuditUtil } from '../util/audit.util';
 import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { StoreAccessService } from '../services/store-access.service';
+import { StoreHoursService } from '../services/hours/store-hours.service';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
 
 @Controller()
 @UseInterceptors(ErrorInterceptor)
 export class StoresController {
   constructor(
     private readonly storeService: StoreService,
-    @Inject(PrismaClient) private readonly prisma: PrismaClient
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly storeAccess: StoreAccessService,
+    private readonly storeHours: StoreHoursService
   ) {}
 
   @Get('/stores')
-  async list(@Query() query: StoreQueryDto) {
+  @RequirePermissions('stores:read')
+  async list(@Query() query: StoreQueryDto, @CurrentUser() user: AuthenticatedUser) {
     try {
+      const storeIds = await this.storeAccess.getAccessibleStoreIds(user);
       const scope = parseScope(query as Record<string, unknown>);
       const filters = {
         region: scope.region,
@@ -25,6 +35,7 @@ export class StoresController {
         city: query.city,
         status: query.status,
         storeId: scope.storeId,
+        storeIds: storeIds ?? undefined,
         limit: query.take ? Number(query.take) : undefined,
         offset: query.skip ? Number(query.skip) : undefined,
       };
@@ -41,14 +52,15 @@ export class StoresController {
   }
 
   @Post('/stores')
-  async create(@Body() createStoreDto: CreateStoreDto) {
+  @RequirePermissions('stores:write')
+  async create(@Body() createStoreDto: CreateStoreDto, @CurrentUser() user: AuthenticatedUser) {
     try {
       const store = await this.storeService.createStore(createStoreDto);
       
       // Create audit trail
       const auditUtil = createAuditUtil(this.prisma);
       await auditUtil.createAuditEntryWithTelemetry({
-        actor: 'system', // In a real app, this would come from the authenticated user
+        actor: user?.email ?? user?.id ?? 'system',
         entity: 'Store',
         entityId: store.id,
         action: 'CREATE',
@@ -75,7 +87,14 @@ export class StoresController {
   }
 
   @Put('/stores/:id')
-  async update(@Param('id') id: string, @Body() updateStoreDto: UpdateStoreDto) {
+  @RequirePermissions('stores:write')
+  async update(
+    @Param('id') id: string,
+    @Body() updateStoreDto: UpdateStoreDto,
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       // Get existing store for audit trail
       const existingStore = await this.prisma.store.findUnique({
@@ -87,7 +106,7 @@ export class StoresController {
       // Create audit trail
       const auditUtil = createAuditUtil(this.prisma);
       await auditUtil.createAuditEntryWithTelemetry({
-        actor: 'system', // In a real app, this would come from the authenticated user
+        actor: user?.email ?? user?.id ?? 'system',
         entity: 'Store',
         entityId: id,
         action: 'UPDATE',
@@ -113,7 +132,10 @@ export class StoresController {
   }
 
   @Delete('/stores/:id')
-  async delete(@Param('id') id: string) {
+  @RequirePermissions('stores:write')
+  async delete(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       // Get existing store for audit trail
       const existingStore = await this.prisma.store.findUnique({
@@ -125,7 +147,7 @@ export class StoresController {
       // Create audit trail
       const auditUtil = createAuditUtil(this.prisma);
       await auditUtil.createAuditEntryWithTelemetry({
-        actor: 'system', // In a real app, this would come from the authenticated user
+        actor: user?.email ?? user?.id ?? 'system',
         entity: 'Store',
         entityId: id,
         action: 'DELETE',
@@ -149,7 +171,10 @@ export class StoresController {
   }
 
   @Get('/stores/:id')
-  async getById(@Param('id') id: string) {
+  @RequirePermissions('stores:read')
+  async getById(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       const store = await this.storeService.getStoreById(id);
       if (!store) {
@@ -166,11 +191,15 @@ export class StoresController {
 
   // Store Orders
   @Get('/stores/:id/orders')
+  @RequirePermissions('orders:read')
   async getStoreOrders(
     @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
     @Query('limit') limit?: string,
     @Query('status') status?: string
   ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       const where: any = { storeId: id };
       if (status) {
@@ -207,7 +236,14 @@ export class StoresController {
 
   // Store Performance Analytics
   @Get('/stores/:id/performance')
-  async getStorePerformance(@Param('id') id: string, @Query('days') days?: string) {
+  @RequirePermissions('analytics:read')
+  async getStorePerformance(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('days') days?: string
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       const daysAgo = days ? parseInt(days) : 30;
       const startDate = new Date();
@@ -266,7 +302,10 @@ export class StoresController {
 
   // Store Staff Management
   @Get('/stores/:id/staff')
-  async getStoreStaff(@Param('id') id: string) {
+  @RequirePermissions('stores:read')
+  async getStoreStaff(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       const staff = await this.prisma.storeStaff.findMany({
         where: { storeId: id },
@@ -293,7 +332,14 @@ export class StoresController {
   }
 
   @Post('/stores/:id/staff')
-  async assignStaff(@Param('id') id: string, @Body() body: { userId: string; role?: string }) {
+  @RequirePermissions('staff:manage')
+  async assignStaff(
+    @Param('id') id: string,
+    @Body() body: { userId: string; role?: string },
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       // Check if store exists
       const store = await this.prisma.store.findUnique({ where: { id } });
@@ -347,7 +393,14 @@ export class StoresController {
   }
 
   @Delete('/stores/:id/staff/:userId')
-  async removeStaff(@Param('id') id: string, @Param('userId') userId: string) {
+  @RequirePermissions('staff:manage')
+  async removeStaff(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       await this.prisma.storeStaff.delete({
         where: {
@@ -367,7 +420,10 @@ export class StoresController {
 
   // Store Photos
   @Get('/stores/:id/photos')
-  async getStorePhotos(@Param('id') id: string) {
+  @RequirePermissions('stores:read')
+  async getStorePhotos(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       const photos = await this.prisma.storePhoto.findMany({
         where: { storeId: id },
@@ -382,7 +438,14 @@ export class StoresController {
   }
 
   @Post('/stores/:id/photos')
-  async addStorePhoto(@Param('id') id: string, @Body() body: { url: string; caption?: string }) {
+  @RequirePermissions('stores:write')
+  async addStorePhoto(
+    @Param('id') id: string,
+    @Body() body: { url: string; caption?: string },
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       // Get max sort order
       const maxOrder = await this.prisma.storePhoto.findFirst({
@@ -408,7 +471,14 @@ export class StoresController {
   }
 
   @Delete('/stores/:id/photos/:photoId')
-  async deleteStorePhoto(@Param('id') id: string, @Param('photoId') photoId: string) {
+  @RequirePermissions('stores:write')
+  async deleteStorePhoto(
+    @Param('id') id: string,
+    @Param('photoId') photoId: string,
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
       await this.prisma.storePhoto.delete({
         where: { id: photoId, storeId: id }
@@ -423,43 +493,133 @@ export class StoresController {
 
   // Operating Hours
   @Get('/stores/:id/hours')
-  async getStoreHours(@Param('id') id: string) {
+  @RequirePermissions('stores:read')
+  async getStoreHours(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
-      const store = await this.prisma.store.findUnique({
-        where: { id },
-        select: { operatingHours: true }
-      });
+      return await this.storeHours.getHours(id);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error fetching store hours:', error);
+      throw new HttpException('Internal server error', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
 
-      if (!store) {
-        throw new HttpException('Store not found', HttpStatus.NOT_FOUND);
+  @Put('/stores/:id/hours')
+  @RequirePermissions('hours:write')
+  async updateStoreHours(
+    @Param('id') id: string,
+    @Body() body: SetStoreHoursDto,
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
+    try {
+      const hours = await this.storeHours.setHours(id, body, user?.email ?? user?.id ?? 'system');
+      return { ok: true, hours };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error updating store hours:', error);
+      throw new HttpException('Internal server error', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Get('/stores/:id/hours/open')
+  @RequirePermissions('stores:read')
+  async isStoreOpen(
+    @Param('id') id: string,
+    @Query() query: OpenAtQueryDto,
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
+    try {
+      const at = query.at ? new Date(query.at) : new Date();
+      return { at: at.toISOString(), ...(await this.storeHours.isOpenAt(id, at)) };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
       }
+      console.error('Error checking store hours:', error);
+      throw new HttpException('Internal server error', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
 
-      return {
-        operatingHours: store.operatingHours ? JSON.parse(store.operatingHours) : null
-      };
+  @Get('/stores/:id/hours/schedule')
+  @RequirePermissions('stores:read')
+  async getStoreSchedule(
+    @Param('id') id: string,
+    @Query() query: ScheduleQueryDto,
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
+    try {
+      return await this.storeHours.schedule(id, query.from, query.to);
     } catch (error) {
       if (error instanceof HttpException) {
         throw error;
       }
-      console.error('Error fetching store hours:', error);
+      console.error('Error fetching store schedule:', error);
       throw new HttpException('Internal server error', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
-  @Put('/stores/:id/hours')
-  async updateStoreHours(@Param('id') id: string, @Body() body: { operatingHours: any }) {
+  @Put('/stores/:id/hours/exceptions/:date')
+  @RequirePermissions('hours:write')
+  async setHoursException(
+    @Param('id') id: string,
+    @Param('date') date: string,
+    @Body() body: SetHoursExceptionDto,
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
     try {
-      const store = await this.prisma.store.update({
-        where: { id },
-        data: {
-          operatingHours: JSON.stringify(body.operatingHours)
-        }
-      });
+      const exception = await this.storeHours.setException(id, date, body, user?.email ?? user?.id ?? 'system');
+      return { ok: true, exception };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error saving hours exception:', error);
+      throw new HttpException('Internal server error', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
 
-      return { ok: true, operatingHours: JSON.parse(store.operatingHours || '{}') };
+  @Delete('/stores/:id/hours/exceptions/:date')
+  @RequirePermissions('hours:write')
+  async deleteHoursException(
+    @Param('id') id: string,
+    @Param('date') date: string,
+    @CurrentUser() user: AuthenticatedUser
+  ) {
+    await this.storeAccess.assertStoreAccess(user, id);
+
+    try {
+      await this.storeHours.deleteException(id, date, user?.email ?? user?.id ?? 'system');
+      return { ok: true };
     } catch (error) {
-      console.error('Error updating store hours:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error deleting hours exception:', error);
       throw new HttpException('Internal server error', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
+
+  @Get('/hours/holidays/:country')
+  @RequirePermissions('stores:read')
+  async getPublicHolidays(@Param('country') country: string, @Query('year') year?: string) {
+    const parsedYear = year ? parseInt(year, 10) : new Date().getUTCFullYear();
+    if (!Number.isInteger(parsedYear) || parsedYear < 1900 || parsedYear > 2100) {
+      throw new HttpException('year must be between 1900 and 2100', HttpStatus.BAD_REQUEST);
+    }
+    return { country, year: parsedYear, holidays: this.storeHours.holidays(country, parsedYear) };
+  }
 }
@@ -1,7 +1,11 @@
 import { 
   Body, 
   Controller, 
+  Delete,
+  Get,
+  Param,
   Post, 
+  Query,
   HttpCode, 
   HttpStatus, 
   BadRequestException, 
@@ -10,13 +14,18 @@ import {
   Req,
   Logger,
   HttpException,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { Request } from 'express';
 import { SubMindService } from '../services/submind.service';
 import { SubMindRateLimitService } from '../services/submind.rate-limit';
 import { SubMindTelemetryService } from '../services/submind-telemetry.service';
+import { SubMindConversationDetail, SubMindConversationService } from '../services/submind-conversation.service';
 import { SubMindQueryDto, SubMindResponseDto, SubMindErrorDto } from '../dto/submind.dto';
 import { SubMindSecurityUtil } from '../util/submind-security.util';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../types/auth.types';
+import { SubMindConversation } from '@prisma/client';
 
 @Controller()
 export class SubMindController {
@@ -26,11 +35,17 @@ export class SubMindController {
     private readonly subMindService: SubMindService,
     private readonly rateLimitService: SubMindRateLimitService,
     private readonly telemetryService: SubMindTelemetryService,
+    private readonly conversations: SubMindConversationService,
   ) {}
 
   @Post('/ai/submind/query')
   @HttpCode(HttpStatus.OK)
-  async query(@Body() body: SubMindQueryDto, @Req() req: Request): Promise<SubMindResponseDto | SubMindErrorDto> {
+  async query(
+    @Body() body: SubMindQueryDto,
+    @Req() req: Request,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<SubMindResponseDto | SubMindErrorDto> {
+    const actor = this.requireUser(user);
     const startTime = Date.now();
     
     try {
@@ -63,7 +78,7 @@ export class SubMindController {
       this.validateQueryInput(body);
 
       // Process the query
-      const response = await this.subMindService.processQuery(body);
+      const response = await this.subMindService.processQuery(body, actor);
       
       // Emit successful query telemetry
       await this.telemetryService.emitQueryEvent(
@@ -141,6 +156,13 @@ export class SubMindController {
       });
     }
 
+    if (body.conversationId !== undefined && typeof body.conversationId !== 'string') {
+      throw new BadRequestException({
+        error: 'conversationId must be a string',
+        code: 'INVALID_CONVERSATION',
+      });
+    }
+
     if (body.prompt.length > 4000) {
       throw new BadRequestException({
         error: 'prompt exceeds maximum length of 4000 characters',
@@ -174,6 +196,36 @@ export class SubMindController {
     }
   }
 
+  @Get('/ai/submind/conversations')
+  async listConversations(
+    @CurrentUser() user?: AuthenticatedUser,
+    @Query('limit') limit?: string,
+  ): Promise<SubMindConversation[]> {
+    return this.conversations.list(this.requireUser(user).id, limit ? parseInt(limit, 10) || 20 : 20);
+  }
+
+  @Get('/ai/submind/conversations/:id')
+  async getConversation(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<SubMindConversationDetail> {
+    return this.conversations.detail(this.requireUser(user).id, id);
+  }
+
+  @Delete('/ai/submind/conversations/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteConversation(@Param('id') id: string, @CurrentUser() user?: AuthenticatedUser): Promise<void> {
+    await this.conversations.remove(this.requireUser(user).id, id);
+  }
+
+  /** Tools and saved conversations act for a user, so SubMind is never served anonymously */
+  private requireUser(user?: AuthenticatedUser): AuthenticatedUser {
+    if (!user) {
+      throw new UnauthorizedException('SubMind requires a signed-in user');
+    }
+    return user;
+  }
+
   private getClientIp(req: Request): string {
     // Use security utility for safe IP extraction
     const ipFromHeaders = SubMindSecurityUtil.extractClientIp(req.headers);
@@ -1,10 +1,11 @@
 import { z } from 'zod';
+import { USER_ROLES } from '../types/auth.types';
 
 // Base validation schemas
 export const IdSchema = z.string().min(1, 'ID is required');
 export const EmailSchema = z.string().email('Please enter a valid email address');
-export const UserRoleSchema = z.enum(['ADMIN', 'MANAGER', 'STAFF'], {
-  errorMap: () => ({ message: 'Role must be one of: ADMIN, MANAGER, STAFF' }),
+export const UserRoleSchema = z.enum(USER_ROLES, {
+  errorMap: () => ({ message: `Role must be one of: ${USER_ROLES.join(', ')}` }),
 });
 export const NameSchema = z.string().min(1, 'Name is required').max(100, 'Name must be 100 characters or less');
 export const ActiveSchema = z.boolean().default(true);
@@ -13,6 +14,8 @@ export const ActiveSchema = z.boolean().default(true);
 export const CreateUserSchema = z.object({
   email: EmailSchema,
   role: UserRoleSchema,
+  region: z.string().optional(),
+  country: z.string().optional(),
   firstName: NameSchema.optional(),
   lastName: NameSchema.optional(),
   active: ActiveSchema,
@@ -21,6 +24,8 @@ export const CreateUserSchema = z.object({
 export const UpdateUserSchema = z.object({
   email: EmailSchema.optional(),
   role: UserRoleSchema.optional(),
+  region: z.string().nullable().optional(),
+  country: z.string().nullable().optional(),
   firstName: NameSchema.optional(),
   lastName: NameSchema.optional(),
   active: ActiveSchema.optional(),
@@ -55,15 +60,30 @@ export const FeatureFlagKeySchema = z.string()
   .max(50, 'Feature flag key must be 50 characters or less')
   .regex(/^[A-Z_][A-Z0-9_]*$/, 'Feature flag key must be uppercase with underscores only');
 
+export const FeatureFlagConditionSchema = z.object({
+  type: z.enum(['user_id', 'region', 'environment', 'time_window', 'custom']),
+  operator: z.enum(['equals', 'not_equals', 'in', 'not_in', 'greater_than', 'less_than']),
+  value: z.unknown(),
+});
+
+export const RolloutPercentageSchema = z.number()
+  .int('Rollout percentage must be a whole number')
+  .min(0, 'Rollout percentage must be between 0 and 100')
+  .max(100, 'Rollout percentage must be between 0 and 100');
+
 export const CreateFeatureFlagSchema = z.object({
   key: FeatureFlagKeySchema,
   enabled: z.boolean().default(false),
   description: z.string().max(500, 'Description must be 500 characters or less').optional(),
+  rolloutPercentage: RolloutPercentageSchema.optional(),
+  conditions: z.array(FeatureFlagConditionSchema).optional(),
 });
 
 export const UpdateFeatureFlagSchema = z.object({
-  enabled: z.boolean(),
+  enabled: z.boolean().optional(),
   description: z.string().max(500, 'Description must be 500 characters or less').optional(),
+  rolloutPercentage: RolloutPercentageSchema.nullable().optional(),
+  conditions: z.array(FeatureFlagConditionSchema).optional(),
 });
 
 // Parameter validation schemas
@@ -6,6 +6,8 @@ export const USER_SELECT = {
   id: true,
   email: true,
   role: true,
+  region: true,
+  country: true,
   firstName: true,
   lastName: true,
   active: true,
@@ -28,6 +30,9 @@ export const FEATURE_FLAG_SELECT = {
   key: true,
   enabled: true,
   description: true,
+  category: true,
+  rolloutPercentage: true,
+  conditions: true,
   createdAt: true,
   updatedAt: true,
 } as const;
\ No newline at end of file
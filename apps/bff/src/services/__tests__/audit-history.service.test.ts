@@ -0,0 +1,133 @@
+import { AuditEntry, PrismaClient } from '@prisma/client';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { AuditHistoryService, replayEntries } from '../audit/audit-history.service';
+import { StoreAccessService } from '../store-access.service';
+import { FeatureFlagsService } from '../../config/feature-flags.service';
+import { AuthenticatedUser } from '../../types/auth.types';
+
+describe('AuditHistoryService', () => {
+  const admin: AuthenticatedUser = { id: 'admin', email: 'admin@example.com', role: 'ADMIN', source: 'dev-bypass' };
+  const manager: AuthenticatedUser = { id: 'manager', role: 'STORE_MANAGER', source: 'dev-bypass' };
+  const staff: AuthenticatedUser = { id: 'staff', role: 'STAFF', source: 'dev-bypass' };
+
+  const entry = (id: string, day: number, action: string, diff: unknown, entity = 'Store'): AuditEntry => ({
+    id,
+    actor: 'someone@example.com',
+    entity,
+    entityId: 's1',
+    action,
+    diff: diff === null ? null : JSON.stringify(diff),
+    timestamp: new Date(Date.UTC(2025, 0, day)),
+  });
+
+  // A store created on Jan 1, renamed on Jan 5 and closed on Jan 10
+  const storeTrail = [
+    entry('e1', 1, 'CREATE', { created: { name: 'Mitte', city: 'Berlin', status: 'ACTIVE' } }),
+    entry('e2', 5, 'UPDATE', { name: { from: 'Mitte', to: 'Berlin Mitte' } }),
+    entry('e3', 10, 'UPDATE', { status: { from: 'ACTIVE', to: 'CLOSED' } }),
+  ];
+
+  let prisma: {
+    auditEntry: { findMany: jest.Mock; create: jest.Mock };
+    telemetryEvent: { create: jest.Mock };
+    store: { findUnique: jest.Mock; update: jest.Mock };
+    menuItem: { findUnique: jest.Mock; update: jest.Mock };
+    storeStaff: { findMany: jest.Mock };
+  };
+  let service: AuditHistoryService;
+
+  beforeEach(() => {
+    prisma = {
+      auditEntry: { findMany: jest.fn().mockResolvedValue(storeTrail), create: jest.fn() },
+      telemetryEvent: { create: jest.fn() },
+      store: {
+        findUnique: jest.fn().mockResolvedValue({ name: 'Berlin Mitte', city: 'Berlin', status: 'CLOSED', openedAt: null }),
+        update: jest.fn(),
+      },
+      menuItem: { findUnique: jest.fn(), update: jest.fn() },
+      // The store manager works at s1 only
+      storeStaff: { findMany: jest.fn().mockResolvedValue([{ storeId: 's1' }]) },
+    };
+    const client = prisma as unknown as PrismaClient;
+    service = new AuditHistoryService(client, new StoreAccessService(client), {} as FeatureFlagsService);
+  });
+
+  describe('replayEntries', () => {
+    it('rebuilds the state after every entry', () => {
+      const { baseline, versions } = replayEntries(storeTrail);
+
+      expect(baseline).toBeNull();
+      expect(versions.map(version => version.state)).toEqual([
+        { name: 'Mitte', city: 'Berlin', status: 'ACTIVE' },
+        { name: 'Berlin Mitte', city: 'Berlin', status: 'ACTIVE' },
+        { name: 'Berlin Mitte', city: 'Berlin', status: 'CLOSED' },
+      ]);
+      expect(versions[1].changes).toEqual({ name: { from: 'Mitte', to: 'Berlin Mitte' } });
+    });
+
+    it('starts entities that predate the trail from the values their first changes replaced', () => {
+      const { baseline, versions } = replayEntries([
+        entry('e1', 1, 'UPDATE', { name: { from: 'Old', to: 'New' } }),
+        entry('e2', 2, 'UPDATE', { name: { from: 'New', to: 'Newer' }, city: { from: 'Bonn', to: 'Berlin' } }),
+        entry('e3', 3, 'DELETE', { deleted: { name: 'Newer', city: 'Berlin' } }),
+      ]);
+
+      expect(baseline).toEqual({ name: 'Old', city: 'Bonn' });
+      expect(versions[0].state).toEqual({ name: 'New', city: 'Bonn' });
+      expect(versions[2].state).toBeNull();
+    });
+  });
+
+  it('returns versions newest first and the state at a point in time', async () => {
+    const history = await service.getHistory('stores', 's1', admin, new Date(Date.UTC(2025, 0, 7)));
+
+    expect(history.entity).toBe('Store');
+    expect(history.versions.map(version => version.entryId)).toEqual(['e3', 'e2', 'e1']);
+    expect(history.current).toMatchObject({ name: 'Berlin Mitte', status: 'CLOSED' });
+    expect(history.asOf).toMatchObject({ entryId: 'e2', state: { name: 'Berlin Mitte', status: 'ACTIVE' } });
+  });
+
+  it('limits history to the caller\'s stores', async () => {
+    await expect(service.getHistory('store', 's2', manager)).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.getHistory('flag', 'submind', manager)).rejects.toThrow('Missing permission: settings:manage');
+  });
+
+  it('rejects unknown entities', async () => {
+    await expect(service.getHistory('orders', 'o1', admin)).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('writes back only the fields that differ and records the revert', async () => {
+    const result = await service.revert('store', 's1', 'e1', admin, 'e3');
+
+    expect(result.changes).toEqual({
+      name: { from: 'Berlin Mitte', to: 'Mitte' },
+      status: { from: 'CLOSED', to: 'ACTIVE' },
+    });
+    expect(prisma.store.update).toHaveBeenCalledWith({ where: { id: 's1' }, data: { name: 'Mitte', status: 'ACTIVE' } });
+    expect(prisma.auditEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actor: 'admin@example.com',
+        entity: 'Store',
+        entityId: 's1',
+        action: 'REVERT',
+        diff: JSON.stringify({ name: { from: 'Berlin Mitte', to: 'Mitte' }, status: { from: 'CLOSED', to: 'ACTIVE' } }),
+      }),
+    });
+  });
+
+  it('refuses to revert when the history changed since it was loaded', async () => {
+    await expect(service.revert('store', 's1', 'e1', admin, 'e2')).rejects.toBeInstanceOf(ConflictException);
+    expect(prisma.store.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses reverts that would change nothing', async () => {
+    await expect(service.revert('store', 's1', 'e3', admin)).rejects.toThrow('already matches this version');
+  });
+
+  it('requires the entity\'s write permission to revert', async () => {
+    prisma.menuItem.findUnique.mockResolvedValue({ name: 'BMT', price: 8.99, basePrice: null, active: true, storeId: 's1' });
+
+    await expect(service.revert('menu-item', 'm1', 'e1', staff)).rejects.toThrow('Missing permission: menu:write');
+    expect(prisma.menuItem.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+import { BadRequestException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { inflateRawSync } from 'zlib';
+import { BoardPackExportService, ScenarioComparison } from '../board-pack/board-pack-export.service';
+import { BoardPackDocument, Raster } from '../board-pack/board-pack.types';
+import { renderBoardPackPdf } from '../board-pack/pdf-writer';
+import { decodePng, encodePng } from '../board-pack/png';
+import { renderBoardPackPptx } from '../board-pack/pptx-writer';
+import { StaticMapRenderer } from '../board-pack/static-map.renderer';
+import { GeneratorAnalysisService } from '../location-generator/generator-analysis.service';
+
+/** Read a zip written by writeZip back into path -> contents */
+function unzip(archive: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    files.set(name, inflateRawSync(archive.subarray(start, start + compressedSize)));
+    offset = start + compressedSize;
+  }
+  return files;
+}
+
+describe('board pack', () => {
+  const raster = (width: number, height: number): Raster => {
+    const pixels = Buffer.alloc(width * height * 3);
+    for (let i = 0; i < pixels.length; i++) pixels[i] = (i * 37) % 256;
+    return { width, height, pixels };
+  };
+
+  const document: BoardPackDocument = {
+    title: 'Store Expansion Strategy – 12 Location Portfolio',
+    subtitle: 'Q3 review (draft)',
+    generatedAt: new Date('2025-06-01T00:00:00Z'),
+    sections: [
+      {
+        title: 'Executive Summary',
+        blocks: [
+          { kind: 'paragraph', text: 'Deploy 12 new locations for optimal risk-adjusted returns. '.repeat(20) },
+          { kind: 'metrics', items: [{ label: 'ROI', value: '24.0%' }, { label: 'Risk', value: 'Low' }] },
+        ],
+      },
+      {
+        title: 'Top Sites',
+        blocks: [
+          { kind: 'table', columns: ['Site', 'Score'], rows: Array.from({ length: 60 }, (_, i) => [`Site ${i}`, '0.8']) },
+          { kind: 'map', caption: 'Recommended sites', image: raster(40, 25) },
+        ],
+      },
+    ],
+  };
+
+  describe('png', () => {
+    it('round-trips an RGB raster', () => {
+      const image = raster(17, 9);
+      const decoded = decodePng(encodePng(image));
+
+      expect(decoded).toEqual(image);
+    });
+
+    it('ignores data that is not a PNG', () => {
+      expect(decodePng(Buffer.from('<html>rate limited</html>'))).toBeNull();
+    });
+  });
+
+  describe('renderBoardPackPdf', () => {
+    it('writes a PDF whose cross-reference table points at every object', () => {
+      const pdf = renderBoardPackPdf(document);
+      const text = pdf.toString('latin1');
+
+      expect(text.startsWith('%PDF-1.4')).toBe(true);
+      expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+      const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+      expect(text.slice(startxref, startxref + 4)).toBe('xref');
+
+      const offsets = [...text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+      offsets.forEach((offset, index) => {
+        expect(text.slice(offset, offset + 12)).toMatch(new RegExp(`^${index + 1} 0 obj`));
+      });
+    });
+
+    it('breaks long content across pages and embeds the map', () => {
+      const text = renderBoardPackPdf(document).toString('latin1');
+
+      // Cover, summary, and a table long enough to spill onto further pages
+      expect(Number(text.match(/\/Type \/Pages .*\/Count (\d+)/)![1])).toBeGreaterThanOrEqual(4);
+      expect(text).toContain('/Subtype /Image /Width 40 /Height 25');
+    });
+  });
+
+  describe('renderBoardPackPptx', () => {
+    it('packages a slide per section page with the map as a picture', () => {
+      const files = unzip(renderBoardPackPptx(document));
+
+      expect(files.has('[Content_Types].xml')).toBe(true);
+      expect(files.has('ppt/presentation.xml')).toBe(true);
+      const slides = [...files.keys()].filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path));
+      // Cover, summary, table split over 6 slides, map slide
+      expect(slides).toHaveLength(9);
+      expect(files.get('ppt/presentation.xml')!.toString()).toContain(`r:id="rId${slides.length + 2}"`);
+
+      const mapSlide = files.get(`ppt/slides/slide${slides.length}.xml`)!.toString();
+      expect(mapSlide).toContain('<a:blip r:embed="rId2"/>');
+      expect(decodePng(files.get('ppt/media/image1.png')!)).toEqual(raster(40, 25));
+    });
+
+    it('escapes text for XML', () => {
+      const files = unzip(
+        renderBoardPackPptx({ ...document, sections: [{ title: 'R&D <pilot>', blocks: [] }] }),
+      );
+
+      expect(files.get('ppt/slides/slide2.xml')!.toString()).toContain('R&amp;D &lt;pilot&gt;');
+    });
+  });
+
+  describe('BoardPackExportService', () => {
+    const comparison = (): ScenarioComparison =>
+      ({
+        scenarios: ['Conservative', 'Aggressive'].map((name, i) => ({
+          config: { name },
+          portfolio: {
+            selectedStores: [
+              { candidateId: `planned-${i}`, rank: 1, name: `Site ${i}`, city: 'Berlin', country: 'Germany', roi: 21.5, cost: 350_000, paybackPeriod: 3.2 },
+            ],
+            summary: { totalStores: 1 + i, totalInvestment: 350_000, expectedAnnualRevenue: 900_000 },
+          },
+          timeline: { years: [{ year: 1, storesOpened: 1, investment: 350_000, annualRevenue: 900_000, cashFlow: 100_000 }] },
+          riskAssessment: { overallRisk: 'LOW', riskScore: 20, factors: [{ factor: 'Saturation', severity: 'LOW', impact: 'Minor', mitigation: 'Monitor sales' }] },
+          financialProjections: { year5ROI: 42.3, paybackPeriod: 3.1, year5NPV: 1_200_000, irr: 18.2 },
+          aiRecommendation: 'Proceed.',
+        })),
+        comparison: {
+          metrics: [{ name: 'Average ROI', values: [21.5, 18.25], unit: '%', format: 'percentage' }],
+          winner: 1,
+        },
+        recommendation: 'Aggressive wins on revenue.',
+      }) as unknown as ScenarioComparison;
+
+    let prisma: { store: { findMany: jest.Mock } };
+    let maps: { render: jest.Mock };
+    let service: BoardPackExportService;
+
+    beforeEach(() => {
+      prisma = {
+        store: {
+          findMany: jest.fn().mockResolvedValue([{ id: 'planned-0', latitude: 52.5, longitude: 13.4 }]),
+        },
+      };
+      maps = { render: jest.fn().mockResolvedValue(raster(4, 4)) };
+      service = new BoardPackExportService(
+        prisma as unknown as PrismaClient,
+        {} as GeneratorAnalysisService,
+        maps as unknown as StaticMapRenderer,
+      );
+    });
+
+    it('builds a comparison pack led by the winning scenario', async () => {
+      const pack = await service.comparisonDocument(comparison());
+
+      expect(pack.sections.map((section) => section.title)).toEqual([
+        'Executive Summary',
+        'Scenario Comparison',
+        'Conservative',
+        'Aggressive',
+        'Next Steps',
+      ]);
+      expect(pack.sections[0].blocks[1]).toEqual(
+        expect.objectContaining({ items: expect.arrayContaining([{ label: 'Recommended scenario', value: 'Aggressive' }]) }),
+      );
+      expect(pack.sections[1].blocks[0]).toEqual(
+        expect.objectContaining({ columns: ['Metric', 'Conservative', 'Aggressive'], rows: [['Average ROI (%)', '21.5%', '18.3%']] }),
+      );
+      expect(maps.render).toHaveBeenCalledWith(expect.objectContaining({ proposed: [{ id: 'planned-0', lat: 52.5, lng: 13.4 }] }));
+    });
+
+    it('rejects a body that is not a comparison result', async () => {
+      await expect(service.comparisonDocument({} as ScenarioComparison)).rejects.toThrow(BadRequestException);
+    });
+
+    it('names the download after the format', async () => {
+      const rendered = service.render(document, 'pptx', 'board-pack-abc');
+
+      expect(rendered.filename).toBe('board-pack-abc.pptx');
+      expect(rendered.contentType).toContain('presentationml');
+      expect(rendered.body.readUInt32LE(0)).toBe(0x04034b50);
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { CompetitorRecord, parseCompetitorCsv, parseCompetitorGeoJson } from '../competitive/competitor-file-parser';
+import { CompetitorImportService } from '../competitive/competitor-import.service';
+import { KnownCompetitor, brandKey, normalizeAddress, normalizeOsmId, planCompetitorChanges } from '../competitive/competitor-matching';
+
+// Alexanderplatz; 0.001° of latitude is about 111 m
+const LAT = 52.5219;
+const LNG = 13.4132;
+
+function known(overrides: Partial<KnownCompetitor> = {}): KnownCompetitor {
+  return {
+    id: 'mcd-1',
+    brand: "McDonald's",
+    name: "McDonald's Alexanderplatz",
+    latitude: LAT,
+    longitude: LNG,
+    address: 'Alexanderplatz 3',
+    postcode: '10178',
+    googlePlaceId: null,
+    osmId: null,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+function record(overrides: Partial<CompetitorRecord> = {}): CompetitorRecord {
+  return { row: 1, name: "McDonald's", brand: "McDonald's", category: 'qsr', latitude: LAT, longitude: LNG, ...overrides };
+}
+
+describe('competitor file parsing', () => {
+  it('reads semicolon CSVs with decimal commas and vendor headers', () => {
+    const csv = [
+      'Chain;Outlet Name;Lat;Lon;Street;PLZ',
+      'Burger King;"BK Alex; Mitte";52,5219;13,4132;Alexanderplatz 5;10178',
+      'KFC;KFC Nowhere;;13.4;Somewhere;',
+      ';;52.5;13.4;;',
+      'KFC;KFC Null Island;0;0;;',
+    ].join('\r\n');
+
+    const { records, rejected } = parseCompetitorCsv(csv);
+
+    expect(records).toEqual([
+      expect.objectContaining({ row: 1, brand: 'Burger King', name: 'BK Alex; Mitte', latitude: 52.5219, longitude: 13.4132, postcode: '10178' }),
+    ]);
+    expect(rejected.map((row) => row.row)).toEqual([2, 3, 4]);
+  });
+
+  it('rejects CSVs without coordinate columns', () => {
+    expect(() => parseCompetitorCsv('brand,address\nKFC,Main St 1')).toThrow('latitude and longitude');
+  });
+
+  it('reads OSM GeoJSON exports, including buildings mapped as areas', () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { '@id': 'node/42', brand: 'Subway', amenity: 'fast_food', cuisine: 'sandwich', 'addr:street': 'Karl-Marx-Allee', 'addr:housenumber': '1' },
+          geometry: { type: 'Point', coordinates: [LNG, LAT] },
+        },
+        {
+          type: 'Feature',
+          id: 'way/7',
+          properties: { name: 'Pizza Hut', cuisine: 'pizza' },
+          geometry: { type: 'Polygon', coordinates: [[[13, 52], [13.002, 52], [13.002, 52.002], [13, 52.002], [13, 52]]] },
+        },
+        { type: 'Feature', properties: { brand: 'KFC' }, geometry: { type: 'LineString', coordinates: [] } },
+      ],
+    });
+
+    const { records, rejected } = parseCompetitorGeoJson(geojson);
+
+    expect(records[0]).toMatchObject({ brand: 'Subway', category: 'sandwich', osmId: 'node/42', address: 'Karl-Marx-Allee 1' });
+    expect(records[1]).toMatchObject({ brand: 'Pizza Hut', category: 'pizza', osmId: 'way/7' });
+    expect(records[1].latitude).toBeCloseTo(52.001);
+    expect(records[1].longitude).toBeCloseTo(13.001);
+    expect(rejected).toEqual([{ row: 3, reason: 'Unsupported geometry LineString' }]);
+  });
+});
+
+describe('competitor matching', () => {
+  it('normalizes brands, addresses and OSM ids', () => {
+    expect(brandKey('McDonald’s')).toBe(brandKey('MCDONALDS'));
+    expect(brandKey('Kentucky Fried Chicken')).toBe('kfc');
+    expect(normalizeAddress('Hauptstraße 5')).toBe(normalizeAddress('Hauptstr. 5'));
+    expect(normalizeOsmId('n123')).toBe('node/123');
+    expect(normalizeOsmId('way/9')).toBe('way/9');
+  });
+
+  it('matches by id first, even when the place moved', () => {
+    const plan = planCompetitorChanges(
+      [known({ osmId: 'node/1' })],
+      [record({ osmId: 'n1', latitude: LAT + 0.003 })],
+      { closeMissing: false },
+    );
+
+    expect(plan.relocations).toHaveLength(1);
+    expect(plan.relocations[0].movedM).toBeGreaterThan(300);
+    expect(plan.openings).toHaveLength(0);
+  });
+
+  it('matches nearby places of the same brand by address', () => {
+    const plan = planCompetitorChanges(
+      [known({ address: 'Alexanderstraße 3' })],
+      [record({ latitude: LAT + 0.002, address: 'Alexanderstr. 3' }), record({ row: 2, brand: 'KFC', latitude: LAT + 0.0001 })],
+      { closeMissing: false },
+    );
+
+    // 220 m away: a matching address makes it the same site, re-geocoded
+    expect(plan.relocations.map((match) => match.existing.id)).toEqual(['mcd-1']);
+    expect(plan.openings.map((opening) => opening.brand)).toEqual(['KFC']);
+  });
+
+  it('does not match nearby places with different addresses', () => {
+    const plan = planCompetitorChanges([known()], [record({ latitude: LAT + 0.002, address: 'Rathausstraße 10' })], { closeMissing: false });
+    expect(plan.openings).toHaveLength(1);
+  });
+
+  it('reports rows naming the same place twice as duplicates', () => {
+    const plan = planCompetitorChanges(
+      [known()],
+      [
+        record({ row: 1 }),
+        record({ row: 2, latitude: LAT + 0.0002 }),
+        record({ row: 3, brand: 'KFC', latitude: LAT + 0.01, googlePlaceId: 'g-kfc' }),
+        record({ row: 4, brand: 'KFC', latitude: LAT + 0.02, googlePlaceId: 'g-kfc' }),
+      ],
+      { closeMissing: false },
+    );
+
+    expect(plan.duplicates.map(({ record, duplicateOfRow }) => [record.row, duplicateOfRow])).toEqual([
+      [2, 1],
+      [4, 3],
+    ]);
+  });
+
+  it('closes missing places of listed brands in scope, pairing nearby openings as relocations', () => {
+    const places = [
+      known(),
+      known({ id: 'mcd-2', latitude: LAT + 0.05 }),
+      known({ id: 'mcd-3', latitude: LAT - 0.05 }),
+      known({ id: 'bk-1', brand: 'Burger King', latitude: LAT + 0.03 }),
+    ];
+    const plan = planCompetitorChanges(places, [record(), record({ row: 2, latitude: LAT + 0.055, address: 'Neue Straße 1' })], {
+      closeMissing: true,
+      inScope: (competitor) => competitor.id !== 'mcd-3',
+    });
+
+    expect(plan.matches.map((match) => match.existing.id)).toEqual(['mcd-1']);
+    // mcd-2 moved 550 m; mcd-3 is out of scope and Burger King isn't in the file
+    expect(plan.relocations).toEqual([expect.objectContaining({ existing: places[1], reopened: false })]);
+    expect(plan.openings).toHaveLength(0);
+    expect(plan.closures).toHaveLength(0);
+
+    const closing = planCompetitorChanges(places, [record()], { closeMissing: true });
+    expect(closing.closures.map((closure) => closure.id)).toEqual(['mcd-2', 'mcd-3']);
+  });
+
+  it('flags inactive places that reappear as reopened', () => {
+    const plan = planCompetitorChanges([known({ isActive: false })], [record()], { closeMissing: true });
+    expect(plan.matches[0].reopened).toBe(true);
+    expect(plan.closures).toHaveLength(0);
+  });
+});
+
+describe('CompetitorImportService', () => {
+  const places = [
+    { ...known(), region: 'Berlin', country: 'DE', sources: '["osm"]', city: 'Berlin', phoneNumber: null, website: null },
+    { ...known({ id: 'mcd-2', latitude: LAT + 0.02, address: 'Friedrichstraße 1' }), region: 'Berlin', country: 'DE', sources: '["osm"]' },
+    { ...known({ id: 'mcd-3', latitude: LAT - 0.02 }), region: 'Berlin', country: 'DE', sources: '["google"]' },
+  ];
+
+  const mockPrisma = () => {
+    const prisma = {
+      competitorPlace: {
+        findMany: jest.fn().mockResolvedValue(places),
+        findUnique: jest.fn(({ where }) => Promise.resolve(where.id === 'mcd-1' ? { ...places[0], changes: [] } : null)),
+        update: jest.fn(({ where, data }) => Promise.resolve({ ...places.find((place) => place.id === where.id), ...data })),
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'new-1', ...data })),
+      },
+      competitorImport: {
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'import-1', ...data })),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      competitorChange: {
+        create: jest.fn(({ data }) => Promise.resolve(data)),
+        findMany: jest.fn(),
+      },
+      auditEntry: { create: jest.fn().mockResolvedValue({}) },
+      $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(prisma)),
+    };
+    return prisma;
+  };
+
+  let prisma: ReturnType<typeof mockPrisma>;
+  let service: CompetitorImportService;
+
+  beforeEach(() => {
+    prisma = mockPrisma();
+    service = new CompetitorImportService(prisma as unknown as PrismaClient);
+  });
+
+  const csv = [
+    'brand,name,lat,lng,address,osm_id',
+    `McDonald's,McDonald's Alex,${LAT},${LNG},Alexanderplatz 3,`,
+    `McDonald's,McDonald's Spree,${LAT + 0.03},${LNG},An der Spree 2,n77`,
+    `McDonald's,McDonald's Alex,${LAT + 0.0001},${LNG},Alexanderplatz 3,`,
+    'KFC,KFC,,,,',
+  ].join('\n');
+
+  it('records openings and closures of places the source reported', async () => {
+    const summary = await service.importFile(
+      { format: 'csv', content: csv, source: 'osm', region: 'Berlin', closeMissing: true },
+      'analyst@example.com',
+    );
+
+    expect(summary).toMatchObject({
+      importId: 'import-1',
+      rowsTotal: 4,
+      rowsRejected: 1,
+      duplicatesInFile: 1,
+      matched: 1,
+      opened: 1,
+      closed: 1,
+      relocated: 0,
+    });
+    const changes = prisma.competitorChange.create.mock.calls.map(([{ data }]) => [data.changeType, data.competitorId]);
+    // mcd-3 only came from Google, so an OSM file says nothing about it
+    expect(changes).toEqual([
+      ['OPENED', 'new-1'],
+      ['CLOSED', 'mcd-2'],
+    ]);
+    expect(prisma.competitorPlace.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ osmId: 'node/77', region: 'Berlin', sources: '["osm"]' }),
+    });
+    expect(prisma.competitorPlace.update).toHaveBeenCalledWith({ where: { id: 'mcd-2' }, data: { isActive: false } });
+    expect(prisma.auditEntry.create).toHaveBeenCalled();
+  });
+
+  it('previews changes without writing on a dry run', async () => {
+    const summary = await service.importFile(
+      { format: 'csv', content: csv, source: 'osm', region: 'Berlin', closeMissing: true, dryRun: true },
+      'analyst@example.com',
+    );
+
+    expect(summary.importId).toBeNull();
+    expect(summary.changes.map((change) => change.changeType)).toEqual(['OPENED', 'CLOSED']);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects unreadable files and unscoped closures', async () => {
+    await expect(service.importFile({ format: 'geojson', content: '{', source: 'osm' }, 'a')).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.importFile({ format: 'csv', content: csv, source: 'osm', closeMissing: true }, 'a')).rejects.toThrow(
+      'closeMissing needs a region or country',
+    );
+  });
+
+  it('reports changes per region with net openings', async () => {
+    prisma.competitorChange.findMany.mockResolvedValue([
+      { region: 'Berlin', brand: 'KFC', changeType: 'OPENED' },
+      { region: 'Berlin', brand: "McDonald's", changeType: 'CLOSED' },
+      { region: 'Berlin', brand: 'KFC', changeType: 'OPENED' },
+      { region: null, brand: 'KFC', changeType: 'RELOCATED' },
+      { region: 'Hamburg', brand: 'KFC', changeType: 'REOPENED' },
+    ]);
+
+    const report = await service.changesReport({});
+
+    expect(report.regions.map(({ region, opened, closed, relocated, reopened, net }) => [region, opened, closed, relocated, reopened, net])).toEqual([
+      ['Berlin', 2, 1, 0, 0, 1],
+      ['Hamburg', 0, 0, 0, 1, 1],
+      [null, 0, 0, 1, 0, 0],
+    ]);
+    expect(report.regions[0].byBrand).toEqual([
+      { brand: 'KFC', opened: 2, closed: 0, relocated: 0, reopened: 0 },
+      { brand: "McDonald's", opened: 0, closed: 1, relocated: 0, reopened: 0 },
+    ]);
+    const monthAgo = Date.now() - 27 * 24 * 3600 * 1000;
+    expect(prisma.competitorChange.findMany.mock.calls[0][0].where.detectedAt.gte.getTime()).toBeLessThan(monthAgo);
+  });
+
+  it('returns a competitor history or 404', async () => {
+    await expect(service.history('mcd-1')).resolves.toMatchObject({ id: 'mcd-1', changes: [] });
+    await expect(service.history('missing')).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,208 @@
+import { BadRequestException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { ExperimentDefinition, ExperimentService } from '../experiments/experiment.service';
+import { ExperimentResultsService, ResultOrder, ResultVariant } from '../experiments/experiment-results.service';
+
+describe('ExperimentService', () => {
+  const service = new ExperimentService({} as PrismaClient);
+  const storeIds = Array.from({ length: 200 }, (_, i) => `store-${i}`);
+
+  const definition = (overrides: Partial<ExperimentDefinition> = {}): ExperimentDefinition => ({
+    name: 'Footlong price test',
+    storeIds,
+    variants: [
+      { key: 'control', name: 'Control', isControl: true, weight: 50 },
+      {
+        key: 'treatment',
+        name: '+5% footlongs',
+        weight: 50,
+        priceRules: [{ menuItemName: 'Footlong', type: 'PERCENT', value: 5 }],
+      },
+    ],
+    ...overrides,
+  });
+
+  describe('assignStores', () => {
+    it('assigns the same variant to a store every time', () => {
+      const first = service.assignStores('exp-1', definition());
+      const second = service.assignStores('exp-1', definition());
+
+      expect(second).toEqual(first);
+    });
+
+    it('splits stores roughly by weight', () => {
+      const assignments = service.assignStores('exp-1', definition({
+        variants: [
+          { key: 'control', name: 'Control', isControl: true, weight: 80 },
+          { key: 'treatment', name: 'Treatment', weight: 20 },
+        ],
+      }));
+
+      const treatment = assignments.filter((a) => a.variantKey === 'treatment').length;
+      expect(treatment).toBeGreaterThan(20);
+      expect(treatment).toBeLessThan(60);
+    });
+
+    it('honours pinned stores and adds them to the pool', () => {
+      const assignments = service.assignStores('exp-1', definition({
+        storeIds: ['store-1', 'store-2'],
+        variants: [
+          { key: 'control', name: 'Control', isControl: true, storeIds: ['store-9'] },
+          { key: 'treatment', name: 'Treatment', storeIds: ['store-1'] },
+        ],
+      }));
+
+      expect(assignments).toHaveLength(3);
+      expect(assignments.find((a) => a.storeId === 'store-1')).toEqual({ storeId: 'store-1', variantKey: 'treatment', pinned: true });
+      expect(assignments.find((a) => a.storeId === 'store-9')).toEqual({ storeId: 'store-9', variantKey: 'control', pinned: true });
+    });
+  });
+
+  describe('applyPriceRule', () => {
+    it('applies fixed and percentage rules', () => {
+      expect(service.applyPriceRule(6.5, { menuItemName: 'Footlong', type: 'FIXED', value: 5.99 })).toBe(5.99);
+      expect(service.applyPriceRule(6.5, { menuItemName: 'Footlong', type: 'PERCENT', value: 10 })).toBe(7.15);
+      expect(service.applyPriceRule(6.5, { menuItemName: 'Footlong', type: 'PERCENT', value: -20 })).toBe(5.2);
+    });
+  });
+
+  describe('validation', () => {
+    it('requires exactly one control variant', async () => {
+      await expect(service.create(definition({
+        variants: [
+          { key: 'a', name: 'A' },
+          { key: 'b', name: 'B' },
+        ],
+      }), 'tester')).rejects.toThrow('Exactly one variant must be marked as control');
+    });
+
+    it('rejects price rules on the control variant', async () => {
+      await expect(service.create(definition({
+        variants: [
+          { key: 'control', name: 'Control', isControl: true, priceRules: [{ menuItemName: 'Cookie', type: 'FIXED', value: 1 }] },
+          { key: 'treatment', name: 'Treatment' },
+        ],
+      }), 'tester')).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects a store pinned to two variants', async () => {
+      await expect(service.create(definition({
+        variants: [
+          { key: 'control', name: 'Control', isControl: true, storeIds: ['store-1'] },
+          { key: 'treatment', name: 'Treatment', storeIds: ['store-1'] },
+        ],
+      }), 'tester')).rejects.toThrow('pinned to more than one variant');
+    });
+  });
+});
+
+describe('ExperimentResultsService', () => {
+  const service = new ExperimentResultsService({} as PrismaClient);
+  const start = new Date('2025-03-01T00:00:00Z');
+  const end = new Date('2025-03-15T00:00:00Z');
+
+  const variants: ResultVariant[] = [
+    { id: 'v-control', key: 'control', name: 'Control', isControl: true, storeIds: ['c1', 'c2', 'c3'] },
+    { id: 'v-treatment', key: 'treatment', name: 'Treatment', isControl: false, storeIds: ['t1', 't2', 't3'] },
+  ];
+
+  // Control stores take 10 orders/day at 8.00; treatment stores 10 orders/day at 9.00
+  const orders: ResultOrder[] = [];
+  for (let day = 0; day < 14; day++) {
+    for (const storeId of ['c1', 'c2', 'c3', 't1', 't2', 't3']) {
+      for (let i = 0; i < 10; i++) {
+        const total = storeId.startsWith('c') ? 8 + (i % 2) * 0.5 : 9 + (i % 2) * 0.5;
+        orders.push({ storeId, total, createdAt: new Date(start.getTime() + day * 86400000 + i * 3600000) });
+      }
+    }
+  }
+
+  it('aggregates per-variant volume, ticket and revenue', () => {
+    const report = service.buildReport(variants, orders, start, end);
+
+    expect(report.days).toBe(14);
+    const control = report.variants.find((v) => v.key === 'control')!;
+    expect(control.storeDays).toBe(42);
+    expect(control.orders).toBe(420);
+    expect(control.ordersPerStoreDay.mean).toBe(10);
+    expect(control.averageTicket.mean).toBe(8.25);
+    expect(control.revenue).toBe(3465);
+  });
+
+  it('reports a significant ticket lift for the treatment', () => {
+    const report = service.buildReport(variants, orders, start, end);
+    const [comparison] = report.comparisons;
+
+    expect(comparison.variantKey).toBe('treatment');
+    expect(comparison.averageTicket.difference).toBe(1);
+    expect(comparison.averageTicket.significant).toBe(true);
+    expect(comparison.averageTicket.relativeLift).toBeCloseTo(0.1212, 3);
+    expect(comparison.ordersPerStoreDay.difference).toBe(0);
+    expect(comparison.ordersPerStoreDay.significant).toBe(false);
+  });
+
+  it('counts store-days without orders as zero and flags small samples', () => {
+    const report = service.buildReport(
+      [
+        { id: 'c', key: 'control', name: 'Control', isControl: true, storeIds: ['c1'] },
+        { id: 't', key: 'treatment', name: 'Treatment', isControl: false, storeIds: ['t1'] },
+      ],
+      [{ storeId: 't1', total: 10, createdAt: new Date(start.getTime() + 3600000) }],
+      start,
+      new Date(start.getTime() + 2 * 86400000),
+    );
+
+    expect(report.variants[0].ordersPerStoreDay.mean).toBe(0);
+    expect(report.variants[1].ordersPerStoreDay.mean).toBe(0.5);
+    expect(report.warnings).toHaveLength(2);
+  });
+
+  it('computes a 95% t interval around the mean', () => {
+    const estimate = service.estimate([2, 4, 4, 4, 5, 5, 7, 9]);
+
+    expect(estimate.mean).toBe(5);
+    expect(estimate.standardError).toBeCloseTo(0.76, 2);
+    expect(estimate.degreesOfFreedom).toBe(7);
+    expect(estimate.ciLow).toBeCloseTo(3.21, 2);
+    expect(estimate.ciHigh).toBeCloseTo(6.79, 2);
+  });
+
+  it('widens intervals when stores differ more than their days and orders do', () => {
+    // Every store is steady day to day, but stores run from 5 to 15 orders/day at tickets from 6.00 to 10.00
+    const profiles: Record<string, { perDay: number; ticket: number }> = {
+      c1: { perDay: 5, ticket: 6 },
+      c2: { perDay: 10, ticket: 8 },
+      c3: { perDay: 15, ticket: 10 },
+      t1: { perDay: 6, ticket: 7 },
+      t2: { perDay: 11, ticket: 9 },
+      t3: { perDay: 16, ticket: 11 },
+    };
+    const clustered: ResultOrder[] = [];
+    for (let day = 0; day < 14; day++) {
+      for (const [storeId, { perDay, ticket }] of Object.entries(profiles)) {
+        for (let i = 0; i < perDay; i++) {
+          clustered.push({ storeId, total: ticket + (i % 2) * 0.5, createdAt: new Date(start.getTime() + day * 86400000 + i * 3600000) });
+        }
+      }
+    }
+
+    const report = service.buildReport(variants, clustered, start, end);
+    const control = report.variants.find((v) => v.key === 'control')!;
+    const [comparison] = report.comparisons;
+
+    // Treating the 42 store-days as independent would give an interval a fraction as wide
+    const storeDays = service.estimate(Array.from({ length: 14 }, () => [5, 10, 15]).flat());
+    expect(control.ordersPerStoreDay.mean).toBe(storeDays.mean);
+    expect(control.ordersPerStoreDay.sampleSize).toBe(3);
+    expect(control.ordersPerStoreDay.degreesOfFreedom).toBe(2);
+    expect(control.ordersPerStoreDay.ciHigh - control.ordersPerStoreDay.ciLow).toBeGreaterThan(
+      5 * (storeDays.ciHigh - storeDays.ciLow),
+    );
+
+    // A one-unit ticket lift is well inside the spread between stores, however many orders there are
+    expect(comparison.averageTicket.difference).toBeGreaterThan(0.5);
+    expect(comparison.averageTicket.significant).toBe(false);
+    expect(comparison.averageTicket.ciLow).toBeLessThan(-2);
+    expect(comparison.averageTicket.ciHigh).toBeGreaterThan(3);
+  });
+});
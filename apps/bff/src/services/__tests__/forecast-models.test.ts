@@ -0,0 +1,124 @@
+import {
+  backtest,
+  etsDamped,
+  holtWinters,
+  regressionForecast,
+  seasonalNaive,
+  selectModel,
+  trendSeasonal,
+} from '../forecasting/forecast-models';
+
+describe('forecast models', () => {
+  // Three years of monthly revenue starting in January: growing, with a December peak
+  const seasonalProfile = [0.8, 0.85, 0.95, 1, 1.05, 1.1, 1.15, 1.1, 1, 0.95, 0.95, 1.1];
+  const seasonal = Array.from({ length: 36 }, (_, t) => (50_000 + 400 * t) * seasonalProfile[t % 12]);
+
+  describe('seasonalNaive', () => {
+    it('repeats the same month from last year', () => {
+      const steps = seasonalNaive.forecast(seasonal, 14, 1);
+
+      expect(steps[0].value).toBe(seasonal[24]);
+      expect(steps[11].value).toBe(seasonal[35]);
+      expect(steps[12].value).toBe(seasonal[24]);
+      expect(steps[12].standardError).toBeGreaterThan(steps[0].standardError);
+    });
+  });
+
+  describe('holtWinters', () => {
+    it('tracks trend and seasonality on a clean series', () => {
+      const steps = holtWinters.forecast(seasonal.slice(0, 30), 6, 1);
+
+      steps.forEach((step, i) => {
+        expect(Math.abs(step.value - seasonal[30 + i]) / seasonal[30 + i]).toBeLessThan(0.08);
+      });
+    });
+
+    it('widens intervals with the horizon', () => {
+      const noisy = seasonal.map((v, t) => v + (t % 3 === 0 ? 1500 : -700));
+      const steps = holtWinters.forecast(noisy, 12, 1);
+
+      expect(steps[11].standardError).toBeGreaterThan(steps[0].standardError);
+    });
+  });
+
+  describe('etsDamped', () => {
+    it('flattens the trend over long horizons', () => {
+      const growing = Array.from({ length: 12 }, (_, t) => 10_000 + 500 * t);
+      const steps = etsDamped.forecast(growing, 24, 1);
+
+      const earlyGrowth = steps[1].value - steps[0].value;
+      const lateGrowth = steps[23].value - steps[22].value;
+      expect(earlyGrowth).toBeGreaterThan(0);
+      expect(lateGrowth).toBeLessThan(earlyGrowth);
+    });
+  });
+
+  describe('backtest', () => {
+    it('scores MAPE and interval coverage over rolling origins', () => {
+      const result = backtest(trendSeasonal, seasonal, 1, 3);
+
+      expect(result.origins).toBe(12);
+      expect(result.points).toBe(3 * 10 + 2 + 1);
+      expect(result.mape).toBeGreaterThan(0);
+      expect(result.coverage).toBeGreaterThanOrEqual(0);
+      expect(result.coverage).toBeLessThanOrEqual(1);
+    });
+
+    it('does not score a model without enough backtest points', () => {
+      const result = backtest(seasonalNaive, seasonal.slice(0, 13), 1, 3);
+
+      expect(result.points).toBe(1);
+      expect(result.mape).toBeNull();
+    });
+
+    it('skips months without revenue when computing MAPE', () => {
+      const withClosure = [...seasonal];
+      withClosure[30] = 0;
+
+      expect(backtest(trendSeasonal, withClosure, 1, 3).mape).not.toBeNaN();
+    });
+  });
+
+  describe('selectModel', () => {
+    it('picks a seasonal model for strongly seasonal history', () => {
+      const selection = selectModel(seasonal, 1, 3);
+
+      expect(['holt-winters', 'seasonal-naive']).toContain(selection.model.name);
+      expect(selection.backtests.map((result) => result.model)).toEqual(
+        expect.arrayContaining(['holt-winters', 'ets-damped', 'seasonal-naive', 'trend-seasonal']),
+      );
+      expect(selection.reason).toMatch(/Lowest backtest MAPE/);
+    });
+
+    it('only considers models the history is long enough for', () => {
+      const selection = selectModel(seasonal.slice(0, 8), 1, 3);
+
+      expect(selection.backtests.map((result) => result.model)).toEqual(['ets-damped', 'trend-seasonal']);
+    });
+
+    it('rejects history shorter than every model needs', () => {
+      expect(() => selectModel(seasonal.slice(0, 4), 1, 3)).toThrow('Need at least 6 months');
+    });
+  });
+
+  describe('regressionForecast', () => {
+    const peer = (turnover: number, band: number) => ({
+      monthlyRevenue: 0.9 * (turnover / 12) + 2_000 * band,
+      features: [turnover / 12, band],
+      seasonalIndices: { 1: 0.8, 12: 1.2 },
+    });
+    const peers = [peer(600_000, 0), peer(900_000, 1), peer(1_200_000, 2), peer(750_000, 2), peer(1_000_000, 0)];
+
+    it('predicts from comparable stores and applies their seasonality', () => {
+      const steps = regressionForecast([80_000, 1], peers, 2, 12);
+
+      expect(steps[0].baseline).toBeCloseTo(0.9 * 80_000 + 2_000, -1);
+      expect(steps[0].seasonalFactor).toBeCloseTo(1.2);
+      expect(steps[1].seasonalFactor).toBeCloseTo(0.8);
+    });
+
+    it('requires enough peers to fit', () => {
+      expect(() => regressionForecast([80_000, 1], peers.slice(0, 3), 2, 1)).toThrow('comparable stores');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { GeneratorAnalysisService } from '../location-generator/generator-analysis.service';
+
+describe('GeneratorAnalysisService', () => {
+  let prisma: {
+    store: { findMany: jest.Mock };
+    competitorPlace: { findMany: jest.Mock };
+    demographicCache: { findMany: jest.Mock };
+    expansionJob: { findUnique: jest.Mock };
+  };
+  let service: GeneratorAnalysisService;
+
+  const store = (id: string, lat: number, lng: number, openedAt: Date | null = null) => ({
+    id,
+    name: `Store ${id}`,
+    latitude: lat,
+    longitude: lng,
+    annualTurnover: 900_000,
+    openedAt,
+  });
+
+  // A row of stores along a line, with the last two opened recently
+  const stores = [
+    store('a', 52.0, 13.0, new Date('2019-01-01')),
+    store('b', 52.0, 13.4, new Date('2020-01-01')),
+    store('c', 52.0, 13.8),
+    store('d', 52.2, 13.2, new Date('2024-03-01')),
+    store('e', 52.2, 13.6, new Date('2024-06-01')),
+  ];
+
+  // 25 suggestions on a grid with populations falling away from the first one
+  const suggestions = Array.from({ length: 25 }, (_, i) => ({
+    id: `site-${i}`,
+    lat: 52.3 + Math.floor(i / 5) * 0.05,
+    lng: 13.0 + (i % 5) * 0.1,
+    region: i < 10 ? 'Berlin' : 'Potsdam',
+  }));
+  const completedJob = {
+    id: 'job-1',
+    status: 'completed',
+    params: JSON.stringify({ region: { country: 'Germany' }, aggression: 50 }),
+    result: JSON.stringify({ suggestions }),
+  };
+
+  beforeEach(() => {
+    prisma = {
+      store: { findMany: jest.fn().mockResolvedValue(stores) },
+      competitorPlace: { findMany: jest.fn().mockResolvedValue([]) },
+      demographicCache: {
+        findMany: jest.fn().mockResolvedValue(
+          suggestions.map((s, i) => ({ lat: s.lat, lng: s.lng, population: 60_000 - i * 2_000 })),
+        ),
+      },
+      expansionJob: { findUnique: jest.fn().mockResolvedValue(completedJob) },
+    };
+    service = new GeneratorAnalysisService(prisma as unknown as PrismaClient);
+  });
+
+  describe('backtest', () => {
+    it('holds out stores opened since the cutoff and reports each opening', async () => {
+      const report = await service.backtest({ country: 'Germany', openedSince: new Date('2024-01-01') });
+
+      expect(report.trainingStores).toBe(3);
+      expect(report.heldOutStores).toBe(2);
+      expect(report.openings.map((o) => o.storeId)).toEqual(['d', 'e']);
+      expect(report.candidatesEvaluated).toBeGreaterThan(0);
+      report.openings.forEach((opening) => {
+        expect(opening.hit).toBe(opening.nearestPredictionKm !== null && opening.nearestPredictionKm <= 5);
+      });
+    });
+
+    it('rejects a cutoff with no openings after it', async () => {
+      await expect(service.backtest({ country: 'Germany', openedSince: new Date('2030-01-01') })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('job analyses', () => {
+    it('rejects jobs that have not completed', async () => {
+      prisma.expansionJob.findUnique.mockResolvedValue({ ...completedJob, status: 'running', result: null });
+
+      await expect(service.stability('job-1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('returns the Pareto frontier with a knee point and site ids', async () => {
+      const report = await service.paretoFrontier('job-1', 2, 10);
+
+      expect(report.candidates).toBe(25);
+      expect(report.frontier.length).toBeGreaterThan(0);
+      expect(report.frontier.filter((point) => point.isKnee)).toHaveLength(1);
+      expect(report.knee).not.toBeNull();
+      report.frontier.forEach((point) => expect(point.siteIds.length).toBeLessThanOrEqual(point.k));
+    });
+
+    it('reports stability for every suggested site', async () => {
+      const report = await service.stability('job-1', 10, 10);
+
+      expect(report.targetK).toBe(10);
+      expect(report.sites).toHaveLength(25);
+      report.sites.forEach((site) => {
+        expect(site.stabilityScore).toBeGreaterThanOrEqual(0);
+        expect(site.stabilityScore).toBeLessThanOrEqual(1);
+      });
+    });
+
+    it('explains what sites outside the top 20 would need', async () => {
+      const report = await service.counterfactuals('job-1');
+
+      expect(report.targetRank).toBe(20);
+      expect(report.sites).toHaveLength(5);
+      report.sites.forEach((site) => expect(site.currentRank).toBeGreaterThan(20));
+    });
+
+    it('rejects a site that is not in the job', async () => {
+      await expect(service.counterfactuals('job-1', 'elsewhere')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
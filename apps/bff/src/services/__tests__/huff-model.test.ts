@@ -0,0 +1,179 @@
+import { PrismaClient } from '@prisma/client';
+import { LlmClient } from '@subway/shared-ai';
+import { DemandCell, HuffFacility, HuffNetwork } from '../portfolio/huff-model';
+import { HuffMarketShareService } from '../portfolio/huff-market-share.service';
+import { PortfolioOptimizerService } from '../portfolio/portfolio-optimizer.service';
+import { ROICalculatorService } from '../portfolio/roi-calculator.service';
+import { CannibalizationCalculatorService } from '../portfolio/cannibalization-calculator.service';
+
+const offlineLlm = new LlmClient({
+  name: 'offline',
+  defaultModel: 'none',
+  isConfigured: () => false,
+  complete: jest.fn().mockRejectedValue(new Error('offline')),
+});
+
+// A row of cells roughly 1 km apart along the 52nd parallel
+const cells: DemandCell[] = Array.from({ length: 21 }, (_, i) => ({ lat: 52, lng: 13 + i * 0.0147, demand: 1000 }));
+
+const facility = (id: string, lng: number, owner: HuffFacility['owner'] = 'own'): HuffFacility => ({
+  id,
+  name: id,
+  lat: 52,
+  lng,
+  owner,
+  attractiveness: 1,
+});
+
+describe('HuffNetwork', () => {
+  it('splits demand evenly between symmetric stores', () => {
+    const network = new HuffNetwork(cells, [facility('west', 13.0735), facility('east', 13.2205)]);
+
+    expect(network.revenue('west')).toBeCloseTo(network.revenue('east'), 6);
+    expect(network.revenue('west') + network.revenue('east')).toBeCloseTo(21_000, 6);
+  });
+
+  it('reports the marginal impact that adding the facility then realises', () => {
+    const network = new HuffNetwork(cells, [facility('store', 13.1), facility('rival', 13.2, 'competitor')]);
+    const storeBefore = network.revenue('store');
+    const rivalBefore = network.revenue('rival');
+    const candidate = facility('candidate', 13.12);
+
+    const impact = network.marginalImpact(candidate);
+    network.add(candidate);
+
+    expect(impact.captured).toBeCloseTo(network.revenue('candidate'), 6);
+    expect(impact.ownLoss).toBeCloseTo(storeBefore - network.revenue('store'), 6);
+    expect(impact.competitorLoss).toBeCloseTo(rivalBefore - network.revenue('rival'), 6);
+    expect(impact.newDemand).toBe(0);
+  });
+
+  it('charges a candidate for overlap with candidates already added', () => {
+    const network = new HuffNetwork(cells, [facility('rival', 13.0, 'competitor')]);
+    const first = facility('first', 13.2);
+    const second = facility('second', 13.205);
+
+    const alone = network.marginalImpact(second);
+    network.add(first);
+    const afterFirst = network.marginalImpact(second);
+
+    expect(afterFirst.captured).toBeLessThan(alone.captured);
+    expect(alone.ownLoss).toBe(0);
+    expect(afterFirst.ownLoss).toBeGreaterThan(afterFirst.captured / 2);
+  });
+
+  it('builds transfer matrices that account for every unit of revenue', () => {
+    const network = new HuffNetwork(cells.slice(0, 15), [facility('store', 13.0), facility('rival', 13.05, 'competitor')]);
+    network.add(facility('a', 13.15));
+    network.add(facility('b', 13.17));
+
+    const { incumbents, added } = network.transfers();
+
+    for (const site of added) {
+      const fromIncumbents = site.fromIncumbents.reduce((sum, t) => sum + t.amount, 0);
+      expect(fromIncumbents + site.newDemand).toBeCloseTo(site.networkRevenue, 6);
+      expect(site.standaloneRevenue).toBeGreaterThan(site.networkRevenue);
+      expect(site.lostToAdded).toHaveLength(1);
+    }
+    for (const incumbent of incumbents) {
+      const lost = added.reduce(
+        (sum, site) => sum + (site.fromIncumbents.find((t) => t.facilityId === incumbent.facilityId)?.amount ?? 0),
+        0,
+      );
+      expect(incumbent.baselineRevenue - incumbent.projectedRevenue).toBeCloseTo(lost, 6);
+    }
+  });
+
+  it('treats cells nobody reached as new demand', () => {
+    const network = new HuffNetwork(cells, [facility('store', 13.0)], { beta: 2, maxDistanceKm: 3, minDistanceKm: 0.5 });
+    network.add(facility('far', 13.294));
+
+    const [site] = network.transfers().added;
+    expect(site.fromIncumbents).toEqual([]);
+    expect(site.newDemand).toBeCloseTo(site.networkRevenue, 6);
+  });
+});
+
+describe('PortfolioOptimizerService with the Huff model', () => {
+  const planned = [
+    { id: 'p1', name: 'Mitte', latitude: 52.52, longitude: 13.4, city: 'Berlin', country: 'Germany', cityPopulationBand: null },
+    { id: 'p2', name: 'Mitte Nord', latitude: 52.521, longitude: 13.401, city: 'Berlin', country: 'Germany', cityPopulationBand: null },
+    { id: 'p3', name: 'Spandau', latitude: 52.535, longitude: 13.2, city: 'Berlin', country: 'Germany', cityPopulationBand: null },
+  ];
+  const open = [
+    { id: 'o1', name: 'Neukölln', latitude: 52.48, longitude: 13.43, city: 'Berlin', annualTurnover: 800_000, cityPopulationBand: null },
+  ];
+  const competitors = [
+    { id: 'c1', brand: 'Burger King', name: 'Wedding', latitude: 52.55, longitude: 13.36 },
+    { id: 'c2', brand: "McDonald's", name: 'Friedrichshain', latitude: 52.51, longitude: 13.45 },
+    { id: 'c3', brand: 'KFC', name: 'Charlottenburg', latitude: 52.5, longitude: 13.3 },
+  ];
+
+  function mockPrisma() {
+    const grid: Array<{ lat: number; lng: number; population: number }> = [];
+    for (let i = 0; i < 10; i++) {
+      for (let j = 0; j < 16; j++) grid.push({ lat: 52.47 + i * 0.01, lng: 13.17 + j * 0.02, population: 5000 });
+    }
+    return {
+      store: {
+        findMany: jest.fn(({ where }: { where: { status?: string } }) => Promise.resolve(where.status === 'Open' ? open : planned)),
+      },
+      demographicCache: { findMany: jest.fn().mockResolvedValue(grid) },
+      competitorPlace: { findMany: jest.fn().mockResolvedValue(competitors) },
+    };
+  }
+
+  let prisma: ReturnType<typeof mockPrisma>;
+  let service: PortfolioOptimizerService;
+
+  beforeEach(() => {
+    prisma = mockPrisma();
+    const roi = {
+      calculateROI: jest.fn().mockResolvedValue({
+        expectedAnnualRevenue: 900_000,
+        estimatedCosts: { initial: 400_000, annual: 600_000 },
+        simpleROI: 75,
+        paybackPeriod: 1.3,
+        irr: 60,
+        npv: 800_000,
+        confidenceLevel: 80,
+        riskFactor: 0.1,
+        adjustedROI: 54,
+      }),
+    };
+    service = new PortfolioOptimizerService(
+      prisma as unknown as PrismaClient,
+      roi as unknown as ROICalculatorService,
+      new CannibalizationCalculatorService(prisma as unknown as PrismaClient),
+      new HuffMarketShareService(prisma as unknown as PrismaClient),
+      offlineLlm,
+    );
+  });
+
+  it('skips a candidate that mostly cannibalises one already selected', async () => {
+    const result = await service.optimizePortfolio({
+      budget: 5_000_000,
+      mode: 'balanced',
+      constraints: { minROI: 10, maxCannibalization: 35 },
+    });
+
+    expect(result.selectedStores.map((s) => s.candidateId)).toEqual(['p1', 'p3']);
+    expect(result.revenueTransfers).not.toBeNull();
+    expect(result.revenueTransfers!.calibrated).toBe(true);
+    expect(result.revenueTransfers!.existingStores[0].storeId).toBe('o1');
+    expect(result.revenueTransfers!.selectedStores[0].fromExistingStores[0].storeId).toBe('o1');
+  });
+
+  it('falls back to the distance heuristic without population data', async () => {
+    prisma.demographicCache.findMany.mockResolvedValue([]);
+
+    const result = await service.optimizePortfolio({
+      budget: 5_000_000,
+      mode: 'balanced',
+      constraints: { minROI: 10, maxCannibalization: 100 },
+    });
+
+    expect(result.revenueTransfers).toBeNull();
+    expect(result.selectedStores).toHaveLength(3);
+  });
+});
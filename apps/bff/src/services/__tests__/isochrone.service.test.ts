@@ -0,0 +1,111 @@
+import { NotFoundException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { EDGE_FLAGS, RoadGraphBundle, Router } from '@subway/routing';
+import { CannibalizationCalculatorService, Store } from '../portfolio/cannibalization-calculator.service';
+import { IsochroneService } from '../routing/isochrone.service';
+
+const WEST = 13.395;
+const EAST = 13.415;
+
+/** Two streets either side of a river, joined only by a bridge 6 km north */
+function riverTown(): RoadGraphBundle {
+  const nodes: number[] = [];
+  const edges: number[] = [];
+  const both = EDGE_FLAGS.DRIVE_FORWARD | EDGE_FLAGS.DRIVE_BACKWARD | EDGE_FLAGS.WALK;
+  for (let i = 0; i <= 12; i++) {
+    const lat = 52.5 + i * 0.005;
+    nodes.push(Math.round(lat * 1e6), Math.round(WEST * 1e6), Math.round(lat * 1e6), Math.round(EAST * 1e6));
+    if (i > 0) edges.push(2 * i - 2, 2 * i, 556, 0, both, 2 * i - 1, 2 * i + 1, 556, 0, both);
+  }
+  edges.push(24, 25, 1360, 0, both);
+  return { type: 'RoadGraph', version: 1, name: 'river-town', builtAt: '2026-01-01T00:00:00Z', roadClasses: ['residential'], nodes, edges };
+}
+
+describe('IsochroneService', () => {
+  let cache: Map<string, Record<string, unknown> & { expiresAt: Date }>;
+  let prisma: ReturnType<typeof mockPrisma>;
+  let service: IsochroneService;
+
+  const mockPrisma = () => ({
+    isochroneCache: {
+      findUnique: jest.fn(({ where }) => Promise.resolve(cache.get(where.cacheKey) ?? null)),
+      upsert: jest.fn(({ where, create }) => {
+        cache.set(where.cacheKey, create);
+        return Promise.resolve(create);
+      }),
+    },
+    tradeArea: {
+      findUnique: jest.fn(({ where }) =>
+        Promise.resolve(where.id === 'ta-1' ? { id: 'ta-1', centroidLat: 52.5, centroidLng: WEST } : null),
+      ),
+      update: jest.fn(({ where, data }) => Promise.resolve({ id: where.id, ...data })),
+    },
+  });
+
+  beforeEach(() => {
+    cache = new Map();
+    prisma = mockPrisma();
+    service = new IsochroneService(prisma as unknown as PrismaClient, new Router().addGraph(riverTown()));
+  });
+
+  it('computes isochrones once and serves repeats from the cache', async () => {
+    const first = await service.getIsochrone({ lat: 52.50001, lng: WEST }, 'drive', 5);
+    const second = await service.getIsochrone({ lat: 52.49999, lng: WEST }, 'drive', 5);
+
+    expect(first).toMatchObject({ method: 'network', graph: 'river-town@2026-01-01T00:00:00Z', cached: false });
+    expect(first.geometry.coordinates.length).toBeGreaterThan(0);
+    expect(second).toMatchObject({ method: 'network', cached: true, areaKm2: first.areaKm2 });
+    expect(prisma.isochroneCache.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('recomputes expired entries', async () => {
+    await service.getIsochrone({ lat: 52.5, lng: WEST }, 'drive', 5);
+    for (const entry of cache.values()) entry.expiresAt = new Date(Date.now() - 1000);
+
+    const again = await service.getIsochrone({ lat: 52.5, lng: WEST }, 'drive', 5);
+    expect(again.cached).toBe(false);
+  });
+
+  it('falls back to straight-line discs outside the graph', async () => {
+    const isochrone = await service.getIsochrone({ lat: 48.137, lng: 11.575 }, 'drive', 10);
+    expect(isochrone).toMatchObject({ method: 'straight_line', graph: null });
+    // 8.3 km radius at 50 km/h
+    expect(isochrone.areaKm2).toBeGreaterThan(200);
+  });
+
+  it('stores the isochrone on a trade area', async () => {
+    const tradeArea = await service.attachToTradeArea('ta-1', 'drive', 5);
+
+    expect(tradeArea).toMatchObject({ isochroneMinutes: 5, travelMode: 'drive', isochroneMethod: 'network' });
+    expect(JSON.parse(tradeArea.isochronePolygon!).type).toBe('MultiPolygon');
+  });
+
+  it('rejects unknown trade areas', async () => {
+    await expect(service.attachToTradeArea('missing', 'drive', 5)).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
+
+describe('CannibalizationCalculatorService with road graphs', () => {
+  const existing: Store = {
+    id: 'store-1',
+    name: 'East Bank',
+    latitude: 52.5,
+    longitude: EAST,
+    city: 'Berlin',
+    annualTurnover: 1_000_000,
+    cityPopulationBand: 'major',
+  };
+  const newStore = { latitude: 52.5, longitude: WEST, city: 'Berlin' };
+
+  it('charges little cannibalization across a river with a distant bridge', async () => {
+    const withGraph = new CannibalizationCalculatorService({} as PrismaClient, new Router().addGraph(riverTown()));
+    const withoutGraph = new CannibalizationCalculatorService({} as PrismaClient);
+
+    const network = await withGraph.calculateImpact(newStore, [existing], 500_000);
+    const heuristic = await withoutGraph.calculateImpact(newStore, [existing], 500_000);
+
+    expect(heuristic.affectedStores[0].overlapMethod).toBe('heuristic');
+    expect(network.affectedStores.every((store) => store.overlapMethod === 'network')).toBe(true);
+    expect(network.totalNetworkLoss).toBeLessThan(heuristic.totalNetworkLoss / 2);
+  });
+});
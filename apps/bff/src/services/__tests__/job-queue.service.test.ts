@@ -0,0 +1,211 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { LlmClient } from '@subway/shared-ai';
+import { JobCancelledError, PermanentJobError } from '../../errors/job.error';
+import { ClaimedJob, JobHandler, JobQueueService } from '../jobs/job-queue.service';
+
+describe('JobQueueService', () => {
+  let prisma: {
+    $executeRaw: jest.Mock;
+    $queryRaw: jest.Mock;
+    $transaction: jest.Mock;
+    jobEvent: { create: jest.Mock; findMany: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let queue: JobQueueService;
+
+  const handler = (handle: JobHandler['handle'] = async () => undefined, concurrency = 2): JobHandler => ({
+    type: 'forecast',
+    table: 'ForecastJob',
+    concurrency,
+    handle: jest.fn(handle),
+  });
+  const job = (attempts = 1, maxAttempts = 3): ClaimedJob => ({ id: 'job-1', attempts, maxAttempts });
+
+  const executedSql = () => prisma.$executeRaw.mock.calls.map(([query]) => query as Prisma.Sql);
+  const events = () => prisma.jobEvent.create.mock.calls.map(([args]) => args.data.event);
+
+  beforeEach(() => {
+    prisma = {
+      $executeRaw: jest.fn().mockResolvedValue(1),
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      $transaction: jest.fn(),
+      jobEvent: { create: jest.fn().mockResolvedValue({}), findMany: jest.fn().mockResolvedValue([]) },
+      auditLog: { create: jest.fn().mockResolvedValue({}) },
+    };
+    queue = new JobQueueService(prisma as unknown as PrismaClient);
+  });
+
+  describe('retryDelayMs', () => {
+    it('backs off exponentially and caps at 15 minutes', () => {
+      expect(queue.retryDelayMs(1)).toBe(30_000);
+      expect(queue.retryDelayMs(2)).toBe(60_000);
+      expect(queue.retryDelayMs(3)).toBe(120_000);
+      expect(queue.retryDelayMs(10)).toBe(15 * 60_000);
+    });
+  });
+
+  describe('execute', () => {
+    it('marks a successful job completed, fenced on the lease', async () => {
+      const forecast = handler();
+      await queue.execute(forecast, job());
+
+      expect(forecast.handle).toHaveBeenCalledWith(job(), expect.objectContaining({ workerId: queue.workerId }));
+      const [finish] = executedSql();
+      expect(finish.sql).toContain('AND "lockedBy" = ?');
+      expect(finish.values).toEqual(expect.arrayContaining(['completed', 'job-1', queue.workerId]));
+      expect(events()).toEqual(['started', 'completed']);
+    });
+
+    it('adds the tokens of LLM calls made during the job to tokensUsed', async () => {
+      const llm = new LlmClient({
+        name: 'fake',
+        defaultModel: 'fake',
+        isConfigured: () => true,
+        complete: async () => ({
+          text: 'ok',
+          model: 'fake',
+          provider: 'fake',
+          usage: { inputTokens: 80, outputTokens: 40, totalTokens: 120 },
+          replayed: false,
+        }),
+      });
+      const explain = () => llm.complete({ purpose: 'test', messages: [{ role: 'user', content: 'explain' }] });
+      await queue.execute(handler(async () => { await explain(); await explain(); }), job());
+
+      const [tokens] = executedSql();
+      expect(tokens.sql).toContain('"tokensUsed" = COALESCE("tokensUsed", 0) + ?');
+      expect(tokens.values).toEqual([240, 'job-1', queue.workerId]);
+    });
+
+    it('schedules a retry while attempts remain', async () => {
+      await queue.execute(handler(async () => { throw new Error('OpenAI timeout'); }), job(1, 3));
+
+      const [retry] = executedSql();
+      expect(retry.sql).toContain("status = 'queued'");
+      expect(retry.sql).toContain('"runAfter" = now() + make_interval');
+      expect(retry.values).toEqual(expect.arrayContaining(['OpenAI timeout', 30]));
+      expect(events()).toEqual(['started', 'retrying']);
+    });
+
+    it('fails the job once attempts are used up', async () => {
+      await queue.execute(handler(async () => { throw new Error('OpenAI timeout'); }), job(3, 3));
+
+      expect(executedSql()[0].values).toEqual(expect.arrayContaining(['failed', 'OpenAI timeout']));
+      expect(events()).toEqual(['started', 'failed']);
+    });
+
+    it('does not retry permanent errors', async () => {
+      await queue.execute(handler(async () => { throw new PermanentJobError('Bad params'); }), job(1, 3));
+
+      expect(executedSql()[0].values).toEqual(expect.arrayContaining(['failed', 'Bad params']));
+    });
+
+    it('marks the job cancelled when aborted for cancellation', async () => {
+      const controller = new AbortController();
+      await queue.execute(
+        handler(async (_job, context) => {
+          controller.abort('cancelled');
+          context.throwIfCancelled();
+        }),
+        job(),
+        controller,
+      );
+
+      expect(executedSql()[0].values).toEqual(expect.arrayContaining(['cancelled']));
+      expect(events()).toEqual(['started', 'cancelled']);
+    });
+
+    it('leaves the row alone when the lease was lost', async () => {
+      const controller = new AbortController();
+      await queue.execute(
+        handler(async () => {
+          controller.abort('lease-lost');
+          throw new JobCancelledError();
+        }),
+        job(),
+        controller,
+      );
+
+      expect(prisma.$executeRaw).not.toHaveBeenCalled();
+      expect(events()).toEqual(['started']);
+    });
+  });
+
+  describe('tick', () => {
+    const transactionWith = (running: number) => {
+      const tx = {
+        $executeRaw: jest.fn().mockResolvedValue(0),
+        $queryRaw: jest.fn().mockResolvedValueOnce([{ running }]).mockResolvedValue([]),
+      };
+      prisma.$transaction.mockImplementation(async (fn: (client: typeof tx) => unknown) => fn(tx));
+      return tx;
+    };
+
+    it('does not claim beyond the per-type concurrency limit', async () => {
+      queue.register(handler(undefined, 2));
+      const tx = transactionWith(2);
+
+      await queue.tick();
+
+      expect(tx.$executeRaw.mock.calls[0][0].sql).toContain('pg_advisory_xact_lock');
+      expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('claims with SKIP LOCKED when under the limit', async () => {
+      queue.register(handler(undefined, 2));
+      const tx = transactionWith(1);
+
+      await queue.tick();
+
+      const claim = tx.$queryRaw.mock.calls[1][0] as Prisma.Sql;
+      expect(claim.sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(claim.sql).toContain('"ForecastJob"');
+    });
+
+    it('recovers expired leases before claiming', async () => {
+      queue.register(handler());
+      transactionWith(2);
+      prisma.$queryRaw.mockResolvedValueOnce([{ id: 'stuck', status: 'queued', lockedBy: 'dead-worker' }]);
+
+      await queue.tick();
+
+      expect((prisma.$queryRaw.mock.calls[0][0] as Prisma.Sql).sql).toContain('"leaseExpiresAt" < now()');
+      expect(prisma.jobEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ jobId: 'stuck', event: 'recovered' }),
+      });
+    });
+  });
+
+  describe('cancel', () => {
+    beforeEach(() => {
+      queue.register(handler());
+    });
+
+    it('cancels a queued job immediately', async () => {
+      prisma.$queryRaw.mockResolvedValue([{ id: 'job-1', status: 'cancelled' }]);
+
+      const result = await queue.cancel('forecast', 'job-1', 'ops@example.com');
+
+      expect(result.status).toBe('cancelled');
+      expect(events()).toEqual(['cancelled']);
+    });
+
+    it('flags a running job for its worker to abort', async () => {
+      prisma.$executeRaw.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+      prisma.$queryRaw.mockResolvedValue([{ id: 'job-1', status: 'running' }]);
+
+      await queue.cancel('forecast', 'job-1', 'ops@example.com');
+
+      expect(executedSql()[1].sql).toContain('"cancelRequestedAt" = now()');
+      expect(events()).toEqual(['cancel_requested']);
+    });
+
+    it('rejects cancelling a finished job', async () => {
+      prisma.$executeRaw.mockResolvedValue(0);
+      prisma.$queryRaw.mockResolvedValue([{ id: 'job-1', status: 'completed' }]);
+
+      await expect(queue.cancel('forecast', 'job-1', 'ops@example.com')).rejects.toThrow(BadRequestException);
+    });
+  });
+});
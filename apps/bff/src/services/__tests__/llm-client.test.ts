@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createLlmProvider,
+  LlmClient,
+  LlmFixtureMissingError,
+  LlmProvider,
+  LlmRequest,
+  OpenAIProvider,
+  RecordingProvider,
+  ReplayProvider,
+  trackTokens,
+} from '@subway/shared-ai';
+
+const request: LlmRequest = {
+  purpose: 'test.summary',
+  messages: [
+    { role: 'system', content: 'You summarise.' },
+    { role: 'user', content: 'Summarise the week.' },
+  ],
+};
+
+function fakeProvider(text = 'live answer', totalTokens = 30): LlmProvider & { complete: jest.Mock } {
+  return {
+    name: 'fake',
+    defaultModel: 'fake-model',
+    isConfigured: () => true,
+    complete: jest.fn(async () => ({
+      text,
+      model: 'fake-model',
+      provider: 'fake',
+      usage: { inputTokens: 10, outputTokens: totalTokens - 10, totalTokens },
+      replayed: false,
+    })),
+  };
+}
+
+describe('LLM providers', () => {
+  let fixturesDir: string;
+
+  beforeEach(() => {
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded response without calling the live provider', async () => {
+    const live = fakeProvider();
+    await new RecordingProvider(live, fixturesDir).complete(request);
+
+    const replayed = await new ReplayProvider({ fixturesDir, onMissing: 'error' }).complete({ ...request, model: 'other' });
+
+    expect(live.complete).toHaveBeenCalledTimes(1);
+    expect(replayed).toMatchObject({ text: 'live answer', model: 'fake-model', replayed: true });
+    expect(replayed.usage.totalTokens).toBe(30);
+  });
+
+  it('fails on a missing fixture in replay mode', async () => {
+    const replay = new ReplayProvider({ fixturesDir, onMissing: 'error' });
+
+    await expect(replay.complete(request)).rejects.toBeInstanceOf(LlmFixtureMissingError);
+  });
+
+  it('answers a missing fixture with a placeholder in stub mode', async () => {
+    const stub = new ReplayProvider({ fixturesDir, onMissing: 'stub' });
+
+    expect((await stub.complete({ ...request, json: true })).text).toBe('{}');
+    expect((await stub.complete(request)).text).toContain('test.summary');
+    expect((await stub.complete(request)).usage.totalTokens).toBe(0);
+  });
+
+  it('selects the backend from the environment', () => {
+    expect(createLlmProvider({ LLM_PROVIDER: 'stub' }).name).toBe('stub');
+    expect(createLlmProvider({ LLM_PROVIDER: 'replay' }).name).toBe('replay');
+    expect(createLlmProvider({ LLM_PROVIDER: 'local', LLM_MODEL: 'qwen2.5' }).defaultModel).toBe('qwen2.5');
+    expect(createLlmProvider({ OPENAI_API_KEY: 'sk-test', LLM_RECORD: 'true' }).name).toBe('openai+record');
+    expect(createLlmProvider({}).isConfigured()).toBe(false);
+    expect(() => createLlmProvider({ LLM_PROVIDER: 'bogus' })).toThrow('Unknown LLM_PROVIDER');
+  });
+
+  it('sends reasoning controls to the Responses API for gpt-5 models', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          model: 'gpt-5-mini',
+          output: [{ type: 'message', content: [{ type: 'output_text', text: '{"ok":true}' }] }],
+          usage: { input_tokens: 12, output_tokens: 8, total_tokens: 20 },
+        }),
+      ),
+    );
+
+    try {
+      const provider = new OpenAIProvider({ apiKey: 'sk-test', defaultModel: 'gpt-5-mini' });
+      const response = await provider.complete({ ...request, json: true, reasoningEffort: 'low', temperature: 0.2 });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      expect(body.reasoning).toEqual({ effort: 'low' });
+      expect(body.temperature).toBeUndefined();
+      expect(body.text).toEqual({ format: { type: 'json_object' } });
+      expect(response.text).toBe('{"ok":true}');
+      expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 8, totalTokens: 20 });
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('sends tools and tool results to the Responses API and reads back function calls', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          model: 'gpt-5-mini',
+          output: [{ type: 'function_call', call_id: 'call-2', name: 'get_kpis', arguments: '{"region":"EMEA"}' }],
+          usage: { input_tokens: 30, output_tokens: 5, total_tokens: 35 },
+        }),
+      ),
+    );
+
+    try {
+      const provider = new OpenAIProvider({ apiKey: 'sk-test', defaultModel: 'gpt-5-mini' });
+      const response = await provider.complete({
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'lookup_stores', arguments: {} }] },
+          { role: 'tool', toolCallId: 'call-1', content: '{"total":3}' },
+        ],
+        tools: [{ name: 'get_kpis', description: 'KPIs', parameters: { type: 'object' } }],
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      expect(body.tools).toEqual([{ type: 'function', name: 'get_kpis', description: 'KPIs', parameters: { type: 'object' } }]);
+      expect(body.input.slice(-2)).toEqual([
+        { type: 'function_call', call_id: 'call-1', name: 'lookup_stores', arguments: '{}' },
+        { type: 'function_call_output', call_id: 'call-1', output: '{"total":3}' },
+      ]);
+      expect(response.toolCalls).toEqual([{ id: 'call-2', name: 'get_kpis', arguments: { region: 'EMEA' } }]);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('records and replays tool calls', async () => {
+    const live = fakeProvider('');
+    live.complete.mockResolvedValueOnce({
+      text: '',
+      model: 'fake-model',
+      provider: 'fake',
+      usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+      toolCalls: [{ id: 'call-1', name: 'get_kpis', arguments: {} }],
+      replayed: false,
+    });
+    const withTools = { ...request, tools: [{ name: 'get_kpis', description: 'KPIs', parameters: {} }] };
+    await new RecordingProvider(live, fixturesDir).complete(withTools);
+
+    const replay = new ReplayProvider({ fixturesDir, onMissing: 'error' });
+
+    expect((await replay.complete(withTools)).toolCalls).toEqual([{ id: 'call-1', name: 'get_kpis', arguments: {} }]);
+    await expect(replay.complete(request)).rejects.toBeInstanceOf(LlmFixtureMissingError);
+  });
+});
+
+describe('LlmClient', () => {
+  it('counts tokens per purpose', async () => {
+    const client = new LlmClient(fakeProvider());
+
+    await client.complete(request);
+    await client.complete(request);
+
+    expect(client.usageByPurpose()['test.summary']).toEqual({ calls: 2, inputTokens: 20, outputTokens: 40, totalTokens: 60 });
+  });
+
+  it('counts tokens into every enclosing trackTokens scope', async () => {
+    const client = new LlmClient(fakeProvider());
+
+    const outer = await trackTokens(async () => {
+      await client.complete(request);
+      const inner = await trackTokens(() => client.complete(request));
+      return inner.tokensUsed;
+    });
+
+    expect(outer.result).toBe(30);
+    expect(outer.tokensUsed).toBe(60);
+  });
+
+  it('parses JSON responses wrapped in code fences', async () => {
+    const client = new LlmClient(fakeProvider('```json\n{"score": 7}\n```'));
+
+    const { data } = await client.completeJson<{ score: number }>(request);
+
+    expect(data.score).toBe(7);
+  });
+});
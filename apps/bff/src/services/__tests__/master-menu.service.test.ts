@@ -0,0 +1,186 @@
+import { PrismaClient } from '@prisma/client';
+import { BadRequestException } from '@nestjs/common';
+import { MasterMenuService } from '../menu/master-menu.service';
+import { OverrideDefinition, resolveItem } from '../menu/menu-resolver';
+
+describe('resolveItem', () => {
+  const master = { id: 'm1', name: 'Italian BMT', price: 6.5, active: true, categoryIds: ['c1'], modifierGroupIds: ['g1'] };
+  const override = (fields: Partial<OverrideDefinition>): OverrideDefinition => ({
+    level: 'COUNTRY',
+    scope: 'UK',
+    available: null,
+    price: null,
+    categoryIds: null,
+    modifierGroupIds: null,
+    ...fields,
+  });
+  const store = { id: 's1', country: 'uk', region: 'London' };
+
+  it('lays country, region and store overrides over the master, most specific winning', () => {
+    const resolved = resolveItem(master, [
+      override({ level: 'STORE', scope: 's1', price: 7.25 }),
+      override({ level: 'COUNTRY', scope: 'UK', price: 6.95, modifierGroupIds: ['g2'] }),
+      override({ level: 'REGION', scope: 'london', price: 7.1 }),
+      override({ level: 'REGION', scope: 'Scotland', available: false }),
+    ], store);
+
+    expect(resolved).toMatchObject({
+      price: 7.25,
+      available: true,
+      categoryIds: ['c1'],
+      modifierGroupIds: ['g2'],
+      sources: { price: 'STORE', available: 'MASTER', categoryIds: 'MASTER', modifierGroupIds: 'COUNTRY' },
+    });
+  });
+
+  it('keeps an inactive master item unavailable whatever the overrides say', () => {
+    const resolved = resolveItem({ ...master, active: false }, [override({ available: true })], store);
+    expect(resolved.available).toBe(false);
+  });
+});
+
+describe('MasterMenuService', () => {
+  let prisma: {
+    store: { findMany: jest.Mock; findUnique: jest.Mock };
+    masterMenuItem: { findMany: jest.Mock; findUnique: jest.Mock; create: jest.Mock };
+    menuItem: { findMany: jest.Mock; create: jest.Mock; update: jest.Mock };
+    category: { findMany: jest.Mock };
+    modifierGroup: { findMany: jest.Mock };
+    $transaction: jest.Mock;
+    auditEntry: { create: jest.Mock };
+    telemetryEvent: { create: jest.Mock };
+  };
+  let service: MasterMenuService;
+
+  const masterRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'm1',
+    name: 'Italian BMT',
+    description: null,
+    price: 6.5,
+    active: true,
+    categoryIds: '["c1"]',
+    modifierGroupIds: '[]',
+    createdBy: 'admin',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    overrides: [],
+    ...overrides,
+  });
+  const storeRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'mi1',
+    storeId: 's1',
+    masterItemId: 'm1',
+    name: 'Italian BMT',
+    price: 6.5,
+    basePrice: 6.5,
+    active: true,
+    modifiers: [],
+    categories: [{ categoryId: 'c1' }],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    prisma = {
+      store: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 's1', name: 'Soho', country: 'UK', region: 'London' },
+          { id: 's2', name: 'Leeds', country: 'UK', region: 'North' },
+          { id: 's3', name: 'Paris', country: 'France', region: 'Ile-de-France' },
+        ]),
+        findUnique: jest.fn(),
+      },
+      masterMenuItem: { findMany: jest.fn(), findUnique: jest.fn(), create: jest.fn() },
+      menuItem: {
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn().mockImplementation((args) => ({ op: 'create', args })),
+        update: jest.fn().mockImplementation((args) => ({ op: 'update', args })),
+      },
+      category: { findMany: jest.fn().mockResolvedValue([]) },
+      modifierGroup: { findMany: jest.fn().mockResolvedValue([]) },
+      $transaction: jest.fn().mockResolvedValue([]),
+      auditEntry: { create: jest.fn() },
+      telemetryEvent: { create: jest.fn() },
+    };
+    service = new MasterMenuService(prisma as unknown as PrismaClient);
+  });
+
+  it('previews which stores change and how', async () => {
+    prisma.masterMenuItem.findMany.mockResolvedValue([
+      masterRow({
+        overrides: [
+          { id: 'o1', masterItemId: 'm1', level: 'COUNTRY', scope: 'UK', available: null, price: 6.95, categoryIds: null, modifierGroupIds: null },
+          { id: 'o2', masterItemId: 'm1', level: 'STORE', scope: 's3', available: false, price: null, categoryIds: null, modifierGroupIds: null },
+        ],
+      }),
+    ]);
+    prisma.menuItem.findMany.mockResolvedValue([
+      storeRow({ price: 6.95 }),
+      // A local copy in Leeds that the publish adopts
+      storeRow({ id: 'mi2', storeId: 's2', masterItemId: null, price: 6.5, categories: [] }),
+    ]);
+
+    const preview = await service.previewPublish({});
+
+    expect(preview).toMatchObject({ storesInScope: 3, storesChanged: 1, totals: { create: 0, link: 1, update: 0, deactivate: 0 } });
+    expect(preview.stores).toEqual([{
+      storeId: 's2',
+      storeName: 'Leeds',
+      changes: [{
+        masterItemId: 'm1',
+        name: 'Italian BMT',
+        action: 'link',
+        menuItemId: 'mi2',
+        fields: { price: { from: 6.5, to: 6.95 }, categoryIds: { from: [], to: ['c1'] } },
+      }],
+    }]);
+    // Paris has no copy and the item is off there, so nothing is created
+    expect(prisma.menuItem.create).not.toHaveBeenCalled();
+  });
+
+  it('limits the stores to those the caller can access', async () => {
+    prisma.masterMenuItem.findMany.mockResolvedValue([masterRow()]);
+
+    await service.previewPublish({ storeIds: ['s1', 's9'] }, ['s1', 's2']);
+
+    expect(prisma.store.findMany.mock.calls[0][0].where).toEqual({ id: { in: ['s1'] } });
+  });
+
+  it('publishes creates and updates per store and audits the run', async () => {
+    prisma.masterMenuItem.findMany.mockResolvedValue([masterRow({ price: 7, modifierGroupIds: '["g1"]' })]);
+    prisma.menuItem.findMany.mockResolvedValue([storeRow()]);
+    prisma.store.findMany.mockResolvedValue([
+      { id: 's1', name: 'Soho', country: 'UK', region: 'London' },
+      { id: 's2', name: 'Leeds', country: 'UK', region: 'North' },
+    ]);
+
+    const result = await service.publish({ country: 'UK' }, 'ops@example.com');
+
+    expect(prisma.store.findMany.mock.calls[0][0].where).toEqual({ country: { equals: 'UK', mode: 'insensitive' } });
+    expect(result.totals).toEqual({ create: 1, link: 0, update: 1, deactivate: 0 });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+    expect(prisma.menuItem.update).toHaveBeenCalledWith({
+      where: { id: 'mi1' },
+      data: expect.objectContaining({
+        masterItemId: 'm1',
+        price: 7,
+        basePrice: 7,
+        modifiers: { deleteMany: {}, create: [{ modifierGroupId: 'g1' }] },
+      }),
+    });
+    // Categories did not change, so their links are left alone
+    expect(prisma.menuItem.update.mock.calls[0][0].data.categories).toBeUndefined();
+    expect(prisma.menuItem.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ storeId: 's2', masterItemId: 'm1', price: 7, categories: { create: [{ categoryId: 'c1' }] } }),
+    });
+    expect(prisma.auditEntry.create.mock.calls[0][0].data).toMatchObject({ entity: 'MasterMenu', action: 'PUBLISH' });
+  });
+
+  it('rejects master items that reference unknown categories', async () => {
+    prisma.masterMenuItem.findUnique.mockResolvedValue(null);
+    prisma.category.findMany.mockResolvedValue([{ id: 'c1' }]);
+
+    await expect(service.createItem({ name: 'Veggie Delite', price: 5, categoryIds: ['c1', 'c9'] }, 'admin'))
+      .rejects.toThrow(BadRequestException);
+    expect(prisma.masterMenuItem.create).not.toHaveBeenCalled();
+  });
+});
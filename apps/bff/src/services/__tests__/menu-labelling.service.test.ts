@@ -0,0 +1,176 @@
+import { PrismaClient } from '@prisma/client';
+import { BadRequestException } from '@nestjs/common';
+import { MenuLabellingService } from '../menu/menu-labelling.service';
+import { ItemLabelling, ModifierLabelling, configuredProfile, ruleSetFor, validateLabelling } from '../menu/labelling';
+
+const noChange: ModifierLabelling = { allergensAdded: [], allergensRemoved: [], nutritionDelta: null };
+
+describe('configuredProfile', () => {
+  const sandwich: ItemLabelling = {
+    allergens: ['GLUTEN', 'MILK', 'MUSTARD'],
+    mayContain: ['SESAME', 'MILK'],
+    nutrition: { energyKcal: 410, fat: 12.4, salt: 1.9 },
+  };
+
+  it('adds and removes modifier allergens and sums the nutrition deltas', () => {
+    const profile = configuredProfile(sandwich, [
+      { id: 'no-cheese', name: 'No cheese', labelling: { ...noChange, allergensRemoved: ['MILK'], nutritionDelta: { energyKcal: -60, fat: -4.9 } } },
+      { id: 'mayo', name: 'Mayo', labelling: { ...noChange, allergensAdded: ['EGGS'], nutritionDelta: { energyKcal: 110, fat: 12, salt: 0.2 } } },
+    ]);
+
+    expect(profile.allergens).toEqual(['GLUTEN', 'EGGS', 'MUSTARD']);
+    // Taking the cheese out does not remove cross-contact
+    expect(profile.mayContain).toEqual(['MILK', 'SESAME']);
+    expect(profile.nutrition).toEqual({ energyKcal: 460, fat: 19.5, salt: 2.1 });
+    expect(profile.modifiersWithoutNutrition).toEqual([]);
+  });
+
+  it('keeps an allergen another selected modifier adds back', () => {
+    const profile = configuredProfile(sandwich, [
+      { id: 'no-cheese', name: 'No cheese', labelling: { ...noChange, allergensRemoved: ['MILK'] } },
+      { id: 'ranch', name: 'Ranch', labelling: { ...noChange, allergensAdded: ['MILK'] } },
+    ]);
+
+    expect(profile.allergens).toContain('MILK');
+    expect(profile.modifiersWithoutNutrition).toEqual(['no-cheese', 'ranch']);
+  });
+
+  it('leaves the allergens undeclared when the item has none on file', () => {
+    expect(configuredProfile({ ...sandwich, allergens: null }, []).allergens).toBeNull();
+  });
+});
+
+describe('validateLabelling', () => {
+  it('picks the rule set from the store country', () => {
+    expect(ruleSetFor('UK').code).toBe('UK');
+    expect(ruleSetFor('United Kingdom').code).toBe('UK');
+    expect(ruleSetFor('Germany').code).toBe('EU');
+    expect(ruleSetFor('US').code).toBe('US');
+    expect(ruleSetFor('AE').code).toBe('NONE');
+  });
+
+  it('requires allergens and calories, including modifier calories, in the UK', () => {
+    const issues = validateLabelling(
+      ruleSetFor('GB'),
+      [{ id: 'i1', name: 'Veggie Delite', labelling: { allergens: null, mayContain: [], nutrition: null } }],
+      [{ id: 'x1', name: 'Extra cheese', labelling: { ...noChange, allergensAdded: ['MILK'] } }],
+    );
+
+    expect(issues.map(issue => [issue.id, issue.code])).toEqual([
+      ['i1', 'ALLERGENS_UNDECLARED'],
+      ['i1', 'NUTRIENT_MISSING'],
+      ['x1', 'NUTRIENT_MISSING'],
+    ]);
+  });
+
+  it('flags inconsistent nutrition and allergen conflicts whatever the rules', () => {
+    const issues = validateLabelling(
+      ruleSetFor('AE'),
+      [{
+        id: 'i1',
+        name: 'Cookie',
+        labelling: { allergens: ['GLUTEN'], mayContain: ['GLUTEN'], nutrition: { fat: 5, saturates: 7, energyKcal: 200, energyKj: 500 } },
+      }],
+      [],
+    );
+
+    expect(issues.map(issue => issue.code)).toEqual(['NUTRITION_INCONSISTENT', 'NUTRITION_INCONSISTENT', 'ALLERGEN_CONFLICT']);
+  });
+});
+
+describe('MenuLabellingService', () => {
+  let prisma: {
+    menuItem: { findUnique: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+    modifier: { findFirst: jest.Mock; update: jest.Mock };
+    store: { findUnique: jest.Mock };
+    auditEntry: { create: jest.Mock };
+    telemetryEvent: { create: jest.Mock };
+  };
+  let service: MenuLabellingService;
+
+  const modifier = (id: string, name: string, fields: Record<string, unknown> = {}) => ({
+    id,
+    name,
+    priceAdjustment: 0.5,
+    active: true,
+    allergensAdded: '[]',
+    allergensRemoved: '[]',
+    nutritionDelta: null,
+    ...fields,
+  });
+
+  const itemRow = {
+    id: 'i1',
+    name: 'Italian BMT',
+    storeId: 's1',
+    active: true,
+    allergens: '["GLUTEN","MUSTARD"]',
+    mayContain: '[]',
+    nutrition: '{"energyKcal":400}',
+    modifiers: [{
+      modifierGroup: {
+        id: 'g1',
+        name: 'Cheese',
+        active: true,
+        maxSelection: 1,
+        modifiers: [
+          modifier('cheddar', 'Cheddar', { allergensAdded: '["MILK"]', nutritionDelta: '{"energyKcal":60}' }),
+          modifier('swiss', 'Swiss', { allergensAdded: '["MILK"]', nutritionDelta: '{"energyKcal":50}' }),
+        ],
+      },
+    }],
+  };
+
+  beforeEach(() => {
+    prisma = {
+      menuItem: { findUnique: jest.fn().mockResolvedValue(itemRow), findMany: jest.fn(), update: jest.fn() },
+      modifier: { findFirst: jest.fn(), update: jest.fn() },
+      store: { findUnique: jest.fn().mockResolvedValue({ id: 's1', name: 'Leeds Briggate', country: 'UK' }) },
+      auditEntry: { create: jest.fn() },
+      telemetryEvent: { create: jest.fn() },
+    };
+    service = new MenuLabellingService(prisma as unknown as PrismaClient);
+  });
+
+  it('profiles an item with its chosen modifiers under the store country rules', async () => {
+    const profile = await service.profile('i1', ['cheddar']);
+
+    expect(profile).toMatchObject({
+      allergens: ['GLUTEN', 'MILK', 'MUSTARD'],
+      nutrition: { energyKcal: 460 },
+      rules: { code: 'UK' },
+      issues: [],
+    });
+  });
+
+  it('rejects modifiers the item does not offer or too many from one group', async () => {
+    await expect(service.profile('i1', ['bacon'])).rejects.toThrow(BadRequestException);
+    await expect(service.profile('i1', ['cheddar', 'swiss'])).rejects.toThrow('at most 1');
+  });
+
+  it('stores allergens in regulation order and audits the change', async () => {
+    await service.updateItem('i1', { allergens: ['MUSTARD', 'GLUTEN', 'MUSTARD'] }, 'ops@subway.test');
+
+    expect(prisma.menuItem.update).toHaveBeenCalledWith({
+      where: { id: 'i1' },
+      data: { allergens: '["GLUTEN","MUSTARD"]', mayContain: undefined, nutrition: undefined },
+    });
+    expect(prisma.auditEntry.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ entity: 'MenuItem', action: 'UPDATE_LABELLING' }),
+    }));
+  });
+
+  it('exports the store matrix as CSV with one row per item and offered modifier', async () => {
+    prisma.menuItem.findMany.mockResolvedValue([itemRow, { ...itemRow, id: 'i2', name: 'Cookie', allergens: null, nutrition: null, modifiers: [] }]);
+
+    const file = await service.matrixCsv('s1', new Date('2025-12-25T10:00:00Z'));
+    const lines = file.body.toString('utf8').trim().split('\n');
+
+    expect(file.filename).toBe('allergen-matrix-leeds-briggate-2025-12-25.csv');
+    expect(lines).toHaveLength(5);
+    expect(lines[0]).toContain('Sulphur dioxide and sulphites');
+    expect(lines[1]).toBe('Italian BMT,,,Y,,,,,,,Y,,,,,,400');
+    expect(lines[2]).toBe('Cookie,,?,?,?,?,?,?,?,?,?,?,?,?,?,?,');
+    expect(lines[3]).toBe('Cheddar,Cheese,,,,,,,Y,,,,,,,,60');
+  });
+});
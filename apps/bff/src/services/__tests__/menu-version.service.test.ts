@@ -0,0 +1,274 @@
+import { MenuRollout, MenuVersion, PrismaClient } from '@prisma/client';
+import { BadRequestException } from '@nestjs/common';
+import { MenuVersionService } from '../menu/menu-version.service';
+import { MasterMenuService } from '../menu/master-menu.service';
+import { MenuContent, diffContent } from '../menu/menu-diff';
+
+const content = (overrides: Partial<MenuContent> = {}): MenuContent => ({
+  items: [{
+    id: 'm1',
+    name: 'Italian BMT',
+    description: null,
+    price: 6.5,
+    active: true,
+    categoryIds: ['c1'],
+    modifierGroupIds: ['g1'],
+    overrides: [],
+  }],
+  categories: [{ id: 'c1', name: 'Subs', description: null, sortOrder: 0, active: true }],
+  modifierGroups: [{
+    id: 'g1',
+    name: 'Bread',
+    description: null,
+    minSelection: 1,
+    maxSelection: 1,
+    required: true,
+    active: true,
+    modifiers: [{ id: 'mod1', name: 'Italian Herbs', priceAdjustment: 0, active: true }],
+  }],
+  ...overrides,
+});
+
+describe('diffContent', () => {
+  it('lists added, removed and changed entries with the fields that changed', () => {
+    const before = content();
+    const after = content({
+      items: [
+        {
+          ...before.items[0],
+          price: 6.95,
+          overrides: [{ level: 'COUNTRY', scope: 'France', available: false, price: null, categoryIds: null, modifierGroupIds: null }],
+        },
+        { ...before.items[0], id: 'm2', name: 'Veggie Delite', overrides: [] },
+      ],
+      categories: [],
+    });
+    after.modifierGroups[0].modifiers[0].priceAdjustment = 0.5;
+
+    const diff = diffContent(before, after);
+
+    expect(diff.unchanged).toBe(false);
+    expect(diff.items).toEqual([
+      {
+        id: 'm1',
+        name: 'Italian BMT',
+        change: 'changed',
+        fields: {
+          price: { from: 6.5, to: 6.95 },
+          'override COUNTRY France': { from: null, to: { available: false, price: null, categoryIds: null, modifierGroupIds: null } },
+        },
+      },
+      { id: 'm2', name: 'Veggie Delite', change: 'added', fields: {} },
+    ]);
+    expect(diff.categories).toEqual([{ id: 'c1', name: 'Subs', change: 'removed', fields: {} }]);
+    expect(diff.modifierGroups[0].fields).toEqual({
+      'modifier mod1': {
+        from: { name: 'Italian Herbs', priceAdjustment: 0, active: true },
+        to: { name: 'Italian Herbs', priceAdjustment: 0.5, active: true },
+      },
+    });
+    expect(diffContent(before, content()).unchanged).toBe(true);
+  });
+});
+
+describe('MenuVersionService', () => {
+  const now = new Date('2025-06-01T06:00:00Z');
+
+  let prisma: {
+    menuVersion: { findUnique: jest.Mock; findUniqueOrThrow: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+    menuRollout: { findMany: jest.Mock; findFirst: jest.Mock; findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+    masterMenuItem: { findMany: jest.Mock };
+    category: { findMany: jest.Mock; createMany: jest.Mock; upsert: jest.Mock };
+    modifierGroup: { findMany: jest.Mock; createMany: jest.Mock; upsert: jest.Mock };
+    modifier: { createMany: jest.Mock; upsert: jest.Mock };
+    $transaction: jest.Mock;
+    auditEntry: { create: jest.Mock };
+    telemetryEvent: { create: jest.Mock };
+  };
+  let masterMenu: { publishCatalogue: jest.Mock; previewCatalogue: jest.Mock; loadCatalogue: jest.Mock };
+  let service: MenuVersionService;
+
+  const version = (fields: Partial<MenuVersion> = {}): MenuVersion => ({
+    id: 'v2',
+    number: 2,
+    name: 'Summer menu',
+    notes: null,
+    status: 'APPROVED',
+    content: JSON.stringify(content()),
+    createdBy: 'marketing@example.com',
+    submittedBy: null,
+    submittedAt: null,
+    reviewedBy: null,
+    reviewedAt: null,
+    reviewNotes: null,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  });
+
+  const rollout = (fields: Partial<MenuRollout> = {}): MenuRollout => ({
+    id: 'r2',
+    versionId: 'v2',
+    market: 'UK',
+    goLiveAt: new Date('2025-06-01T05:00:00Z'),
+    status: 'SCHEDULED',
+    previousRolloutId: null,
+    scheduledBy: 'marketing@example.com',
+    publishedAt: null,
+    rolledBackBy: null,
+    rolledBackAt: null,
+    result: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  });
+
+  beforeEach(() => {
+    prisma = {
+      menuVersion: {
+        findUnique: jest.fn().mockResolvedValue(version({ status: 'DRAFT' })),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(version()),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      menuRollout: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      masterMenuItem: { findMany: jest.fn().mockResolvedValue([{ id: 'm1' }]) },
+      // The live definitions match the version's unless a test changes them
+      category: { findMany: jest.fn().mockResolvedValue(content().categories), createMany: jest.fn(), upsert: jest.fn() },
+      modifierGroup: { findMany: jest.fn().mockResolvedValue(content().modifierGroups), createMany: jest.fn(), upsert: jest.fn() },
+      modifier: { createMany: jest.fn(), upsert: jest.fn() },
+      $transaction: jest.fn().mockImplementation(work => work(prisma)),
+      auditEntry: { create: jest.fn() },
+      telemetryEvent: { create: jest.fn() },
+    };
+    masterMenu = {
+      publishCatalogue: jest.fn().mockResolvedValue({
+        storesInScope: 12,
+        storesChanged: 12,
+        totals: { create: 0, link: 0, update: 12, deactivate: 0 },
+        stores: [],
+      }),
+      previewCatalogue: jest.fn(),
+      loadCatalogue: jest.fn(),
+    };
+    service = new MenuVersionService(prisma as unknown as PrismaClient, masterMenu as unknown as MasterMenuService);
+    jest.spyOn(service, 'get').mockResolvedValue({} as never);
+  });
+
+  it('edits only drafts and checks item references against the version', async () => {
+    await service.editItem('v2', 'm1', { price: 6.95 }, 'marketing@example.com');
+    const saved = JSON.parse(prisma.menuVersion.update.mock.calls[0][0].data.content);
+    expect(saved.items[0]).toMatchObject({ id: 'm1', price: 6.95, categoryIds: ['c1'] });
+
+    await expect(service.editItem('v2', 'm1', { categoryIds: ['c9'] }, 'marketing@example.com'))
+      .rejects.toThrow(BadRequestException);
+
+    prisma.menuVersion.findUnique.mockResolvedValue(version({ status: 'IN_REVIEW' }));
+    await expect(service.editItem('v2', 'm1', { price: 7 }, 'marketing@example.com')).rejects.toThrow('Only draft versions can be changed');
+  });
+
+  it('moves a version through review only from the expected status', async () => {
+    await service.approve('v2', 'admin@example.com', 'Prices checked', now);
+    expect(prisma.menuVersion.updateMany).toHaveBeenCalledWith({
+      where: { id: 'v2', status: 'IN_REVIEW' },
+      data: { status: 'APPROVED', reviewedBy: 'admin@example.com', reviewedAt: now, reviewNotes: 'Prices checked' },
+    });
+
+    prisma.menuVersion.updateMany.mockResolvedValue({ count: 0 });
+    await expect(service.reject('v2', 'admin@example.com', undefined, now)).rejects.toThrow(BadRequestException);
+  });
+
+  it('publishes due rollouts to their market and supersedes the version live there', async () => {
+    prisma.menuRollout.findMany.mockResolvedValue([rollout()]);
+    prisma.menuRollout.findFirst.mockResolvedValue(rollout({ id: 'r1', versionId: 'v1', status: 'LIVE' }));
+
+    const published = await service.applyDueRollouts(now);
+
+    expect(published).toBe(1);
+    expect(prisma.menuRollout.updateMany).toHaveBeenCalledWith({ where: { id: 'r2', status: 'SCHEDULED' }, data: { status: 'PUBLISHING' } });
+    expect(prisma.category.createMany).toHaveBeenCalledWith({ data: content().categories, skipDuplicates: true });
+    expect(prisma.modifier.createMany).toHaveBeenCalledWith({
+      data: [{ id: 'mod1', modifierGroupId: 'g1', name: 'Italian Herbs', priceAdjustment: 0, active: true }],
+      skipDuplicates: true,
+    });
+    expect(prisma.category.upsert).not.toHaveBeenCalled();
+    const [catalogue, scope, options, tx] = masterMenu.publishCatalogue.mock.calls[0];
+    expect(catalogue).toEqual([expect.objectContaining({ master: expect.objectContaining({ id: 'm1', price: 6.5 }) })]);
+    expect(scope).toEqual({ country: 'UK' });
+    expect(options).toEqual({ withdrawUnlisted: true });
+    expect(tx).toBe(prisma);
+    expect(prisma.menuRollout.update).toHaveBeenCalledWith({
+      where: { id: 'r2' },
+      data: expect.objectContaining({ status: 'LIVE', publishedAt: now, previousRolloutId: 'r1' }),
+    });
+    expect(prisma.menuRollout.update).toHaveBeenCalledWith({ where: { id: 'r1' }, data: { status: 'SUPERSEDED' } });
+  });
+
+  it('changes shared definitions only in a rollout to all markets', async () => {
+    const live = content().modifierGroups;
+    live[0].modifiers[0].priceAdjustment = 0.25;
+    prisma.modifierGroup.findMany.mockResolvedValue(live);
+    prisma.menuRollout.findMany.mockResolvedValue([rollout()]);
+
+    expect(await service.applyDueRollouts(now)).toBe(0);
+    expect(masterMenu.publishCatalogue).not.toHaveBeenCalled();
+    expect(prisma.menuRollout.update).toHaveBeenCalledWith({
+      where: { id: 'r2' },
+      data: { status: 'FAILED', error: expect.stringContaining('This version changes Bread, which every market shares') },
+    });
+
+    prisma.menuRollout.findMany.mockResolvedValue([rollout({ market: 'ALL' })]);
+    expect(await service.applyDueRollouts(now)).toBe(1);
+    expect(prisma.modifier.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'mod1' },
+      update: { name: 'Italian Herbs', priceAdjustment: 0, active: true },
+    }));
+    expect(masterMenu.publishCatalogue.mock.calls[0][1]).toEqual({});
+    expect(prisma.menuRollout.updateMany).toHaveBeenCalledWith({
+      where: { status: 'LIVE', id: { not: 'r2' } },
+      data: { status: 'SUPERSEDED' },
+    });
+  });
+
+  it('skips a rollout another replica claimed and records failures', async () => {
+    prisma.menuRollout.findMany.mockResolvedValue([rollout()]);
+    prisma.menuRollout.updateMany.mockResolvedValueOnce({ count: 0 });
+    expect(await service.applyDueRollouts(now)).toBe(0);
+    expect(masterMenu.publishCatalogue).not.toHaveBeenCalled();
+
+    masterMenu.publishCatalogue.mockRejectedValue(new Error('connection reset'));
+    expect(await service.applyDueRollouts(now)).toBe(0);
+    expect(prisma.menuRollout.update).toHaveBeenCalledWith({ where: { id: 'r2' }, data: { status: 'FAILED', error: 'connection reset' } });
+  });
+
+  it('rolls a market back to the version the live rollout replaced', async () => {
+    const previousContent = content();
+    previousContent.items[0].price = 6.25;
+    prisma.menuRollout.findUnique
+      .mockResolvedValueOnce(rollout({ status: 'LIVE', previousRolloutId: 'r1' }))
+      .mockResolvedValueOnce({
+        ...rollout({ id: 'r1', versionId: 'v1', status: 'SUPERSEDED' }),
+        version: version({ id: 'v1', number: 1, content: JSON.stringify(previousContent) }),
+      });
+    jest.spyOn(service, 'getRollout').mockResolvedValue({} as never);
+
+    await service.rollback('r2', 'ops@example.com', now);
+
+    expect(masterMenu.publishCatalogue.mock.calls[0][0][0].master.price).toBe(6.25);
+    expect(prisma.menuRollout.update).toHaveBeenCalledWith({
+      where: { id: 'r2' },
+      data: { status: 'ROLLED_BACK', rolledBackBy: 'ops@example.com', rolledBackAt: now },
+    });
+    expect(prisma.menuRollout.update).toHaveBeenCalledWith({ where: { id: 'r1' }, data: expect.objectContaining({ status: 'LIVE' }) });
+
+    prisma.menuRollout.findUnique.mockResolvedValueOnce(rollout({ status: 'LIVE' }));
+    await expect(service.rollback('r2', 'ops@example.com', now)).rejects.toThrow('No earlier version was published in UK');
+  });
+});
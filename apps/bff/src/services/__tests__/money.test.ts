@@ -0,0 +1,126 @@
+import { PrismaClient } from '@prisma/client';
+import { BadRequestException } from '@nestjs/common';
+import { CurrencyConverter, countryCurrency, storeCurrency } from '../money/currency';
+import { applyTax, itemTaxRate } from '../money/tax';
+import { TaxService } from '../money/tax.service';
+import { FxService } from '../money/fx.service';
+
+const rate = (base: string, quote: string, value: number, effectiveFrom: string) => ({
+  base,
+  quote,
+  rate: value,
+  effectiveFrom: new Date(effectiveFrom),
+});
+
+describe('currency defaults', () => {
+  it('derives the currency from the store country unless the store sets one', () => {
+    expect(countryCurrency('Germany')).toBe('EUR');
+    expect(countryCurrency('UK')).toBe('GBP');
+    expect(countryCurrency('CH')).toBe('CHF');
+    expect(storeCurrency({ country: 'Sweden' })).toBe('SEK');
+    expect(storeCurrency({ country: 'Poland', currency: 'EUR' })).toBe('EUR');
+    expect(storeCurrency({ country: null })).toBe('GBP');
+  });
+});
+
+describe('CurrencyConverter', () => {
+  const converter = new CurrencyConverter([
+    rate('EUR', 'GBP', 0.85, '2025-01-01'),
+    rate('EUR', 'GBP', 0.84, '2025-06-01'),
+    rate('EUR', 'CHF', 0.94, '2025-01-01'),
+  ]);
+
+  it('uses the rate in effect on the date', () => {
+    expect(converter.rate('EUR', 'GBP', new Date('2025-05-31'))).toBe(0.85);
+    expect(converter.rate('EUR', 'GBP', new Date('2025-06-01'))).toBe(0.84);
+  });
+
+  it('inverts a pair and crosses through EUR', () => {
+    expect(converter.convert(84, 'GBP', 'EUR', new Date('2025-07-01'))).toBeCloseTo(100);
+    expect(converter.rate('GBP', 'CHF', new Date('2025-07-01'))).toBeCloseTo(0.94 / 0.84);
+  });
+
+  it('refuses to convert without a rate in effect', () => {
+    expect(() => converter.rate('EUR', 'GBP', new Date('2024-12-31'))).toThrow(BadRequestException);
+    expect(() => converter.rate('SEK', 'GBP', new Date('2025-07-01'))).toThrow('No SEK/GBP FX rate');
+  });
+});
+
+describe('applyTax', () => {
+  const vat = { pricesIncludeTax: true, standardRate: 0.2, categoryRates: { cold: 0, hot: 0.2, kids: 0.05 } };
+
+  it('takes the highest category rate and falls back to the standard rate', () => {
+    expect(itemTaxRate(vat, ['cold'])).toBe(0);
+    expect(itemTaxRate(vat, ['cold', 'hot'])).toBe(0.2);
+    expect(itemTaxRate(vat, ['drinks'])).toBe(0.2);
+  });
+
+  it('extracts VAT from tax-inclusive prices', () => {
+    const breakdown = applyTax(vat, [{ amount: 6, categoryIds: [] }, { amount: 4.5, categoryIds: ['cold'] }]);
+
+    expect(breakdown.lines.map(line => line.tax)).toEqual([1, 0]);
+    expect(breakdown).toMatchObject({ netTotal: 9.5, taxTotal: 1, grossTotal: 10.5 });
+  });
+
+  it('adds sales tax on top of tax-exclusive prices', () => {
+    const breakdown = applyTax({ pricesIncludeTax: false, standardRate: 0.08875, categoryRates: {} }, [{ amount: 10, categoryIds: [] }]);
+
+    expect(breakdown).toMatchObject({ netTotal: 10, taxTotal: 0.89, grossTotal: 10.89 });
+  });
+});
+
+describe('TaxService', () => {
+  it('taxes order lines with the store country setting, filing the UK under GB', async () => {
+    const prisma = {
+      taxSetting: {
+        findUnique: jest.fn().mockResolvedValue({
+          country: 'GB',
+          pricesIncludeTax: true,
+          standardRate: 0.2,
+          categoryRates: [{ categoryId: 'cold', rate: 0 }],
+        }),
+      },
+      menuItemCategory: { findMany: jest.fn().mockResolvedValue([{ menuItemId: 'salad', categoryId: 'cold' }]) },
+    };
+    const service = new TaxService(prisma as unknown as PrismaClient);
+
+    const breakdown = await service.taxOrder('UK', [
+      { menuItemId: 'sub', subtotal: 12 },
+      { menuItemId: 'salad', subtotal: 5 },
+    ]);
+
+    expect(prisma.taxSetting.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { country: 'GB' } }));
+    expect(breakdown.lines.map(line => line.taxRate)).toEqual([0.2, 0]);
+    expect(breakdown).toMatchObject({ netTotal: 15, taxTotal: 2, grossTotal: 17 });
+  });
+});
+
+describe('FxService', () => {
+  it('restates orders at the rate of their day, using the store currency for older orders', async () => {
+    const prisma = {
+      fxRate: {
+        findMany: jest.fn().mockResolvedValue([
+          rate('EUR', 'GBP', 0.85, '2025-01-01'),
+          rate('EUR', 'GBP', 0.8, '2025-03-01'),
+          rate('EUR', 'CHF', 0.95, '2025-01-01'),
+        ]),
+      },
+    };
+    const service = new FxService(prisma as unknown as PrismaClient);
+    const convert = await service.orderConverter('eur');
+
+    const orders = [
+      { total: 8.5, currency: 'GBP', createdAt: new Date('2025-02-01'), Store: { currency: null, country: 'UK' } },
+      { total: 8, currency: null, createdAt: new Date('2025-04-01'), Store: { currency: null, country: 'UK' } },
+      { total: 19, currency: null, createdAt: new Date('2025-04-01'), Store: { currency: null, country: 'Switzerland' } },
+    ];
+
+    expect(orders.map(convert).map(amount => Math.round(amount * 100) / 100)).toEqual([10, 10, 20]);
+  });
+
+  it('rejects a reporting currency that is not an ISO code', async () => {
+    const service = new FxService({ fxRate: { findMany: jest.fn() } } as unknown as PrismaClient);
+
+    await expect(service.orderConverter('euro')).rejects.toThrow(BadRequestException);
+  });
+});
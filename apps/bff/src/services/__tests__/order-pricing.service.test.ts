@@ -0,0 +1,183 @@
+import { BadRequestException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import {
+  OrderPricingService,
+  PricingMenuItem,
+  PricingModifierGroup,
+  PricingOverride,
+} from '../orders/order-pricing.service';
+
+describe('OrderPricingService', () => {
+  let service: OrderPricingService;
+
+  const breadGroup: PricingModifierGroup = {
+    id: 'grp-bread',
+    name: 'Bread',
+    minSelection: 1,
+    maxSelection: 1,
+    required: true,
+    active: true,
+    modifiers: [
+      { id: 'mod-white', name: 'White', priceAdjustment: 0, active: true },
+      { id: 'mod-herb', name: 'Italian Herbs', priceAdjustment: 0.3, active: true },
+      { id: 'mod-rye', name: 'Rye', priceAdjustment: 0.2, active: false },
+    ],
+  };
+
+  const extrasGroup: PricingModifierGroup = {
+    id: 'grp-extras',
+    name: 'Extras',
+    minSelection: 0,
+    maxSelection: 2,
+    required: false,
+    active: true,
+    modifiers: [
+      { id: 'mod-cheese', name: 'Extra Cheese', priceAdjustment: 0.8, active: true },
+      { id: 'mod-bacon', name: 'Bacon', priceAdjustment: 1.2, active: true },
+      { id: 'mod-avocado', name: 'Avocado', priceAdjustment: 1.0, active: true },
+    ],
+  };
+
+  const sub: PricingMenuItem = {
+    id: 'item-sub',
+    name: 'Italian B.M.T.',
+    price: 6.5,
+    modifierGroups: [breadGroup, extrasGroup],
+  };
+
+  const cookie: PricingMenuItem = {
+    id: 'item-cookie',
+    name: 'Cookie',
+    price: 1.2,
+    modifierGroups: [],
+  };
+
+  const at = new Date('2025-06-15T12:00:00Z');
+
+  beforeEach(() => {
+    service = new OrderPricingService({} as PrismaClient);
+  });
+
+  describe('base price resolution', () => {
+    it('uses the list price when no override is active', () => {
+      const result = service.calculate([{ menuItemId: 'item-cookie', quantity: 3 }], [cookie], [], at);
+
+      expect(result.lines[0].basePrice).toBe(1.2);
+      expect(result.lines[0].priceOverrideId).toBeNull();
+      expect(result.total).toBe(3.6);
+    });
+
+    it('applies the override whose window contains the order time', () => {
+      const overrides: PricingOverride[] = [
+        { id: 'po-expired', menuItemId: 'item-cookie', price: 0.5, effectiveFrom: new Date('2025-01-01'), effectiveTo: new Date('2025-02-01') },
+        { id: 'po-current', menuItemId: 'item-cookie', price: 1.0, effectiveFrom: new Date('2025-06-01'), effectiveTo: null },
+        { id: 'po-future', menuItemId: 'item-cookie', price: 1.5, effectiveFrom: new Date('2025-07-01'), effectiveTo: null },
+      ];
+
+      const result = service.calculate([{ menuItemId: 'item-cookie', quantity: 2 }], [cookie], overrides, at);
+
+      expect(result.lines[0].priceOverrideId).toBe('po-current');
+      expect(result.lines[0].basePrice).toBe(1.0);
+      expect(result.total).toBe(2.0);
+    });
+
+    it('prefers the most recently started override when windows overlap', () => {
+      const overrides: PricingOverride[] = [
+        { id: 'po-old', menuItemId: 'item-cookie', price: 1.1, effectiveFrom: new Date('2025-01-01'), effectiveTo: null },
+        { id: 'po-new', menuItemId: 'item-cookie', price: 0.9, effectiveFrom: new Date('2025-06-10'), effectiveTo: null },
+      ];
+
+      expect(service.resolveOverride('item-cookie', overrides, at)?.id).toBe('po-new');
+    });
+
+    it('treats effectiveTo as exclusive', () => {
+      const overrides: PricingOverride[] = [
+        { id: 'po-ending', menuItemId: 'item-cookie', price: 0.9, effectiveFrom: new Date('2025-06-01'), effectiveTo: at },
+      ];
+
+      expect(service.resolveOverride('item-cookie', overrides, at)).toBeNull();
+    });
+  });
+
+  describe('modifiers', () => {
+    it('adds modifier adjustments to the unit price', () => {
+      const result = service.calculate(
+        [{ menuItemId: 'item-sub', quantity: 2, modifierIds: ['mod-herb', 'mod-cheese'] }],
+        [sub],
+        [],
+        at,
+      );
+
+      expect(result.lines[0].unitPrice).toBe(7.6);
+      expect(result.lines[0].subtotal).toBe(15.2);
+      expect(result.lines[0].modifiers).toEqual([
+        { modifierId: 'mod-herb', modifierGroupId: 'grp-bread', name: 'Italian Herbs', priceAdjustment: 0.3 },
+        { modifierId: 'mod-cheese', modifierGroupId: 'grp-extras', name: 'Extra Cheese', priceAdjustment: 0.8 },
+      ]);
+    });
+
+    it('applies adjustments on top of an override price', () => {
+      const overrides: PricingOverride[] = [
+        { id: 'po-sub', menuItemId: 'item-sub', price: 5.0, effectiveFrom: new Date('2025-06-01'), effectiveTo: null },
+      ];
+
+      const result = service.calculate(
+        [{ menuItemId: 'item-sub', quantity: 1, modifierIds: ['mod-white', 'mod-bacon'] }],
+        [sub],
+        overrides,
+        at,
+      );
+
+      expect(result.lines[0].basePrice).toBe(5.0);
+      expect(result.lines[0].unitPrice).toBe(6.2);
+    });
+
+    it('rejects an order missing a required group', () => {
+      expect(() => service.calculate(
+        [{ menuItemId: 'item-sub', quantity: 1, modifierIds: ['mod-cheese'] }],
+        [sub],
+        [],
+        at,
+      )).toThrow(BadRequestException);
+    });
+
+    it('rejects selections above maxSelection', () => {
+      expect(() => service.calculate(
+        [{ menuItemId: 'item-sub', quantity: 1, modifierIds: ['mod-white', 'mod-cheese', 'mod-bacon', 'mod-avocado'] }],
+        [sub],
+        [],
+        at,
+      )).toThrow('Extras allows at most 2 selection(s)');
+    });
+
+    it('rejects inactive modifiers and modifiers from unattached groups', () => {
+      expect(() => service.calculate(
+        [{ menuItemId: 'item-sub', quantity: 1, modifierIds: ['mod-rye'] }],
+        [sub],
+        [],
+        at,
+      )).toThrow('Modifier Rye is inactive');
+
+      expect(() => service.calculate(
+        [{ menuItemId: 'item-cookie', quantity: 1, modifierIds: ['mod-cheese'] }],
+        [cookie],
+        [],
+        at,
+      )).toThrow('is not available for Cookie');
+    });
+
+    it('rejects duplicate modifier selections', () => {
+      expect(() => service.calculate(
+        [{ menuItemId: 'item-sub', quantity: 1, modifierIds: ['mod-white', 'mod-cheese', 'mod-cheese'] }],
+        [sub],
+        [],
+        at,
+      )).toThrow(BadRequestException);
+    });
+  });
+
+  it('rejects non-positive quantities', () => {
+    expect(() => service.calculate([{ menuItemId: 'item-cookie', quantity: 0 }], [cookie], [], at))
+      .toThrow(BadRequestException);
+  });
+});
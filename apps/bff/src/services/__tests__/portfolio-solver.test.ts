@@ -0,0 +1,203 @@
+import { PrismaClient } from '@prisma/client';
+import { LlmClient } from '@subway/shared-ai';
+import { solvePortfolio, SolverItem, SolverProblem } from '../portfolio/portfolio-solver';
+import { HuffMarketShareService } from '../portfolio/huff-market-share.service';
+import { PortfolioOptimizerService } from '../portfolio/portfolio-optimizer.service';
+import { ROICalculatorService } from '../portfolio/roi-calculator.service';
+import { CannibalizationCalculatorService } from '../portfolio/cannibalization-calculator.service';
+
+const llm = new LlmClient({
+  name: 'test',
+  defaultModel: 'test-model',
+  isConfigured: () => true,
+  complete: jest.fn().mockResolvedValue({
+    text: 'ok',
+    model: 'test-model',
+    provider: 'test',
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+    replayed: false,
+  }),
+});
+
+const item = (id: string, cost: number, value: number, extra: Partial<SolverItem> = {}): SolverItem => ({
+  id,
+  cost,
+  value,
+  lat: 52,
+  lng: 13,
+  captured: 100,
+  baseOwnLoss: 0,
+  ...extra,
+});
+
+const problem = (items: SolverItem[], extra: Partial<SolverProblem> = {}): SolverProblem => ({
+  items,
+  budget: 10,
+  maxCannibalizationPct: 100,
+  overlap: () => 0,
+  penalty: () => 0,
+  ...extra,
+});
+
+/** Best objective by trying every subset */
+function bruteForce(p: SolverProblem): number {
+  let best = -Infinity;
+  for (let mask = 0; mask < 1 << p.items.length; mask++) {
+    const chosen = p.items.map((_, i) => i).filter((i) => mask & (1 << i));
+    if (chosen.reduce((sum, i) => sum + p.items[i].cost, 0) > p.budget) continue;
+
+    const counts = new Map<string, number>();
+    chosen.forEach((i) => counts.set(p.items[i].region!, (counts.get(p.items[i].region!) ?? 0) + 1));
+    const quotasOk = Object.entries(p.regionQuotas ?? {}).every(
+      ([region, q]) => (counts.get(region) ?? 0) >= (q.min ?? 0) && (counts.get(region) ?? 0) <= (q.max ?? Infinity),
+    );
+    const cannibalizationOk = chosen.every((i) => {
+      const loss = chosen.reduce((sum, j) => (j === i ? sum : sum + p.overlap(i, j)), p.items[i].baseOwnLoss);
+      return (loss / p.items[i].captured) * 100 <= p.maxCannibalizationPct + 1e-6;
+    });
+    if (!quotasOk || !cannibalizationOk) continue;
+
+    let value = chosen.reduce((sum, i) => sum + p.items[i].value, 0);
+    for (const i of chosen) for (const j of chosen) if (i < j) value -= p.penalty(i, j);
+    best = Math.max(best, value);
+  }
+  return best;
+}
+
+describe('solvePortfolio', () => {
+  it('beats greedy when the best ratio item crowds out a better pair', () => {
+    const result = solvePortfolio(problem([item('a', 6, 7), item('b', 5, 5), item('c', 5, 5)]));
+
+    expect(result.greedy).toEqual({ selected: [0], objective: 7 });
+    expect(result.selected.sort()).toEqual([1, 2]);
+    expect(result.objective).toBe(10);
+    expect(result.proven).toBe(true);
+    expect(result.gap).toBe(0);
+  });
+
+  it('matches exhaustive search with penalties, cannibalization limits and quotas', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+    for (let round = 0; round < 5; round++) {
+      const items = Array.from({ length: 11 }, (_, i) =>
+        item(`s${i}`, 1 + Math.floor(random() * 5), Math.round(random() * 20) - 3, {
+          region: random() < 0.5 ? 'north' : 'south',
+          baseOwnLoss: Math.round(random() * 20),
+        }),
+      );
+      const overlap = items.map(() => items.map(() => Math.round(random() * 15)));
+      const p = problem(items, {
+        budget: 14,
+        maxCannibalizationPct: 45,
+        regionQuotas: { north: { min: 1, max: 3 }, south: { max: 3 } },
+        overlap: (i, j) => overlap[i][j],
+        penalty: (i, j) => (overlap[i][j] + overlap[j][i]) / 4,
+      });
+
+      const result = solvePortfolio(p);
+      expect(result.objective).toBeCloseTo(bruteForce(p), 6);
+      expect(result.greedy === null || result.greedy.objective <= result.objective + 1e-6).toBe(true);
+    }
+  });
+
+  it('never selects two items closer than the minimum spacing', () => {
+    const result = solvePortfolio(
+      problem([item('a', 1, 5), item('b', 1, 5, { lng: 13.01 }), item('c', 1, 5, { lng: 13.2 })], { minSpacingKm: 2 }),
+    );
+
+    expect(result.selected.sort()).toEqual([0, 2]);
+  });
+
+  it('returns no feasible objective when a minimum quota cannot be met', () => {
+    const result = solvePortfolio(problem([item('a', 1, 5, { region: 'north' })], { regionQuotas: { south: { min: 1 } } }));
+
+    expect(result.greedy).toBeNull();
+    expect(result.objective).toBe(-Infinity);
+  });
+
+  it('reports a gap when the node limit stops the search', () => {
+    const items = Array.from({ length: 30 }, (_, i) => item(`s${i}`, 3 + (i % 7), 10 + ((i * 13) % 11)));
+    const result = solvePortfolio(problem(items, { budget: 40, nodeLimit: 50 }));
+
+    expect(result.proven).toBe(false);
+    expect(result.upperBound).toBeGreaterThanOrEqual(result.objective);
+    expect(result.gap).toBeGreaterThanOrEqual(0);
+    expect(result.nodesExplored).toBe(50);
+  });
+});
+
+describe('PortfolioOptimizerService optimal mode', () => {
+  const planned = [
+    { id: 'p1', name: 'Mitte', latitude: 52.52, longitude: 13.4, city: 'Berlin', country: 'Germany', region: 'EMEA', cityPopulationBand: null },
+    { id: 'p2', name: 'Mitte Nord', latitude: 52.521, longitude: 13.401, city: 'Berlin', country: 'Germany', region: 'EMEA', cityPopulationBand: null },
+    { id: 'p3', name: 'Boston', latitude: 42.36, longitude: -71.06, city: 'Boston', country: 'USA', region: 'AMER', cityPopulationBand: null },
+  ];
+  const roiFor = (npv: number) => ({
+    expectedAnnualRevenue: 900_000,
+    estimatedCosts: { initial: 1_000_000, annual: 600_000 },
+    simpleROI: 30,
+    paybackPeriod: 3,
+    irr: 20,
+    npv,
+    confidenceLevel: 80,
+    riskFactor: 0.1,
+    adjustedROI: 25,
+  });
+
+  let service: PortfolioOptimizerService;
+
+  beforeEach(() => {
+    const prisma = {
+      store: {
+        findMany: jest.fn(({ where }) => Promise.resolve(where.status === 'Open' ? [] : planned)),
+      },
+      demographicCache: { findMany: jest.fn().mockResolvedValue([]) },
+      competitorPlace: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    const npvs: Record<string, number> = { p1: 900_000, p2: 800_000, p3: 300_000 };
+    const roi = { calculateROI: jest.fn((candidate) => Promise.resolve(roiFor(npvs[candidate.id]))) };
+    service = new PortfolioOptimizerService(
+      prisma as unknown as PrismaClient,
+      roi as unknown as ROICalculatorService,
+      new CannibalizationCalculatorService(prisma as unknown as PrismaClient),
+      new HuffMarketShareService(prisma as unknown as PrismaClient),
+      llm,
+    );
+  });
+
+  it('honours spacing and region quotas together and reports optimality', async () => {
+    const result = await service.previewPortfolio({
+      budget: 2_000_000,
+      mode: 'optimal',
+      constraints: { minROI: 10, maxCannibalization: 50, minSpacingKm: 1, regionQuotas: { AMER: { min: 1 } } },
+    });
+
+    expect(result.selectedStores.map((s) => s.candidateId)).toEqual(['p1', 'p3']);
+    expect(result.aiInsights).toBe('');
+    expect(result.optimality).toEqual(
+      expect.objectContaining({ objective: 1_200_000, greedyObjective: 1_200_000, proven: true, optimalityGap: 0, candidatesConsidered: 3 }),
+    );
+  });
+
+  it('rejects quotas that no portfolio can meet', async () => {
+    await expect(
+      service.optimizePortfolio({
+        budget: 2_000_000,
+        mode: 'optimal',
+        constraints: { minROI: 10, maxCannibalization: 50, regionQuotas: { APAC: { min: 1 } } },
+      }),
+    ).rejects.toThrow('No portfolio satisfies the region quotas');
+  });
+
+  it('leaves optimality unset for the greedy modes', async () => {
+    const result = await service.optimizePortfolio({
+      budget: 2_000_000,
+      mode: 'balanced',
+      constraints: { minROI: 10, maxCannibalization: 50 },
+    });
+
+    expect(result.optimality).toBeNull();
+    expect(result.aiInsights).toBe('ok');
+  });
+});
@@ -0,0 +1,181 @@
+import { PrismaClient } from '@prisma/client';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { activeWindow, periodBounds, previousPeriod, royaltyLines, statementTotals } from '../franchisee/royalties';
+import { RoyaltyService } from '../franchisee/royalty.service';
+
+const terms = {
+  id: 'agr1',
+  storeId: 'st1',
+  startDate: new Date('2024-01-01'),
+  endDate: new Date('2034-01-01'),
+  royaltyRate: 0.06,
+  marketingFundRate: 0.02,
+  minimumMonthlyRoyalty: 600,
+  minimumMonthlyMarketingFee: null,
+};
+
+describe('royalty periods', () => {
+  it('bounds a month in UTC and finds the previous one', () => {
+    expect(periodBounds('2025-02')).toEqual({ start: new Date('2025-02-01T00:00:00Z'), end: new Date('2025-03-01T00:00:00Z') });
+    expect(previousPeriod(new Date('2025-01-01T02:00:00Z'))).toBe('2024-12');
+    expect(() => periodBounds('2025-13')).toThrow(BadRequestException);
+  });
+
+  it('prorates a month by the days the agreement was in force', () => {
+    const april = periodBounds('2025-04');
+
+    expect(activeWindow({ startDate: new Date('2025-04-16'), endDate: new Date('2030-01-01') }, april)).toEqual({
+      start: new Date('2025-04-16'),
+      end: new Date('2025-05-01'),
+      share: 0.5,
+    });
+    expect(activeWindow({ startDate: new Date('2020-01-01'), endDate: new Date('2025-04-01') }, april)).toBeNull();
+  });
+});
+
+describe('royaltyLines', () => {
+  it('charges each fee on net sales and tops up to the prorated minimum', () => {
+    const lines = royaltyLines(terms, 'Soho', 8000, 0.5);
+
+    expect(lines.map(line => [line.kind, line.amount])).toEqual([
+      ['ROYALTY', 480],
+      ['MARKETING_FUND', 160],
+    ]);
+    expect(royaltyLines(terms, 'Soho', 8000, 1).map(line => [line.kind, line.amount])).toEqual([
+      ['ROYALTY', 480],
+      ['ROYALTY_MINIMUM', 120],
+      ['MARKETING_FUND', 160],
+    ]);
+  });
+
+  it('keeps adjustments apart from the computed fees', () => {
+    expect(statementTotals([
+      { kind: 'ROYALTY', amount: 480 },
+      { kind: 'ROYALTY_MINIMUM', amount: 120 },
+      { kind: 'ADJUSTMENT', amount: -50.5 },
+    ])).toEqual({ royaltyTotal: 600, adjustmentTotal: -50.5, totalDue: 549.5 });
+  });
+});
+
+const agreement = (overrides: Record<string, unknown> = {}) => ({
+  ...terms,
+  franchiseeId: 'fr1',
+  reference: null,
+  renewalOptions: 0,
+  renewalTermMonths: null,
+  status: 'ACTIVE',
+  notes: null,
+  store: { name: 'Soho', currency: null, country: 'UK' },
+  ...overrides,
+});
+
+function mockPrisma() {
+  const tx = {
+    royaltyStatement: {
+      create: jest.fn().mockResolvedValue({ id: 'rs1' }),
+      update: jest.fn().mockImplementation(({ where }) => Promise.resolve({ id: where.id })),
+      findUniqueOrThrow: jest.fn().mockImplementation(({ where }) => Promise.resolve({
+        id: where.id,
+        franchiseeId: 'fr1',
+        period: '2025-04',
+        currency: 'GBP',
+        status: 'DRAFT',
+        netSales: 0,
+        royaltyTotal: 0,
+        adjustmentTotal: 0,
+        totalDue: 0,
+        lines: [],
+      })),
+    },
+    royaltyStatementLine: { deleteMany: jest.fn(), createMany: jest.fn() },
+  };
+  return {
+    franchisee: { findUnique: jest.fn().mockResolvedValue({ id: 'fr1' }) },
+    franchiseAgreement: { findMany: jest.fn().mockResolvedValue([agreement()]), findFirst: jest.fn() },
+    order: {
+      aggregate: jest.fn()
+        .mockResolvedValueOnce({ _sum: { netTotal: 9000 } })
+        .mockResolvedValueOnce({ _sum: { total: 1000 } }),
+    },
+    royaltyStatement: { findMany: jest.fn().mockResolvedValue([]) },
+    store: { findUnique: jest.fn() },
+    auditEntry: { create: jest.fn() },
+    telemetryEvent: { create: jest.fn() },
+    $transaction: jest.fn().mockImplementation(work => work(tx)),
+    tx,
+  };
+}
+
+describe('RoyaltyService', () => {
+  let prisma: ReturnType<typeof mockPrisma>;
+  let service: RoyaltyService;
+
+  beforeEach(() => {
+    prisma = mockPrisma();
+    service = new RoyaltyService(prisma as unknown as PrismaClient);
+  });
+
+  it('drafts a statement from completed orders, counting pre-tax orders at their total', async () => {
+    await service.generateStatements('fr1', '2025-04', 'finance@example.com');
+
+    expect(prisma.order.aggregate).toHaveBeenCalledWith({
+      where: {
+        storeId: 'st1',
+        status: 'COMPLETED',
+        createdAt: { gte: new Date('2025-04-01'), lt: new Date('2025-05-01') },
+        netTotal: { not: null },
+      },
+      _sum: { netTotal: true },
+    });
+    expect(prisma.tx.royaltyStatement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        franchiseeId: 'fr1',
+        period: '2025-04',
+        currency: 'GBP',
+        netSales: 10000,
+        royaltyTotal: 800,
+        adjustmentTotal: 0,
+        totalDue: 800,
+      }),
+    });
+  });
+
+  it('keeps adjustments when a draft is regenerated', async () => {
+    prisma.royaltyStatement.findMany.mockResolvedValue([{
+      id: 'rs1',
+      currency: 'GBP',
+      status: 'DRAFT',
+      totalDue: 0,
+      lines: [{ kind: 'ADJUSTMENT', amount: -25 }],
+    }]);
+
+    await service.generateStatements('fr1', '2025-04', 'finance@example.com');
+
+    expect(prisma.tx.royaltyStatement.update).toHaveBeenCalledWith({
+      where: { id: 'rs1' },
+      data: expect.objectContaining({ royaltyTotal: 800, adjustmentTotal: -25, totalDue: 775 }),
+    });
+    expect(prisma.tx.royaltyStatementLine.deleteMany).toHaveBeenCalledWith({
+      where: { statementId: 'rs1', kind: { not: 'ADJUSTMENT' } },
+    });
+  });
+
+  it('refuses to regenerate an issued statement', async () => {
+    prisma.royaltyStatement.findMany.mockResolvedValue([{ id: 'rs1', currency: 'GBP', status: 'ISSUED', lines: [] }]);
+
+    await expect(service.generateStatements('fr1', '2025-04', 'finance@example.com')).rejects.toThrow(ConflictException);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects an agreement that overlaps another for the same store', async () => {
+    prisma.store.findUnique.mockResolvedValue({ franchiseeId: 'fr1', name: 'Soho' });
+    prisma.franchiseAgreement.findFirst.mockResolvedValue(agreement({ reference: 'FA-001' }));
+
+    await expect(service.createAgreement('fr1', {
+      storeId: 'st1',
+      startDate: new Date('2030-01-01'),
+      endDate: new Date('2040-01-01'),
+      royaltyRate: 0.05,
+    }, 'finance@example.com')).rejects.toThrow('Overlaps agreement FA-001');
+  });
+});
@@ -0,0 +1,243 @@
+import { PrismaClient, ScheduledJob } from '@prisma/client';
+import { BadRequestException } from '@nestjs/common';
+import { CronExpression, CronSyntaxError } from '../jobs/cron';
+import { ScheduledJobService } from '../jobs/scheduled-job.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { ForecastJobHandler } from '../jobs/handlers/forecast-job.handler';
+import { StoreAnalysisJobHandler } from '../jobs/handlers/store-analysis-job.handler';
+import { CompetitorRefreshJobHandler } from '../jobs/handlers/competitor-refresh-job.handler';
+import { FranchiseeService } from '../franchisee/franchisee.service';
+import { FranchiseeAnalyticsService } from '../franchisee/franchisee-analytics.service';
+import { AIIntelligenceControllerService } from '../ai/ai-intelligence-controller.service';
+import { StoreAlertService } from '../alerts/store-alert.service';
+import { MenuVersionService } from '../menu/menu-version.service';
+import { RoyaltyService } from '../franchisee/royalty.service';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('CronExpression', () => {
+  it('finds the next slots in the schedule\'s timezone', () => {
+    // Mondays at 02:00 in Berlin: CET in winter, CEST in summer
+    const cron = CronExpression.parse('0 2 * * MON');
+
+    expect(iso(cron.upcoming(new Date('2025-03-20T00:00:00Z'), 'Europe/Berlin', 3))).toEqual([
+      '2025-03-24T01:00:00.000Z',
+      '2025-03-31T00:00:00.000Z',
+      '2025-04-07T00:00:00.000Z',
+    ]);
+    expect(cron.next(new Date('2025-03-20T00:00:00Z'), 'UTC')?.toISOString()).toBe('2025-03-24T02:00:00.000Z');
+  });
+
+  it('fires once for wall times skipped or repeated by daylight saving', () => {
+    const cron = CronExpression.parse('30 2 * * *');
+
+    // 02:30 does not exist on 30 March in Berlin; it runs an hour later
+    expect(cron.next(new Date('2025-03-29T12:00:00Z'), 'Europe/Berlin')?.toISOString()).toBe('2025-03-30T01:30:00.000Z');
+    // 02:30 happens twice on 26 October; only one run
+    const autumn = cron.upcoming(new Date('2025-10-25T12:00:00Z'), 'Europe/Berlin', 2);
+    expect(iso(autumn)).toEqual(['2025-10-26T01:30:00.000Z', '2025-10-27T01:30:00.000Z']);
+  });
+
+  it('supports lists, ranges, steps and shorthands', () => {
+    const after = new Date('2025-01-01T00:00:00Z');
+
+    expect(iso(CronExpression.parse('*/20 9-10 * * *').upcoming(after, 'UTC', 4))).toEqual([
+      '2025-01-01T09:00:00.000Z',
+      '2025-01-01T09:20:00.000Z',
+      '2025-01-01T09:40:00.000Z',
+      '2025-01-01T10:00:00.000Z',
+    ]);
+    expect(CronExpression.parse('@monthly').next(after, 'UTC')?.toISOString()).toBe('2025-02-01T00:00:00.000Z');
+    expect(CronExpression.parse('0 0 * * 7').next(after, 'UTC')?.toISOString()).toBe('2025-01-05T00:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 15th, or any Friday
+    const cron = CronExpression.parse('0 12 15 * FRI');
+
+    expect(iso(cron.upcoming(new Date('2025-01-01T00:00:00Z'), 'UTC', 3))).toEqual([
+      '2025-01-03T12:00:00.000Z',
+      '2025-01-10T12:00:00.000Z',
+      '2025-01-15T12:00:00.000Z',
+    ]);
+  });
+
+  it('rejects malformed expressions and returns null for ones that never fire', () => {
+    expect(() => CronExpression.parse('0 2 * *')).toThrow(CronSyntaxError);
+    expect(() => CronExpression.parse('61 * * * *')).toThrow('minute "61" must be between 0 and 59');
+    expect(() => CronExpression.parse('0 5-2 * * *')).toThrow('Invalid hour range "5-2"');
+    expect(CronExpression.parse('0 0 30 2 *').next(new Date(), 'UTC')).toBeNull();
+  });
+});
+
+describe('ScheduledJobService', () => {
+  let prisma: {
+    scheduledJob: { findMany: jest.Mock; findUnique: jest.Mock; create: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+    scheduledJobRun: { create: jest.Mock; findMany: jest.Mock; groupBy: jest.Mock };
+    franchisee: { findMany: jest.Mock };
+    auditEntry: { create: jest.Mock };
+    telemetryEvent: { create: jest.Mock };
+  };
+  let forecastJobs: { enqueue: jest.Mock };
+  let storeAnalysisJobs: { enqueue: jest.Mock };
+  let franchisees: { recalculateMetrics: jest.Mock };
+  let analytics: { recalculateScores: jest.Mock };
+  let aiControl: { canRunAnalysis: jest.Mock };
+  let menuVersions: { applyDueRollouts: jest.Mock };
+  let service: ScheduledJobService;
+
+  const schedule = (overrides: Partial<ScheduledJob> = {}): ScheduledJob => ({
+    id: 'sch1',
+    name: 'EMEA forecasts',
+    kind: 'forecast',
+    cron: '0 2 * * 1',
+    timezone: 'UTC',
+    params: JSON.stringify({ region: 'EMEA', horizonMonths: 12, regenerate: true }),
+    enabled: true,
+    catchUp: 'ONCE',
+    monthlyBudgetUsd: null,
+    nextRunAt: new Date('2025-03-24T02:00:00Z'),
+    lastRunAt: null,
+    createdBy: 'admin@example.com',
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    prisma = {
+      scheduledJob: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      scheduledJobRun: {
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'run1', startedAt: new Date(), ...data })),
+        findMany: jest.fn().mockResolvedValue([]),
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+      franchisee: { findMany: jest.fn() },
+      auditEntry: { create: jest.fn() },
+      telemetryEvent: { create: jest.fn() },
+    };
+    forecastJobs = { enqueue: jest.fn().mockResolvedValue({ id: 'fj1' }) };
+    storeAnalysisJobs = { enqueue: jest.fn().mockResolvedValue({ id: 'saj1' }) };
+    franchisees = { recalculateMetrics: jest.fn() };
+    analytics = { recalculateScores: jest.fn() };
+    aiControl = { canRunAnalysis: jest.fn().mockResolvedValue({ allowed: true }) };
+    menuVersions = { applyDueRollouts: jest.fn().mockResolvedValue(0) };
+
+    service = new ScheduledJobService(
+      prisma as unknown as PrismaClient,
+      { recordEvent: jest.fn(), getJob: jest.fn() } as unknown as JobQueueService,
+      forecastJobs as unknown as ForecastJobHandler,
+      storeAnalysisJobs as unknown as StoreAnalysisJobHandler,
+      { enqueue: jest.fn() } as unknown as CompetitorRefreshJobHandler,
+      franchisees as unknown as FranchiseeService,
+      analytics as unknown as FranchiseeAnalyticsService,
+      aiControl as unknown as AIIntelligenceControllerService,
+      { scan: jest.fn() } as unknown as StoreAlertService,
+      menuVersions as unknown as MenuVersionService,
+      { generateAll: jest.fn() } as unknown as RoyaltyService,
+    );
+  });
+
+  it('enqueues a forecast job for a slot that is due and moves on to the next one', async () => {
+    prisma.scheduledJob.findMany.mockResolvedValue([schedule()]);
+
+    await service.tick(new Date('2025-03-24T02:00:20Z'));
+
+    expect(prisma.scheduledJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sch1', nextRunAt: new Date('2025-03-24T02:00:00Z') },
+      data: { nextRunAt: new Date('2025-03-31T02:00:00Z') },
+    });
+    expect(forecastJobs.enqueue).toHaveBeenCalledWith({ region: 'EMEA', horizonMonths: 12, regenerate: true });
+    expect(prisma.scheduledJobRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ trigger: 'schedule', status: 'queued', jobType: 'forecast', jobId: 'fj1' }),
+    });
+    expect(menuVersions.applyDueRollouts).toHaveBeenCalledWith(new Date('2025-03-24T02:00:20Z'));
+  });
+
+  it('leaves a slot to the replica that claimed it first', async () => {
+    prisma.scheduledJob.findMany.mockResolvedValue([schedule()]);
+    prisma.scheduledJob.updateMany.mockResolvedValue({ count: 0 });
+
+    await service.tick(new Date('2025-03-24T02:00:20Z'));
+
+    expect(forecastJobs.enqueue).not.toHaveBeenCalled();
+    expect(prisma.scheduledJobRun.create).not.toHaveBeenCalled();
+  });
+
+  it('catches up missed slots with a single run, or records them as skipped', async () => {
+    // Three Mondays missed while no scheduler was running
+    const now = new Date('2025-04-09T10:00:00Z');
+    prisma.scheduledJob.findMany.mockResolvedValue([schedule()]);
+
+    await service.tick(now);
+    expect(forecastJobs.enqueue).toHaveBeenCalledTimes(1);
+    expect(prisma.scheduledJobRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ trigger: 'catch-up', status: 'queued', scheduledFor: new Date('2025-04-07T02:00:00Z') }),
+    });
+
+    forecastJobs.enqueue.mockClear();
+    prisma.scheduledJob.findMany.mockResolvedValue([schedule({ catchUp: 'SKIP' })]);
+    await service.tick(now);
+    expect(forecastJobs.enqueue).not.toHaveBeenCalled();
+    expect(prisma.scheduledJobRun.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ status: 'skipped', message: 'Skipped 3 run(s) missed while no scheduler was running' }),
+    });
+  });
+
+  it('skips runs once the monthly budget or the AI controls say no', async () => {
+    prisma.scheduledJobRun.groupBy.mockResolvedValue([{ scheduleId: 'sch1', _sum: { tokensUsed: 40_000_000 } }]);
+    prisma.scheduledJob.findMany.mockResolvedValue([schedule({ monthlyBudgetUsd: 20 })]);
+
+    await service.tick(new Date('2025-03-24T02:00:20Z'));
+    expect(forecastJobs.enqueue).not.toHaveBeenCalled();
+    expect(prisma.scheduledJobRun.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ status: 'skipped', message: 'Monthly budget of $20.00 reached ($20.00 spent)' }),
+    });
+
+    aiControl.canRunAnalysis.mockResolvedValue({ allowed: false, reason: 'Continuous intelligence is disabled' });
+    prisma.scheduledJob.findMany.mockResolvedValue([
+      schedule({ kind: 'store-analysis', params: JSON.stringify({ region: 'Germany' }) }),
+    ]);
+    await service.tick(new Date('2025-03-24T02:00:20Z'));
+    expect(aiControl.canRunAnalysis).toHaveBeenCalledWith('continuous');
+    expect(storeAnalysisJobs.enqueue).not.toHaveBeenCalled();
+    expect(prisma.scheduledJobRun.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ status: 'skipped', message: 'Continuous intelligence is disabled' }),
+    });
+  });
+
+  it('rescores franchisees in place and carries on past failures', async () => {
+    prisma.scheduledJob.findUnique.mockResolvedValue(schedule({ kind: 'franchisee-scores', params: '{}' }));
+    prisma.franchisee.findMany.mockResolvedValue([{ id: 'f1' }, { id: 'f2' }, { id: 'f3' }]);
+    analytics.recalculateScores.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error('boom')).mockResolvedValueOnce({});
+
+    const run = await service.runNow('sch1', 'admin@example.com');
+
+    expect(franchisees.recalculateMetrics).toHaveBeenCalledTimes(3);
+    expect(run).toMatchObject({ trigger: 'manual', status: 'completed', message: 'Rescored 2 of 3 franchisees; 1 failed' });
+    expect(prisma.auditEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ entity: 'ScheduledJob', entityId: 'sch1', action: 'RUN' }),
+    });
+  });
+
+  it('validates definitions before saving', async () => {
+    const now = new Date('2025-03-20T00:00:00Z');
+    const base = { name: 'Nightly', kind: 'forecast' as const, cron: '0 2 * * *' };
+
+    await expect(service.create({ ...base, cron: '0 25 * * *' }, 'a', now)).rejects.toThrow('Invalid cron expression');
+    await expect(service.create({ ...base, timezone: 'Mars/Olympus' }, 'a', now)).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.create({ ...base, params: { categories: ['qsr'] } }, 'a', now))
+      .rejects.toThrow('categories cannot be set on forecast schedules');
+    await expect(service.create({ ...base, kind: 'store-analysis' }, 'a', now))
+      .rejects.toThrow('Store analysis schedules need a region or storeIds');
+    await expect(service.create({ ...base, kind: 'franchisee-scores', monthlyBudgetUsd: 5 }, 'a', now))
+      .rejects.toThrow('cannot have a budget');
+    expect(prisma.scheduledJob.create).not.toHaveBeenCalled();
+  });
+});
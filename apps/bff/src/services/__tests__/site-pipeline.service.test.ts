@@ -0,0 +1,144 @@
+import { PrismaClient } from '@prisma/client';
+import { SitePipelineService } from '../pipeline/site-pipeline.service';
+
+interface SiteRow {
+  id: string;
+  storeId: string;
+  stage: string;
+  owner: string | null;
+  dueDate: Date | null;
+  checklist: string;
+  abandonedReason?: string | null;
+}
+
+describe('SitePipelineService', () => {
+  let prisma: ReturnType<typeof mockPrisma>;
+  let service: SitePipelineService;
+  let site: SiteRow;
+
+  const suggestion = {
+    id: 'sug-1',
+    lat: 48.137,
+    lng: 11.575,
+    status: 'NEW',
+    scenario: { id: 'scn-1', regionFilter: JSON.stringify({ country: 'Austria' }) },
+    pipelineSite: null,
+  };
+
+  beforeEach(() => {
+    site = {
+      id: 'site-1',
+      storeId: 'store-1',
+      stage: 'IDENTIFIED',
+      owner: 'alex@example.com',
+      dueDate: null,
+      checklist: '{}',
+    };
+    prisma = mockPrisma();
+    service = new SitePipelineService(prisma as unknown as PrismaClient);
+  });
+
+  const mockPrisma = () => {
+    const client = {
+      pipelineSite: {
+        findUnique: jest.fn(() => Promise.resolve({ ...site })),
+        create: jest.fn(({ data }) => Promise.resolve({ ...site, ...data, id: 'site-1' })),
+        update: jest.fn(({ data }: { data: Partial<SiteRow> }) => {
+          site = { ...site, ...data };
+          return Promise.resolve(site);
+        }),
+      },
+      pipelineStageChange: { create: jest.fn().mockResolvedValue({}) },
+      store: {
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'store-1', ...data })),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      expansionSuggestion: {
+        findUnique: jest.fn().mockResolvedValue(suggestion),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      auditEntry: { create: jest.fn().mockResolvedValue({}) },
+      telemetryEvent: { create: jest.fn().mockResolvedValue({}) },
+      $transaction: jest.fn((fn: (tx: unknown) => Promise<unknown>) => fn(client)),
+    };
+    return client;
+  };
+
+  it('creates a planned store in the scenario country and links it to the suggestion', async () => {
+    await service.addFromSuggestion({ suggestionId: 'sug-1', city: 'Salzburg', owner: 'alex@example.com' }, 'alex@example.com');
+
+    expect(prisma.store.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Salzburg - Planned',
+        country: 'Austria',
+        region: 'EMEA',
+        status: 'Planned',
+        isAISuggested: true,
+      }),
+    });
+    expect(prisma.pipelineSite.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ suggestionId: 'sug-1', scenarioId: 'scn-1', storeId: 'store-1' }),
+    });
+    expect(prisma.expansionSuggestion.update).toHaveBeenCalledWith({ where: { id: 'sug-1' }, data: { status: 'APPROVED' } });
+  });
+
+  it('refuses a suggestion that is already in the pipeline', async () => {
+    prisma.expansionSuggestion.findUnique.mockResolvedValue({ ...suggestion, pipelineSite: { id: 'site-0' } });
+
+    await expect(service.addFromSuggestion({ suggestionId: 'sug-1' }, 'system')).rejects.toThrow('already in the pipeline');
+    expect(prisma.store.create).not.toHaveBeenCalled();
+  });
+
+  it('blocks moving forward until the current checklist is complete', async () => {
+    await expect(service.moveToStage('site-1', { stage: 'SHORTLISTED' }, 'system')).rejects.toThrow(
+      'Complete the Identified checklist first',
+    );
+
+    await service.setChecklistItem('site-1', 'desk_review', true, 'alex@example.com');
+    await service.moveToStage('site-1', { stage: 'SHORTLISTED', dueDate: new Date('2026-01-31') }, 'alex@example.com');
+
+    expect(site.stage).toBe('SHORTLISTED');
+    expect(prisma.pipelineStageChange.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromStage: 'IDENTIFIED', toStage: 'SHORTLISTED', changedBy: 'alex@example.com' }),
+    });
+  });
+
+  it('does not skip stages', async () => {
+    site.checklist = JSON.stringify({ desk_review: { completedBy: 'a', completedAt: '2025-01-01' } });
+
+    await expect(service.moveToStage('site-1', { stage: 'LOI' }, 'system')).rejects.toThrow('one stage at a time');
+  });
+
+  it('rejects checklist items from another stage', async () => {
+    await expect(service.setChecklistItem('site-1', 'loi_signed', true, 'system')).rejects.toThrow(
+      'not on the Identified checklist',
+    );
+  });
+
+  it('requires a reason to abandon and marks the store abandoned', async () => {
+    site.stage = 'SITE_VISIT';
+    await expect(service.moveToStage('site-1', { stage: 'ABANDONED' }, 'system')).rejects.toThrow('reason is required');
+
+    await service.moveToStage('site-1', { stage: 'ABANDONED', reason: 'Landlord withdrew' }, 'system');
+
+    expect(site.abandonedReason).toBe('Landlord withdrew');
+    expect(prisma.store.update).toHaveBeenCalledWith({ where: { id: 'store-1' }, data: { status: 'Abandoned' } });
+    await expect(service.moveToStage('site-1', { stage: 'SITE_VISIT' }, 'system')).rejects.toThrow('can no longer move');
+  });
+
+  it('opens the store when build-out completes', async () => {
+    site.stage = 'BUILD_OUT';
+    site.checklist = JSON.stringify({
+      fit_out_complete: { completedBy: 'a', completedAt: '2025-01-01' },
+      hygiene_inspection: { completedBy: 'a', completedAt: '2025-01-01' },
+      staff_trained: { completedBy: 'a', completedAt: '2025-01-01' },
+    });
+
+    await service.moveToStage('site-1', { stage: 'OPENED' }, 'system');
+
+    expect(prisma.store.update).toHaveBeenCalledWith({
+      where: { id: 'store-1' },
+      data: { status: 'Open', openedAt: expect.any(Date) },
+    });
+  });
+});
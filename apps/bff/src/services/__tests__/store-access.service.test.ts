@@ -0,0 +1,95 @@
+import { ForbiddenException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { StoreAccessService } from '../store-access.service';
+import { AuthenticatedUser, hasPermission, normalizeRole } from '../../types/auth.types';
+
+describe('StoreAccessService', () => {
+  const prisma = {
+    store: { findMany: jest.fn() },
+    storeStaff: { findMany: jest.fn() },
+  };
+  let service: StoreAccessService;
+
+  const user = (overrides: Partial<AuthenticatedUser>): AuthenticatedUser => ({
+    id: 'user-1',
+    role: 'STAFF',
+    source: 'internal-admin',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    service = new StoreAccessService(prisma as unknown as PrismaClient);
+  });
+
+  it('gives admins, analysts and the system principal unrestricted access', async () => {
+    expect(await service.getAccessibleStoreIds(user({ role: 'ADMIN' }))).toBeNull();
+    expect(await service.getAccessibleStoreIds(user({ role: 'ANALYST' }))).toBeNull();
+    expect(await service.getAccessibleStoreIds(user({ role: 'SYSTEM' }))).toBeNull();
+    expect(prisma.store.findMany).not.toHaveBeenCalled();
+  });
+
+  it('limits regional managers to stores in their region', async () => {
+    prisma.store.findMany.mockResolvedValue([{ id: 'store-1' }, { id: 'store-2' }]);
+
+    const ids = await service.getAccessibleStoreIds(user({ role: 'REGIONAL_MANAGER', region: 'EMEA' }));
+
+    expect(ids).toEqual(['store-1', 'store-2']);
+    expect(prisma.store.findMany).toHaveBeenCalledWith({
+      where: { region: { equals: 'EMEA', mode: 'insensitive' } },
+      select: { id: true },
+    });
+  });
+
+  it('gives regional managers without a region no stores', async () => {
+    expect(await service.getAccessibleStoreIds(user({ role: 'REGIONAL_MANAGER' }))).toEqual([]);
+  });
+
+  it('limits store managers to their staff assignments', async () => {
+    prisma.storeStaff.findMany.mockResolvedValue([{ storeId: 'store-3' }]);
+
+    const manager = user({ role: 'STORE_MANAGER' });
+
+    expect(await service.canAccessStore(manager, 'store-3')).toBe(true);
+    await expect(service.assertStoreAccess(manager, 'store-4')).rejects.toThrow(ForbiddenException);
+  });
+
+  it('adds a storeId filter to where clauses for scoped users', async () => {
+    prisma.storeStaff.findMany.mockResolvedValue([{ storeId: 'store-3' }]);
+
+    const where = await service.restrictByStoreId(user({ role: 'STAFF' }), { status: 'PENDING', AND: { total: { gt: 0 } } });
+
+    expect(where).toEqual({
+      status: 'PENDING',
+      AND: [{ total: { gt: 0 } }, { storeId: { in: ['store-3'] } }],
+    });
+  });
+
+  it('denies everything when no user is attached', async () => {
+    expect(await service.getAccessibleStoreIds(undefined)).toEqual([]);
+  });
+});
+
+describe('role permissions', () => {
+  it('maps the legacy MANAGER role to STORE_MANAGER', () => {
+    expect(normalizeRole('MANAGER')).toBe('STORE_MANAGER');
+    expect(normalizeRole('regional_manager')).toBe('REGIONAL_MANAGER');
+    expect(normalizeRole('unknown')).toBe('STAFF');
+  });
+
+  it('keeps analysts read-only', () => {
+    const analyst: AuthenticatedUser = { id: 'a', role: 'ANALYST', source: 'internal-admin' };
+
+    expect(hasPermission(analyst, 'analytics:read')).toBe(true);
+    expect(hasPermission(analyst, 'stores:write')).toBe(false);
+    expect(hasPermission(analyst, 'ai:run')).toBe(false);
+  });
+
+  it('keeps store managers away from store and menu structure', () => {
+    const manager: AuthenticatedUser = { id: 'm', role: 'STORE_MANAGER', source: 'internal-admin' };
+
+    expect(hasPermission(manager, 'pricing:write')).toBe(true);
+    expect(hasPermission(manager, 'menu:write')).toBe(false);
+    expect(hasPermission(manager, 'stores:write')).toBe(false);
+  });
+});
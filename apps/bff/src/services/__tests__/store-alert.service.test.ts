@@ -0,0 +1,232 @@
+import { PrismaClient, StoreAlert } from '@prisma/client';
+import { BadRequestException } from '@nestjs/common';
+import { StoreAlertService } from '../alerts/store-alert.service';
+import { cancellationSpike, missingFeed, revenueDrop } from '../alerts/anomaly-rules';
+import { StoreHoursService } from '../hours/store-hours.service';
+import { StoreCalendar } from '../hours/store-calendar';
+
+describe('anomaly rules', () => {
+  it('flags revenue below the forecast band, critical when well below it', () => {
+    const window = { days: 7, expected: 10000, expectedLow: 8000, expectedHigh: 12000 };
+
+    expect(revenueDrop({ ...window, actual: 8500 })).toBeNull();
+    expect(revenueDrop({ ...window, actual: 7000 })).toMatchObject({ type: 'REVENUE_DROP', severity: 'warning' });
+    expect(revenueDrop({ ...window, actual: 5000 })).toMatchObject({
+      severity: 'critical',
+      metrics: { actualRevenue: 5000, forecastLow: 8000, shortfallBelowLow: 0.375 },
+    });
+  });
+
+  it('needs both the ratio and the lift over the baseline cancellation rate', () => {
+    const base = { hours: 24, orders: 100, baselineOrders: 2000 };
+
+    // 2% usual: 9% is four times the rate but under ten points above it
+    expect(cancellationSpike({ ...base, cancelled: 9, baselineCancelled: 40 })).toBeNull();
+    expect(cancellationSpike({ ...base, cancelled: 15, baselineCancelled: 40 })).toMatchObject({ severity: 'warning' });
+    expect(cancellationSpike({ ...base, cancelled: 30, baselineCancelled: 40 })).toMatchObject({ severity: 'critical' });
+    // Too few orders to judge
+    expect(cancellationSpike({ ...base, orders: 10, cancelled: 8, baselineCancelled: 40 })).toBeNull();
+  });
+
+  it('judges a silent feed by the orders the store would usually have taken', () => {
+    const lastOrderAt = new Date('2025-03-10T16:50:00Z');
+    // 0.2 orders per trading minute
+    const silence = { lastOrderAt, baselineOrders: 1440, baselineOpenMinutes: 7200 };
+
+    expect(missingFeed({ ...silence, silentOpenMinutes: 20 })).toBeNull();
+    expect(missingFeed({ ...silence, silentOpenMinutes: 70 })).toMatchObject({ severity: 'warning', metrics: { expectedOrders: 14 } });
+    expect(missingFeed({ ...silence, silentOpenMinutes: 75 })).toMatchObject({ severity: 'critical' });
+    expect(missingFeed({ ...silence, baselineOrders: 10, silentOpenMinutes: 10000 })).toBeNull();
+  });
+});
+
+describe('StoreAlertService', () => {
+  const now = new Date('2025-03-11T10:00:00Z');
+
+  let prisma: {
+    store: { findMany: jest.Mock };
+    order: { groupBy: jest.Mock; count: jest.Mock };
+    revenueForecast: { findMany: jest.Mock };
+    storeAlert: { findMany: jest.Mock; findUnique: jest.Mock; create: jest.Mock; update: jest.Mock; groupBy: jest.Mock };
+    auditEntry: { create: jest.Mock };
+    telemetryEvent: { create: jest.Mock };
+  };
+  let calendars: Map<string, StoreCalendar>;
+  let service: StoreAlertService;
+
+  // Orders per store for the groupBy queries the scan makes
+  let lastOrderAt: Record<string, Date>;
+  let recentCounts: Array<{ storeId: string; status: string; count: number }>;
+  let baselineCounts: Array<{ storeId: string; status: string; count: number }>;
+  let revenue: Record<string, number>;
+
+  const alert = (overrides: Partial<StoreAlert> = {}): StoreAlert => ({
+    id: 'al1',
+    storeId: 's1',
+    type: 'CANCELLATION_RATE',
+    severity: 'warning',
+    status: 'OPEN',
+    title: 'Abnormal cancellation rate',
+    message: '',
+    metrics: '{}',
+    occurrences: 1,
+    firstDetectedAt: new Date('2025-03-10T10:00:00Z'),
+    lastDetectedAt: new Date('2025-03-10T10:00:00Z'),
+    acknowledgedBy: null,
+    acknowledgedAt: null,
+    resolvedBy: null,
+    resolvedAt: null,
+    resolution: null,
+    createdAt: new Date('2025-03-10T10:00:00Z'),
+    updatedAt: new Date('2025-03-10T10:00:00Z'),
+    ...overrides,
+  });
+
+  const counted = (rows: Array<{ storeId: string; status: string; count: number }>) =>
+    rows.map(({ storeId, status, count }) => ({ storeId, status, _count: { _all: count } }));
+
+  beforeEach(() => {
+    lastOrderAt = { s1: new Date('2025-03-11T09:58:00Z') };
+    recentCounts = [{ storeId: 's1', status: 'COMPLETED', count: 100 }];
+    baselineCounts = [
+      { storeId: 's1', status: 'COMPLETED', count: 1960 },
+      { storeId: 's1', status: 'CANCELLED', count: 40 },
+    ];
+    revenue = { s1: 9000 };
+
+    prisma = {
+      store: { findMany: jest.fn().mockResolvedValue([{ id: 's1' }]) },
+      order: {
+        groupBy: jest.fn().mockImplementation((args) => {
+          if (args._max) {
+            return Promise.resolve(Object.entries(lastOrderAt).map(([storeId, createdAt]) => ({ storeId, _max: { createdAt } })));
+          }
+          if (args._sum) {
+            return Promise.resolve(Object.entries(revenue).map(([storeId, total]) => ({ storeId, _sum: { total } })));
+          }
+          const recent = args.where.createdAt.lt.getTime() === now.getTime();
+          return Promise.resolve(counted(recent ? recentCounts : baselineCounts));
+        }),
+        count: jest.fn().mockResolvedValue(1440),
+      },
+      revenueForecast: {
+        findMany: jest.fn().mockResolvedValue([
+          { storeId: 's1', forecastYear: 2025, forecastMonth: 3, predictedRevenue: 43400, confidenceLow: 37200, confidenceHigh: 49600 },
+        ]),
+      },
+      storeAlert: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn().mockImplementation(({ where, data }) => Promise.resolve({ ...alert({ id: where.id }), ...data, store: { id: 's1', name: 'Soho' } })),
+        groupBy: jest.fn(),
+      },
+      auditEntry: { create: jest.fn() },
+      telemetryEvent: { create: jest.fn() },
+    };
+    calendars = new Map();
+
+    service = new StoreAlertService(
+      prisma as unknown as PrismaClient,
+      { loadCalendars: jest.fn().mockImplementation(() => Promise.resolve(calendars)) } as unknown as StoreHoursService,
+    );
+  });
+
+  it('raises nothing for a store trading in line with its forecast and baseline', async () => {
+    // 7 days of a 31-day month: forecast 9800, band 8400-11200
+    const result = await service.scan({}, now);
+
+    expect(result).toEqual({ storesScanned: 1, raised: 0, updated: 0, resolved: 0 });
+    expect(prisma.revenueForecast.findMany.mock.calls[0][0].where.OR).toEqual([{ forecastYear: 2025, forecastMonth: 3 }]);
+    expect(prisma.storeAlert.create).not.toHaveBeenCalled();
+  });
+
+  it('raises revenue and cancellation alerts with the figures behind them', async () => {
+    revenue = { s1: 6000 };
+    recentCounts = [
+      { storeId: 's1', status: 'COMPLETED', count: 70 },
+      { storeId: 's1', status: 'CANCELLED', count: 30 },
+    ];
+
+    const result = await service.scan({}, now);
+
+    expect(result.raised).toBe(2);
+    const created = prisma.storeAlert.create.mock.calls.map(([{ data }]) => data);
+    expect(created).toEqual(expect.arrayContaining([
+      expect.objectContaining({ storeId: 's1', type: 'REVENUE_DROP', severity: 'critical' }),
+      expect.objectContaining({ storeId: 's1', type: 'CANCELLATION_RATE', severity: 'critical' }),
+    ]));
+    const revenueAlert = created.find((data) => data.type === 'REVENUE_DROP');
+    expect(JSON.parse(revenueAlert.metrics)).toMatchObject({ actualRevenue: 6000, forecastRevenue: 9800, forecastLow: 8400 });
+  });
+
+  it('counts only trading hours for a missing feed and leaves revenue unjudged while it is missing', async () => {
+    // Open 09:00-17:00 UTC daily; silent from 16:50 yesterday, so 70 trading minutes
+    const day = [{ opensAt: '09:00', closesAt: '17:00' }];
+    calendars.set('s1', new StoreCalendar({
+      timezone: 'UTC',
+      holidayPolicy: 'REGULAR',
+      weekly: { 1: day, 2: day, 3: day, 4: day, 5: day, 6: day, 7: day },
+    }));
+    lastOrderAt = { s1: new Date('2025-03-10T16:50:00Z') };
+    revenue = { s1: 0 };
+
+    await service.scan({}, now);
+
+    expect(prisma.storeAlert.create).toHaveBeenCalledTimes(1);
+    const [{ data }] = prisma.storeAlert.create.mock.calls[0];
+    expect(data).toMatchObject({ type: 'MISSING_FEED', severity: 'warning' });
+    // 1440 orders over 15 days of 8 trading hours is 0.2 a minute
+    expect(JSON.parse(data.metrics)).toMatchObject({ silentTradingHours: 1.2, expectedOrders: 14 });
+    expect(prisma.revenueForecast.findMany).not.toHaveBeenCalled();
+  });
+
+  it('refreshes an alert that persists and resolves one whose condition cleared', async () => {
+    revenue = { s1: 7900 };
+    prisma.storeAlert.findMany.mockResolvedValue([
+      alert({ id: 'rev', type: 'REVENUE_DROP', occurrences: 3 }),
+      alert({ id: 'cx', type: 'CANCELLATION_RATE', status: 'ACKNOWLEDGED' }),
+    ]);
+
+    const result = await service.scan({}, now);
+
+    expect(result).toMatchObject({ raised: 0, updated: 1, resolved: 1 });
+    expect(prisma.storeAlert.update).toHaveBeenCalledWith({
+      where: { id: 'rev' },
+      data: expect.objectContaining({ severity: 'warning', lastDetectedAt: now, occurrences: { increment: 1 } }),
+    });
+    expect(prisma.storeAlert.update).toHaveBeenCalledWith({
+      where: { id: 'cx' },
+      data: { status: 'RESOLVED', resolvedBy: 'system', resolvedAt: now, resolution: 'Condition cleared' },
+    });
+  });
+
+  it('reopens an acknowledged alert when it becomes more severe', async () => {
+    revenue = { s1: 5000 };
+    prisma.storeAlert.findMany.mockResolvedValue([
+      alert({ id: 'rev', type: 'REVENUE_DROP', status: 'ACKNOWLEDGED', acknowledgedBy: 'ops@example.com' }),
+    ]);
+
+    await service.scan({}, now);
+
+    expect(prisma.storeAlert.update).toHaveBeenCalledWith({
+      where: { id: 'rev' },
+      data: expect.objectContaining({ severity: 'critical', status: 'OPEN', acknowledgedBy: null, acknowledgedAt: null }),
+    });
+  });
+
+  it('acknowledges open alerts only and audits resolutions', async () => {
+    prisma.storeAlert.findUnique.mockResolvedValue({ ...alert(), store: { id: 's1', name: 'Soho' } });
+
+    const acknowledged = await service.acknowledge('al1', 'ops@example.com');
+    expect(acknowledged).toMatchObject({ status: 'ACKNOWLEDGED', acknowledgedBy: 'ops@example.com', metrics: {} });
+
+    prisma.storeAlert.findUnique.mockResolvedValue({ ...alert({ status: 'ACKNOWLEDGED' }), store: { id: 's1', name: 'Soho' } });
+    await expect(service.acknowledge('al1', 'ops@example.com')).rejects.toThrow(BadRequestException);
+
+    const resolved = await service.resolve('al1', 'ops@example.com', ' Till outage fixed ');
+    expect(resolved).toMatchObject({ status: 'RESOLVED', resolvedBy: 'ops@example.com', resolution: 'Till outage fixed' });
+    expect(prisma.auditEntry.create).toHaveBeenCalledTimes(2);
+    expect(prisma.auditEntry.create.mock.calls[1][0].data).toMatchObject({ entity: 'StoreAlert', action: 'RESOLVE', entityId: 'al1' });
+  });
+});
@@ -0,0 +1,186 @@
+import { PrismaClient } from '@prisma/client';
+import { BadRequestException } from '@nestjs/common';
+import { StoreHoursService } from '../hours/store-hours.service';
+import { StoreCalendar, StoreCalendarConfig, validateWeekly } from '../hours/store-calendar';
+import { publicHolidays } from '../hours/public-holidays';
+
+describe('StoreCalendar', () => {
+  // A Berlin store: weekdays 09:00-17:00, late on Fridays, short Sundays
+  const config = (overrides: Partial<StoreCalendarConfig> = {}): StoreCalendarConfig => ({
+    timezone: 'Europe/Berlin',
+    holidayPolicy: 'CLOSED',
+    country: 'Germany',
+    weekly: {
+      1: [{ opensAt: '09:00', closesAt: '17:00' }],
+      5: [{ opensAt: '09:00', closesAt: '12:00' }, { opensAt: '18:00', closesAt: '02:00' }],
+      7: [{ opensAt: '12:00', closesAt: '16:00' }],
+    },
+    ...overrides,
+  });
+
+  it('reads hours in the store\'s timezone across daylight saving', () => {
+    const calendar = new StoreCalendar(config());
+
+    // Monday 6 January 2025, CET (UTC+1)
+    expect(calendar.isOpenAt(new Date('2025-01-06T07:30:00Z'))).toMatchObject({ open: false, localTime: '08:30' });
+    expect(calendar.isOpenAt(new Date('2025-01-06T08:00:00Z'))).toMatchObject({ open: true, localTime: '09:00' });
+    // Monday 7 July 2025, CEST (UTC+2)
+    expect(calendar.isOpenAt(new Date('2025-07-07T07:00:00Z'))).toMatchObject({ open: true, localTime: '09:00' });
+    expect(calendar.isOpenAt(new Date('2025-07-07T15:00:00Z'))).toMatchObject({ open: false, localTime: '17:00' });
+  });
+
+  it('keeps past-midnight hours open into the next morning', () => {
+    const calendar = new StoreCalendar(config());
+
+    // 01:30 on Saturday 11 January belongs to Friday's late interval
+    expect(calendar.isOpenAt(new Date('2025-01-11T00:30:00Z'))).toMatchObject({
+      open: true,
+      localDate: '2025-01-11',
+      intervalDate: '2025-01-10',
+      interval: { opensAt: '18:00', closesAt: '02:00' },
+    });
+    expect(calendar.isOpenAt(new Date('2025-01-11T01:00:00Z')).open).toBe(false);
+    // Between Friday's two intervals
+    expect(calendar.isOpenAt(new Date('2025-01-10T13:00:00Z')).open).toBe(false);
+  });
+
+  it('applies the holiday policy on public holidays', () => {
+    // Easter Monday, 21 April 2025
+    const at = new Date('2025-04-21T10:00:00Z');
+
+    expect(new StoreCalendar(config()).isOpenAt(at)).toMatchObject({ open: false, source: 'holiday', holiday: 'Easter Monday' });
+    expect(new StoreCalendar(config({ holidayPolicy: 'REGULAR' })).isOpenAt(at).open).toBe(true);
+    expect(new StoreCalendar(config({ holidayPolicy: 'SUNDAY' })).day('2025-04-21').intervals)
+      .toEqual([{ opensAt: '12:00', closesAt: '16:00' }]);
+  });
+
+  it('lets exceptions override weekly hours and holidays', () => {
+    const calendar = new StoreCalendar(config({
+      exceptions: [
+        { date: '2025-01-13', closed: true, intervals: [], reason: 'Refit' },
+        { date: '2025-04-21', closed: false, intervals: [{ opensAt: '10:00', closesAt: '14:00' }] },
+      ],
+    }));
+
+    expect(calendar.isOpenAt(new Date('2025-01-13T10:00:00Z'))).toMatchObject({ open: false, source: 'exception', reason: 'Refit' });
+    expect(calendar.isOpenAt(new Date('2025-04-21T10:00:00Z'))).toMatchObject({ open: true, source: 'exception' });
+  });
+
+  it('spreads trading minutes over local hours of the day', () => {
+    const calendar = new StoreCalendar(config());
+    const buckets = calendar.hourlyOpenMinutes('2025-01-10', '2025-01-10');
+
+    expect(buckets.slice(9, 12)).toEqual([60, 60, 60]);
+    expect(buckets[12]).toBe(0);
+    expect(buckets.slice(18, 24)).toEqual([60, 60, 60, 60, 60, 60]);
+    expect(buckets.slice(0, 2)).toEqual([60, 60]);
+    expect(calendar.openMinutes('2025-01-06', '2025-01-12')).toBe(8 * 60 + 3 * 60 + 8 * 60 + 4 * 60);
+  });
+
+  it('flags overlapping intervals, including past-midnight ones', () => {
+    expect(validateWeekly({ 1: [{ opensAt: '09:00', closesAt: '13:00' }, { opensAt: '12:00', closesAt: '18:00' }] }))
+      .toEqual(['monday: 09:00-13:00 overlaps 12:00-18:00']);
+    expect(validateWeekly({
+      5: [{ opensAt: '22:00', closesAt: '03:00' }],
+      6: [{ opensAt: '02:00', closesAt: '10:00' }],
+    })).toEqual(['friday: 22:00-03:00 runs into saturday 02:00']);
+    expect(validateWeekly({ 2: [{ opensAt: '9:00', closesAt: '17:00' }] })).toEqual(['tuesday: times must be HH:MM']);
+  });
+});
+
+describe('publicHolidays', () => {
+  it('computes moveable feasts', () => {
+    const dates = publicHolidays('DE', 2025).map(holiday => holiday.date);
+
+    expect(dates).toEqual(expect.arrayContaining(['2025-04-18', '2025-04-21', '2025-05-29', '2025-06-09', '2025-10-03']));
+  });
+
+  it('adds substitute days for weekend holidays where the country observes them', () => {
+    const christmas = publicHolidays('United Kingdom', 2021).filter(holiday => holiday.date >= '2021-12-25');
+    expect(christmas.map(holiday => holiday.date)).toEqual(['2021-12-25', '2021-12-26', '2021-12-27', '2021-12-28']);
+
+    // Independence Day on a Saturday is observed on the Friday
+    expect(publicHolidays('US', 2020)).toContainEqual({ date: '2020-07-03', name: 'Independence Day (observed)' });
+  });
+
+  it('returns nothing for countries without a calendar', () => {
+    expect(publicHolidays('Kenya', 2025)).toEqual([]);
+  });
+});
+
+describe('StoreHoursService', () => {
+  let prisma: {
+    store: { findUnique: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+    storeOpeningHours: { deleteMany: jest.Mock; createMany: jest.Mock };
+    storeHoursException: { upsert: jest.Mock; findUnique: jest.Mock; delete: jest.Mock };
+    auditEntry: { create: jest.Mock };
+    telemetryEvent: { create: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let service: StoreHoursService;
+
+  beforeEach(() => {
+    prisma = {
+      store: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 's1',
+          country: 'Germany',
+          timezone: null,
+          holidayPolicy: 'CLOSED',
+          OpeningHours: [],
+          HoursExceptions: [],
+        }),
+        findMany: jest.fn(),
+        update: jest.fn(),
+      },
+      storeOpeningHours: { deleteMany: jest.fn(), createMany: jest.fn() },
+      storeHoursException: { upsert: jest.fn(), findUnique: jest.fn(), delete: jest.fn() },
+      auditEntry: { create: jest.fn() },
+      telemetryEvent: { create: jest.fn() },
+      $transaction: jest.fn(),
+    };
+    service = new StoreHoursService(prisma as unknown as PrismaClient);
+  });
+
+  it('defaults the timezone from the store\'s country', async () => {
+    const hours = await service.getHours('s1', new Date('2025-04-01T10:00:00Z'));
+
+    expect(hours).toMatchObject({ timezone: 'Europe/Berlin', timezoneSource: 'country', holidayCalendar: true });
+    expect(hours.weekly.monday).toEqual([]);
+    expect(hours.upcomingHolidays[0]).toMatchObject({ date: '2025-04-18', holiday: 'Good Friday' });
+  });
+
+  it('replaces the weekly hours and audits the change', async () => {
+    await service.setHours('s1', {
+      timezone: 'Europe/Berlin',
+      weekly: { monday: [{ opensAt: '09:00', closesAt: '17:00' }] },
+    }, 'manager@example.com');
+
+    expect(prisma.storeOpeningHours.createMany).toHaveBeenCalledWith({
+      data: [{ storeId: 's1', dayOfWeek: 1, opensAt: '09:00', closesAt: '17:00' }],
+    });
+    expect(prisma.store.update).toHaveBeenCalledWith({
+      where: { id: 's1' },
+      data: { timezone: 'Europe/Berlin', holidayPolicy: 'CLOSED' },
+    });
+    expect(prisma.auditEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ entity: 'Store', entityId: 's1', action: 'UPDATE' }),
+    });
+  });
+
+  it('rejects unknown timezones and overlapping hours', async () => {
+    await expect(service.setHours('s1', { timezone: 'Mars/Olympus', weekly: {} }, 'a'))
+      .rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.setHours('s1', {
+      weekly: { friday: [{ opensAt: '10:00', closesAt: '14:00' }, { opensAt: '13:00', closesAt: '20:00' }] },
+    }, 'a')).rejects.toThrow('friday: 10:00-14:00 overlaps 13:00-20:00');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('requires an exception to close the store or give its hours', async () => {
+    await expect(service.setException('s1', '2025-12-24', { closed: false }, 'a'))
+      .rejects.toThrow('either close the store or give its hours');
+    await expect(service.setException('s1', '2025-02-30', { closed: true }, 'a'))
+      .rejects.toThrow('date must be YYYY-MM-DD');
+  });
+});
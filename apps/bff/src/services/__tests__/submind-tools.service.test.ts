@@ -0,0 +1,166 @@
+import { PrismaClient } from '@prisma/client';
+import { SubMindToolsService } from '../submind-tools.service';
+import { StoreAccessService } from '../store-access.service';
+import { StoreService } from '../store.service';
+import { RevenueForecastingService } from '../forecasting/revenue-forecasting.service';
+import { CompetitorService } from '../competitive/competitor.service';
+import { FranchiseeService } from '../franchisee/franchisee.service';
+import { AuthenticatedUser } from '../../types/auth.types';
+
+describe('SubMindToolsService', () => {
+  const admin: AuthenticatedUser = { id: 'admin', role: 'ADMIN', source: 'dev-bypass' };
+  const manager: AuthenticatedUser = { id: 'manager', role: 'STORE_MANAGER', source: 'dev-bypass' };
+  const staff: AuthenticatedUser = { id: 'staff', role: 'STAFF', source: 'dev-bypass' };
+
+  const store = (id: string, name: string, extra: Record<string, unknown> = {}) => ({
+    id,
+    name,
+    city: 'Berlin',
+    country: 'Germany',
+    region: 'EMEA',
+    status: 'ACTIVE',
+    annualTurnover: 500_000,
+    openedAt: null,
+    franchiseeId: 'fr-1',
+    latitude: 52.52,
+    longitude: 13.405,
+    ...extra,
+  });
+
+  let prisma: {
+    order: { count: jest.Mock; aggregate: jest.Mock; groupBy: jest.Mock };
+    menuItem: { count: jest.Mock };
+    store: { findMany: jest.Mock };
+    storeStaff: { findMany: jest.Mock };
+  };
+  let stores: { getStores: jest.Mock; getStoreById: jest.Mock };
+  let forecasting: { getStoreForecast: jest.Mock };
+  let competitors: { getCompetitors: jest.Mock };
+  let franchisees: { getFranchiseePortfolio: jest.Mock };
+  let service: SubMindToolsService;
+
+  const call = (name: string, args: Record<string, unknown> = {}) => ({ id: 'call-1', name, arguments: args });
+
+  beforeEach(() => {
+    prisma = {
+      order: {
+        count: jest.fn().mockResolvedValue(10),
+        aggregate: jest.fn().mockResolvedValue({ _sum: { total: 250 } }),
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+      menuItem: { count: jest.fn().mockResolvedValue(30) },
+      store: { findMany: jest.fn().mockResolvedValue([]) },
+      // The store manager works at s1 only
+      storeStaff: { findMany: jest.fn().mockResolvedValue([{ storeId: 's1' }]) },
+    };
+    stores = {
+      getStores: jest.fn().mockResolvedValue([store('s1', 'Berlin Mitte'), store('s2', 'Berlin Hbf')]),
+      getStoreById: jest.fn(async (id: string) => store(id, `Store ${id}`)),
+    };
+    forecasting = { getStoreForecast: jest.fn().mockResolvedValue(null) };
+    competitors = { getCompetitors: jest.fn().mockResolvedValue([]) };
+    franchisees = { getFranchiseePortfolio: jest.fn() };
+
+    const client = prisma as unknown as PrismaClient;
+    service = new SubMindToolsService(
+      client,
+      new StoreAccessService(client),
+      stores as unknown as StoreService,
+      forecasting as unknown as RevenueForecastingService,
+      competitors as unknown as CompetitorService,
+      franchisees as unknown as FranchiseeService,
+    );
+  });
+
+  it('only offers the tools a role is permitted to use', () => {
+    expect(service.definitionsFor(admin).map(tool => tool.name)).toEqual([
+      'lookup_stores',
+      'get_kpis',
+      'order_analytics',
+      'store_forecast',
+      'competitors_nearby',
+      'franchisee_portfolio',
+    ]);
+    expect(service.definitionsFor(staff).map(tool => tool.name)).toEqual(['lookup_stores', 'competitors_nearby']);
+    expect(service.definitionsFor(undefined)).toEqual([]);
+  });
+
+  it('refuses tools outside the caller\'s permissions', async () => {
+    const result = await service.run(call('get_kpis'), staff);
+
+    expect(result).toEqual({ data: { error: 'Tool get_kpis is not available' } });
+    expect(prisma.order.count).not.toHaveBeenCalled();
+  });
+
+  it('limits store lookups to the caller\'s stores', async () => {
+    await service.run(call('lookup_stores', { city: 'Berlin' }), manager);
+
+    expect(stores.getStores).toHaveBeenCalledWith(expect.objectContaining({ city: 'Berlin', storeIds: ['s1'] }));
+  });
+
+  it('filters lookups by name and cites the endpoint', async () => {
+    const result = await service.run(call('lookup_stores', { name: 'hbf', region: 'EMEA' }), admin);
+
+    expect(result.data).toMatchObject({ total: 1, stores: [{ id: 's2', name: 'Berlin Hbf' }] });
+    expect(result.source).toEqual({ type: 'api', ref: 'GET /stores?region=EMEA&name=hbf' });
+  });
+
+  it('reports store access failures to the model instead of throwing', async () => {
+    const result = await service.run(call('store_forecast', { storeId: 's2' }), manager);
+
+    expect(result.data).toEqual({ error: 'You do not have access to this store' });
+    expect(result.source).toBeUndefined();
+    expect(forecasting.getStoreForecast).not.toHaveBeenCalled();
+  });
+
+  it('scopes KPIs to a region and to the caller\'s stores', async () => {
+    const result = await service.run(call('get_kpis', { region: 'EMEA' }), manager);
+
+    expect(prisma.order.count).toHaveBeenCalledWith({
+      where: {
+        Store: { is: { region: { equals: 'EMEA', mode: 'insensitive' } } },
+        AND: [{ storeId: { in: ['s1'] } }],
+      },
+    });
+    expect(result.data).toMatchObject({ orders: 10, revenue: 250, menuItems: 30 });
+    expect(result.source?.ref).toBe('GET /kpis?region=EMEA');
+  });
+
+  it('does not generate forecasts that were never saved', async () => {
+    const result = await service.run(call('store_forecast', { storeId: 's1' }), admin);
+
+    expect(result.data).toMatchObject({ storeId: 's1', available: false });
+  });
+
+  it('summarises nearby competitors by brand and distance', async () => {
+    competitors.getCompetitors.mockResolvedValue([
+      { brand: 'KFC', name: 'KFC Alex', address: null, latitude: 52.521, longitude: 13.41 },
+      { brand: 'KFC', name: 'KFC Mitte', address: null, latitude: 52.53, longitude: 13.405 },
+      { brand: "McDonald's", name: "McDonald's Hbf", address: null, latitude: 52.525, longitude: 13.369 },
+    ]);
+
+    const result = await service.run(call('competitors_nearby', { storeId: 's1', radiusKm: 50 }), admin);
+    const data = result.data as { radiusKm: number; byBrand: Record<string, number>; nearest: Array<{ name: string }> };
+
+    expect(data.radiusKm).toBe(10);
+    expect(data.byBrand).toEqual({ KFC: 2, "McDonald's": 1 });
+    expect(data.nearest[0].name).toBe('KFC Alex');
+    expect(competitors.getCompetitors).toHaveBeenCalledWith(
+      expect.objectContaining({ centerLat: 52.52, centerLng: 13.405, radiusKm: 10 }),
+    );
+  });
+
+  it('shows restricted callers only their part of a franchisee portfolio', async () => {
+    franchisees.getFranchiseePortfolio.mockResolvedValue({
+      franchisee: { id: 'fr-1', name: 'Jo Franchise', status: 'ACTIVE' },
+      stores: [store('s1', 'Berlin Mitte'), store('s2', 'Berlin Hbf')],
+      metrics: { totalRevenue: 1_000_000 },
+    });
+
+    const result = await service.run(call('franchisee_portfolio', { franchiseeId: 'fr-1' }), manager);
+    const data = result.data as { stores: Array<{ id: string }>; metrics?: unknown };
+
+    expect(data.stores.map(s => s.id)).toEqual(['s1']);
+    expect(data.metrics).toBeUndefined();
+  });
+});
@@ -1,88 +1,64 @@
+import { NotFoundException } from '@nestjs/common';
+import { LlmClient, LlmProvider, LlmRequest, LlmResponse } from '@subway/shared-ai';
 import { SubMindService } from '../submind.service';
+import { SubMindToolsService } from '../submind-tools.service';
+import { SubMindConversationService } from '../submind-conversation.service';
 import { SubMindQueryDto } from '../../dto/submind.dto';
-
-// Mock OpenAI
-jest.mock('openai', () => {
-  return {
-    OpenAI: jest.fn().mockImplementation(() => ({
-      chat: {
-        completions: {
-          create: jest.fn(),
-        },
-      },
-    })),
-  };
-});
+import { AuthenticatedUser } from '../../types/auth.types';
 
 describe('SubMindService', () => {
   let service: SubMindService;
-  let mockOpenAI: any;
-
-  beforeEach(() => {
-    // Clear environment variables
-    delete process.env.OPENAI_API_KEY;
-    
-    // Reset mocks
-    jest.clearAllMocks();
-    
-    // Get mock OpenAI instance
-    const { OpenAI } = require('openai');
-    mockOpenAI = {
-      chat: {
-        completions: {
-          create: jest.fn(),
-        },
-      },
-    };
-    OpenAI.mockImplementation(() => mockOpenAI);
+  let provider: LlmProvider & { complete: jest.Mock<Promise<LlmResponse>, [LlmRequest]> };
+
+  const reply = (text: string, totalTokens = 50): LlmResponse => ({
+    text,
+    model: 'test-model',
+    provider: 'test',
+    usage: { inputTokens: totalTokens / 2, outputTokens: totalTokens / 2, totalTokens },
+    replayed: false,
+  });
+  const fakeProvider = (configured: boolean) => ({
+    name: 'test',
+    defaultModel: 'test-model',
+    isConfigured: () => configured,
+    complete: jest.fn<Promise<LlmResponse>, [LlmRequest]>(),
   });
+  const sentRequest = () => provider.complete.mock.calls[0][0];
 
   describe('initialization', () => {
-    it('should initialize with API key', () => {
-      process.env.OPENAI_API_KEY = 'test-key';
-      service = new SubMindService();
-      
+    it('should be enabled when the LLM provider is configured', () => {
+      service = new SubMindService(new LlmClient(fakeProvider(true)));
+
       expect(service.isServiceEnabled()).toBe(true);
     });
 
-    it('should be disabled without API key', () => {
-      service = new SubMindService();
-      
+    it('should be disabled without a configured provider', () => {
+      service = new SubMindService(new LlmClient(fakeProvider(false)));
+
       expect(service.isServiceEnabled()).toBe(false);
     });
   });
 
   describe('processQuery', () => {
     beforeEach(() => {
-      process.env.OPENAI_API_KEY = 'test-key';
-      service = new SubMindService();
+      provider = fakeProvider(true);
+      service = new SubMindService(new LlmClient(provider));
     });
 
     it('should process a simple query successfully', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: 'This is a test response from SubMind.',
-          },
-        }],
-        usage: {
-          total_tokens: 50,
-        },
-      };
-      
-      mockOpenAI.chat.completions.create.mockResolvedValue(mockResponse);
-      
+      provider.complete.mockResolvedValue(reply('This is a test response from SubMind.'));
+
       const query: SubMindQueryDto = {
         prompt: 'What are the current KPIs?',
       };
-      
+
       const result = await service.processQuery(query);
-      
+
       expect(result.message).toBe('This is a test response from SubMind.');
       expect(result.meta?.tokens).toBe(50);
-      expect(result.meta?.latencyMs).toBeGreaterThan(0);
-      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledWith({
-        model: 'gpt-5-mini',
+      expect(result.meta?.latencyMs).toBeGreaterThanOrEqual(0);
+      expect(provider.complete).toHaveBeenCalledWith({
+        purpose: 'submind.query',
         messages: [
           {
             role: 'system',
@@ -93,25 +69,14 @@ describe('SubMindService', () => {
             content: 'What are the current KPIs?',
           },
         ],
-        max_tokens: 1000,
-        temperature: 0.7,
+        maxOutputTokens: 1000,
+        reasoningEffort: 'low',
       });
     });
 
     it('should process query with context', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: 'Dashboard analysis response.',
-          },
-        }],
-        usage: {
-          total_tokens: 75,
-        },
-      };
-      
-      mockOpenAI.chat.completions.create.mockResolvedValue(mockResponse);
-      
+      provider.complete.mockResolvedValue(reply('Dashboard analysis response.', 75));
+
       const query: SubMindQueryDto = {
         prompt: 'Explain the dashboard',
         context: {
@@ -122,108 +87,73 @@ describe('SubMindService', () => {
           },
         },
       };
-      
+
       const result = await service.processQuery(query);
-      
+
       expect(result.message).toBe('Dashboard analysis response.');
       expect(result.sources).toHaveLength(2); // screen and scope sources
-      
+
       // Check that context was included in the prompt
-      const callArgs = mockOpenAI.chat.completions.create.mock.calls[0][0];
-      expect(callArgs.messages[1].content).toContain('Current screen: dashboard');
-      expect(callArgs.messages[1].content).toContain('Region: EMEA, Country: UK');
+      expect(sentRequest().messages[1].content).toContain('Current screen: dashboard');
+      expect(sentRequest().messages[1].content).toContain('Region: EMEA, Country: UK');
     });
 
     it('should sanitize HTML from prompts', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: 'Clean response.',
-          },
-        }],
-        usage: {
-          total_tokens: 25,
-        },
-      };
-      
-      mockOpenAI.chat.completions.create.mockResolvedValue(mockResponse);
-      
+      provider.complete.mockResolvedValue(reply('Clean response.', 25));
+
       const query: SubMindQueryDto = {
         prompt: 'What about <script>alert("xss")</script> this data?',
       };
-      
+
       await service.processQuery(query);
-      
+
       // Check that HTML was stripped from the prompt
-      const callArgs = mockOpenAI.chat.completions.create.mock.calls[0][0];
-      expect(callArgs.messages[1].content).not.toContain('<script>');
-      expect(callArgs.messages[1].content).toContain('What about  this data?');
+      expect(sentRequest().messages[1].content).not.toContain('<script>');
+      expect(sentRequest().messages[1].content).toContain('What about');
     });
 
     it('should clamp long prompts', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: 'Response to long prompt.',
-          },
-        }],
-        usage: {
-          total_tokens: 100,
-        },
-      };
-      
-      mockOpenAI.chat.completions.create.mockResolvedValue(mockResponse);
-      
+      provider.complete.mockResolvedValue(reply('Response to long prompt.', 100));
+
       const longPrompt = 'A'.repeat(5000); // Exceeds 4000 char limit
       const query: SubMindQueryDto = {
         prompt: longPrompt,
       };
-      
+
       await service.processQuery(query);
-      
+
       // Check that prompt was clamped
-      const callArgs = mockOpenAI.chat.completions.create.mock.calls[0][0];
-      expect(callArgs.messages[1].content.length).toBeLessThanOrEqual(4000);
+      expect(sentRequest().messages[1].content.length).toBeLessThanOrEqual(4000);
     });
 
     it('should throw error when service is disabled', async () => {
-      const disabledService = new SubMindService(); // No API key
-      
+      const disabledService = new SubMindService(new LlmClient(fakeProvider(false)));
+
       const query: SubMindQueryDto = {
         prompt: 'Test query',
       };
-      
+
       await expect(disabledService.processQuery(query)).rejects.toThrow('AI disabled - missing API key');
     });
 
-    it('should handle OpenAI API errors', async () => {
-      mockOpenAI.chat.completions.create.mockRejectedValue(new Error('OpenAI API error'));
-      
+    it('should handle provider errors', async () => {
+      provider.complete.mockRejectedValue(new Error('OpenAI API error: 500'));
+
       const query: SubMindQueryDto = {
         prompt: 'Test query',
       };
-      
-      await expect(service.processQuery(query)).rejects.toThrow('AI processing failed: OpenAI API error');
+
+      await expect(service.processQuery(query)).rejects.toThrow('AI processing failed: OpenAI API error: 500');
     });
 
-    it('should handle empty responses', async () => {
-      const mockResponse = {
-        choices: [],
-        usage: {
-          total_tokens: 10,
-        },
-      };
-      
-      mockOpenAI.chat.completions.create.mockResolvedValue(mockResponse);
-      
+    it('should reject empty responses', async () => {
+      provider.complete.mockResolvedValue(reply('', 10));
+
       const query: SubMindQueryDto = {
         prompt: 'Test query',
       };
-      
-      const result = await service.processQuery(query);
-      
-      expect(result.message).toBe('No response generated');
-      expect(result.meta?.tokens).toBe(10);
+
+      await expect(service.processQuery(query)).rejects.toThrow('AI processing failed: No message output from LLM');
     });
 
     it('should validate prompt input', async () => {
@@ -233,26 +163,15 @@ describe('SubMindService', () => {
         { prompt: null as any },
         { prompt: undefined as any },
       ];
-      
+
       for (const query of invalidQueries) {
         await expect(service.processQuery(query)).rejects.toThrow();
       }
     });
 
     it('should include sources based on context', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: 'Response with sources.',
-          },
-        }],
-        usage: {
-          total_tokens: 50,
-        },
-      };
-      
-      mockOpenAI.chat.completions.create.mockResolvedValue(mockResponse);
-      
+      provider.complete.mockResolvedValue(reply('Response with sources.'));
+
       const query: SubMindQueryDto = {
         prompt: 'Test query',
         context: {
@@ -262,9 +181,9 @@ describe('SubMindService', () => {
           },
         },
       };
-      
+
       const result = await service.processQuery(query);
-      
+
       expect(result.sources).toEqual([
         {
           type: 'note',
@@ -280,57 +199,157 @@ describe('SubMindService', () => {
 
   describe('edge cases', () => {
     beforeEach(() => {
-      process.env.OPENAI_API_KEY = 'test-key';
-      service = new SubMindService();
+      provider = fakeProvider(true);
+      service = new SubMindService(new LlmClient(provider));
     });
 
     it('should handle malformed context gracefully', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: 'Response despite malformed context.',
-          },
-        }],
-        usage: {
-          total_tokens: 30,
-        },
-      };
-      
-      mockOpenAI.chat.completions.create.mockResolvedValue(mockResponse);
-      
+      provider.complete.mockResolvedValue(reply('Response despite malformed context.', 30));
+
       const query: SubMindQueryDto = {
         prompt: 'Test query',
         context: {
           selection: { circular: null },
         } as any,
       };
-      
+
       // Should not throw despite malformed context
       const result = await service.processQuery(query);
       expect(result.message).toBe('Response despite malformed context.');
     });
 
-    it('should handle missing usage information', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: 'Response without usage info.',
-          },
-        }],
-        // No usage field
-      };
-      
-      mockOpenAI.chat.completions.create.mockResolvedValue(mockResponse);
-      
+    it('should report zero tokens when the provider reports no usage', async () => {
+      provider.complete.mockResolvedValue(reply('Response without usage info.', 0));
+
       const query: SubMindQueryDto = {
         prompt: 'Test query',
       };
-      
+
       const result = await service.processQuery(query);
-      
+
       expect(result.message).toBe('Response without usage info.');
       expect(result.meta?.tokens).toBe(0);
-      expect(result.meta?.latencyMs).toBeGreaterThan(0);
+    });
+
+    it('should fall back to the placeholder when expansion analysis fails', async () => {
+      provider.complete.mockRejectedValue(new Error('timeout'));
+
+      const result = await service.processExpansionAnalysis('EMEA', ['High footfall']);
+
+      expect(sentRequest().purpose).toBe('submind.expansion');
+      expect(result.message).toContain('Expansion Analysis for EMEA');
+    });
+  });
+
+  describe('tool calling and conversations', () => {
+    const user: AuthenticatedUser = { id: 'user-1', role: 'ANALYST', source: 'dev-bypass' };
+    let tools: { definitionsFor: jest.Mock; run: jest.Mock };
+    let conversations: { get: jest.Mock; start: jest.Mock; history: jest.Mock; append: jest.Mock };
+
+    beforeEach(() => {
+      provider = fakeProvider(true);
+      tools = {
+        definitionsFor: jest.fn().mockReturnValue([{ name: 'get_kpis', description: 'KPIs', parameters: { type: 'object' } }]),
+        run: jest.fn().mockResolvedValue({ data: { orders: 42 }, source: { type: 'api', ref: 'GET /kpis?region=EMEA' } }),
+      };
+      conversations = {
+        get: jest.fn().mockResolvedValue({ id: 'conv-1' }),
+        start: jest.fn().mockResolvedValue({ id: 'conv-new' }),
+        history: jest.fn().mockResolvedValue([]),
+        append: jest.fn().mockResolvedValue(undefined),
+      };
+      service = new SubMindService(
+        new LlmClient(provider),
+        tools as unknown as SubMindToolsService,
+        conversations as unknown as SubMindConversationService,
+      );
+    });
+
+    it('runs the tools the model calls and cites them as sources', async () => {
+      provider.complete
+        .mockResolvedValueOnce({
+          ...reply('', 40),
+          toolCalls: [{ id: 'call-1', name: 'get_kpis', arguments: { region: 'EMEA' } }],
+        })
+        .mockResolvedValueOnce(reply('EMEA took 42 orders.', 60));
+
+      const result = await service.processQuery({ prompt: 'How many orders in EMEA?' }, user);
+
+      expect(tools.run).toHaveBeenCalledWith({ id: 'call-1', name: 'get_kpis', arguments: { region: 'EMEA' } }, user);
+      expect(result.message).toBe('EMEA took 42 orders.');
+      expect(result.sources).toEqual([{ type: 'api', ref: 'GET /kpis?region=EMEA' }]);
+      expect(result.meta).toMatchObject({ tokens: 100, toolCalls: 1 });
+
+      const followUp = provider.complete.mock.calls[1][0];
+      expect(followUp.tools).toHaveLength(1);
+      expect(followUp.messages.slice(-2)).toEqual([
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'get_kpis', arguments: { region: 'EMEA' } }] },
+        { role: 'tool', toolCallId: 'call-1', content: '{"orders":42}' },
+      ]);
+    });
+
+    it('saves every turn to a new conversation', async () => {
+      provider.complete
+        .mockResolvedValueOnce({ ...reply('', 10), toolCalls: [{ id: 'call-1', name: 'get_kpis', arguments: {} }] })
+        .mockResolvedValueOnce(reply('Answer.', 10));
+
+      const result = await service.processQuery({ prompt: 'How are we doing?', context: { screen: 'dashboard' } }, user);
+
+      expect(conversations.start).toHaveBeenCalledWith('user-1', 'How are we doing?', 'dashboard');
+      expect(result.conversationId).toBe('conv-new');
+      const [conversationId, turns] = conversations.append.mock.calls[0];
+      expect(conversationId).toBe('conv-new');
+      expect(turns.map((turn: { role: string }) => turn.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+      expect(turns[3]).toMatchObject({ content: 'Answer.', tokensUsed: 20 });
+    });
+
+    it('replays the history of an existing conversation', async () => {
+      conversations.history.mockResolvedValue([
+        { role: 'user', content: 'Which store sells most?' },
+        { role: 'assistant', content: 'Berlin Mitte.' },
+      ]);
+      provider.complete.mockResolvedValue(reply('Its forecast is flat.'));
+
+      const result = await service.processQuery({ prompt: 'And its forecast?', conversationId: 'conv-1' }, user);
+
+      expect(conversations.get).toHaveBeenCalledWith('user-1', 'conv-1');
+      expect(sentRequest().messages.map(message => message.content).slice(1)).toEqual([
+        'Which store sells most?',
+        'Berlin Mitte.',
+        'And its forecast?',
+      ]);
+      expect(result.conversationId).toBe('conv-1');
+      expect(conversations.start).not.toHaveBeenCalled();
+    });
+
+    it('keeps an unknown conversation a not-found error', async () => {
+      conversations.get.mockRejectedValue(new NotFoundException('Conversation missing not found'));
+
+      await expect(service.processQuery({ prompt: 'Hi', conversationId: 'missing' }, user)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    it('makes the model answer once the tool rounds run out', async () => {
+      provider.complete.mockImplementation(async (request: LlmRequest) =>
+        request.tools
+          ? { ...reply('', 5), toolCalls: [{ id: `call-${Math.random()}`, name: 'get_kpis', arguments: {} }] }
+          : reply('Best answer with the data so far.', 5),
+      );
+
+      const result = await service.processQuery({ prompt: 'Dig deep' }, user);
+
+      expect(tools.run).toHaveBeenCalledTimes(4);
+      expect(provider.complete).toHaveBeenCalledTimes(5);
+      expect(result.message).toBe('Best answer with the data so far.');
+    });
+
+    it('does not create a conversation when the model fails', async () => {
+      provider.complete.mockRejectedValue(new Error('offline'));
+
+      await expect(service.processQuery({ prompt: 'Hi' }, user)).rejects.toThrow('AI processing failed: offline');
+      expect(conversations.start).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+});
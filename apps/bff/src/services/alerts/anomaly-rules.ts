@@ -0,0 +1,200 @@
+export const ALERT_TYPES = ['REVENUE_DROP', 'CANCELLATION_RATE', 'MISSING_FEED'] as const;
+export type AlertType = typeof ALERT_TYPES[number];
+
+export const ALERT_SEVERITIES = ['info', 'warning', 'critical'] as const;
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+
+export const ALERT_STATUSES = ['OPEN', 'ACKNOWLEDGED', 'RESOLVED'] as const;
+export type AlertStatus = typeof ALERT_STATUSES[number];
+
+export type AnomalyMetrics = Record<string, number | string | null>;
+
+export interface AnomalyFinding {
+  type: AlertType;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  metrics: AnomalyMetrics;
+}
+
+export interface AnomalyThresholds {
+  /** Days of revenue compared against the forecast */
+  revenueWindowDays: number;
+  /** Critical once revenue is this far below the forecast's lower bound, as a share of it */
+  revenueCriticalShortfall: number;
+  /** Hours of orders whose cancellation rate is checked */
+  cancellationWindowHours: number;
+  /** Days before the window that set the store's usual cancellation rate */
+  cancellationBaselineDays: number;
+  /** Fewer orders than this in the window are too few to judge */
+  cancellationMinOrders: number;
+  /** Warning when the rate is this many times the baseline and ... */
+  cancellationWarningRatio: number;
+  /** ... at least this many points above it */
+  cancellationWarningLift: number;
+  cancellationCriticalRatio: number;
+  cancellationCriticalLift: number;
+  /** Days of trading before the last order that set the store's usual order rate */
+  feedBaselineDays: number;
+  /** Stores with fewer orders than this in the baseline are too quiet to judge */
+  feedMinBaselineOrders: number;
+  /** Orders the store would usually have taken while silent before a warning ... */
+  feedWarningExpectedOrders: number;
+  /** ... and before it is critical */
+  feedCriticalExpectedOrders: number;
+  /** Stores silent for longer than this are taken to have stopped trading and are not judged */
+  feedMaxSilenceDays: number;
+}
+
+export const DEFAULT_THRESHOLDS: AnomalyThresholds = {
+  revenueWindowDays: 7,
+  revenueCriticalShortfall: 0.25,
+  cancellationWindowHours: 24,
+  cancellationBaselineDays: 28,
+  cancellationMinOrders: 20,
+  cancellationWarningRatio: 2,
+  cancellationWarningLift: 0.1,
+  cancellationCriticalRatio: 3,
+  cancellationCriticalLift: 0.25,
+  feedBaselineDays: 14,
+  feedMinBaselineOrders: 20,
+  // A store taking orders at its usual rate goes this quiet by chance well under 1% of the time
+  feedWarningExpectedOrders: 5,
+  feedCriticalExpectedOrders: 15,
+  feedMaxSilenceDays: 30,
+};
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export function severityRank(severity: string): number {
+  return SEVERITY_RANK[severity as AlertSeverity] ?? 0;
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+export interface RevenueWindow {
+  days: number;
+  actual: number;
+  /** Forecast revenue for the window, prorated from the monthly forecasts */
+  expected: number;
+  /** Lower bound of the forecast's 80% interval, prorated the same way */
+  expectedLow: number;
+  expectedHigh: number;
+}
+
+/** Revenue below the forecast's 80% interval; critical when well below it */
+export function revenueDrop(window: RevenueWindow, thresholds = DEFAULT_THRESHOLDS): AnomalyFinding | null {
+  if (window.expectedLow <= 0 || window.actual >= window.expectedLow) return null;
+
+  const shortfall = 1 - window.actual / window.expectedLow;
+  const severity: AlertSeverity = shortfall >= thresholds.revenueCriticalShortfall ? 'critical' : 'warning';
+  const vsForecast = window.expected > 0 ? window.actual / window.expected - 1 : null;
+
+  return {
+    type: 'REVENUE_DROP',
+    severity,
+    title: 'Revenue below forecast',
+    message: `Revenue over the last ${window.days} days was ${round(window.actual)}, below the forecast range of ` +
+      `${round(window.expectedLow)}–${round(window.expectedHigh)}` +
+      (vsForecast !== null ? ` (${percent(vsForecast)} against the forecast).` : '.'),
+    metrics: {
+      windowDays: window.days,
+      actualRevenue: round(window.actual),
+      forecastRevenue: round(window.expected),
+      forecastLow: round(window.expectedLow),
+      forecastHigh: round(window.expectedHigh),
+      shortfallBelowLow: round(shortfall, 4),
+    },
+  };
+}
+
+export interface CancellationWindow {
+  hours: number;
+  orders: number;
+  cancelled: number;
+  baselineOrders: number;
+  baselineCancelled: number;
+}
+
+/**
+ * A cancellation rate well above the store's own baseline. Both the ratio
+ * and the lift must be exceeded, so a store that rarely cancels is not
+ * flagged for one extra cancellation and a busy one is not flagged for noise.
+ */
+export function cancellationSpike(window: CancellationWindow, thresholds = DEFAULT_THRESHOLDS): AnomalyFinding | null {
+  if (window.orders < thresholds.cancellationMinOrders) return null;
+
+  const rate = window.cancelled / window.orders;
+  const baseline = window.baselineOrders > 0 ? window.baselineCancelled / window.baselineOrders : 0;
+  const exceeds = (ratio: number, lift: number) => rate >= Math.max(baseline * ratio, baseline + lift);
+
+  let severity: AlertSeverity;
+  if (exceeds(thresholds.cancellationCriticalRatio, thresholds.cancellationCriticalLift)) {
+    severity = 'critical';
+  } else if (exceeds(thresholds.cancellationWarningRatio, thresholds.cancellationWarningLift)) {
+    severity = 'warning';
+  } else {
+    return null;
+  }
+
+  return {
+    type: 'CANCELLATION_RATE',
+    severity,
+    title: 'Abnormal cancellation rate',
+    message: `${window.cancelled} of ${window.orders} orders in the last ${window.hours} hours were cancelled ` +
+      `(${percent(rate)} against a usual ${percent(baseline)}).`,
+    metrics: {
+      windowHours: window.hours,
+      orders: window.orders,
+      cancelled: window.cancelled,
+      cancellationRate: round(rate, 4),
+      baselineRate: round(baseline, 4),
+      baselineOrders: window.baselineOrders,
+    },
+  };
+}
+
+export interface FeedSilence {
+  lastOrderAt: Date;
+  baselineOrders: number;
+  /** Trading minutes in the baseline period */
+  baselineOpenMinutes: number;
+  /** Trading minutes since the last order */
+  silentOpenMinutes: number;
+}
+
+/**
+ * No orders for longer than the store's usual rate can explain. The store's
+ * orders per trading minute over the baseline give the orders it would have
+ * taken while silent; only trading time counts, so a store closed overnight
+ * is not flagged.
+ */
+export function missingFeed(silence: FeedSilence, thresholds = DEFAULT_THRESHOLDS): AnomalyFinding | null {
+  if (silence.baselineOrders < thresholds.feedMinBaselineOrders || silence.baselineOpenMinutes <= 0) return null;
+
+  const expected = (silence.baselineOrders / silence.baselineOpenMinutes) * silence.silentOpenMinutes;
+  let severity: AlertSeverity;
+  if (expected >= thresholds.feedCriticalExpectedOrders) {
+    severity = 'critical';
+  } else if (expected >= thresholds.feedWarningExpectedOrders) {
+    severity = 'warning';
+  } else {
+    return null;
+  }
+
+  const silentHours = round(silence.silentOpenMinutes / 60, 1);
+  return {
+    type: 'MISSING_FEED',
+    severity,
+    title: 'Order feed missing',
+    message: `No orders for ${silentHours} trading hours since ${silence.lastOrderAt.toISOString()}; ` +
+      `about ${Math.round(expected)} would usually have arrived.`,
+    metrics: {
+      lastOrderAt: silence.lastOrderAt.toISOString(),
+      silentTradingHours: silentHours,
+      expectedOrders: round(expected, 1),
+      baselineOrdersPerHour: round((silence.baselineOrders / silence.baselineOpenMinutes) * 60),
+    },
+  };
+}
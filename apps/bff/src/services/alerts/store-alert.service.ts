@@ -0,0 +1,490 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, PrismaClient, StoreAlert } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import { StoreHoursService } from '../hours/store-hours.service';
+import { StoreCalendar } from '../hours/store-calendar';
+import {
+  ALERT_TYPES,
+  AlertSeverity,
+  AlertStatus,
+  AlertType,
+  AnomalyFinding,
+  AnomalyMetrics,
+  AnomalyThresholds,
+  DEFAULT_THRESHOLDS,
+  cancellationSpike,
+  missingFeed,
+  revenueDrop,
+  severityRank,
+} from './anomaly-rules';
+
+export interface AlertScanScope {
+  storeIds?: string[];
+  region?: string;
+  country?: string;
+}
+
+export interface AlertScanResult {
+  storesScanned: number;
+  raised: number;
+  updated: number;
+  resolved: number;
+}
+
+export interface StoreAlertQuery {
+  storeId?: string;
+  /** ACTIVE means OPEN or ACKNOWLEDGED */
+  status?: AlertStatus | 'ACTIVE';
+  severity?: AlertSeverity;
+  type?: AlertType;
+  limit?: number;
+}
+
+export type StoreAlertView = Omit<StoreAlert, 'metrics'> & {
+  metrics: AnomalyMetrics;
+  store: { id: string; name: string };
+};
+
+export interface StoreAlertSummary {
+  open: number;
+  acknowledged: number;
+  bySeverity: Record<AlertSeverity, number>;
+  byType: Record<AlertType, number>;
+  storesAffected: number;
+}
+
+/** Per store, the rule's finding, or null when the store was checked and is fine */
+type RuleResults = Map<string, AnomalyFinding | null>;
+
+const ACTIVE_STATUSES: AlertStatus[] = ['OPEN', 'ACKNOWLEDGED'];
+const DAY_MS = 24 * 60 * 60_000;
+const SLICE_MS = 15 * 60_000;
+/** Silences shorter than this are not worth a baseline query */
+const MIN_SILENT_MS = 15 * 60_000;
+/** Trading time beyond this since the last order adds nothing to the verdict */
+const MAX_SILENCE_MS = 7 * DAY_MS;
+
+/**
+ * Business alerts raised from each store's orders. A scan checks three
+ * rules per store (revenue against the forecast's confidence band,
+ * cancellation rate against the store's own baseline, and an order feed gone
+ * quiet during trading hours) and keeps one unresolved alert per store and
+ * rule: new findings open an alert, repeat findings refresh it, and a
+ * check that passes resolves it. Scans run from the scheduler's
+ * store-anomalies kind or on demand.
+ */
+@Injectable()
+export class StoreAlertService {
+  private readonly logger = new Logger(StoreAlertService.name);
+  private readonly auditUtil: ReturnType<typeof createAuditUtil>;
+
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly storeHours: StoreHoursService,
+  ) {
+    this.auditUtil = createAuditUtil(prisma);
+  }
+
+  async scan(scope: AlertScanScope = {}, now = new Date(), thresholds: AnomalyThresholds = DEFAULT_THRESHOLDS): Promise<AlertScanResult> {
+    const stores = await this.prisma.store.findMany({
+      where: {
+        ...(scope.storeIds?.length ? { id: { in: scope.storeIds } } : {}),
+        ...(scope.region ? { region: { equals: scope.region, mode: 'insensitive' as const } } : {}),
+        ...(scope.country ? { country: { equals: scope.country, mode: 'insensitive' as const } } : {}),
+      },
+      select: { id: true },
+    });
+    const storeIds = stores.map(store => store.id);
+    if (storeIds.length === 0) {
+      return { storesScanned: 0, raised: 0, updated: 0, resolved: 0 };
+    }
+
+    const feeds = await this.checkFeeds(storeIds, now, thresholds);
+    // A silent feed explains any shortfall, so revenue is only judged where orders are arriving
+    const flowing = storeIds.filter(storeId => !feeds.get(storeId));
+    const results: Record<AlertType, RuleResults> = {
+      MISSING_FEED: feeds,
+      CANCELLATION_RATE: await this.checkCancellations(storeIds, now, thresholds),
+      REVENUE_DROP: await this.checkRevenue(flowing, now, thresholds),
+    };
+
+    const outcome = await this.apply(storeIds, results, now);
+    this.logger.log(
+      `🚨 Scanned ${storeIds.length} stores: ${outcome.raised} raised, ${outcome.updated} updated, ${outcome.resolved} resolved`,
+    );
+    return { storesScanned: storeIds.length, ...outcome };
+  }
+
+  /**
+   * Alerts newest first. storeIds limits the result to the caller's stores;
+   * null means unrestricted.
+   */
+  async list(query: StoreAlertQuery, storeIds: string[] | null = null): Promise<StoreAlertView[]> {
+    const status = query.status ?? 'ACTIVE';
+    const alerts = await this.prisma.storeAlert.findMany({
+      where: {
+        ...this.scopeWhere(storeIds),
+        ...(query.storeId ? { storeId: query.storeId } : {}),
+        status: status === 'ACTIVE' ? { in: ACTIVE_STATUSES } : status,
+        ...(query.severity ? { severity: query.severity } : {}),
+        ...(query.type ? { type: query.type } : {}),
+      },
+      include: { store: { select: { id: true, name: true } } },
+      orderBy: [{ lastDetectedAt: 'desc' }],
+      take: query.limit ?? 100,
+    });
+    return alerts.map(alert => this.toView(alert));
+  }
+
+  /** Counts of unresolved alerts for the dashboard */
+  async summary(storeIds: string[] | null = null): Promise<StoreAlertSummary> {
+    const where = { ...this.scopeWhere(storeIds), status: { in: ACTIVE_STATUSES } };
+    const [groups, stores] = await Promise.all([
+      this.prisma.storeAlert.groupBy({ by: ['status', 'severity', 'type'], where, _count: { _all: true } }),
+      this.prisma.storeAlert.groupBy({ by: ['storeId'], where }),
+    ]);
+
+    const summary: StoreAlertSummary = {
+      open: 0,
+      acknowledged: 0,
+      bySeverity: { info: 0, warning: 0, critical: 0 },
+      byType: { REVENUE_DROP: 0, CANCELLATION_RATE: 0, MISSING_FEED: 0 },
+      storesAffected: stores.length,
+    };
+    for (const group of groups) {
+      const count = group._count._all;
+      if (group.status === 'OPEN') summary.open += count;
+      else summary.acknowledged += count;
+      summary.bySeverity[group.severity as AlertSeverity] = (summary.bySeverity[group.severity as AlertSeverity] ?? 0) + count;
+      summary.byType[group.type as AlertType] = (summary.byType[group.type as AlertType] ?? 0) + count;
+    }
+    return summary;
+  }
+
+  async get(id: string): Promise<StoreAlertView> {
+    const alert = await this.prisma.storeAlert.findUnique({
+      where: { id },
+      include: { store: { select: { id: true, name: true } } },
+    });
+    if (!alert) {
+      throw new NotFoundException('Alert not found');
+    }
+    return this.toView(alert);
+  }
+
+  async acknowledge(id: string, actor: string): Promise<StoreAlertView> {
+    const existing = await this.get(id);
+    if (existing.status !== 'OPEN') {
+      throw new BadRequestException(`Alert is already ${existing.status.toLowerCase()}`);
+    }
+
+    const alert = await this.prisma.storeAlert.update({
+      where: { id },
+      data: { status: 'ACKNOWLEDGED', acknowledgedBy: actor, acknowledgedAt: new Date() },
+      include: { store: { select: { id: true, name: true } } },
+    });
+    await this.audit(actor, 'ACKNOWLEDGE', existing, alert);
+    return this.toView(alert);
+  }
+
+  /** Closes an alert by hand. If the condition persists, the next scan raises a new one. */
+  async resolve(id: string, actor: string, resolution?: string): Promise<StoreAlertView> {
+    const existing = await this.get(id);
+    if (existing.status === 'RESOLVED') {
+      throw new BadRequestException('Alert is already resolved');
+    }
+
+    const alert = await this.prisma.storeAlert.update({
+      where: { id },
+      data: { status: 'RESOLVED', resolvedBy: actor, resolvedAt: new Date(), resolution: resolution?.trim() || null },
+      include: { store: { select: { id: true, name: true } } },
+    });
+    await this.audit(actor, 'RESOLVE', existing, alert);
+    return this.toView(alert);
+  }
+
+  /**
+   * Creates, refreshes or resolves each store's alert for every rule that
+   * reached a verdict. An acknowledged alert that gets more severe reopens so
+   * it is looked at again.
+   */
+  private async apply(
+    storeIds: string[],
+    results: Record<AlertType, RuleResults>,
+    now: Date,
+  ): Promise<Omit<AlertScanResult, 'storesScanned'>> {
+    const active = await this.prisma.storeAlert.findMany({
+      where: { storeId: { in: storeIds }, status: { in: ACTIVE_STATUSES } },
+    });
+    const activeByKey = new Map(active.map(alert => [`${alert.storeId}:${alert.type}`, alert]));
+    const outcome = { raised: 0, updated: 0, resolved: 0 };
+
+    for (const type of ALERT_TYPES) {
+      for (const [storeId, finding] of results[type]) {
+        const existing = activeByKey.get(`${storeId}:${type}`);
+
+        if (finding && existing) {
+          const reopen = existing.status === 'ACKNOWLEDGED' && severityRank(finding.severity) > severityRank(existing.severity);
+          await this.prisma.storeAlert.update({
+            where: { id: existing.id },
+            data: {
+              severity: finding.severity,
+              title: finding.title,
+              message: finding.message,
+              metrics: JSON.stringify(finding.metrics),
+              lastDetectedAt: now,
+              occurrences: { increment: 1 },
+              ...(reopen ? { status: 'OPEN', acknowledgedBy: null, acknowledgedAt: null } : {}),
+            },
+          });
+          outcome.updated++;
+        } else if (finding) {
+          await this.prisma.storeAlert.create({
+            data: {
+              storeId,
+              type,
+              severity: finding.severity,
+              title: finding.title,
+              message: finding.message,
+              metrics: JSON.stringify(finding.metrics),
+              firstDetectedAt: now,
+              lastDetectedAt: now,
+            },
+          });
+          outcome.raised++;
+        } else if (existing) {
+          await this.prisma.storeAlert.update({
+            where: { id: existing.id },
+            data: { status: 'RESOLVED', resolvedBy: 'system', resolvedAt: now, resolution: 'Condition cleared' },
+          });
+          outcome.resolved++;
+        }
+      }
+    }
+    return outcome;
+  }
+
+  /** Stores whose orders stopped arriving while they were trading */
+  private async checkFeeds(storeIds: string[], now: Date, thresholds: AnomalyThresholds): Promise<RuleResults> {
+    const [latest, calendars] = await Promise.all([
+      this.prisma.order.groupBy({
+        by: ['storeId'],
+        where: { storeId: { in: storeIds }, createdAt: { lte: now } },
+        _max: { createdAt: true },
+      }),
+      this.storeHours.loadCalendars(storeIds),
+    ]);
+
+    const results: RuleResults = new Map();
+    for (const row of latest) {
+      const lastOrderAt = row._max.createdAt;
+      if (!lastOrderAt) continue;
+      const silentMs = now.getTime() - lastOrderAt.getTime();
+      if (silentMs > thresholds.feedMaxSilenceDays * DAY_MS) continue;
+      if (silentMs < MIN_SILENT_MS) {
+        results.set(row.storeId, null);
+        continue;
+      }
+
+      const calendar = calendars.get(row.storeId);
+      const baselineStart = new Date(lastOrderAt.getTime() - thresholds.feedBaselineDays * DAY_MS);
+      const baselineOrders = await this.prisma.order.count({
+        where: { storeId: row.storeId, createdAt: { gte: baselineStart, lte: lastOrderAt } },
+      });
+      results.set(row.storeId, missingFeed({
+        lastOrderAt,
+        baselineOrders,
+        baselineOpenMinutes: baselineMinutes(calendar, baselineStart, lastOrderAt),
+        silentOpenMinutes: tradingMinutes(calendar, lastOrderAt, now),
+      }, thresholds));
+    }
+    return results;
+  }
+
+  /**
+   * Share of recent orders that ended up cancelled. Orders only reach
+   * CANCELLED through the status transitions on the orders API, so the final
+   * status counts every cancellation whichever state it was made from.
+   */
+  private async checkCancellations(storeIds: string[], now: Date, thresholds: AnomalyThresholds): Promise<RuleResults> {
+    const windowStart = new Date(now.getTime() - thresholds.cancellationWindowHours * 60 * 60_000);
+    const baselineStart = new Date(windowStart.getTime() - thresholds.cancellationBaselineDays * DAY_MS);
+    const [recent, baseline] = await Promise.all([
+      this.countByStatus(storeIds, windowStart, now),
+      this.countByStatus(storeIds, baselineStart, windowStart),
+    ]);
+
+    const results: RuleResults = new Map();
+    for (const storeId of storeIds) {
+      const window = recent.get(storeId);
+      // Too few orders to judge; leave any existing alert as it is
+      if (!window || window.orders < thresholds.cancellationMinOrders) continue;
+
+      const usual = baseline.get(storeId) ?? { orders: 0, cancelled: 0 };
+      results.set(storeId, cancellationSpike({
+        hours: thresholds.cancellationWindowHours,
+        orders: window.orders,
+        cancelled: window.cancelled,
+        baselineOrders: usual.orders,
+        baselineCancelled: usual.cancelled,
+      }, thresholds));
+    }
+    return results;
+  }
+
+  /**
+   * Revenue over the last full UTC days against the monthly forecasts, each
+   * spread evenly over its month. Stores without a forecast for every day of
+   * the window are not judged.
+   */
+  private async checkRevenue(storeIds: string[], now: Date, thresholds: AnomalyThresholds): Promise<RuleResults> {
+    const results: RuleResults = new Map();
+    if (storeIds.length === 0) return results;
+
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const start = new Date(end.getTime() - thresholds.revenueWindowDays * DAY_MS);
+    const days: Date[] = [];
+    for (let day = start; day < end; day = new Date(day.getTime() + DAY_MS)) {
+      days.push(day);
+    }
+    const months = [...new Map(days.map(day => {
+      const month = { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1 };
+      return [`${month.year}-${month.month}`, month];
+    })).values()];
+
+    const [forecasts, revenue] = await Promise.all([
+      this.prisma.revenueForecast.findMany({
+        where: {
+          storeId: { in: storeIds },
+          OR: months.map(({ year, month }) => ({ forecastYear: year, forecastMonth: month })),
+        },
+        select: {
+          storeId: true,
+          forecastYear: true,
+          forecastMonth: true,
+          predictedRevenue: true,
+          confidenceLow: true,
+          confidenceHigh: true,
+        },
+      }),
+      this.prisma.order.groupBy({
+        by: ['storeId'],
+        where: { storeId: { in: storeIds }, createdAt: { gte: start, lt: end }, status: { not: 'CANCELLED' } },
+        _sum: { total: true },
+      }),
+    ]);
+
+    const forecastsByStore = new Map<string, Map<string, typeof forecasts[number]>>();
+    for (const forecast of forecasts) {
+      const byMonth = forecastsByStore.get(forecast.storeId) ?? new Map();
+      byMonth.set(`${forecast.forecastYear}-${forecast.forecastMonth}`, forecast);
+      forecastsByStore.set(forecast.storeId, byMonth);
+    }
+    const actualByStore = new Map(revenue.map(row => [row.storeId, Number(row._sum.total ?? 0)]));
+
+    for (const storeId of storeIds) {
+      const byMonth = forecastsByStore.get(storeId);
+      if (!byMonth) continue;
+
+      let expected = 0;
+      let expectedLow = 0;
+      let expectedHigh = 0;
+      let covered = true;
+      for (const day of days) {
+        const forecast = byMonth.get(`${day.getUTCFullYear()}-${day.getUTCMonth() + 1}`);
+        if (!forecast) {
+          covered = false;
+          break;
+        }
+        const daysInMonth = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+        expected += forecast.predictedRevenue / daysInMonth;
+        expectedLow += forecast.confidenceLow / daysInMonth;
+        expectedHigh += forecast.confidenceHigh / daysInMonth;
+      }
+      if (!covered) continue;
+
+      results.set(storeId, revenueDrop({
+        days: days.length,
+        actual: actualByStore.get(storeId) ?? 0,
+        expected,
+        expectedLow,
+        expectedHigh,
+      }, thresholds));
+    }
+    return results;
+  }
+
+  private async countByStatus(
+    storeIds: string[],
+    from: Date,
+    to: Date,
+  ): Promise<Map<string, { orders: number; cancelled: number }>> {
+    const groups = await this.prisma.order.groupBy({
+      by: ['storeId', 'status'],
+      where: { storeId: { in: storeIds }, createdAt: { gte: from, lt: to } },
+      _count: { _all: true },
+    });
+
+    const counts = new Map<string, { orders: number; cancelled: number }>();
+    for (const group of groups) {
+      const count = counts.get(group.storeId) ?? { orders: 0, cancelled: 0 };
+      count.orders += group._count._all;
+      if (group.status === 'CANCELLED') count.cancelled += group._count._all;
+      counts.set(group.storeId, count);
+    }
+    return counts;
+  }
+
+  private scopeWhere(storeIds: string[] | null): Prisma.StoreAlertWhereInput {
+    return storeIds === null ? {} : { storeId: { in: storeIds } };
+  }
+
+  private async audit(actor: string, action: string, before: StoreAlertView, after: StoreAlert): Promise<void> {
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'StoreAlert',
+      entityId: after.id,
+      action,
+      oldData: { status: before.status, acknowledgedBy: before.acknowledgedBy, resolvedBy: before.resolvedBy },
+      newData: { status: after.status, acknowledgedBy: after.acknowledgedBy, resolvedBy: after.resolvedBy, resolution: after.resolution },
+    });
+  }
+
+  private toView(alert: StoreAlert & { store: { id: string; name: string } }): StoreAlertView {
+    let metrics: AnomalyMetrics = {};
+    try {
+      metrics = JSON.parse(alert.metrics);
+    } catch {
+      // Leave unreadable metrics empty rather than failing the whole list
+    }
+    return { ...alert, metrics };
+  }
+}
+
+/**
+ * Trading minutes between two instants, in 15-minute slices. Stores without
+ * configured hours count as always trading. Capped, since a week of silence
+ * is already past every threshold.
+ */
+function tradingMinutes(calendar: StoreCalendar | undefined, from: Date, to: Date): number {
+  const end = Math.min(to.getTime(), from.getTime() + MAX_SILENCE_MS);
+  if (!calendar?.hasHours) {
+    return Math.max(0, end - from.getTime()) / 60_000;
+  }
+
+  let total = 0;
+  for (let at = from.getTime(); at < end; at += SLICE_MS) {
+    if (calendar.isOpenAt(new Date(at)).open) {
+      total += Math.min(SLICE_MS, end - at) / 60_000;
+    }
+  }
+  return total;
+}
+
+/** Scheduled trading minutes over the local days a baseline period spans */
+function baselineMinutes(calendar: StoreCalendar | undefined, from: Date, to: Date): number {
+  if (!calendar?.hasHours) {
+    return (to.getTime() - from.getTime()) / 60_000;
+  }
+  return calendar.openMinutes(calendar.local(from).date, calendar.local(to).date);
+}
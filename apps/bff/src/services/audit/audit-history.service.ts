@@ -0,0 +1,456 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AuditEntry, Prisma, PrismaClient } from '@prisma/client';
+import { FeatureFlag, FeatureFlagsService } from '../../config/feature-flags.service';
+import { StoreAccessService } from '../store-access.service';
+import { AuthenticatedUser, hasPermission, Permission } from '../../types/auth.types';
+import { createAuditUtil } from '../../util/audit.util';
+
+export type AuditedEntity = 'Store' | 'MenuItem' | 'PriceOverride' | 'FeatureFlag' | 'User';
+
+export type EntityState = Record<string, unknown>;
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface EntityVersion {
+  entryId: string;
+  actor: string;
+  action: string;
+  timestamp: Date;
+  changes: Record<string, FieldChange>;
+  /** State after this entry, or null when the entry deleted the entity */
+  state: EntityState | null;
+}
+
+export interface EntityHistory {
+  entity: AuditedEntity;
+  entityId: string;
+  /** The live record's revertable fields, or null once it is deleted */
+  current: EntityState | null;
+  /** Newest first */
+  versions: EntityVersion[];
+  /** State at the requested timestamp; entryId is null before the first entry */
+  asOf?: { timestamp: Date; entryId: string | null; state: EntityState | null };
+}
+
+export interface RevertResult {
+  changes: Record<string, FieldChange>;
+  history: EntityHistory;
+}
+
+interface LiveRecord {
+  /** Entity ids the audit trail may use for this record */
+  auditIds: string[];
+  state: EntityState | null;
+  storeId?: string | null;
+}
+
+interface EntityAdapter {
+  read: Permission;
+  write: Permission;
+  /** Fields a revert may write back; everything else in a snapshot is display only */
+  fields: readonly string[];
+  /** Whether the record belongs to a store, so store access applies */
+  storeScoped: boolean;
+  load(id: string): Promise<LiveRecord>;
+  apply(id: string, changes: Record<string, FieldChange>, actor: string, entryId: string): Promise<void>;
+}
+
+const ENTITY_ALIASES: Record<string, AuditedEntity> = {
+  store: 'Store',
+  menuitem: 'MenuItem',
+  priceoverride: 'PriceOverride',
+  featureflag: 'FeatureFlag',
+  flag: 'FeatureFlag',
+  user: 'User',
+};
+
+const STORE_FIELDS = [
+  'name', 'address', 'postcode', 'country', 'region', 'city', 'status', 'ownerName', 'latitude',
+  'longitude', 'annualTurnover', 'openedAt', 'cityPopulationBand', 'timezone', 'holidayPolicy', 'phoneNumber',
+  'email',
+] as const;
+const MENU_ITEM_FIELDS = ['name', 'price', 'basePrice', 'active'] as const;
+const PRICE_OVERRIDE_FIELDS = ['price', 'effectiveFrom', 'effectiveTo'] as const;
+const FLAG_FIELDS = ['enabled', 'description', 'category', 'rolloutPercentage', 'conditions'] as const;
+const USER_FIELDS = ['email', 'role', 'firstName', 'lastName', 'active'] as const;
+
+/**
+ * Entity history rebuilt from the AuditEntry diffs written by AuditUtil, and
+ * reverts that write an earlier version back as a new REVERT entry.
+ *
+ * Snapshots only hold the fields a route chose to audit, so a version is the
+ * entity as far as its audit trail knows it. Records that predate the trail
+ * start from the values their earliest changes replaced.
+ */
+@Injectable()
+export class AuditHistoryService {
+  private readonly adapters: Record<AuditedEntity, EntityAdapter>;
+
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly storeAccess: StoreAccessService,
+    private readonly featureFlags: FeatureFlagsService,
+  ) {
+    this.adapters = {
+      Store: {
+        read: 'stores:read',
+        write: 'stores:write',
+        fields: STORE_FIELDS,
+        storeScoped: true,
+        load: async id => {
+          const store = await this.prisma.store.findUnique({ where: { id }, select: selectOf(STORE_FIELDS) });
+          return { auditIds: [id], state: store && toPlain(store), storeId: id };
+        },
+        apply: async (id, changes, actor, entryId) => {
+          await this.prisma.store.update({ where: { id }, data: valuesOf(changes) as Prisma.StoreUpdateInput });
+          await this.recordRevert('Store', id, changes, actor, entryId);
+        },
+      },
+      MenuItem: {
+        read: 'menu:read',
+        write: 'menu:write',
+        fields: MENU_ITEM_FIELDS,
+        storeScoped: true,
+        load: async id => {
+          const item = await this.prisma.menuItem.findUnique({
+            where: { id },
+            select: { ...selectOf(MENU_ITEM_FIELDS), storeId: true },
+          });
+          if (!item) return { auditIds: [id], state: null };
+          const { storeId, price, basePrice, ...rest } = item;
+          return {
+            auditIds: [id],
+            state: { ...rest, price: Number(price), basePrice: basePrice === null ? null : Number(basePrice) },
+            storeId,
+          };
+        },
+        apply: async (id, changes, actor, entryId) => {
+          await this.prisma.menuItem.update({ where: { id }, data: valuesOf(changes) as Prisma.MenuItemUpdateInput });
+          await this.recordRevert('MenuItem', id, changes, actor, entryId);
+        },
+      },
+      PriceOverride: {
+        read: 'menu:read',
+        write: 'pricing:write',
+        fields: PRICE_OVERRIDE_FIELDS,
+        storeScoped: true,
+        load: async id => {
+          const override = await this.prisma.priceOverride.findUnique({
+            where: { id },
+            select: { ...selectOf(PRICE_OVERRIDE_FIELDS), storeId: true },
+          });
+          if (!override) return { auditIds: [id], state: null };
+          const { storeId, price, ...rest } = override;
+          return { auditIds: [id], state: { ...toPlain(rest), price: Number(price) }, storeId };
+        },
+        apply: async (id, changes, actor, entryId) => {
+          await this.prisma.priceOverride.update({
+            where: { id },
+            data: valuesOf(changes) as Prisma.PriceOverrideUpdateInput,
+          });
+          await this.recordRevert('PriceOverride', id, changes, actor, entryId);
+        },
+      },
+      FeatureFlag: {
+        read: 'settings:manage',
+        write: 'settings:manage',
+        fields: FLAG_FIELDS,
+        storeScoped: false,
+        // Flags are addressed by key or id; their audit entries use the id
+        load: async id => {
+          const flag = await this.findFlag(id);
+          if (!flag) return { auditIds: [id], state: null };
+          return {
+            auditIds: Array.from(new Set([flag.id ?? flag.name, flag.name])),
+            state: pick(this.featureFlags.snapshot(flag), FLAG_FIELDS),
+          };
+        },
+        // The flag service writes its own audit entry, recorded as a revert
+        apply: async (id, changes, actor, entryId) => {
+          const flag = await this.findFlag(id);
+          if (!flag) throw new NotFoundException(`FeatureFlag ${id} not found`);
+          await this.featureFlags.updateFlag(flag.name, valuesOf(changes) as Partial<FeatureFlag>, actor, entryId);
+        },
+      },
+      User: {
+        read: 'settings:manage',
+        write: 'settings:manage',
+        fields: USER_FIELDS,
+        storeScoped: false,
+        load: async id => {
+          const user = await this.prisma.user.findUnique({ where: { id }, select: selectOf(USER_FIELDS) });
+          return { auditIds: [id], state: user };
+        },
+        apply: async (id, changes, actor, entryId) => {
+          await this.prisma.user.update({ where: { id }, data: valuesOf(changes) as Prisma.UserUpdateInput });
+          await this.recordRevert('User', id, changes, actor, entryId);
+        },
+      },
+    };
+  }
+
+  /** Maps a route segment such as "store", "menu-items" or "flag" to an entity */
+  resolveEntity(name: string): AuditedEntity {
+    const key = name.toLowerCase().replace(/[-_]/g, '').replace(/s$/, '');
+    const entity = ENTITY_ALIASES[key];
+    if (!entity) {
+      throw new BadRequestException(
+        `Unsupported entity '${name}'. Expected one of: store, menu-item, price-override, flag, user`,
+      );
+    }
+    return entity;
+  }
+
+  async getHistory(
+    entityName: string,
+    entityId: string,
+    user: AuthenticatedUser | undefined,
+    at?: Date,
+  ): Promise<EntityHistory> {
+    const entity = this.resolveEntity(entityName);
+    const adapter = this.adapters[entity];
+    this.assertPermission(user, adapter.read);
+
+    const live = await adapter.load(entityId);
+    const { baseline, versions } = await this.replay(entity, live.auditIds);
+    await this.assertAccess(user, entity, entityId, live, versions);
+
+    if (!live.state && versions.length === 0) {
+      throw new NotFoundException(`${entity} ${entityId} not found`);
+    }
+
+    const history: EntityHistory = {
+      entity,
+      entityId,
+      current: live.state,
+      versions: [...versions].reverse(),
+    };
+
+    if (at) {
+      const version = versions.filter(candidate => candidate.timestamp <= at).pop();
+      history.asOf = {
+        timestamp: at,
+        entryId: version?.entryId ?? null,
+        state: version ? version.state : baseline,
+      };
+    }
+
+    return history;
+  }
+
+  /**
+   * Writes the state recorded after entryId back onto the live record. Only
+   * fields that differ from the live record are written, so changes made
+   * outside the audit trail are reverted too. Pass expectedLatestEntryId to
+   * refuse the revert when someone else changed the entity in the meantime.
+   */
+  async revert(
+    entityName: string,
+    entityId: string,
+    entryId: string,
+    user: AuthenticatedUser | undefined,
+    expectedLatestEntryId?: string,
+  ): Promise<RevertResult> {
+    const entity = this.resolveEntity(entityName);
+    const adapter = this.adapters[entity];
+    this.assertPermission(user, adapter.write);
+
+    const live = await adapter.load(entityId);
+    const { versions } = await this.replay(entity, live.auditIds);
+    await this.assertAccess(user, entity, entityId, live, versions);
+
+    const target = versions.find(version => version.entryId === entryId);
+    if (!target) {
+      throw new NotFoundException(`Audit entry ${entryId} not found for ${entity} ${entityId}`);
+    }
+
+    const latest = versions[versions.length - 1];
+    if (expectedLatestEntryId && latest.entryId !== expectedLatestEntryId) {
+      throw new ConflictException(`${entity} ${entityId} has changed since its history was loaded`);
+    }
+    if (!live.state) {
+      throw new BadRequestException(`${entity} ${entityId} no longer exists and cannot be restored by a revert`);
+    }
+    if (!target.state) {
+      throw new BadRequestException('Cannot revert to a version in which the entity was deleted');
+    }
+
+    const changes: Record<string, FieldChange> = {};
+    for (const field of adapter.fields) {
+      if (field in target.state && !sameValue(live.state[field], target.state[field])) {
+        changes[field] = { from: live.state[field] ?? null, to: target.state[field] ?? null };
+      }
+    }
+    if (Object.keys(changes).length === 0) {
+      throw new BadRequestException(`${entity} ${entityId} already matches this version`);
+    }
+
+    await adapter.apply(entityId, changes, actorOf(user), entryId);
+
+    return { changes, history: await this.getHistory(entity, entityId, user) };
+  }
+
+  private async replay(
+    entity: AuditedEntity,
+    auditIds: string[],
+  ): Promise<{ baseline: EntityState | null; versions: EntityVersion[] }> {
+    const entries = await this.prisma.auditEntry.findMany({
+      where: { entity, entityId: { in: auditIds } },
+      orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+    });
+    return replayEntries(entries);
+  }
+
+  private assertPermission(user: AuthenticatedUser | undefined, permission: Permission): void {
+    if (!hasPermission(user, permission)) {
+      throw new ForbiddenException(`Missing permission: ${permission}`);
+    }
+  }
+
+  private async assertAccess(
+    user: AuthenticatedUser | undefined,
+    entity: AuditedEntity,
+    entityId: string,
+    live: LiveRecord,
+    versions: EntityVersion[],
+  ): Promise<void> {
+    if (!this.adapters[entity].storeScoped) return;
+
+    // Deleted records are scoped by the store their last snapshot names
+    const lastKnown = [...versions].reverse().find(version => version.state)?.state;
+    const storeId = live.storeId ?? (entity === 'Store' ? entityId : (lastKnown?.storeId as string | undefined));
+    if (storeId) {
+      await this.storeAccess.assertStoreAccess(user, storeId);
+    } else if ((await this.storeAccess.getAccessibleStoreIds(user)) !== null) {
+      throw new ForbiddenException('You do not have access to this store');
+    }
+  }
+
+  private async findFlag(idOrKey: string): Promise<FeatureFlag | undefined> {
+    return (await this.featureFlags.getFlag(idOrKey))
+      ?? (await this.featureFlags.listFlags()).find(flag => flag.id === idOrKey);
+  }
+
+  private async recordRevert(
+    entity: AuditedEntity,
+    entityId: string,
+    changes: Record<string, FieldChange>,
+    actor: string,
+    entryId: string,
+  ): Promise<void> {
+    const oldData = Object.fromEntries(Object.entries(changes).map(([field, change]) => [field, change.from]));
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity,
+      entityId,
+      action: 'REVERT',
+      oldData,
+      newData: valuesOf(changes),
+      metadata: { revertedEntryId: entryId },
+    });
+  }
+}
+
+/**
+ * Replays diffs oldest first. AuditUtil writes three shapes: { created },
+ * { deleted } and per-field { from, to } changes.
+ */
+export function replayEntries(entries: AuditEntry[]): { baseline: EntityState | null; versions: EntityVersion[] } {
+  const diffs = entries.map(entry => (entry.diff ? JSON.parse(entry.diff) : null) as Record<string, unknown> | null);
+
+  // State before the first entry: nothing if the trail starts with a create,
+  // otherwise whatever the earliest changes replaced
+  let baseline: EntityState | null = null;
+  if (diffs.length > 0 && !isSnapshot(diffs[0], 'created')) {
+    baseline = {};
+    for (const diff of diffs) {
+      if (isSnapshot(diff, 'created')) break;
+      if (isSnapshot(diff, 'deleted')) {
+        baseline = { ...(diff.deleted as EntityState), ...baseline };
+        break;
+      }
+      for (const [field, change] of Object.entries(diff ?? {})) {
+        if (!(field in baseline)) baseline[field] = (change as FieldChange).from ?? null;
+      }
+    }
+  }
+
+  let state = baseline;
+  const versions = entries.map((entry, index) => {
+    const diff = diffs[index];
+    const changes: Record<string, FieldChange> = {};
+
+    if (isSnapshot(diff, 'created')) {
+      state = { ...(diff.created as EntityState) };
+      for (const [field, value] of Object.entries(state)) changes[field] = { from: null, to: value };
+    } else if (isSnapshot(diff, 'deleted')) {
+      for (const [field, value] of Object.entries(diff.deleted as EntityState)) changes[field] = { from: value, to: null };
+      state = null;
+    } else if (diff) {
+      const next: EntityState = { ...(state ?? {}) };
+      for (const [field, change] of Object.entries(diff)) {
+        const { from, to } = change as Partial<FieldChange>;
+        changes[field] = { from: from ?? null, to: to ?? null };
+        // A missing "to" means the field was dropped from the snapshot
+        if (to === undefined) delete next[field];
+        else next[field] = to;
+      }
+      state = next;
+    }
+
+    return {
+      entryId: entry.id,
+      actor: entry.actor,
+      action: entry.action,
+      timestamp: entry.timestamp,
+      changes,
+      state,
+    };
+  });
+
+  return { baseline, versions };
+}
+
+function isSnapshot(
+  diff: Record<string, unknown> | null,
+  key: 'created' | 'deleted',
+): diff is Record<typeof key, EntityState> {
+  if (!diff || Object.keys(diff).length !== 1) return false;
+  const value = diff[key];
+  return !!value && typeof value === 'object' && !('from' in value) && !('to' in value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function selectOf<T extends string>(fields: readonly T[]): Record<T, true> {
+  return Object.fromEntries(fields.map(field => [field, true])) as Record<T, true>;
+}
+
+function pick(record: EntityState, fields: readonly string[]): EntityState {
+  return Object.fromEntries(fields.filter(field => field in record).map(field => [field, record[field]]));
+}
+
+function valuesOf(changes: Record<string, FieldChange>): EntityState {
+  return Object.fromEntries(Object.entries(changes).map(([field, change]) => [field, change.to]));
+}
+
+// Dates become ISO strings, as they are in audit snapshots
+function toPlain(record: object): EntityState {
+  return JSON.parse(JSON.stringify(record));
+}
+
+function actorOf(user?: AuthenticatedUser): string {
+  return user?.email ?? user?.id ?? 'system';
+}
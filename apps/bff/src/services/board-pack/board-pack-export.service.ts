@@ -0,0 +1,462 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import {
+  BoardPackData,
+  DEFAULT_WEIGHTS,
+  LocationCandidate,
+  LocationGeneratorAPI,
+  ParetoPoint,
+  RejectionReason,
+  SystemDiagnostics,
+} from '@subway/location-generator';
+import { GeneratorAnalysisService } from '../location-generator/generator-analysis.service';
+import { ComparisonMatrix, ScenarioResult } from '../scenario/scenario-modeling.service';
+import {
+  BoardPackBlock,
+  BoardPackDocument,
+  BoardPackFormat,
+  BoardPackSection,
+  MapPoint,
+  RenderedBoardPack,
+} from './board-pack.types';
+import { renderBoardPackPdf } from './pdf-writer';
+import { renderBoardPackPptx } from './pptx-writer';
+import { StaticMapRenderer } from './static-map.renderer';
+
+/** Body of a /scenarios/compare response, posted back for export */
+export interface ScenarioComparison {
+  scenarios: ScenarioResult[];
+  comparison: ComparisonMatrix;
+  recommendation: string;
+}
+
+const SCENARIO_MODES = ['Defend', 'Balanced', 'Blitz'] as const;
+const STABILITY_ITERATIONS = 30;
+const OPEN_STATUSES = ['OPEN', 'Open', 'open'];
+
+const CONTENT_TYPES: Record<BoardPackFormat, string> = {
+  pdf: 'application/pdf',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+const currency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+// Scenario modelling reports ROI, IRR etc. already scaled to percent
+const percent = (value: number) => `${value.toFixed(1)}%`;
+
+/**
+ * Renders board packs for leadership reviews: from a saved expansion scenario
+ * (via the location generator's BoardPackService) or from a scenario
+ * comparison, as a PDF report or a PowerPoint deck with static maps.
+ */
+@Injectable()
+export class BoardPackExportService {
+  private readonly api = new LocationGeneratorAPI();
+
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly analysis: GeneratorAnalysisService,
+    private readonly maps: StaticMapRenderer,
+  ) {}
+
+  async exportScenario(scenarioId: string, format: BoardPackFormat): Promise<RenderedBoardPack> {
+    const document = await this.scenarioDocument(scenarioId);
+    return this.render(document, format, `board-pack-${scenarioId}`);
+  }
+
+  async exportComparison(comparison: ScenarioComparison, format: BoardPackFormat): Promise<RenderedBoardPack> {
+    const document = await this.comparisonDocument(comparison);
+    return this.render(document, format, `scenario-comparison-${document.generatedAt.toISOString().slice(0, 10)}`);
+  }
+
+  render(document: BoardPackDocument, format: BoardPackFormat, basename: string): RenderedBoardPack {
+    return {
+      filename: `${basename}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      body: format === 'pdf' ? renderBoardPackPdf(document) : renderBoardPackPptx(document),
+    };
+  }
+
+  async scenarioDocument(scenarioId: string): Promise<BoardPackDocument> {
+    const scenario = await this.prisma.expansionScenario.findUnique({
+      where: { id: scenarioId },
+      include: { suggestions: { select: { id: true, lat: true, lng: true, status: true } } },
+    });
+    if (!scenario) {
+      throw new NotFoundException(`Expansion scenario ${scenarioId} not found`);
+    }
+
+    // Rejected suggestions are out of the running and don't belong in the pack
+    const sites = scenario.suggestions.filter((suggestion) => suggestion.status !== 'REJECTED');
+    if (sites.length < 2) {
+      throw new BadRequestException(`Expansion scenario ${scenarioId} needs at least 2 open suggestions for a board pack`);
+    }
+
+    const region = JSON.parse(scenario.regionFilter) as { country?: string; state?: string };
+    const country = region.country || 'Germany';
+    const { context, candidates } = await this.analysis.analyzeSites(country, sites);
+
+    const { frontier, kneePoint } = await this.api.generateParetoFrontier(
+      candidates,
+      { country: context.config },
+      context.stores,
+      { minK: Math.min(5, candidates.length), maxK: candidates.length },
+    );
+    if (frontier.length === 0) {
+      throw new BadRequestException(`No viable portfolio could be built from scenario ${scenarioId}`);
+    }
+    const knee = kneePoint ?? frontier[frontier.length - 1];
+
+    const scenarioConfig = {
+      country: context.config,
+      existingStores: context.stores,
+      targetK: knee.k,
+      minSpacingM: scenario.minDistanceM,
+    };
+    const stability = await this.api.analyzeStability(candidates, DEFAULT_WEIGHTS, scenarioConfig, STABILITY_ITERATIONS);
+
+    const modes: Record<string, { portfolio: LocationCandidate[]; roi: number; risk: number; coverage: number }> = {};
+    for (const mode of SCENARIO_MODES) {
+      const result = await this.api.switchScenario(mode, candidates, DEFAULT_WEIGHTS, scenarioConfig);
+      const points = result.paretoFrontier as ParetoPoint[];
+      const point = points.find((p) => p.k >= result.portfolio.length) ?? points[points.length - 1];
+      modes[mode] = { portfolio: result.portfolio, roi: point?.roi ?? 0, risk: point?.risk ?? 0, coverage: point?.coverage ?? 0 };
+    }
+
+    const pack: BoardPackData = await this.api.generateBoardPack(
+      frontier,
+      knee,
+      modes,
+      stability,
+      knee.portfolio,
+      this.diagnostics(candidates),
+      { country: context.config },
+    );
+    const exported = this.api.exportBoardPackForPDF(pack);
+
+    const sections: BoardPackSection[] = [];
+    for (const section of exported.sections) {
+      const blocks = this.packBlocks(section.title, pack);
+      if (section.charts?.includes('site-locations-map')) {
+        blocks.push({
+          kind: 'map',
+          caption: `Recommended portfolio of ${knee.portfolio.length} sites (green) against ${context.stores.length} open stores (grey)`,
+          image: await this.maps.render({ existing: context.stores, proposed: knee.portfolio }),
+        });
+      }
+      sections.push({ title: section.title, blocks });
+    }
+
+    return {
+      title: exported.title,
+      subtitle: `${scenario.label} · ${[region.state, country].filter(Boolean).join(', ')} · ${sites.length} candidate sites`,
+      generatedAt: new Date(),
+      sections,
+    };
+  }
+
+  async comparisonDocument(result: ScenarioComparison): Promise<BoardPackDocument> {
+    if (!Array.isArray(result?.scenarios) || result.scenarios.length === 0 || !result.comparison) {
+      throw new BadRequestException('Expected a /scenarios/compare result with at least one scenario');
+    }
+
+    const names = result.scenarios.map((scenario) => scenario.config.name);
+    const winner = result.scenarios[result.comparison.winner] ?? result.scenarios[0];
+
+    const sections: BoardPackSection[] = [
+      {
+        title: 'Executive Summary',
+        blocks: [
+          { kind: 'paragraph', text: result.recommendation },
+          {
+            kind: 'metrics',
+            items: [
+              { label: 'Recommended scenario', value: winner.config.name },
+              { label: 'Stores', value: String(winner.portfolio.summary.totalStores) },
+              { label: 'Investment', value: currency(winner.portfolio.summary.totalInvestment) },
+              { label: '5-year ROI', value: percent(winner.financialProjections.year5ROI) },
+              { label: 'Payback', value: `${winner.financialProjections.paybackPeriod.toFixed(1)} years` },
+              { label: 'Risk', value: winner.riskAssessment.overallRisk },
+            ],
+          },
+        ],
+      },
+      {
+        title: 'Scenario Comparison',
+        blocks: [
+          {
+            kind: 'table',
+            columns: ['Metric', ...names],
+            rows: result.comparison.metrics.map((metric) => [
+              metric.unit ? `${metric.name} (${metric.unit})` : metric.name,
+              ...metric.values.map((value) => this.formatMetric(value, metric.format)),
+            ]),
+          },
+        ],
+      },
+    ];
+
+    const existing = await this.openStores(result.scenarios);
+    for (const scenario of result.scenarios) {
+      sections.push(await this.comparisonScenarioSection(scenario, existing));
+    }
+
+    sections.push({
+      title: 'Next Steps',
+      blocks: [
+        {
+          kind: 'bullets',
+          items: [
+            `Board approval for the ${winner.config.name} scenario`,
+            ...winner.riskAssessment.factors.map((factor) => factor.mitigation),
+            'Quarterly portfolio performance review',
+          ],
+        },
+      ],
+    });
+
+    return {
+      title: 'Store Expansion Strategy - Scenario Comparison',
+      subtitle: names.join(' vs '),
+      generatedAt: new Date(),
+      sections,
+    };
+  }
+
+  private async comparisonScenarioSection(
+    scenario: ScenarioResult,
+    existing: MapPoint[],
+  ): Promise<BoardPackSection> {
+    const { summary, selectedStores } = scenario.portfolio;
+    const proposed = await this.storeLocations(selectedStores.map((store) => store.candidateId));
+
+    const blocks: BoardPackBlock[] = [
+      {
+        kind: 'metrics',
+        items: [
+          { label: 'Stores', value: String(summary.totalStores) },
+          { label: 'Investment', value: currency(summary.totalInvestment) },
+          { label: 'Expected annual revenue', value: currency(summary.expectedAnnualRevenue) },
+          { label: '5-year NPV', value: currency(scenario.financialProjections.year5NPV) },
+          { label: 'IRR', value: percent(scenario.financialProjections.irr) },
+          { label: 'Risk', value: `${scenario.riskAssessment.overallRisk} (${scenario.riskAssessment.riskScore})` },
+        ],
+      },
+      { kind: 'paragraph', text: scenario.aiRecommendation },
+    ];
+
+    if (scenario.riskAssessment.factors.length > 0) {
+      blocks.push({
+        kind: 'bullets',
+        items: scenario.riskAssessment.factors.map((factor) => `${factor.factor} (${factor.severity}): ${factor.impact}`),
+      });
+    }
+
+    blocks.push({
+      kind: 'table',
+      columns: ['Year', 'Stores opened', 'Investment', 'Revenue', 'Cash flow'],
+      rows: scenario.timeline.years.map((year) => [
+        String(year.year),
+        String(year.storesOpened),
+        currency(year.investment),
+        currency(year.annualRevenue),
+        currency(year.cashFlow),
+      ]),
+    });
+
+    if (selectedStores.length > 0) {
+      blocks.push({
+        kind: 'table',
+        columns: ['#', 'Site', 'City', 'ROI', 'Cost', 'Payback'],
+        rows: selectedStores.map((store) => [
+          String(store.rank),
+          store.name,
+          store.city,
+          percent(store.roi),
+          currency(store.cost),
+          `${store.paybackPeriod.toFixed(1)} yrs`,
+        ]),
+      });
+    }
+
+    if (proposed.length > 0) {
+      blocks.push({
+        kind: 'map',
+        caption: `${scenario.config.name}: ${proposed.length} selected sites (green) against the open estate (grey)`,
+        image: await this.maps.render({ existing, proposed }),
+      });
+    }
+
+    return { title: scenario.config.name, blocks };
+  }
+
+  /** Content of one BoardPackService section as document blocks */
+  private packBlocks(title: string, pack: BoardPackData): BoardPackBlock[] {
+    switch (title) {
+      case 'Executive Summary': {
+        const { keyMetrics } = pack.executiveSummary;
+        return [
+          { kind: 'paragraph', text: pack.executiveSummary.recommendation },
+          {
+            kind: 'metrics',
+            items: [
+              { label: 'Recommended sites', value: String(keyMetrics.recommendedSites) },
+              { label: 'Expected ROI', value: keyMetrics.expectedROI },
+              { label: 'Risk level', value: keyMetrics.riskLevel },
+              { label: 'Market coverage', value: keyMetrics.marketCoverage },
+              { label: 'Investment required', value: keyMetrics.investmentRequired },
+              { label: 'Confidence', value: pack.executiveSummary.confidence },
+            ],
+          },
+        ];
+      }
+      case 'Pareto Analysis':
+        return [
+          {
+            kind: 'metrics',
+            items: [
+              { label: 'Frontier points', value: String(pack.paretoAnalysis.frontierPoints) },
+              { label: 'Knee point', value: `${pack.paretoAnalysis.kneePointK} sites` },
+              { label: 'ROI range', value: pack.paretoAnalysis.roiRange },
+              { label: 'Risk range', value: pack.paretoAnalysis.riskRange },
+            ],
+          },
+          { kind: 'paragraph', text: pack.paretoAnalysis.recommendation },
+        ];
+      case 'Scenario Comparison': {
+        const { defend, balanced, blitz } = pack.scenarioComparison;
+        return [
+          {
+            kind: 'table',
+            columns: ['', 'Defend', 'Balanced', 'Blitz'],
+            rows: [
+              ['Sites', String(defend.sites), String(balanced.sites), String(blitz.sites)],
+              ['ROI', defend.roi, balanced.roi, blitz.roi],
+              ['Risk', defend.risk, balanced.risk, blitz.risk],
+              ['Coverage', defend.coverage, balanced.coverage, blitz.coverage],
+              ['Approach', defend.keyChanges.join(', '), balanced.keyChanges.join(', '), blitz.keyChanges.join(', ')],
+            ],
+          },
+          { kind: 'paragraph', text: pack.scenarioComparison.recommendation },
+        ];
+      }
+      case 'Top Site Analysis':
+        return [
+          {
+            kind: 'table',
+            columns: ['Site', 'Rationale', 'Key metrics', 'Risks'],
+            rows: pack.topSites.map((top) => [
+              `${top.site.lat.toFixed(4)}, ${top.site.lng.toFixed(4)}`,
+              top.rationale,
+              top.keyMetrics,
+              top.risks.join(', ') || 'None flagged',
+            ]),
+          },
+        ];
+      case 'Risk Assessment':
+        return [
+          {
+            kind: 'metrics',
+            items: [
+              { label: 'Overall risk', value: pack.riskAssessment.overallRisk },
+              { label: 'Stability', value: pack.riskAssessment.stabilityScore },
+            ],
+          },
+          { kind: 'bullets', items: pack.riskAssessment.keyRisks },
+          { kind: 'paragraph', text: 'Mitigation' },
+          { kind: 'bullets', items: pack.riskAssessment.mitigationStrategies },
+        ];
+      case 'Regional Analysis':
+        return [
+          {
+            kind: 'table',
+            columns: ['Region', 'Sites'],
+            rows: Object.entries(pack.regionalAnalysis.distribution)
+              .sort(([, a], [, b]) => b - a)
+              .map(([region, count]) => [region, String(count)]),
+          },
+          { kind: 'bullets', items: pack.regionalAnalysis.recommendations },
+        ];
+      case 'Alternative Options': {
+        const { conservative, aggressive } = pack.alternativeOptions;
+        return [
+          {
+            kind: 'table',
+            columns: ['Option', 'Sites', 'ROI', 'Risk'],
+            rows: [
+              ['Conservative', String(conservative.k), conservative.roi, conservative.risk],
+              ['Aggressive', String(aggressive.k), aggressive.roi, aggressive.risk],
+            ],
+          },
+          { kind: 'paragraph', text: pack.alternativeOptions.rationale },
+        ];
+      }
+      case 'Next Steps':
+        return [{ kind: 'bullets', items: pack.nextSteps }];
+      case 'Appendix':
+        return [
+          { kind: 'paragraph', text: pack.appendix.methodology },
+          { kind: 'paragraph', text: pack.appendix.dataQuality },
+          { kind: 'bullets', items: pack.appendix.assumptions },
+        ];
+      default:
+        return [];
+    }
+  }
+
+  private diagnostics(candidates: LocationCandidate[]): SystemDiagnostics {
+    const scores = candidates.map((candidate) => candidate.scores.final).sort((a, b) => a - b);
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+
+    return {
+      weightsUsed: DEFAULT_WEIGHTS,
+      anchorDedupReport: { totalAnchors: 0, deduplicatedAnchors: 0, mergesByType: {} as SystemDiagnostics['anchorDedupReport']['mergesByType'] },
+      rejectionBreakdown: Object.fromEntries(Object.values(RejectionReason).map((reason) => [reason, 0])) as Record<
+        RejectionReason,
+        number
+      >,
+      scoringDistribution: {
+        mean,
+        median: scores[Math.floor(scores.length / 2)],
+        std: Math.sqrt(variance),
+        min: scores[0],
+        max: scores[scores.length - 1],
+      },
+    };
+  }
+
+  private formatMetric(value: number, format: 'number' | 'currency' | 'percentage'): string {
+    if (format === 'currency') return currency(value);
+    if (format === 'percentage') return percent(value);
+    return Number.isInteger(value) ? String(value) : value.toFixed(1);
+  }
+
+  /** Open stores in the countries the compared scenarios draw from */
+  private async openStores(scenarios: ScenarioResult[]): Promise<Array<MapPoint & { id: string }>> {
+    const countries = [
+      ...new Set(scenarios.flatMap((scenario) => scenario.portfolio.selectedStores.map((store) => store.country))),
+    ].filter(Boolean);
+    if (countries.length === 0) return [];
+
+    const rows = await this.prisma.store.findMany({
+      where: {
+        country: { in: countries },
+        latitude: { not: null },
+        longitude: { not: null },
+        OR: [{ status: { in: OPEN_STATUSES } }, { status: null }],
+      },
+      select: { id: true, latitude: true, longitude: true },
+    });
+    return rows.map((row) => ({ id: row.id, lat: row.latitude!, lng: row.longitude! }));
+  }
+
+  private async storeLocations(ids: string[]): Promise<Array<MapPoint & { id: string }>> {
+    if (ids.length === 0) return [];
+    const rows = await this.prisma.store.findMany({
+      where: { id: { in: ids }, latitude: { not: null }, longitude: { not: null } },
+      select: { id: true, latitude: true, longitude: true },
+    });
+    return rows.map((row) => ({ id: row.id, lat: row.latitude!, lng: row.longitude! }));
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Format-neutral board pack document. The export service builds one of these
+ * from a saved scenario or a scenario comparison, and the PDF and PPTX writers
+ * lay it out for print and for slides respectively.
+ */
+
+export type BoardPackFormat = 'pdf' | 'pptx';
+
+export interface MapPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface Raster {
+  width: number;
+  height: number;
+  /** RGB, 3 bytes per pixel, rows top to bottom */
+  pixels: Buffer;
+}
+
+export type BoardPackBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'bullets'; items: string[] }
+  | { kind: 'metrics'; items: Array<{ label: string; value: string }> }
+  | { kind: 'table'; columns: string[]; rows: string[][] }
+  | { kind: 'map'; caption: string; image: Raster };
+
+export interface BoardPackSection {
+  title: string;
+  blocks: BoardPackBlock[];
+}
+
+export interface BoardPackDocument {
+  title: string;
+  subtitle: string;
+  generatedAt: Date;
+  sections: BoardPackSection[];
+}
+
+export interface RenderedBoardPack {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
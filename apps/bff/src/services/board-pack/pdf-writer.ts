@@ -0,0 +1,343 @@
+import { deflateSync } from 'zlib';
+import { BoardPackBlock, BoardPackDocument, Raster } from './board-pack.types';
+
+/**
+ * Dependency-free PDF writer for board packs: A4 portrait, the standard
+ * Helvetica faces (so no font embedding), one section per page run, maps as
+ * embedded RGB images.
+ */
+
+type Rgb = [number, number, number];
+type Font = 'regular' | 'bold';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_Y = 30;
+
+const INK: Rgb = [0.13, 0.13, 0.13];
+const MUTED: Rgb = [0.45, 0.45, 0.45];
+const ACCENT: Rgb = [0, 0.65, 0.32];
+const PANEL: Rgb = [0.95, 0.96, 0.96];
+
+// Helvetica / Helvetica-Bold advance widths (1/1000 em) for ASCII 32..126, from the AFM files
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+function encodeText(text: string): number[] {
+  return Array.from(text).map((char) => {
+    const code = char.codePointAt(0)!;
+    if (code >= 32 && code <= 126) return code;
+    if (code >= 0xa0 && code <= 0xff) return code;
+    return WIN_ANSI[char] ?? 0x3f; // '?'
+  });
+}
+
+function textWidth(text: string, font: Font, size: number): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD : HELVETICA;
+  const units = encodeText(text).reduce((sum, code) => {
+    if (code >= 32 && code <= 126) return sum + widths[code - 32];
+    return sum + (code === 0x95 ? 350 : code === 0x97 || code === 0x85 ? 1000 : 556);
+  }, 0);
+  return (units / 1000) * size;
+}
+
+function pdfString(text: string): string {
+  return (
+    '(' +
+    encodeText(text)
+      .map((code) => {
+        if (code === 0x28 || code === 0x29 || code === 0x5c) return '\\' + String.fromCharCode(code);
+        if (code > 126) return '\\' + code.toString(8).padStart(3, '0');
+        return String.fromCharCode(code);
+      })
+      .join('') +
+    ')'
+  );
+}
+
+function wrap(text: string, font: Font, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Hard-break words wider than the column
+      let rest = word;
+      while (textWidth(rest, font, size) > width && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), font, size) > width) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const color = ([r, g, b]: Rgb, op: 'rg' | 'RG') => `${num(r)} ${num(g)} ${num(b)} ${op}`;
+
+class PdfLayout {
+  readonly pages: string[][] = [];
+  readonly images: Raster[] = [];
+  private ops: string[] = [];
+  private y = 0;
+
+  constructor(private readonly footer: string) {}
+
+  newPage() {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+    const label = `${this.footer} · ${this.pages.length}`;
+    this.text(label, PAGE_WIDTH - MARGIN - textWidth(label, 'regular', 8), FOOTER_Y, 'regular', 8, MUTED);
+  }
+
+  /** Start a new page unless the next `height` points fit on this one */
+  ensure(height: number) {
+    if (this.y - height < MARGIN) this.newPage();
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  text(text: string, x: number, y: number, font: Font, size: number, fill: Rgb = INK) {
+    this.ops.push(`BT ${color(fill, 'rg')} /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf 1 0 0 1 ${num(x)} ${num(y)} Tm ${pdfString(text)} Tj ET`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: Rgb) {
+    this.ops.push(`${color(fill, 'rg')} ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, stroke: Rgb, width = 0.5) {
+    this.ops.push(`${color(stroke, 'RG')} ${width} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+
+  /** Wrapped text flowing down from the cursor, breaking pages as needed */
+  paragraph(text: string, options: { font?: Font; size?: number; fill?: Rgb; indent?: number } = {}) {
+    const { font = 'regular', size = 10, fill = INK, indent = 0 } = options;
+    const leading = size * 1.4;
+    for (const line of wrap(text, font, size, CONTENT_WIDTH - indent)) {
+      this.ensure(leading);
+      this.y -= leading;
+      this.text(line, MARGIN + indent, this.y + size * 0.3, font, size, fill);
+    }
+  }
+
+  heading(text: string) {
+    this.ensure(40);
+    this.y -= 20;
+    this.text(text, MARGIN, this.y, 'bold', 16);
+    this.y -= 8;
+    this.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, ACCENT, 1.5);
+    this.y -= 10;
+  }
+
+  bullets(items: string[]) {
+    for (const item of items) {
+      this.ensure(14);
+      this.text('•', MARGIN + 4, this.y - 14 + 3, 'regular', 10, ACCENT);
+      this.paragraph(item, { indent: 16 });
+    }
+  }
+
+  metrics(items: Array<{ label: string; value: string }>) {
+    const perRow = Math.min(3, items.length);
+    const gap = 8;
+    const width = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow;
+    const height = 44;
+
+    for (let i = 0; i < items.length; i += perRow) {
+      this.ensure(height + gap);
+      this.y -= height;
+      items.slice(i, i + perRow).forEach((item, column) => {
+        const x = MARGIN + column * (width + gap);
+        this.rect(x, this.y, width, height, PANEL);
+        this.text(item.label, x + 8, this.y + height - 14, 'regular', 8, MUTED);
+        const value = wrap(item.value, 'bold', 13, width - 16)[0];
+        this.text(value, x + 8, this.y + 10, 'bold', 13);
+      });
+      this.y -= gap;
+    }
+  }
+
+  table(columns: string[], rows: string[][]) {
+    const width = CONTENT_WIDTH / columns.length;
+    const size = 9;
+    const leading = size * 1.35;
+
+    const drawRow = (cells: string[], font: Font, fill?: Rgb) => {
+      const wrapped = cells.map((cell) => wrap(cell, font, size, width - 8));
+      const height = Math.max(...wrapped.map((lines) => lines.length)) * leading + 6;
+      if (this.y - height < MARGIN) return false;
+      this.y -= height;
+      if (fill) this.rect(MARGIN, this.y, CONTENT_WIDTH, height, fill);
+      wrapped.forEach((lines, column) => {
+        lines.forEach((line, index) => {
+          this.text(line, MARGIN + column * width + 4, this.y + height - 3 - (index + 1) * leading + size * 0.3, font, size);
+        });
+      });
+      this.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, [0.85, 0.85, 0.85]);
+      return true;
+    };
+
+    this.ensure(3 * leading);
+    drawRow(columns, 'bold', PANEL);
+    for (const row of rows) {
+      if (!drawRow(row, 'regular')) {
+        // Continue on a fresh page with the header repeated
+        this.newPage();
+        drawRow(columns, 'bold', PANEL);
+        drawRow(row, 'regular');
+      }
+    }
+    this.y -= 8;
+  }
+
+  image(raster: Raster, caption: string) {
+    const height = (CONTENT_WIDTH * raster.height) / raster.width;
+    this.ensure(height + 20);
+    this.y -= height;
+    this.images.push(raster);
+    this.ops.push(`q ${num(CONTENT_WIDTH)} 0 0 ${num(height)} ${MARGIN} ${num(this.y)} cm /Im${this.images.length} Do Q`);
+    this.paragraph(caption, { size: 8, fill: MUTED });
+    this.y -= 6;
+  }
+
+  block(block: BoardPackBlock) {
+    switch (block.kind) {
+      case 'paragraph':
+        this.paragraph(block.text);
+        this.y -= 6;
+        break;
+      case 'bullets':
+        this.bullets(block.items);
+        this.y -= 6;
+        break;
+      case 'metrics':
+        this.metrics(block.items);
+        break;
+      case 'table':
+        this.table(block.columns, block.rows);
+        break;
+      case 'map':
+        this.image(block.image, block.caption);
+        break;
+    }
+  }
+}
+
+function serialize(layout: PdfLayout, title: string): Buffer {
+  const objects: Array<Buffer | string> = [];
+  const add = (object: Buffer | string) => {
+    objects.push(object);
+    return objects.length;
+  };
+  const stream = (dictionary: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`), data, Buffer.from('\nendstream')]);
+
+  const catalogId = add('');
+  const pagesId = add('');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const infoId = add(`<< /Title ${pdfString(title)} /Producer (Subway BFF) >>`);
+
+  const imageIds = layout.images.map((image) =>
+    add(
+      stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode`,
+        deflateSync(image.pixels),
+      ),
+    ),
+  );
+  const xObjects = imageIds.map((id, index) => `/Im${index + 1} ${id} 0 R`).join(' ');
+
+  const pageIds = layout.pages.map((ops) => {
+    const contentId = add(stream('/Filter /FlateDecode', deflateSync(Buffer.from(ops.join('\n'), 'latin1'))));
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${contentId} 0 R >>`,
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    const body = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`),
+      typeof object === 'string' ? Buffer.from(object, 'latin1') : object,
+      Buffer.from('\nendobj\n'),
+    ]);
+    offsets.push(offset);
+    chunks.push(body);
+    offset += body.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((value) => `${value.toString().padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    offset.toString(),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(xref + '\n', 'latin1'));
+
+  return Buffer.concat(chunks);
+}
+
+export function renderBoardPackPdf(document: BoardPackDocument): Buffer {
+  const layout = new PdfLayout(document.title);
+
+  // Cover
+  layout.newPage();
+  layout.space(200);
+  layout.paragraph(document.title, { font: 'bold', size: 24 });
+  layout.space(8);
+  layout.paragraph(document.subtitle, { size: 12, fill: MUTED });
+  layout.space(4);
+  layout.paragraph(`Generated ${document.generatedAt.toISOString().slice(0, 10)}`, { size: 10, fill: MUTED });
+
+  for (const section of document.sections) {
+    layout.newPage();
+    layout.heading(section.title);
+    section.blocks.forEach((block) => layout.block(block));
+  }
+
+  return serialize(layout, document.title);
+}
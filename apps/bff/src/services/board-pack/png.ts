@@ -0,0 +1,131 @@
+import { deflateSync, inflateSync } from 'zlib';
+import { Raster } from './board-pack.types';
+import { crc32 } from './zip';
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Samples per pixel for the 8-bit colour types we read */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+/** Encode an RGB raster as an 8-bit truecolour PNG */
+export function encodePng(raster: Raster): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(raster.width, 0);
+  header.writeUInt32BE(raster.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour
+
+  const stride = raster.width * 3;
+  const filtered = Buffer.alloc((stride + 1) * raster.height);
+  for (let y = 0; y < raster.height; y++) {
+    // Filter type 0 (none) per row
+    raster.pixels.copy(filtered, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(filtered)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode a non-interlaced 8-bit PNG into an RGB raster, flattening alpha onto
+ * white. Returns null for layouts we don't read (16-bit, interlaced, ...).
+ */
+export function decodePng(data: Buffer): Raster | null {
+  if (data.length < 8 || !data.subarray(0, 8).equals(SIGNATURE)) return null;
+
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= data.length; ) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      const bitDepth = body[8];
+      colorType = body[9];
+      const interlaced = body[12] !== 0;
+      if (bitDepth !== 8 || interlaced || !(colorType in CHANNELS)) return null;
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  if (width === 0 || idat.length === 0 || (colorType === 3 && !palette)) return null;
+
+  const channels = CHANNELS[colorType];
+  const stride = width * channels;
+  const inflated = inflateSync(Buffer.concat(idat));
+  const samples = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = inflated[y * (stride + 1)];
+    const row = inflated.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? samples[out + x - channels] : 0;
+      const up = y > 0 ? samples[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? samples[out - stride + x - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) predictor = paeth(left, up, upLeft);
+      samples[out + x] = (row[x] + predictor) & 0xff;
+    }
+  }
+
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    const s = i * channels;
+    let rgb: [number, number, number];
+    let alpha = 255;
+    if (colorType === 3) {
+      const index = samples[s] * 3;
+      rgb = [palette![index], palette![index + 1], palette![index + 2]];
+    } else if (colorType === 0 || colorType === 4) {
+      rgb = [samples[s], samples[s], samples[s]];
+      if (colorType === 4) alpha = samples[s + 1];
+    } else {
+      rgb = [samples[s], samples[s + 1], samples[s + 2]];
+      if (colorType === 6) alpha = samples[s + 3];
+    }
+    for (let c = 0; c < 3; c++) {
+      pixels[i * 3 + c] = Math.round((rgb[c] * alpha + 255 * (255 - alpha)) / 255);
+    }
+  }
+
+  return { width, height, pixels };
+}
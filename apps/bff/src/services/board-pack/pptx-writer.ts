@@ -0,0 +1,387 @@
+import { BoardPackBlock, BoardPackDocument } from './board-pack.types';
+import { encodePng } from './png';
+import { writeZip, ZipEntry } from './zip';
+
+/**
+ * Dependency-free PowerPoint (OOXML) writer for board packs. One blank
+ * master/layout, 16:9 slides, one or more slides per section: text as text
+ * boxes, tables as native tables, maps as PNG pictures, so the deck can be
+ * restyled after download.
+ */
+
+const EMU_PER_PT = 12700;
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const LEFT = 457200;
+const BODY_WIDTH = SLIDE_WIDTH - 2 * LEFT;
+const BODY_TOP = 1143000;
+const BODY_BOTTOM = SLIDE_HEIGHT - 381000;
+const GAP = 152400;
+
+const BODY_PT = 16;
+const LINE_EMU = BODY_PT * 1.25 * EMU_PER_PT;
+// Conservative average for Arial at BODY_PT across the body width
+const CHARS_PER_LINE = 100;
+const METRICS_PER_ROW = 4;
+const METRIC_HEIGHT = 914400;
+const TABLE_ROW_HEIGHT = 370840;
+const TABLE_ROWS_PER_SLIDE = 10;
+
+const INK = '1F2937';
+const MUTED = '6B7280';
+const ACCENT = '00A651';
+const PANEL = 'F3F4F6';
+
+const NS =
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const EMPTY_GROUP =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+interface Slide {
+  title: string;
+  subtitle?: string;
+  blocks: BoardPackBlock[];
+}
+
+interface Box {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function run(text: string, options: { size?: number; bold?: boolean; color?: string } = {}): string {
+  const { size = BODY_PT, bold = false, color = INK } = options;
+  return (
+    `<a:r><a:rPr lang="en-GB" sz="${size * 100}"${bold ? ' b="1"' : ''} dirty="0">` +
+    `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill></a:rPr><a:t>${escapeXml(text)}</a:t></a:r>`
+  );
+}
+
+const xfrm = (box: Box) =>
+  `<a:xfrm><a:off x="${Math.round(box.x)}" y="${Math.round(box.y)}"/><a:ext cx="${Math.round(box.cx)}" cy="${Math.round(box.cy)}"/></a:xfrm>`;
+
+function textBox(id: number, box: Box, paragraphs: string[], fill?: string): string {
+  return (
+    `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Text ${id}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+    `<p:spPr>${xfrm(box)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>` +
+    (fill ? `<a:solidFill><a:srgbClr val="${fill}"/></a:solidFill>` : '<a:noFill/>') +
+    `</p:spPr><p:txBody><a:bodyPr wrap="square" lIns="91440" tIns="45720" rIns="91440" bIns="45720"><a:normAutofit/></a:bodyPr>` +
+    `<a:lstStyle/>${paragraphs.join('')}</p:txBody></p:sp>`
+  );
+}
+
+const paragraph = (runs: string, properties = '') => `<a:p>${properties}${runs}</a:p>`;
+const bulletProperties =
+  `<a:pPr marL="285750" indent="-285750"><a:buClr><a:srgbClr val="${ACCENT}"/></a:buClr>` +
+  `<a:buFont typeface="Arial"/><a:buChar char="•"/></a:pPr>`;
+
+function tableFrame(id: number, box: Box, columns: string[], rows: string[][]): string {
+  const columnWidth = Math.floor(box.cx / columns.length);
+  const cell = (text: string, header: boolean) =>
+    `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/>${paragraph(run(text, { size: 12, bold: header }))}</a:txBody>` +
+    `<a:tcPr><a:lnB w="6350"><a:solidFill><a:srgbClr val="D1D5DB"/></a:solidFill></a:lnB>` +
+    (header ? `<a:solidFill><a:srgbClr val="${PANEL}"/></a:solidFill>` : '<a:noFill/>') +
+    `</a:tcPr></a:tc>`;
+  const row = (cells: string[], header: boolean) =>
+    `<a:tr h="${TABLE_ROW_HEIGHT}">${cells.map((text) => cell(text, header)).join('')}</a:tr>`;
+
+  return (
+    `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Table ${id}"/>` +
+    `<p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>` +
+    `<p:xfrm><a:off x="${box.x}" y="${Math.round(box.y)}"/><a:ext cx="${columnWidth * columns.length}" cy="${Math.round(box.cy)}"/></p:xfrm>` +
+    `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl>` +
+    `<a:tblPr firstRow="1"/><a:tblGrid>${columns.map(() => `<a:gridCol w="${columnWidth}"/>`).join('')}</a:tblGrid>` +
+    row(columns, true) +
+    rows.map((cells) => row(cells, false)).join('') +
+    `</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`
+  );
+}
+
+function picture(id: number, relId: string, box: Box): string {
+  return (
+    `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="Map ${id}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>` +
+    `<p:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+    `<p:spPr>${xfrm(box)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`
+  );
+}
+
+function textLines(text: string): number {
+  return Math.max(1, Math.ceil(text.length / CHARS_PER_LINE));
+}
+
+function blockHeight(block: BoardPackBlock): number {
+  switch (block.kind) {
+    case 'paragraph':
+      return textLines(block.text) * LINE_EMU + 91440;
+    case 'bullets':
+      return block.items.reduce((sum, item) => sum + textLines(item), 0) * LINE_EMU + 91440;
+    case 'metrics':
+      return Math.ceil(block.items.length / METRICS_PER_ROW) * (METRIC_HEIGHT + GAP) - GAP;
+    case 'table':
+      return (block.rows.length + 1) * TABLE_ROW_HEIGHT;
+    case 'map':
+      return BODY_BOTTOM - BODY_TOP;
+  }
+}
+
+/** Split sections into slides that fit the body area; maps get a slide each */
+function planSlides(document: BoardPackDocument): Slide[] {
+  const slides: Slide[] = [{ title: document.title, subtitle: document.subtitle, blocks: [] }];
+
+  for (const section of document.sections) {
+    let current: Slide = { title: section.title, blocks: [] };
+    let used = 0;
+    const place = (block: BoardPackBlock) => {
+      const height = blockHeight(block);
+      if (current.blocks.length > 0 && used + height > BODY_BOTTOM - BODY_TOP) {
+        slides.push(current);
+        current = { title: `${section.title} (cont.)`, blocks: [] };
+        used = 0;
+      }
+      current.blocks.push(block);
+      used += height + GAP;
+    };
+
+    for (const block of section.blocks) {
+      if (block.kind === 'table' && block.rows.length > TABLE_ROWS_PER_SLIDE) {
+        for (let i = 0; i < block.rows.length; i += TABLE_ROWS_PER_SLIDE) {
+          place({ ...block, rows: block.rows.slice(i, i + TABLE_ROWS_PER_SLIDE) });
+        }
+      } else {
+        place(block);
+      }
+    }
+    slides.push(current);
+  }
+
+  return slides;
+}
+
+function renderSlide(slide: Slide, isCover: boolean, media: (png: Buffer) => string): string {
+  const shapes: string[] = [];
+  let nextId = 2;
+
+  if (isCover) {
+    shapes.push(
+      textBox(nextId++, { x: LEFT, y: 2286000, cx: BODY_WIDTH, cy: 1143000 }, [
+        paragraph(run(slide.title, { size: 36, bold: true })),
+      ]),
+      textBox(nextId++, { x: LEFT, y: 3429000, cx: BODY_WIDTH, cy: 914400 }, [
+        paragraph(run(slide.subtitle ?? '', { size: 18, color: MUTED })),
+      ]),
+    );
+  } else {
+    shapes.push(
+      textBox(nextId++, { x: LEFT, y: 304800, cx: BODY_WIDTH, cy: 685800 }, [
+        paragraph(run(slide.title, { size: 28, bold: true })),
+      ]),
+    );
+  }
+
+  let y = BODY_TOP;
+  for (const block of slide.blocks) {
+    const height = Math.min(blockHeight(block), BODY_BOTTOM - y);
+    const box = { x: LEFT, y, cx: BODY_WIDTH, cy: height };
+
+    switch (block.kind) {
+      case 'paragraph':
+        shapes.push(textBox(nextId++, box, [paragraph(run(block.text))]));
+        break;
+      case 'bullets':
+        shapes.push(textBox(nextId++, box, block.items.map((item) => paragraph(run(item), bulletProperties))));
+        break;
+      case 'metrics': {
+        const width = (BODY_WIDTH - GAP * (METRICS_PER_ROW - 1)) / METRICS_PER_ROW;
+        block.items.forEach((item, index) => {
+          const row = Math.floor(index / METRICS_PER_ROW);
+          const column = index % METRICS_PER_ROW;
+          shapes.push(
+            textBox(
+              nextId++,
+              { x: LEFT + column * (width + GAP), y: y + row * (METRIC_HEIGHT + GAP), cx: width, cy: METRIC_HEIGHT },
+              [paragraph(run(item.label, { size: 11, color: MUTED })), paragraph(run(item.value, { size: 20, bold: true }))],
+              PANEL,
+            ),
+          );
+        });
+        break;
+      }
+      case 'table':
+        shapes.push(tableFrame(nextId++, box, block.columns, block.rows));
+        break;
+      case 'map': {
+        const captionHeight = 2 * LINE_EMU;
+        const imageHeight = height - captionHeight;
+        const imageWidth = Math.min(BODY_WIDTH, (imageHeight * block.image.width) / block.image.height);
+        const relId = media(encodePng(block.image));
+        shapes.push(
+          picture(nextId++, relId, { x: (SLIDE_WIDTH - imageWidth) / 2, y, cx: imageWidth, cy: imageHeight }),
+          textBox(nextId++, { x: LEFT, y: y + imageHeight, cx: BODY_WIDTH, cy: captionHeight }, [
+            paragraph(run(block.caption, { size: 12, color: MUTED })),
+          ]),
+        );
+        break;
+      }
+    }
+    y += height + GAP;
+  }
+
+  return (
+    `${XML_HEADER}<p:sld ${NS}><p:cSld><p:spTree>${EMPTY_GROUP}${shapes.join('')}</p:spTree></p:cSld>` +
+    `<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+  );
+}
+
+const relationships = (items: Array<{ id: string; type: string; target: string }>) =>
+  `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  items.map((item) => `<Relationship Id="${item.id}" Type="${item.type}" Target="${item.target}"/>`).join('') +
+  `</Relationships>`;
+
+function theme(): string {
+  const colors = [
+    ['dk1', '000000'], ['lt1', 'FFFFFF'], ['dk2', INK], ['lt2', PANEL], ['accent1', ACCENT], ['accent2', 'FFC600'],
+    ['accent3', '2563EB'], ['accent4', 'DC2626'], ['accent5', '7C3AED'], ['accent6', '0891B2'], ['hlink', '2563EB'],
+    ['folHlink', '7C3AED'],
+  ];
+  const font = '<a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/>';
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const line = `<a:ln w="6350">${fill}</a:ln>`;
+  const effect = '<a:effectStyle><a:effectLst/></a:effectStyle>';
+  return (
+    `${XML_HEADER}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Board Pack"><a:themeElements>` +
+    `<a:clrScheme name="Board Pack">${colors.map(([name, value]) => `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`).join('')}</a:clrScheme>` +
+    `<a:fontScheme name="Board Pack"><a:majorFont>${font}</a:majorFont><a:minorFont>${font}</a:minorFont></a:fontScheme>` +
+    `<a:fmtScheme name="Board Pack"><a:fillStyleLst>${fill.repeat(3)}</a:fillStyleLst><a:lnStyleLst>${line.repeat(3)}</a:lnStyleLst>` +
+    `<a:effectStyleLst>${effect.repeat(3)}</a:effectStyleLst><a:bgFillStyleLst>${fill.repeat(3)}</a:bgFillStyleLst></a:fmtScheme>` +
+    `</a:themeElements></a:theme>`
+  );
+}
+
+export function renderBoardPackPptx(document: BoardPackDocument): Buffer {
+  const slides = planSlides(document);
+  const entries: ZipEntry[] = [];
+  let mediaCount = 0;
+
+  const slideXml = slides.map((slide, index) => {
+    const slideRels = [{ id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' }];
+    const xml = renderSlide(slide, index === 0, (png) => {
+      mediaCount++;
+      entries.push({ path: `ppt/media/image${mediaCount}.png`, data: png });
+      const id = `rId${slideRels.length + 1}`;
+      slideRels.push({ id, type: `${REL}/image`, target: `../media/image${mediaCount}.png` });
+      return id;
+    });
+    entries.push({ path: `ppt/slides/_rels/slide${index + 1}.xml.rels`, data: relationships(slideRels) });
+    return xml;
+  });
+
+  const contentType = (part: string, type: string) =>
+    `<Override PartName="${part}" ContentType="application/vnd.openxmlformats-${type}"/>`;
+
+  entries.unshift(
+    {
+      path: '[Content_Types].xml',
+      data:
+        `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/>` +
+        contentType('/ppt/presentation.xml', 'officedocument.presentationml.presentation.main+xml') +
+        contentType('/ppt/slideMasters/slideMaster1.xml', 'officedocument.presentationml.slideMaster+xml') +
+        contentType('/ppt/slideLayouts/slideLayout1.xml', 'officedocument.presentationml.slideLayout+xml') +
+        contentType('/ppt/theme/theme1.xml', 'officedocument.theme+xml') +
+        slides.map((_, i) => contentType(`/ppt/slides/slide${i + 1}.xml`, 'officedocument.presentationml.slide+xml')).join('') +
+        contentType('/docProps/core.xml', 'package.core-properties+xml') +
+        contentType('/docProps/app.xml', 'officedocument.extended-properties+xml') +
+        `</Types>`,
+    },
+    {
+      path: '_rels/.rels',
+      data: relationships([
+        { id: 'rId1', type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+        {
+          id: 'rId2',
+          type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+          target: 'docProps/core.xml',
+        },
+        { id: 'rId3', type: `${REL}/extended-properties`, target: 'docProps/app.xml' },
+      ]),
+    },
+    {
+      path: 'docProps/core.xml',
+      data:
+        `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+        `xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ` +
+        `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(document.title)}</dc:title>` +
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${document.generatedAt.toISOString()}</dcterms:created></cp:coreProperties>`,
+    },
+    {
+      path: 'docProps/app.xml',
+      data:
+        `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+        `<Application>Subway BFF</Application><Slides>${slides.length}</Slides></Properties>`,
+    },
+    {
+      path: 'ppt/presentation.xml',
+      data:
+        `${XML_HEADER}<p:presentation ${NS}><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>` +
+        `<p:sldIdLst>${slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`).join('')}</p:sldIdLst>` +
+        `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="${SLIDE_HEIGHT}" cy="${SLIDE_WIDTH}"/></p:presentation>`,
+    },
+    {
+      path: 'ppt/_rels/presentation.xml.rels',
+      data: relationships([
+        { id: 'rId1', type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+        { id: 'rId2', type: `${REL}/theme`, target: 'theme/theme1.xml' },
+        ...slides.map((_, i) => ({ id: `rId${i + 3}`, type: `${REL}/slide`, target: `slides/slide${i + 1}.xml` })),
+      ]),
+    },
+    {
+      path: 'ppt/slideMasters/slideMaster1.xml',
+      data:
+        `${XML_HEADER}<p:sldMaster ${NS}><p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="FFFFFF"/></a:solidFill><a:effectLst/></p:bgPr></p:bg>` +
+        `<p:spTree>${EMPTY_GROUP}</p:spTree></p:cSld>` +
+        `<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ` +
+        `accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>` +
+        `<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>` +
+        `<p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles></p:sldMaster>`,
+    },
+    {
+      path: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationships([
+        { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: `${REL}/theme`, target: '../theme/theme1.xml' },
+      ]),
+    },
+    {
+      path: 'ppt/slideLayouts/slideLayout1.xml',
+      data:
+        `${XML_HEADER}<p:sldLayout ${NS} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${EMPTY_GROUP}</p:spTree></p:cSld>` +
+        `<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`,
+    },
+    {
+      path: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: relationships([{ id: 'rId1', type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' }]),
+    },
+    { path: 'ppt/theme/theme1.xml', data: theme() },
+  );
+
+  slideXml.forEach((xml, index) => entries.push({ path: `ppt/slides/slide${index + 1}.xml`, data: xml }));
+
+  return writeZip(entries);
+}
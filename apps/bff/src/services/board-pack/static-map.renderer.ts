@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MapPoint, Raster } from './board-pack.types';
+import { decodePng } from './png';
+
+export interface StaticMapLayers {
+  /** Current estate, drawn small and grey */
+  existing: MapPoint[];
+  /** Sites proposed by the scenario, drawn on top in brand green */
+  proposed: MapPoint[];
+}
+
+const WIDTH = 960;
+const HEIGHT = 600;
+// Mapbox style tiles are 512px, so the world is 512 * 2^zoom pixels wide
+const TILE_SIZE = 512;
+const MAX_ZOOM = 14;
+const PADDING = 0.1;
+const MIN_SPAN = 0.0005;
+
+const BACKGROUND: [number, number, number] = [238, 242, 245];
+const GRID: [number, number, number] = [220, 226, 232];
+const EXISTING: [number, number, number] = [120, 120, 120];
+const PROPOSED: [number, number, number] = [0, 166, 81];
+const WHITE: [number, number, number] = [255, 255, 255];
+
+const mercatorX = (lng: number) => (lng + 180) / 360;
+const mercatorY = (lat: number) => {
+  const phi = (Math.max(-85, Math.min(85, lat)) * Math.PI) / 180;
+  return (1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2;
+};
+const latitudeOf = (y: number) => (Math.atan(Math.sinh(Math.PI * (1 - 2 * y))) * 180) / Math.PI;
+
+/**
+ * Renders store and site locations to a static image for board packs. Uses a
+ * Mapbox basemap when MAPBOX_ACCESS_TOKEN is set and a plain graticule
+ * otherwise, so exports still work offline.
+ */
+@Injectable()
+export class StaticMapRenderer {
+  private readonly logger = new Logger(StaticMapRenderer.name);
+  private readonly token = process.env.MAPBOX_ACCESS_TOKEN;
+
+  async render(layers: StaticMapLayers): Promise<Raster> {
+    const points = [...layers.existing, ...layers.proposed];
+    const view = this.fit(points.length > 0 ? points : [{ lat: 51, lng: 10 }]);
+
+    const raster = (await this.basemap(view)) ?? this.graticule(view);
+    const project = (point: MapPoint) => ({
+      x: (mercatorX(point.lng) - view.centerX) * view.scale + WIDTH / 2,
+      y: (mercatorY(point.lat) - view.centerY) * view.scale + HEIGHT / 2,
+    });
+
+    for (const point of layers.existing) {
+      const { x, y } = project(point);
+      this.disc(raster, x, y, 3, EXISTING);
+    }
+    for (const point of layers.proposed) {
+      const { x, y } = project(point);
+      this.disc(raster, x, y, 7, WHITE);
+      this.disc(raster, x, y, 5, PROPOSED);
+    }
+
+    return raster;
+  }
+
+  private fit(points: MapPoint[]) {
+    const xs = points.map((p) => mercatorX(p.lng));
+    const ys = points.map((p) => mercatorY(p.lat));
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+
+    const spanX = Math.max(maxX - minX, MIN_SPAN) * (1 + 2 * PADDING);
+    const spanY = Math.max(maxY - minY, MIN_SPAN) * (1 + 2 * PADDING);
+    const zoom = Math.min(MAX_ZOOM, Math.log2(Math.min(WIDTH / (spanX * TILE_SIZE), HEIGHT / (spanY * TILE_SIZE))));
+
+    return {
+      centerX: (minX + maxX) / 2,
+      centerY: (minY + maxY) / 2,
+      zoom,
+      scale: TILE_SIZE * 2 ** zoom,
+    };
+  }
+
+  private async basemap(view: { centerX: number; centerY: number; zoom: number }): Promise<Raster | null> {
+    if (!this.token) return null;
+
+    const lng = view.centerX * 360 - 180;
+    const lat = latitudeOf(view.centerY);
+    const url =
+      `https://api.mapbox.com/styles/v1/mapbox/light-v11/static/` +
+      `${lng.toFixed(5)},${lat.toFixed(5)},${view.zoom.toFixed(3)}/${WIDTH}x${HEIGHT}` +
+      `?access_token=${this.token}&attribution=false&logo=false`;
+
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(10_000) });
+      if (!response.ok) {
+        this.logger.warn(`Static basemap request failed with ${response.status}`);
+        return null;
+      }
+      const image = decodePng(Buffer.from(await response.arrayBuffer()));
+      return image && image.width === WIDTH && image.height === HEIGHT ? image : null;
+    } catch (error) {
+      this.logger.warn(`Static basemap unavailable: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /** Plain background with a line every degree (or every 10 when zoomed out) */
+  private graticule(view: { centerX: number; centerY: number; scale: number }): Raster {
+    const pixels = Buffer.alloc(WIDTH * HEIGHT * 3);
+    for (let i = 0; i < WIDTH * HEIGHT; i++) pixels.set(BACKGROUND, i * 3);
+    const raster = { width: WIDTH, height: HEIGHT, pixels };
+
+    const toLng = (px: number) => ((px - WIDTH / 2) / view.scale + view.centerX) * 360 - 180;
+    const toLat = (py: number) => latitudeOf((py - HEIGHT / 2) / view.scale + view.centerY);
+    const step = toLng(WIDTH) - toLng(0) > 20 ? 10 : 1;
+
+    let previous = Math.floor(toLng(0) / step);
+    for (let x = 1; x < WIDTH; x++) {
+      const line = Math.floor(toLng(x) / step);
+      if (line !== previous) for (let y = 0; y < HEIGHT; y++) this.plot(raster, x, y, GRID);
+      previous = line;
+    }
+    previous = Math.floor(toLat(0) / step);
+    for (let y = 1; y < HEIGHT; y++) {
+      const line = Math.floor(toLat(y) / step);
+      if (line !== previous) for (let x = 0; x < WIDTH; x++) this.plot(raster, x, y, GRID);
+      previous = line;
+    }
+
+    return raster;
+  }
+
+  private disc(raster: Raster, cx: number, cy: number, radius: number, color: [number, number, number]) {
+    for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y++) {
+      for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x++) {
+        if ((x - cx) ** 2 + (y - cy) ** 2 <= radius ** 2) this.plot(raster, x, y, color);
+      }
+    }
+  }
+
+  private plot(raster: Raster, x: number, y: number, color: [number, number, number]) {
+    if (x < 0 || y < 0 || x >= raster.width || y >= raster.height) return;
+    raster.pixels.set(color, (y * raster.width + x) * 3);
+  }
+}
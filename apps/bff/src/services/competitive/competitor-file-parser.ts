@@ -0,0 +1,283 @@
+/**
+ * Parses competitor lists from market research vendors (CSV) and OSM or
+ * vendor GeoJSON exports into uniform records. Rows that cannot be placed on
+ * a map are rejected with a reason instead of failing the whole file.
+ */
+
+export type CompetitorFileFormat = 'csv' | 'geojson';
+
+export interface CompetitorRecord {
+  /** 1-based data row (CSV, after the header) or feature number (GeoJSON) */
+  row: number;
+  name: string;
+  brand: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  address?: string;
+  city?: string;
+  postcode?: string;
+  country?: string;
+  region?: string;
+  googlePlaceId?: string;
+  osmId?: string;
+  phoneNumber?: string;
+  website?: string;
+}
+
+export interface RejectedRow {
+  row: number;
+  reason: string;
+}
+
+export interface ParsedCompetitorFile {
+  records: CompetitorRecord[];
+  rejected: RejectedRow[];
+}
+
+type Field = Exclude<keyof CompetitorRecord, 'row'>;
+
+/** Column names seen in vendor files, compared lowercased with punctuation removed */
+const HEADER_SYNONYMS: Record<Field, string[]> = {
+  name: ['name', 'storename', 'outletname', 'locationname', 'outlet'],
+  brand: ['brand', 'chain', 'banner', 'brandname'],
+  category: ['category', 'type', 'segment'],
+  latitude: ['lat', 'latitude', 'y'],
+  longitude: ['lng', 'lon', 'long', 'longitude', 'x'],
+  address: ['address', 'street', 'streetaddress', 'addr', 'address1'],
+  city: ['city', 'town', 'locality'],
+  postcode: ['postcode', 'postalcode', 'zip', 'zipcode', 'plz'],
+  country: ['country', 'countrycode'],
+  region: ['region'],
+  googlePlaceId: ['googleplaceid', 'placeid', 'gplaceid'],
+  osmId: ['osmid', 'osm'],
+  phoneNumber: ['phone', 'phonenumber', 'telephone', 'tel'],
+  website: ['website', 'url', 'web'],
+};
+
+const DEFAULT_CATEGORY = 'qsr';
+
+export function parseCompetitorFile(format: CompetitorFileFormat, content: string): ParsedCompetitorFile {
+  return format === 'csv' ? parseCompetitorCsv(content) : parseCompetitorGeoJson(content);
+}
+
+export function parseCompetitorCsv(content: string): ParsedCompetitorFile {
+  const rows = parseCsv(content.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    return { records: [], rejected: [] };
+  }
+
+  const columns = mapHeaders(rows[0]);
+  if (columns.latitude === undefined || columns.longitude === undefined) {
+    throw new Error('CSV needs latitude and longitude columns');
+  }
+  if (columns.brand === undefined && columns.name === undefined) {
+    throw new Error('CSV needs a brand or name column');
+  }
+
+  const records: CompetitorRecord[] = [];
+  const rejected: RejectedRow[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === '')) return;
+    const values: Partial<Record<Field, string>> = {};
+    for (const [field, column] of Object.entries(columns) as Array<[Field, number]>) {
+      const value = cells[column]?.trim();
+      if (value) values[field] = value;
+    }
+    const result = toRecord(index + 1, values);
+    if ('reason' in result) rejected.push(result);
+    else records.push(result);
+  });
+  return { records, rejected };
+}
+
+export function parseCompetitorGeoJson(content: string): ParsedCompetitorFile {
+  let collection: { type?: string; features?: unknown[] };
+  try {
+    collection = JSON.parse(content);
+  } catch {
+    throw new Error('GeoJSON is not valid JSON');
+  }
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('GeoJSON must be a FeatureCollection');
+  }
+
+  const records: CompetitorRecord[] = [];
+  const rejected: RejectedRow[] = [];
+  collection.features.forEach((raw, index) => {
+    const row = index + 1;
+    const feature = raw as { id?: unknown; geometry?: { type?: string; coordinates?: unknown }; properties?: Record<string, unknown> };
+    const position = representativePoint(feature.geometry);
+    if (!position) {
+      rejected.push({ row, reason: `Unsupported geometry ${feature.geometry?.type ?? 'null'}` });
+      return;
+    }
+
+    const properties = feature.properties ?? {};
+    const values: Partial<Record<Field, string>> = {};
+    for (const [key, value] of Object.entries(properties)) {
+      const field = fieldForHeader(key);
+      if (field && value !== null && value !== undefined && String(value).trim()) values[field] = String(value).trim();
+    }
+    Object.assign(values, osmTagValues(properties, feature.id));
+    values.longitude = String(position[0]);
+    values.latitude = String(position[1]);
+
+    const result = toRecord(row, values);
+    if ('reason' in result) rejected.push(result);
+    else records.push(result);
+  });
+  return { records, rejected };
+}
+
+function toRecord(row: number, values: Partial<Record<Field, string>>): CompetitorRecord | RejectedRow {
+  const latitude = parseCoordinate(values.latitude);
+  const longitude = parseCoordinate(values.longitude);
+  if (latitude === null || longitude === null) {
+    return { row, reason: 'Missing or unreadable coordinates' };
+  }
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return { row, reason: `Coordinates out of range (${latitude}, ${longitude})` };
+  }
+  if (latitude === 0 && longitude === 0) {
+    return { row, reason: 'Coordinates are 0,0' };
+  }
+
+  const brand = values.brand ?? values.name;
+  if (!brand) {
+    return { row, reason: 'Missing brand and name' };
+  }
+
+  return {
+    row,
+    name: values.name ?? brand,
+    brand,
+    category: values.category?.toLowerCase() ?? DEFAULT_CATEGORY,
+    latitude,
+    longitude,
+    address: values.address,
+    city: values.city,
+    postcode: values.postcode,
+    country: values.country,
+    region: values.region,
+    googlePlaceId: values.googlePlaceId,
+    osmId: values.osmId,
+    phoneNumber: values.phoneNumber,
+    website: values.website,
+  };
+}
+
+/** Accepts decimal commas, as in semicolon-separated exports from European spreadsheets */
+function parseCoordinate(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function fieldForHeader(header: string): Field | undefined {
+  const key = header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return (Object.keys(HEADER_SYNONYMS) as Field[]).find((field) => HEADER_SYNONYMS[field].includes(key));
+}
+
+function mapHeaders(headers: string[]): Partial<Record<Field, number>> {
+  const columns: Partial<Record<Field, number>> = {};
+  headers.forEach((header, index) => {
+    const field = fieldForHeader(header);
+    if (field && columns[field] === undefined) columns[field] = index;
+  });
+  return columns;
+}
+
+/** OSM tags as exported by Overpass turbo or osmium */
+function osmTagValues(properties: Record<string, unknown>, featureId: unknown): Partial<Record<Field, string>> {
+  const tag = (key: string) => (typeof properties[key] === 'string' ? (properties[key] as string).trim() : undefined);
+  const values: Partial<Record<Field, string>> = {};
+
+  const id = tag('@id') ?? (typeof featureId === 'string' && /^(node|way|relation)\/\d+$/.test(featureId) ? featureId : undefined);
+  if (id) values.osmId = id;
+
+  const street = [tag('addr:street'), tag('addr:housenumber')].filter(Boolean).join(' ');
+  if (street) values.address = street;
+  if (tag('addr:city')) values.city = tag('addr:city');
+  if (tag('addr:postcode')) values.postcode = tag('addr:postcode');
+  if (tag('addr:country')) values.country = tag('addr:country');
+  if (tag('contact:phone')) values.phoneNumber = tag('contact:phone');
+  if (tag('contact:website')) values.website = tag('contact:website');
+
+  if (!tag('category')) {
+    const cuisine = tag('cuisine') ?? '';
+    const amenity = tag('amenity');
+    if (/pizza/.test(cuisine)) values.category = 'pizza';
+    else if (/sandwich/.test(cuisine)) values.category = 'sandwich';
+    else if (amenity === 'cafe' || /coffee/.test(cuisine)) values.category = 'coffee';
+    else if (amenity === 'fast_food') values.category = 'qsr';
+    else if (amenity === 'restaurant') values.category = 'restaurant';
+  }
+  return values;
+}
+
+/** A Point's position, or the vertex average of a Polygon's outer ring for buildings mapped as areas */
+function representativePoint(geometry: { type?: string; coordinates?: unknown } | undefined): [number, number] | null {
+  if (geometry?.type === 'Point' && Array.isArray(geometry.coordinates)) {
+    const [lng, lat] = geometry.coordinates as number[];
+    return typeof lng === 'number' && typeof lat === 'number' ? [lng, lat] : null;
+  }
+  if (geometry?.type === 'Polygon' && Array.isArray(geometry.coordinates)) {
+    const ring = (geometry.coordinates as number[][][])[0] ?? [];
+    const vertices = ring.length > 1 ? ring.slice(0, -1) : ring;
+    if (vertices.length === 0) return null;
+    const sum = vertices.reduce(([x, y], [lng, lat]) => [x + lng, y + lat], [0, 0]);
+    return [sum[0] / vertices.length, sum[1] / vertices.length];
+  }
+  return null;
+}
+
+/**
+ * RFC 4180 CSV with quoted fields, doubled quotes and line breaks inside
+ * quotes. The delimiter (comma, semicolon or tab) is taken from the header.
+ */
+export function parseCsv(content: string): string[][] {
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function detectDelimiter(content: string): string {
+  const header = content.slice(0, content.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map((delimiter) => ({ delimiter, count: header.split(delimiter).length - 1 }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+}
@@ -0,0 +1,467 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { CompetitorChange, CompetitorImport, CompetitorPlace, Prisma, PrismaClient } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import { CompetitorFileFormat, CompetitorRecord, RejectedRow, parseCompetitorFile } from './competitor-file-parser';
+import { CompetitorMatch, KnownCompetitor, normalizeOsmId, planCompetitorChanges } from './competitor-matching';
+
+export const COMPETITOR_CHANGE_TYPES = ['OPENED', 'CLOSED', 'RELOCATED', 'REOPENED'] as const;
+export type CompetitorChangeType = (typeof COMPETITOR_CHANGE_TYPES)[number];
+
+/** Known places are loaded for the records' bounding box plus this margin, so edge matches aren't missed */
+const LOAD_MARGIN_DEGREES = 0.015;
+const TRANSACTION_TIMEOUT_MS = 120_000;
+const IMPORT_RELIABILITY = 0.9;
+
+export interface SnapshotOptions {
+  source: string;
+  format: CompetitorFileFormat | 'refresh';
+  fileName?: string;
+  /** Defaults for records without their own region or country */
+  region?: string;
+  country?: string;
+  /**
+   * Close active places of the snapshot's brands and source in its region,
+   * country and `covers` area that the snapshot no longer contains
+   */
+  closeMissing: boolean;
+  /** Further limits closures, e.g. to the area a refresh sweep actually covered */
+  covers?: (point: { latitude: number; longitude: number }) => boolean;
+  rejected?: RejectedRow[];
+  dryRun?: boolean;
+  createdBy: string;
+}
+
+export interface PlannedCompetitorChange {
+  changeType: CompetitorChangeType;
+  competitorId: string | null;
+  brand: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  previousLatitude?: number;
+  previousLongitude?: number;
+  distanceM?: number;
+  row?: number;
+}
+
+export interface CompetitorImportSummary {
+  importId: string | null;
+  dryRun: boolean;
+  rowsTotal: number;
+  rowsRejected: number;
+  duplicatesInFile: number;
+  matched: number;
+  opened: number;
+  closed: number;
+  relocated: number;
+  reopened: number;
+  rejections: RejectedRow[];
+  duplicates: Array<{ row: number; duplicateOfRow: number }>;
+  changes: PlannedCompetitorChange[];
+}
+
+export interface ImportFileRequest {
+  format: CompetitorFileFormat;
+  content: string;
+  source: string;
+  fileName?: string;
+  region?: string;
+  country?: string;
+  closeMissing?: boolean;
+  dryRun?: boolean;
+}
+
+export interface RegionChangeSummary {
+  region: string | null;
+  opened: number;
+  closed: number;
+  relocated: number;
+  reopened: number;
+  /** Openings and reopenings minus closures */
+  net: number;
+  byBrand: Array<{ brand: string; opened: number; closed: number; relocated: number; reopened: number }>;
+  changes: Array<CompetitorChange & { competitor: Pick<CompetitorPlace, 'name' | 'address' | 'city'> }>;
+}
+
+export interface CompetitorChangesReport {
+  since: Date;
+  until: Date;
+  regions: RegionChangeSummary[];
+}
+
+/**
+ * Bulk competitor data: vendor and OSM file imports and refresh sweeps are
+ * resolved against the persisted CompetitorPlace rows, and every opening,
+ * closure and relocation they reveal is recorded as a CompetitorChange.
+ */
+@Injectable()
+export class CompetitorImportService {
+  private readonly logger = new Logger(CompetitorImportService.name);
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  async importFile(request: ImportFileRequest, actor: string): Promise<CompetitorImportSummary> {
+    if (request.closeMissing && !request.region && !request.country) {
+      throw new BadRequestException('closeMissing needs a region or country; a file only speaks for its own area');
+    }
+
+    let parsed;
+    try {
+      parsed = parseCompetitorFile(request.format, request.content);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : 'Unreadable competitor file');
+    }
+    if (parsed.records.length === 0 && parsed.rejected.length === 0) {
+      throw new BadRequestException('The file contains no competitors');
+    }
+
+    const summary = await this.applySnapshot(parsed.records, {
+      source: request.source,
+      format: request.format,
+      fileName: request.fileName,
+      region: request.region,
+      country: request.country,
+      closeMissing: request.closeMissing ?? false,
+      rejected: parsed.rejected,
+      dryRun: request.dryRun,
+      createdBy: actor,
+    });
+
+    if (summary.importId) {
+      await createAuditUtil(this.prisma).createAuditEntry({
+        actor,
+        entity: 'CompetitorImport',
+        entityId: summary.importId,
+        action: 'CREATE',
+        newData: {
+          source: request.source,
+          fileName: request.fileName,
+          opened: summary.opened,
+          closed: summary.closed,
+          relocated: summary.relocated,
+        },
+      });
+    }
+    return summary;
+  }
+
+  /** Resolves a snapshot against the persisted places and records what changed */
+  async applySnapshot(records: CompetitorRecord[], options: SnapshotOptions): Promise<CompetitorImportSummary> {
+    const places = await this.loadCandidates(records, options);
+    const byId = new Map(places.map((place) => [place.id, place]));
+    const plan = planCompetitorChanges(places.map(toKnown), records, {
+      closeMissing: options.closeMissing,
+      inScope: (competitor) => this.inScope(byId.get(competitor.id)!, options),
+    });
+
+    const reopened = [...plan.matches, ...plan.relocations].filter((match) => match.reopened).length;
+    const summary: CompetitorImportSummary = {
+      importId: null,
+      dryRun: options.dryRun ?? false,
+      rowsTotal: records.length + (options.rejected?.length ?? 0),
+      rowsRejected: options.rejected?.length ?? 0,
+      duplicatesInFile: plan.duplicates.length,
+      matched: plan.matches.filter((match) => !match.reopened).length,
+      opened: plan.openings.length,
+      closed: plan.closures.length,
+      relocated: plan.relocations.filter((match) => !match.reopened).length,
+      reopened,
+      rejections: options.rejected ?? [],
+      duplicates: plan.duplicates.map(({ record, duplicateOfRow }) => ({ row: record.row, duplicateOfRow })),
+      changes: [],
+    };
+
+    if (options.dryRun) {
+      summary.changes = [
+        ...[...plan.matches.filter((match) => match.reopened), ...plan.relocations].map((match) => this.movedChange(match)),
+        ...plan.openings.map((record) => ({ ...this.recordChange('OPENED', record), competitorId: null })),
+        ...plan.closures.map((closure) => this.closedChange(closure)),
+      ];
+      return summary;
+    }
+
+    const now = new Date();
+    return this.prisma.$transaction(
+      async (tx) => {
+        const competitorImport = await tx.competitorImport.create({
+          data: {
+            source: options.source,
+            format: options.format,
+            fileName: options.fileName,
+            region: options.region,
+            country: options.country,
+            closeMissing: options.closeMissing,
+            rowsTotal: summary.rowsTotal,
+            rowsRejected: summary.rowsRejected,
+            duplicatesInFile: summary.duplicatesInFile,
+            matched: summary.matched,
+            opened: summary.opened,
+            closed: summary.closed,
+            relocated: summary.relocated,
+            reopened: summary.reopened,
+            rejections: JSON.stringify(summary.rejections),
+            createdBy: options.createdBy,
+          },
+        });
+        summary.importId = competitorImport.id;
+
+        const record = async (change: PlannedCompetitorChange, place: { region: string | null; country: string | null }) => {
+          summary.changes.push(change);
+          await tx.competitorChange.create({
+            data: {
+              competitorId: change.competitorId!,
+              importId: competitorImport.id,
+              changeType: change.changeType,
+              brand: change.brand,
+              region: place.region,
+              country: place.country,
+              latitude: change.latitude,
+              longitude: change.longitude,
+              previousLatitude: change.previousLatitude,
+              previousLongitude: change.previousLongitude,
+              distanceM: change.distanceM,
+              source: options.source,
+              detectedAt: now,
+            },
+          });
+        };
+
+        for (const match of [...plan.matches, ...plan.relocations]) {
+          const existing = byId.get(match.existing.id)!;
+          const updated = await tx.competitorPlace.update({
+            where: { id: existing.id },
+            data: { ...this.refreshedFields(existing, match.record, options), isActive: true, lastVerified: now },
+          });
+          if (match.reopened || plan.relocations.includes(match)) {
+            await record(this.movedChange(match), updated);
+          }
+        }
+
+        for (const opening of plan.openings) {
+          const created = await tx.competitorPlace.create({
+            data: {
+              brand: opening.brand,
+              name: opening.name,
+              category: opening.category,
+              latitude: opening.latitude,
+              longitude: opening.longitude,
+              address: opening.address,
+              city: opening.city,
+              postcode: opening.postcode,
+              region: opening.region ?? options.region,
+              country: opening.country ?? options.country,
+              googlePlaceId: opening.googlePlaceId,
+              osmId: opening.osmId ? normalizeOsmId(opening.osmId) : undefined,
+              phoneNumber: opening.phoneNumber,
+              website: opening.website,
+              sources: JSON.stringify([options.source]),
+              reliabilityScore: IMPORT_RELIABILITY,
+              firstSeen: now,
+              lastVerified: now,
+            },
+          });
+          await record({ ...this.recordChange('OPENED', opening), competitorId: created.id }, created);
+        }
+
+        for (const closure of plan.closures) {
+          const closed = await tx.competitorPlace.update({ where: { id: closure.id }, data: { isActive: false } });
+          await record(this.closedChange(closure), closed);
+        }
+
+        this.logger.log(
+          `🏪 ${options.format} import ${competitorImport.id} from ${options.source}: ${summary.opened} opened, ` +
+            `${summary.closed} closed, ${summary.relocated} relocated, ${summary.matched} unchanged`,
+        );
+        return summary;
+      },
+      { timeout: TRANSACTION_TIMEOUT_MS },
+    );
+  }
+
+  /** Openings, closures and relocations per region since a date, one month ago by default */
+  async changesReport(query: { region?: string; country?: string; since?: Date }): Promise<CompetitorChangesReport> {
+    const until = new Date();
+    const since = query.since ?? new Date(new Date(until).setMonth(until.getMonth() - 1));
+    const changes = await this.prisma.competitorChange.findMany({
+      where: {
+        detectedAt: { gte: since },
+        ...(query.region && { region: query.region }),
+        ...(query.country && { country: query.country }),
+      },
+      include: { competitor: { select: { name: true, address: true, city: true } } },
+      orderBy: { detectedAt: 'desc' },
+    });
+
+    const regions = new Map<string | null, RegionChangeSummary>();
+    for (const change of changes) {
+      const summary = regions.get(change.region) ?? {
+        region: change.region,
+        opened: 0,
+        closed: 0,
+        relocated: 0,
+        reopened: 0,
+        net: 0,
+        byBrand: [],
+        changes: [],
+      };
+      regions.set(change.region, summary);
+
+      let brand = summary.byBrand.find((entry) => entry.brand === change.brand);
+      if (!brand) {
+        brand = { brand: change.brand, opened: 0, closed: 0, relocated: 0, reopened: 0 };
+        summary.byBrand.push(brand);
+      }
+      const key = change.changeType.toLowerCase() as 'opened' | 'closed' | 'relocated' | 'reopened';
+      summary[key]++;
+      brand[key]++;
+      summary.changes.push(change);
+    }
+
+    for (const summary of regions.values()) {
+      summary.net = summary.opened + summary.reopened - summary.closed;
+      summary.byBrand.sort((a, b) => a.brand.localeCompare(b.brand));
+    }
+    return {
+      since,
+      until,
+      // Unassigned places last
+      regions: [...regions.values()].sort((a, b) =>
+        a.region === null ? 1 : b.region === null ? -1 : a.region.localeCompare(b.region),
+      ),
+    };
+  }
+
+  async history(competitorId: string): Promise<CompetitorPlace & { changes: CompetitorChange[] }> {
+    const competitor = await this.prisma.competitorPlace.findUnique({
+      where: { id: competitorId },
+      include: { changes: { orderBy: { detectedAt: 'asc' } } },
+    });
+    if (!competitor) {
+      throw new NotFoundException(`Competitor ${competitorId} not found`);
+    }
+    return competitor;
+  }
+
+  async listImports(limit = 50): Promise<CompetitorImport[]> {
+    return this.prisma.competitorImport.findMany({ orderBy: { createdAt: 'desc' }, take: limit });
+  }
+
+  /**
+   * Places the snapshot could match (near its records or sharing an id) and,
+   * when it closes missing places, every active place in its scope
+   */
+  private async loadCandidates(records: CompetitorRecord[], options: SnapshotOptions): Promise<CompetitorPlace[]> {
+    const or: Prisma.CompetitorPlaceWhereInput[] = [];
+    if (records.length > 0) {
+      const lats = records.map((record) => record.latitude);
+      const lngs = records.map((record) => record.longitude);
+      or.push({
+        latitude: { gte: Math.min(...lats) - LOAD_MARGIN_DEGREES, lte: Math.max(...lats) + LOAD_MARGIN_DEGREES },
+        longitude: { gte: Math.min(...lngs) - LOAD_MARGIN_DEGREES, lte: Math.max(...lngs) + LOAD_MARGIN_DEGREES },
+      });
+    }
+
+    const googlePlaceIds = records.flatMap((record) => (record.googlePlaceId ? [record.googlePlaceId] : []));
+    if (googlePlaceIds.length > 0) or.push({ googlePlaceId: { in: googlePlaceIds } });
+    const osmIds = records.flatMap((record) => (record.osmId ? [record.osmId, normalizeOsmId(record.osmId)] : []));
+    if (osmIds.length > 0) or.push({ osmId: { in: osmIds } });
+
+    if (options.closeMissing && (options.region || options.country)) {
+      or.push({
+        isActive: true,
+        ...(options.region && { region: options.region }),
+        ...(options.country && { country: options.country }),
+      });
+    }
+
+    if (or.length === 0) return [];
+    return this.prisma.competitorPlace.findMany({ where: { OR: or } });
+  }
+
+  private inScope(place: CompetitorPlace, options: SnapshotOptions): boolean {
+    if (options.region && place.region !== options.region) return false;
+    if (options.country && place.country !== options.country) return false;
+    if (options.covers && !options.covers(place)) return false;
+    return parseSources(place.sources).includes(options.source);
+  }
+
+  /** Fields a matched record refreshes; ids and details the place lacks are filled in, never cleared */
+  private refreshedFields(
+    existing: CompetitorPlace,
+    record: CompetitorRecord,
+    options: SnapshotOptions,
+  ): Prisma.CompetitorPlaceUpdateInput {
+    const sources = parseSources(existing.sources);
+    return {
+      name: record.name,
+      latitude: record.latitude,
+      longitude: record.longitude,
+      address: record.address ?? existing.address,
+      city: record.city ?? existing.city,
+      postcode: record.postcode ?? existing.postcode,
+      region: record.region ?? existing.region ?? options.region,
+      country: record.country ?? existing.country ?? options.country,
+      googlePlaceId: existing.googlePlaceId ?? record.googlePlaceId,
+      osmId: existing.osmId ?? (record.osmId ? normalizeOsmId(record.osmId) : null),
+      phoneNumber: record.phoneNumber ?? existing.phoneNumber,
+      website: record.website ?? existing.website,
+      sources: JSON.stringify(sources.includes(options.source) ? sources : [...sources, options.source]),
+    };
+  }
+
+  private recordChange(changeType: CompetitorChangeType, record: CompetitorRecord): Omit<PlannedCompetitorChange, 'competitorId'> {
+    return {
+      changeType,
+      brand: record.brand,
+      name: record.name,
+      latitude: record.latitude,
+      longitude: record.longitude,
+      row: record.row,
+    };
+  }
+
+  private movedChange(match: CompetitorMatch): PlannedCompetitorChange {
+    return {
+      ...this.recordChange(match.reopened ? 'REOPENED' : 'RELOCATED', match.record),
+      competitorId: match.existing.id,
+      previousLatitude: match.existing.latitude,
+      previousLongitude: match.existing.longitude,
+      distanceM: Math.round(match.movedM),
+    };
+  }
+
+  private closedChange(closure: KnownCompetitor): PlannedCompetitorChange {
+    return {
+      changeType: 'CLOSED',
+      competitorId: closure.id,
+      brand: closure.brand,
+      name: closure.name,
+      latitude: closure.latitude,
+      longitude: closure.longitude,
+    };
+  }
+}
+
+function toKnown(place: CompetitorPlace): KnownCompetitor {
+  return {
+    id: place.id,
+    brand: place.brand,
+    name: place.name,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    address: place.address,
+    postcode: place.postcode,
+    googlePlaceId: place.googlePlaceId,
+    osmId: place.osmId,
+    isActive: place.isActive,
+  };
+}
+
+function parseSources(raw: string): string[] {
+  try {
+    const sources = JSON.parse(raw);
+    return Array.isArray(sources) ? sources : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Entity resolution between an incoming competitor snapshot (an imported file
+ * or a refresh sweep) and the persisted competitor places.
+ *
+ * A record is the same competitor as a persisted place when, in order:
+ * its Google place id or OSM id matches, it is the same brand within
+ * SAME_SITE_M, or it is the same brand within ADDRESS_MATCH_M with a
+ * near-identical address. Matches that moved further than RELOCATION_MIN_M
+ * are relocations. When the snapshot is a full picture of its scope,
+ * persisted places it no longer contains are closures, except that a
+ * closure and an opening of the same brand within RELOCATION_MAX_M are
+ * paired up as one relocation.
+ */
+import { CompetitorRecord } from './competitor-file-parser';
+
+/** Same brand this close is the same site, whatever the address says */
+export const SAME_SITE_M = 75;
+/** Same brand this close with a matching address is the same site, allowing for poor geocoding */
+export const ADDRESS_MATCH_M = 300;
+export const ADDRESS_SIMILARITY = 0.8;
+/** Matched places that moved less than this were re-geocoded, not relocated */
+export const RELOCATION_MIN_M = 150;
+/** A closure and an opening of the same brand this close are treated as a move */
+export const RELOCATION_MAX_M = 1000;
+
+const GRID_DEGREES = 0.01;
+
+export interface KnownCompetitor {
+  id: string;
+  brand: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+  postcode: string | null;
+  googlePlaceId: string | null;
+  osmId: string | null;
+  isActive: boolean;
+}
+
+export interface CompetitorMatch {
+  existing: KnownCompetitor;
+  record: CompetitorRecord;
+  /** Distance between the persisted and incoming position */
+  movedM: number;
+  /** The persisted place was inactive, i.e. closed, and has reappeared */
+  reopened: boolean;
+}
+
+export interface CompetitorChangePlan {
+  /** Same site, including re-geocoded ones; positions are refreshed */
+  matches: CompetitorMatch[];
+  relocations: CompetitorMatch[];
+  openings: CompetitorRecord[];
+  closures: KnownCompetitor[];
+  duplicates: Array<{ record: CompetitorRecord; duplicateOfRow: number }>;
+}
+
+export interface PlanOptions {
+  /** Close persisted places the snapshot does not contain */
+  closeMissing: boolean;
+  /** Limits closures to places the snapshot speaks for, e.g. its region and source */
+  inScope?: (competitor: KnownCompetitor) => boolean;
+}
+
+export function planCompetitorChanges(
+  known: KnownCompetitor[],
+  incoming: CompetitorRecord[],
+  options: PlanOptions,
+): CompetitorChangePlan {
+  const plan: CompetitorChangePlan = { matches: [], relocations: [], openings: [], closures: [], duplicates: [] };
+  const knownIndex = new CandidateIndex<KnownCompetitor>();
+  known.forEach((competitor) => knownIndex.add(competitor, competitor));
+  const openingIndex = new CandidateIndex<CompetitorRecord>();
+  const matchedBy = new Map<string, CompetitorRecord>();
+
+  for (const record of incoming) {
+    const existing = knownIndex.find(record);
+    if (existing) {
+      const earlier = matchedBy.get(existing.id);
+      if (earlier) {
+        plan.duplicates.push({ record, duplicateOfRow: earlier.row });
+        continue;
+      }
+      matchedBy.set(existing.id, record);
+      const movedM = distanceM(existing.latitude, existing.longitude, record.latitude, record.longitude);
+      const match = { existing, record, movedM, reopened: !existing.isActive };
+      (movedM > RELOCATION_MIN_M ? plan.relocations : plan.matches).push(match);
+      continue;
+    }
+
+    const earlierOpening = openingIndex.find(record);
+    if (earlierOpening) {
+      plan.duplicates.push({ record, duplicateOfRow: earlierOpening.row });
+      continue;
+    }
+    openingIndex.add(record, { ...record, address: record.address ?? null, postcode: record.postcode ?? null, googlePlaceId: record.googlePlaceId ?? null, osmId: record.osmId ?? null });
+    plan.openings.push(record);
+  }
+
+  if (options.closeMissing) {
+    // A file only speaks for the brands it lists
+    const brands = new Set(incoming.map((record) => brandKey(record.brand)));
+    const missing = known.filter(
+      (competitor) =>
+        competitor.isActive &&
+        !matchedBy.has(competitor.id) &&
+        brands.has(brandKey(competitor.brand)) &&
+        (options.inScope?.(competitor) ?? true),
+    );
+    pairRelocations(missing, plan);
+  }
+
+  return plan;
+}
+
+/** Pairs each missing place with the nearest unclaimed opening of its brand within RELOCATION_MAX_M */
+function pairRelocations(missing: KnownCompetitor[], plan: CompetitorChangePlan): void {
+  const pairs: Array<{ existing: KnownCompetitor; record: CompetitorRecord; movedM: number }> = [];
+  for (const existing of missing) {
+    for (const record of plan.openings) {
+      if (brandKey(record.brand) !== brandKey(existing.brand)) continue;
+      const movedM = distanceM(existing.latitude, existing.longitude, record.latitude, record.longitude);
+      if (movedM <= RELOCATION_MAX_M) pairs.push({ existing, record, movedM });
+    }
+  }
+
+  const relocated = new Set<string>();
+  const claimed = new Set<CompetitorRecord>();
+  for (const pair of pairs.sort((a, b) => a.movedM - b.movedM)) {
+    if (relocated.has(pair.existing.id) || claimed.has(pair.record)) continue;
+    relocated.add(pair.existing.id);
+    claimed.add(pair.record);
+    plan.relocations.push({ ...pair, reopened: false });
+  }
+
+  plan.openings = plan.openings.filter((record) => !claimed.has(record));
+  plan.closures = missing.filter((competitor) => !relocated.has(competitor.id));
+}
+
+/**
+ * Candidates by id and by grid cell, answering "which candidate is this
+ * record" with the rules in the module comment
+ */
+class CandidateIndex<T> {
+  private readonly byGooglePlaceId = new Map<string, T>();
+  private readonly byOsmId = new Map<string, T>();
+  private readonly cells = new Map<string, Array<{ item: T; place: Omit<KnownCompetitor, 'id' | 'isActive'> }>>();
+
+  add(item: T, place: Omit<KnownCompetitor, 'id' | 'isActive'>): void {
+    if (place.googlePlaceId) this.byGooglePlaceId.set(place.googlePlaceId, item);
+    if (place.osmId) this.byOsmId.set(normalizeOsmId(place.osmId), item);
+    const key = cellKey(place.latitude, place.longitude);
+    const entries = this.cells.get(key) ?? [];
+    entries.push({ item, place });
+    this.cells.set(key, entries);
+  }
+
+  find(record: CompetitorRecord): T | null {
+    const byId =
+      (record.googlePlaceId && this.byGooglePlaceId.get(record.googlePlaceId)) ||
+      (record.osmId && this.byOsmId.get(normalizeOsmId(record.osmId)));
+    if (byId) return byId;
+
+    const brand = brandKey(record.brand);
+    const address = record.address ? normalizeAddress(record.address) : null;
+    let best: { item: T; distance: number } | null = null;
+
+    const row = Math.floor(record.latitude / GRID_DEGREES);
+    const col = Math.floor(record.longitude / GRID_DEGREES);
+    for (let r = row - 1; r <= row + 1; r++) {
+      for (let c = col - 1; c <= col + 1; c++) {
+        for (const { item, place } of this.cells.get(`${r}:${c}`) ?? []) {
+          if (brandKey(place.brand) !== brand) continue;
+          const distance = distanceM(place.latitude, place.longitude, record.latitude, record.longitude);
+          const sameSite =
+            distance <= SAME_SITE_M ||
+            (distance <= ADDRESS_MATCH_M &&
+              address !== null &&
+              place.address !== null &&
+              (!record.postcode || !place.postcode || record.postcode.replace(/\s/g, '') === place.postcode.replace(/\s/g, '')) &&
+              similarity(address, normalizeAddress(place.address)) >= ADDRESS_SIMILARITY);
+          if (sameSite && (!best || distance < best.distance)) best = { item, distance };
+        }
+      }
+    }
+    return best?.item ?? null;
+  }
+}
+
+const BRAND_ALIASES: Record<string, string> = {
+  mcdonald: 'mcdonalds',
+  kentuckyfriedchicken: 'kfc',
+  domino: 'dominos',
+  dominospizza: 'dominos',
+  dunkindonuts: 'dunkin',
+  burgerkingrestaurant: 'burgerking',
+};
+
+/** Compares brands ignoring case, accents, punctuation and common long forms */
+export function brandKey(brand: string): string {
+  const key = foldText(brand).replace(/[^a-z0-9]/g, '');
+  return BRAND_ALIASES[key] ?? key;
+}
+
+const ADDRESS_ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/strasse\b/g, 'str'],
+  [/\bstreet\b/g, 'st'],
+  [/\broad\b/g, 'rd'],
+  [/\bavenue\b/g, 'ave'],
+  [/\bplatz\b/g, 'pl'],
+  [/\bplace\b/g, 'pl'],
+  [/\brue\b/g, 'r'],
+];
+
+export function normalizeAddress(address: string): string {
+  let normalized = foldText(address).replace(/[^a-z0-9 ]/g, ' ');
+  for (const [pattern, replacement] of ADDRESS_ABBREVIATIONS) normalized = normalized.replace(pattern, replacement);
+  // "Hauptstraße 5", "Hauptstr. 5" and "Haupt Str 5" alike
+  normalized = normalized.replace(/(\w)str\b/g, '$1 str');
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/** Dice coefficient over character bigrams, ignoring spaces */
+export function similarity(a: string, b: string): number {
+  const bigrams = (text: string) => {
+    const compact = text.replace(/\s/g, '');
+    const counts = new Map<string, number>();
+    for (let i = 0; i < compact.length - 1; i++) {
+      const bigram = compact.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+    return { counts, total: Math.max(0, compact.length - 1) };
+  };
+  const first = bigrams(a);
+  const second = bigrams(b);
+  if (first.total === 0 || second.total === 0) return a.replace(/\s/g, '') === b.replace(/\s/g, '') ? 1 : 0;
+
+  let shared = 0;
+  for (const [bigram, count] of first.counts) shared += Math.min(count, second.counts.get(bigram) ?? 0);
+  return (2 * shared) / (first.total + second.total);
+}
+
+/** "node/123", "n123" and plain "123" (taken as a node) alike */
+export function normalizeOsmId(osmId: string): string {
+  const match = osmId.trim().toLowerCase().match(/^(node|way|relation|n|w|r)?\s*\/?\s*(\d+)$/);
+  if (!match) return osmId.trim();
+  const type = { n: 'node', w: 'way', r: 'relation' }[match[1] as 'n' | 'w' | 'r'] ?? match[1] ?? 'node';
+  return `${type}/${match[2]}`;
+}
+
+export function distanceM(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const a =
+    Math.sin(toRadians(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(toRadians(lng2 - lng1) / 2) ** 2;
+  return 2 * 6371000 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function foldText(text: string): string {
+  return text.toLowerCase().replace(/ß/g, 'ss').normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function cellKey(lat: number, lng: number): string {
+  return `${Math.floor(lat / GRID_DEGREES)}:${Math.floor(lng / GRID_DEGREES)}`;
+}
@@ -1,4 +1,5 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { Router, RoutingMethod } from '@subway/routing';
 import axios, { AxiosError } from 'axios';
 
 /**
@@ -9,6 +10,8 @@ export interface NearbyCompetitorsRequest {
   lng: number;
   radiusKm: number;
   brands?: string[];
+  /** Only keep competitors within this drive time, along the road network where one is loaded */
+  driveMinutes?: number;
 }
 
 /**
@@ -20,6 +23,8 @@ export interface CompetitorResult {
   lng: number;
   distanceM: number;
   placeName?: string;
+  /** Set when the request asked for driveMinutes */
+  driveMinutes?: number;
 }
 
 /**
@@ -44,6 +49,8 @@ export interface NearbyCompetitorsResponse {
   };
   source: 'google_places';
   cached: boolean;
+  /** How results were limited to driveMinutes, absent when only radiusKm applied */
+  travelTimeMethod?: RoutingMethod;
 }
 
 /**
@@ -95,7 +102,7 @@ export class GooglePlacesNearbyService {
   
   private readonly apiKey: string;
 
-  constructor() {
+  constructor(@Optional() @Inject(Router) private readonly router?: Router) {
     this.apiKey = process.env.GOOGLE_PLACES_API_KEY || '';
     if (!this.apiKey) {
       this.logger.warn('GOOGLE_PLACES_API_KEY not configured - competitor nearby search will fail');
@@ -149,22 +156,24 @@ export class GooglePlacesNearbyService {
     
     // Enforce total limit
     const limitedResults = dedupedResults.slice(0, this.MAX_TOTAL);
+    const { results, travelTimeMethod } = this.withinDriveTime(request, limitedResults);
     
     // Build response
     const response: NearbyCompetitorsResponse = {
       center: { lat: request.lat, lng: request.lng },
       radiusKm: request.radiusKm,
       brands,
-      results: limitedResults,
-      summary: this.buildSummary(limitedResults, brands),
+      results,
+      summary: this.buildSummary(results, brands),
       source: 'google_places',
-      cached: false
+      cached: false,
+      ...(travelTimeMethod && { travelTimeMethod })
     };
     
     // Store in cache
     this.setInCache(cacheKey, response);
     
-    this.logger.log(`Found ${limitedResults.length} competitors (${allResults.length} before dedup)`);
+    this.logger.log(`Found ${results.length} competitors (${allResults.length} before dedup)`);
     
     return response;
   }
@@ -294,6 +303,35 @@ export class GooglePlacesNearbyService {
     return unique;
   }
 
+  /**
+   * Drop competitors further than the requested drive time. Follows the road
+   * network where a graph is loaded, so a competitor across a river counts
+   * only if there is a bridge within reach.
+   */
+  private withinDriveTime(
+    request: NearbyCompetitorsRequest,
+    results: CompetitorResult[]
+  ): { results: CompetitorResult[]; travelTimeMethod?: RoutingMethod } {
+    if (!request.driveMinutes || !this.router || results.length === 0) {
+      return { results };
+    }
+
+    const travelTimes = this.router.travelTimes(
+      { lat: request.lat, lng: request.lng },
+      results.map(r => ({ lat: r.lat, lng: r.lng })),
+      'drive',
+      { maxMinutes: request.driveMinutes }
+    );
+    const reachable: CompetitorResult[] = [];
+    results.forEach((result, i) => {
+      const minutes = travelTimes.minutes[i];
+      if (minutes !== null) {
+        reachable.push({ ...result, driveMinutes: Math.round(minutes * 10) / 10 });
+      }
+    });
+    return { results: reachable, travelTimeMethod: travelTimes.method };
+  }
+
   /**
    * Build summary statistics from results
    */
@@ -351,7 +389,8 @@ export class GooglePlacesNearbyService {
     const latKey = Math.round(request.lat * 1000) / 1000;
     const lngKey = Math.round(request.lng * 1000) / 1000;
     const brandsKey = [...brands].sort().join(',');
-    return `${latKey}:${lngKey}:${request.radiusKm}:${brandsKey}`;
+    const driveKey = request.driveMinutes ? `:${request.driveMinutes}min` : '';
+    return `${latKey}:${lngKey}:${request.radiusKm}:${brandsKey}${driveKey}`;
   }
 
   /**
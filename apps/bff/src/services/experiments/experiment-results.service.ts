@@ -0,0 +1,326 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Two-sided 95% quantiles of Student's t for 1 to 30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+const Z_95 = 1.96;
+// Below this many stores a variant's interval is too wide to read much into
+const FEW_STORES = 5;
+
+export interface ResultOrder {
+  storeId: string;
+  total: number;
+  createdAt: Date;
+}
+
+export interface ResultVariant {
+  id: string;
+  key: string;
+  name: string;
+  isControl: boolean;
+  storeIds: string[];
+}
+
+export interface MetricEstimate {
+  mean: number;
+  standardError: number;
+  ciLow: number;
+  ciHigh: number;
+  /** Independent units behind the estimate; stores for variant metrics */
+  sampleSize: number;
+  degreesOfFreedom: number;
+}
+
+/** An estimate before rounding; comparisons combine these so rounding error does not compound */
+interface Estimate {
+  mean: number;
+  standardError: number;
+  sampleSize: number;
+  degreesOfFreedom: number;
+}
+
+export interface VariantResult {
+  variantId: string;
+  key: string;
+  name: string;
+  isControl: boolean;
+  stores: number;
+  storeDays: number;
+  orders: number;
+  revenue: number;
+  ordersPerStoreDay: MetricEstimate;
+  revenuePerStoreDay: MetricEstimate;
+  averageTicket: MetricEstimate;
+}
+
+export interface MetricComparison {
+  difference: number;
+  ciLow: number;
+  ciHigh: number;
+  relativeLift: number | null;
+  significant: boolean;
+}
+
+export interface VariantComparison {
+  variantKey: string;
+  controlKey: string;
+  ordersPerStoreDay: MetricComparison;
+  revenuePerStoreDay: MetricComparison;
+  averageTicket: MetricComparison;
+}
+
+export interface ExperimentReport {
+  experimentId: string;
+  name: string;
+  status: string;
+  windowStart: Date;
+  windowEnd: Date;
+  days: number;
+  variants: VariantResult[];
+  comparisons: VariantComparison[];
+  warnings: string[];
+}
+
+/**
+ * Compares order volume, average ticket and revenue between the variants of
+ * an experiment over its run window. Volume and revenue are measured per
+ * store-day so variants with different numbers of stores stay comparable;
+ * average ticket is revenue over orders. Stores are the unit of
+ * randomisation, so every metric is estimated from one observation per store
+ * (a cluster-robust ratio estimate for average ticket) and intervals are 95%
+ * Student's t intervals on the number of stores. Differences use Welch's
+ * unequal-variance standard error with Welch-Satterthwaite degrees of freedom.
+ */
+@Injectable()
+export class ExperimentResultsService {
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  async getReport(experimentId: string, now: Date = new Date()): Promise<ExperimentReport> {
+    const experiment = await this.prisma.experiment.findUnique({
+      where: { id: experimentId },
+      include: {
+        variants: { orderBy: { createdAt: 'asc' } },
+        assignments: { select: { storeId: true, variantId: true } },
+      },
+    });
+    if (!experiment) {
+      throw new NotFoundException('Experiment not found');
+    }
+    if (!experiment.startDate || experiment.status === 'DRAFT') {
+      throw new BadRequestException('Experiment has not started yet');
+    }
+
+    const windowStart = experiment.startDate;
+    const windowEnd = experiment.endDate && experiment.endDate < now ? experiment.endDate : now;
+
+    const orders = await this.prisma.order.findMany({
+      where: {
+        storeId: { in: experiment.assignments.map((assignment) => assignment.storeId) },
+        createdAt: { gte: windowStart, lt: windowEnd },
+        status: { not: 'CANCELLED' },
+      },
+      select: { storeId: true, total: true, createdAt: true },
+    });
+
+    const variants: ResultVariant[] = experiment.variants.map((variant) => ({
+      id: variant.id,
+      key: variant.key,
+      name: variant.name,
+      isControl: variant.isControl,
+      storeIds: experiment.assignments
+        .filter((assignment) => assignment.variantId === variant.id)
+        .map((assignment) => assignment.storeId),
+    }));
+
+    const report = this.buildReport(
+      variants,
+      orders.map((order) => ({ storeId: order.storeId, total: Number(order.total), createdAt: order.createdAt })),
+      windowStart,
+      windowEnd,
+    );
+
+    return {
+      experimentId: experiment.id,
+      name: experiment.name,
+      status: experiment.status,
+      ...report,
+    };
+  }
+
+  buildReport(
+    variants: ResultVariant[],
+    orders: ResultOrder[],
+    windowStart: Date,
+    windowEnd: Date,
+  ): Omit<ExperimentReport, 'experimentId' | 'name' | 'status'> {
+    const days = Math.max(1, Math.ceil((windowEnd.getTime() - windowStart.getTime()) / DAY_MS));
+    const warnings: string[] = [];
+
+    const ordersByStore = new Map<string, ResultOrder[]>();
+    for (const order of orders) {
+      const list = ordersByStore.get(order.storeId) ?? [];
+      list.push(order);
+      ordersByStore.set(order.storeId, list);
+    }
+
+    const estimates = variants.map((variant) => {
+      const storeOrders: number[] = [];
+      const storeRevenue: number[] = [];
+
+      for (const storeId of variant.storeIds) {
+        const storeTickets = (ordersByStore.get(storeId) ?? []).map((order) => order.total);
+        storeOrders.push(storeTickets.length);
+        storeRevenue.push(storeTickets.reduce((sum, ticket) => sum + ticket, 0));
+      }
+
+      if (variant.storeIds.length < FEW_STORES) {
+        warnings.push(`${variant.name} has only ${variant.storeIds.length} stores; intervals are wide and approximate`);
+      }
+
+      return {
+        variant,
+        orders: storeOrders.reduce((sum, count) => sum + count, 0),
+        revenue: storeRevenue.reduce((sum, amount) => sum + amount, 0),
+        ordersPerStoreDay: this.meanOf(storeOrders.map((count) => count / days)),
+        revenuePerStoreDay: this.meanOf(storeRevenue.map((amount) => amount / days)),
+        averageTicket: this.ratioOf(storeRevenue, storeOrders),
+      };
+    });
+
+    const results = estimates.map(({ variant, ...estimate }) => {
+      const result: VariantResult = {
+        variantId: variant.id,
+        key: variant.key,
+        name: variant.name,
+        isControl: variant.isControl,
+        stores: variant.storeIds.length,
+        storeDays: variant.storeIds.length * days,
+        orders: estimate.orders,
+        revenue: this.round(estimate.revenue),
+        ordersPerStoreDay: this.toMetric(estimate.ordersPerStoreDay),
+        revenuePerStoreDay: this.toMetric(estimate.revenuePerStoreDay),
+        averageTicket: this.toMetric(estimate.averageTicket),
+      };
+      return result;
+    });
+
+    const control = estimates.find((estimate) => estimate.variant.isControl);
+    if (!control) {
+      warnings.push('No control variant; comparisons are unavailable');
+    }
+
+    const comparisons: VariantComparison[] = control
+      ? estimates
+          .filter((result) => !result.variant.isControl)
+          .map((result) => ({
+            variantKey: result.variant.key,
+            controlKey: control.variant.key,
+            ordersPerStoreDay: this.compare(result.ordersPerStoreDay, control.ordersPerStoreDay),
+            revenuePerStoreDay: this.compare(result.revenuePerStoreDay, control.revenuePerStoreDay),
+            averageTicket: this.compare(result.averageTicket, control.averageTicket),
+          }))
+      : [];
+
+    return { windowStart, windowEnd, days, variants: results, comparisons, warnings };
+  }
+
+  /** Mean of independent observations with a 95% t interval */
+  estimate(values: number[]): MetricEstimate {
+    return this.toMetric(this.meanOf(values));
+  }
+
+  private meanOf(values: number[]): Estimate {
+    const n = values.length;
+    if (n === 0) {
+      return { mean: 0, standardError: 0, sampleSize: 0, degreesOfFreedom: 0 };
+    }
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / n;
+    const variance = n > 1
+      ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1)
+      : 0;
+
+    return { mean, standardError: Math.sqrt(variance / n), sampleSize: n, degreesOfFreedom: Math.max(0, n - 1) };
+  }
+
+  /**
+   * Ratio of two per-store totals (revenue over orders) with a
+   * cluster-robust standard error from the linearised per-store residuals
+   */
+  private ratioOf(numerators: number[], denominators: number[]): Estimate {
+    const n = numerators.length;
+    const numerator = numerators.reduce((sum, value) => sum + value, 0);
+    const denominator = denominators.reduce((sum, value) => sum + value, 0);
+    if (n === 0 || denominator === 0) {
+      return { mean: 0, standardError: 0, sampleSize: n, degreesOfFreedom: Math.max(0, n - 1) };
+    }
+
+    const ratio = numerator / denominator;
+    const squaredResiduals = numerators.reduce((sum, value, i) => sum + (value - ratio * denominators[i]) ** 2, 0);
+    const variance = n > 1 ? (n / (n - 1)) * squaredResiduals / denominator ** 2 : 0;
+
+    return { mean: ratio, standardError: Math.sqrt(variance), sampleSize: n, degreesOfFreedom: n - 1 };
+  }
+
+  private compare(treatment: Estimate, control: Estimate): MetricComparison {
+    const difference = treatment.mean - control.mean;
+    const treatmentVariance = treatment.standardError ** 2;
+    const controlVariance = control.standardError ** 2;
+    const standardError = Math.sqrt(treatmentVariance + controlVariance);
+
+    // Welch-Satterthwaite; falls back to the pooled count when neither side varies
+    const spread =
+      (treatment.degreesOfFreedom > 0 ? treatmentVariance ** 2 / treatment.degreesOfFreedom : 0) +
+      (control.degreesOfFreedom > 0 ? controlVariance ** 2 / control.degreesOfFreedom : 0);
+    const degreesOfFreedom = spread > 0
+      ? (treatmentVariance + controlVariance) ** 2 / spread
+      : treatment.degreesOfFreedom + control.degreesOfFreedom;
+
+    const margin = this.tCritical(degreesOfFreedom) * standardError;
+    const ciLow = difference - margin;
+    const ciHigh = difference + margin;
+
+    return {
+      difference: this.round(difference),
+      ciLow: this.round(ciLow),
+      ciHigh: this.round(ciHigh),
+      relativeLift: control.mean !== 0 ? this.round(difference / control.mean, 4) : null,
+      significant: treatment.sampleSize > 1 && control.sampleSize > 1 && (ciLow > 0 || ciHigh < 0),
+    };
+  }
+
+  private toMetric(estimate: Estimate): MetricEstimate {
+    const margin = this.tCritical(estimate.degreesOfFreedom) * estimate.standardError;
+    return {
+      mean: this.round(estimate.mean),
+      standardError: this.round(estimate.standardError),
+      ciLow: this.round(estimate.mean - margin),
+      ciHigh: this.round(estimate.mean + margin),
+      sampleSize: estimate.sampleSize,
+      degreesOfFreedom: this.round(estimate.degreesOfFreedom, 1),
+    };
+  }
+
+  /**
+   * Two-sided 95% t quantile. Fractional degrees of freedom are rounded down,
+   * which widens the interval slightly; above 30 a Cornish-Fisher expansion
+   * of the normal quantile is accurate to three decimals.
+   */
+  private tCritical(degreesOfFreedom: number): number {
+    if (degreesOfFreedom <= 30) {
+      return T_95[Math.max(1, Math.floor(degreesOfFreedom)) - 1];
+    }
+    const z = Z_95;
+    return z + (z ** 3 + z) / (4 * degreesOfFreedom) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * degreesOfFreedom ** 2);
+  }
+
+  private round(value: number, decimals = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+}
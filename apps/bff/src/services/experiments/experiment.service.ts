@@ -0,0 +1,509 @@
+import { createHash } from 'crypto';
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, PriceOverride, PrismaClient } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+
+export type ExperimentStatus = 'DRAFT' | 'RUNNING' | 'COMPLETED' | 'CANCELLED';
+
+export interface PriceRule {
+  menuItemName: string;
+  type: 'FIXED' | 'PERCENT';
+  value: number;
+}
+
+export interface VariantDefinition {
+  key: string;
+  name: string;
+  isControl?: boolean;
+  weight?: number;
+  /** Stores placed in this variant explicitly instead of by hash */
+  storeIds?: string[];
+  priceRules?: PriceRule[];
+}
+
+export interface ExperimentDefinition {
+  name: string;
+  description?: string;
+  startDate?: Date;
+  endDate?: Date;
+  /** Stores taking part; pinned variant stores are added automatically */
+  storeIds: string[];
+  variants: VariantDefinition[];
+}
+
+export interface StoreAssignment {
+  storeId: string;
+  variantKey: string;
+  pinned: boolean;
+}
+
+const EXPERIMENT_INCLUDE = {
+  variants: {
+    orderBy: { createdAt: 'asc' },
+    include: { _count: { select: { assignments: true, PriceOverrides: true } } },
+  },
+  assignments: {
+    select: { storeId: true, variantId: true, pinned: true },
+  },
+} as const;
+
+export type ExperimentWithVariants = Prisma.ExperimentGetPayload<{ include: typeof EXPERIMENT_INCLUDE }>;
+
+/**
+ * Store-level A/B tests. Each participating store is assigned to exactly one
+ * variant; treatment variants carry price rules that are turned into
+ * PriceOverrides for their stores while the experiment runs.
+ */
+@Injectable()
+export class ExperimentService {
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  async list(status?: ExperimentStatus): Promise<ExperimentWithVariants[]> {
+    return this.prisma.experiment.findMany({
+      where: status ? { status } : undefined,
+      include: EXPERIMENT_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async get(id: string): Promise<ExperimentWithVariants> {
+    const experiment = await this.prisma.experiment.findUnique({
+      where: { id },
+      include: EXPERIMENT_INCLUDE,
+    });
+    if (!experiment) {
+      throw new NotFoundException('Experiment not found');
+    }
+    return experiment;
+  }
+
+  async create(definition: ExperimentDefinition, actor: string): Promise<ExperimentWithVariants> {
+    this.validateDefinition(definition);
+
+    const existing = await this.prisma.experiment.findUnique({ where: { name: definition.name } });
+    if (existing) {
+      throw new BadRequestException('An experiment with this name already exists');
+    }
+
+    const experiment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.experiment.create({
+        data: {
+          name: definition.name,
+          description: definition.description,
+          startDate: definition.startDate,
+          endDate: definition.endDate,
+          createdBy: actor,
+          variants: {
+            create: definition.variants.map((variant) => this.toVariantData(variant)),
+          },
+        },
+        include: { variants: true },
+      });
+
+      await this.writeAssignments(tx, created.id, created.variants, definition);
+      return created;
+    });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'Experiment',
+      entityId: experiment.id,
+      action: 'CREATE',
+      newData: {
+        name: definition.name,
+        variants: definition.variants.map((variant) => variant.key),
+        stores: definition.storeIds.length,
+      },
+    });
+
+    return this.get(experiment.id);
+  }
+
+  /**
+   * Replaces the definition of a draft experiment. Assignments are recomputed,
+   * but the hash is keyed on experiment and store so unchanged stores keep their variant.
+   */
+  async update(id: string, definition: ExperimentDefinition, actor: string): Promise<ExperimentWithVariants> {
+    const existing = await this.get(id);
+    if (existing.status !== 'DRAFT') {
+      throw new BadRequestException('Only draft experiments can be edited');
+    }
+    this.validateDefinition(definition);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.experimentVariant.deleteMany({ where: { experimentId: id } });
+      const updated = await tx.experiment.update({
+        where: { id },
+        data: {
+          name: definition.name,
+          description: definition.description ?? null,
+          startDate: definition.startDate ?? null,
+          endDate: definition.endDate ?? null,
+          variants: {
+            create: definition.variants.map((variant) => this.toVariantData(variant)),
+          },
+        },
+        include: { variants: true },
+      });
+
+      await this.writeAssignments(tx, id, updated.variants, definition);
+    });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'Experiment',
+      entityId: id,
+      action: 'UPDATE',
+      oldData: { name: existing.name, variants: existing.variants.map((variant) => variant.key) },
+      newData: { name: definition.name, variants: definition.variants.map((variant) => variant.key) },
+    });
+
+    return this.get(id);
+  }
+
+  /**
+   * Moves a draft experiment to RUNNING and creates the treatment price overrides.
+   */
+  async start(id: string, actor: string, now: Date = new Date()): Promise<ExperimentWithVariants> {
+    const experiment = await this.get(id);
+    if (experiment.status !== 'DRAFT') {
+      throw new BadRequestException(`Cannot start an experiment that is ${experiment.status}`);
+    }
+
+    const emptyVariant = experiment.variants.find((variant) => variant._count.assignments === 0);
+    if (emptyVariant) {
+      throw new BadRequestException(`Variant ${emptyVariant.name} has no stores assigned`);
+    }
+
+    const startDate = experiment.startDate && experiment.startDate > now ? experiment.startDate : now;
+    if (experiment.endDate && experiment.endDate <= startDate) {
+      throw new BadRequestException('End date must be after the start date');
+    }
+
+    const overrides = await this.buildPriceOverrides(experiment, startDate);
+
+    await this.prisma.$transaction([
+      this.prisma.priceOverride.createMany({ data: overrides }),
+      this.prisma.experiment.update({
+        where: { id },
+        data: { status: 'RUNNING', startDate },
+      }),
+    ]);
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'Experiment',
+      entityId: id,
+      action: 'START',
+      newData: { startDate: startDate.toISOString(), priceOverrides: overrides.length },
+    });
+
+    const created = await this.prisma.priceOverride.findMany({
+      where: { experimentVariantId: { in: experiment.variants.map((variant) => variant.id) }, effectiveFrom: startDate },
+    });
+    await this.auditPriceOverrides(actor, 'CREATE', created);
+
+    return this.get(id);
+  }
+
+  /**
+   * Ends a running experiment (COMPLETED) or abandons a draft/running one
+   * (CANCELLED). Price overrides stop applying from now on.
+   */
+  async stop(
+    id: string,
+    outcome: 'COMPLETED' | 'CANCELLED',
+    actor: string,
+    now: Date = new Date(),
+  ): Promise<ExperimentWithVariants> {
+    const experiment = await this.get(id);
+    const allowed = outcome === 'COMPLETED' ? ['RUNNING'] : ['DRAFT', 'RUNNING'];
+    if (!allowed.includes(experiment.status)) {
+      throw new BadRequestException(`Cannot mark a ${experiment.status} experiment as ${outcome}`);
+    }
+
+    const variantIds = experiment.variants.map((variant) => variant.id);
+    const endDate = experiment.status === 'RUNNING' ? now : experiment.endDate;
+
+    const [pending, open] = await Promise.all([
+      this.prisma.priceOverride.findMany({
+        where: { experimentVariantId: { in: variantIds }, effectiveFrom: { gt: now } },
+      }),
+      this.prisma.priceOverride.findMany({
+        where: {
+          experimentVariantId: { in: variantIds },
+          effectiveFrom: { lte: now },
+          OR: [{ effectiveTo: null }, { effectiveTo: { gt: now } }],
+        },
+      }),
+    ]);
+
+    await this.prisma.$transaction([
+      // Overrides that have not started yet are removed, active ones are closed
+      this.prisma.priceOverride.deleteMany({
+        where: { experimentVariantId: { in: variantIds }, effectiveFrom: { gt: now } },
+      }),
+      this.prisma.priceOverride.updateMany({
+        where: {
+          experimentVariantId: { in: variantIds },
+          OR: [{ effectiveTo: null }, { effectiveTo: { gt: now } }],
+        },
+        data: { effectiveTo: now },
+      }),
+      this.prisma.experiment.update({
+        where: { id },
+        data: { status: outcome, endDate },
+      }),
+    ]);
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'Experiment',
+      entityId: id,
+      action: outcome === 'COMPLETED' ? 'COMPLETE' : 'CANCEL',
+      oldData: { status: experiment.status },
+      newData: { status: outcome },
+    });
+    await this.auditPriceOverrides(actor, 'DELETE', pending);
+    await this.auditPriceOverrides(actor, 'UPDATE', open, { effectiveTo: now.toISOString() });
+
+    return this.get(id);
+  }
+
+  async delete(id: string, actor: string): Promise<void> {
+    const experiment = await this.get(id);
+    if (experiment.status === 'RUNNING' || experiment.status === 'COMPLETED') {
+      throw new BadRequestException('Running or completed experiments cannot be deleted');
+    }
+
+    await this.prisma.experiment.delete({ where: { id } });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'Experiment',
+      entityId: id,
+      action: 'DELETE',
+      oldData: { name: experiment.name, status: experiment.status },
+    });
+  }
+
+  /**
+   * Variant a store is in, or null when it is not part of the experiment.
+   */
+  async getStoreVariant(id: string, storeId: string): Promise<{ key: string; name: string; isControl: boolean } | null> {
+    const assignment = await this.prisma.experimentAssignment.findUnique({
+      where: { experimentId_storeId: { experimentId: id, storeId } },
+      include: { variant: { select: { key: true, name: true, isControl: true } } },
+    });
+    return assignment ? assignment.variant : null;
+  }
+
+  /**
+   * Assigns every participating store to a variant. Pinned stores keep their
+   * variant; the rest are bucketed by a hash of experiment and store ID
+   * weighted by variant weight, so the result is stable across calls.
+   */
+  assignStores(experimentKey: string, definition: ExperimentDefinition): StoreAssignment[] {
+    const pinned = new Map<string, string>();
+    for (const variant of definition.variants) {
+      for (const storeId of variant.storeIds ?? []) {
+        pinned.set(storeId, variant.key);
+      }
+    }
+
+    const storeIds = Array.from(new Set([...definition.storeIds, ...pinned.keys()]));
+    const totalWeight = definition.variants.reduce((sum, variant) => sum + (variant.weight ?? 50), 0);
+
+    return storeIds.map((storeId) => {
+      const pinnedKey = pinned.get(storeId);
+      if (pinnedKey) {
+        return { storeId, variantKey: pinnedKey, pinned: true };
+      }
+
+      const bucket = this.hashToUnit(`${experimentKey}:${storeId}`) * totalWeight;
+      let cumulative = 0;
+      let variantKey = definition.variants[definition.variants.length - 1].key;
+      for (const variant of definition.variants) {
+        cumulative += variant.weight ?? 50;
+        if (bucket < cumulative) {
+          variantKey = variant.key;
+          break;
+        }
+      }
+
+      return { storeId, variantKey, pinned: false };
+    });
+  }
+
+  /**
+   * Price a treatment store should charge for an item under a rule.
+   */
+  applyPriceRule(listPrice: number, rule: PriceRule): number {
+    const price = rule.type === 'FIXED' ? rule.value : listPrice * (1 + rule.value / 100);
+    return Math.round(price * 100) / 100;
+  }
+
+  private validateDefinition(definition: ExperimentDefinition): void {
+    if (!definition.name?.trim()) {
+      throw new BadRequestException('Experiment name is required');
+    }
+    if (definition.variants.length < 2) {
+      throw new BadRequestException('An experiment needs a control and at least one treatment variant');
+    }
+
+    const controls = definition.variants.filter((variant) => variant.isControl);
+    if (controls.length !== 1) {
+      throw new BadRequestException('Exactly one variant must be marked as control');
+    }
+    if (controls[0].priceRules && controls[0].priceRules.length > 0) {
+      throw new BadRequestException('The control variant cannot change prices');
+    }
+
+    const keys = new Set<string>();
+    const pinnedStores = new Set<string>();
+    for (const variant of definition.variants) {
+      if (keys.has(variant.key)) {
+        throw new BadRequestException(`Duplicate variant key ${variant.key}`);
+      }
+      keys.add(variant.key);
+
+      if (variant.weight !== undefined && (!Number.isInteger(variant.weight) || variant.weight < 0)) {
+        throw new BadRequestException(`Variant ${variant.key} weight must be a non-negative integer`);
+      }
+
+      for (const storeId of variant.storeIds ?? []) {
+        if (pinnedStores.has(storeId)) {
+          throw new BadRequestException(`Store ${storeId} is pinned to more than one variant`);
+        }
+        pinnedStores.add(storeId);
+      }
+
+      for (const rule of variant.priceRules ?? []) {
+        if (rule.type === 'FIXED' && !(rule.value > 0)) {
+          throw new BadRequestException(`Fixed price for ${rule.menuItemName} must be positive`);
+        }
+        if (rule.type === 'PERCENT' && !(rule.value > -100)) {
+          throw new BadRequestException(`Percentage change for ${rule.menuItemName} must be above -100`);
+        }
+      }
+    }
+
+    if (definition.variants.every((variant) => (variant.weight ?? 50) === 0) && definition.storeIds.length > pinnedStores.size) {
+      throw new BadRequestException('At least one variant needs a positive weight');
+    }
+    if (definition.startDate && definition.endDate && definition.endDate <= definition.startDate) {
+      throw new BadRequestException('End date must be after the start date');
+    }
+  }
+
+  private toVariantData(variant: VariantDefinition) {
+    return {
+      key: variant.key,
+      name: variant.name,
+      isControl: variant.isControl ?? false,
+      weight: variant.weight ?? 50,
+      priceRules: variant.priceRules && variant.priceRules.length > 0 ? JSON.stringify(variant.priceRules) : null,
+    };
+  }
+
+  private async writeAssignments(
+    tx: Prisma.TransactionClient,
+    experimentId: string,
+    variants: Array<{ id: string; key: string }>,
+    definition: ExperimentDefinition,
+  ): Promise<void> {
+    const variantIds = new Map(variants.map((variant) => [variant.key, variant.id]));
+    const assignments = this.assignStores(experimentId, definition);
+
+    const stores = await tx.store.findMany({
+      where: { id: { in: assignments.map((assignment) => assignment.storeId) } },
+      select: { id: true },
+    });
+    if (stores.length !== assignments.length) {
+      const known = new Set(stores.map((store) => store.id));
+      const missing = assignments.filter((assignment) => !known.has(assignment.storeId));
+      throw new BadRequestException(`Unknown store(s): ${missing.map((assignment) => assignment.storeId).join(', ')}`);
+    }
+
+    await tx.experimentAssignment.deleteMany({ where: { experimentId } });
+    await tx.experimentAssignment.createMany({
+      data: assignments.map((assignment) => ({
+        experimentId,
+        variantId: variantIds.get(assignment.variantKey)!,
+        storeId: assignment.storeId,
+        pinned: assignment.pinned,
+      })),
+    });
+  }
+
+  private async buildPriceOverrides(
+    experiment: ExperimentWithVariants,
+    startDate: Date,
+  ): Promise<Prisma.PriceOverrideCreateManyInput[]> {
+    const overrides: Prisma.PriceOverrideCreateManyInput[] = [];
+
+    for (const variant of experiment.variants) {
+      const rules: PriceRule[] = variant.priceRules ? JSON.parse(variant.priceRules) : [];
+      if (rules.length === 0) continue;
+
+      const storeIds = experiment.assignments
+        .filter((assignment) => assignment.variantId === variant.id)
+        .map((assignment) => assignment.storeId);
+
+      const items = await this.prisma.menuItem.findMany({
+        where: { storeId: { in: storeIds }, name: { in: rules.map((rule) => rule.menuItemName) } },
+        select: { id: true, storeId: true, name: true, price: true },
+      });
+
+      for (const item of items) {
+        const rule = rules.find((candidate) => candidate.menuItemName === item.name)!;
+        overrides.push({
+          storeId: item.storeId,
+          menuItemId: item.id,
+          price: this.applyPriceRule(Number(item.price), rule),
+          effectiveFrom: startDate,
+          effectiveTo: experiment.endDate,
+          experimentVariantId: variant.id,
+        });
+      }
+    }
+
+    return overrides;
+  }
+
+  /**
+   * One entry per override, so each override has its own history in the
+   * audit trail
+   */
+  private async auditPriceOverrides(
+    actor: string,
+    action: 'CREATE' | 'UPDATE' | 'DELETE',
+    overrides: PriceOverride[],
+    changes: Record<string, unknown> = {},
+  ): Promise<void> {
+    const audit = createAuditUtil(this.prisma);
+    for (const override of overrides) {
+      const snapshot = {
+        storeId: override.storeId,
+        menuItemId: override.menuItemId,
+        price: Number(override.price),
+        effectiveFrom: override.effectiveFrom.toISOString(),
+        effectiveTo: override.effectiveTo?.toISOString() ?? null,
+        experimentVariantId: override.experimentVariantId,
+      };
+      await audit.createAuditEntry({
+        actor,
+        entity: 'PriceOverride',
+        entityId: override.id,
+        action,
+        oldData: action === 'CREATE' ? undefined : snapshot,
+        newData: action === 'DELETE' ? undefined : { ...snapshot, ...changes },
+      });
+    }
+  }
+
+  private hashToUnit(value: string): number {
+    const digest = createHash('sha256').update(value).digest();
+    return digest.readUInt32BE(0) / 0x100000000;
+  }
+}
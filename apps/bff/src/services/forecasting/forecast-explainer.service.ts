@@ -1,7 +1,8 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Optional } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
-import OpenAI from 'openai';
-import type { StoreForecast, RevenueDataPoint } from './revenue-forecasting.service';
+import { LlmClient } from '@subway/shared-ai';
+import type { StoreForecast, ForecastModelInfo, RevenueDataPoint } from './revenue-forecasting.service';
+import type { BacktestResult } from './forecast-models';
 
 export interface ForecastExplanation {
   storeId: string;
@@ -13,17 +14,16 @@ export interface ForecastExplanation {
   opportunities: string[];
   recommendations: string[];
   confidence: number;
+  /** The model behind the forecast and the backtest scores it was chosen on */
+  model: ForecastModelInfo & { alternatives: BacktestResult[] };
 }
 
 @Injectable()
 export class ForecastExplainerService {
-  private openai: OpenAI;
-
-  constructor(private readonly prisma: PrismaClient) {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
-  }
+  constructor(
+    private readonly prisma: PrismaClient,
+    @Optional() @Inject(LlmClient) private readonly llm: LlmClient = LlmClient.getInstance()
+  ) {}
 
   async explainForecast(forecast: StoreForecast): Promise<ForecastExplanation> {
     console.log(`🤖 Generating AI explanation for store ${forecast.storeId}`);
@@ -39,7 +39,7 @@ export class ForecastExplainerService {
     // Build context for AI
     const context = this.buildContext(forecast, store);
 
-    // Generate explanation using GPT-5-mini
+    // Generate explanation with the configured LLM
     const explanation = await this.generateAIExplanation(context);
 
     console.log(`✅ Generated AI explanation`);
@@ -48,7 +48,11 @@ export class ForecastExplainerService {
       storeId: forecast.storeId,
       storeName: forecast.storeName,
       ...explanation,
-      confidence: forecast.summary.confidence
+      confidence: forecast.summary.confidence,
+      model: {
+        ...forecast.model,
+        alternatives: forecast.backtests.filter(result => result.model !== forecast.model.name)
+      }
     };
   }
 
@@ -86,6 +90,9 @@ FORECAST SUMMARY:
 - Year-end total: ${this.formatCurrency(summary.yearEndRevenue)}
 - Growth rate: ${summary.growthRate}% annually
 
+FORECAST MODEL:
+${this.describeModel(forecast)}
+
 SEASONAL PATTERN:
 ${seasonalPattern}
 
@@ -93,6 +100,19 @@ TREND:
 ${summary.growthRate > 0 ? 'Growing' : summary.growthRate < 0 ? 'Declining' : 'Stable'} (${Math.abs(summary.growthRate)}% per year)`;
   }
 
+  private describeModel({ model, backtests }: StoreForecast): string {
+    const accuracy = model.backtestMape !== null
+      ? `- Backtest MAPE: ${model.backtestMape}%, 80% interval coverage: ${Math.round((model.backtestCoverage ?? 0) * 100)}%`
+      : '- Not backtested';
+    const alternatives = backtests
+      .filter(result => result.model !== model.name && result.mape !== null)
+      .map(result => `- ${result.model}: MAPE ${result.mape}%`);
+
+    return [`- ${model.name} (${model.description})`, `- Chosen because: ${model.reason}`, accuracy]
+      .concat(alternatives.length > 0 ? ['Alternatives considered:', ...alternatives] : [])
+      .join('\n');
+  }
+
   private identifySeasonalPattern(forecasts: any[]): string {
     // Find highest and lowest months
     const sorted = [...forecasts].sort((a, b) => b.predictedRevenue - a.predictedRevenue);
@@ -108,7 +128,7 @@ ${summary.growthRate > 0 ? 'Growing' : summary.growthRate < 0 ? 'Declining' : 'S
 - Low months: ${lowestMonths}`;
   }
 
-  private async generateAIExplanation(context: string): Promise<Omit<ForecastExplanation, 'storeId' | 'storeName' | 'confidence'>> {
+  private async generateAIExplanation(context: string): Promise<Omit<ForecastExplanation, 'storeId' | 'storeName' | 'confidence' | 'model'>> {
     const prompt = `You are a revenue forecasting analyst for a franchise chain. Analyze this store's forecast and provide insights.
 
 ${context}
@@ -124,7 +144,7 @@ Provide a structured analysis in JSON format:
 }
 
 Be specific, data-driven, and actionable. Focus on:
-1. What's driving the forecast (growth/decline)
+1. What's driving the forecast (growth/decline), and how reliable the chosen model has been in backtests
 2. Seasonal patterns and their business implications
 3. Specific risks to watch for
 4. Concrete opportunities to capture
@@ -133,21 +153,14 @@ Be specific, data-driven, and actionable. Focus on:
 Keep each point concise (1-2 sentences max).`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.FORECAST_ANALYSIS_MODEL || 'gpt-5-mini',
+      const { data: parsed } = await this.llm.completeJson<Partial<Omit<ForecastExplanation, 'storeId' | 'storeName' | 'confidence' | 'model'>>>({
+        purpose: 'forecast.explanation',
+        model: process.env.FORECAST_ANALYSIS_MODEL,
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.7,
-        max_tokens: 800,
-        response_format: { type: 'json_object' }
+        maxOutputTokens: 800
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from AI');
-      }
-
-      const parsed = JSON.parse(content);
-
       return {
         summary: parsed.summary || 'Analysis unavailable',
         keyDrivers: parsed.keyDrivers || [],
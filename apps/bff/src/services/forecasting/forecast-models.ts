@@ -0,0 +1,417 @@
+/**
+ * Monthly revenue forecasting models and rolling-origin backtesting.
+ *
+ * Every model works on a contiguous monthly series (missing months filled
+ * with zero) and returns, per horizon step, a point forecast, its standard
+ * error and the baseline/seasonal/trend decomposition stored on
+ * RevenueForecast for explainability.
+ */
+
+export const FORECAST_MODELS = ['holt-winters', 'ets-damped', 'seasonal-naive', 'trend-seasonal', 'regression'] as const;
+export type ForecastModelName = typeof FORECAST_MODELS[number];
+
+export interface ModelStep {
+  value: number;
+  standardError: number;
+  baseline: number;
+  seasonalFactor: number;
+  trend: number;
+}
+
+export interface SeriesModel {
+  name: Exclude<ForecastModelName, 'regression'>;
+  description: string;
+  /** Fewest months of history the model can be fitted on */
+  minHistory: number;
+  /**
+   * @param history monthly revenue, oldest first
+   * @param firstMonth calendar month (1-12) of history[0]
+   */
+  forecast(history: number[], horizon: number, firstMonth: number): ModelStep[];
+}
+
+export interface BacktestResult {
+  model: ForecastModelName;
+  /** Mean absolute percentage error over all backtest points, in percent */
+  mape: number | null;
+  /** Share of actuals that fell inside the 80% interval */
+  coverage: number | null;
+  origins: number;
+  points: number;
+}
+
+const SEASON = 12;
+// Two-sided 80% normal quantile; RevenueForecast stores 80% intervals
+export const Z_80 = 1.2816;
+const MIN_BACKTEST_POINTS = 3;
+const MAX_BACKTEST_ORIGINS = 12;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+const rmse = (errors: number[]) => Math.sqrt(mean(errors.map((e) => e * e)));
+
+const monthOf = (firstMonth: number, index: number) => ((firstMonth - 1 + index) % SEASON) + 1;
+
+/** Last year's value for the same month, repeated forward */
+export const seasonalNaive: SeriesModel = {
+  name: 'seasonal-naive',
+  description: 'Same month last year',
+  minHistory: SEASON,
+  forecast(history, horizon) {
+    const n = history.length;
+    const seasonalDiffs = history.slice(SEASON).map((v, i) => v - history[i]);
+    const sigma = seasonalDiffs.length > 1 ? rmse(seasonalDiffs) : mean(history.slice(-SEASON)) * 0.15;
+    const baseline = mean(history.slice(-SEASON));
+
+    return Array.from({ length: horizon }, (_, i) => {
+      const h = i + 1;
+      const cycles = Math.ceil(h / SEASON);
+      const value = history[n - SEASON + ((h - 1) % SEASON)];
+      return {
+        value,
+        standardError: sigma * Math.sqrt(cycles),
+        baseline,
+        seasonalFactor: baseline > 0 ? value / baseline : 1,
+        trend: 0,
+      };
+    });
+  },
+};
+
+/**
+ * The original model: overall mean, least-squares slope and month-of-year
+ * indices. Kept as a candidate so automatic selection can fall back to it.
+ */
+export const trendSeasonal: SeriesModel = {
+  name: 'trend-seasonal',
+  description: 'Mean level with a linear trend and monthly seasonal indices',
+  minHistory: 6,
+  forecast(history, horizon, firstMonth) {
+    const n = history.length;
+    const baseline = mean(history);
+    const slope = linearSlope(history);
+    const indices = seasonalIndices(history, firstMonth);
+
+    const fitted = history.map((_, t) => (baseline + slope * (t - (n - 1) / 2)) * indices[monthOf(firstMonth, t)]);
+    const sigma = rmse(history.map((v, t) => v - fitted[t]));
+
+    return Array.from({ length: horizon }, (_, i) => {
+      const h = i + 1;
+      const level = baseline + slope * (n - 1 + h - (n - 1) / 2);
+      const seasonalFactor = indices[monthOf(firstMonth, n - 1 + h)];
+      return {
+        value: level * seasonalFactor,
+        standardError: sigma * Math.sqrt(1 + h / n),
+        baseline,
+        seasonalFactor,
+        trend: slope,
+      };
+    });
+  },
+};
+
+/** Holt's linear method with a damped trend, ETS(A,Ad,N) */
+export const etsDamped: SeriesModel = {
+  name: 'ets-damped',
+  description: 'Exponential smoothing with a damped trend',
+  minHistory: 6,
+  forecast(history, horizon) {
+    let best: { sse: number; alpha: number; beta: number; phi: number; level: number; trend: number } | null = null;
+
+    for (const alpha of [0.1, 0.2, 0.4, 0.6, 0.8]) {
+      for (const beta of [0.01, 0.05, 0.1, 0.2]) {
+        for (const phi of [0.8, 0.9, 0.98]) {
+          let level = history[0];
+          let trend = history.length > 1 ? history[1] - history[0] : 0;
+          let sse = 0;
+          for (let t = 1; t < history.length; t++) {
+            const predicted = level + phi * trend;
+            const error = history[t] - predicted;
+            sse += error * error;
+            const previousLevel = level;
+            level = predicted + alpha * error;
+            trend = phi * trend + beta * (level - previousLevel - phi * trend);
+          }
+          if (!best || sse < best.sse) {
+            best = { sse, alpha, beta, phi, level, trend };
+          }
+        }
+      }
+    }
+
+    const { sse, alpha, beta, phi, level, trend } = best!;
+    const variance = sse / Math.max(1, history.length - 1);
+    const steps: ModelStep[] = [];
+    let dampSum = 0;
+    let varianceSum = 1;
+
+    for (let h = 1; h <= horizon; h++) {
+      dampSum += phi ** h;
+      if (h > 1) {
+        let partial = 0;
+        for (let j = 1; j < h; j++) partial += phi ** j;
+        varianceSum += (alpha + alpha * beta * partial) ** 2;
+      }
+      steps.push({
+        value: level + dampSum * trend,
+        standardError: Math.sqrt(variance * varianceSum),
+        baseline: level,
+        seasonalFactor: 1,
+        trend: (dampSum * trend) / h,
+      });
+    }
+    return steps;
+  },
+};
+
+/** Additive Holt-Winters with a 12-month season */
+export const holtWinters: SeriesModel = {
+  name: 'holt-winters',
+  description: 'Holt-Winters exponential smoothing with trend and yearly seasonality',
+  minHistory: 2 * SEASON,
+  forecast(history, horizon) {
+    const n = history.length;
+    const firstSeason = mean(history.slice(0, SEASON));
+    const secondSeason = mean(history.slice(SEASON, 2 * SEASON));
+    const initialSeasonals = history.slice(0, SEASON).map((v) => v - firstSeason);
+
+    let best: { sse: number; alpha: number; beta: number; gamma: number; level: number; trend: number; seasonals: number[] } | null = null;
+
+    for (const alpha of [0.1, 0.2, 0.4, 0.6, 0.8]) {
+      for (const beta of [0.01, 0.05, 0.1, 0.2]) {
+        for (const gamma of [0.05, 0.1, 0.2, 0.4]) {
+          let level = firstSeason;
+          let trend = (secondSeason - firstSeason) / SEASON;
+          const seasonals = [...initialSeasonals];
+          let sse = 0;
+
+          for (let t = SEASON; t < n; t++) {
+            const s = seasonals[t % SEASON];
+            const error = history[t] - (level + trend + s);
+            sse += error * error;
+            const previousLevel = level;
+            level = previousLevel + trend + alpha * error;
+            trend = trend + alpha * beta * error;
+            seasonals[t % SEASON] = s + gamma * (1 - alpha) * error;
+          }
+          if (!best || sse < best.sse) {
+            best = { sse, alpha, beta, gamma, level, trend, seasonals };
+          }
+        }
+      }
+    }
+
+    const { sse, alpha, beta, gamma, level, trend, seasonals } = best!;
+    const variance = sse / Math.max(1, n - SEASON);
+    const steps: ModelStep[] = [];
+    let varianceSum = 1;
+
+    for (let h = 1; h <= horizon; h++) {
+      if (h > 1) {
+        const j = h - 1;
+        varianceSum += (alpha + j * alpha * beta + (j % SEASON === 0 ? gamma * (1 - alpha) : 0)) ** 2;
+      }
+      const base = level + h * trend;
+      const value = base + seasonals[(n - 1 + h) % SEASON];
+      steps.push({
+        value,
+        standardError: Math.sqrt(variance * varianceSum),
+        baseline: level,
+        seasonalFactor: base > 0 ? value / base : 1,
+        trend,
+      });
+    }
+    return steps;
+  },
+};
+
+export const SERIES_MODELS: SeriesModel[] = [holtWinters, etsDamped, seasonalNaive, trendSeasonal];
+
+/**
+ * Rolling-origin evaluation: refit on every prefix ending at one of the last
+ * origins and score the next `horizon` months against what actually happened.
+ */
+export function backtest(model: SeriesModel, history: number[], firstMonth: number, horizon: number): BacktestResult {
+  const n = history.length;
+  const firstOrigin = Math.max(model.minHistory, n - MAX_BACKTEST_ORIGINS);
+  let origins = 0;
+  let covered = 0;
+  const percentageErrors: number[] = [];
+  let points = 0;
+
+  for (let origin = firstOrigin; origin < n; origin++) {
+    const steps = Math.min(horizon, n - origin);
+    const forecast = model.forecast(history.slice(0, origin), steps, firstMonth);
+    origins++;
+
+    for (let h = 0; h < steps; h++) {
+      const actual = history[origin + h];
+      const { value, standardError } = forecast[h];
+      points++;
+      if (Math.abs(actual - value) <= Z_80 * standardError) covered++;
+      // Months with no revenue (closures, data gaps) have no meaningful percentage error
+      if (actual > 0) percentageErrors.push(Math.abs(actual - value) / actual);
+    }
+  }
+
+  const scored = percentageErrors.length >= MIN_BACKTEST_POINTS;
+  return {
+    model: model.name,
+    mape: scored ? round(mean(percentageErrors) * 100, 2) : null,
+    coverage: scored ? round(covered / points, 3) : null,
+    origins,
+    points,
+  };
+}
+
+/**
+ * Backtests every model that fits the history and picks the lowest MAPE. When
+ * the history is too short to score any model, the most capable model that
+ * can still be fitted is used.
+ */
+export function selectModel(
+  history: number[],
+  firstMonth: number,
+  horizon: number,
+): { model: SeriesModel; backtests: BacktestResult[]; reason: string } {
+  const candidates = SERIES_MODELS.filter((model) => history.length >= model.minHistory);
+  if (candidates.length === 0) {
+    throw new Error(`Need at least ${Math.min(...SERIES_MODELS.map((m) => m.minHistory))} months of history`);
+  }
+
+  const backtests = candidates.map((model) => backtest(model, history, firstMonth, horizon));
+  const scored = backtests
+    .map((result, i) => ({ result, model: candidates[i] }))
+    .filter(({ result }) => result.mape !== null)
+    .sort((a, b) => a.result.mape! - b.result.mape!);
+
+  if (scored.length > 0) {
+    const [winner, runnerUp] = scored;
+    return {
+      model: winner.model,
+      backtests,
+      reason: runnerUp
+        ? `Lowest backtest MAPE (${winner.result.mape}% vs ${runnerUp.result.mape}% for ${runnerUp.model.name})`
+        : `Only model with enough history to backtest (MAPE ${winner.result.mape}%)`,
+    };
+  }
+
+  return {
+    model: candidates[0],
+    backtests,
+    reason: `Too little history to backtest; using ${candidates[0].name}`,
+  };
+}
+
+export interface PeerStore {
+  /** Mean monthly revenue over the peer's last 12 complete months */
+  monthlyRevenue: number;
+  features: number[];
+  /** Month (1-12) -> ratio of that month to the peer's mean */
+  seasonalIndices: Record<number, number>;
+}
+
+/**
+ * Cold-start model for stores without enough history: ordinary least squares
+ * of peer stores' monthly revenue on store attributes, with the peers'
+ * average seasonal profile applied.
+ */
+export function regressionForecast(
+  features: number[],
+  peers: PeerStore[],
+  horizon: number,
+  firstForecastMonth: number,
+): ModelStep[] {
+  if (peers.length < features.length + 3) {
+    throw new Error(`Need at least ${features.length + 3} comparable stores for a cold-start forecast`);
+  }
+
+  const X = peers.map((peer) => [1, ...peer.features]);
+  const y = peers.map((peer) => peer.monthlyRevenue);
+  const coefficients = leastSquares(X, y);
+  const predict = (row: number[]) => row.reduce((sum, x, i) => sum + x * coefficients[i], 0);
+
+  const residuals = X.map((row, i) => y[i] - predict(row));
+  const sigma = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / Math.max(1, peers.length - X[0].length));
+  const baseline = Math.max(0, predict([1, ...features]));
+
+  return Array.from({ length: horizon }, (_, i) => {
+    const month = monthOf(firstForecastMonth, i);
+    const seasonalFactor = mean(peers.map((peer) => peer.seasonalIndices[month] ?? 1)) || 1;
+    return {
+      value: baseline * seasonalFactor,
+      standardError: sigma * seasonalFactor,
+      baseline,
+      seasonalFactor,
+      trend: 0,
+    };
+  });
+}
+
+export function seasonalIndices(history: number[], firstMonth: number): Record<number, number> {
+  const byMonth: Record<number, number[]> = {};
+  history.forEach((value, t) => {
+    const month = monthOf(firstMonth, t);
+    (byMonth[month] ??= []).push(value);
+  });
+
+  const monthlyAverages = Object.values(byMonth).map(mean);
+  const overall = mean(monthlyAverages);
+  const indices: Record<number, number> = {};
+  for (let month = 1; month <= SEASON; month++) {
+    indices[month] = byMonth[month] && overall > 0 ? mean(byMonth[month]) / overall : 1;
+  }
+  return indices;
+}
+
+function linearSlope(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((y, x) => {
+    numerator += (x - xMean) * (y - yMean);
+    denominator += (x - xMean) ** 2;
+  });
+  return numerator / denominator;
+}
+
+/** Solves the normal equations with a tiny ridge term so collinear features stay solvable */
+function leastSquares(X: number[][], y: number[]): number[] {
+  const k = X[0].length;
+  const A = Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => X.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j ? 1e-6 : 0)),
+  );
+  const b = Array.from({ length: k }, (_, i) => X.reduce((sum, row, r) => sum + row[i] * y[r], 0));
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < k; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    }
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < k; row++) {
+      const factor = A[row][col] / A[col][col];
+      for (let c = col; c < k; c++) A[row][c] -= factor * A[col][c];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const solution = new Array<number>(k).fill(0);
+  for (let row = k - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let c = row + 1; c < k; c++) sum -= A[row][c] * solution[c];
+    solution[row] = sum / A[row][row];
+  }
+  return solution;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -1,5 +1,18 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Optional } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
+import { StoreHoursService } from '../hours/store-hours.service';
+import {
+  BacktestResult,
+  ForecastModelName,
+  ModelStep,
+  PeerStore,
+  SERIES_MODELS,
+  Z_80,
+  backtest,
+  regressionForecast,
+  seasonalIndices,
+  selectModel,
+} from './forecast-models';
 
 export interface RevenueDataPoint {
   date: Date;
@@ -18,6 +31,17 @@ export interface ForecastPoint {
   baselineRevenue: number;
   seasonalFactor: number;
   trendFactor: number;
+  /** Scheduled trading hours relative to the same month a year earlier; 1 without configured hours */
+  tradingHoursFactor: number;
+}
+
+export interface ForecastModelInfo {
+  name: ForecastModelName;
+  description: string;
+  /** Why this model was used, e.g. the backtest comparison that picked it */
+  reason: string;
+  backtestMape: number | null;
+  backtestCoverage: number | null;
 }
 
 export interface StoreForecast {
@@ -31,15 +55,32 @@ export interface StoreForecast {
     growthRate: number;
     confidence: number;
   };
+  model: ForecastModelInfo;
+  backtests: BacktestResult[];
   historicalData: RevenueDataPoint[];
 }
 
+export type ForecastModelSelection = ForecastModelName | 'auto';
+
+const MODEL_VERSION = '2.0';
+// Months ahead scored from each backtest origin
+const BACKTEST_HORIZON = 3;
+const POPULATION_BANDS: Record<string, number> = { small: 0, medium: 1, large: 2 };
+const REGRESSION_DESCRIPTION = 'Regression on comparable stores\' revenue by size and city population';
+
 @Injectable()
 export class RevenueForecastingService {
-  constructor(private readonly prisma: PrismaClient) {}
+  constructor(
+    private readonly prisma: PrismaClient,
+    @Optional() private readonly storeHours?: StoreHoursService
+  ) {}
 
-  async forecastStore(storeId: string, horizonMonths: number = 12): Promise<StoreForecast> {
-    console.log(`📊 Forecasting revenue for store ${storeId}, horizon: ${horizonMonths} months`);
+  async forecastStore(
+    storeId: string,
+    horizonMonths: number = 12,
+    requestedModel: ForecastModelSelection = 'auto'
+  ): Promise<StoreForecast> {
+    console.log(`📊 Forecasting revenue for store ${storeId}, horizon: ${horizonMonths} months, model: ${requestedModel}`);
 
     // 1. Load store details
     const store = await this.prisma.store.findUnique({
@@ -50,37 +91,78 @@ export class RevenueForecastingService {
       throw new Error(`Store ${storeId} not found`);
     }
 
-    // 2. Load historical revenue data
+    // 2. Load historical revenue data (complete months only)
     const historicalData = await this.loadHistoricalRevenue(storeId);
-
-    if (historicalData.length < 6) {
-      throw new Error(`Insufficient historical data for store ${storeId}. Need at least 6 months.`);
-    }
+    const history = historicalData.map(point => point.revenue);
+    const firstMonth = historicalData[0]?.month ?? 1;
+    const now = new Date();
+    const forecastStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    // History ends last month, so step one is the current (incomplete) month and is dropped
+    const fitHorizon = horizonMonths + 1;
 
     console.log(`✅ Loaded ${historicalData.length} months of historical data`);
 
-    // 3. Calculate baseline (average revenue)
-    const baseline = this.calculateBaseline(historicalData);
-
-    // 4. Calculate trend (growth/decline rate)
-    const trend = this.calculateTrend(historicalData);
+    // 3. Fit the requested model, or backtest every candidate and keep the most accurate
+    const backtestHorizon = Math.min(BACKTEST_HORIZON, horizonMonths);
+    const coldStart = history.length < Math.min(...SERIES_MODELS.map(model => model.minHistory));
+    let steps: ModelStep[];
+    let model: ForecastModelInfo;
+    let backtests: BacktestResult[] = [];
+
+    if (requestedModel === 'regression' || (requestedModel === 'auto' && coldStart)) {
+      steps = await this.coldStartForecast(store, horizonMonths, forecastStart.getUTCMonth() + 1);
+      model = {
+        name: 'regression',
+        description: REGRESSION_DESCRIPTION,
+        reason: coldStart
+          ? `Only ${history.length} months of history; forecast from comparable stores in ${store.country}`
+          : 'Requested explicitly',
+        backtestMape: null,
+        backtestCoverage: null
+      };
+    } else if (requestedModel === 'auto') {
+      const selection = selectModel(history, firstMonth, backtestHorizon);
+      const chosen = selection.backtests.find(result => result.model === selection.model.name)!;
+      steps = selection.model.forecast(history, fitHorizon, firstMonth).slice(1);
+      backtests = selection.backtests;
+      model = {
+        name: selection.model.name,
+        description: selection.model.description,
+        reason: selection.reason,
+        backtestMape: chosen.mape,
+        backtestCoverage: chosen.coverage
+      };
+    } else {
+      const seriesModel = SERIES_MODELS.find(candidate => candidate.name === requestedModel)!;
+      if (history.length < seriesModel.minHistory) {
+        throw new Error(`${seriesModel.name} needs at least ${seriesModel.minHistory} months of history; store ${storeId} has ${history.length}`);
+      }
+      const result = backtest(seriesModel, history, firstMonth, backtestHorizon);
+      steps = seriesModel.forecast(history, fitHorizon, firstMonth).slice(1);
+      backtests = [result];
+      model = {
+        name: seriesModel.name,
+        description: seriesModel.description,
+        reason: 'Requested explicitly',
+        backtestMape: result.mape,
+        backtestCoverage: result.coverage
+      };
+    }
 
-    // 5. Extract seasonal pattern
-    const seasonalIndices = await this.getSeasonalIndices(storeId, historicalData);
+    console.log(`🧮 Using ${model.name}: ${model.reason}`);
 
-    // 6. Generate forecasts
-    const forecasts = this.generateForecasts(
-      baseline,
-      trend,
-      seasonalIndices,
-      horizonMonths
-    );
+    // 4. Generate forecasts, adjusted for holidays and closures that differ from last year
+    const forecasts = this.toForecastPoints(steps, forecastStart);
+    await this.applyTradingHours(storeId, forecasts);
 
-    // 7. Save forecasts to database
-    await this.saveForecasts(storeId, forecasts);
+    // 5. Save forecasts and backtest scores to database
+    if (history.length >= 12) {
+      await this.saveSeasonalPatterns(storeId, seasonalIndices(history, firstMonth), history.length);
+    }
+    await this.saveForecasts(storeId, forecasts, model, backtests, backtestHorizon);
 
-    // 8. Calculate summary metrics
-    const summary = this.calculateSummary(forecasts, trend);
+    // 6. Calculate summary metrics
+    const summary = this.calculateSummary(forecasts, forecasts[0].trendFactor, model.backtestMape);
 
     console.log(`✅ Generated ${forecasts.length} forecast points`);
 
@@ -89,144 +171,109 @@ export class RevenueForecastingService {
       storeName: store.name,
       forecasts,
       summary,
+      model,
+      backtests,
       historicalData
     };
   }
 
   private async loadHistoricalRevenue(storeId: string): Promise<RevenueDataPoint[]> {
-    // Load orders grouped by month
-    const orders = await this.prisma.order.groupBy({
-      by: ['createdAt'],
-      where: {
-        storeId,
-        status: { in: ['COMPLETED', 'DELIVERED'] }
-      },
-      _sum: {
-        total: true
-      },
-      orderBy: {
-        createdAt: 'asc'
-      }
-    });
-
-    // Group by month
-    const monthlyRevenue = new Map<string, number>();
-
-    orders.forEach(order => {
-      const date = new Date(order.createdAt);
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      const revenue = Number(order._sum.total || 0);
-      
-      monthlyRevenue.set(
-        monthKey,
-        (monthlyRevenue.get(monthKey) || 0) + revenue
-      );
-    });
+    // Monthly totals, excluding the current month so a partial month doesn't read as a slump
+    const rows = await this.prisma.$queryRaw<Array<{ month: Date; revenue: number }>>`
+      SELECT date_trunc('month', "createdAt") AS month, SUM(total)::float AS revenue
+      FROM "Order"
+      WHERE "storeId" = ${storeId}
+        AND status IN ('COMPLETED', 'DELIVERED')
+        AND "createdAt" < date_trunc('month', now())
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    if (rows.length === 0) {
+      return [];
+    }
 
-    // Convert to array
+    // Fill months without orders, up to last month, with zero so models see a contiguous series
+    const revenueByMonth = new Map(rows.map(row => [this.monthKey(row.month), Number(row.revenue)]));
     const dataPoints: RevenueDataPoint[] = [];
-    monthlyRevenue.forEach((revenue, monthKey) => {
-      const [year, month] = monthKey.split('-').map(Number);
+    const now = new Date();
+    const last = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+
+    for (
+      let date = new Date(Date.UTC(rows[0].month.getUTCFullYear(), rows[0].month.getUTCMonth(), 1));
+      date <= last;
+      date = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+    ) {
       dataPoints.push({
-        date: new Date(year, month - 1, 1),
-        revenue,
-        month,
-        year
+        date,
+        revenue: revenueByMonth.get(this.monthKey(date)) ?? 0,
+        month: date.getUTCMonth() + 1,
+        year: date.getUTCFullYear()
       });
-    });
-
-    return dataPoints.sort((a, b) => a.date.getTime() - b.date.getTime());
-  }
-
-  private calculateBaseline(data: RevenueDataPoint[]): number {
-    const sum = data.reduce((acc, point) => acc + point.revenue, 0);
-    return sum / data.length;
-  }
-
-  private calculateTrend(data: RevenueDataPoint[]): number {
-    // Simple linear regression to find trend
-    const n = data.length;
-    if (n < 2) return 0;
-
-    let sumX = 0;
-    let sumY = 0;
-    let sumXY = 0;
-    let sumX2 = 0;
-
-    data.forEach((point, index) => {
-      const x = index;
-      const y = point.revenue;
-      sumX += x;
-      sumY += y;
-      sumXY += x * y;
-      sumX2 += x * x;
-    });
+    }
 
-    const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-    return slope;
+    return dataPoints;
   }
 
-  private async getSeasonalIndices(
-    storeId: string,
-    historicalData: RevenueDataPoint[]
-  ): Promise<Record<number, number>> {
-    // Try to load from database first
-    const patterns = await this.prisma.seasonalPattern.findMany({
-      where: { storeId }
-    });
-
-    if (patterns.length === 12) {
-      // Use cached patterns
-      const indices: Record<number, number> = {};
-      patterns.forEach(pattern => {
-        indices[pattern.month] = pattern.seasonalIndex;
-      });
-      return indices;
+  /**
+   * Regression over stores in the same country that have a full year of
+   * trading, using annual turnover and city population band as features.
+   */
+  private async coldStartForecast(
+    store: { id: string; country: string | null; annualTurnover: number | null; cityPopulationBand: string | null },
+    horizonMonths: number,
+    firstForecastMonth: number
+  ): Promise<ModelStep[]> {
+    const features = this.storeFeatures(store);
+    if (!store.country || !features) {
+      throw new Error(
+        `Insufficient historical data for store ${store.id}, and no annual turnover or city population band for a cold-start forecast`
+      );
     }
 
-    // Calculate seasonal indices from historical data
-    const indices = this.calculateSeasonalIndices(historicalData);
-
-    // Save to database
-    await this.saveSeasonalPatterns(storeId, indices, historicalData.length);
-
-    return indices;
-  }
-
-  private calculateSeasonalIndices(data: RevenueDataPoint[]): Record<number, number> {
-    // Group by month
-    const monthlyData: Record<number, number[]> = {};
-    
-    data.forEach(point => {
-      if (!monthlyData[point.month]) {
-        monthlyData[point.month] = [];
-      }
-      monthlyData[point.month].push(point.revenue);
+    const rows = await this.prisma.$queryRaw<
+      Array<{ storeId: string; annualTurnover: number; cityPopulationBand: string; month: Date; revenue: number }>
+    >`
+      SELECT o."storeId", s."annualTurnover", s."cityPopulationBand",
+             date_trunc('month', o."createdAt") AS month, SUM(o.total)::float AS revenue
+      FROM "Order" o
+      JOIN "Store" s ON s.id = o."storeId"
+      WHERE s.country = ${store.country}
+        AND s.id <> ${store.id}
+        AND s."annualTurnover" IS NOT NULL
+        AND s."cityPopulationBand" IS NOT NULL
+        AND o.status IN ('COMPLETED', 'DELIVERED')
+        AND o."createdAt" >= date_trunc('month', now()) - interval '12 months'
+        AND o."createdAt" < date_trunc('month', now())
+      GROUP BY 1, 2, 3, 4
+    `;
+
+    const byStore = new Map<string, typeof rows>();
+    rows.forEach(row => byStore.set(row.storeId, [...(byStore.get(row.storeId) ?? []), row]));
+
+    const peers: PeerStore[] = [];
+    byStore.forEach(months => {
+      const peerFeatures = this.storeFeatures(months[0]);
+      if (months.length < 12 || !peerFeatures) return;
+
+      const ordered = [...months].sort((a, b) => a.month.getTime() - b.month.getTime());
+      const revenue = ordered.map(row => Number(row.revenue));
+      peers.push({
+        monthlyRevenue: revenue.reduce((sum, value) => sum + value, 0) / revenue.length,
+        features: peerFeatures,
+        seasonalIndices: seasonalIndices(revenue, ordered[0].month.getUTCMonth() + 1)
+      });
     });
 
-    // Calculate average for each month
-    const monthlyAverages: Record<number, number> = {};
-    Object.keys(monthlyData).forEach(monthStr => {
-      const month = Number(monthStr);
-      const revenues = monthlyData[month];
-      monthlyAverages[month] = revenues.reduce((a, b) => a + b, 0) / revenues.length;
-    });
+    return regressionForecast(features, peers, horizonMonths, firstForecastMonth);
+  }
 
-    // Calculate overall average
-    const overallAverage = Object.values(monthlyAverages).reduce((a, b) => a + b, 0) / 
-                          Object.values(monthlyAverages).length;
-
-    // Calculate seasonal indices (ratio to overall average)
-    const indices: Record<number, number> = {};
-    for (let month = 1; month <= 12; month++) {
-      if (monthlyAverages[month]) {
-        indices[month] = monthlyAverages[month] / overallAverage;
-      } else {
-        indices[month] = 1.0; // Default to average if no data
-      }
+  private storeFeatures(store: { annualTurnover: number | null; cityPopulationBand: string | null }): number[] | null {
+    const band = store.cityPopulationBand ? POPULATION_BANDS[store.cityPopulationBand] : undefined;
+    if (store.annualTurnover == null || band === undefined) {
+      return null;
     }
-
-    return indices;
+    return [store.annualTurnover / 12, band];
   }
 
   private async saveSeasonalPatterns(
@@ -248,73 +295,111 @@ export class RevenueForecastingService {
     });
   }
 
-  private generateForecasts(
-    baseline: number,
-    trend: number,
-    seasonalIndices: Record<number, number>,
-    horizonMonths: number
-  ): ForecastPoint[] {
-    const forecasts: ForecastPoint[] = [];
-    const now = new Date();
-    const currentMonth = now.getMonth() + 1;
-    const currentYear = now.getFullYear();
-
-    for (let i = 1; i <= horizonMonths; i++) {
-      const forecastDate = new Date(currentYear, currentMonth - 1 + i, 1);
-      const month = forecastDate.getMonth() + 1;
-      const year = forecastDate.getFullYear();
-
-      // Calculate trend component
-      const trendComponent = baseline + (trend * i);
-      
-      // Apply seasonal factor
-      const seasonalFactor = seasonalIndices[month] || 1.0;
-      const predictedRevenue = trendComponent * seasonalFactor;
-
-      // Calculate confidence interval (±15% for 80% confidence)
-      const confidenceLow = predictedRevenue * 0.85;
-      const confidenceHigh = predictedRevenue * 1.15;
-
-      forecasts.push({
+  private toForecastPoints(steps: ModelStep[], forecastStart: Date): ForecastPoint[] {
+    return steps.map((step, i) => {
+      const forecastDate = new Date(Date.UTC(forecastStart.getUTCFullYear(), forecastStart.getUTCMonth() + i, 1));
+      const predictedRevenue = Math.max(0, step.value);
+      const margin = Z_80 * step.standardError;
+
+      return {
         date: forecastDate,
-        month,
-        year,
+        month: forecastDate.getUTCMonth() + 1,
+        year: forecastDate.getUTCFullYear(),
         predictedRevenue: Math.round(predictedRevenue),
-        confidenceLow: Math.round(confidenceLow),
-        confidenceHigh: Math.round(confidenceHigh),
-        baselineRevenue: Math.round(baseline),
-        seasonalFactor,
-        trendFactor: trend
-      });
+        confidenceLow: Math.round(Math.max(0, predictedRevenue - margin)),
+        confidenceHigh: Math.round(predictedRevenue + margin),
+        baselineRevenue: Math.round(step.baseline),
+        seasonalFactor: step.seasonalFactor,
+        trendFactor: step.trend,
+        tradingHoursFactor: 1
+      };
+    });
+  }
+
+  /**
+   * The models learn from last year's revenue, which already reflects last
+   * year's trading hours. Each month is scaled by its scheduled hours over the
+   * hours the same calendar gives the month a year earlier, so a moved Easter
+   * or a planned closure shifts revenue between months.
+   */
+  private async applyTradingHours(storeId: string, forecasts: ForecastPoint[]): Promise<void> {
+    const calendar = (await this.storeHours?.loadCalendars([storeId]))?.get(storeId);
+    if (!calendar) return;
+
+    for (const forecast of forecasts) {
+      const scheduled = calendar.openMinutes(...this.monthRange(forecast.year, forecast.month));
+      const lastYear = calendar.openMinutes(...this.monthRange(forecast.year - 1, forecast.month));
+      if (lastYear === 0) continue;
+
+      const factor = Math.round((scheduled / lastYear) * 1000) / 1000;
+      forecast.tradingHoursFactor = factor;
+      forecast.predictedRevenue = Math.round(forecast.predictedRevenue * factor);
+      forecast.confidenceLow = Math.round(forecast.confidenceLow * factor);
+      forecast.confidenceHigh = Math.round(forecast.confidenceHigh * factor);
     }
+  }
 
-    return forecasts;
+  private monthRange(year: number, month: number): [string, string] {
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const prefix = `${year}-${String(month).padStart(2, '0')}`;
+    return [`${prefix}-01`, `${prefix}-${String(lastDay).padStart(2, '0')}`];
   }
 
-  private async saveForecasts(storeId: string, forecasts: ForecastPoint[]): Promise<void> {
-    // Delete existing forecasts for this store
-    await this.prisma.revenueForecast.deleteMany({
-      where: { storeId }
-    });
+  private monthKey(date: Date): string {
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
 
-    // Insert new forecasts
-    await this.prisma.revenueForecast.createMany({
-      data: forecasts.map(forecast => ({
-        storeId,
-        forecastDate: forecast.date,
-        forecastMonth: forecast.month,
-        forecastYear: forecast.year,
-        predictedRevenue: forecast.predictedRevenue,
-        confidenceLow: forecast.confidenceLow,
-        confidenceHigh: forecast.confidenceHigh,
-        baselineRevenue: forecast.baselineRevenue,
-        seasonalFactor: forecast.seasonalFactor,
-        trendFactor: forecast.trendFactor
-      }))
-    });
+  private async saveForecasts(
+    storeId: string,
+    forecasts: ForecastPoint[],
+    model: ForecastModelInfo,
+    backtests: BacktestResult[],
+    horizonMonths: number
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      // Replace existing forecasts and backtest scores for this store
+      this.prisma.revenueForecast.deleteMany({
+        where: { storeId }
+      }),
+      this.prisma.forecastBacktest.deleteMany({
+        where: { storeId }
+      }),
+      this.prisma.revenueForecast.createMany({
+        data: forecasts.map(forecast => ({
+          storeId,
+          forecastDate: forecast.date,
+          forecastMonth: forecast.month,
+          forecastYear: forecast.year,
+          predictedRevenue: forecast.predictedRevenue,
+          confidenceLow: forecast.confidenceLow,
+          confidenceHigh: forecast.confidenceHigh,
+          baselineRevenue: forecast.baselineRevenue,
+          seasonalFactor: forecast.seasonalFactor,
+          trendFactor: forecast.trendFactor,
+          tradingHoursFactor: forecast.tradingHoursFactor,
+          model: model.name,
+          selectionReason: model.reason,
+          backtestMape: model.backtestMape,
+          backtestCoverage: model.backtestCoverage,
+          modelVersion: MODEL_VERSION
+        }))
+      }),
+      this.prisma.forecastBacktest.createMany({
+        data: backtests.map(result => ({
+          storeId,
+          model: result.model,
+          horizonMonths,
+          mape: result.mape,
+          coverage: result.coverage,
+          origins: result.origins,
+          points: result.points,
+          selected: result.model === model.name
+        }))
+      })
+    ]);
   }
 
-  private calculateSummary(forecasts: ForecastPoint[], trend: number) {
+  private calculateSummary(forecasts: ForecastPoint[], trend: number, backtestMape: number | null = null) {
     const nextMonth = forecasts[0];
     const nextQuarter = forecasts.slice(0, 3);
     const yearEnd = forecasts;
@@ -323,10 +408,12 @@ export class RevenueForecastingService {
     const yearEndRevenue = yearEnd.reduce((sum, f) => sum + f.predictedRevenue, 0);
 
     // Calculate growth rate (annualized)
-    const growthRate = (trend / nextMonth.baselineRevenue) * 12 * 100;
+    const growthRate = nextMonth.baselineRevenue > 0 ? (trend / nextMonth.baselineRevenue) * 12 * 100 : 0;
 
-    // Calculate confidence (based on trend strength)
-    const confidence = Math.min(Math.abs(trend) / nextMonth.baselineRevenue * 10, 1.0);
+    // Confidence from out-of-sample accuracy when the model was backtested, otherwise from trend strength
+    const confidence = backtestMape !== null
+      ? Math.max(0, 1 - backtestMape / 100)
+      : nextMonth.baselineRevenue > 0 ? Math.min(Math.abs(trend) / nextMonth.baselineRevenue * 10, 1.0) : 0;
 
     return {
       nextMonthRevenue: Math.round(nextMonth.predictedRevenue),
@@ -365,17 +452,42 @@ export class RevenueForecastingService {
       confidenceHigh: f.confidenceHigh,
       baselineRevenue: f.baselineRevenue,
       seasonalFactor: f.seasonalFactor,
-      trendFactor: f.trendFactor
+      trendFactor: f.trendFactor,
+      tradingHoursFactor: f.tradingHoursFactor
+    }));
+
+    const [first] = forecasts;
+    const name = first.model as ForecastModelName;
+    const model: ForecastModelInfo = {
+      name,
+      description: SERIES_MODELS.find(candidate => candidate.name === name)?.description ?? REGRESSION_DESCRIPTION,
+      reason: first.selectionReason ?? 'Generated before automatic model selection',
+      backtestMape: first.backtestMape,
+      backtestCoverage: first.backtestCoverage
+    };
+
+    const backtestRows = await this.prisma.forecastBacktest.findMany({
+      where: { storeId },
+      orderBy: { mape: 'asc' }
+    });
+    const backtests: BacktestResult[] = backtestRows.map(row => ({
+      model: row.model as ForecastModelName,
+      mape: row.mape,
+      coverage: row.coverage,
+      origins: row.origins,
+      points: row.points
     }));
 
     const historicalData = await this.loadHistoricalRevenue(storeId);
-    const summary = this.calculateSummary(forecastPoints, forecastPoints[0].trendFactor);
+    const summary = this.calculateSummary(forecastPoints, forecastPoints[0].trendFactor, model.backtestMape);
 
     return {
       storeId,
       storeName: store.name,
       forecasts: forecastPoints,
       summary,
+      model,
+      backtests,
       historicalData
     };
   }
@@ -1,5 +1,6 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Optional } from '@nestjs/common';
 import { PrismaClient, Franchisee } from '@prisma/client';
+import { StoreHoursService } from '../hours/store-hours.service';
 
 export interface PerformanceMetrics {
   revenuePerStore: number;
@@ -9,6 +10,12 @@ export interface PerformanceMetrics {
   customerSatisfaction: number;
 }
 
+export interface FranchiseeScores {
+  performanceScore: number;
+  expansionScore: number;
+  riskScore: number;
+}
+
 export interface TrendData {
   month: string;
   revenue: number;
@@ -18,7 +25,10 @@ export interface TrendData {
 
 @Injectable()
 export class FranchiseeAnalyticsService {
-  constructor(private prisma: PrismaClient) {}
+  constructor(
+    private prisma: PrismaClient,
+    @Optional() private storeHours?: StoreHoursService,
+  ) {}
 
   async calculatePerformanceScore(franchiseeId: string): Promise<number> {
     const franchisee = await this.prisma.franchisee.findUnique({
@@ -148,6 +158,20 @@ export class FranchiseeAnalyticsService {
     return Math.min(100, riskScore);
   }
 
+  /** Recomputes the performance, expansion and risk scores and stores them on the franchisee */
+  async recalculateScores(franchiseeId: string): Promise<FranchiseeScores> {
+    const performanceScore = await this.calculatePerformanceScore(franchiseeId);
+    const expansionScore = await this.calculateExpansionScore(franchiseeId);
+    const riskScore = await this.calculateRiskScore(franchiseeId);
+
+    await this.prisma.franchisee.update({
+      where: { id: franchiseeId },
+      data: { performanceScore, expansionScore, riskScore },
+    });
+
+    return { performanceScore, expansionScore, riskScore };
+  }
+
   async getPerformanceTrends(franchiseeId: string): Promise<TrendData[]> {
     const franchisee = await this.prisma.franchisee.findUnique({
       where: { id: franchiseeId },
@@ -254,11 +278,16 @@ export class FranchiseeAnalyticsService {
       ? activeStores.length / franchisee.totalStores 
       : 1;
 
+    // Share of orders taken inside scheduled trading hours, where stores have hours set
+    const hoursCompliance = await this.storeHours?.tradingHoursCompliance(
+      franchisee.stores.flatMap(store => store.Orders)
+    );
+
     return {
       revenuePerStore,
       growthRate,
       storeRetention,
-      operationalCompliance: 80, // Simplified
+      operationalCompliance: hoursCompliance ?? 80,
       customerSatisfaction: 75, // Simplified
     };
   }
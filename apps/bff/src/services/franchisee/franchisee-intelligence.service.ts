@@ -1,6 +1,7 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Optional } from '@nestjs/common';
 import { PrismaClient, Franchisee, FranchiseeAnalysis } from '@prisma/client';
 import OpenAI from 'openai';
+import { StoreHoursService } from '../hours/store-hours.service';
 
 interface AIAnalysisResult {
   summary: string;
@@ -20,7 +21,10 @@ export class FranchiseeIntelligenceService {
   private openai: OpenAI;
   private model: string;
 
-  constructor(private prisma: PrismaClient) {
+  constructor(
+    private prisma: PrismaClient,
+    @Optional() private storeHours?: StoreHoursService,
+  ) {
     this.openai = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY,
     });
@@ -165,6 +169,11 @@ export class FranchiseeIntelligenceService {
       ? Math.round((1 - betterPerformers / allFranchisees.length) * 100) 
       : 50;
 
+    // Share of orders taken inside scheduled trading hours, where stores have hours set
+    const hoursCompliance = await this.storeHours?.tradingHoursCompliance(
+      franchisee.stores.flatMap((store: { Orders: Array<{ storeId: string; createdAt: Date }> }) => store.Orders)
+    );
+
     return {
       avgRevenuePerStore,
       revenueGrowthRate,
@@ -173,7 +182,7 @@ export class FranchiseeIntelligenceService {
       storeOpeningRate,
       storeClosureRate,
       customerSatisfaction: 75, // Simplified
-      operationalCompliance: 80, // Simplified
+      operationalCompliance: hoursCompliance ?? 80,
       brandStandards: 80, // Simplified
       peerRanking,
       tokensUsed: 0, // Will be updated after AI call
@@ -0,0 +1,127 @@
+import { BadRequestException } from '@nestjs/common';
+import { roundCurrency } from '../money/currency';
+
+export type RoyaltyLineKind = 'ROYALTY' | 'ROYALTY_MINIMUM' | 'MARKETING_FUND' | 'MARKETING_MINIMUM' | 'ADJUSTMENT';
+
+/** The contractual terms a monthly calculation needs from an agreement */
+export interface RoyaltyTerms {
+  id: string;
+  storeId: string;
+  startDate: Date;
+  /** Exclusive */
+  endDate: Date;
+  royaltyRate: number;
+  marketingFundRate: number;
+  minimumMonthlyRoyalty: number | null;
+  minimumMonthlyMarketingFee: number | null;
+}
+
+export interface PeriodBounds {
+  start: Date;
+  /** Exclusive */
+  end: Date;
+}
+
+/** The part of a period an agreement was in force, and its share of the month */
+export interface ActiveWindow extends PeriodBounds {
+  share: number;
+}
+
+export interface RoyaltyLine {
+  kind: RoyaltyLineKind;
+  storeId: string | null;
+  agreementId: string | null;
+  description: string;
+  salesBase: number | null;
+  rate: number | null;
+  amount: number;
+}
+
+/** UTC month boundaries for a YYYY-MM period, or a BadRequest for anything else */
+export function periodBounds(period: string): PeriodBounds {
+  const match = /^(\d{4})-(\d{2})$/.exec(period);
+  const month = match ? Number(match[2]) : 0;
+  if (!match || month < 1 || month > 12) {
+    throw new BadRequestException(`${period} is not a YYYY-MM period`);
+  }
+  const year = Number(match[1]);
+  return { start: new Date(Date.UTC(year, month - 1, 1)), end: new Date(Date.UTC(year, month, 1)) };
+}
+
+/** The calendar month (UTC) before the one containing `now` */
+export function previousPeriod(now: Date): string {
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return `${month.getUTCFullYear()}-${String(month.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Null when the agreement was not in force at any point of the period */
+export function activeWindow(terms: Pick<RoyaltyTerms, 'startDate' | 'endDate'>, bounds: PeriodBounds): ActiveWindow | null {
+  const start = terms.startDate > bounds.start ? terms.startDate : bounds.start;
+  const end = terms.endDate < bounds.end ? terms.endDate : bounds.end;
+  if (end <= start) return null;
+
+  return { start, end, share: (end.getTime() - start.getTime()) / (bounds.end.getTime() - bounds.start.getTime()) };
+}
+
+/**
+ * Royalty and marketing fund lines for one store's agreement. Each fee is
+ * charged on net sales; where it falls short of the monthly minimum (pro rata
+ * for the share of the month the agreement was in force) a separate top-up
+ * line makes up the difference, so statements show both the earned fee and
+ * the floor.
+ */
+export function royaltyLines(terms: RoyaltyTerms, storeName: string, netSales: number, share: number): RoyaltyLine[] {
+  const lines: RoyaltyLine[] = [];
+  const fees = [
+    { kind: 'ROYALTY', minimumKind: 'ROYALTY_MINIMUM', label: 'Royalty', rate: terms.royaltyRate, minimum: terms.minimumMonthlyRoyalty },
+    { kind: 'MARKETING_FUND', minimumKind: 'MARKETING_MINIMUM', label: 'Marketing fund', rate: terms.marketingFundRate, minimum: terms.minimumMonthlyMarketingFee },
+  ] as const;
+
+  for (const fee of fees) {
+    if (fee.rate <= 0 && !fee.minimum) continue;
+
+    const earned = roundCurrency(netSales * fee.rate);
+    lines.push({
+      kind: fee.kind,
+      storeId: terms.storeId,
+      agreementId: terms.id,
+      description: `${fee.label} ${formatRate(fee.rate)} of net sales - ${storeName}`,
+      salesBase: roundCurrency(netSales),
+      rate: fee.rate,
+      amount: earned,
+    });
+
+    const floor = fee.minimum ? roundCurrency(fee.minimum * share) : 0;
+    if (floor > earned) {
+      lines.push({
+        kind: fee.minimumKind,
+        storeId: terms.storeId,
+        agreementId: terms.id,
+        description: `${fee.label} minimum top-up${share < 1 ? ` (${Math.round(share * 100)}% of month)` : ''} - ${storeName}`,
+        salesBase: null,
+        rate: null,
+        amount: roundCurrency(floor - earned),
+      });
+    }
+  }
+  return lines;
+}
+
+/** Statement totals: computed fees on one side, manual adjustments on the other */
+export function statementTotals(lines: Array<Pick<RoyaltyLine, 'kind' | 'amount'>>): { royaltyTotal: number; adjustmentTotal: number; totalDue: number } {
+  let royaltyTotal = 0;
+  let adjustmentTotal = 0;
+  for (const line of lines) {
+    if (line.kind === 'ADJUSTMENT') adjustmentTotal += line.amount;
+    else royaltyTotal += line.amount;
+  }
+  return {
+    royaltyTotal: roundCurrency(royaltyTotal),
+    adjustmentTotal: roundCurrency(adjustmentTotal),
+    totalDue: roundCurrency(royaltyTotal + adjustmentTotal),
+  };
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 10000) / 100}%`;
+}
@@ -0,0 +1,548 @@
+import { BadRequestException, ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { FranchiseAgreement, PrismaClient, RoyaltyStatement, RoyaltyStatementLine } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import { roundCurrency, storeCurrency } from '../money/currency';
+import { RoyaltyLine, RoyaltyLineKind, activeWindow, periodBounds, royaltyLines, statementTotals } from './royalties';
+
+export type AgreementStatus = 'ACTIVE' | 'TERMINATED';
+export type StatementStatus = 'DRAFT' | 'ISSUED';
+
+export interface AgreementInput {
+  storeId: string;
+  reference?: string;
+  startDate: Date;
+  endDate: Date;
+  renewalOptions?: number;
+  renewalTermMonths?: number;
+  royaltyRate: number;
+  marketingFundRate?: number;
+  minimumMonthlyRoyalty?: number;
+  minimumMonthlyMarketingFee?: number;
+  notes?: string;
+}
+
+export type AgreementUpdate = Partial<Omit<AgreementInput, 'storeId'>>;
+
+export interface AgreementView {
+  id: string;
+  storeId: string;
+  storeName: string;
+  franchiseeId: string;
+  reference: string | null;
+  startDate: Date;
+  endDate: Date;
+  renewalOptions: number;
+  renewalTermMonths: number | null;
+  royaltyRate: number;
+  marketingFundRate: number;
+  minimumMonthlyRoyalty: number | null;
+  minimumMonthlyMarketingFee: number | null;
+  status: AgreementStatus;
+  notes: string | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StatementLineView {
+  id: string;
+  kind: RoyaltyLineKind;
+  storeId: string | null;
+  agreementId: string | null;
+  description: string;
+  salesBase: number | null;
+  rate: number | null;
+  amount: number;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface StatementView {
+  id: string;
+  franchiseeId: string;
+  period: string;
+  currency: string;
+  status: StatementStatus;
+  netSales: number;
+  royaltyTotal: number;
+  adjustmentTotal: number;
+  totalDue: number;
+  generatedBy: string;
+  generatedAt: Date;
+  issuedBy: string | null;
+  issuedAt: Date | null;
+  lines: StatementLineView[];
+}
+
+export interface GenerationSummary {
+  period: string;
+  franchisees: number;
+  statements: number;
+  /** Franchisees whose statements for the period are already issued */
+  skipped: number;
+  failed: number;
+}
+
+type AgreementWithStore = FranchiseAgreement & { store: { name: string } };
+type StatementWithLines = RoyaltyStatement & { lines: RoyaltyStatementLine[] };
+
+const AGREEMENT_INCLUDE = { store: { select: { name: true } } } as const;
+const STATEMENT_INCLUDE = { lines: { orderBy: { createdAt: 'asc' } } } as const;
+
+/** Order status whose revenue royalties are charged on */
+const ROYALTY_ORDER_STATUS = 'COMPLETED';
+
+/**
+ * Franchise agreements per store and the monthly royalty statements raised
+ * from them. A statement covers one franchisee, month and currency; it is
+ * regenerated from completed orders while it is a draft, picks up manual
+ * adjustments, and is frozen once issued.
+ */
+@Injectable()
+export class RoyaltyService {
+  private readonly auditUtil: ReturnType<typeof createAuditUtil>;
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {
+    this.auditUtil = createAuditUtil(prisma);
+  }
+
+  async listAgreements(franchiseeId: string): Promise<AgreementView[]> {
+    await this.findFranchisee(franchiseeId);
+    const agreements = await this.prisma.franchiseAgreement.findMany({
+      where: { franchiseeId },
+      include: AGREEMENT_INCLUDE,
+      orderBy: [{ storeId: 'asc' }, { startDate: 'desc' }],
+    });
+    return agreements.map(toAgreementView);
+  }
+
+  async createAgreement(franchiseeId: string, input: AgreementInput, actor: string): Promise<AgreementView> {
+    await this.findFranchisee(franchiseeId);
+    const store = await this.prisma.store.findUnique({ where: { id: input.storeId }, select: { franchiseeId: true, name: true } });
+    if (!store) {
+      throw new NotFoundException(`Store ${input.storeId} not found`);
+    }
+    if (store.franchiseeId !== franchiseeId) {
+      throw new BadRequestException(`${store.name} is not assigned to this franchisee`);
+    }
+    this.validateTerms(input);
+    await this.assertNoOverlap(input.storeId, input.startDate, input.endDate);
+
+    const agreement = await this.prisma.franchiseAgreement.create({
+      data: {
+        storeId: input.storeId,
+        franchiseeId,
+        reference: input.reference,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        renewalOptions: input.renewalOptions ?? 0,
+        renewalTermMonths: input.renewalTermMonths,
+        royaltyRate: input.royaltyRate,
+        marketingFundRate: input.marketingFundRate ?? 0,
+        minimumMonthlyRoyalty: input.minimumMonthlyRoyalty,
+        minimumMonthlyMarketingFee: input.minimumMonthlyMarketingFee,
+        notes: input.notes,
+        createdBy: actor,
+      },
+      include: AGREEMENT_INCLUDE,
+    });
+
+    await this.audit(actor, 'CREATE', agreement.id, undefined, toAgreementView(agreement));
+    return toAgreementView(agreement);
+  }
+
+  async updateAgreement(id: string, update: AgreementUpdate, actor: string): Promise<AgreementView> {
+    const existing = await this.findAgreement(id);
+    const merged = { ...termsOf(existing), ...update };
+    this.validateTerms(merged);
+    if (update.startDate || update.endDate) {
+      await this.assertNoOverlap(existing.storeId, merged.startDate, merged.endDate, id);
+    }
+
+    const agreement = await this.prisma.franchiseAgreement.update({
+      where: { id },
+      data: update,
+      include: AGREEMENT_INCLUDE,
+    });
+
+    await this.audit(actor, 'UPDATE', id, toAgreementView(existing), toAgreementView(agreement));
+    return toAgreementView(agreement);
+  }
+
+  /** Takes up one renewal option, extending the term by the agreed number of months */
+  async renewAgreement(id: string, actor: string): Promise<AgreementView> {
+    const existing = await this.findAgreement(id);
+    if (existing.status !== 'ACTIVE') {
+      throw new ConflictException('Only active agreements can be renewed');
+    }
+    if (existing.renewalOptions < 1 || !existing.renewalTermMonths) {
+      throw new ConflictException('This agreement has no renewal options left');
+    }
+
+    const endDate = addMonths(existing.endDate, existing.renewalTermMonths);
+    await this.assertNoOverlap(existing.storeId, existing.endDate, endDate, id);
+
+    const agreement = await this.prisma.franchiseAgreement.update({
+      where: { id },
+      data: { endDate, renewalOptions: existing.renewalOptions - 1 },
+      include: AGREEMENT_INCLUDE,
+    });
+
+    await this.audit(actor, 'RENEW', id, toAgreementView(existing), toAgreementView(agreement));
+    return toAgreementView(agreement);
+  }
+
+  /** Ends an agreement early; royalties stop accruing from `endDate` */
+  async terminateAgreement(id: string, endDate: Date, actor: string): Promise<AgreementView> {
+    const existing = await this.findAgreement(id);
+    if (existing.status === 'TERMINATED') {
+      throw new ConflictException('Agreement is already terminated');
+    }
+    if (endDate < existing.startDate || endDate > existing.endDate) {
+      throw new BadRequestException('Termination date must fall within the agreement term');
+    }
+
+    const agreement = await this.prisma.franchiseAgreement.update({
+      where: { id },
+      data: { status: 'TERMINATED', endDate },
+      include: AGREEMENT_INCLUDE,
+    });
+
+    await this.audit(actor, 'TERMINATE', id, toAgreementView(existing), toAgreementView(agreement));
+    return toAgreementView(agreement);
+  }
+
+  async listStatements(franchiseeId: string): Promise<StatementView[]> {
+    await this.findFranchisee(franchiseeId);
+    const statements = await this.prisma.royaltyStatement.findMany({
+      where: { franchiseeId },
+      include: STATEMENT_INCLUDE,
+      orderBy: [{ period: 'desc' }, { currency: 'asc' }],
+    });
+    return statements.map(toStatementView);
+  }
+
+  async getStatement(id: string): Promise<StatementView> {
+    return toStatementView(await this.findStatement(id));
+  }
+
+  /**
+   * Calculates a franchisee's royalties for a month from the net revenue of
+   * completed orders at each store while its agreement was in force, with
+   * one statement per store currency. Draft statements are recalculated in
+   * place and keep their adjustments; issued ones are left alone.
+   */
+  async generateStatements(franchiseeId: string, period: string, actor: string): Promise<StatementView[]> {
+    await this.findFranchisee(franchiseeId);
+    const bounds = periodBounds(period);
+
+    const agreements = await this.prisma.franchiseAgreement.findMany({
+      where: { franchiseeId, startDate: { lt: bounds.end }, endDate: { gt: bounds.start } },
+      include: { store: { select: { name: true, currency: true, country: true } } },
+      orderBy: [{ storeId: 'asc' }, { startDate: 'asc' }],
+    });
+    if (agreements.length === 0) {
+      throw new BadRequestException(`No franchise agreements were in force during ${period}`);
+    }
+
+    const byCurrency = new Map<string, { netSales: number; lines: RoyaltyLine[] }>();
+    for (const agreement of agreements) {
+      const window = activeWindow(agreement, bounds);
+      if (!window) continue;
+
+      const netSales = await this.netSales(agreement.storeId, window.start, window.end);
+      const currency = storeCurrency(agreement.store);
+      const entry = byCurrency.get(currency) ?? { netSales: 0, lines: [] };
+      entry.netSales += netSales;
+      entry.lines.push(...royaltyLines(termsOf(agreement), agreement.store.name, netSales, window.share));
+      byCurrency.set(currency, entry);
+    }
+
+    const existing = await this.prisma.royaltyStatement.findMany({
+      where: { franchiseeId, period, currency: { in: [...byCurrency.keys()] } },
+      include: STATEMENT_INCLUDE,
+    });
+    const issued = existing.filter(statement => statement.status === 'ISSUED');
+    if (issued.length === byCurrency.size) {
+      throw new ConflictException(`Royalty statements for ${period} have already been issued`);
+    }
+
+    const statements: StatementView[] = [];
+    for (const [currency, { netSales, lines }] of byCurrency) {
+      const previous = existing.find(statement => statement.currency === currency);
+      if (previous?.status === 'ISSUED') continue;
+      statements.push(await this.saveDraft(franchiseeId, period, currency, netSales, lines, previous, actor));
+    }
+    return statements;
+  }
+
+  /** Drafts last month's statements for every franchisee with agreements, for the scheduler */
+  async generateAll(period: string, actor: string): Promise<GenerationSummary> {
+    const bounds = periodBounds(period);
+    const franchisees = await this.prisma.franchiseAgreement.findMany({
+      where: { startDate: { lt: bounds.end }, endDate: { gt: bounds.start } },
+      select: { franchiseeId: true },
+      distinct: ['franchiseeId'],
+      orderBy: { franchiseeId: 'asc' },
+    });
+
+    const summary: GenerationSummary = { period, franchisees: franchisees.length, statements: 0, skipped: 0, failed: 0 };
+    for (const { franchiseeId } of franchisees) {
+      try {
+        summary.statements += (await this.generateStatements(franchiseeId, period, actor)).length;
+      } catch (error) {
+        if (error instanceof ConflictException) summary.skipped++;
+        else summary.failed++;
+      }
+    }
+    return summary;
+  }
+
+  async addAdjustment(statementId: string, adjustment: { description: string; amount: number }, actor: string): Promise<StatementView> {
+    const statement = await this.findDraft(statementId);
+    if (!Number.isFinite(adjustment.amount) || adjustment.amount === 0) {
+      throw new BadRequestException('Adjustment amount must be a non-zero number');
+    }
+
+    const line = await this.prisma.royaltyStatementLine.create({
+      data: {
+        statementId,
+        kind: 'ADJUSTMENT',
+        description: adjustment.description,
+        amount: roundCurrency(adjustment.amount),
+        createdBy: actor,
+      },
+    });
+    const updated = await this.retotal(statement.id);
+
+    await this.audit(actor, 'ADJUST', statementId, undefined, { lineId: line.id, ...adjustment }, 'RoyaltyStatement');
+    return updated;
+  }
+
+  async removeAdjustment(statementId: string, lineId: string, actor: string): Promise<StatementView> {
+    const statement = await this.findDraft(statementId);
+    const line = statement.lines.find(candidate => candidate.id === lineId);
+    if (!line || line.kind !== 'ADJUSTMENT') {
+      throw new NotFoundException(`Adjustment ${lineId} not found on this statement`);
+    }
+
+    await this.prisma.royaltyStatementLine.delete({ where: { id: lineId } });
+    const updated = await this.retotal(statementId);
+
+    await this.audit(actor, 'ADJUST', statementId, toLineView(line), undefined, 'RoyaltyStatement');
+    return updated;
+  }
+
+  /** Freezes a draft; it can no longer be regenerated or adjusted */
+  async issueStatement(id: string, actor: string): Promise<StatementView> {
+    const draft = await this.findDraft(id);
+    const statement = await this.prisma.royaltyStatement.update({
+      where: { id },
+      data: { status: 'ISSUED', issuedBy: actor, issuedAt: new Date() },
+      include: STATEMENT_INCLUDE,
+    });
+
+    await this.audit(actor, 'ISSUE', id, { status: draft.status }, { status: statement.status, totalDue: Number(statement.totalDue) }, 'RoyaltyStatement');
+    return toStatementView(statement);
+  }
+
+  /** Net revenue of completed orders; orders from before tax was recorded count at their total */
+  private async netSales(storeId: string, from: Date, to: Date): Promise<number> {
+    const where = { storeId, status: ROYALTY_ORDER_STATUS, createdAt: { gte: from, lt: to } };
+    const [net, legacy] = await Promise.all([
+      this.prisma.order.aggregate({ where: { ...where, netTotal: { not: null } }, _sum: { netTotal: true } }),
+      this.prisma.order.aggregate({ where: { ...where, netTotal: null }, _sum: { total: true } }),
+    ]);
+    return Number(net._sum.netTotal ?? 0) + Number(legacy._sum.total ?? 0);
+  }
+
+  private async saveDraft(
+    franchiseeId: string,
+    period: string,
+    currency: string,
+    netSales: number,
+    lines: RoyaltyLine[],
+    previous: StatementWithLines | undefined,
+    actor: string,
+  ): Promise<StatementView> {
+    const adjustments = previous?.lines.filter(line => line.kind === 'ADJUSTMENT') ?? [];
+    const totals = statementTotals([...lines, ...adjustments.map(line => ({ kind: 'ADJUSTMENT' as const, amount: Number(line.amount) }))]);
+    const data = { netSales: roundCurrency(netSales), ...totals, generatedBy: actor, generatedAt: new Date() };
+
+    const statement = await this.prisma.$transaction(async tx => {
+      const draft = previous
+        ? await tx.royaltyStatement.update({ where: { id: previous.id }, data })
+        : await tx.royaltyStatement.create({ data: { franchiseeId, period, currency, ...data } });
+      await tx.royaltyStatementLine.deleteMany({ where: { statementId: draft.id, kind: { not: 'ADJUSTMENT' } } });
+      await tx.royaltyStatementLine.createMany({ data: lines.map(line => ({ ...line, statementId: draft.id })) });
+      return tx.royaltyStatement.findUniqueOrThrow({ where: { id: draft.id }, include: STATEMENT_INCLUDE });
+    });
+
+    await this.audit(
+      actor,
+      previous ? 'REGENERATE' : 'CREATE',
+      statement.id,
+      previous ? { totalDue: Number(previous.totalDue) } : undefined,
+      { period, currency, ...data },
+      'RoyaltyStatement',
+    );
+    return toStatementView(statement);
+  }
+
+  private async retotal(statementId: string): Promise<StatementView> {
+    const lines = await this.prisma.royaltyStatementLine.findMany({ where: { statementId }, select: { kind: true, amount: true } });
+    const statement = await this.prisma.royaltyStatement.update({
+      where: { id: statementId },
+      data: statementTotals(lines.map(line => ({ kind: line.kind as RoyaltyLineKind, amount: Number(line.amount) }))),
+      include: STATEMENT_INCLUDE,
+    });
+    return toStatementView(statement);
+  }
+
+  private validateTerms(terms: Pick<AgreementInput, 'startDate' | 'endDate' | 'royaltyRate' | 'marketingFundRate' | 'renewalOptions' | 'renewalTermMonths'>): void {
+    if (terms.endDate <= terms.startDate) {
+      throw new BadRequestException('Agreement must end after it starts');
+    }
+    if (terms.renewalOptions && !terms.renewalTermMonths) {
+      throw new BadRequestException('Renewal options need a renewal term');
+    }
+    const rates = [terms.royaltyRate, terms.marketingFundRate ?? 0];
+    if (rates.some(rate => !Number.isFinite(rate) || rate < 0 || rate >= 1)) {
+      throw new BadRequestException('Rates must be fractions between 0 and 1');
+    }
+  }
+
+  private async assertNoOverlap(storeId: string, startDate: Date, endDate: Date, excludeId?: string): Promise<void> {
+    const clash = await this.prisma.franchiseAgreement.findFirst({
+      where: { storeId, id: excludeId ? { not: excludeId } : undefined, startDate: { lt: endDate }, endDate: { gt: startDate } },
+    });
+    if (clash) {
+      throw new ConflictException(
+        `Overlaps agreement ${clash.reference ?? clash.id} (${isoDate(clash.startDate)} to ${isoDate(clash.endDate)})`,
+      );
+    }
+  }
+
+  private async findFranchisee(id: string): Promise<void> {
+    const franchisee = await this.prisma.franchisee.findUnique({ where: { id }, select: { id: true } });
+    if (!franchisee) {
+      throw new NotFoundException(`Franchisee ${id} not found`);
+    }
+  }
+
+  private async findAgreement(id: string): Promise<AgreementWithStore> {
+    const agreement = await this.prisma.franchiseAgreement.findUnique({ where: { id }, include: AGREEMENT_INCLUDE });
+    if (!agreement) {
+      throw new NotFoundException(`Franchise agreement ${id} not found`);
+    }
+    return agreement;
+  }
+
+  private async findStatement(id: string): Promise<StatementWithLines> {
+    const statement = await this.prisma.royaltyStatement.findUnique({ where: { id }, include: STATEMENT_INCLUDE });
+    if (!statement) {
+      throw new NotFoundException(`Royalty statement ${id} not found`);
+    }
+    return statement;
+  }
+
+  private async findDraft(id: string): Promise<StatementWithLines> {
+    const statement = await this.findStatement(id);
+    if (statement.status !== 'DRAFT') {
+      throw new ConflictException('Issued statements cannot be changed');
+    }
+    return statement;
+  }
+
+  private async audit(
+    actor: string,
+    action: string,
+    entityId: string,
+    oldData?: object,
+    newData?: object,
+    entity = 'FranchiseAgreement',
+  ): Promise<void> {
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity,
+      entityId,
+      action,
+      oldData: oldData as Record<string, unknown> | undefined,
+      newData: newData as Record<string, unknown> | undefined,
+    });
+  }
+}
+
+function termsOf(agreement: FranchiseAgreement) {
+  return {
+    id: agreement.id,
+    storeId: agreement.storeId,
+    startDate: agreement.startDate,
+    endDate: agreement.endDate,
+    renewalOptions: agreement.renewalOptions,
+    renewalTermMonths: agreement.renewalTermMonths ?? undefined,
+    royaltyRate: Number(agreement.royaltyRate),
+    marketingFundRate: Number(agreement.marketingFundRate),
+    minimumMonthlyRoyalty: agreement.minimumMonthlyRoyalty === null ? null : Number(agreement.minimumMonthlyRoyalty),
+    minimumMonthlyMarketingFee: agreement.minimumMonthlyMarketingFee === null ? null : Number(agreement.minimumMonthlyMarketingFee),
+  };
+}
+
+function addMonths(date: Date, months: number): Date {
+  const next = new Date(date);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  return next;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toAgreementView(agreement: AgreementWithStore): AgreementView {
+  return {
+    ...termsOf(agreement),
+    renewalTermMonths: agreement.renewalTermMonths,
+    storeName: agreement.store.name,
+    franchiseeId: agreement.franchiseeId,
+    reference: agreement.reference,
+    status: agreement.status as AgreementStatus,
+    notes: agreement.notes,
+    createdBy: agreement.createdBy,
+    createdAt: agreement.createdAt,
+    updatedAt: agreement.updatedAt,
+  };
+}
+
+function toLineView(line: RoyaltyStatementLine): StatementLineView {
+  return {
+    id: line.id,
+    kind: line.kind as RoyaltyLineKind,
+    storeId: line.storeId,
+    agreementId: line.agreementId,
+    description: line.description,
+    salesBase: line.salesBase === null ? null : Number(line.salesBase),
+    rate: line.rate === null ? null : Number(line.rate),
+    amount: Number(line.amount),
+    createdBy: line.createdBy,
+    createdAt: line.createdAt,
+  };
+}
+
+function toStatementView(statement: StatementWithLines): StatementView {
+  return {
+    id: statement.id,
+    franchiseeId: statement.franchiseeId,
+    period: statement.period,
+    currency: statement.currency,
+    status: statement.status as StatementStatus,
+    netSales: Number(statement.netSales),
+    royaltyTotal: Number(statement.royaltyTotal),
+    adjustmentTotal: Number(statement.adjustmentTotal),
+    totalDue: Number(statement.totalDue),
+    generatedBy: statement.generatedBy,
+    generatedAt: statement.generatedAt,
+    issuedBy: statement.issuedBy,
+    issuedAt: statement.issuedAt,
+    lines: statement.lines.map(toLineView),
+  };
+}
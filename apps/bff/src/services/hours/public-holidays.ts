@@ -0,0 +1,279 @@
+import { findEmeaCountry } from '../../util/emea';
+
+export interface PublicHoliday {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  name: string;
+}
+
+type HolidayRule =
+  | { kind: 'fixed'; month: number; day: number; name: string }
+  | { kind: 'easter'; offset: number; name: string }
+  /** nth weekday of a month; n = -1 is the last one */
+  | { kind: 'nth'; month: number; weekday: number; n: number; name: string }
+  /** First weekday on or after a date, e.g. Swedish Midsummer */
+  | { kind: 'onOrAfter'; month: number; day: number; weekday: number; name: string };
+
+interface CountryCalendar {
+  rules: HolidayRule[];
+  /** How holidays falling on a weekend move to a weekday */
+  weekend?: 'next-weekday' | 'nearest-weekday';
+}
+
+const fixed = (month: number, day: number, name: string): HolidayRule => ({ kind: 'fixed', month, day, name });
+const easter = (offset: number, name: string): HolidayRule => ({ kind: 'easter', offset, name });
+const nth = (month: number, weekday: number, n: number, name: string): HolidayRule => ({ kind: 'nth', month, weekday, n, name });
+const onOrAfter = (month: number, day: number, weekday: number, name: string): HolidayRule =>
+  ({ kind: 'onOrAfter', month, day, weekday, name });
+
+// ISO weekdays
+const MON = 1, THU = 4, FRI = 5, SAT = 6;
+
+const NEW_YEAR = fixed(1, 1, "New Year's Day");
+const EPIPHANY = fixed(1, 6, 'Epiphany');
+const MAUNDY_THURSDAY = easter(-3, 'Maundy Thursday');
+const GOOD_FRIDAY = easter(-2, 'Good Friday');
+const EASTER_SUNDAY = easter(0, 'Easter Sunday');
+const EASTER_MONDAY = easter(1, 'Easter Monday');
+const LABOUR_DAY = fixed(5, 1, 'Labour Day');
+const ASCENSION = easter(39, 'Ascension Day');
+const WHIT_SUNDAY = easter(49, 'Whit Sunday');
+const WHIT_MONDAY = easter(50, 'Whit Monday');
+const CORPUS_CHRISTI = easter(60, 'Corpus Christi');
+const ASSUMPTION = fixed(8, 15, 'Assumption Day');
+const ALL_SAINTS = fixed(11, 1, "All Saints' Day");
+const IMMACULATE_CONCEPTION = fixed(12, 8, 'Immaculate Conception');
+const CHRISTMAS_EVE = fixed(12, 24, 'Christmas Eve');
+const CHRISTMAS = fixed(12, 25, 'Christmas Day');
+const BOXING_DAY = fixed(12, 26, 'Boxing Day');
+
+/**
+ * National public holidays. Regional holidays (German states, Swiss cantons,
+ * Spanish communities) and lunar-calendar holidays are not covered; stores
+ * add those as hours exceptions.
+ */
+const CALENDARS: Record<string, CountryCalendar> = {
+  GB: {
+    rules: [
+      NEW_YEAR, GOOD_FRIDAY, EASTER_MONDAY, nth(5, MON, 1, 'Early May Bank Holiday'),
+      nth(5, MON, -1, 'Spring Bank Holiday'), nth(8, MON, -1, 'Summer Bank Holiday'), CHRISTMAS, BOXING_DAY,
+    ],
+    weekend: 'next-weekday',
+  },
+  IE: {
+    rules: [
+      NEW_YEAR, nth(2, MON, 1, "St Brigid's Day"), fixed(3, 17, "St Patrick's Day"), EASTER_MONDAY,
+      nth(5, MON, 1, 'May Bank Holiday'), nth(6, MON, 1, 'June Bank Holiday'), nth(8, MON, 1, 'August Bank Holiday'),
+      nth(10, MON, -1, 'October Bank Holiday'), CHRISTMAS, fixed(12, 26, "St Stephen's Day"),
+    ],
+    weekend: 'next-weekday',
+  },
+  DE: {
+    rules: [
+      NEW_YEAR, GOOD_FRIDAY, EASTER_MONDAY, LABOUR_DAY, ASCENSION, WHIT_MONDAY,
+      fixed(10, 3, 'German Unity Day'), CHRISTMAS, fixed(12, 26, 'Second Day of Christmas'),
+    ],
+  },
+  FR: {
+    rules: [
+      NEW_YEAR, EASTER_MONDAY, LABOUR_DAY, fixed(5, 8, 'Victory in Europe Day'), ASCENSION, WHIT_MONDAY,
+      fixed(7, 14, 'Bastille Day'), ASSUMPTION, ALL_SAINTS, fixed(11, 11, 'Armistice Day'), CHRISTMAS,
+    ],
+  },
+  ES: {
+    rules: [
+      NEW_YEAR, EPIPHANY, GOOD_FRIDAY, LABOUR_DAY, ASSUMPTION, fixed(10, 12, 'National Day'), ALL_SAINTS,
+      fixed(12, 6, 'Constitution Day'), IMMACULATE_CONCEPTION, CHRISTMAS,
+    ],
+  },
+  IT: {
+    rules: [
+      NEW_YEAR, EPIPHANY, EASTER_MONDAY, fixed(4, 25, 'Liberation Day'), LABOUR_DAY, fixed(6, 2, 'Republic Day'),
+      ASSUMPTION, ALL_SAINTS, IMMACULATE_CONCEPTION, CHRISTMAS, fixed(12, 26, "St Stephen's Day"),
+    ],
+  },
+  PT: {
+    rules: [
+      NEW_YEAR, GOOD_FRIDAY, EASTER_SUNDAY, fixed(4, 25, 'Freedom Day'), LABOUR_DAY, CORPUS_CHRISTI,
+      fixed(6, 10, 'Portugal Day'), ASSUMPTION, fixed(10, 5, 'Republic Day'), ALL_SAINTS,
+      fixed(12, 1, 'Restoration of Independence'), IMMACULATE_CONCEPTION, CHRISTMAS,
+    ],
+  },
+  NL: {
+    rules: [
+      NEW_YEAR, EASTER_MONDAY, fixed(4, 27, "King's Day"), ASCENSION, WHIT_MONDAY, CHRISTMAS,
+      fixed(12, 26, 'Second Day of Christmas'),
+    ],
+  },
+  BE: {
+    rules: [
+      NEW_YEAR, EASTER_MONDAY, LABOUR_DAY, ASCENSION, WHIT_MONDAY, fixed(7, 21, 'National Day'), ASSUMPTION,
+      ALL_SAINTS, fixed(11, 11, 'Armistice Day'), CHRISTMAS,
+    ],
+  },
+  LU: {
+    rules: [
+      NEW_YEAR, EASTER_MONDAY, LABOUR_DAY, fixed(5, 9, 'Europe Day'), ASCENSION, WHIT_MONDAY,
+      fixed(6, 23, 'National Day'), ASSUMPTION, ALL_SAINTS, CHRISTMAS, fixed(12, 26, "St Stephen's Day"),
+    ],
+  },
+  AT: {
+    rules: [
+      NEW_YEAR, EPIPHANY, EASTER_MONDAY, LABOUR_DAY, ASCENSION, WHIT_MONDAY, CORPUS_CHRISTI, ASSUMPTION,
+      fixed(10, 26, 'National Day'), ALL_SAINTS, IMMACULATE_CONCEPTION, CHRISTMAS, fixed(12, 26, "St Stephen's Day"),
+    ],
+  },
+  CH: {
+    rules: [NEW_YEAR, ASCENSION, fixed(8, 1, 'Swiss National Day'), CHRISTMAS],
+  },
+  DK: {
+    rules: [
+      NEW_YEAR, MAUNDY_THURSDAY, GOOD_FRIDAY, EASTER_MONDAY, ASCENSION, WHIT_MONDAY, CHRISTMAS,
+      fixed(12, 26, 'Second Day of Christmas'),
+    ],
+  },
+  NO: {
+    rules: [
+      NEW_YEAR, MAUNDY_THURSDAY, GOOD_FRIDAY, EASTER_MONDAY, LABOUR_DAY, fixed(5, 17, 'Constitution Day'),
+      ASCENSION, WHIT_MONDAY, CHRISTMAS, fixed(12, 26, "St Stephen's Day"),
+    ],
+  },
+  SE: {
+    rules: [
+      NEW_YEAR, EPIPHANY, GOOD_FRIDAY, EASTER_MONDAY, LABOUR_DAY, ASCENSION, fixed(6, 6, 'National Day'),
+      onOrAfter(6, 19, FRI, 'Midsummer Eve'), onOrAfter(6, 20, SAT, 'Midsummer Day'),
+      onOrAfter(10, 31, SAT, "All Saints' Day"), CHRISTMAS_EVE, CHRISTMAS, fixed(12, 26, "St Stephen's Day"),
+    ],
+  },
+  FI: {
+    rules: [
+      NEW_YEAR, EPIPHANY, GOOD_FRIDAY, EASTER_MONDAY, LABOUR_DAY, ASCENSION, onOrAfter(6, 19, FRI, 'Midsummer Eve'),
+      fixed(12, 6, 'Independence Day'), CHRISTMAS_EVE, CHRISTMAS, fixed(12, 26, "St Stephen's Day"),
+    ],
+  },
+  PL: {
+    rules: [
+      NEW_YEAR, EPIPHANY, EASTER_SUNDAY, EASTER_MONDAY, LABOUR_DAY, fixed(5, 3, 'Constitution Day'), WHIT_SUNDAY,
+      CORPUS_CHRISTI, ASSUMPTION, ALL_SAINTS, fixed(11, 11, 'Independence Day'), CHRISTMAS,
+      fixed(12, 26, 'Second Day of Christmas'),
+    ],
+  },
+  US: {
+    rules: [
+      NEW_YEAR, nth(1, MON, 3, 'Martin Luther King Jr. Day'), nth(2, MON, 3, "Presidents' Day"),
+      nth(5, MON, -1, 'Memorial Day'), fixed(6, 19, 'Juneteenth'), fixed(7, 4, 'Independence Day'),
+      nth(9, MON, 1, 'Labor Day'), nth(10, MON, 2, 'Columbus Day'), fixed(11, 11, 'Veterans Day'),
+      nth(11, THU, 4, 'Thanksgiving Day'), CHRISTMAS,
+    ],
+    weekend: 'nearest-weekday',
+  },
+};
+
+// Countries outside the EMEA list that stores may still use
+const EXTRA_COUNTRY_CODES: Record<string, string> = {
+  'united states': 'US',
+  'united states of america': 'US',
+  usa: 'US',
+};
+
+/** ISO country code for a store's country (name or code), if known */
+export function countryCode(country: string | null | undefined): string | undefined {
+  if (!country) return undefined;
+  const match = findEmeaCountry(country);
+  if (match) return match.code;
+  const key = country.trim().toLowerCase();
+  if (EXTRA_COUNTRY_CODES[key]) return EXTRA_COUNTRY_CODES[key];
+  return /^[a-z]{2}$/.test(key) ? key.toUpperCase() : undefined;
+}
+
+export function hasHolidayCalendar(country: string | null | undefined): boolean {
+  const code = countryCode(country);
+  return !!code && code in CALENDARS;
+}
+
+/** Public holidays for a country and year, sorted by date; empty when the country has no calendar */
+export function publicHolidays(country: string | null | undefined, year: number): PublicHoliday[] {
+  const code = countryCode(country);
+  const calendar = code ? CALENDARS[code] : undefined;
+  if (!calendar) return [];
+
+  const holidays: PublicHoliday[] = [];
+  const taken = new Set<string>();
+  const dates = calendar.rules.map(rule => ({ rule, date: ruleDate(rule, year) }));
+  dates.forEach(({ date }) => taken.add(isoDate(date)));
+
+  for (const { rule, date } of dates) {
+    holidays.push({ date: isoDate(date), name: rule.name });
+
+    // Substitute days only for fixed-date holidays; moving ones are already on weekdays
+    const weekday = isoWeekday(date);
+    if (!calendar.weekend || rule.kind !== 'fixed' || weekday < SAT) continue;
+
+    const observed = new Date(date);
+    if (calendar.weekend === 'nearest-weekday') {
+      observed.setUTCDate(observed.getUTCDate() + (weekday === SAT ? -1 : 1));
+    } else {
+      do {
+        observed.setUTCDate(observed.getUTCDate() + 1);
+      } while (isoWeekday(observed) >= SAT || taken.has(isoDate(observed)));
+    }
+    taken.add(isoDate(observed));
+    holidays.push({ date: isoDate(observed), name: `${rule.name} (observed)` });
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function ruleDate(rule: HolidayRule, year: number): Date {
+  switch (rule.kind) {
+    case 'fixed':
+      return new Date(Date.UTC(year, rule.month - 1, rule.day));
+    case 'easter': {
+      const date = easterSunday(year);
+      date.setUTCDate(date.getUTCDate() + rule.offset);
+      return date;
+    }
+    case 'nth': {
+      if (rule.n > 0) {
+        const first = new Date(Date.UTC(year, rule.month - 1, 1));
+        const offset = (rule.weekday - isoWeekday(first) + 7) % 7;
+        return new Date(Date.UTC(year, rule.month - 1, 1 + offset + (rule.n - 1) * 7));
+      }
+      const last = new Date(Date.UTC(year, rule.month, 0));
+      const offset = (isoWeekday(last) - rule.weekday + 7) % 7;
+      return new Date(Date.UTC(year, rule.month, -offset));
+    }
+    case 'onOrAfter': {
+      const start = new Date(Date.UTC(year, rule.month - 1, rule.day));
+      const offset = (rule.weekday - isoWeekday(start) + 7) % 7;
+      return new Date(Date.UTC(year, rule.month - 1, rule.day + offset));
+    }
+  }
+}
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function isoWeekday(date: Date): number {
+  return date.getUTCDay() || 7;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
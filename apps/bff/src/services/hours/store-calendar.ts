@@ -0,0 +1,331 @@
+import { countryCode, publicHolidays } from './public-holidays';
+
+export interface HoursInterval {
+  /** Local time, HH:MM */
+  opensAt: string;
+  /** Local time, HH:MM; at or before opensAt means the interval runs past midnight */
+  closesAt: string;
+}
+
+export type HolidayPolicy = 'CLOSED' | 'REGULAR' | 'SUNDAY';
+
+export const HOLIDAY_POLICIES: HolidayPolicy[] = ['CLOSED', 'REGULAR', 'SUNDAY'];
+
+export interface HoursException {
+  date: string;
+  closed: boolean;
+  intervals: HoursInterval[];
+  reason?: string | null;
+}
+
+export interface StoreCalendarConfig {
+  timezone: string;
+  holidayPolicy: HolidayPolicy;
+  /** Store country (name or code), used for public holidays */
+  country?: string | null;
+  /** Weekly intervals keyed by ISO weekday, 1 = Monday */
+  weekly: Record<number, HoursInterval[]>;
+  exceptions?: HoursException[];
+}
+
+export interface CalendarDay {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  weekday: number;
+  intervals: HoursInterval[];
+  /** What decided the day's hours */
+  source: 'weekly' | 'holiday' | 'exception';
+  holiday?: string;
+  reason?: string;
+}
+
+export interface OpenStatus {
+  open: boolean;
+  /** Local date and time at the store */
+  localDate: string;
+  localTime: string;
+  /** Interval the store is trading in, when open */
+  interval?: HoursInterval;
+  /** Local date the interval belongs to; the previous day for past-midnight hours */
+  intervalDate?: string;
+  source: CalendarDay['source'];
+  holiday?: string;
+  reason?: string;
+}
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MINUTES = 24 * 60;
+
+// Zone used when a store has none set; countries spanning several zones are left out
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  GB: 'Europe/London', IE: 'Europe/Dublin', FR: 'Europe/Paris', DE: 'Europe/Berlin', ES: 'Europe/Madrid',
+  IT: 'Europe/Rome', PT: 'Europe/Lisbon', NL: 'Europe/Amsterdam', BE: 'Europe/Brussels', LU: 'Europe/Luxembourg',
+  CH: 'Europe/Zurich', AT: 'Europe/Vienna', DK: 'Europe/Copenhagen', NO: 'Europe/Oslo', SE: 'Europe/Stockholm',
+  FI: 'Europe/Helsinki', IS: 'Atlantic/Reykjavik', PL: 'Europe/Warsaw', CZ: 'Europe/Prague', SK: 'Europe/Bratislava',
+  HU: 'Europe/Budapest', SI: 'Europe/Ljubljana', HR: 'Europe/Zagreb', RO: 'Europe/Bucharest', BG: 'Europe/Sofia',
+  GR: 'Europe/Athens', CY: 'Asia/Nicosia', MT: 'Europe/Malta', EE: 'Europe/Tallinn', LV: 'Europe/Riga',
+  LT: 'Europe/Vilnius', TR: 'Europe/Istanbul', AE: 'Asia/Dubai', SA: 'Asia/Riyadh', QA: 'Asia/Qatar',
+  KW: 'Asia/Kuwait', OM: 'Asia/Muscat', BH: 'Asia/Bahrain', JO: 'Asia/Amman', IL: 'Asia/Jerusalem',
+  EG: 'Africa/Cairo', MA: 'Africa/Casablanca', DZ: 'Africa/Algiers', TN: 'Africa/Tunis', ZA: 'Africa/Johannesburg',
+  NG: 'Africa/Lagos', KE: 'Africa/Nairobi',
+};
+
+export function isValidTime(value: string): boolean {
+  return TIME_PATTERN.test(value);
+}
+
+export function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+export function isValidTimezone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Default IANA zone for a store's country, if it has a single one */
+export function countryTimezone(country: string | null | undefined): string | undefined {
+  const code = countryCode(country);
+  return code ? COUNTRY_TIMEZONES[code] : undefined;
+}
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Length of an interval in minutes; past-midnight intervals wrap */
+export function intervalMinutes(interval: HoursInterval): number {
+  const length = toMinutes(interval.closesAt) - toMinutes(interval.opensAt);
+  return length > 0 ? length : length + DAY_MINUTES;
+}
+
+/** Problems with a day's intervals: malformed times and intervals that overlap */
+export function validateIntervals(intervals: HoursInterval[], label: string): string[] {
+  if (intervals.some(interval => !isValidTime(interval?.opensAt) || !isValidTime(interval?.closesAt))) {
+    return [`${label}: times must be HH:MM`];
+  }
+
+  const errors: string[] = [];
+  const sorted = [...intervals].sort((a, b) => toMinutes(a.opensAt) - toMinutes(b.opensAt));
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    if (toMinutes(sorted[i].opensAt) < toMinutes(previous.opensAt) + intervalMinutes(previous)) {
+      errors.push(`${label}: ${previous.opensAt}-${previous.closesAt} overlaps ${sorted[i].opensAt}-${sorted[i].closesAt}`);
+    }
+  }
+  return errors;
+}
+
+/** Problems with weekly hours, including past-midnight hours running into the next day's opening */
+export function validateWeekly(weekly: Record<number, HoursInterval[]>): string[] {
+  const errors: string[] = [];
+  for (let weekday = 1; weekday <= 7; weekday++) {
+    const label = WEEKDAYS[weekday - 1];
+    const dayErrors = validateIntervals(weekly[weekday] ?? [], label);
+    errors.push(...dayErrors);
+    if (dayErrors.length) continue;
+
+    const nextDay = weekly[(weekday % 7) + 1] ?? [];
+    for (const interval of weekly[weekday] ?? []) {
+      const spill = toMinutes(interval.opensAt) + intervalMinutes(interval) - DAY_MINUTES;
+      const clash = spill > 0 && nextDay.find(next => isValidTime(next?.opensAt) && toMinutes(next.opensAt) < spill);
+      if (clash) {
+        errors.push(`${label}: ${interval.opensAt}-${interval.closesAt} runs into ${WEEKDAYS[weekday % 7]} ${clash.opensAt}`);
+      }
+    }
+  }
+  return errors;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(zone: string): Intl.DateTimeFormat {
+  let format = formatters.get(zone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(zone, format);
+  }
+  return format;
+}
+
+export interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export function localParts(at: Date, zone: string): LocalParts {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(zone).formatToParts(at)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+function isoWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * A store's trading hours resolved against its timezone. For any local date,
+ * an exception replaces everything; otherwise a public holiday applies the
+ * store's holiday policy; otherwise the weekly hours apply.
+ */
+export class StoreCalendar {
+  private readonly exceptions: Map<string, HoursException>;
+  private readonly holidays = new Map<number, Map<string, string>>();
+
+  constructor(private readonly config: StoreCalendarConfig) {
+    this.exceptions = new Map((config.exceptions ?? []).map(exception => [exception.date, exception]));
+  }
+
+  get timezone(): string {
+    return this.config.timezone;
+  }
+
+  /** Whether any weekly hours are configured */
+  get hasHours(): boolean {
+    return Object.values(this.config.weekly).some(intervals => intervals.length > 0);
+  }
+
+  /** The store-local date and time of an instant */
+  local(at: Date): { date: string; weekday: number; minutes: number; hour: number } {
+    const p = localParts(at, this.config.timezone);
+    const date = `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+    return { date, weekday: isoWeekday(date), minutes: p.hour * 60 + p.minute, hour: p.hour };
+  }
+
+  holiday(date: string): string | undefined {
+    const year = Number(date.slice(0, 4));
+    let byDate = this.holidays.get(year);
+    if (!byDate) {
+      byDate = new Map();
+      for (const holiday of publicHolidays(this.config.country, year)) {
+        if (!byDate.has(holiday.date)) byDate.set(holiday.date, holiday.name);
+      }
+      this.holidays.set(year, byDate);
+    }
+    return byDate.get(date);
+  }
+
+  day(date: string): CalendarDay {
+    const weekday = isoWeekday(date);
+    const exception = this.exceptions.get(date);
+    if (exception) {
+      return {
+        date,
+        weekday,
+        intervals: exception.closed ? [] : exception.intervals,
+        source: 'exception',
+        reason: exception.reason ?? undefined,
+      };
+    }
+
+    const holiday = this.holiday(date);
+    if (holiday && this.config.holidayPolicy !== 'REGULAR') {
+      const intervals = this.config.holidayPolicy === 'SUNDAY' ? this.config.weekly[7] ?? [] : [];
+      return { date, weekday, intervals, source: 'holiday', holiday };
+    }
+
+    return { date, weekday, intervals: this.config.weekly[weekday] ?? [], source: 'weekly', holiday };
+  }
+
+  /** Local days from one date to another, inclusive */
+  schedule(from: string, to: string): CalendarDay[] {
+    const days: CalendarDay[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      days.push(this.day(date));
+    }
+    return days;
+  }
+
+  isOpenAt(at: Date): OpenStatus {
+    const { date, minutes } = this.local(at);
+    const today = this.day(date);
+    const status: OpenStatus = {
+      open: false,
+      localDate: date,
+      localTime: `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`,
+      source: today.source,
+      holiday: today.holiday,
+      reason: today.reason,
+    };
+
+    for (const interval of today.intervals) {
+      const start = toMinutes(interval.opensAt);
+      if (minutes >= start && minutes < start + intervalMinutes(interval)) {
+        return { ...status, open: true, interval, intervalDate: date };
+      }
+    }
+
+    // Yesterday's past-midnight hours
+    const yesterday = this.day(addDays(date, -1));
+    for (const interval of yesterday.intervals) {
+      const end = toMinutes(interval.opensAt) + intervalMinutes(interval) - DAY_MINUTES;
+      if (end > 0 && minutes < end) {
+        return { ...status, open: true, interval, intervalDate: yesterday.date };
+      }
+    }
+
+    return status;
+  }
+
+  /** Trading minutes scheduled on local days from one date to another, inclusive */
+  openMinutes(from: string, to: string): number {
+    return this.schedule(from, to)
+      .reduce((total, day) => total + day.intervals.reduce((sum, interval) => sum + intervalMinutes(interval), 0), 0);
+  }
+
+  /**
+   * Trading minutes falling in each local hour of the day (0-23) across the
+   * given days. Past-midnight hours count towards the early hours.
+   */
+  hourlyOpenMinutes(from: string, to: string): number[] {
+    const buckets = new Array<number>(24).fill(0);
+    for (const day of this.schedule(from, to)) {
+      for (const interval of day.intervals) {
+        const start = toMinutes(interval.opensAt);
+        const end = start + intervalMinutes(interval);
+        for (let minute = start; minute < end; minute = Math.min(end, (Math.floor(minute / 60) + 1) * 60)) {
+          const next = Math.min(end, (Math.floor(minute / 60) + 1) * 60);
+          buckets[Math.floor(minute / 60) % 24] += next - minute;
+        }
+      }
+    }
+    return buckets;
+  }
+}
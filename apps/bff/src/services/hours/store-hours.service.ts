@@ -0,0 +1,323 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaClient, StoreHoursException, StoreOpeningHours } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import { PublicHoliday, hasHolidayCalendar, publicHolidays } from './public-holidays';
+import {
+  CalendarDay,
+  DEFAULT_TIMEZONE,
+  HOLIDAY_POLICIES,
+  HolidayPolicy,
+  HoursException,
+  HoursInterval,
+  OpenStatus,
+  StoreCalendar,
+  WEEKDAYS,
+  addDays,
+  countryTimezone,
+  isValidDate,
+  isValidTimezone,
+  validateIntervals,
+  validateWeekly,
+} from './store-calendar';
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export type WeeklyHours = Record<Weekday, HoursInterval[]>;
+
+export interface StoreHours {
+  storeId: string;
+  /** Zone the hours are read in */
+  timezone: string;
+  /** Where the zone came from: set on the store, derived from its country, or the UTC fallback */
+  timezoneSource: 'store' | 'country' | 'default';
+  holidayPolicy: HolidayPolicy;
+  /** Whether public holidays are known for the store's country */
+  holidayCalendar: boolean;
+  weekly: WeeklyHours;
+  /** Exceptions from today on */
+  exceptions: HoursException[];
+  /** Public holidays in the next 90 days, with the hours that apply */
+  upcomingHolidays: CalendarDay[];
+  openNow: OpenStatus;
+}
+
+export interface SetHoursInput {
+  /** IANA zone; null falls back to the country's zone */
+  timezone?: string | null;
+  holidayPolicy?: HolidayPolicy;
+  weekly: Partial<WeeklyHours>;
+}
+
+export interface SetExceptionInput {
+  closed: boolean;
+  intervals?: HoursInterval[];
+  reason?: string;
+}
+
+const MAX_SCHEDULE_DAYS = 366;
+const UPCOMING_HOLIDAY_DAYS = 90;
+
+type StoreWithHours = {
+  id: string;
+  country: string;
+  timezone: string | null;
+  holidayPolicy: string;
+  OpeningHours: StoreOpeningHours[];
+  HoursExceptions: StoreHoursException[];
+};
+
+/**
+ * Structured trading hours: weekly intervals, one-off exceptions and public
+ * holidays, read in the store's timezone. Analytics load calendars in bulk
+ * through loadCalendars and ask them whether a store was open.
+ */
+@Injectable()
+export class StoreHoursService {
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  async getHours(storeId: string, now = new Date()): Promise<StoreHours> {
+    const store = await this.loadStore(storeId);
+    const calendar = toCalendar(store);
+    const today = calendar.local(now).date;
+
+    return {
+      storeId,
+      timezone: calendar.timezone,
+      timezoneSource: store.timezone ? 'store' : countryTimezone(store.country) ? 'country' : 'default',
+      holidayPolicy: toPolicy(store.holidayPolicy),
+      holidayCalendar: hasHolidayCalendar(store.country),
+      weekly: toWeekly(store.OpeningHours),
+      exceptions: store.HoursExceptions.map(toException).filter(exception => exception.date >= today),
+      upcomingHolidays: calendar
+        .schedule(today, addDays(today, UPCOMING_HOLIDAY_DAYS))
+        .filter(day => day.holiday),
+      openNow: calendar.isOpenAt(now),
+    };
+  }
+
+  async setHours(storeId: string, input: SetHoursInput, actor: string): Promise<StoreHours> {
+    const store = await this.loadStore(storeId);
+
+    if (input.timezone && !isValidTimezone(input.timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${input.timezone}`);
+    }
+    if (input.holidayPolicy && !HOLIDAY_POLICIES.includes(input.holidayPolicy)) {
+      throw new BadRequestException(`holidayPolicy must be one of ${HOLIDAY_POLICIES.join(', ')}`);
+    }
+    const unknownDays = Object.keys(input.weekly ?? {}).filter(day => !(WEEKDAYS as readonly string[]).includes(day));
+    if (unknownDays.length) {
+      throw new BadRequestException(`Unknown days: ${unknownDays.join(', ')}`);
+    }
+
+    const weekly = Object.fromEntries(
+      WEEKDAYS.map((day, index) => [index + 1, input.weekly?.[day] ?? []]),
+    ) as Record<number, HoursInterval[]>;
+    const errors = validateWeekly(weekly);
+    if (errors.length) {
+      throw new BadRequestException(errors.join('; '));
+    }
+
+    const timezone = input.timezone === undefined ? store.timezone : input.timezone;
+    const holidayPolicy = input.holidayPolicy ?? toPolicy(store.holidayPolicy);
+    const rows = toRows(storeId, weekly);
+
+    await this.prisma.$transaction([
+      this.prisma.storeOpeningHours.deleteMany({ where: { storeId } }),
+      this.prisma.storeOpeningHours.createMany({ data: rows }),
+      this.prisma.store.update({ where: { id: storeId }, data: { timezone, holidayPolicy } }),
+    ]);
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'Store',
+      entityId: storeId,
+      action: 'UPDATE',
+      oldData: { timezone: store.timezone, holidayPolicy: store.holidayPolicy, openingHours: toWeekly(store.OpeningHours) },
+      newData: { timezone, holidayPolicy, openingHours: toWeekly(rows) },
+      metadata: { source: 'store_hours' },
+    });
+
+    return this.getHours(storeId);
+  }
+
+  async setException(storeId: string, date: string, input: SetExceptionInput, actor: string): Promise<HoursException> {
+    const store = await this.loadStore(storeId);
+    if (!isValidDate(date)) {
+      throw new BadRequestException('date must be YYYY-MM-DD');
+    }
+
+    const intervals = input.closed ? [] : input.intervals ?? [];
+    if (!input.closed && intervals.length === 0) {
+      throw new BadRequestException('An exception must either close the store or give its hours');
+    }
+    const errors = validateIntervals(intervals, date);
+    if (errors.length) {
+      throw new BadRequestException(errors.join('; '));
+    }
+
+    const previous = store.HoursExceptions.find(exception => exception.date === date);
+    const data = { closed: input.closed, intervals: input.closed ? null : JSON.stringify(intervals), reason: input.reason ?? null };
+    const saved = await this.prisma.storeHoursException.upsert({
+      where: { storeId_date: { storeId, date } },
+      create: { storeId, date, ...data },
+      update: data,
+    });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'StoreHoursException',
+      entityId: saved.id,
+      action: previous ? 'UPDATE' : 'CREATE',
+      oldData: previous && toException(previous) as unknown as Record<string, unknown>,
+      newData: toException(saved) as unknown as Record<string, unknown>,
+      metadata: { storeId },
+    });
+
+    return toException(saved);
+  }
+
+  async deleteException(storeId: string, date: string, actor: string): Promise<void> {
+    const existing = await this.prisma.storeHoursException.findUnique({ where: { storeId_date: { storeId, date } } });
+    if (!existing) {
+      throw new NotFoundException(`No hours exception on ${date}`);
+    }
+
+    await this.prisma.storeHoursException.delete({ where: { id: existing.id } });
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'StoreHoursException',
+      entityId: existing.id,
+      action: 'DELETE',
+      oldData: toException(existing) as unknown as Record<string, unknown>,
+      metadata: { storeId },
+    });
+  }
+
+  async isOpenAt(storeId: string, at: Date): Promise<OpenStatus & { storeId: string; timezone: string }> {
+    const calendar = toCalendar(await this.loadStore(storeId));
+    return { storeId, timezone: calendar.timezone, ...calendar.isOpenAt(at) };
+  }
+
+  async schedule(storeId: string, from: string, to: string): Promise<{ storeId: string; timezone: string; days: CalendarDay[] }> {
+    if (!isValidDate(from) || !isValidDate(to)) {
+      throw new BadRequestException('from and to must be YYYY-MM-DD');
+    }
+    if (to < from || addDays(from, MAX_SCHEDULE_DAYS) < to) {
+      throw new BadRequestException(`to must be on or after from and at most ${MAX_SCHEDULE_DAYS} days later`);
+    }
+
+    const calendar = toCalendar(await this.loadStore(storeId));
+    return { storeId, timezone: calendar.timezone, days: calendar.schedule(from, to) };
+  }
+
+  holidays(country: string, year: number): PublicHoliday[] {
+    if (!hasHolidayCalendar(country)) {
+      throw new NotFoundException(`No public holiday calendar for ${country}`);
+    }
+    return publicHolidays(country, year);
+  }
+
+  /**
+   * Calendars for many stores in two queries. Stores without weekly hours are
+   * left out, so callers can fall back to their previous behaviour for them.
+   */
+  async loadCalendars(storeIds?: string[]): Promise<Map<string, StoreCalendar>> {
+    const stores = await this.prisma.store.findMany({
+      where: { ...(storeIds ? { id: { in: storeIds } } : {}), OpeningHours: { some: {} } },
+      select: {
+        id: true,
+        country: true,
+        timezone: true,
+        holidayPolicy: true,
+        OpeningHours: true,
+        HoursExceptions: true,
+      },
+    });
+    return new Map(stores.map(store => [store.id, toCalendar(store)]));
+  }
+
+  /**
+   * Percentage of orders placed while their store was scheduled to trade,
+   * over stores with configured hours. Null when none of the orders are at
+   * such a store.
+   */
+  async tradingHoursCompliance(orders: Array<{ storeId: string; createdAt: Date }>): Promise<number | null> {
+    const calendars = await this.loadCalendars([...new Set(orders.map(order => order.storeId))]);
+    let counted = 0;
+    let inside = 0;
+    for (const order of orders) {
+      const calendar = calendars.get(order.storeId);
+      if (!calendar) continue;
+      counted++;
+      if (calendar.isOpenAt(order.createdAt).open) inside++;
+    }
+    return counted > 0 ? Math.round((inside / counted) * 1000) / 10 : null;
+  }
+
+  private async loadStore(storeId: string): Promise<StoreWithHours> {
+    const store = await this.prisma.store.findUnique({
+      where: { id: storeId },
+      select: {
+        id: true,
+        country: true,
+        timezone: true,
+        holidayPolicy: true,
+        OpeningHours: true,
+        HoursExceptions: { orderBy: { date: 'asc' } },
+      },
+    });
+    if (!store) {
+      throw new NotFoundException('Store not found');
+    }
+    return store;
+  }
+}
+
+function toCalendar(store: StoreWithHours): StoreCalendar {
+  const weekly: Record<number, HoursInterval[]> = {};
+  for (const row of sortRows(store.OpeningHours)) {
+    (weekly[row.dayOfWeek] ??= []).push({ opensAt: row.opensAt, closesAt: row.closesAt });
+  }
+
+  return new StoreCalendar({
+    timezone: store.timezone ?? countryTimezone(store.country) ?? DEFAULT_TIMEZONE,
+    holidayPolicy: toPolicy(store.holidayPolicy),
+    country: store.country,
+    weekly,
+    exceptions: store.HoursExceptions.map(toException),
+  });
+}
+
+function toPolicy(value: string): HolidayPolicy {
+  return (HOLIDAY_POLICIES as string[]).includes(value) ? value as HolidayPolicy : 'CLOSED';
+}
+
+function sortRows<T extends Pick<StoreOpeningHours, 'dayOfWeek' | 'opensAt'>>(rows: T[]): T[] {
+  return [...rows].sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.opensAt.localeCompare(b.opensAt));
+}
+
+function toWeekly(rows: Pick<StoreOpeningHours, 'dayOfWeek' | 'opensAt' | 'closesAt'>[]): WeeklyHours {
+  const weekly = Object.fromEntries(WEEKDAYS.map(day => [day, [] as HoursInterval[]])) as WeeklyHours;
+  for (const row of sortRows(rows)) {
+    weekly[WEEKDAYS[row.dayOfWeek - 1]]?.push({ opensAt: row.opensAt, closesAt: row.closesAt });
+  }
+  return weekly;
+}
+
+function toRows(storeId: string, weekly: Record<number, HoursInterval[]>) {
+  return Object.entries(weekly).flatMap(([dayOfWeek, intervals]) =>
+    intervals.map(({ opensAt, closesAt }) => ({ storeId, dayOfWeek: Number(dayOfWeek), opensAt, closesAt })),
+  );
+}
+
+function toException(row: StoreHoursException): HoursException {
+  let intervals: HoursInterval[] = [];
+  if (!row.closed && row.intervals) {
+    try {
+      intervals = JSON.parse(row.intervals);
+    } catch {
+      intervals = [];
+    }
+  }
+  return { date: row.date, closed: row.closed, intervals, reason: row.reason };
+}
@@ -1,4 +1,4 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { IntelligenceCacheService, CacheStats } from './intelligence-cache.service';
 import { RedisCacheService, RedisCacheStats } from './redis-cache.service';
 import { 
@@ -29,7 +29,7 @@ export interface CombinedCacheStats {
 }
 
 @Injectable()
-export class CacheManagerService implements OnModuleInit {
+export class CacheManagerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(CacheManagerService.name);
   
   private config: CacheConfiguration = {
@@ -56,6 +56,12 @@ export class CacheManagerService implements OnModuleInit {
     await this.initialize();
   }
 
+  onModuleDestroy() {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+    }
+  }
+
   private async initialize(): Promise<void> {
     // Load configuration from environment or config service
     this.loadConfiguration();
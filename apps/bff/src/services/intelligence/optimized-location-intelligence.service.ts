@@ -381,7 +381,9 @@ export class OptimizedLocationIntelligenceService {
           openedAt: true,
           cityPopulationBand: true,
           isAISuggested: true,
-          operatingHours: true,
+          timezone: true,
+          holidayPolicy: true,
+          currency: true,
           phoneNumber: true,
           email: true,
           franchiseeId: true,
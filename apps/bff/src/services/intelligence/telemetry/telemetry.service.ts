@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { EnhancedIntelligenceConfigService } from '../../../config/enhanced-intelligence.config';
 
 export interface TelemetryEvent {
@@ -58,7 +58,7 @@ export interface ServiceHealthMetrics {
 }
 
 @Injectable()
-export class TelemetryService {
+export class TelemetryService implements OnModuleDestroy {
   private readonly logger = new Logger(TelemetryService.name);
   private events: TelemetryEvent[] = [];
   private metrics: TelemetryMetric[] = [];
@@ -69,6 +69,7 @@ export class TelemetryService {
   private readonly maxMetrics = 100000;
   private readonly maxAlerts = 10000;
   private readonly retentionDays = 7;
+  private maintenanceTimer?: NodeJS.Timeout;
 
   constructor(
     private readonly configService: EnhancedIntelligenceConfigService
@@ -76,6 +77,12 @@ export class TelemetryService {
     this.startMaintenanceTimer();
   }
 
+  onModuleDestroy() {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+    }
+  }
+
   // Event tracking
   trackEvent(event: Omit<TelemetryEvent, 'id' | 'timestamp'>): string {
     if (!this.configService.isFeatureEnabled('enableTelemetry')) {
@@ -661,7 +668,7 @@ export class TelemetryService {
   }
 
   private startMaintenanceTimer(): void {
-    setInterval(() => {
+    this.maintenanceTimer = setInterval(() => {
       this.performMaintenance();
     }, 60 * 60 * 1000); // Run every hour
   }
@@ -0,0 +1,199 @@
+import { localParts } from '../hours/store-calendar';
+
+/** Thrown for cron expressions that cannot be parsed */
+export class CronSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronSyntaxError';
+  }
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const SHORTHANDS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MINUTE_MS = 60_000;
+/** How far ahead next() looks before deciding an expression never fires (e.g. 30 February) */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * A five-field cron expression (minute, hour, day of month, month, day of
+ * week) evaluated in an IANA timezone. Supports lists, ranges, steps,
+ * month and weekday names and the @daily-style shorthands. As in Vixie
+ * cron, when both day fields are restricted a day matches if either does.
+ */
+export class CronExpression {
+  private constructor(
+    readonly source: string,
+    private readonly minutes: boolean[],
+    private readonly hours: boolean[],
+    private readonly daysOfMonth: boolean[],
+    private readonly months: boolean[],
+    private readonly daysOfWeek: boolean[],
+    private readonly anyDayOfMonth: boolean,
+    private readonly anyDayOfWeek: boolean,
+  ) {}
+
+  static parse(expression: string): CronExpression {
+    const source = expression.trim().replace(/\s+/g, ' ');
+    const fields = (SHORTHANDS[source.toLowerCase()] ?? source).split(' ');
+    if (fields.length !== FIELDS.length) {
+      throw new CronSyntaxError(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+    // Sunday may be written as 7
+    daysOfWeek[0] = daysOfWeek[0] || daysOfWeek[7];
+
+    return new CronExpression(
+      source,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      fields[2].startsWith('*'),
+      fields[4].startsWith('*'),
+    );
+  }
+
+  /** The first time strictly after `after`, or null if the expression never fires */
+  next(after: Date, timezone: string): Date | null {
+    const start = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+    const local = localParts(start, timezone);
+    // Wall-clock time in the zone, held as a UTC date so fields can be stepped without offsets
+    const wall = new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute));
+    const limit = local.year + MAX_SEARCH_YEARS;
+
+    while (wall.getUTCFullYear() <= limit) {
+      if (!this.months[wall.getUTCMonth() + 1]) {
+        wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+        wall.setUTCHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(wall)) {
+        wall.setUTCDate(wall.getUTCDate() + 1);
+        wall.setUTCHours(0, 0, 0, 0);
+      } else if (!this.hours[wall.getUTCHours()]) {
+        wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      } else if (!this.minutes[wall.getUTCMinutes()]) {
+        wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      } else {
+        const at = wallToInstant(wall.getTime(), timezone);
+        // Wall times repeated when clocks go back resolve to one instant, which may already be past
+        if (at.getTime() > after.getTime()) {
+          return at;
+        }
+        wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      }
+    }
+    return null;
+  }
+
+  /** The next `count` times after `after` */
+  upcoming(after: Date, timezone: string, count: number): Date[] {
+    const times: Date[] = [];
+    let cursor: Date | null = after;
+    while (times.length < count && (cursor = this.next(cursor, timezone))) {
+      times.push(cursor);
+    }
+    return times;
+  }
+
+  private matchesDay(wall: Date): boolean {
+    const dayOfMonth = this.daysOfMonth[wall.getUTCDate()];
+    const dayOfWeek = this.daysOfWeek[wall.getUTCDay()];
+
+    if (this.anyDayOfMonth || this.anyDayOfWeek) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+}
+
+function parseField(field: string, spec: FieldSpec): boolean[] {
+  const allowed: boolean[] = new Array(spec.max + 1).fill(false);
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|[^-/]+(?:-[^-/]+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new CronSyntaxError(`Invalid ${spec.name} "${part}"`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    if (step < 1) {
+      throw new CronSyntaxError(`Invalid ${spec.name} step "${stepText}"`);
+    }
+
+    let from = spec.min;
+    let to = spec.max;
+    if (range !== '*') {
+      const [low, high] = range.split('-');
+      from = parseValue(low, spec);
+      // "5/15" means every 15 from 5
+      to = high !== undefined ? parseValue(high, spec) : stepText ? spec.max : from;
+      if (from > to) {
+        throw new CronSyntaxError(`Invalid ${spec.name} range "${range}"`);
+      }
+    }
+
+    for (let value = from; value <= to; value += step) {
+      allowed[value] = true;
+    }
+  }
+  return allowed;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (named >= 0) {
+    return named + (spec.name === 'month' ? 1 : 0);
+  }
+
+  const value = /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+  if (isNaN(value) || value < spec.min || value > spec.max) {
+    throw new CronSyntaxError(`${spec.name} "${text}" must be between ${spec.min} and ${spec.max}`);
+  }
+  return value;
+}
+
+function wallClock(at: Date, timezone: string): number {
+  const local = localParts(at, timezone);
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+}
+
+/**
+ * The instant a zone's clock shows `wall`. Two passes settle the offset
+ * either side of a transition; wall times skipped when clocks go forward
+ * land an hour later.
+ */
+function wallToInstant(wall: number, timezone: string): Date {
+  const guess = wall - (wallClock(new Date(wall), timezone) - wall);
+  return new Date(wall - (wallClock(new Date(guess), timezone) - guess));
+}
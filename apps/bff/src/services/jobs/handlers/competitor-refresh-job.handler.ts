@@ -0,0 +1,192 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PermanentJobError } from '../../../errors/job.error';
+import { CompetitorRecord } from '../../competitive/competitor-file-parser';
+import { CompetitorImportService } from '../../competitive/competitor-import.service';
+import { distanceM } from '../../competitive/competitor-matching';
+import { MapboxCompetitorsService } from '../../competitive/mapbox-competitors.service';
+import { ClaimedJob, JobContext, JobHandler } from '../job-queue.service';
+
+interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+const CELL_RADIUS_METERS = 5000;
+// Roughly 5km in degrees of latitude; cells overlap slightly so nothing falls between them
+const CELL_STEP_DEGREES = 0.07;
+const MAX_CELLS = 400;
+
+/**
+ * Refreshes persisted competitor places for a CompetitorRefreshJob's area by
+ * sweeping it in ~5km cells, then resolves the sweep against the persisted
+ * places like a file import so openings, closures and relocations are recorded.
+ * Only cells that returned places can close anything: an empty cell is as
+ * likely a failed lookup as a competitor-free area.
+ */
+@Injectable()
+export class CompetitorRefreshJobHandler implements JobHandler {
+  readonly type = 'competitor-refresh' as const;
+  readonly table = 'CompetitorRefreshJob' as const;
+  readonly concurrency = 1;
+
+  private readonly logger = new Logger(CompetitorRefreshJobHandler.name);
+
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly competitorsService: MapboxCompetitorsService,
+    private readonly imports: CompetitorImportService,
+  ) {}
+
+  async enqueue(scope: {
+    region?: string;
+    country?: string;
+    boundingBox?: BoundingBox;
+    categories?: string[];
+  }) {
+    return this.prisma.competitorRefreshJob.create({
+      data: {
+        region: scope.region,
+        country: scope.country,
+        boundingBox: scope.boundingBox ? JSON.stringify(scope.boundingBox) : undefined,
+        sources: JSON.stringify(['mapbox']),
+        categories: JSON.stringify(scope.categories ?? ['qsr', 'coffee', 'pizza']),
+      },
+    });
+  }
+
+  async handle(job: ClaimedJob, context: JobContext): Promise<void> {
+    const row = await this.prisma.competitorRefreshJob.findUnique({ where: { id: job.id } });
+    if (!row) {
+      throw new PermanentJobError(`Competitor refresh job ${job.id} no longer exists`);
+    }
+
+    const box = row.boundingBox ? this.parseBoundingBox(row.boundingBox) : await this.boundingBoxFromStores(row.region, row.country);
+    const cells = this.cellCenters(box);
+    if (cells.length > MAX_CELLS) {
+      throw new PermanentJobError(`Area is too large (${cells.length} cells, max ${MAX_CELLS}); narrow the bounding box`);
+    }
+
+    this.logger.log(`🏪 Job ${job.id}: refreshing competitors in ${cells.length} cells`);
+
+    const records: CompetitorRecord[] = [];
+    const coveredCells: Array<{ lat: number; lng: number }> = [];
+    for (const [index, cell] of cells.entries()) {
+      context.throwIfCancelled();
+
+      const places = await this.competitorsService.getCompetitorsNearLocation({
+        latitude: cell.lat,
+        longitude: cell.lng,
+        radiusMeters: CELL_RADIUS_METERS,
+      });
+      if (places.length > 0) coveredCells.push(cell);
+      for (const place of places) {
+        records.push({
+          row: records.length + 1,
+          name: place.name,
+          brand: place.brand,
+          category: place.category,
+          latitude: place.latitude,
+          longitude: place.longitude,
+          address: place.address,
+        });
+      }
+
+      await this.prisma.competitorRefreshJob.updateMany({
+        where: { id: job.id, lockedBy: context.workerId },
+        data: { placesFound: records.length },
+      });
+      await context.reportProgress(((index + 1) / cells.length) * 95, `${index + 1}/${cells.length} cells`);
+    }
+
+    context.throwIfCancelled();
+    const summary = await this.imports.applySnapshot(records, {
+      source: 'mapbox',
+      format: 'refresh',
+      region: row.region ?? undefined,
+      country: row.country ?? undefined,
+      closeMissing: true,
+      covers: (point) =>
+        point.latitude >= box.south &&
+        point.latitude <= box.north &&
+        point.longitude >= box.west &&
+        point.longitude <= box.east &&
+        coveredCells.some((cell) => distanceM(cell.lat, cell.lng, point.latitude, point.longitude) <= CELL_RADIUS_METERS),
+      createdBy: `job:${job.id}`,
+    });
+
+    const totals = {
+      // Cells overlap, so the same place can come back from neighbouring cells
+      placesFound: records.length - summary.duplicatesInFile,
+      placesAdded: summary.opened,
+      placesUpdated: summary.matched + summary.relocated + summary.reopened,
+      placesDeactivated: summary.closed,
+    };
+    await this.prisma.competitorRefreshJob.updateMany({
+      where: { id: job.id, lockedBy: context.workerId },
+      data: totals,
+    });
+    await context.reportProgress(100, 'Changes recorded');
+
+    this.logger.log(
+      `   Found ${totals.placesFound}, added ${totals.placesAdded}, updated ${totals.placesUpdated}, ` +
+        `closed ${totals.placesDeactivated}, relocated ${summary.relocated}`,
+    );
+  }
+
+  cellCenters(box: BoundingBox): Array<{ lat: number; lng: number }> {
+    const cells: Array<{ lat: number; lng: number }> = [];
+    const midLat = (box.north + box.south) / 2;
+    // Longitude degrees shrink with latitude
+    const lngStep = CELL_STEP_DEGREES / Math.max(0.1, Math.cos((midLat * Math.PI) / 180));
+
+    for (let lat = box.south + CELL_STEP_DEGREES / 2; lat < box.north + CELL_STEP_DEGREES / 2; lat += CELL_STEP_DEGREES) {
+      for (let lng = box.west + lngStep / 2; lng < box.east + lngStep / 2; lng += lngStep) {
+        cells.push({ lat: Math.min(lat, box.north), lng: Math.min(lng, box.east) });
+      }
+    }
+    return cells;
+  }
+
+  private parseBoundingBox(raw: string): BoundingBox {
+    try {
+      const box = JSON.parse(raw);
+      if ([box.north, box.south, box.east, box.west].every((v) => typeof v === 'number') && box.north > box.south && box.east > box.west) {
+        return box;
+      }
+    } catch {
+      // fall through
+    }
+    throw new PermanentJobError('boundingBox must be JSON with numeric north > south and east > west');
+  }
+
+  private async boundingBoxFromStores(region: string | null, country: string | null): Promise<BoundingBox> {
+    if (!region && !country) {
+      throw new PermanentJobError('Job needs a boundingBox, region or country');
+    }
+
+    const where: Prisma.StoreWhereInput = {
+      latitude: { not: null },
+      longitude: { not: null },
+      ...(region && { region }),
+      ...(country && { country }),
+    };
+    const bounds = await this.prisma.store.aggregate({
+      where,
+      _min: { latitude: true, longitude: true },
+      _max: { latitude: true, longitude: true },
+    });
+    if (bounds._min.latitude === null || bounds._min.longitude === null || bounds._max.latitude === null || bounds._max.longitude === null) {
+      throw new PermanentJobError('No geocoded stores in the requested region');
+    }
+
+    return {
+      south: bounds._min.latitude,
+      west: bounds._min.longitude,
+      north: bounds._max.latitude,
+      east: bounds._max.longitude,
+    };
+  }
+}
@@ -0,0 +1,197 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { PermanentJobError } from '../../../errors/job.error';
+import { SimpleExpansionService } from '../../ai/simple-expansion.service';
+import { ClaimedJob, JobContext, JobHandler } from '../job-queue.service';
+
+/** Subset of the admin's GenerationParams the generator reads */
+interface ExpansionJobParams {
+  region: { country?: string };
+  aggression: number;
+  targetCount?: number;
+  model?: 'gpt-5.2' | 'gpt-5-mini';
+}
+
+/**
+ * Generates expansion suggestions for queued ExpansionJob rows
+ */
+@Injectable()
+export class ExpansionJobHandler implements JobHandler {
+  readonly type = 'expansion' as const;
+  readonly table = 'ExpansionJob' as const;
+  // Each job is one large LLM call; keep spend bounded across replicas
+  readonly concurrency = 2;
+
+  private readonly logger = new Logger(ExpansionJobHandler.name);
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  async handle(job: ClaimedJob, context: JobContext): Promise<void> {
+    const row = await this.prisma.expansionJob.findUnique({ where: { id: job.id } });
+    if (!row) {
+      throw new PermanentJobError(`Expansion job ${job.id} no longer exists`);
+    }
+
+    let params: ExpansionJobParams;
+    try {
+      params = JSON.parse(row.params);
+    } catch {
+      throw new PermanentJobError('Job params are not valid JSON');
+    }
+    if (!params?.region) {
+      throw new PermanentJobError('Job params are missing a region');
+    }
+
+    const startTime = Date.now();
+    this.logger.log(`🎯 Job ${job.id}: Starting expansion generation`);
+    this.logger.log(`   Region: ${params.region?.country || 'Unknown'}`);
+    this.logger.log(`   Aggression: ${params.aggression}`);
+    this.logger.log(`   Model: ${params.model || 'gpt-5-mini'}`);
+
+    // First, check what status values exist
+    const allStores = await this.prisma.store.findMany({
+      where: {
+        country: params.region.country || 'Germany'
+      },
+      select: {
+        status: true
+      }
+    });
+
+    const statusCounts = allStores.reduce((acc, store) => {
+      const status = store.status || 'null';
+      acc[status] = (acc[status] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    this.logger.log(`   Status distribution: ${JSON.stringify(statusCounts)}`);
+
+    // Get existing OPEN and PLANNED stores for the region (handle various status formats)
+    // Including planned stores ensures AI won't suggest locations too close to committed plans
+    const stores = await this.prisma.store.findMany({
+      where: {
+        country: params.region.country || 'Germany',
+        OR: [
+          { status: 'OPEN' },
+          { status: 'Open' },
+          { status: 'open' },
+          { status: 'Planned' }, // Include planned stores for better coverage
+          { status: null } // Include stores with no status set
+        ]
+      },
+      select: {
+        name: true,
+        city: true,
+        latitude: true,
+        longitude: true,
+        annualTurnover: true,
+        status: true,
+        isAISuggested: true
+      }
+    });
+
+    const openCount = stores.filter(s => ['OPEN', 'Open', 'open', null].includes(s.status)).length;
+    const plannedCount = stores.filter(s => s.status === 'Planned').length;
+    const aiSuggestedCount = stores.filter(s => s.isAISuggested).length;
+
+    this.logger.log(`   Found ${stores.length} stores in ${params.region.country || 'Germany'}`);
+    this.logger.log(`   - ${openCount} open stores`);
+    this.logger.log(`   - ${plannedCount} planned stores (${aiSuggestedCount} AI-suggested)`);
+
+    // Calculate target count based on aggression in 25-store increments
+    // Scale: 0% = 25, 20% = 50, 40% = 75, 60% = 100, 80% = 125, 100% = 150
+    // Note: AI refuses to generate 300 in one call, caps at ~150 for quality
+    const baseCount = 25;
+    const increment = 25;
+    const steps = Math.floor((params.aggression / 100) * 5); // 0-5 steps
+    const targetCount = params.targetCount || baseCount + (steps * increment);
+
+    await context.reportProgress(10, `Generating ${targetCount} suggestions from ${stores.length} existing stores`);
+    context.throwIfCancelled();
+
+    // Use simple expansion service directly
+    const simpleService = new SimpleExpansionService(this.prisma);
+    
+    const result = await simpleService.generateSuggestions({
+      region: params.region.country || 'Germany',
+      existingStores: stores.map(store => ({
+        name: store.name || 'Unknown',
+        city: store.city || 'Unknown',
+        lat: store.latitude || 0,
+        lng: store.longitude || 0,
+        revenue: store.annualTurnover || undefined
+      })),
+      targetCount,
+      model: params.model
+    });
+
+    context.throwIfCancelled();
+
+    // Convert simple expansion result to expected format
+    const formattedResult = {
+      suggestions: result.suggestions.map((s, i) => ({
+        id: `simple-${i + 1}`,
+        lat: s.lat,
+        lng: s.lng,
+        region: s.city,
+        country: params.region.country || 'Germany',
+        finalScore: s.confidence,
+        confidence: s.confidence,
+        isLive: true,
+        aiRecommended: true,
+        demandScore: s.confidence,
+        competitionPenalty: 0.1,
+        supplyPenalty: 0.1,
+        population: 100000,
+        footfallIndex: 0.7,
+        incomeIndex: 0.7,
+        predictedAUV: s.estimatedRevenue || 450000,
+        paybackPeriod: 18,
+        cacheKey: `simple-${i}`,
+        modelVersion: 'v4.0-simple-ai',
+        dataSnapshotDate: new Date().toISOString(),
+        rationaleText: s.rationale,
+        hasAIAnalysis: true,
+        aiProcessingRank: i + 1,
+        distanceToNearestStore: s.distanceToNearestStore,
+        rationale: {
+          population: s.confidence * 0.8,
+          proximityGap: s.distanceToNearestStore ? Math.min(1, s.distanceToNearestStore / 2000) : 0.7,
+          turnoverGap: s.estimatedRevenue ? s.estimatedRevenue / 2000000 : 0.7,
+          notes: s.rationale || 'AI-generated location'
+        }
+      })),
+      metadata: {
+        generationTimeMs: result.metadata.processingTimeMs,
+        enhancedRationaleEnabled: true,
+        diversificationEnabled: false,
+        aiCostLimitingEnabled: false,
+        aiCandidatesCount: result.suggestions.length,
+        totalCandidatesCount: result.suggestions.length,
+        aiPercentage: 100,
+        pipelineStages: ['simple-ai-single-call'],
+        aiPipelineUsed: true,
+        strategicAnalysis: result.analysis // Include strategic analysis
+      },
+      statistics: {
+        tokensUsed: result.metadata.tokensUsed,
+        totalCost: result.metadata.cost,
+        generationTimeMs: result.metadata.processingTimeMs
+      }
+    };
+
+    await this.prisma.expansionJob.updateMany({
+      where: { id: job.id, lockedBy: context.workerId },
+      data: {
+        result: JSON.stringify(formattedResult),
+        tokensUsed: result.metadata.tokensUsed,
+        actualCost: result.metadata.cost,
+      },
+    });
+
+    this.logger.log(`   Suggestions: ${result.suggestions.length}`);
+    this.logger.log(`   Processing time: ${Math.round((Date.now() - startTime) / 1000)}s`);
+    this.logger.log(`   Tokens used: ${result.metadata.tokensUsed}`);
+    this.logger.log(`   Cost: £${result.metadata.cost.toFixed(4)}`);
+  }
+}
@@ -0,0 +1,94 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PermanentJobError } from '../../../errors/job.error';
+import { RevenueForecastingService } from '../../forecasting/revenue-forecasting.service';
+import { ClaimedJob, JobContext, JobHandler } from '../job-queue.service';
+
+/**
+ * Generates revenue forecasts for every store in a ForecastJob's scope.
+ * Stores that cannot be forecast (e.g. too little history) are skipped and
+ * counted rather than failing the whole batch.
+ */
+@Injectable()
+export class ForecastJobHandler implements JobHandler {
+  readonly type = 'forecast' as const;
+  readonly table = 'ForecastJob' as const;
+  readonly concurrency = 2;
+
+  private readonly logger = new Logger(ForecastJobHandler.name);
+
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly forecastingService: RevenueForecastingService,
+  ) {}
+
+  async enqueue(scope: {
+    storeId?: string;
+    region?: string;
+    country?: string;
+    horizonMonths?: number;
+    regenerate?: boolean;
+  }) {
+    return this.prisma.forecastJob.create({
+      data: {
+        storeId: scope.storeId,
+        region: scope.region,
+        country: scope.country,
+        horizonMonths: scope.horizonMonths ?? 12,
+        regenerate: scope.regenerate ?? false,
+      },
+    });
+  }
+
+  async handle(job: ClaimedJob, context: JobContext): Promise<void> {
+    const row = await this.prisma.forecastJob.findUnique({ where: { id: job.id } });
+    if (!row) {
+      throw new PermanentJobError(`Forecast job ${job.id} no longer exists`);
+    }
+
+    const where: Prisma.StoreWhereInput = row.storeId
+      ? { id: row.storeId }
+      : {
+          ...(row.region && { region: row.region }),
+          ...(row.country && { country: row.country }),
+        };
+    const stores = await this.prisma.store.findMany({ where, select: { id: true }, orderBy: { id: 'asc' } });
+    if (stores.length === 0) {
+      throw new PermanentJobError('No stores match the forecast scope');
+    }
+
+    this.logger.log(`📊 Job ${job.id}: forecasting ${stores.length} stores, horizon ${row.horizonMonths} months`);
+
+    let forecastsGenerated = 0;
+    let skipped = 0;
+
+    for (const [index, store] of stores.entries()) {
+      context.throwIfCancelled();
+
+      const existing = row.regenerate ? null : await this.forecastingService.getStoreForecast(store.id);
+      if (!existing) {
+        try {
+          const forecast = await this.forecastingService.forecastStore(store.id, row.horizonMonths);
+          forecastsGenerated += forecast.forecasts.length;
+        } catch (error) {
+          skipped++;
+          this.logger.warn(`   Skipped store ${store.id}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      const processed = index + 1;
+      await this.prisma.forecastJob.updateMany({
+        where: { id: job.id, lockedBy: context.workerId },
+        data: { storesProcessed: processed, forecastsGenerated },
+      });
+      if (processed % 10 === 0 || processed === stores.length) {
+        await context.reportProgress(
+          (processed / stores.length) * 100,
+          `${processed}/${stores.length} stores${skipped > 0 ? `, ${skipped} skipped` : ''}`,
+        );
+      }
+    }
+
+    this.logger.log(`   Forecast points generated: ${forecastsGenerated}, stores skipped: ${skipped}`);
+  }
+}
@@ -0,0 +1,167 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { PermanentJobError } from '../../../errors/job.error';
+import { StoreAnalysisService } from '../../ai/store-analysis.service';
+import { ClaimedJob, JobContext, JobHandler } from '../job-queue.service';
+
+export interface StoreAnalysisJobParams {
+  region?: string;
+  storeIds?: string[];
+  model?: 'gpt-5.2' | 'gpt-5-mini';
+  analysisType?: string;
+}
+
+/**
+ * Runs AI store performance analysis for queued StoreAnalysisJob rows
+ */
+@Injectable()
+export class StoreAnalysisJobHandler implements JobHandler {
+  readonly type = 'store-analysis' as const;
+  readonly table = 'StoreAnalysisJob' as const;
+  readonly concurrency = 1;
+
+  private readonly logger = new Logger(StoreAnalysisJobHandler.name);
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  /** Re-enqueueing with the same idempotency key returns the existing job */
+  async enqueue(params: StoreAnalysisJobParams, userId: string, idempotencyKey: string) {
+    const existing = await this.prisma.storeAnalysisJob.findUnique({ where: { idempotencyKey } });
+    if (existing) {
+      return existing;
+    }
+
+    return this.prisma.storeAnalysisJob.create({
+      data: {
+        idempotencyKey,
+        userId,
+        params: JSON.stringify({
+          region: params.region,
+          storeIds: params.storeIds,
+          model: params.model ?? 'gpt-5-mini',
+          analysisType: params.analysisType ?? 'performance',
+        }),
+        status: 'queued',
+      },
+    });
+  }
+
+  async handle(job: ClaimedJob, context: JobContext): Promise<void> {
+    const row = await this.prisma.storeAnalysisJob.findUnique({ where: { id: job.id } });
+    if (!row) {
+      throw new PermanentJobError(`Store analysis job ${job.id} no longer exists`);
+    }
+
+    let params: StoreAnalysisJobParams;
+    try {
+      params = JSON.parse(row.params);
+    } catch {
+      throw new PermanentJobError('Job params are not valid JSON');
+    }
+
+    const startTime = Date.now();
+    this.logger.log(`🔍 Job ${job.id}: Starting store analysis`);
+    this.logger.log(`   Region: ${params.region || 'Unknown'}`);
+    this.logger.log(`   Model: ${params.model || 'gpt-5-mini'}`);
+
+    const analysisService = new StoreAnalysisService(this.prisma);
+
+    // Get stores to analyze
+    const stores = await this.prisma.store.findMany({
+      where: params.storeIds
+        ? { id: { in: params.storeIds } }
+        : { country: params.region || 'Germany' },
+      select: {
+        id: true,
+        name: true,
+        city: true,
+        latitude: true,
+        longitude: true,
+        annualTurnover: true,
+        openedAt: true,
+        ownerName: true
+      }
+    });
+
+    // Group stores by owner to get franchisee store counts
+    const ownerStoreCounts = new Map<string, number>();
+    stores.forEach(store => {
+      const owner = store.ownerName || 'Unknown';
+      ownerStoreCounts.set(owner, (ownerStoreCounts.get(owner) || 0) + 1);
+    });
+
+    // Prepare analysis request
+    const analysisRequest = {
+      region: params.region || 'Germany',
+      stores: stores.map(store => {
+        const owner = store.ownerName || 'Unknown';
+        return {
+          id: store.id,
+          name: store.name || 'Unknown',
+          city: store.city || 'Unknown',
+          lat: store.latitude || 0,
+          lng: store.longitude || 0,
+          revenue: store.annualTurnover || 0,
+          openDate: store.openedAt || undefined,
+          franchiseeName: owner,
+          franchiseeStoreCount: ownerStoreCounts.get(owner) || 1
+        };
+      }),
+      model: params.model
+    };
+
+    await context.reportProgress(10, `Analysing ${stores.length} stores`);
+    context.throwIfCancelled();
+
+    // Run analysis
+    const result = await analysisService.analyzeStores(analysisRequest);
+
+    context.throwIfCancelled();
+    await context.reportProgress(80, 'Saving analyses');
+
+    // Save individual analyses to database
+    for (const analysis of result.analyses) {
+      await this.prisma.storeAnalysis.create({
+        data: {
+          storeId: analysis.storeId,
+          locationQualityScore: analysis.locationQualityScore,
+          locationRating: analysis.locationRating,
+          locationStrengths: JSON.stringify(analysis.locationStrengths),
+          locationWeaknesses: JSON.stringify(analysis.locationWeaknesses),
+          expectedRevenue: analysis.expectedRevenue,
+          actualRevenue: analysis.actualRevenue,
+          performanceGap: analysis.performanceGap,
+          performanceGapPercent: analysis.performanceGapPercent,
+          primaryFactor: analysis.primaryFactor,
+          franchiseeRating: analysis.franchiseeRating,
+          franchiseeStrengths: analysis.franchiseeStrengths ? JSON.stringify(analysis.franchiseeStrengths) : null,
+          franchiseeConcerns: analysis.franchiseeConcerns ? JSON.stringify(analysis.franchiseeConcerns) : null,
+          recommendationPriority: analysis.recommendationPriority,
+          recommendations: JSON.stringify(analysis.recommendations),
+          estimatedImpact: analysis.estimatedImpact,
+          model: result.metadata.model,
+          tokensUsed: Math.round(result.metadata.tokensUsed / result.analyses.length)
+        }
+      });
+    }
+
+    await this.prisma.storeAnalysisJob.updateMany({
+      where: { id: job.id, lockedBy: context.workerId },
+      data: {
+        result: JSON.stringify(result),
+        storesAnalyzed: result.analyses.length,
+        tokensUsed: result.metadata.tokensUsed,
+        actualCost: result.metadata.cost,
+      },
+    });
+
+    this.logger.log(`   Stores analyzed: ${result.analyses.length}`);
+    this.logger.log(`   Processing time: ${Math.round((Date.now() - startTime) / 1000)}s`);
+    this.logger.log(`   Tokens used: ${result.metadata.tokensUsed}`);
+    this.logger.log(`   Cost: £${result.metadata.cost.toFixed(4)}`);
+    if (result.summary) {
+      this.logger.log(`   Critical stores: ${result.summary.criticalStores}`);
+      this.logger.log(`   Opportunity stores: ${result.summary.opportunityStores}`);
+    }
+  }
+}
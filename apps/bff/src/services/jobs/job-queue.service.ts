@@ -0,0 +1,492 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { trackTokens } from '@subway/shared-ai';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { JobCancelledError, PermanentJobError } from '../../errors/job.error';
+import { createAuditUtil } from '../../util/audit.util';
+
+export const JOB_TYPES = ['expansion', 'store-analysis', 'forecast', 'competitor-refresh'] as const;
+export type JobType = typeof JOB_TYPES[number];
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobTable = 'ExpansionJob' | 'StoreAnalysisJob' | 'ForecastJob' | 'CompetitorRefreshJob';
+
+/** Job tables with a tokensUsed column, filled from the LLM calls a job makes */
+const TOKEN_TABLES: JobTable[] = ['ExpansionJob', 'StoreAnalysisJob', 'ForecastJob'];
+
+export interface ClaimedJob {
+  id: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+export interface JobContext {
+  workerId: string;
+  /** Aborted when cancellation is requested, the lease is lost or the worker shuts down */
+  signal: AbortSignal;
+  reportProgress(progress: number, message?: string): Promise<void>;
+  /** Throws JobCancelledError once the signal has been aborted */
+  throwIfCancelled(): void;
+}
+
+export interface JobHandler {
+  readonly type: JobType;
+  readonly table: JobTable;
+  /** Maximum jobs of this type running at once across every worker */
+  readonly concurrency: number;
+  /**
+   * Does the work and writes the job's result columns. Writes should be
+   * fenced on `lockedBy = context.workerId` so a worker that lost its lease
+   * cannot overwrite the row.
+   */
+  handle(job: ClaimedJob, context: JobContext): Promise<void>;
+}
+
+export interface JobSummary {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  progress: number;
+  progressMessage: string | null;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  runAfter: Date;
+  lockedBy: string | null;
+  heartbeatAt: Date | null;
+  cancelRequestedAt: Date | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+type AbortReason = 'cancelled' | 'lease-lost' | 'shutdown';
+
+const DEFAULT_LEASE_MS = 60_000;
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 15 * 60_000;
+const SHUTDOWN_GRACE_MS = 10_000;
+
+/**
+ * Durable job queue shared by the job tables. Rows are claimed with
+ * `FOR UPDATE SKIP LOCKED` under a per-type advisory lock, so any number of
+ * BFF replicas can poll the same tables without double-processing and
+ * per-type concurrency limits hold across replicas. A claim is a lease that
+ * the running worker renews with heartbeats; leases that expire (crashed or
+ * hung workers) are recovered by whichever worker polls next.
+ */
+@Injectable()
+export class JobQueueService {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly handlers = new Map<JobType, JobHandler>();
+  private readonly active = new Map<string, { controller: AbortController; run: Promise<void> }>();
+  private pollingInterval: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private readonly leaseMs = parseInt(process.env.JOB_LEASE_MS || `${DEFAULT_LEASE_MS}`, 10);
+  private readonly pollIntervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || `${DEFAULT_POLL_INTERVAL_MS}`, 10);
+  private readonly maxLocalJobs = parseInt(process.env.JOB_WORKER_MAX_CONCURRENCY || '4', 10);
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  register(handler: JobHandler): void {
+    this.handlers.set(handler.type, handler);
+  }
+
+  start(): void {
+    if (this.pollingInterval) return;
+
+    this.pollingInterval = setInterval(() => {
+      void this.tick();
+    }, this.pollIntervalMs);
+    this.logger.log(`✅ Job worker ${this.workerId} polling every ${this.pollIntervalMs}ms for ${[...this.handlers.keys()].join(', ')}`);
+  }
+
+  /**
+   * Stops polling and hands running jobs back to the queue. Handlers get a
+   * short grace period to reach a cancellation checkpoint; any lease still
+   * held afterwards is released without consuming an attempt.
+   */
+  async stop(): Promise<void> {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+
+    if (this.active.size === 0) return;
+
+    this.logger.log(`🛑 Releasing ${this.active.size} running job(s)`);
+    for (const { controller } of this.active.values()) {
+      controller.abort('shutdown');
+    }
+    await Promise.race([
+      Promise.allSettled([...this.active.values()].map(({ run }) => run)),
+      new Promise((resolve) => setTimeout(resolve, SHUTDOWN_GRACE_MS)),
+    ]);
+
+    for (const handler of this.handlers.values()) {
+      await this.prisma.$executeRaw(Prisma.sql`
+        UPDATE ${this.tableOf(handler)}
+        SET status = 'queued', attempts = GREATEST(attempts - 1, 0), "lockedBy" = NULL, "leaseExpiresAt" = NULL
+        WHERE status = 'running' AND "lockedBy" = ${this.workerId}`);
+    }
+  }
+
+  /**
+   * One polling pass: recover expired leases, then claim jobs until either
+   * the queue is empty, the type's concurrency limit is reached or this
+   * worker is at capacity.
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const handler of this.handlers.values()) {
+        await this.recoverExpired(handler);
+
+        while (this.active.size < this.maxLocalJobs) {
+          const job = await this.claim(handler);
+          if (!job) break;
+
+          const controller = new AbortController();
+          const key = `${handler.type}:${job.id}`;
+          const run = this.execute(handler, job, controller)
+            .catch((error) => this.logger.error(`Error finishing ${key}; its lease will expire and be recovered:`, error))
+            .finally(() => this.active.delete(key));
+          this.active.set(key, { controller, run });
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error in job polling loop:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async execute(handler: JobHandler, job: ClaimedJob, controller = new AbortController()): Promise<void> {
+    const startTime = Date.now();
+    const context: JobContext = {
+      workerId: this.workerId,
+      signal: controller.signal,
+      reportProgress: (progress, message) => this.reportProgress(handler, job, progress, message),
+      throwIfCancelled: () => {
+        if (controller.signal.aborted) {
+          throw new JobCancelledError();
+        }
+      },
+    };
+    const heartbeat = setInterval(() => {
+      void this.heartbeat(handler, job, controller);
+    }, Math.max(1000, Math.floor(this.leaseMs / 3)));
+
+    this.logger.log(`📋 ${handler.type} job ${job.id}: attempt ${job.attempts} of ${job.maxAttempts}`);
+    await this.recordEvent(handler.type, job.id, 'started', { message: `Attempt ${job.attempts} of ${job.maxAttempts}` });
+
+    try {
+      const { tokensUsed } = await trackTokens(() => handler.handle(job, context));
+      await this.addTokens(handler, job, tokensUsed);
+      await this.finish(handler, job, 'completed');
+      this.logger.log(`✅ ${handler.type} job ${job.id}: completed in ${Math.round((Date.now() - startTime) / 1000)}s`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const reason = controller.signal.aborted ? (controller.signal.reason as AbortReason) : null;
+
+      if (reason === 'cancelled') {
+        await this.finish(handler, job, 'cancelled', 'Cancelled by request');
+      } else if (reason === 'lease-lost') {
+        this.logger.warn(`⚠️ ${handler.type} job ${job.id}: lease lost, leaving the row to its new owner`);
+      } else if (reason === 'shutdown') {
+        await this.release(handler, job);
+      } else if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+        this.logger.error(`❌ ${handler.type} job ${job.id}: failed after ${Math.round((Date.now() - startTime) / 1000)}s: ${message}`);
+        await this.finish(handler, job, 'failed', message);
+      } else {
+        await this.scheduleRetry(handler, job, message);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /** Exponential backoff: 30s, 60s, 120s, ... capped at 15 minutes */
+  retryDelayMs(attempt: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_DELAY_MS);
+  }
+
+  async getJob(type: JobType, id: string): Promise<JobSummary> {
+    const rows = await this.prisma.$queryRaw<Omit<JobSummary, 'type'>[]>(Prisma.sql`
+      SELECT id, status, progress, "progressMessage", attempts, "maxAttempts", error, "runAfter", "lockedBy",
+             "heartbeatAt", "cancelRequestedAt", "createdAt", "startedAt", "completedAt"
+      FROM ${this.tableOf(this.handlerFor(type))}
+      WHERE id = ${id}`);
+
+    if (rows.length === 0) {
+      throw new NotFoundException(`${type} job ${id} not found`);
+    }
+    return { ...rows[0], type };
+  }
+
+  async getEvents(type: JobType, id: string, limit = 100) {
+    return this.prisma.jobEvent.findMany({
+      where: { jobType: type, jobId: id },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Queued jobs are cancelled straight away. Running jobs are flagged and the
+   * owning worker aborts them on its next heartbeat.
+   */
+  async cancel(type: JobType, id: string, actor: string): Promise<JobSummary> {
+    const table = this.tableOf(this.handlerFor(type));
+
+    const cancelled = await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE ${table}
+      SET status = 'cancelled', "cancelRequestedAt" = now(), "completedAt" = now()
+      WHERE id = ${id} AND status = 'queued'`);
+
+    if (cancelled > 0) {
+      await this.recordEvent(type, id, 'cancelled', { message: `Cancelled by ${actor}` });
+    } else {
+      const flagged = await this.prisma.$executeRaw(Prisma.sql`
+        UPDATE ${table}
+        SET "cancelRequestedAt" = now()
+        WHERE id = ${id} AND status = 'running' AND "cancelRequestedAt" IS NULL`);
+
+      if (flagged === 0) {
+        const job = await this.getJob(type, id);
+        if (job.status !== 'running') {
+          throw new BadRequestException(`Job is already ${job.status}`);
+        }
+        return job;
+      }
+      await this.recordEvent(type, id, 'cancel_requested', { message: `Cancellation requested by ${actor}` });
+    }
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'Job',
+      entityId: id,
+      action: 'CANCEL',
+      newData: { type },
+    });
+
+    return this.getJob(type, id);
+  }
+
+  /** Puts a failed or cancelled job back on the queue with a fresh attempt budget */
+  async retry(type: JobType, id: string, actor: string): Promise<JobSummary> {
+    const requeued = await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE ${this.tableOf(this.handlerFor(type))}
+      SET status = 'queued', attempts = 0, "runAfter" = now(), error = NULL, progress = 0, "progressMessage" = NULL,
+          "cancelRequestedAt" = NULL, "completedAt" = NULL
+      WHERE id = ${id} AND status IN ('failed', 'cancelled')`);
+
+    if (requeued === 0) {
+      const job = await this.getJob(type, id);
+      throw new BadRequestException(`Only failed or cancelled jobs can be retried; job is ${job.status}`);
+    }
+
+    await this.recordEvent(type, id, 'requeued', { message: `Requeued by ${actor}` });
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'Job',
+      entityId: id,
+      action: 'RETRY',
+      newData: { type },
+    });
+
+    return this.getJob(type, id);
+  }
+
+  async recordEvent(
+    type: JobType,
+    jobId: string,
+    event: string,
+    details: { progress?: number; message?: string } = {},
+  ): Promise<void> {
+    try {
+      await this.prisma.jobEvent.create({
+        data: {
+          jobType: type,
+          jobId,
+          event,
+          progress: details.progress,
+          message: details.message,
+          workerId: this.workerId,
+        },
+      });
+    } catch (error) {
+      // Events are informational; never fail a job because one could not be written
+      this.logger.warn(`Failed to record ${event} event for ${type} job ${jobId}: ${error}`);
+    }
+  }
+
+  private async claim(handler: JobHandler): Promise<ClaimedJob | null> {
+    const table = this.tableOf(handler);
+
+    return this.prisma.$transaction(async (tx) => {
+      // Serialises claims per type so the running count below cannot race another replica
+      await tx.$executeRaw(Prisma.sql`SELECT pg_advisory_xact_lock(hashtext(${`job-queue:${handler.type}`}))`);
+
+      const [{ running }] = await tx.$queryRaw<{ running: number }[]>(Prisma.sql`
+        SELECT count(*)::int AS running FROM ${table}
+        WHERE status = 'running' AND "leaseExpiresAt" > now()`);
+      if (running >= handler.concurrency) {
+        return null;
+      }
+
+      const claimed = await tx.$queryRaw<ClaimedJob[]>(Prisma.sql`
+        UPDATE ${table}
+        SET status = 'running', "lockedBy" = ${this.workerId}, attempts = attempts + 1, "heartbeatAt" = now(),
+            "leaseExpiresAt" = now() + ${this.interval(this.leaseMs)}, "startedAt" = COALESCE("startedAt", now())
+        WHERE id = (
+          SELECT id FROM ${table}
+          WHERE status = 'queued' AND "runAfter" <= now()
+          ORDER BY "runAfter" ASC, "createdAt" ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, attempts, "maxAttempts"`);
+
+      return claimed[0] ?? null;
+    });
+  }
+
+  private async heartbeat(handler: JobHandler, job: ClaimedJob, controller: AbortController): Promise<void> {
+    if (controller.signal.aborted) return;
+
+    try {
+      const rows = await this.prisma.$queryRaw<{ cancelRequestedAt: Date | null }[]>(Prisma.sql`
+        UPDATE ${this.tableOf(handler)}
+        SET "heartbeatAt" = now(), "leaseExpiresAt" = now() + ${this.interval(this.leaseMs)}
+        WHERE id = ${job.id} AND "lockedBy" = ${this.workerId} AND status = 'running'
+        RETURNING "cancelRequestedAt"`);
+
+      if (rows.length === 0) {
+        controller.abort('lease-lost');
+      } else if (rows[0].cancelRequestedAt) {
+        controller.abort('cancelled');
+      }
+    } catch (error) {
+      // A missed heartbeat is survivable; the lease outlives several intervals
+      this.logger.warn(`Heartbeat failed for ${handler.type} job ${job.id}: ${error}`);
+    }
+  }
+
+  private async reportProgress(handler: JobHandler, job: ClaimedJob, progress: number, message?: string): Promise<void> {
+    const value = Math.max(0, Math.min(100, Math.round(progress)));
+
+    await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE ${this.tableOf(handler)}
+      SET progress = ${value}, "progressMessage" = ${message ?? null}
+      WHERE id = ${job.id} AND "lockedBy" = ${this.workerId}`);
+    await this.recordEvent(handler.type, job.id, 'progress', { progress: value, message });
+  }
+
+  private async finish(handler: JobHandler, job: ClaimedJob, status: 'completed' | 'failed' | 'cancelled', error?: string): Promise<void> {
+    const updated = await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE ${this.tableOf(handler)}
+      SET status = ${status}, error = ${error ?? null}, "completedAt" = now(), "lockedBy" = NULL, "leaseExpiresAt" = NULL,
+          progress = CASE WHEN ${status} = 'completed' THEN 100 ELSE progress END
+      WHERE id = ${job.id} AND "lockedBy" = ${this.workerId}`);
+
+    if (updated === 0) {
+      this.logger.warn(`⚠️ ${handler.type} job ${job.id}: lease lost before it could be marked ${status}`);
+      return;
+    }
+    await this.recordEvent(handler.type, job.id, status, { message: error });
+  }
+
+  /** Adds to, rather than sets, tokensUsed: handlers may already have recorded calls made outside LlmClient */
+  private async addTokens(handler: JobHandler, job: ClaimedJob, tokens: number): Promise<void> {
+    if (tokens === 0 || !TOKEN_TABLES.includes(handler.table)) return;
+
+    await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE ${this.tableOf(handler)}
+      SET "tokensUsed" = COALESCE("tokensUsed", 0) + ${tokens}
+      WHERE id = ${job.id} AND "lockedBy" = ${this.workerId}`);
+  }
+
+  private async scheduleRetry(handler: JobHandler, job: ClaimedJob, error: string): Promise<void> {
+    const delayMs = this.retryDelayMs(job.attempts);
+
+    await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE ${this.tableOf(handler)}
+      SET status = 'queued', error = ${error}, "runAfter" = now() + ${this.interval(delayMs)},
+          "lockedBy" = NULL, "leaseExpiresAt" = NULL
+      WHERE id = ${job.id} AND "lockedBy" = ${this.workerId}`);
+
+    this.logger.warn(`🔁 ${handler.type} job ${job.id}: attempt ${job.attempts} failed (${error}); retrying in ${delayMs / 1000}s`);
+    await this.recordEvent(handler.type, job.id, 'retrying', {
+      message: `Attempt ${job.attempts} failed: ${error}. Retrying in ${delayMs / 1000}s`,
+    });
+  }
+
+  /** Hands a job back without counting the interrupted attempt */
+  private async release(handler: JobHandler, job: ClaimedJob): Promise<void> {
+    await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE ${this.tableOf(handler)}
+      SET status = 'queued', attempts = GREATEST(attempts - 1, 0), "lockedBy" = NULL, "leaseExpiresAt" = NULL
+      WHERE id = ${job.id} AND "lockedBy" = ${this.workerId}`);
+  }
+
+  /**
+   * Requeues running jobs whose lease has expired, failing them instead once
+   * their attempts are used up. A running row without a lease predates the
+   * queue and is treated as expired.
+   */
+  private async recoverExpired(handler: JobHandler): Promise<void> {
+    const recovered = await this.prisma.$queryRaw<{ id: string; status: JobStatus; lockedBy: string | null }[]>(Prisma.sql`
+      UPDATE ${this.tableOf(handler)} AS job
+      SET status = CASE
+            WHEN job."cancelRequestedAt" IS NOT NULL THEN 'cancelled'
+            WHEN job.attempts >= job."maxAttempts" THEN 'failed'
+            ELSE 'queued'
+          END,
+          error = CASE
+            WHEN job."cancelRequestedAt" IS NULL AND job.attempts >= job."maxAttempts" THEN 'Worker stopped responding'
+            ELSE job.error
+          END,
+          "completedAt" = CASE
+            WHEN job."cancelRequestedAt" IS NOT NULL OR job.attempts >= job."maxAttempts" THEN now()
+            ELSE job."completedAt"
+          END,
+          "runAfter" = now(), "lockedBy" = NULL, "leaseExpiresAt" = NULL
+      FROM (
+        SELECT id, "lockedBy" FROM ${this.tableOf(handler)}
+        WHERE status = 'running' AND ("leaseExpiresAt" IS NULL OR "leaseExpiresAt" < now())
+        FOR UPDATE SKIP LOCKED
+      ) AS expired
+      WHERE job.id = expired.id
+      RETURNING job.id, job.status, expired."lockedBy"`);
+
+    for (const job of recovered) {
+      this.logger.warn(`♻️ ${handler.type} job ${job.id}: lease held by ${job.lockedBy ?? 'unknown worker'} expired; now ${job.status}`);
+      await this.recordEvent(handler.type, job.id, 'recovered', {
+        message: `Lease held by ${job.lockedBy ?? 'unknown worker'} expired; job ${job.status}`,
+      });
+    }
+  }
+
+  private handlerFor(type: JobType): JobHandler {
+    const handler = this.handlers.get(type);
+    if (!handler) {
+      throw new NotFoundException(`Unknown job type: ${type}`);
+    }
+    return handler;
+  }
+
+  private tableOf(handler: JobHandler): Prisma.Sql {
+    // Table names come from registered handlers, never from request input
+    return Prisma.raw(`"${handler.table}"`);
+  }
+
+  private interval(ms: number): Prisma.Sql {
+    return Prisma.sql`make_interval(secs => ${ms / 1000}::double precision)`;
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { JobQueueService } from './job-queue.service';
+import { ExpansionJobHandler } from './handlers/expansion-job.handler';
+import { StoreAnalysisJobHandler } from './handlers/store-analysis-job.handler';
+import { ForecastJobHandler } from './handlers/forecast-job.handler';
+import { CompetitorRefreshJobHandler } from './handlers/competitor-refresh-job.handler';
+import { ScheduledJobService } from './scheduled-job.service';
+
+/**
+ * Registers the job handlers with the queue and runs the polling worker and
+ * the recurring job scheduler. Set JOB_WORKER_ENABLED=false on replicas that
+ * should only serve API traffic; they can still report on and cancel jobs.
+ */
+@Injectable()
+export class JobWorkerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobWorkerService.name);
+
+  constructor(
+    private readonly queue: JobQueueService,
+    private readonly scheduler: ScheduledJobService,
+    expansion: ExpansionJobHandler,
+    storeAnalysis: StoreAnalysisJobHandler,
+    forecast: ForecastJobHandler,
+    competitorRefresh: CompetitorRefreshJobHandler,
+  ) {
+    for (const handler of [expansion, storeAnalysis, forecast, competitorRefresh]) {
+      queue.register(handler);
+    }
+  }
+
+  onModuleInit() {
+    if (process.env.JOB_WORKER_ENABLED === 'false') {
+      this.logger.log('Job worker disabled (JOB_WORKER_ENABLED=false)');
+      return;
+    }
+
+    this.logger.log(`🚀 Job worker ${this.queue.workerId} starting...`);
+    this.queue.start();
+    this.scheduler.start();
+  }
+
+  async onModuleDestroy() {
+    this.logger.log('🛑 Job worker stopping...');
+    this.scheduler.stop();
+    await this.queue.stop();
+  }
+}
@@ -0,0 +1,637 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, PrismaClient, ScheduledJob, ScheduledJobRun } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import { AIIntelligenceControllerService } from '../ai/ai-intelligence-controller.service';
+import { FranchiseeService } from '../franchisee/franchisee.service';
+import { FranchiseeAnalyticsService } from '../franchisee/franchisee-analytics.service';
+import { StoreAlertService } from '../alerts/store-alert.service';
+import { MenuVersionService } from '../menu/menu-version.service';
+import { RoyaltyService } from '../franchisee/royalty.service';
+import { previousPeriod } from '../franchisee/royalties';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '../hours/store-calendar';
+import { CronExpression, CronSyntaxError } from './cron';
+import { JobQueueService, JobStatus, JobType } from './job-queue.service';
+import { ForecastJobHandler } from './handlers/forecast-job.handler';
+import { StoreAnalysisJobHandler } from './handlers/store-analysis-job.handler';
+import { CompetitorRefreshJobHandler } from './handlers/competitor-refresh-job.handler';
+
+export const SCHEDULE_KINDS = ['forecast', 'store-analysis', 'competitor-refresh', 'franchisee-scores', 'store-anomalies', 'royalty-statements'] as const;
+export type ScheduleKind = typeof SCHEDULE_KINDS[number];
+export type CatchUpPolicy = 'ONCE' | 'SKIP';
+export type RunTrigger = 'schedule' | 'catch-up' | 'manual';
+export type RunStatus = JobStatus | 'skipped';
+
+export interface ScheduleParams {
+  storeId?: string;
+  storeIds?: string[];
+  region?: string;
+  country?: string;
+  horizonMonths?: number;
+  regenerate?: boolean;
+  model?: 'gpt-5.2' | 'gpt-5-mini';
+  analysisType?: string;
+  categories?: string[];
+  /** Franchisee status to rescore, e.g. ACTIVE; all franchisees when omitted */
+  status?: string;
+}
+
+export interface ScheduleDefinition {
+  name: string;
+  kind: ScheduleKind;
+  cron: string;
+  timezone?: string;
+  params?: ScheduleParams;
+  enabled?: boolean;
+  catchUp?: CatchUpPolicy;
+  monthlyBudgetUsd?: number | null;
+}
+
+export type ScheduleView = Omit<ScheduledJob, 'params'> & {
+  params: ScheduleParams;
+  upcomingRuns: Date[];
+  lastRun: ScheduledJobRun | null;
+  /** Estimated LLM spend of this month's runs; null for kinds that make no LLM calls */
+  monthToDateUsd: number | null;
+};
+
+interface RunOutcome {
+  status: RunStatus;
+  jobType?: JobType;
+  jobId?: string;
+  message?: string;
+}
+
+/** Params each kind accepts; anything else is rejected rather than silently ignored */
+const KIND_PARAMS: Record<ScheduleKind, (keyof ScheduleParams)[]> = {
+  forecast: ['storeId', 'region', 'country', 'horizonMonths', 'regenerate'],
+  'store-analysis': ['region', 'storeIds', 'model', 'analysisType'],
+  'competitor-refresh': ['region', 'country', 'categories'],
+  'franchisee-scores': ['status'],
+  'store-anomalies': ['storeIds', 'region', 'country'],
+  'royalty-statements': [],
+};
+
+/** Kinds whose jobs record LLM tokens, so monthly budgets apply */
+const TOKEN_KINDS: ScheduleKind[] = ['forecast', 'store-analysis'];
+
+const ACTIVE_RUN_STATUSES: RunStatus[] = ['queued', 'running'];
+const DEFAULT_POLL_INTERVAL_MS = 30_000;
+/** Slots first seen this long after they fell due count as missed, i.e. no scheduler was running */
+const MISSED_AFTER_MS = 5 * 60_000;
+/** Upper bound on missed slots counted after a long outage */
+const MAX_MISSED_SLOTS = 1000;
+/** Same rough rate AIIntelligenceControllerService uses to turn tokens into spend */
+const USD_PER_MILLION_TOKENS = 0.5;
+
+/**
+ * Recurring jobs defined by admins. Each schedule has a cron expression in
+ * its own timezone; when a slot falls due the scheduler enqueues the work on
+ * the job queue (forecasts, store analysis, competitor refreshes) or runs it
+ * in place (franchisee rescoring, store anomaly scans, royalty statements) and records a
+ * ScheduledJobRun. Due slots are claimed by moving nextRunAt on with a
+ * compare-and-set, so every BFF replica can poll without firing a slot twice. Slots missed while no
+ * scheduler was running are caught up once or skipped, per schedule.
+ */
+@Injectable()
+export class ScheduledJobService {
+  private readonly logger = new Logger(ScheduledJobService.name);
+  private pollingInterval: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private readonly pollIntervalMs = parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || `${DEFAULT_POLL_INTERVAL_MS}`, 10);
+
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly queue: JobQueueService,
+    private readonly forecastJobs: ForecastJobHandler,
+    private readonly storeAnalysisJobs: StoreAnalysisJobHandler,
+    private readonly competitorRefreshJobs: CompetitorRefreshJobHandler,
+    private readonly franchisees: FranchiseeService,
+    private readonly franchiseeAnalytics: FranchiseeAnalyticsService,
+    private readonly aiControl: AIIntelligenceControllerService,
+    private readonly storeAlerts: StoreAlertService,
+    private readonly menuVersions: MenuVersionService,
+    private readonly royalties: RoyaltyService,
+  ) {}
+
+  start(): void {
+    if (this.pollingInterval) return;
+
+    this.pollingInterval = setInterval(() => {
+      void this.tick();
+    }, this.pollIntervalMs);
+    this.logger.log(`✅ Scheduler polling every ${this.pollIntervalMs}ms`);
+  }
+
+  stop(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+  }
+
+  /**
+   * One polling pass: refresh the status of runs still on the queue, fire due
+   * schedules, then publish menu rollouts whose go-live time has come
+   */
+  async tick(now = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      await this.syncRuns();
+
+      const due = await this.prisma.scheduledJob.findMany({
+        where: { enabled: true, nextRunAt: { lte: now } },
+        orderBy: { nextRunAt: 'asc' },
+      });
+      for (const schedule of due) {
+        await this.fire(schedule, now);
+      }
+
+      await this.menuVersions.applyDueRollouts(now);
+    } catch (error) {
+      this.logger.error('Error in scheduler loop:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async list(now = new Date()): Promise<ScheduleView[]> {
+    const schedules = await this.prisma.scheduledJob.findMany({
+      include: { runs: { orderBy: { startedAt: 'desc' }, take: 1 } },
+      orderBy: { name: 'asc' },
+    });
+    const spend = await this.monthToDateUsd(schedules.map((schedule) => schedule.id), now);
+
+    return schedules.map(({ runs, ...schedule }) => this.toView(schedule, runs[0] ?? null, spend, now));
+  }
+
+  async get(id: string, now = new Date()): Promise<ScheduleView> {
+    const schedule = await this.find(id);
+    const lastRun = await this.prisma.scheduledJobRun.findFirst({
+      where: { scheduleId: id },
+      orderBy: { startedAt: 'desc' },
+    });
+    return this.toView(schedule, lastRun, await this.monthToDateUsd([id], now), now);
+  }
+
+  async runs(id: string, limit = 50): Promise<ScheduledJobRun[]> {
+    await this.find(id);
+    return this.prisma.scheduledJobRun.findMany({
+      where: { scheduleId: id },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /** Next run times for a cron expression, so the settings form can show what it means before saving */
+  preview(cron: string, timezone = DEFAULT_TIMEZONE, count = 5, now = new Date()): { cron: string; timezone: string; upcomingRuns: Date[] } {
+    this.validateTimezone(timezone);
+    const expression = this.parseCron(cron, timezone, now);
+    return { cron: expression.source, timezone, upcomingRuns: expression.upcoming(now, timezone, count) };
+  }
+
+  async create(definition: ScheduleDefinition, actor: string, now = new Date()): Promise<ScheduleView> {
+    const data = this.validate(definition, now);
+
+    const schedule = await this.prisma.scheduledJob.create({
+      data: { ...data, createdBy: actor },
+    });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'ScheduledJob',
+      entityId: schedule.id,
+      action: 'CREATE',
+      newData: this.auditData(schedule),
+    });
+
+    return this.get(schedule.id, now);
+  }
+
+  /**
+   * Replaces a schedule's definition. nextRunAt is only recomputed when the
+   * timing changes, so an edit does not drop a slot that is already due.
+   */
+  async update(id: string, definition: ScheduleDefinition, actor: string, now = new Date()): Promise<ScheduleView> {
+    const existing = await this.find(id);
+    const data = this.validate(definition, now);
+
+    const timingChanged =
+      data.cron !== existing.cron ||
+      data.timezone !== existing.timezone ||
+      data.enabled !== existing.enabled ||
+      existing.nextRunAt === null;
+
+    const schedule = await this.prisma.scheduledJob.update({
+      where: { id },
+      data: { ...data, nextRunAt: timingChanged ? data.nextRunAt : existing.nextRunAt },
+    });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'ScheduledJob',
+      entityId: id,
+      action: 'UPDATE',
+      oldData: this.auditData(existing),
+      newData: this.auditData(schedule),
+    });
+
+    return this.get(id, now);
+  }
+
+  async delete(id: string, actor: string): Promise<void> {
+    const existing = await this.find(id);
+    await this.prisma.scheduledJob.delete({ where: { id } });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'ScheduledJob',
+      entityId: id,
+      action: 'DELETE',
+      oldData: this.auditData(existing),
+    });
+  }
+
+  /** Runs a schedule straight away without moving its next slot; cost caps still apply */
+  async runNow(id: string, actor: string, now = new Date()): Promise<ScheduledJobRun> {
+    const schedule = await this.find(id);
+    const run = await this.run(schedule, now, 'manual', actor);
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'ScheduledJob',
+      entityId: id,
+      action: 'RUN',
+      newData: { runId: run.id, status: run.status, jobId: run.jobId },
+    });
+
+    return run;
+  }
+
+  private async fire(schedule: ScheduledJob, now: Date): Promise<void> {
+    let expression: CronExpression;
+    try {
+      expression = CronExpression.parse(schedule.cron);
+    } catch {
+      this.logger.error(`Schedule ${schedule.id} has an invalid cron expression "${schedule.cron}"; disabling it`);
+      await this.prisma.scheduledJob.update({ where: { id: schedule.id }, data: { enabled: false, nextRunAt: null } });
+      return;
+    }
+
+    // Claim the due slot by moving nextRunAt on; a replica that loses the race updates nothing
+    const claimed = await this.prisma.scheduledJob.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt: expression.next(now, schedule.timezone) },
+    });
+    if (claimed.count === 0) return;
+
+    // Every slot from the one that fell due up to now
+    const slots = [schedule.nextRunAt as Date];
+    let next = expression.next(slots[0], schedule.timezone);
+    while (next && next <= now && slots.length < MAX_MISSED_SLOTS) {
+      slots.push(next);
+      next = expression.next(next, schedule.timezone);
+    }
+
+    const latest = slots[slots.length - 1];
+    const onTime = now.getTime() - latest.getTime() < MISSED_AFTER_MS;
+    const missed = onTime ? slots.length - 1 : slots.length;
+
+    try {
+      if (onTime) {
+        await this.run(schedule, latest, 'schedule');
+      } else if (schedule.catchUp === 'ONCE') {
+        this.logger.log(`⏰ Schedule "${schedule.name}": catching up ${missed} missed run(s) with one run`);
+        await this.run(schedule, latest, 'catch-up');
+      } else {
+        await this.record(schedule, latest, 'catch-up', {
+          status: 'skipped',
+          message: `Skipped ${missed} run(s) missed while no scheduler was running`,
+        });
+      }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        this.logger.warn(`Schedule ${schedule.id}: slot ${latest.toISOString()} already has a run`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async run(schedule: ScheduledJob, scheduledFor: Date, trigger: RunTrigger, actor?: string): Promise<ScheduledJobRun> {
+    const outcome = await this.dispatch(schedule, scheduledFor);
+    this.logger.log(`⏰ Schedule "${schedule.name}" (${trigger}): ${outcome.status}${outcome.message ? ` - ${outcome.message}` : ''}`);
+
+    return this.record(schedule, scheduledFor, trigger, outcome, actor);
+  }
+
+  private async record(
+    schedule: ScheduledJob,
+    scheduledFor: Date,
+    trigger: RunTrigger,
+    outcome: RunOutcome,
+    actor?: string,
+  ): Promise<ScheduledJobRun> {
+    const finished = !ACTIVE_RUN_STATUSES.includes(outcome.status);
+
+    const run = await this.prisma.scheduledJobRun.create({
+      data: {
+        scheduleId: schedule.id,
+        scheduledFor,
+        trigger,
+        status: outcome.status,
+        jobType: outcome.jobType,
+        jobId: outcome.jobId,
+        message: outcome.message,
+        actor,
+        completedAt: finished ? new Date() : null,
+      },
+    });
+    await this.prisma.scheduledJob.update({ where: { id: schedule.id }, data: { lastRunAt: run.startedAt } });
+
+    return run;
+  }
+
+  private async dispatch(schedule: ScheduledJob, scheduledFor: Date): Promise<RunOutcome> {
+    const kind = schedule.kind as ScheduleKind;
+    const params = this.parseParams(schedule.params);
+
+    const blocked = await this.costBlock(schedule, kind);
+    if (blocked) {
+      return { status: 'skipped', message: blocked };
+    }
+
+    try {
+      switch (kind) {
+        case 'forecast': {
+          const job = await this.forecastJobs.enqueue(params);
+          return this.enqueued(schedule, 'forecast', job.id);
+        }
+        case 'store-analysis': {
+          // Keyed on the slot so a retried dispatch cannot queue the same analysis twice
+          const job = await this.storeAnalysisJobs.enqueue(
+            params,
+            schedule.createdBy,
+            `schedule:${schedule.id}:${scheduledFor.toISOString()}`,
+          );
+          return this.enqueued(schedule, 'store-analysis', job.id);
+        }
+        case 'competitor-refresh': {
+          const job = await this.competitorRefreshJobs.enqueue(params);
+          return this.enqueued(schedule, 'competitor-refresh', job.id);
+        }
+        case 'franchisee-scores':
+          return await this.rescoreFranchisees(params);
+        case 'store-anomalies': {
+          const scan = await this.storeAlerts.scan(params);
+          return {
+            status: 'completed',
+            message: `Scanned ${scan.storesScanned} stores: ${scan.raised} alerts raised, ${scan.updated} updated, ${scan.resolved} resolved`,
+          };
+        }
+        case 'royalty-statements':
+          return await this.draftRoyaltyStatements(schedule, scheduledFor);
+        default:
+          return { status: 'failed', message: `Unknown schedule kind "${schedule.kind}"` };
+      }
+    } catch (error) {
+      return { status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async enqueued(schedule: ScheduledJob, jobType: JobType, jobId: string): Promise<RunOutcome> {
+    await this.queue.recordEvent(jobType, jobId, 'scheduled', { message: `Enqueued by schedule "${schedule.name}"` });
+    return { status: 'queued', jobType, jobId };
+  }
+
+  /**
+   * Store analysis follows the AI intelligence controls: it only runs while
+   * continuous intelligence is on and the global AI cost limits allow it.
+   * Kinds that spend tokens also stop at the schedule's own monthly budget.
+   */
+  private async costBlock(schedule: ScheduledJob, kind: ScheduleKind): Promise<string | null> {
+    if (!TOKEN_KINDS.includes(kind)) return null;
+
+    if (kind === 'store-analysis') {
+      const permission = await this.aiControl.canRunAnalysis('continuous');
+      if (!permission.allowed) {
+        return permission.reason ?? 'AI analysis is not allowed';
+      }
+    }
+
+    if (schedule.monthlyBudgetUsd !== null) {
+      const spent = (await this.monthToDateUsd([schedule.id], new Date())).get(schedule.id) ?? 0;
+      if (spent >= schedule.monthlyBudgetUsd) {
+        return `Monthly budget of $${schedule.monthlyBudgetUsd.toFixed(2)} reached ($${spent.toFixed(2)} spent)`;
+      }
+    }
+    return null;
+  }
+
+  /** Recalculates portfolio metrics and scores for each franchisee; one failure does not stop the rest */
+  private async rescoreFranchisees(params: ScheduleParams): Promise<RunOutcome> {
+    const franchisees = await this.prisma.franchisee.findMany({
+      where: params.status ? { status: params.status } : undefined,
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    });
+
+    let failed = 0;
+    for (const { id } of franchisees) {
+      try {
+        await this.franchisees.recalculateMetrics(id);
+        await this.franchiseeAnalytics.recalculateScores(id);
+      } catch (error) {
+        failed++;
+        this.logger.warn(`   Failed to rescore franchisee ${id}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const rescored = franchisees.length - failed;
+    const message = `Rescored ${rescored} of ${franchisees.length} franchisees${failed > 0 ? `; ${failed} failed` : ''}`;
+    return { status: franchisees.length > 0 && rescored === 0 ? 'failed' : 'completed', message };
+  }
+
+  /** Drafts statements for the month that has just closed; franchisees already issued for it are skipped */
+  private async draftRoyaltyStatements(schedule: ScheduledJob, scheduledFor: Date): Promise<RunOutcome> {
+    const { period, franchisees, statements, skipped, failed } = await this.royalties.generateAll(
+      previousPeriod(scheduledFor),
+      schedule.createdBy,
+    );
+
+    const message = `Drafted ${statements} ${period} statements for ${franchisees} franchisees`
+      + `${skipped > 0 ? `; ${skipped} already issued` : ''}${failed > 0 ? `; ${failed} failed` : ''}`;
+    return { status: franchisees > 0 && failed === franchisees ? 'failed' : 'completed', message };
+  }
+
+  /** Copies the status, error and token use of finished queue jobs onto their runs */
+  private async syncRuns(): Promise<void> {
+    const active = await this.prisma.scheduledJobRun.findMany({
+      where: { status: { in: ACTIVE_RUN_STATUSES }, jobId: { not: null } },
+      orderBy: { startedAt: 'asc' },
+      take: 100,
+    });
+
+    for (const run of active) {
+      const jobType = run.jobType as JobType;
+      let status: RunStatus;
+      let error: string | null;
+      let completedAt: Date | null;
+      try {
+        ({ status, error, completedAt } = await this.queue.getJob(jobType, run.jobId as string));
+      } catch (lookupError) {
+        if (!(lookupError instanceof NotFoundException)) throw lookupError;
+        ({ status, error, completedAt } = { status: 'failed', error: 'Job no longer exists', completedAt: new Date() });
+      }
+      if (status === run.status) continue;
+
+      await this.prisma.scheduledJobRun.update({
+        where: { id: run.id },
+        data: {
+          status,
+          message: error ?? run.message,
+          completedAt,
+          tokensUsed: ACTIVE_RUN_STATUSES.includes(status) ? null : await this.jobTokens(jobType, run.jobId as string),
+        },
+      });
+    }
+  }
+
+  private async jobTokens(type: JobType, id: string): Promise<number | null> {
+    if (type === 'forecast') {
+      return (await this.prisma.forecastJob.findUnique({ where: { id }, select: { tokensUsed: true } }))?.tokensUsed ?? null;
+    }
+    if (type === 'store-analysis') {
+      return (await this.prisma.storeAnalysisJob.findUnique({ where: { id }, select: { tokensUsed: true } }))?.tokensUsed ?? null;
+    }
+    return null;
+  }
+
+  /** Estimated spend per schedule from the tokens of runs started this calendar month (UTC) */
+  private async monthToDateUsd(scheduleIds: string[], now: Date): Promise<Map<string, number>> {
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const totals = await this.prisma.scheduledJobRun.groupBy({
+      by: ['scheduleId'],
+      where: { scheduleId: { in: scheduleIds }, startedAt: { gte: monthStart } },
+      _sum: { tokensUsed: true },
+    });
+
+    return new Map(totals.map((total) => [
+      total.scheduleId,
+      ((total._sum.tokensUsed ?? 0) / 1_000_000) * USD_PER_MILLION_TOKENS,
+    ]));
+  }
+
+  private async find(id: string): Promise<ScheduledJob> {
+    const schedule = await this.prisma.scheduledJob.findUnique({ where: { id } });
+    if (!schedule) {
+      throw new NotFoundException('Scheduled job not found');
+    }
+    return schedule;
+  }
+
+  private validate(definition: ScheduleDefinition, now: Date) {
+    const timezone = definition.timezone ?? DEFAULT_TIMEZONE;
+    this.validateTimezone(timezone);
+    const expression = this.parseCron(definition.cron, timezone, now);
+
+    if (!SCHEDULE_KINDS.includes(definition.kind)) {
+      throw new BadRequestException(`kind must be one of ${SCHEDULE_KINDS.join(', ')}`);
+    }
+
+    const params = definition.params ?? {};
+    const allowed = KIND_PARAMS[definition.kind];
+    const unsupported = (Object.keys(params) as (keyof ScheduleParams)[])
+      .filter((key) => params[key] !== undefined && !allowed.includes(key));
+    if (unsupported.length > 0) {
+      throw new BadRequestException(`${unsupported.join(', ')} cannot be set on ${definition.kind} schedules`);
+    }
+    if (definition.kind === 'store-analysis' && !params.region && !params.storeIds?.length) {
+      throw new BadRequestException('Store analysis schedules need a region or storeIds');
+    }
+
+    const monthlyBudgetUsd = definition.monthlyBudgetUsd ?? null;
+    if (monthlyBudgetUsd !== null && !TOKEN_KINDS.includes(definition.kind)) {
+      throw new BadRequestException(`${definition.kind} schedules make no LLM calls, so they cannot have a budget`);
+    }
+
+    const enabled = definition.enabled ?? true;
+    return {
+      name: definition.name.trim(),
+      kind: definition.kind,
+      cron: expression.source,
+      timezone,
+      params: JSON.stringify(params),
+      enabled,
+      catchUp: definition.catchUp ?? 'ONCE',
+      monthlyBudgetUsd,
+      nextRunAt: enabled ? expression.next(now, timezone) : null,
+    };
+  }
+
+  private parseCron(cron: string, timezone: string, now: Date): CronExpression {
+    let expression: CronExpression;
+    try {
+      expression = CronExpression.parse(cron);
+    } catch (error) {
+      if (error instanceof CronSyntaxError) {
+        throw new BadRequestException(`Invalid cron expression: ${error.message}`);
+      }
+      throw error;
+    }
+
+    if (!expression.next(now, timezone)) {
+      throw new BadRequestException(`Cron expression "${cron}" never fires`);
+    }
+    return expression;
+  }
+
+  private validateTimezone(timezone: string): void {
+    if (!isValidTimezone(timezone)) {
+      throw new BadRequestException(`Unknown timezone "${timezone}"`);
+    }
+  }
+
+  private parseParams(params: string): ScheduleParams {
+    try {
+      return JSON.parse(params) as ScheduleParams;
+    } catch {
+      return {};
+    }
+  }
+
+  private toView(schedule: ScheduledJob, lastRun: ScheduledJobRun | null, spend: Map<string, number>, now: Date): ScheduleView {
+    const kind = schedule.kind as ScheduleKind;
+
+    let upcomingRuns: Date[] = [];
+    if (schedule.enabled) {
+      try {
+        upcomingRuns = CronExpression.parse(schedule.cron).upcoming(now, schedule.timezone, 5);
+      } catch {
+        // Invalid expressions are disabled by the scheduler on their next slot
+      }
+    }
+
+    return {
+      ...schedule,
+      params: this.parseParams(schedule.params),
+      upcomingRuns,
+      lastRun,
+      monthToDateUsd: TOKEN_KINDS.includes(kind) ? spend.get(schedule.id) ?? 0 : null,
+    };
+  }
+
+  private auditData(schedule: ScheduledJob) {
+    return {
+      name: schedule.name,
+      kind: schedule.kind,
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+      params: this.parseParams(schedule.params),
+      enabled: schedule.enabled,
+      catchUp: schedule.catchUp,
+      monthlyBudgetUsd: schedule.monthlyBudgetUsd,
+    };
+  }
+}
@@ -0,0 +1,442 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import {
+  CandidateStatus,
+  CompetitorLocation,
+  CounterfactualAnalysis,
+  CountryConfig,
+  DEFAULT_WEIGHTS,
+  ExistingStore,
+  FeatureService,
+  GRID_CONSTANTS,
+  GridService,
+  H3Cell,
+  LocationCandidate,
+  LocationGeneratorAPI,
+  PopulationGrid,
+  ScoringService,
+  StabilityAnalysis,
+} from '@subway/location-generator';
+
+const OPEN_STATUSES = ['OPEN', 'Open', 'open'];
+// Backtest grid is coarsened until it fits, finest first
+const BACKTEST_RESOLUTIONS = [6, 5, 4];
+const MAX_GRID_CELLS = 4000;
+const BOUNDS_PADDING_DEG = 0.1;
+
+export interface GeneratorContext {
+  country: string;
+  stores: ExistingStore[];
+  competitors: CompetitorLocation[];
+  populationData: PopulationGrid;
+  config: CountryConfig;
+}
+
+/** A proposed site to score: an ExpansionJob.result suggestion or a saved ExpansionSuggestion */
+export interface GeneratorSite {
+  id: string;
+  lat: number;
+  lng: number;
+  region?: string;
+  country?: string;
+}
+
+export interface GeneratorBacktestOptions {
+  country: string;
+  /** Stores opened on or after this date are held out and must be predicted */
+  openedSince: Date;
+  targetK?: number;
+  distanceThresholdKm?: number;
+}
+
+export interface GeneratorBacktestReport {
+  country: string;
+  openedSince: string;
+  trainingStores: number;
+  heldOutStores: number;
+  gridResolution: number;
+  candidatesEvaluated: number;
+  metrics: {
+    hitRate: number;
+    medianDistanceKm: number | null;
+    coverageUplift: number;
+    precision: number;
+    recall: number;
+  };
+  passed: boolean;
+  openings: Array<{ storeId: string; name: string; nearestPredictionKm: number | null; hit: boolean }>;
+  recommendations: string[];
+}
+
+export interface ParetoFrontierReport {
+  jobId: string;
+  candidates: number;
+  frontier: Array<{ k: number; roi: number; risk: number; coverage: number; isKnee: boolean; siteIds: string[] }>;
+  knee: { k: number; roi: number; risk: number; coverage: number } | null;
+  dominated: Array<{ k: number; roi: number; risk: number; coverage: number }>;
+}
+
+export interface StabilityReport {
+  jobId: string;
+  targetK: number;
+  iterations: number;
+  overallStability: number;
+  stableSites: number;
+  unstableSites: number;
+  sites: StabilityAnalysis[];
+  recommendedActions: string[];
+}
+
+export interface CounterfactualReport {
+  jobId: string;
+  targetRank: number;
+  sites: Array<CounterfactualAnalysis & { lat: number; lng: number }>;
+}
+
+/**
+ * Runs the location-generator package's diagnostics (holdout backtest, Pareto
+ * frontier, weight-jitter stability, counterfactuals) against our stores and
+ * the suggestions of a completed expansion job.
+ */
+@Injectable()
+export class GeneratorAnalysisService {
+  private readonly api = new LocationGeneratorAPI();
+  private readonly features = new FeatureService();
+  private readonly scoring = new ScoringService();
+  private readonly grid = new GridService();
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  /**
+   * Hold out stores opened since the cutoff, score a national grid against the
+   * stores that existed before it, and check whether the generator's top sites
+   * land near the real openings.
+   */
+  async backtest(options: GeneratorBacktestOptions): Promise<GeneratorBacktestReport> {
+    const { country, openedSince } = options;
+    const rows = await this.loadStoreRows(country);
+
+    const heldOutRows = rows.filter((row) => row.openedAt && row.openedAt >= openedSince);
+    const trainingRows = rows.filter((row) => !row.openedAt || row.openedAt < openedSince);
+    if (heldOutRows.length === 0) {
+      throw new BadRequestException(`No stores in ${country} opened since ${openedSince.toISOString().slice(0, 10)}`);
+    }
+    if (trainingRows.length === 0) {
+      throw new BadRequestException(`No stores in ${country} opened before ${openedSince.toISOString().slice(0, 10)}`);
+    }
+
+    const heldOut = heldOutRows.map((row) => this.toExistingStore(row));
+    const context = await this.loadContext(country, trainingRows.map((row) => this.toExistingStore(row)), heldOut);
+    const { cells, resolution } = this.backtestGrid(context.config);
+    const candidates = this.buildCandidates(cells, context);
+
+    const distanceThreshold = options.distanceThresholdKm ?? 5;
+    const result = await this.api.runHoldoutBacktest(context.stores, heldOut, candidates, context.config, {
+      targetK: options.targetK ?? heldOut.length,
+      distanceThreshold,
+    });
+
+    const openings = heldOut.map((store) => {
+      const nearest = this.nearestKm(store, result.predictions);
+      return {
+        storeId: store.id,
+        name: store.name,
+        nearestPredictionKm: nearest,
+        hit: nearest !== null && nearest <= distanceThreshold,
+      };
+    });
+
+    return {
+      country,
+      openedSince: openedSince.toISOString(),
+      trainingStores: context.stores.length,
+      heldOutStores: heldOut.length,
+      gridResolution: resolution,
+      candidatesEvaluated: candidates.length,
+      metrics: {
+        ...result.metrics,
+        // Infinity when nothing was predicted; not representable in JSON
+        medianDistanceKm: Number.isFinite(result.metrics.medianDistance) ? result.metrics.medianDistance : null,
+      },
+      passed: result.validation.passed,
+      openings,
+      recommendations: result.recommendations,
+    };
+  }
+
+  /** Store count vs ROI/risk trade-off over the job's suggestions */
+  async paretoFrontier(jobId: string, minK?: number, maxK?: number): Promise<ParetoFrontierReport> {
+    const { context, candidates } = await this.loadJobCandidates(jobId);
+    const upper = Math.min(maxK ?? candidates.length, candidates.length);
+    const lower = Math.min(minK ?? 5, upper);
+
+    const { frontier, kneePoint, dominated } = await this.api.generateParetoFrontier(
+      candidates,
+      { country: context.config },
+      context.stores,
+      { minK: lower, maxK: upper },
+    );
+
+    const summarize = (point: { k: number; roi: number; risk: number; coverage: number }) => ({
+      k: point.k,
+      roi: point.roi,
+      risk: point.risk,
+      coverage: point.coverage,
+    });
+
+    return {
+      jobId,
+      candidates: candidates.length,
+      frontier: frontier
+        .map((point) => ({ ...summarize(point), isKnee: point.isKnee, siteIds: point.portfolio.map((site) => site.id) }))
+        .sort((a, b) => a.k - b.k),
+      knee: kneePoint ? summarize(kneePoint) : null,
+      dominated: dominated.map(summarize).sort((a, b) => a.k - b.k),
+    };
+  }
+
+  /** How often each suggested site stays selected when the scoring weights are jittered ±10% */
+  async stability(jobId: string, targetK?: number, iterations = 50): Promise<StabilityReport> {
+    const { context, candidates } = await this.loadJobCandidates(jobId);
+    const k = Math.min(targetK ?? 20, candidates.length);
+
+    const result = await this.api.analyzeStability(
+      candidates,
+      DEFAULT_WEIGHTS,
+      { country: context.config, existingStores: context.stores, targetK: k },
+      iterations,
+    );
+
+    return {
+      jobId,
+      targetK: k,
+      iterations,
+      overallStability: result.overallStability,
+      stableSites: result.stableSites,
+      unstableSites: result.unstableSites,
+      sites: result.siteAnalyses,
+      recommendedActions: result.recommendedActions,
+    };
+  }
+
+  /**
+   * What would need to change for sites outside the top 20 to make it. With a
+   * site id only that site is analysed, whatever its rank.
+   */
+  async counterfactuals(jobId: string, siteId?: string): Promise<CounterfactualReport> {
+    const { candidates } = await this.loadJobCandidates(jobId);
+    const ranked = this.scoring.rankCandidates(candidates);
+    const targetRank = 20;
+
+    const sites = siteId ? ranked.filter((candidate) => candidate.id === siteId) : ranked.slice(targetRank);
+    if (siteId && sites.length === 0) {
+      throw new NotFoundException(`Site ${siteId} is not part of expansion job ${jobId}`);
+    }
+
+    return {
+      jobId,
+      targetRank,
+      sites: sites.map((site) => ({
+        ...this.api.generateCounterfactuals(site, ranked, DEFAULT_WEIGHTS, 'top_20'),
+        lat: site.lat,
+        lng: site.lng,
+      })),
+    };
+  }
+
+  /**
+   * Score proposed sites against the open stores, competitors and cached
+   * demographics of a country, as candidates for the package's analyses.
+   */
+  async analyzeSites(
+    country: string,
+    sites: GeneratorSite[],
+  ): Promise<{ context: GeneratorContext; candidates: LocationCandidate[] }> {
+    const rows = await this.loadStoreRows(country);
+    const context = await this.loadContext(
+      country,
+      rows.map((row) => this.toExistingStore(row)),
+      sites,
+    );
+
+    const cells: H3Cell[] = sites.map((site) => ({
+      index: site.id,
+      lat: site.lat,
+      lng: site.lng,
+      resolution: GRID_CONSTANTS.DEFAULT_RESOLUTION,
+    }));
+    const regions = new Map(sites.map((site) => [site.id, site.region]));
+
+    return {
+      context,
+      candidates: this.buildCandidates(cells, context).map((candidate) => ({
+        ...candidate,
+        administrativeRegion: regions.get(candidate.id) || candidate.administrativeRegion,
+      })),
+    };
+  }
+
+  private async loadJobCandidates(jobId: string): Promise<{ context: GeneratorContext; candidates: LocationCandidate[] }> {
+    const job = await this.prisma.expansionJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new NotFoundException(`Expansion job ${jobId} not found`);
+    }
+    if (job.status !== 'completed' || !job.result) {
+      throw new BadRequestException(`Expansion job ${jobId} has no results (status: ${job.status})`);
+    }
+
+    const suggestions: GeneratorSite[] = JSON.parse(job.result).suggestions ?? [];
+    if (suggestions.length === 0) {
+      throw new BadRequestException(`Expansion job ${jobId} produced no suggestions`);
+    }
+
+    const params = JSON.parse(job.params) as { region?: { country?: string } };
+    return this.analyzeSites(params.region?.country || suggestions[0].country || 'Germany', suggestions);
+  }
+
+  private async loadStoreRows(country: string) {
+    const rows = await this.prisma.store.findMany({
+      where: {
+        country,
+        latitude: { not: null },
+        longitude: { not: null },
+        OR: [{ status: { in: OPEN_STATUSES } }, { status: null }],
+      },
+      select: { id: true, name: true, latitude: true, longitude: true, annualTurnover: true, openedAt: true },
+    });
+    if (rows.length === 0) {
+      throw new BadRequestException(`No open stores with coordinates in ${country}`);
+    }
+    return rows;
+  }
+
+  private toExistingStore(row: {
+    id: string;
+    name: string;
+    latitude: number | null;
+    longitude: number | null;
+    annualTurnover: number | null;
+  }): ExistingStore {
+    return {
+      id: row.id,
+      name: row.name,
+      lat: row.latitude!,
+      lng: row.longitude!,
+      turnover: row.annualTurnover ?? undefined,
+    };
+  }
+
+  /**
+   * Competitors and cached demographics inside the bounding box of the given
+   * points, which also becomes the country boundary for the constraints.
+   */
+  private async loadContext(
+    country: string,
+    stores: ExistingStore[],
+    extraPoints: Array<{ lat: number; lng: number }>,
+  ): Promise<GeneratorContext> {
+    const points = [...stores, ...extraPoints];
+    const bounds = {
+      minLat: Math.min(...points.map((p) => p.lat)) - BOUNDS_PADDING_DEG,
+      maxLat: Math.max(...points.map((p) => p.lat)) + BOUNDS_PADDING_DEG,
+      minLng: Math.min(...points.map((p) => p.lng)) - BOUNDS_PADDING_DEG,
+      maxLng: Math.max(...points.map((p) => p.lng)) + BOUNDS_PADDING_DEG,
+    };
+
+    const [competitors, demographics] = await Promise.all([
+      this.prisma.competitorPlace.findMany({
+        where: {
+          latitude: { gte: bounds.minLat, lte: bounds.maxLat },
+          longitude: { gte: bounds.minLng, lte: bounds.maxLng },
+        },
+        select: { latitude: true, longitude: true },
+      }),
+      this.prisma.demographicCache.findMany({
+        where: {
+          population: { not: null },
+          lat: { gte: bounds.minLat, lte: bounds.maxLat },
+          lng: { gte: bounds.minLng, lte: bounds.maxLng },
+        },
+        select: { lat: true, lng: true, population: true },
+      }),
+    ]);
+
+    return {
+      country,
+      stores,
+      competitors: competitors.map((c) => ({ lat: c.latitude, lng: c.longitude })),
+      populationData: {
+        cells: demographics.map((d) => ({ lat: d.lat, lng: d.lng, population: d.population! })),
+        resolution: 0,
+        dataSource: 'demographic-cache',
+      },
+      config: {
+        countryCode: country,
+        boundary: {
+          type: 'Polygon',
+          coordinates: [[
+            [bounds.minLng, bounds.minLat],
+            [bounds.maxLng, bounds.minLat],
+            [bounds.maxLng, bounds.maxLat],
+            [bounds.minLng, bounds.maxLat],
+            [bounds.minLng, bounds.minLat],
+          ]],
+        },
+        administrativeRegions: [],
+        majorMetropolitanAreas: [],
+        maxRegionShare: 0.4,
+      },
+    };
+  }
+
+  private backtestGrid(config: CountryConfig): { cells: H3Cell[]; resolution: number } {
+    for (const resolution of BACKTEST_RESOLUTIONS) {
+      const cells = this.grid.generateCountryGrid(config.boundary, resolution);
+      if (cells.length <= MAX_GRID_CELLS) {
+        return { cells, resolution };
+      }
+    }
+    throw new BadRequestException('Region is too large to backtest');
+  }
+
+  /** Score cells the way the generator's national sweep does, without AI */
+  private buildCandidates(cells: H3Cell[], context: GeneratorContext): LocationCandidate[] {
+    const analysisContext = {
+      existingStores: context.stores,
+      competitors: context.competitors,
+      populationData: context.populationData,
+      anchors: [],
+      countryBoundary: context.config.boundary,
+    };
+    const populationKnown = context.populationData.cells.length > 0;
+    const dataQuality = {
+      completeness: populationKnown ? 0.8 : 0.6,
+      estimated: { population: !populationKnown, anchors: true, travelTime: true },
+      confidence: populationKnown ? 0.8 : 0.6,
+    };
+
+    const candidates: LocationCandidate[] = cells.map((cell) => {
+      const features = this.features.computeBasicFeatures(cell, analysisContext);
+      return {
+        id: cell.index,
+        lat: cell.lat,
+        lng: cell.lng,
+        h3Index: cell.index,
+        administrativeRegion: context.country,
+        features,
+        scores: this.scoring.calculateScores(features, DEFAULT_WEIGHTS, dataQuality),
+        constraints: { spacingOk: false, stateShareOk: false },
+        dataQuality,
+        status: CandidateStatus.HOLD,
+      };
+    });
+
+    return this.scoring.rankCandidates(this.scoring.normalizeScores(candidates));
+  }
+
+  private nearestKm(store: ExistingStore, predictions: LocationCandidate[]): number | null {
+    if (predictions.length === 0) return null;
+    const predicted = predictions.map((p) => ({ id: p.id, name: p.id, lat: p.lat, lng: p.lng }));
+    return this.features.calculateNearestBrandDistance(store.lat, store.lng, predicted);
+  }
+}
@@ -0,0 +1,264 @@
+import { countryCode } from '../hours/public-holidays';
+
+/** The 14 allergens EU Regulation 1169/2011 (and UK law) require to be declared */
+export const EU_ALLERGENS = [
+  'CELERY',
+  'GLUTEN',
+  'CRUSTACEANS',
+  'EGGS',
+  'FISH',
+  'LUPIN',
+  'MILK',
+  'MOLLUSCS',
+  'MUSTARD',
+  'TREE_NUTS',
+  'PEANUTS',
+  'SESAME',
+  'SOYA',
+  'SULPHITES',
+] as const;
+export type Allergen = typeof EU_ALLERGENS[number];
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  CELERY: 'Celery',
+  GLUTEN: 'Cereals containing gluten',
+  CRUSTACEANS: 'Crustaceans',
+  EGGS: 'Eggs',
+  FISH: 'Fish',
+  LUPIN: 'Lupin',
+  MILK: 'Milk',
+  MOLLUSCS: 'Molluscs',
+  MUSTARD: 'Mustard',
+  TREE_NUTS: 'Tree nuts',
+  PEANUTS: 'Peanuts',
+  SESAME: 'Sesame',
+  SOYA: 'Soya',
+  SULPHITES: 'Sulphur dioxide and sulphites',
+};
+
+/** Nutrition per serving: energy in kcal and kJ, everything else in grams */
+export const NUTRIENTS = ['energyKcal', 'energyKj', 'fat', 'saturates', 'carbohydrate', 'sugars', 'fibre', 'protein', 'salt'] as const;
+export type Nutrient = typeof NUTRIENTS[number];
+export type NutritionFacts = Partial<Record<Nutrient, number>>;
+
+export interface ItemLabelling {
+  /** Allergens the item contains; null until they have been declared */
+  allergens: Allergen[] | null;
+  /** Precautionary "may contain" allergens (cross-contact) */
+  mayContain: Allergen[];
+  nutrition: NutritionFacts | null;
+}
+
+/** What choosing a modifier does to the item it is applied to */
+export interface ModifierLabelling {
+  allergensAdded: Allergen[];
+  allergensRemoved: Allergen[];
+  /** Added to the item's nutrition; negative for removals. null when unknown */
+  nutritionDelta: NutritionFacts | null;
+}
+
+export interface LabellingProfile {
+  /** null when the item's allergens have not been declared */
+  allergens: Allergen[] | null;
+  mayContain: Allergen[];
+  nutrition: NutritionFacts | null;
+  /** Selected modifiers whose effect on nutrition is unknown, so the totals leave them out */
+  modifiersWithoutNutrition: string[];
+}
+
+export interface LabellingRuleSet {
+  code: string;
+  name: string;
+  /** Every item must declare its allergens */
+  allergensRequired: boolean;
+  /** Nutrients every item must declare per serving */
+  requiredNutrients: Nutrient[];
+  /** Modifiers must declare their delta for the required nutrients too */
+  modifierNutrientsRequired: boolean;
+}
+
+export type LabellingIssueCode =
+  | 'ALLERGENS_UNDECLARED'
+  | 'NUTRIENT_MISSING'
+  | 'NUTRITION_INCONSISTENT'
+  | 'ALLERGEN_CONFLICT';
+
+export interface LabellingIssue {
+  entity: 'MenuItem' | 'Modifier';
+  id: string;
+  name: string;
+  code: LabellingIssueCode;
+  message: string;
+}
+
+export interface LabelledEntry<T> {
+  id: string;
+  name: string;
+  labelling: T;
+}
+
+const RULE_SETS: Record<string, LabellingRuleSet> = {
+  EU: {
+    code: 'EU',
+    name: 'EU food information (Regulation 1169/2011)',
+    allergensRequired: true,
+    requiredNutrients: [],
+    modifierNutrientsRequired: false,
+  },
+  UK: {
+    code: 'UK',
+    name: 'UK allergen and out-of-home calorie labelling',
+    allergensRequired: true,
+    requiredNutrients: ['energyKcal'],
+    modifierNutrientsRequired: true,
+  },
+  US: {
+    code: 'US',
+    name: 'US FDA menu labeling',
+    allergensRequired: false,
+    requiredNutrients: ['energyKcal'],
+    modifierNutrientsRequired: true,
+  },
+  NONE: {
+    code: 'NONE',
+    name: 'No labelling rules on file',
+    allergensRequired: false,
+    requiredNutrients: [],
+    modifierNutrientsRequired: false,
+  },
+};
+
+// EU member states plus the EEA countries that apply the same regulation
+const EU_CODES = new Set([
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 'IT', 'LV', 'LT', 'LU',
+  'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE', 'IS', 'LI', 'NO',
+]);
+
+/** The labelling rules for a store's country (name or code) */
+export function ruleSetFor(country: string | null | undefined): LabellingRuleSet {
+  const code = countryCode(country);
+  if (code === 'GB' || code === 'UK') return RULE_SETS.UK;
+  if (code === 'US') return RULE_SETS.US;
+  if (code && EU_CODES.has(code)) return RULE_SETS.EU;
+  return RULE_SETS.NONE;
+}
+
+const inOrder = (allergens: Iterable<Allergen>) => {
+  const set = new Set(allergens);
+  return EU_ALLERGENS.filter(allergen => set.has(allergen));
+};
+
+/**
+ * The allergens and nutrition of an item as configured with the given
+ * modifiers. A removal only takes effect when no other selected modifier adds
+ * the allergen back; precautionary allergens stay, since removing an
+ * ingredient does not remove cross-contact.
+ */
+export function configuredProfile(
+  item: ItemLabelling,
+  modifiers: Array<LabelledEntry<ModifierLabelling>>,
+): LabellingProfile {
+  const added = new Set(modifiers.flatMap(({ labelling }) => labelling.allergensAdded));
+  const removed = new Set(modifiers.flatMap(({ labelling }) => labelling.allergensRemoved));
+
+  const allergens = item.allergens
+    ? inOrder([...item.allergens.filter(allergen => !removed.has(allergen)), ...added])
+    : null;
+  const contained = new Set(allergens ?? []);
+
+  const modifiersWithoutNutrition = modifiers.filter(({ labelling }) => !labelling.nutritionDelta).map(({ id }) => id);
+  let nutrition: NutritionFacts | null = null;
+  if (item.nutrition) {
+    nutrition = {};
+    for (const nutrient of NUTRIENTS) {
+      const base = item.nutrition[nutrient];
+      if (base === undefined) continue;
+      const total = modifiers.reduce((sum, { labelling }) => sum + (labelling.nutritionDelta?.[nutrient] ?? 0), base);
+      nutrition[nutrient] = roundNutrient(nutrient, Math.max(0, total));
+    }
+  }
+
+  return {
+    allergens,
+    mayContain: inOrder(item.mayContain.filter(allergen => !contained.has(allergen))),
+    nutrition,
+    modifiersWithoutNutrition,
+  };
+}
+
+function roundNutrient(nutrient: Nutrient, value: number): number {
+  return nutrient === 'energyKcal' || nutrient === 'energyKj' ? Math.round(value) : Math.round(value * 10) / 10;
+}
+
+// Sub-totals that cannot exceed the total they belong to
+const NUTRIENT_PARTS: Array<[Nutrient, Nutrient]> = [['saturates', 'fat'], ['sugars', 'carbohydrate']];
+
+const KJ_PER_KCAL = 4.184;
+
+function nutritionProblems(nutrition: NutritionFacts): string[] {
+  const problems: string[] = [];
+  for (const [part, whole] of NUTRIENT_PARTS) {
+    const partValue = nutrition[part];
+    const wholeValue = nutrition[whole];
+    if (partValue !== undefined && wholeValue !== undefined && partValue > wholeValue) {
+      problems.push(`${part} (${partValue}g) exceeds ${whole} (${wholeValue}g)`);
+    }
+  }
+  const { energyKcal, energyKj } = nutrition;
+  if (energyKcal !== undefined && energyKj !== undefined && energyKcal > 0) {
+    const expected = energyKcal * KJ_PER_KCAL;
+    if (Math.abs(energyKj - expected) > expected * 0.05) {
+      problems.push(`${energyKj} kJ does not match ${energyKcal} kcal`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Checks a menu's labelling against a country's rule set. Consistency checks
+ * (sub-totals within totals, kJ matching kcal, an allergen both contained and
+ * "may contain") apply whatever the rules.
+ */
+export function validateLabelling(
+  rules: LabellingRuleSet,
+  items: Array<LabelledEntry<ItemLabelling>>,
+  modifiers: Array<LabelledEntry<ModifierLabelling>>,
+): LabellingIssue[] {
+  const issues: LabellingIssue[] = [];
+
+  for (const { id, name, labelling } of items) {
+    const issue = (code: LabellingIssueCode, message: string) => issues.push({ entity: 'MenuItem', id, name, code, message });
+
+    if (rules.allergensRequired && !labelling.allergens) {
+      issue('ALLERGENS_UNDECLARED', `${name} has no allergen declaration`);
+    }
+    const missing = rules.requiredNutrients.filter(nutrient => labelling.nutrition?.[nutrient] === undefined);
+    if (missing.length > 0) {
+      issue('NUTRIENT_MISSING', `${name} is missing ${missing.join(', ')} per serving`);
+    }
+    for (const problem of labelling.nutrition ? nutritionProblems(labelling.nutrition) : []) {
+      issue('NUTRITION_INCONSISTENT', `${name}: ${problem}`);
+    }
+    const both = (labelling.allergens ?? []).filter(allergen => labelling.mayContain.includes(allergen));
+    if (both.length > 0) {
+      issue('ALLERGEN_CONFLICT', `${name} lists ${both.join(', ')} as both contained and "may contain"`);
+    }
+  }
+
+  for (const { id, name, labelling } of modifiers) {
+    const issue = (code: LabellingIssueCode, message: string) => issues.push({ entity: 'Modifier', id, name, code, message });
+
+    if (rules.modifierNutrientsRequired) {
+      const missing = rules.requiredNutrients.filter(nutrient => labelling.nutritionDelta?.[nutrient] === undefined);
+      if (missing.length > 0) {
+        issue('NUTRIENT_MISSING', `Modifier ${name} is missing its ${missing.join(', ')} change`);
+      }
+    }
+    const both = labelling.allergensAdded.filter(allergen => labelling.allergensRemoved.includes(allergen));
+    if (both.length > 0) {
+      issue('ALLERGEN_CONFLICT', `Modifier ${name} both adds and removes ${both.join(', ')}`);
+    }
+  }
+
+  return issues;
+}
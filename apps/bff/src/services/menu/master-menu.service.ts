@@ -0,0 +1,685 @@
+import { BadRequestException, ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { MasterMenuItem, MenuOverride, Prisma, PrismaClient } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import {
+  MasterItemDefinition,
+  OVERRIDE_LEVELS,
+  OverrideDefinition,
+  OverrideLevel,
+  ResolvedMenuItem,
+  StoreLocation,
+  resolveItem,
+} from './menu-resolver';
+
+export interface MasterItemInput {
+  name: string;
+  description?: string | null;
+  price: number;
+  active?: boolean;
+  categoryIds?: string[];
+  modifierGroupIds?: string[];
+}
+
+/** Fields left undefined or set to null inherit from the level above */
+export interface OverrideInput {
+  level: OverrideLevel;
+  scope: string;
+  available?: boolean | null;
+  price?: number | null;
+  categoryIds?: string[] | null;
+  modifierGroupIds?: string[] | null;
+}
+
+export interface PublishScope {
+  storeIds?: string[];
+  region?: string;
+  country?: string;
+  /** Master items to push; every master item when omitted */
+  masterItemIds?: string[];
+}
+
+export type OverrideView = Omit<MenuOverride, 'price' | 'categoryIds' | 'modifierGroupIds'> & {
+  price: number | null;
+  categoryIds: string[] | null;
+  modifierGroupIds: string[] | null;
+};
+
+export type MasterItemView = Omit<MasterMenuItem, 'price' | 'categoryIds' | 'modifierGroupIds'> & {
+  price: number;
+  categoryIds: string[];
+  modifierGroupIds: string[];
+  overrides: OverrideView[];
+  /** Stores the item has been published to */
+  storeCount: number;
+};
+
+export type MenuChangeAction = 'create' | 'link' | 'update' | 'deactivate';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface MenuChange {
+  masterItemId: string;
+  name: string;
+  action: MenuChangeAction;
+  /** The store's MenuItem the change updates; null for creates */
+  menuItemId: string | null;
+  fields: Record<string, FieldChange>;
+}
+
+export interface StoreMenuChanges {
+  storeId: string;
+  storeName: string;
+  changes: MenuChange[];
+}
+
+export interface PublishPreview {
+  storesInScope: number;
+  storesChanged: number;
+  totals: Record<MenuChangeAction, number>;
+  stores: StoreMenuChanges[];
+}
+
+export interface EffectiveMenuItem extends ResolvedMenuItem {
+  /** The store's published MenuItem, if any */
+  menuItemId: string | null;
+  /** What a publish would do to the store's item; null when it is up to date */
+  pendingAction: MenuChangeAction | null;
+}
+
+/** A master item and its overrides, from the live master menu or a version snapshot */
+export interface CatalogueItem {
+  master: MasterItemDefinition;
+  overrides: OverrideDefinition[];
+  description?: string | null;
+}
+
+export interface CatalogueOptions {
+  /** Limits the stores to the caller's; null means unrestricted */
+  accessibleStoreIds?: string[] | null;
+  /** Deactivates store items published from master items the catalogue leaves out */
+  withdrawUnlisted?: boolean;
+}
+
+type MasterWithOverrides = MasterMenuItem & { overrides: MenuOverride[] };
+
+type StoreRow = Prisma.MenuItemGetPayload<{
+  include: { modifiers: { select: { modifierGroupId: true } }; categories: { select: { categoryId: true } } };
+}>;
+
+interface PlannedChange extends MenuChange {
+  target: ResolvedMenuItem;
+  storeId: string;
+}
+
+const MASTER_AUDIT_ID = 'master-menu';
+
+/**
+ * The chain-wide menu. Master items carry the default name, price,
+ * categories and modifier groups; country, region and store overrides adjust
+ * them, and resolving the hierarchy gives each store's effective menu.
+ * Nothing reaches a store until a publish writes the effective menu onto the
+ * store's MenuItem rows, which orders, pricing and experiments keep using.
+ * A publish adopts a store's existing item of the same name rather than
+ * duplicating it, and never touches items that are not on the master menu.
+ */
+@Injectable()
+export class MasterMenuService {
+  private readonly auditUtil: ReturnType<typeof createAuditUtil>;
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {
+    this.auditUtil = createAuditUtil(prisma);
+  }
+
+  async listItems(): Promise<MasterItemView[]> {
+    const items = await this.prisma.masterMenuItem.findMany({
+      include: { overrides: { orderBy: [{ level: 'asc' }, { scope: 'asc' }] }, _count: { select: { storeItems: true } } },
+      orderBy: { name: 'asc' },
+    });
+    return items.map(item => this.toView(item, item._count.storeItems));
+  }
+
+  async getItem(id: string): Promise<MasterItemView> {
+    const item = await this.prisma.masterMenuItem.findUnique({
+      where: { id },
+      include: { overrides: { orderBy: [{ level: 'asc' }, { scope: 'asc' }] }, _count: { select: { storeItems: true } } },
+    });
+    if (!item) {
+      throw new NotFoundException('Master menu item not found');
+    }
+    return this.toView(item, item._count.storeItems);
+  }
+
+  async createItem(input: MasterItemInput, actor: string): Promise<MasterItemView> {
+    await this.assertNameFree(input.name);
+    await this.assertReferences(input.categoryIds, input.modifierGroupIds);
+
+    const item = await this.prisma.masterMenuItem.create({
+      data: {
+        name: input.name.trim(),
+        description: input.description ?? null,
+        price: input.price,
+        active: input.active ?? true,
+        categoryIds: JSON.stringify(input.categoryIds ?? []),
+        modifierGroupIds: JSON.stringify(input.modifierGroupIds ?? []),
+        createdBy: actor,
+      },
+    });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MasterMenuItem',
+      entityId: item.id,
+      action: 'CREATE',
+      newData: this.auditState(item),
+    });
+    return this.getItem(item.id);
+  }
+
+  async updateItem(id: string, input: MasterItemInput, actor: string): Promise<MasterItemView> {
+    const existing = await this.prisma.masterMenuItem.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('Master menu item not found');
+    }
+    if (input.name.trim() !== existing.name) {
+      await this.assertNameFree(input.name);
+    }
+    await this.assertReferences(input.categoryIds, input.modifierGroupIds);
+
+    const item = await this.prisma.masterMenuItem.update({
+      where: { id },
+      data: {
+        name: input.name.trim(),
+        description: input.description ?? null,
+        price: input.price,
+        active: input.active ?? existing.active,
+        ...(input.categoryIds ? { categoryIds: JSON.stringify(input.categoryIds) } : {}),
+        ...(input.modifierGroupIds ? { modifierGroupIds: JSON.stringify(input.modifierGroupIds) } : {}),
+      },
+    });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MasterMenuItem',
+      entityId: id,
+      action: 'UPDATE',
+      oldData: this.auditState(existing),
+      newData: this.auditState(item),
+    });
+    return this.getItem(id);
+  }
+
+  /**
+   * Removes an item from the master menu. Stores keep their published copies
+   * as local items; deactivate and publish first to withdraw it from stores.
+   */
+  async deleteItem(id: string, actor: string): Promise<void> {
+    const existing = await this.prisma.masterMenuItem.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('Master menu item not found');
+    }
+
+    await this.prisma.masterMenuItem.delete({ where: { id } });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MasterMenuItem',
+      entityId: id,
+      action: 'DELETE',
+      oldData: this.auditState(existing),
+    });
+  }
+
+  /** Creates or replaces the override for one level and scope of a master item */
+  async setOverride(masterItemId: string, input: OverrideInput, actor: string): Promise<OverrideView> {
+    if (!OVERRIDE_LEVELS.includes(input.level)) {
+      throw new BadRequestException(`level must be one of ${OVERRIDE_LEVELS.join(', ')}`);
+    }
+    const scope = input.scope.trim();
+    if (!scope) {
+      throw new BadRequestException('scope is required');
+    }
+    if (!(await this.prisma.masterMenuItem.findUnique({ where: { id: masterItemId }, select: { id: true } }))) {
+      throw new NotFoundException('Master menu item not found');
+    }
+    if (input.level === 'STORE' && !(await this.prisma.store.findUnique({ where: { id: scope }, select: { id: true } }))) {
+      throw new NotFoundException('Store not found');
+    }
+    await this.assertReferences(input.categoryIds ?? undefined, input.modifierGroupIds ?? undefined);
+
+    const data = {
+      available: input.available ?? null,
+      price: input.price ?? null,
+      categoryIds: input.categoryIds ? JSON.stringify(input.categoryIds) : null,
+      modifierGroupIds: input.modifierGroupIds ? JSON.stringify(input.modifierGroupIds) : null,
+    };
+    if (Object.values(data).every(value => value === null)) {
+      throw new BadRequestException('An override must set at least one of available, price, categoryIds or modifierGroupIds');
+    }
+
+    const key = { masterItemId_level_scope: { masterItemId, level: input.level, scope } };
+    const existing = await this.prisma.menuOverride.findUnique({ where: key });
+    const override = await this.prisma.menuOverride.upsert({
+      where: key,
+      create: { masterItemId, level: input.level, scope, ...data, createdBy: actor },
+      update: data,
+    });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MenuOverride',
+      entityId: override.id,
+      action: existing ? 'UPDATE' : 'CREATE',
+      oldData: existing ? this.overrideAuditState(existing) : undefined,
+      newData: this.overrideAuditState(override),
+    });
+    return this.toOverrideView(override);
+  }
+
+  async getOverride(id: string): Promise<OverrideView> {
+    const override = await this.prisma.menuOverride.findUnique({ where: { id } });
+    if (!override) {
+      throw new NotFoundException('Menu override not found');
+    }
+    return this.toOverrideView(override);
+  }
+
+  async deleteOverride(id: string, actor: string): Promise<void> {
+    const existing = await this.prisma.menuOverride.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('Menu override not found');
+    }
+
+    await this.prisma.menuOverride.delete({ where: { id } });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MenuOverride',
+      entityId: id,
+      action: 'DELETE',
+      oldData: this.overrideAuditState(existing),
+    });
+  }
+
+  /** Stores an override level and scope covers, for access checks */
+  async storesInScope(level: OverrideLevel, scope: string): Promise<string[]> {
+    if (level === 'STORE') return [scope];
+    const field = level === 'COUNTRY' ? 'country' : 'region';
+    const stores = await this.prisma.store.findMany({
+      where: { [field]: { equals: scope.trim(), mode: 'insensitive' } },
+      select: { id: true },
+    });
+    return stores.map(store => store.id);
+  }
+
+  /** The store's menu as the master menu resolves it, with what a publish would change */
+  async effectiveMenu(storeId: string): Promise<EffectiveMenuItem[]> {
+    const store = await this.prisma.store.findUnique({
+      where: { id: storeId },
+      select: { id: true, name: true, country: true, region: true },
+    });
+    if (!store) {
+      throw new NotFoundException('Store not found');
+    }
+
+    const catalogue = await this.loadCatalogue();
+    const rows = await this.loadStoreRows([store.id], catalogue, false);
+    return catalogue.map(entry => {
+      const { target, current, change } = this.planItem(store, entry, rows);
+      return {
+        ...target,
+        menuItemId: current?.masterItemId === entry.master.id ? current.id : null,
+        pendingAction: change?.action ?? null,
+      };
+    });
+  }
+
+  /**
+   * What publishing would change in each store. accessibleStoreIds limits
+   * the stores to the caller's; null means unrestricted.
+   */
+  async previewPublish(scope: PublishScope, accessibleStoreIds: string[] | null = null): Promise<PublishPreview> {
+    return this.previewCatalogue(await this.loadCatalogue(scope.masterItemIds), scope, { accessibleStoreIds });
+  }
+
+  async publish(scope: PublishScope, actor: string, accessibleStoreIds: string[] | null = null): Promise<PublishPreview> {
+    const summary = await this.publishCatalogue(await this.loadCatalogue(scope.masterItemIds), scope, { accessibleStoreIds });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MasterMenu',
+      entityId: MASTER_AUDIT_ID,
+      action: 'PUBLISH',
+      newData: {
+        scope,
+        storesInScope: summary.storesInScope,
+        storesChanged: summary.storesChanged,
+        totals: summary.totals,
+      },
+    });
+    return summary;
+  }
+
+  async previewCatalogue(catalogue: CatalogueItem[], scope: PublishScope, options: CatalogueOptions = {}): Promise<PublishPreview> {
+    const { stores, planned } = await this.plan(catalogue, scope, options);
+    return this.summarise(stores, planned);
+  }
+
+  /**
+   * Writes each store's resolved menu from a catalogue onto its MenuItem
+   * rows, one transaction per store, or all of it through `tx` when the caller
+   * needs the publish to commit together with its own writes. The live master
+   * menu is one catalogue; a menu version's snapshot is another.
+   */
+  async publishCatalogue(
+    catalogue: CatalogueItem[],
+    scope: PublishScope,
+    options: CatalogueOptions = {},
+    tx?: Prisma.TransactionClient,
+  ): Promise<PublishPreview> {
+    const { stores, planned } = await this.plan(catalogue, scope, options);
+
+    if (tx) {
+      for (const change of planned) {
+        await this.write(change, tx);
+      }
+      return this.summarise(stores, planned);
+    }
+
+    for (const store of stores) {
+      const changes = planned.filter(change => change.storeId === store.id);
+      if (changes.length === 0) continue;
+      await this.prisma.$transaction(changes.map(change => this.write(change)));
+    }
+    return this.summarise(stores, planned);
+  }
+
+  /** The live master menu as a catalogue */
+  async loadCatalogue(ids?: string[]): Promise<CatalogueItem[]> {
+    const masters = await this.prisma.masterMenuItem.findMany({
+      where: ids?.length ? { id: { in: ids } } : undefined,
+      include: { overrides: true },
+      orderBy: { name: 'asc' },
+    });
+    return masters.map(master => ({
+      master: this.toDefinition(master),
+      overrides: master.overrides.map(override => this.toOverrideDefinition(override)),
+      description: master.description,
+    }));
+  }
+
+  private async plan(
+    catalogue: CatalogueItem[],
+    scope: PublishScope,
+    { accessibleStoreIds = null, withdrawUnlisted = false }: CatalogueOptions,
+  ): Promise<{ stores: Array<StoreLocation & { name: string }>; planned: PlannedChange[] }> {
+    const ids = scope.storeIds?.length
+      ? accessibleStoreIds === null ? scope.storeIds : scope.storeIds.filter(id => accessibleStoreIds.includes(id))
+      : accessibleStoreIds;
+
+    const stores = await this.prisma.store.findMany({
+      where: {
+        ...(ids !== null && ids !== undefined ? { id: { in: ids } } : {}),
+        ...(scope.region ? { region: { equals: scope.region, mode: 'insensitive' as const } } : {}),
+        ...(scope.country ? { country: { equals: scope.country, mode: 'insensitive' as const } } : {}),
+      },
+      select: { id: true, name: true, country: true, region: true },
+      orderBy: { name: 'asc' },
+    });
+    if (stores.length === 0 || (catalogue.length === 0 && !withdrawUnlisted)) {
+      return { stores, planned: [] };
+    }
+
+    const rows = await this.loadStoreRows(stores.map(store => store.id), catalogue, withdrawUnlisted);
+    const listed = new Set(catalogue.map(entry => entry.master.id));
+    const planned: PlannedChange[] = [];
+    for (const store of stores) {
+      for (const entry of catalogue) {
+        const { change } = this.planItem(store, entry, rows);
+        if (change) planned.push(change);
+      }
+      if (withdrawUnlisted) {
+        const unlisted = rows.filter(row => row.storeId === store.id && row.active && row.masterItemId && !listed.has(row.masterItemId));
+        planned.push(...unlisted.map(row => this.withdrawal(row)));
+      }
+    }
+    return { stores, planned };
+  }
+
+  /**
+   * Compares a store's copy of a master item with its resolved version. The
+   * copy is the item published from the master, or failing that a local item
+   * of the same name, which the publish adopts.
+   */
+  private planItem(
+    store: StoreLocation,
+    { master, overrides }: CatalogueItem,
+    rows: StoreRow[],
+  ): { target: ResolvedMenuItem; current: StoreRow | undefined; change: PlannedChange | null } {
+    const target = resolveItem(master, overrides, store);
+    const current = rows.find(row => row.storeId === store.id && row.masterItemId === master.id)
+      ?? rows.find(row => row.storeId === store.id && row.masterItemId === null && row.name === master.name);
+    const base = { masterItemId: master.id, name: target.name, target, storeId: store.id };
+
+    if (!current) {
+      if (!target.available) return { target, current, change: null };
+      return {
+        target,
+        current,
+        change: {
+          ...base,
+          action: 'create',
+          menuItemId: null,
+          fields: {
+            price: { from: null, to: target.price },
+            categoryIds: { from: null, to: target.categoryIds },
+            modifierGroupIds: { from: null, to: target.modifierGroupIds },
+          },
+        },
+      };
+    }
+
+    const fields: Record<string, FieldChange> = {};
+    const compare = (field: string, from: unknown, to: unknown) => {
+      if (JSON.stringify(from) !== JSON.stringify(to)) fields[field] = { from, to };
+    };
+    compare('name', current.name, target.name);
+    compare('price', roundPrice(Number(current.price)), roundPrice(target.price));
+    compare('active', current.active, target.available);
+    compare('categoryIds', sorted(current.categories.map(c => c.categoryId)), sorted(target.categoryIds));
+    compare('modifierGroupIds', sorted(current.modifiers.map(m => m.modifierGroupId)), sorted(target.modifierGroupIds));
+
+    const linked = current.masterItemId === master.id;
+    if (linked && Object.keys(fields).length === 0) {
+      return { target, current, change: null };
+    }
+
+    const action: MenuChangeAction = !linked ? 'link' : fields.active?.to === false ? 'deactivate' : 'update';
+    return { target, current, change: { ...base, action, menuItemId: current.id, fields } };
+  }
+
+  /** Deactivates a store item whose master item the catalogue leaves out, keeping everything else as it is */
+  private withdrawal(row: StoreRow): PlannedChange {
+    const categoryIds = row.categories.map(c => c.categoryId);
+    const modifierGroupIds = row.modifiers.map(m => m.modifierGroupId);
+    return {
+      masterItemId: row.masterItemId!,
+      name: row.name,
+      action: 'deactivate',
+      menuItemId: row.id,
+      fields: { active: { from: true, to: false } },
+      storeId: row.storeId,
+      target: {
+        masterItemId: row.masterItemId!,
+        name: row.name,
+        price: Number(row.price),
+        available: false,
+        categoryIds,
+        modifierGroupIds,
+        sources: { price: 'MASTER', available: 'MASTER', categoryIds: 'MASTER', modifierGroupIds: 'MASTER' },
+      },
+    };
+  }
+
+  private write(change: PlannedChange, client: Prisma.TransactionClient = this.prisma) {
+    const { target } = change;
+    const links = {
+      modifiers: { create: target.modifierGroupIds.map(modifierGroupId => ({ modifierGroupId })) },
+      categories: { create: target.categoryIds.map(categoryId => ({ categoryId })) },
+    };
+
+    if (change.action === 'create') {
+      return client.menuItem.create({
+        data: {
+          storeId: change.storeId,
+          masterItemId: change.masterItemId,
+          name: target.name,
+          price: target.price,
+          basePrice: target.price,
+          active: target.available,
+          ...links,
+        },
+      });
+    }
+
+    return client.menuItem.update({
+      where: { id: change.menuItemId! },
+      data: {
+        masterItemId: change.masterItemId,
+        name: target.name,
+        price: target.price,
+        basePrice: target.price,
+        active: target.available,
+        ...(change.fields.modifierGroupIds ? { modifiers: { deleteMany: {}, ...links.modifiers } } : {}),
+        ...(change.fields.categoryIds ? { categories: { deleteMany: {}, ...links.categories } } : {}),
+      },
+    });
+  }
+
+  private summarise(stores: Array<{ id: string; name: string }>, planned: PlannedChange[]): PublishPreview {
+    const totals: Record<MenuChangeAction, number> = { create: 0, link: 0, update: 0, deactivate: 0 };
+    const byStore: StoreMenuChanges[] = [];
+
+    for (const store of stores) {
+      const changes = planned
+        .filter(change => change.storeId === store.id)
+        .map(({ masterItemId, name, action, menuItemId, fields }) => ({ masterItemId, name, action, menuItemId, fields }));
+      if (changes.length === 0) continue;
+      for (const change of changes) totals[change.action]++;
+      byStore.push({ storeId: store.id, storeName: store.name, changes });
+    }
+    return { storesInScope: stores.length, storesChanged: byStore.length, totals, stores: byStore };
+  }
+
+  /**
+   * The store items a catalogue may touch: copies of its master items and
+   * local items of the same names, plus every master-linked item when
+   * unlisted ones are to be withdrawn.
+   */
+  private async loadStoreRows(storeIds: string[], catalogue: CatalogueItem[], allLinked: boolean): Promise<StoreRow[]> {
+    return this.prisma.menuItem.findMany({
+      where: {
+        storeId: { in: storeIds },
+        OR: [
+          allLinked
+            ? { masterItemId: { not: null } }
+            : { masterItemId: { in: catalogue.map(entry => entry.master.id) } },
+          { masterItemId: null, name: { in: catalogue.map(entry => entry.master.name) } },
+        ],
+      },
+      include: {
+        modifiers: { select: { modifierGroupId: true } },
+        categories: { select: { categoryId: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async assertNameFree(name: string): Promise<void> {
+    const existing = await this.prisma.masterMenuItem.findUnique({ where: { name: name.trim() }, select: { id: true } });
+    if (existing) {
+      throw new ConflictException(`A master menu item named "${name.trim()}" already exists`);
+    }
+  }
+
+  private async assertReferences(categoryIds?: string[], modifierGroupIds?: string[]): Promise<void> {
+    if (categoryIds?.length) {
+      const found = await this.prisma.category.findMany({ where: { id: { in: categoryIds } }, select: { id: true } });
+      const missing = categoryIds.filter(id => !found.some(category => category.id === id));
+      if (missing.length > 0) {
+        throw new BadRequestException(`Unknown category id(s): ${missing.join(', ')}`);
+      }
+    }
+    if (modifierGroupIds?.length) {
+      const found = await this.prisma.modifierGroup.findMany({ where: { id: { in: modifierGroupIds } }, select: { id: true } });
+      const missing = modifierGroupIds.filter(id => !found.some(group => group.id === id));
+      if (missing.length > 0) {
+        throw new BadRequestException(`Unknown modifier group id(s): ${missing.join(', ')}`);
+      }
+    }
+  }
+
+  private toDefinition(master: MasterMenuItem): MasterItemDefinition {
+    return {
+      id: master.id,
+      name: master.name,
+      price: Number(master.price),
+      active: master.active,
+      categoryIds: parseIds(master.categoryIds) ?? [],
+      modifierGroupIds: parseIds(master.modifierGroupIds) ?? [],
+    };
+  }
+
+  private toOverrideDefinition(override: MenuOverride): OverrideDefinition {
+    return {
+      level: override.level as OverrideLevel,
+      scope: override.scope,
+      available: override.available,
+      price: override.price === null ? null : Number(override.price),
+      categoryIds: parseIds(override.categoryIds),
+      modifierGroupIds: parseIds(override.modifierGroupIds),
+    };
+  }
+
+  private toView(item: MasterWithOverrides, storeCount: number): MasterItemView {
+    const { overrides, ...rest } = item;
+    const definition = this.toDefinition(item);
+    return {
+      ...rest,
+      price: definition.price,
+      categoryIds: definition.categoryIds,
+      modifierGroupIds: definition.modifierGroupIds,
+      overrides: overrides.map(override => this.toOverrideView(override)),
+      storeCount,
+    };
+  }
+
+  private toOverrideView(override: MenuOverride): OverrideView {
+    const definition = this.toOverrideDefinition(override);
+    return {
+      ...override,
+      price: definition.price,
+      categoryIds: definition.categoryIds,
+      modifierGroupIds: definition.modifierGroupIds,
+    };
+  }
+
+  private auditState(item: MasterMenuItem): Record<string, unknown> {
+    const definition = this.toDefinition(item);
+    return { ...definition, description: item.description };
+  }
+
+  private overrideAuditState(override: MenuOverride): Record<string, unknown> {
+    return { masterItemId: override.masterItemId, ...this.toOverrideDefinition(override) };
+  }
+}
+
+function parseIds(value: string | null): string[] | null {
+  if (value === null) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+const sorted = (ids: string[]) => [...ids].sort();
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
@@ -0,0 +1,147 @@
+import type { FieldChange } from './master-menu.service';
+import { MasterItemDefinition, OverrideDefinition } from './menu-resolver';
+
+export interface VersionItem extends MasterItemDefinition {
+  description: string | null;
+  overrides: OverrideDefinition[];
+}
+
+export interface VersionCategory {
+  id: string;
+  name: string;
+  description: string | null;
+  sortOrder: number;
+  active: boolean;
+}
+
+export interface VersionModifier {
+  id: string;
+  name: string;
+  priceAdjustment: number;
+  active: boolean;
+}
+
+export interface VersionModifierGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  minSelection: number;
+  maxSelection: number | null;
+  required: boolean;
+  active: boolean;
+  modifiers: VersionModifier[];
+}
+
+/** What a menu version holds */
+export interface MenuContent {
+  items: VersionItem[];
+  categories: VersionCategory[];
+  modifierGroups: VersionModifierGroup[];
+}
+
+export type EntryChange = 'added' | 'removed' | 'changed';
+
+export interface EntryDiff {
+  id: string;
+  name: string;
+  change: EntryChange;
+  /** Changed fields; empty for added and removed entries */
+  fields: Record<string, FieldChange>;
+}
+
+export interface MenuDiff {
+  items: EntryDiff[];
+  categories: EntryDiff[];
+  modifierGroups: EntryDiff[];
+  unchanged: boolean;
+}
+
+type Fields = Record<string, unknown>;
+
+const sorted = (ids: string[]) => [...ids].sort();
+
+function itemFields(item: VersionItem): Fields {
+  const fields: Fields = {
+    name: item.name,
+    description: item.description,
+    price: item.price,
+    active: item.active,
+    categoryIds: sorted(item.categoryIds),
+    modifierGroupIds: sorted(item.modifierGroupIds),
+  };
+  // Each override is compared as a whole, keyed by where it applies
+  for (const { level, scope, ...values } of item.overrides) {
+    fields[`override ${level} ${scope}`] = {
+      ...values,
+      categoryIds: values.categoryIds && sorted(values.categoryIds),
+      modifierGroupIds: values.modifierGroupIds && sorted(values.modifierGroupIds),
+    };
+  }
+  return fields;
+}
+
+function categoryFields(category: VersionCategory): Fields {
+  return { name: category.name, description: category.description, sortOrder: category.sortOrder, active: category.active };
+}
+
+function modifierGroupFields(group: VersionModifierGroup): Fields {
+  const result: Fields = {
+    name: group.name,
+    description: group.description,
+    minSelection: group.minSelection,
+    maxSelection: group.maxSelection,
+    required: group.required,
+    active: group.active,
+  };
+  for (const { id, ...modifier } of group.modifiers) {
+    result[`modifier ${id}`] = modifier;
+  }
+  return result;
+}
+
+function diffEntries<T extends { id: string; name: string }>(from: T[], to: T[], fieldsOf: (entry: T) => Fields): EntryDiff[] {
+  const before = new Map(from.map(entry => [entry.id, entry]));
+  const after = new Map(to.map(entry => [entry.id, entry]));
+  const diffs: EntryDiff[] = [];
+
+  for (const entry of to) {
+    const previous = before.get(entry.id);
+    if (!previous) {
+      diffs.push({ id: entry.id, name: entry.name, change: 'added', fields: {} });
+      continue;
+    }
+
+    const a = fieldsOf(previous);
+    const b = fieldsOf(entry);
+    const fields: Record<string, FieldChange> = {};
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      const fromValue = a[key] ?? null;
+      const toValue = b[key] ?? null;
+      if (JSON.stringify(fromValue) !== JSON.stringify(toValue)) {
+        fields[key] = { from: fromValue, to: toValue };
+      }
+    }
+    if (Object.keys(fields).length > 0) {
+      diffs.push({ id: entry.id, name: entry.name, change: 'changed', fields });
+    }
+  }
+  for (const entry of from) {
+    if (!after.has(entry.id)) {
+      diffs.push({ id: entry.id, name: entry.name, change: 'removed', fields: {} });
+    }
+  }
+  return diffs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** What changed from one version's content to another's, entry by entry */
+export function diffContent(from: MenuContent, to: MenuContent): MenuDiff {
+  const items = diffEntries(from.items, to.items, itemFields);
+  const categories = diffEntries(from.categories, to.categories, categoryFields);
+  const modifierGroups = diffEntries(from.modifierGroups, to.modifierGroups, modifierGroupFields);
+  return {
+    items,
+    categories,
+    modifierGroups,
+    unchanged: items.length === 0 && categories.length === 0 && modifierGroups.length === 0,
+  };
+}
@@ -0,0 +1,376 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Modifier, PrismaClient } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import {
+  ALLERGEN_LABELS,
+  Allergen,
+  EU_ALLERGENS,
+  ItemLabelling,
+  LabelledEntry,
+  LabellingIssue,
+  LabellingProfile,
+  LabellingRuleSet,
+  ModifierLabelling,
+  NutritionFacts,
+  configuredProfile,
+  ruleSetFor,
+  validateLabelling,
+} from './labelling';
+
+/** Fields left undefined keep their current value */
+export interface ItemLabellingInput {
+  allergens?: Allergen[] | null;
+  mayContain?: Allergen[];
+  nutrition?: NutritionFacts | null;
+}
+
+export interface ModifierLabellingInput {
+  allergensAdded?: Allergen[];
+  allergensRemoved?: Allergen[];
+  nutritionDelta?: NutritionFacts | null;
+}
+
+export interface LabelledModifierView extends ModifierLabelling {
+  id: string;
+  name: string;
+  priceAdjustment: number;
+  active: boolean;
+}
+
+export interface ItemLabellingView extends ItemLabelling {
+  id: string;
+  name: string;
+  storeId: string;
+  active: boolean;
+  /** The modifier groups attached to the item, with each modifier's labelling */
+  modifierGroups: Array<{
+    id: string;
+    name: string;
+    maxSelection: number | null;
+    modifiers: LabelledModifierView[];
+  }>;
+}
+
+export interface ConfiguredItemProfile extends LabellingProfile {
+  itemId: string;
+  modifierIds: string[];
+  rules: LabellingRuleSet;
+  /** Rule set problems with the item or the selected modifiers */
+  issues: LabellingIssue[];
+}
+
+export interface AllergenMatrixRow {
+  kind: 'item' | 'modifier';
+  id: string;
+  name: string;
+  /** Modifier group, for modifier rows */
+  groupId: string | null;
+  group: string | null;
+  /** Allergens the item contains, or a modifier adds */
+  contains: Allergen[];
+  mayContain: Allergen[];
+  /** Allergens a modifier takes out */
+  removes: Allergen[];
+  /** Nutrition per serving for items, the change to it for modifiers */
+  nutrition: NutritionFacts | null;
+  /** Whether an item's allergens have been declared; always true for modifiers */
+  declared: boolean;
+}
+
+export interface AllergenMatrix {
+  storeId: string;
+  storeName: string;
+  country: string | null;
+  rules: LabellingRuleSet;
+  generatedAt: Date;
+  rows: AllergenMatrixRow[];
+  issues: LabellingIssue[];
+}
+
+export interface RenderedMatrix {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+interface LabelledItemRow {
+  id: string;
+  name: string;
+  allergens: string | null;
+  mayContain: string;
+  nutrition: string | null;
+}
+
+const parseAllergens = (json: string): Allergen[] => JSON.parse(json) as Allergen[];
+const parseFacts = (json: string | null): NutritionFacts | null => (json ? (JSON.parse(json) as NutritionFacts) : null);
+
+function itemLabelling(row: LabelledItemRow): ItemLabelling {
+  return {
+    allergens: row.allergens === null ? null : parseAllergens(row.allergens),
+    mayContain: parseAllergens(row.mayContain),
+    nutrition: parseFacts(row.nutrition),
+  };
+}
+
+function modifierLabelling(row: Pick<Modifier, 'allergensAdded' | 'allergensRemoved' | 'nutritionDelta'>): ModifierLabelling {
+  return {
+    allergensAdded: parseAllergens(row.allergensAdded),
+    allergensRemoved: parseAllergens(row.allergensRemoved),
+    nutritionDelta: parseFacts(row.nutritionDelta),
+  };
+}
+
+// Stored in the order of the regulation, without duplicates
+const normalised = (allergens: Allergen[]) => JSON.stringify(EU_ALLERGENS.filter(allergen => allergens.includes(allergen)));
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Allergen and nutrition labelling for store menu items and the modifiers
+ * that change them. The effective profile of an item as ordered combines the
+ * item's declaration with its chosen modifiers, and each store's menu is
+ * checked against the labelling rules of its country.
+ */
+@Injectable()
+export class MenuLabellingService {
+  private readonly auditUtil: ReturnType<typeof createAuditUtil>;
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {
+    this.auditUtil = createAuditUtil(prisma);
+  }
+
+  async getItem(itemId: string): Promise<ItemLabellingView> {
+    const item = await this.prisma.menuItem.findUnique({
+      where: { id: itemId },
+      include: {
+        modifiers: {
+          include: {
+            modifierGroup: { include: { modifiers: { orderBy: { name: 'asc' } } } },
+          },
+        },
+      },
+    });
+    if (!item) {
+      throw new NotFoundException(`Menu item ${itemId} not found`);
+    }
+
+    return {
+      id: item.id,
+      name: item.name,
+      storeId: item.storeId,
+      active: item.active,
+      ...itemLabelling(item),
+      modifierGroups: item.modifiers
+        .map(({ modifierGroup: group }) => ({
+          id: group.id,
+          name: group.name,
+          maxSelection: group.maxSelection,
+          modifiers: group.modifiers.map(modifier => ({
+            id: modifier.id,
+            name: modifier.name,
+            priceAdjustment: Number(modifier.priceAdjustment),
+            active: modifier.active,
+            ...modifierLabelling(modifier),
+          })),
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+
+  async updateItem(itemId: string, input: ItemLabellingInput, actor: string): Promise<ItemLabellingView> {
+    const before = await this.getItem(itemId);
+
+    await this.prisma.menuItem.update({
+      where: { id: itemId },
+      data: {
+        allergens: input.allergens === undefined ? undefined : input.allergens && normalised(input.allergens),
+        mayContain: input.mayContain && normalised(input.mayContain),
+        nutrition: input.nutrition === undefined ? undefined : input.nutrition && JSON.stringify(input.nutrition),
+      },
+    });
+    const after = await this.getItem(itemId);
+
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MenuItem',
+      entityId: itemId,
+      action: 'UPDATE_LABELLING',
+      oldData: { allergens: before.allergens, mayContain: before.mayContain, nutrition: before.nutrition },
+      newData: { allergens: after.allergens, mayContain: after.mayContain, nutrition: after.nutrition },
+    });
+    return after;
+  }
+
+  async updateModifier(
+    groupId: string,
+    modifierId: string,
+    input: ModifierLabellingInput,
+    actor: string,
+  ): Promise<LabelledModifierView> {
+    const before = await this.prisma.modifier.findFirst({ where: { id: modifierId, modifierGroupId: groupId } });
+    if (!before) {
+      throw new NotFoundException(`Modifier ${modifierId} not found in group ${groupId}`);
+    }
+
+    const after = await this.prisma.modifier.update({
+      where: { id: modifierId },
+      data: {
+        allergensAdded: input.allergensAdded && normalised(input.allergensAdded),
+        allergensRemoved: input.allergensRemoved && normalised(input.allergensRemoved),
+        nutritionDelta:
+          input.nutritionDelta === undefined ? undefined : input.nutritionDelta && JSON.stringify(input.nutritionDelta),
+      },
+    });
+
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'Modifier',
+      entityId: modifierId,
+      action: 'UPDATE_LABELLING',
+      oldData: { ...modifierLabelling(before) },
+      newData: { ...modifierLabelling(after) },
+    });
+    return {
+      id: after.id,
+      name: after.name,
+      priceAdjustment: Number(after.priceAdjustment),
+      active: after.active,
+      ...modifierLabelling(after),
+    };
+  }
+
+  /** The item's allergens and nutrition with the chosen modifiers, checked against its store's rules */
+  async profile(itemId: string, modifierIds: string[]): Promise<ConfiguredItemProfile> {
+    const item = await this.getItem(itemId);
+    const store = await this.prisma.store.findUnique({ where: { id: item.storeId }, select: { country: true } });
+
+    const chosen = new Set(modifierIds);
+    const selected: LabelledModifierView[] = [];
+    for (const group of item.modifierGroups) {
+      const picks = group.modifiers.filter(modifier => modifier.active && chosen.has(modifier.id));
+      if (group.maxSelection !== null && picks.length > group.maxSelection) {
+        throw new BadRequestException(`${group.name} allows at most ${group.maxSelection} choice(s)`);
+      }
+      selected.push(...picks);
+    }
+    const unknown = modifierIds.filter(id => !selected.some(modifier => modifier.id === id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Modifiers not offered on ${item.name}: ${unknown.join(', ')}`);
+    }
+
+    const rules = ruleSetFor(store?.country);
+    const modifiers = selected.map(modifier => ({ id: modifier.id, name: modifier.name, labelling: modifier }));
+    return {
+      itemId,
+      modifierIds: selected.map(modifier => modifier.id),
+      ...configuredProfile(item, modifiers),
+      rules,
+      issues: validateLabelling(rules, [{ id: item.id, name: item.name, labelling: item }], modifiers),
+    };
+  }
+
+  /**
+   * The allergen matrix for a store's active menu: one row per item, then one
+   * per modifier offered on any of them, with the store's rule set issues.
+   */
+  async matrix(storeId: string, now = new Date()): Promise<AllergenMatrix> {
+    const store = await this.prisma.store.findUnique({ where: { id: storeId }, select: { id: true, name: true, country: true } });
+    if (!store) {
+      throw new NotFoundException(`Store ${storeId} not found`);
+    }
+
+    const items = await this.prisma.menuItem.findMany({
+      where: { storeId, active: true },
+      include: {
+        modifiers: {
+          include: {
+            modifierGroup: { include: { modifiers: { where: { active: true }, orderBy: { name: 'asc' } } } },
+          },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const labelledItems: Array<LabelledEntry<ItemLabelling>> = items.map(item => ({
+      id: item.id,
+      name: item.name,
+      labelling: itemLabelling(item),
+    }));
+    const labelledModifiers = new Map<string, LabelledEntry<ModifierLabelling> & { groupId: string; group: string }>();
+    for (const { modifierGroup: group } of items.flatMap(item => item.modifiers)) {
+      if (!group.active) continue;
+      for (const modifier of group.modifiers) {
+        labelledModifiers.set(modifier.id, {
+          id: modifier.id,
+          name: modifier.name,
+          groupId: group.id,
+          group: group.name,
+          labelling: modifierLabelling(modifier),
+        });
+      }
+    }
+    const modifiers = [...labelledModifiers.values()].sort(
+      (a, b) => a.group.localeCompare(b.group) || a.name.localeCompare(b.name),
+    );
+
+    const rules = ruleSetFor(store.country);
+    return {
+      storeId: store.id,
+      storeName: store.name,
+      country: store.country,
+      rules,
+      generatedAt: now,
+      rows: [
+        ...labelledItems.map(({ id, name, labelling }) => ({
+          kind: 'item' as const,
+          id,
+          name,
+          groupId: null,
+          group: null,
+          contains: labelling.allergens ?? [],
+          mayContain: labelling.mayContain,
+          removes: [],
+          nutrition: labelling.nutrition,
+          declared: labelling.allergens !== null,
+        })),
+        ...modifiers.map(({ id, name, groupId, group, labelling }) => ({
+          kind: 'modifier' as const,
+          id,
+          name,
+          groupId,
+          group,
+          contains: labelling.allergensAdded,
+          mayContain: [],
+          removes: labelling.allergensRemoved,
+          nutrition: labelling.nutritionDelta,
+          declared: true,
+        })),
+      ],
+      issues: validateLabelling(rules, labelledItems, modifiers),
+    };
+  }
+
+  /** The matrix as CSV for printing: Y contains, M may contain, - removed by the modifier */
+  async matrixCsv(storeId: string, now = new Date()): Promise<RenderedMatrix> {
+    const matrix = await this.matrix(storeId, now);
+    const header = ['Item', 'Modifier group', ...EU_ALLERGENS.map(allergen => ALLERGEN_LABELS[allergen]), 'kcal'];
+    const lines = matrix.rows.map(row => [
+      row.name,
+      row.group ?? '',
+      ...EU_ALLERGENS.map(allergen => {
+        if (!row.declared) return '?';
+        if (row.contains.includes(allergen)) return 'Y';
+        if (row.mayContain.includes(allergen)) return 'M';
+        return row.removes.includes(allergen) ? '-' : '';
+      }),
+      row.nutrition?.energyKcal === undefined ? '' : String(row.nutrition.energyKcal),
+    ]);
+
+    const slug = matrix.storeName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return {
+      filename: `allergen-matrix-${slug || matrix.storeId}-${now.toISOString().slice(0, 10)}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      body: Buffer.from([header, ...lines].map(cells => cells.map(csvCell).join(',')).join('\n') + '\n', 'utf8'),
+    };
+  }
+}
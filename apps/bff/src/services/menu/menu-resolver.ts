@@ -0,0 +1,100 @@
+export const OVERRIDE_LEVELS = ['COUNTRY', 'REGION', 'STORE'] as const;
+export type OverrideLevel = typeof OVERRIDE_LEVELS[number];
+
+/** Where a resolved field came from */
+export type MenuSource = 'MASTER' | OverrideLevel;
+
+export interface MasterItemDefinition {
+  id: string;
+  name: string;
+  price: number;
+  active: boolean;
+  categoryIds: string[];
+  modifierGroupIds: string[];
+}
+
+export interface OverrideDefinition {
+  level: OverrideLevel;
+  scope: string;
+  available: boolean | null;
+  price: number | null;
+  categoryIds: string[] | null;
+  modifierGroupIds: string[] | null;
+}
+
+export interface StoreLocation {
+  id: string;
+  country: string | null;
+  region: string | null;
+}
+
+export interface ResolvedMenuItem {
+  masterItemId: string;
+  name: string;
+  price: number;
+  available: boolean;
+  categoryIds: string[];
+  modifierGroupIds: string[];
+  sources: {
+    price: MenuSource;
+    available: MenuSource;
+    categoryIds: MenuSource;
+    modifierGroupIds: MenuSource;
+  };
+}
+
+const sameText = (a: string | null, b: string) => a !== null && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Whether an override applies to a store; country and region match case-insensitively */
+export function appliesTo(override: Pick<OverrideDefinition, 'level' | 'scope'>, store: StoreLocation): boolean {
+  switch (override.level) {
+    case 'COUNTRY':
+      return sameText(store.country, override.scope);
+    case 'REGION':
+      return sameText(store.region, override.scope);
+    case 'STORE':
+      return store.id === override.scope;
+  }
+}
+
+/**
+ * A store's version of a master item. Overrides that apply to the store are
+ * laid over the master item from country to region to store, so the most
+ * specific level that sets a field wins. A master item that is no longer
+ * active is unavailable everywhere, whatever the overrides say.
+ */
+export function resolveItem(master: MasterItemDefinition, overrides: OverrideDefinition[], store: StoreLocation): ResolvedMenuItem {
+  const resolved: ResolvedMenuItem = {
+    masterItemId: master.id,
+    name: master.name,
+    price: master.price,
+    available: master.active,
+    categoryIds: master.categoryIds,
+    modifierGroupIds: master.modifierGroupIds,
+    sources: { price: 'MASTER', available: 'MASTER', categoryIds: 'MASTER', modifierGroupIds: 'MASTER' },
+  };
+
+  const applicable = overrides
+    .filter(override => appliesTo(override, store))
+    .sort((a, b) => OVERRIDE_LEVELS.indexOf(a.level) - OVERRIDE_LEVELS.indexOf(b.level));
+
+  for (const override of applicable) {
+    if (override.price !== null) {
+      resolved.price = override.price;
+      resolved.sources.price = override.level;
+    }
+    if (override.available !== null && master.active) {
+      resolved.available = override.available;
+      resolved.sources.available = override.level;
+    }
+    if (override.categoryIds !== null) {
+      resolved.categoryIds = override.categoryIds;
+      resolved.sources.categoryIds = override.level;
+    }
+    if (override.modifierGroupIds !== null) {
+      resolved.modifierGroupIds = override.modifierGroupIds;
+      resolved.sources.modifierGroupIds = override.level;
+    }
+  }
+  return resolved;
+}
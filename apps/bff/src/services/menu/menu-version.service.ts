@@ -0,0 +1,644 @@
+import { BadRequestException, ConflictException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { MenuRollout, MenuVersion, Prisma, PrismaClient } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import { CatalogueItem, MasterMenuService, MenuChangeAction, PublishPreview, PublishScope } from './master-menu.service';
+import { MenuContent, MenuDiff, VersionCategory, VersionItem, VersionModifierGroup, diffContent } from './menu-diff';
+
+export const VERSION_STATUSES = ['DRAFT', 'IN_REVIEW', 'APPROVED'] as const;
+export type VersionStatus = typeof VERSION_STATUSES[number];
+
+export const ROLLOUT_STATUSES = ['SCHEDULED', 'PUBLISHING', 'LIVE', 'SUPERSEDED', 'ROLLED_BACK', 'CANCELLED', 'FAILED'] as const;
+export type RolloutStatus = typeof ROLLOUT_STATUSES[number];
+
+/** Market name for a rollout to every store, the only kind that may change shared definitions */
+export const ALL_MARKETS = 'ALL';
+
+// A rollout writes every store of its market in one transaction
+const PUBLISH_TIMEOUT_MS = 120_000;
+
+export interface VersionInput {
+  name: string;
+  notes?: string;
+  /** Copies another version's content instead of the live master menu */
+  fromVersionId?: string;
+}
+
+export type ItemPatch = Partial<Pick<VersionItem, 'name' | 'description' | 'price' | 'active' | 'categoryIds' | 'modifierGroupIds'>>;
+
+export type CategoryPatch = Partial<Omit<VersionCategory, 'id'>>;
+
+export type ModifierGroupPatch = Partial<Omit<VersionModifierGroup, 'id' | 'modifiers'>> & {
+  modifiers?: Array<{ id: string; name?: string; priceAdjustment?: number; active?: boolean }>;
+};
+
+export interface RolloutResult {
+  storesInScope: number;
+  storesChanged: number;
+  totals: Record<MenuChangeAction, number>;
+  /** Items in the version whose master item has since been deleted */
+  skippedItems: string[];
+}
+
+export type MenuVersionSummary = Omit<MenuVersion, 'content'> & {
+  counts: { items: number; categories: number; modifierGroups: number };
+  /** Markets this version is live in */
+  liveMarkets: string[];
+};
+
+export type MenuRolloutView = Omit<MenuRollout, 'result'> & {
+  result: RolloutResult | null;
+  version: { id: string; number: number; name: string };
+};
+
+export type MenuVersionView = MenuVersionSummary & {
+  content: MenuContent;
+  rollouts: MenuRolloutView[];
+};
+
+const ROLLOUT_INCLUDE = { version: { select: { id: true, number: true, name: true } } } as const;
+
+/**
+ * Versioned menus for the marketing calendar. A version snapshots the master
+ * menu together with the category and modifier-group definitions; drafts are
+ * edited, submitted and approved, then rolled out market by market (a market
+ * is a country) at a go-live time. Going live writes the version onto the
+ * market's stores through the master menu publish, withdrawing items the
+ * version leaves out. Category and modifier-group definitions are shared by
+ * every market, so a single market may only add missing ones; a version that
+ * changes existing definitions has to roll out to ALL markets at once. Each
+ * live rollout keeps the one it replaced, so a market rolls back by
+ * republishing that version.
+ */
+@Injectable()
+export class MenuVersionService {
+  private readonly logger = new Logger(MenuVersionService.name);
+  private readonly auditUtil: ReturnType<typeof createAuditUtil>;
+
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly masterMenu: MasterMenuService,
+  ) {
+    this.auditUtil = createAuditUtil(prisma);
+  }
+
+  async list(): Promise<MenuVersionSummary[]> {
+    const versions = await this.prisma.menuVersion.findMany({
+      include: { rollouts: { where: { status: 'LIVE' }, select: { market: true } } },
+      orderBy: { number: 'desc' },
+    });
+    return versions.map(({ rollouts, ...version }) => this.toSummary(version, rollouts.map(r => r.market)));
+  }
+
+  async get(id: string): Promise<MenuVersionView> {
+    const version = await this.prisma.menuVersion.findUnique({
+      where: { id },
+      include: { rollouts: { include: ROLLOUT_INCLUDE, orderBy: { goLiveAt: 'desc' } } },
+    });
+    if (!version) {
+      throw new NotFoundException('Menu version not found');
+    }
+
+    const { rollouts, ...rest } = version;
+    const live = rollouts.filter(rollout => rollout.status === 'LIVE').map(rollout => rollout.market);
+    return {
+      ...this.toSummary(rest, live),
+      content: this.parseContent(rest),
+      rollouts: rollouts.map(rollout => this.toRolloutView(rollout)),
+    };
+  }
+
+  async create(input: VersionInput, actor: string): Promise<MenuVersionView> {
+    let content: MenuContent;
+    if (input.fromVersionId) {
+      const source = await this.prisma.menuVersion.findUnique({ where: { id: input.fromVersionId } });
+      if (!source) {
+        throw new NotFoundException('Menu version to copy not found');
+      }
+      content = this.parseContent(source);
+    } else {
+      content = await this.snapshot();
+    }
+
+    const last = await this.prisma.menuVersion.aggregate({ _max: { number: true } });
+    const version = await this.prisma.menuVersion.create({
+      data: {
+        number: (last._max.number ?? 0) + 1,
+        name: input.name.trim(),
+        notes: input.notes?.trim() || null,
+        content: JSON.stringify(content),
+        createdBy: actor,
+      },
+    });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MenuVersion',
+      entityId: version.id,
+      action: 'CREATE',
+      newData: { number: version.number, name: version.name, fromVersionId: input.fromVersionId ?? null },
+    });
+    return this.get(version.id);
+  }
+
+  async update(id: string, input: { name?: string; notes?: string }, actor: string): Promise<MenuVersionView> {
+    const version = await this.findDraft(id);
+    const data = {
+      ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+      ...(input.notes !== undefined ? { notes: input.notes.trim() || null } : {}),
+    };
+    await this.prisma.menuVersion.update({ where: { id }, data });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MenuVersion',
+      entityId: id,
+      action: 'UPDATE',
+      oldData: { name: version.name, notes: version.notes },
+      newData: data,
+    });
+    return this.get(id);
+  }
+
+  /** Replaces a draft's content with the live master menu, categories and modifier groups */
+  async refresh(id: string, actor: string): Promise<MenuVersionView> {
+    return this.editDraft(id, actor, 'REFRESH', async () => this.snapshot());
+  }
+
+  async editItem(id: string, itemId: string, patch: ItemPatch, actor: string): Promise<MenuVersionView> {
+    return this.editDraft(id, actor, 'UPDATE', async content => {
+      const item = content.items.find(entry => entry.id === itemId);
+      if (!item) {
+        throw new NotFoundException('Item not found in this version');
+      }
+      this.assertReferences(content, patch.categoryIds, patch.modifierGroupIds);
+      Object.assign(item, stripUndefined(patch));
+      return content;
+    });
+  }
+
+  async editCategory(id: string, categoryId: string, patch: CategoryPatch, actor: string): Promise<MenuVersionView> {
+    return this.editDraft(id, actor, 'UPDATE', async content => {
+      const category = content.categories.find(entry => entry.id === categoryId);
+      if (!category) {
+        throw new NotFoundException('Category not found in this version');
+      }
+      Object.assign(category, stripUndefined(patch));
+      return content;
+    });
+  }
+
+  async editModifierGroup(id: string, groupId: string, patch: ModifierGroupPatch, actor: string): Promise<MenuVersionView> {
+    return this.editDraft(id, actor, 'UPDATE', async content => {
+      const group = content.modifierGroups.find(entry => entry.id === groupId);
+      if (!group) {
+        throw new NotFoundException('Modifier group not found in this version');
+      }
+      const { modifiers, ...fields } = patch;
+      for (const { id: modifierId, ...changes } of modifiers ?? []) {
+        const modifier = group.modifiers.find(entry => entry.id === modifierId);
+        if (!modifier) {
+          throw new NotFoundException(`Modifier ${modifierId} not found in ${group.name}`);
+        }
+        Object.assign(modifier, stripUndefined(changes));
+      }
+      Object.assign(group, stripUndefined(fields));
+      if (group.maxSelection !== null && group.maxSelection < group.minSelection) {
+        throw new BadRequestException('maxSelection cannot be below minSelection');
+      }
+      return content;
+    });
+  }
+
+  async delete(id: string, actor: string): Promise<void> {
+    const version = await this.findDraft(id);
+    const rollouts = await this.prisma.menuRollout.count({ where: { versionId: id } });
+    if (rollouts > 0) {
+      throw new BadRequestException('A version that has been rolled out cannot be deleted');
+    }
+
+    await this.prisma.menuVersion.delete({ where: { id } });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MenuVersion',
+      entityId: id,
+      action: 'DELETE',
+      oldData: { number: version.number, name: version.name },
+    });
+  }
+
+  async submit(id: string, actor: string, now = new Date()): Promise<MenuVersionView> {
+    await this.findDraft(id);
+    return this.transition(id, 'DRAFT', 'IN_REVIEW', { submittedBy: actor, submittedAt: now }, actor, 'SUBMIT');
+  }
+
+  async approve(id: string, actor: string, notes?: string, now = new Date()): Promise<MenuVersionView> {
+    return this.transition(id, 'IN_REVIEW', 'APPROVED', { reviewedBy: actor, reviewedAt: now, reviewNotes: notes?.trim() || null }, actor, 'APPROVE');
+  }
+
+  /** Sends a version back to draft with the reviewer's notes */
+  async reject(id: string, actor: string, notes?: string, now = new Date()): Promise<MenuVersionView> {
+    return this.transition(id, 'IN_REVIEW', 'DRAFT', { reviewedBy: actor, reviewedAt: now, reviewNotes: notes?.trim() || null }, actor, 'REJECT');
+  }
+
+  async diff(fromId: string, toId: string): Promise<MenuDiff> {
+    const [from, to] = await Promise.all([
+      this.prisma.menuVersion.findUnique({ where: { id: fromId } }),
+      this.prisma.menuVersion.findUnique({ where: { id: toId } }),
+    ]);
+    if (!from || !to) {
+      throw new NotFoundException('Menu version not found');
+    }
+    return diffContent(this.parseContent(from), this.parseContent(to));
+  }
+
+  /** What going live in a market would change in its stores */
+  async preview(id: string, market: string): Promise<PublishPreview> {
+    const version = await this.prisma.menuVersion.findUnique({ where: { id } });
+    if (!version) {
+      throw new NotFoundException('Menu version not found');
+    }
+    const { catalogue } = await this.catalogueOf(this.parseContent(version));
+    return this.masterMenu.previewCatalogue(catalogue, this.scopeOf(market), { withdrawUnlisted: true });
+  }
+
+  async listRollouts(market?: string): Promise<MenuRolloutView[]> {
+    const rollouts = await this.prisma.menuRollout.findMany({
+      where: market ? { market: { equals: market, mode: 'insensitive' } } : undefined,
+      include: ROLLOUT_INCLUDE,
+      orderBy: { goLiveAt: 'desc' },
+      take: 200,
+    });
+    return rollouts.map(rollout => this.toRolloutView(rollout));
+  }
+
+  async getRollout(id: string): Promise<MenuRolloutView> {
+    const rollout = await this.prisma.menuRollout.findUnique({ where: { id }, include: ROLLOUT_INCLUDE });
+    if (!rollout) {
+      throw new NotFoundException('Menu rollout not found');
+    }
+    return this.toRolloutView(rollout);
+  }
+
+  /** Schedules an approved version to go live in a market; a go-live time already passed publishes now */
+  async schedule(id: string, market: string, goLiveAt: Date | undefined, actor: string, now = new Date()): Promise<MenuRolloutView> {
+    const version = await this.prisma.menuVersion.findUnique({ where: { id } });
+    if (!version) {
+      throw new NotFoundException('Menu version not found');
+    }
+    if (version.status !== 'APPROVED') {
+      throw new BadRequestException('Only approved versions can be scheduled');
+    }
+    const marketName = market.trim().toUpperCase() === ALL_MARKETS ? ALL_MARKETS : market.trim();
+    const stores = await this.prisma.store.count({
+      where: marketName === ALL_MARKETS ? undefined : { country: { equals: marketName, mode: 'insensitive' } },
+    });
+    if (stores === 0) {
+      throw new BadRequestException(`No stores in market "${marketName}"`);
+    }
+    await this.assertMarketCanTake(this.parseContent(version), marketName, this.prisma);
+    const pending = await this.prisma.menuRollout.findFirst({
+      where: { versionId: id, market: { equals: marketName, mode: 'insensitive' }, status: 'SCHEDULED' },
+    });
+    if (pending) {
+      throw new ConflictException(`Version ${version.number} is already scheduled for ${pending.market}`);
+    }
+
+    const rollout = await this.prisma.menuRollout.create({
+      data: { versionId: id, market: marketName, goLiveAt: goLiveAt ?? now, scheduledBy: actor },
+    });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MenuRollout',
+      entityId: rollout.id,
+      action: 'SCHEDULE',
+      newData: { versionId: id, number: version.number, market: marketName, goLiveAt: rollout.goLiveAt },
+    });
+
+    if (rollout.goLiveAt <= now) {
+      await this.goLive(rollout, actor, now);
+    }
+    return this.getRollout(rollout.id);
+  }
+
+  async cancelRollout(id: string, actor: string): Promise<MenuRolloutView> {
+    const claimed = await this.prisma.menuRollout.updateMany({
+      where: { id, status: 'SCHEDULED' },
+      data: { status: 'CANCELLED' },
+    });
+    if (claimed.count === 0) {
+      await this.getRollout(id);
+      throw new BadRequestException('Only scheduled rollouts can be cancelled');
+    }
+    await this.auditUtil.createAuditEntry({ actor, entity: 'MenuRollout', entityId: id, action: 'CANCEL' });
+    return this.getRollout(id);
+  }
+
+  /** Publishes rollouts whose go-live time has come; called on every scheduler tick */
+  async applyDueRollouts(now = new Date()): Promise<number> {
+    const due = await this.prisma.menuRollout.findMany({
+      where: { status: 'SCHEDULED', goLiveAt: { lte: now } },
+      orderBy: { goLiveAt: 'asc' },
+    });
+    let published = 0;
+    for (const rollout of due) {
+      if (await this.goLive(rollout, 'system', now)) published++;
+    }
+    return published;
+  }
+
+  /** Puts the market back on the version the live rollout replaced */
+  async rollback(id: string, actor: string, now = new Date()): Promise<MenuRolloutView> {
+    const rollout = await this.prisma.menuRollout.findUnique({ where: { id } });
+    if (!rollout) {
+      throw new NotFoundException('Menu rollout not found');
+    }
+    if (rollout.status !== 'LIVE') {
+      throw new BadRequestException('Only the live rollout of a market can be rolled back');
+    }
+    const previous = rollout.previousRolloutId
+      ? await this.prisma.menuRollout.findUnique({ where: { id: rollout.previousRolloutId }, include: { version: true } })
+      : null;
+    if (!previous || previous.status !== 'SUPERSEDED') {
+      throw new BadRequestException(`No earlier version was published in ${rollout.market}`);
+    }
+
+    const result = await this.prisma.$transaction(async tx => {
+      const result = await this.applyContent(this.parseContent(previous.version), rollout.market, tx);
+      await tx.menuRollout.update({
+        where: { id },
+        data: { status: 'ROLLED_BACK', rolledBackBy: actor, rolledBackAt: now },
+      });
+      await tx.menuRollout.update({
+        where: { id: previous.id },
+        data: { status: 'LIVE', result: JSON.stringify(result) },
+      });
+      return result;
+    }, { timeout: PUBLISH_TIMEOUT_MS });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MenuRollout',
+      entityId: id,
+      action: 'ROLLBACK',
+      oldData: { versionId: rollout.versionId },
+      newData: { versionId: previous.versionId, market: rollout.market, ...result },
+    });
+    return this.getRollout(previous.id);
+  }
+
+  /**
+   * Publishes a scheduled rollout. The rollout is claimed by moving it to
+   * PUBLISHING with a compare-and-set, so only one replica publishes it; the
+   * stores and rollout statuses are then written in one transaction, so a
+   * failed publish leaves the market on its previous version.
+   */
+  private async goLive(rollout: MenuRollout, actor: string, now: Date): Promise<boolean> {
+    const claimed = await this.prisma.menuRollout.updateMany({
+      where: { id: rollout.id, status: 'SCHEDULED' },
+      data: { status: 'PUBLISHING' },
+    });
+    if (claimed.count === 0) return false;
+
+    try {
+      const version = await this.prisma.menuVersion.findUniqueOrThrow({ where: { id: rollout.versionId } });
+      const previous = await this.prisma.menuRollout.findFirst({
+        where: { market: { equals: rollout.market, mode: 'insensitive' }, status: 'LIVE', id: { not: rollout.id } },
+      });
+      const result = await this.prisma.$transaction(async tx => {
+        const result = await this.applyContent(this.parseContent(version), rollout.market, tx);
+        await tx.menuRollout.update({
+          where: { id: rollout.id },
+          data: { status: 'LIVE', publishedAt: now, previousRolloutId: previous?.id ?? null, result: JSON.stringify(result) },
+        });
+        if (rollout.market === ALL_MARKETS) {
+          // Every market now runs this version
+          await tx.menuRollout.updateMany({ where: { status: 'LIVE', id: { not: rollout.id } }, data: { status: 'SUPERSEDED' } });
+        } else if (previous) {
+          await tx.menuRollout.update({ where: { id: previous.id }, data: { status: 'SUPERSEDED' } });
+        }
+        return result;
+      }, { timeout: PUBLISH_TIMEOUT_MS });
+      await this.auditUtil.createAuditEntry({
+        actor,
+        entity: 'MenuRollout',
+        entityId: rollout.id,
+        action: 'PUBLISH',
+        newData: { versionId: version.id, number: version.number, market: rollout.market, ...result },
+      });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Menu rollout ${rollout.id} for ${rollout.market} failed: ${message}`);
+      await this.prisma.menuRollout.update({ where: { id: rollout.id }, data: { status: 'FAILED', error: message } });
+      return false;
+    }
+  }
+
+  /**
+   * Writes the version's definitions, then publishes its items to the
+   * market's stores, all through the caller's transaction. An all-markets
+   * rollout upserts the definitions; a single market only creates missing ones.
+   */
+  private async applyContent(content: MenuContent, market: string, tx: Prisma.TransactionClient): Promise<RolloutResult> {
+    await this.assertMarketCanTake(content, market, tx);
+
+    const groups = content.modifierGroups.map(({ id, name, description, minSelection, maxSelection, required, active }) =>
+      ({ id, name, description, minSelection, maxSelection, required, active }));
+    const modifiers = content.modifierGroups.flatMap(group =>
+      group.modifiers.map(modifier => ({ ...modifier, modifierGroupId: group.id })));
+
+    if (market === ALL_MARKETS) {
+      for (const { id, ...fields } of content.categories) {
+        await tx.category.upsert({ where: { id }, create: { id, ...fields }, update: fields });
+      }
+      for (const { id, ...fields } of groups) {
+        await tx.modifierGroup.upsert({ where: { id }, create: { id, ...fields }, update: fields });
+      }
+      for (const { id, modifierGroupId, ...fields } of modifiers) {
+        await tx.modifier.upsert({ where: { id }, create: { id, modifierGroupId, ...fields }, update: fields });
+      }
+    } else {
+      await tx.category.createMany({ data: content.categories, skipDuplicates: true });
+      await tx.modifierGroup.createMany({ data: groups, skipDuplicates: true });
+      await tx.modifier.createMany({ data: modifiers, skipDuplicates: true });
+    }
+
+    const { catalogue, skippedItems } = await this.catalogueOf(content);
+    const summary = await this.masterMenu.publishCatalogue(catalogue, this.scopeOf(market), { withdrawUnlisted: true }, tx);
+    return {
+      storesInScope: summary.storesInScope,
+      storesChanged: summary.storesChanged,
+      totals: summary.totals,
+      skippedItems,
+    };
+  }
+
+  /** The version's items whose master items still exist, which store items can link to */
+  private async catalogueOf(content: MenuContent): Promise<{ catalogue: CatalogueItem[]; skippedItems: string[] }> {
+    const existing = await this.prisma.masterMenuItem.findMany({
+      where: { id: { in: content.items.map(item => item.id) } },
+      select: { id: true },
+    });
+    const ids = new Set(existing.map(master => master.id));
+    return {
+      catalogue: content.items
+        .filter(item => ids.has(item.id))
+        .map(({ description, overrides, ...master }) => ({ master, overrides, description })),
+      skippedItems: content.items.filter(item => !ids.has(item.id)).map(item => item.name),
+    };
+  }
+
+  /** Refuses a single-market rollout of a version that would change definitions every market shares */
+  private async assertMarketCanTake(content: MenuContent, market: string, client: Prisma.TransactionClient): Promise<void> {
+    if (market === ALL_MARKETS) return;
+
+    const live = await this.liveDefinitions(client);
+    const diff = diffContent({ items: [], ...live }, { ...content, items: [] });
+    const changed = [...diff.categories, ...diff.modifierGroups]
+      .filter(entry => entry.change === 'changed')
+      .map(entry => entry.name);
+    if (changed.length > 0) {
+      throw new BadRequestException(
+        `This version changes ${changed.join(', ')}, which every market shares; roll it out to ${ALL_MARKETS} markets or refresh it`,
+      );
+    }
+  }
+
+  private scopeOf(market: string): PublishScope {
+    return market === ALL_MARKETS ? {} : { country: market };
+  }
+
+  private async snapshot(): Promise<MenuContent> {
+    const [catalogue, definitions] = await Promise.all([
+      this.masterMenu.loadCatalogue(),
+      this.liveDefinitions(this.prisma),
+    ]);
+
+    return {
+      items: catalogue.map(({ master, overrides, description }) => ({ ...master, description: description ?? null, overrides })),
+      ...definitions,
+    };
+  }
+
+  /** The category and modifier-group definitions the stores currently share */
+  private async liveDefinitions(client: Prisma.TransactionClient): Promise<Pick<MenuContent, 'categories' | 'modifierGroups'>> {
+    const [categories, modifierGroups] = await Promise.all([
+      client.category.findMany({ orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] }),
+      client.modifierGroup.findMany({ include: { modifiers: { orderBy: { name: 'asc' } } }, orderBy: { name: 'asc' } }),
+    ]);
+
+    return {
+      categories: categories.map(({ id, name, description, sortOrder, active }) => ({ id, name, description, sortOrder, active })),
+      modifierGroups: modifierGroups.map(group => ({
+        id: group.id,
+        name: group.name,
+        description: group.description,
+        minSelection: group.minSelection,
+        maxSelection: group.maxSelection,
+        required: group.required,
+        active: group.active,
+        modifiers: group.modifiers.map(modifier => ({
+          id: modifier.id,
+          name: modifier.name,
+          priceAdjustment: Number(modifier.priceAdjustment),
+          active: modifier.active,
+        })),
+      })),
+    };
+  }
+
+  private async editDraft(
+    id: string,
+    actor: string,
+    action: string,
+    edit: (content: MenuContent) => Promise<MenuContent>,
+  ): Promise<MenuVersionView> {
+    const version = await this.findDraft(id);
+    const before = this.parseContent(version);
+    const after = await edit(this.parseContent(version));
+
+    await this.prisma.menuVersion.update({ where: { id }, data: { content: JSON.stringify(after) } });
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'MenuVersion',
+      entityId: id,
+      action,
+      newData: { ...diffContent(before, after) },
+    });
+    return this.get(id);
+  }
+
+  private async transition(
+    id: string,
+    from: VersionStatus,
+    to: VersionStatus,
+    data: Record<string, unknown>,
+    actor: string,
+    action: string,
+  ): Promise<MenuVersionView> {
+    const claimed = await this.prisma.menuVersion.updateMany({ where: { id, status: from }, data: { status: to, ...data } });
+    if (claimed.count === 0) {
+      await this.get(id);
+      throw new BadRequestException(`Only versions in ${from} can be moved to ${to}`);
+    }
+    await this.auditUtil.createAuditEntry({ actor, entity: 'MenuVersion', entityId: id, action, newData: { status: to, ...data } });
+    return this.get(id);
+  }
+
+  private async findDraft(id: string): Promise<MenuVersion> {
+    const version = await this.prisma.menuVersion.findUnique({ where: { id } });
+    if (!version) {
+      throw new NotFoundException('Menu version not found');
+    }
+    if (version.status !== 'DRAFT') {
+      throw new BadRequestException('Only draft versions can be changed');
+    }
+    return version;
+  }
+
+  private assertReferences(content: MenuContent, categoryIds?: string[], modifierGroupIds?: string[]): void {
+    const unknownCategories = (categoryIds ?? []).filter(id => !content.categories.some(category => category.id === id));
+    if (unknownCategories.length > 0) {
+      throw new BadRequestException(`Unknown category id(s): ${unknownCategories.join(', ')}`);
+    }
+    const unknownGroups = (modifierGroupIds ?? []).filter(id => !content.modifierGroups.some(group => group.id === id));
+    if (unknownGroups.length > 0) {
+      throw new BadRequestException(`Unknown modifier group id(s): ${unknownGroups.join(', ')}`);
+    }
+  }
+
+  private parseContent(version: Pick<MenuVersion, 'content'>): MenuContent {
+    try {
+      const parsed = JSON.parse(version.content);
+      return {
+        items: Array.isArray(parsed.items) ? parsed.items : [],
+        categories: Array.isArray(parsed.categories) ? parsed.categories : [],
+        modifierGroups: Array.isArray(parsed.modifierGroups) ? parsed.modifierGroups : [],
+      };
+    } catch {
+      return { items: [], categories: [], modifierGroups: [] };
+    }
+  }
+
+  private toSummary({ content: raw, ...rest }: MenuVersion, liveMarkets: string[]): MenuVersionSummary {
+    const content = this.parseContent({ content: raw });
+    return {
+      ...rest,
+      counts: { items: content.items.length, categories: content.categories.length, modifierGroups: content.modifierGroups.length },
+      liveMarkets,
+    };
+  }
+
+  private toRolloutView(rollout: MenuRollout & { version: { id: string; number: number; name: string } }): MenuRolloutView {
+    let result: RolloutResult | null = null;
+    if (rollout.result) {
+      try {
+        result = JSON.parse(rollout.result);
+      } catch {
+        result = null;
+      }
+    }
+    return { ...rollout, result };
+  }
+}
+
+function stripUndefined<T extends Record<string, unknown>>(patch: T): Partial<T> {
+  return Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
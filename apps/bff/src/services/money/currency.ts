@@ -0,0 +1,105 @@
+import { BadRequestException } from '@nestjs/common';
+import { countryCode } from '../hours/public-holidays';
+
+/** Currency used for stores whose country we cannot place */
+export const FALLBACK_CURRENCY = 'GBP';
+
+/** Pivot for cross rates when no direct pair is on file */
+export const PIVOT_CURRENCY = 'EUR';
+
+const EURO_COUNTRIES = [
+  'AT', 'BE', 'HR', 'CY', 'EE', 'FI', 'FR', 'DE', 'GR', 'IE', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PT', 'SK', 'SI', 'ES',
+];
+
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  ...Object.fromEntries(EURO_COUNTRIES.map(code => [code, 'EUR'])),
+  GB: 'GBP', UK: 'GBP', CH: 'CHF', LI: 'CHF', SE: 'SEK', NO: 'NOK', DK: 'DKK', IS: 'ISK', PL: 'PLN', CZ: 'CZK',
+  HU: 'HUF', RO: 'RON', BG: 'BGN', TR: 'TRY', AE: 'AED', SA: 'SAR', QA: 'QAR', KW: 'KWD', OM: 'OMR', BH: 'BHD',
+  JO: 'JOD', IL: 'ILS', EG: 'EGP', MA: 'MAD', DZ: 'DZD', TN: 'TND', ZA: 'ZAR', NG: 'NGN', KE: 'KES', US: 'USD',
+};
+
+/** Default ISO 4217 currency for a store's country (name or code), if known */
+export function countryCurrency(country: string | null | undefined): string | undefined {
+  const code = countryCode(country);
+  return code ? COUNTRY_CURRENCIES[code] : undefined;
+}
+
+/** The currency a store trades in: its own setting, else its country's */
+export function storeCurrency(store: { currency?: string | null; country?: string | null }): string {
+  return store.currency ?? countryCurrency(store.country) ?? FALLBACK_CURRENCY;
+}
+
+/** Upper-cased ISO 4217 code, or a BadRequest for anything that is not one */
+export function normaliseCurrency(value: string): string {
+  const code = value.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new BadRequestException(`${value} is not an ISO 4217 currency code`);
+  }
+  return code;
+}
+
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export interface FxRateEntry {
+  base: string;
+  quote: string;
+  /** Units of quote per one unit of base */
+  rate: number;
+  effectiveFrom: Date;
+}
+
+/**
+ * Converts amounts between currencies at the rate in effect on a given date.
+ * A pair is looked up directly, then inverted, then crossed through the pivot
+ * currency, so the rate table only needs one quote per currency.
+ */
+export class CurrencyConverter {
+  private readonly pairs = new Map<string, FxRateEntry[]>();
+
+  constructor(rates: FxRateEntry[]) {
+    for (const rate of rates) {
+      const key = `${rate.base}/${rate.quote}`;
+      const list = this.pairs.get(key) ?? [];
+      list.push(rate);
+      this.pairs.set(key, list);
+    }
+    // Newest first, so the first entry at or before a date is the one in effect
+    for (const list of this.pairs.values()) {
+      list.sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime());
+    }
+  }
+
+  convert(amount: number, from: string, to: string, at: Date): number {
+    return amount * this.rate(from, to, at);
+  }
+
+  rate(from: string, to: string, at: Date): number {
+    if (from === to) return 1;
+
+    const rate = this.pairRate(from, to, at) ?? this.crossRate(from, to, at);
+    if (rate === undefined) {
+      throw new BadRequestException(`No ${from}/${to} FX rate in effect on ${at.toISOString().slice(0, 10)}`);
+    }
+    return rate;
+  }
+
+  private crossRate(from: string, to: string, at: Date): number | undefined {
+    if (from === PIVOT_CURRENCY || to === PIVOT_CURRENCY) return undefined;
+    const toPivot = this.pairRate(from, PIVOT_CURRENCY, at);
+    const fromPivot = this.pairRate(PIVOT_CURRENCY, to, at);
+    return toPivot !== undefined && fromPivot !== undefined ? toPivot * fromPivot : undefined;
+  }
+
+  private pairRate(from: string, to: string, at: Date): number | undefined {
+    const direct = this.inEffect(from, to, at);
+    if (direct) return direct.rate;
+    const inverse = this.inEffect(to, from, at);
+    return inverse ? 1 / inverse.rate : undefined;
+  }
+
+  private inEffect(base: string, quote: string, at: Date): FxRateEntry | undefined {
+    return this.pairs.get(`${base}/${quote}`)?.find(rate => rate.effectiveFrom.getTime() <= at.getTime());
+  }
+}
@@ -0,0 +1,146 @@
+import { BadRequestException, ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { FxRate, PrismaClient } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import { CurrencyConverter, normaliseCurrency, roundCurrency, storeCurrency } from './currency';
+
+export interface FxRateInput {
+  base: string;
+  quote: string;
+  rate: number;
+  effectiveFrom: Date;
+  source?: string;
+}
+
+export interface FxRateView {
+  id: string;
+  base: string;
+  quote: string;
+  rate: number;
+  effectiveFrom: Date;
+  source: string | null;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/** The order fields needed to restate a total in another currency */
+export const REPORTABLE_ORDER_SELECT = {
+  total: true,
+  currency: true,
+  createdAt: true,
+  Store: { select: { currency: true, country: true } },
+} as const;
+
+export interface ReportableOrder {
+  total: { toString(): string } | number;
+  /** Orders placed before currencies were recorded fall back to the store's */
+  currency: string | null;
+  createdAt: Date;
+  Store: { currency: string | null; country: string | null };
+}
+
+/**
+ * Dated FX rates and conversion of order totals into a reporting currency.
+ * Each order converts at the rate in effect when it was placed, so past
+ * reports do not move when a new rate is added.
+ */
+@Injectable()
+export class FxService {
+  private readonly auditUtil: ReturnType<typeof createAuditUtil>;
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {
+    this.auditUtil = createAuditUtil(prisma);
+  }
+
+  async list(filter: { base?: string; quote?: string } = {}): Promise<FxRateView[]> {
+    const rates = await this.prisma.fxRate.findMany({
+      where: {
+        base: filter.base ? normaliseCurrency(filter.base) : undefined,
+        quote: filter.quote ? normaliseCurrency(filter.quote) : undefined,
+      },
+      orderBy: [{ base: 'asc' }, { quote: 'asc' }, { effectiveFrom: 'desc' }],
+    });
+    return rates.map(toView);
+  }
+
+  async create(input: FxRateInput, actor: string): Promise<FxRateView> {
+    const base = normaliseCurrency(input.base);
+    const quote = normaliseCurrency(input.quote);
+    if (base === quote) {
+      throw new BadRequestException('Base and quote currencies must differ');
+    }
+    if (!Number.isFinite(input.rate) || input.rate <= 0) {
+      throw new BadRequestException('Rate must be greater than zero');
+    }
+
+    const existing = await this.prisma.fxRate.findUnique({
+      where: { base_quote_effectiveFrom: { base, quote, effectiveFrom: input.effectiveFrom } },
+    });
+    if (existing) {
+      throw new ConflictException(`A ${base}/${quote} rate already starts at ${input.effectiveFrom.toISOString()}`);
+    }
+
+    const rate = await this.prisma.fxRate.create({
+      data: { base, quote, rate: input.rate, effectiveFrom: input.effectiveFrom, source: input.source, createdBy: actor },
+    });
+
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'FxRate',
+      entityId: rate.id,
+      action: 'CREATE',
+      newData: toView(rate) as unknown as Record<string, unknown>,
+    });
+    return toView(rate);
+  }
+
+  async remove(id: string, actor: string): Promise<void> {
+    const rate = await this.prisma.fxRate.findUnique({ where: { id } });
+    if (!rate) {
+      throw new NotFoundException(`FX rate ${id} not found`);
+    }
+    await this.prisma.fxRate.delete({ where: { id } });
+
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'FxRate',
+      entityId: id,
+      action: 'DELETE',
+      oldData: toView(rate) as unknown as Record<string, unknown>,
+    });
+  }
+
+  /** Converter over every rate that has taken effect by `until` */
+  async converter(until: Date = new Date()): Promise<CurrencyConverter> {
+    const rates = await this.prisma.fxRate.findMany({ where: { effectiveFrom: { lte: until } } });
+    return new CurrencyConverter(rates.map(rate => ({ ...rate, rate: Number(rate.rate) })));
+  }
+
+  async convert(amount: number, from: string, to: string, at: Date = new Date()): Promise<{ amount: number; rate: number }> {
+    const converter = await this.converter(at);
+    const rate = converter.rate(normaliseCurrency(from), normaliseCurrency(to), at);
+    return { amount: roundCurrency(amount * rate), rate };
+  }
+
+  /**
+   * Function restating order totals in `currency`. Throws a BadRequest for an
+   * order whose currency has no rate on its date.
+   */
+  async orderConverter(currency: string): Promise<(order: ReportableOrder) => number> {
+    const to = normaliseCurrency(currency);
+    const converter = await this.converter();
+    return order => converter.convert(Number(order.total), order.currency ?? storeCurrency(order.Store), to, order.createdAt);
+  }
+}
+
+function toView(rate: FxRate): FxRateView {
+  return {
+    id: rate.id,
+    base: rate.base,
+    quote: rate.quote,
+    rate: Number(rate.rate),
+    effectiveFrom: rate.effectiveFrom,
+    source: rate.source,
+    createdBy: rate.createdBy,
+    createdAt: rate.createdAt,
+  };
+}
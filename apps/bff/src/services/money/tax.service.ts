@@ -0,0 +1,231 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import { countryCode } from '../hours/public-holidays';
+import { NO_TAX, TaxBreakdown, TaxRules, applyTax } from './tax';
+
+export interface TaxSettingInput {
+  pricesIncludeTax?: boolean;
+  standardRate: number;
+}
+
+export interface TaxCategoryRateView {
+  categoryId: string;
+  categoryName: string;
+  rate: number;
+}
+
+export interface TaxSettingView {
+  country: string;
+  pricesIncludeTax: boolean;
+  standardRate: number;
+  categoryRates: TaxCategoryRateView[];
+  updatedBy: string;
+  updatedAt: Date;
+}
+
+const settingInclude = {
+  categoryRates: { include: { category: { select: { name: true } } } },
+} as const;
+
+/**
+ * VAT and sales tax rates per country, with reduced rates for individual menu
+ * categories. Orders are taxed with the rules of their store's country.
+ */
+@Injectable()
+export class TaxService {
+  private readonly auditUtil: ReturnType<typeof createAuditUtil>;
+
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {
+    this.auditUtil = createAuditUtil(prisma);
+  }
+
+  async list(): Promise<TaxSettingView[]> {
+    const settings = await this.prisma.taxSetting.findMany({
+      include: settingInclude,
+      orderBy: { country: 'asc' },
+    });
+    return settings.map(toView);
+  }
+
+  async get(country: string): Promise<TaxSettingView> {
+    const code = requireTaxCountry(country);
+    const setting = await this.prisma.taxSetting.findUnique({ where: { country: code }, include: settingInclude });
+    if (!setting) {
+      throw new NotFoundException(`No tax setting for ${code}`);
+    }
+    return toView(setting);
+  }
+
+  async upsert(country: string, input: TaxSettingInput, actor: string): Promise<TaxSettingView> {
+    const code = requireTaxCountry(country);
+    assertRate(input.standardRate);
+    const before = await this.prisma.taxSetting.findUnique({ where: { country: code } });
+
+    await this.prisma.taxSetting.upsert({
+      where: { country: code },
+      create: {
+        country: code,
+        pricesIncludeTax: input.pricesIncludeTax ?? true,
+        standardRate: input.standardRate,
+        updatedBy: actor,
+      },
+      update: {
+        pricesIncludeTax: input.pricesIncludeTax,
+        standardRate: input.standardRate,
+        updatedBy: actor,
+      },
+    });
+    const after = await this.get(code);
+
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'TaxSetting',
+      entityId: code,
+      action: before ? 'UPDATE' : 'CREATE',
+      oldData: before ? { pricesIncludeTax: before.pricesIncludeTax, standardRate: Number(before.standardRate) } : undefined,
+      newData: { pricesIncludeTax: after.pricesIncludeTax, standardRate: after.standardRate },
+    });
+    return after;
+  }
+
+  async remove(country: string, actor: string): Promise<void> {
+    const before = await this.get(country);
+    await this.prisma.taxSetting.delete({ where: { country: before.country } });
+
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'TaxSetting',
+      entityId: before.country,
+      action: 'DELETE',
+      oldData: before as unknown as Record<string, unknown>,
+    });
+  }
+
+  async setCategoryRate(country: string, categoryId: string, rate: number, actor: string): Promise<TaxSettingView> {
+    const setting = await this.get(country);
+    assertRate(rate);
+    const category = await this.prisma.category.findUnique({ where: { id: categoryId } });
+    if (!category) {
+      throw new NotFoundException(`Category ${categoryId} not found`);
+    }
+    const before = setting.categoryRates.find(entry => entry.categoryId === categoryId);
+
+    await this.prisma.taxCategoryRate.upsert({
+      where: { country_categoryId: { country: setting.country, categoryId } },
+      create: { country: setting.country, categoryId, rate, updatedBy: actor },
+      update: { rate, updatedBy: actor },
+    });
+
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'TaxSetting',
+      entityId: setting.country,
+      action: 'SET_CATEGORY_RATE',
+      oldData: before ? { categoryId, rate: before.rate } : undefined,
+      newData: { categoryId, rate },
+    });
+    return this.get(setting.country);
+  }
+
+  async removeCategoryRate(country: string, categoryId: string, actor: string): Promise<TaxSettingView> {
+    const setting = await this.get(country);
+    const before = setting.categoryRates.find(entry => entry.categoryId === categoryId);
+    if (!before) {
+      throw new NotFoundException(`No ${setting.country} tax rate for category ${categoryId}`);
+    }
+
+    await this.prisma.taxCategoryRate.delete({
+      where: { country_categoryId: { country: setting.country, categoryId } },
+    });
+
+    await this.auditUtil.createAuditEntry({
+      actor,
+      entity: 'TaxSetting',
+      entityId: setting.country,
+      action: 'REMOVE_CATEGORY_RATE',
+      oldData: { categoryId, rate: before.rate },
+    });
+    return this.get(setting.country);
+  }
+
+  /** Tax rules for a store's country (name or code); untaxed when none are set */
+  async rulesFor(country: string | null | undefined): Promise<TaxRules> {
+    const code = taxCountry(country);
+    if (!code) return NO_TAX;
+
+    const setting = await this.prisma.taxSetting.findUnique({
+      where: { country: code },
+      include: { categoryRates: true },
+    });
+    if (!setting) return NO_TAX;
+
+    return {
+      pricesIncludeTax: setting.pricesIncludeTax,
+      standardRate: Number(setting.standardRate),
+      categoryRates: Object.fromEntries(setting.categoryRates.map(entry => [entry.categoryId, Number(entry.rate)])),
+    };
+  }
+
+  /** Net, tax and gross for priced order lines sold in the given country */
+  async taxOrder(
+    country: string | null | undefined,
+    lines: Array<{ menuItemId: string; subtotal: number }>,
+  ): Promise<TaxBreakdown> {
+    const [rules, links] = await Promise.all([
+      this.rulesFor(country),
+      this.prisma.menuItemCategory.findMany({
+        where: { menuItemId: { in: [...new Set(lines.map(line => line.menuItemId))] } },
+        select: { menuItemId: true, categoryId: true },
+      }),
+    ]);
+
+    return applyTax(rules, lines.map(line => ({
+      amount: line.subtotal,
+      categoryIds: links.filter(link => link.menuItemId === line.menuItemId).map(link => link.categoryId),
+    })));
+  }
+}
+
+/**
+ * Settings are keyed by ISO code, with the UK filed under GB so stores
+ * entered either way share one setting.
+ */
+function taxCountry(country: string | null | undefined): string | undefined {
+  const code = countryCode(country);
+  return code === 'UK' ? 'GB' : code;
+}
+
+function requireTaxCountry(country: string): string {
+  const code = taxCountry(country);
+  if (!code) {
+    throw new BadRequestException(`Unknown country ${country}`);
+  }
+  return code;
+}
+
+function assertRate(rate: number): void {
+  if (!Number.isFinite(rate) || rate < 0 || rate >= 1) {
+    throw new BadRequestException('Tax rates are fractions between 0 and 1, e.g. 0.2 for 20%');
+  }
+}
+
+function toView(setting: {
+  country: string;
+  pricesIncludeTax: boolean;
+  standardRate: unknown;
+  updatedBy: string;
+  updatedAt: Date;
+  categoryRates: Array<{ categoryId: string; rate: unknown; category: { name: string } }>;
+}): TaxSettingView {
+  return {
+    country: setting.country,
+    pricesIncludeTax: setting.pricesIncludeTax,
+    standardRate: Number(setting.standardRate),
+    categoryRates: setting.categoryRates
+      .map(entry => ({ categoryId: entry.categoryId, categoryName: entry.category.name, rate: Number(entry.rate) }))
+      .sort((a, b) => a.categoryName.localeCompare(b.categoryName)),
+    updatedBy: setting.updatedBy,
+    updatedAt: setting.updatedAt,
+  };
+}
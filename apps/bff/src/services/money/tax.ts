@@ -0,0 +1,59 @@
+import { roundCurrency } from './currency';
+
+export interface TaxRules {
+  /** Menu prices already include tax (VAT style) rather than having it added at the till */
+  pricesIncludeTax: boolean;
+  standardRate: number;
+  /** Reduced or zero rates by category id */
+  categoryRates: Record<string, number>;
+}
+
+export interface TaxedLine {
+  taxRate: number;
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+export interface TaxBreakdown {
+  lines: TaxedLine[];
+  netTotal: number;
+  taxTotal: number;
+  grossTotal: number;
+}
+
+/** Countries without a tax setting are priced as if untaxed */
+export const NO_TAX: TaxRules = { pricesIncludeTax: true, standardRate: 0, categoryRates: {} };
+
+/**
+ * Rate for an item in the given categories. A category rate replaces the
+ * standard rate; an item in several rated categories takes the highest, so
+ * tax is never under-declared.
+ */
+export function itemTaxRate(rules: TaxRules, categoryIds: string[]): number {
+  const rates = categoryIds
+    .map(id => rules.categoryRates[id])
+    .filter((rate): rate is number => rate !== undefined);
+  return rates.length > 0 ? Math.max(...rates) : rules.standardRate;
+}
+
+/** Splits a priced line into net, tax and gross */
+export function taxLine(amount: number, rate: number, pricesIncludeTax: boolean): TaxedLine {
+  if (pricesIncludeTax) {
+    const tax = roundCurrency(amount * rate / (1 + rate));
+    return { taxRate: rate, net: roundCurrency(amount - tax), tax, gross: amount };
+  }
+  const tax = roundCurrency(amount * rate);
+  return { taxRate: rate, net: amount, tax, gross: roundCurrency(amount + tax) };
+}
+
+/** Taxes each line at its own rate; totals are the sums of the rounded lines */
+export function applyTax(rules: TaxRules, lines: Array<{ amount: number; categoryIds: string[] }>): TaxBreakdown {
+  const taxed = lines.map(line => taxLine(line.amount, itemTaxRate(rules, line.categoryIds), rules.pricesIncludeTax));
+  return {
+    lines: taxed,
+    netTotal: roundCurrency(taxed.reduce((sum, line) => sum + line.net, 0)),
+    taxTotal: roundCurrency(taxed.reduce((sum, line) => sum + line.tax, 0)),
+    grossTotal: roundCurrency(taxed.reduce((sum, line) => sum + line.gross, 0)),
+  };
+}
@@ -0,0 +1,248 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+
+export interface OrderLineRequest {
+  menuItemId: string;
+  quantity: number;
+  modifierIds?: string[];
+}
+
+export interface PricingModifier {
+  id: string;
+  name: string;
+  priceAdjustment: number;
+  active: boolean;
+}
+
+export interface PricingModifierGroup {
+  id: string;
+  name: string;
+  minSelection: number;
+  maxSelection: number | null;
+  required: boolean;
+  active: boolean;
+  modifiers: PricingModifier[];
+}
+
+export interface PricingMenuItem {
+  id: string;
+  name: string;
+  price: number;
+  modifierGroups: PricingModifierGroup[];
+}
+
+export interface PricingOverride {
+  id: string;
+  menuItemId: string;
+  price: number;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+}
+
+export interface PricedModifier {
+  modifierId: string;
+  modifierGroupId: string;
+  name: string;
+  priceAdjustment: number;
+}
+
+export interface PricedOrderLine {
+  menuItemId: string;
+  quantity: number;
+  basePrice: number;
+  priceOverrideId: string | null;
+  unitPrice: number;
+  subtotal: number;
+  modifiers: PricedModifier[];
+}
+
+export interface PricedOrder {
+  lines: PricedOrderLine[];
+  total: number;
+}
+
+/**
+ * Prices order lines the way the menu team configured them: the active store
+ * PriceOverride (if any) replaces the list price, and selected modifiers are
+ * validated against their group rules before their adjustments are applied.
+ */
+@Injectable()
+export class OrderPricingService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async priceOrder(storeId: string, lines: OrderLineRequest[], at: Date = new Date()): Promise<PricedOrder> {
+    const menuItemIds = [...new Set(lines.map(line => line.menuItemId))];
+
+    const [menuItems, overrides] = await Promise.all([
+      this.prisma.menuItem.findMany({
+        where: { id: { in: menuItemIds }, storeId, active: true },
+        select: {
+          id: true,
+          name: true,
+          price: true,
+          modifiers: {
+            select: {
+              modifierGroup: {
+                select: {
+                  id: true,
+                  name: true,
+                  minSelection: true,
+                  maxSelection: true,
+                  required: true,
+                  active: true,
+                  modifiers: {
+                    select: { id: true, name: true, priceAdjustment: true, active: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }),
+      this.prisma.priceOverride.findMany({
+        where: {
+          storeId,
+          menuItemId: { in: menuItemIds },
+          effectiveFrom: { lte: at },
+          OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+        },
+        select: { id: true, menuItemId: true, price: true, effectiveFrom: true, effectiveTo: true },
+      }),
+    ]);
+
+    if (menuItems.length !== menuItemIds.length) {
+      throw new BadRequestException('One or more menu items not found or inactive');
+    }
+
+    const items: PricingMenuItem[] = menuItems.map(item => ({
+      id: item.id,
+      name: item.name,
+      price: Number(item.price),
+      modifierGroups: item.modifiers.map(({ modifierGroup }) => ({
+        ...modifierGroup,
+        modifiers: modifierGroup.modifiers.map(m => ({ ...m, priceAdjustment: Number(m.priceAdjustment) })),
+      })),
+    }));
+
+    return this.calculate(
+      lines,
+      items,
+      overrides.map(o => ({ ...o, price: Number(o.price) })),
+      at,
+    );
+  }
+
+  /**
+   * Pure pricing step, separated from data loading so it can be exercised
+   * without a database.
+   */
+  calculate(
+    lines: OrderLineRequest[],
+    menuItems: PricingMenuItem[],
+    overrides: PricingOverride[],
+    at: Date = new Date(),
+  ): PricedOrder {
+    const itemMap = new Map(menuItems.map(item => [item.id, item]));
+
+    const pricedLines = lines.map(line => {
+      const menuItem = itemMap.get(line.menuItemId);
+      if (!menuItem) {
+        throw new BadRequestException(`Menu item ${line.menuItemId} not found`);
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+        throw new BadRequestException(`Invalid quantity for ${menuItem.name}`);
+      }
+
+      const override = this.resolveOverride(menuItem.id, overrides, at);
+      const basePrice = override ? override.price : menuItem.price;
+      const modifiers = this.resolveModifiers(menuItem, line.modifierIds ?? []);
+      const unitPrice = roundCurrency(basePrice + modifiers.reduce((sum, m) => sum + m.priceAdjustment, 0));
+
+      if (unitPrice < 0) {
+        throw new BadRequestException(`Modifier adjustments make ${menuItem.name} negatively priced`);
+      }
+
+      return {
+        menuItemId: menuItem.id,
+        quantity: line.quantity,
+        basePrice,
+        priceOverrideId: override?.id ?? null,
+        unitPrice,
+        subtotal: roundCurrency(unitPrice * line.quantity),
+        modifiers,
+      };
+    });
+
+    return {
+      lines: pricedLines,
+      total: roundCurrency(pricedLines.reduce((sum, line) => sum + line.subtotal, 0)),
+    };
+  }
+
+  /**
+   * Picks the override in effect at `at`. When windows overlap, the one that
+   * started most recently wins.
+   */
+  resolveOverride(menuItemId: string, overrides: PricingOverride[], at: Date): PricingOverride | null {
+    const active = overrides.filter(o =>
+      o.menuItemId === menuItemId &&
+      o.effectiveFrom.getTime() <= at.getTime() &&
+      (!o.effectiveTo || o.effectiveTo.getTime() > at.getTime())
+    );
+
+    if (active.length === 0) return null;
+
+    return active.reduce((latest, o) =>
+      o.effectiveFrom.getTime() > latest.effectiveFrom.getTime() ? o : latest
+    );
+  }
+
+  private resolveModifiers(menuItem: PricingMenuItem, modifierIds: string[]): PricedModifier[] {
+    if (new Set(modifierIds).size !== modifierIds.length) {
+      throw new BadRequestException(`Duplicate modifier selected for ${menuItem.name}`);
+    }
+
+    const groups = menuItem.modifierGroups.filter(group => group.active);
+    const selected: PricedModifier[] = [];
+
+    for (const modifierId of modifierIds) {
+      const group = groups.find(g => g.modifiers.some(m => m.id === modifierId));
+      const modifier = group?.modifiers.find(m => m.id === modifierId);
+
+      if (!group || !modifier) {
+        throw new BadRequestException(`Modifier ${modifierId} is not available for ${menuItem.name}`);
+      }
+      if (!modifier.active) {
+        throw new BadRequestException(`Modifier ${modifier.name} is inactive`);
+      }
+
+      selected.push({
+        modifierId: modifier.id,
+        modifierGroupId: group.id,
+        name: modifier.name,
+        priceAdjustment: modifier.priceAdjustment,
+      });
+    }
+
+    for (const group of groups) {
+      const count = selected.filter(m => m.modifierGroupId === group.id).length;
+
+      if (group.required && count === 0) {
+        throw new BadRequestException(`${group.name} selection is required for ${menuItem.name}`);
+      }
+      // An optional group with nothing picked is fine; once anything is picked the minimum applies
+      if (count > 0 && count < group.minSelection) {
+        throw new BadRequestException(`${group.name} requires at least ${group.minSelection} selection(s)`);
+      }
+      if (group.maxSelection !== null && count > group.maxSelection) {
+        throw new BadRequestException(`${group.name} allows at most ${group.maxSelection} selection(s)`);
+      }
+    }
+
+    return selected;
+  }
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,395 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { createAuditUtil } from '../../util/audit.util';
+import { findEmeaCountry } from '../../util/emea';
+
+export const PIPELINE_STAGES = [
+  'IDENTIFIED',
+  'SHORTLISTED',
+  'SITE_VISIT',
+  'LOI',
+  'LEASE_SIGNED',
+  'BUILD_OUT',
+  'OPENED',
+  'ABANDONED',
+] as const;
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+export interface ChecklistItemDefinition {
+  key: string;
+  label: string;
+}
+
+export interface StageDefinition {
+  stage: PipelineStage;
+  label: string;
+  /** Items that must be ticked off before the site can move to the next stage */
+  checklist: ChecklistItemDefinition[];
+  terminal: boolean;
+}
+
+export const STAGE_DEFINITIONS: StageDefinition[] = [
+  {
+    stage: 'IDENTIFIED',
+    label: 'Identified',
+    checklist: [{ key: 'desk_review', label: 'Desk review of catchment and competitors' }],
+    terminal: false,
+  },
+  {
+    stage: 'SHORTLISTED',
+    label: 'Shortlisted',
+    checklist: [
+      { key: 'landlord_contacted', label: 'Landlord or agent contacted' },
+      { key: 'visit_booked', label: 'Site visit booked' },
+    ],
+    terminal: false,
+  },
+  {
+    stage: 'SITE_VISIT',
+    label: 'Site visit',
+    checklist: [
+      { key: 'visit_report', label: 'Visit report with photos filed' },
+      { key: 'footfall_count', label: 'Footfall count taken' },
+      { key: 'franchisee_identified', label: 'Franchisee identified' },
+    ],
+    terminal: false,
+  },
+  {
+    stage: 'LOI',
+    label: 'Letter of intent',
+    checklist: [
+      { key: 'loi_signed', label: 'Letter of intent signed' },
+      { key: 'legal_review', label: 'Lease draft reviewed by legal' },
+      { key: 'investment_approved', label: 'Investment approved' },
+    ],
+    terminal: false,
+  },
+  {
+    stage: 'LEASE_SIGNED',
+    label: 'Lease signed',
+    checklist: [
+      { key: 'permits_granted', label: 'Planning and trading permits granted' },
+      { key: 'contractor_appointed', label: 'Fit-out contractor appointed' },
+    ],
+    terminal: false,
+  },
+  {
+    stage: 'BUILD_OUT',
+    label: 'Build-out',
+    checklist: [
+      { key: 'fit_out_complete', label: 'Fit-out complete' },
+      { key: 'hygiene_inspection', label: 'Food hygiene inspection passed' },
+      { key: 'staff_trained', label: 'Staff hired and trained' },
+    ],
+    terminal: false,
+  },
+  { stage: 'OPENED', label: 'Opened', checklist: [], terminal: true },
+  { stage: 'ABANDONED', label: 'Abandoned', checklist: [], terminal: true },
+];
+
+export interface ChecklistEntry {
+  completedBy: string;
+  completedAt: string;
+  note?: string;
+}
+
+export interface AddSiteInput {
+  suggestionId: string;
+  name?: string;
+  city?: string;
+  address?: string;
+  owner?: string;
+  dueDate?: Date;
+}
+
+export interface SiteAssignment {
+  owner?: string | null;
+  dueDate?: Date | null;
+}
+
+export interface StageTransition {
+  stage: PipelineStage;
+  owner?: string;
+  dueDate?: Date;
+  note?: string;
+  /** Required when abandoning */
+  reason?: string;
+}
+
+export interface PipelineFilters {
+  stage?: PipelineStage;
+  scenarioId?: string;
+  owner?: string;
+}
+
+const SITE_INCLUDE = {
+  store: { select: { id: true, name: true, city: true, country: true, status: true, latitude: true, longitude: true } },
+  suggestion: { select: { id: true, confidence: true, band: true, status: true, rationaleText: true } },
+  scenario: { select: { id: true, label: true } },
+} as const;
+
+export type PipelineSiteWithLinks = Prisma.PipelineSiteGetPayload<{ include: typeof SITE_INCLUDE }>;
+export type PipelineSiteDetail = Prisma.PipelineSiteGetPayload<{
+  include: typeof SITE_INCLUDE & { stageChanges: true };
+}>;
+
+// Store.status for each stage; the site is a Planned store until it opens or is dropped
+const STORE_STATUS: Partial<Record<PipelineStage, string>> = {
+  OPENED: 'Open',
+  ABANDONED: 'Abandoned',
+};
+
+/**
+ * Site acquisition pipeline. A site enters from an ExpansionSuggestion,
+ * which creates its Planned store, and moves forward one stage at a time
+ * once the current stage's checklist is complete. It can be sent back to any
+ * earlier stage or abandoned from any open stage.
+ */
+@Injectable()
+export class SitePipelineService {
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  stages(): StageDefinition[] {
+    return STAGE_DEFINITIONS;
+  }
+
+  async list(filters: PipelineFilters = {}): Promise<PipelineSiteWithLinks[]> {
+    return this.prisma.pipelineSite.findMany({
+      where: {
+        stage: filters.stage,
+        scenarioId: filters.scenarioId,
+        owner: filters.owner,
+      },
+      include: SITE_INCLUDE,
+      orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+    });
+  }
+
+  async get(id: string): Promise<PipelineSiteDetail> {
+    const site = await this.prisma.pipelineSite.findUnique({
+      where: { id },
+      include: { ...SITE_INCLUDE, stageChanges: { orderBy: { changedAt: 'asc' } } },
+    });
+    if (!site) {
+      throw new NotFoundException('Pipeline site not found');
+    }
+    return site;
+  }
+
+  /** Puts a suggestion into the pipeline, creating its Planned store */
+  async addFromSuggestion(input: AddSiteInput, actor: string): Promise<PipelineSiteDetail> {
+    const suggestion = await this.prisma.expansionSuggestion.findUnique({
+      where: { id: input.suggestionId },
+      include: { scenario: { select: { id: true, regionFilter: true } }, pipelineSite: { select: { id: true } } },
+    });
+    if (!suggestion) {
+      throw new NotFoundException('Suggestion not found');
+    }
+    if (suggestion.pipelineSite) {
+      throw new BadRequestException('Suggestion is already in the pipeline');
+    }
+
+    const country = this.scenarioCountry(suggestion.scenario.regionFilter);
+    const site = await this.prisma.$transaction(async (tx) => {
+      const store = await tx.store.create({
+        data: {
+          name:
+            input.name?.trim() ||
+            (input.city ? `${input.city} - Planned` : `Planned Location ${suggestion.lat.toFixed(4)}, ${suggestion.lng.toFixed(4)}`),
+          city: input.city ?? null,
+          address: input.address ?? null,
+          country,
+          region: country && findEmeaCountry(country) ? 'EMEA' : null,
+          status: 'Planned',
+          latitude: suggestion.lat,
+          longitude: suggestion.lng,
+          isAISuggested: true,
+        },
+      });
+
+      if (suggestion.status === 'NEW' || suggestion.status === 'HOLD') {
+        await tx.expansionSuggestion.update({ where: { id: suggestion.id }, data: { status: 'APPROVED' } });
+      }
+
+      return tx.pipelineSite.create({
+        data: {
+          suggestionId: suggestion.id,
+          scenarioId: suggestion.scenario.id,
+          storeId: store.id,
+          owner: input.owner,
+          dueDate: input.dueDate,
+          createdBy: actor,
+          stageChanges: {
+            create: { toStage: 'IDENTIFIED', owner: input.owner, dueDate: input.dueDate, changedBy: actor },
+          },
+        },
+      });
+    });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'PipelineSite',
+      entityId: site.id,
+      action: 'CREATE',
+      newData: { suggestionId: suggestion.id, scenarioId: suggestion.scenario.id, storeId: site.storeId },
+    });
+
+    return this.get(site.id);
+  }
+
+  async assign(id: string, assignment: SiteAssignment, actor: string): Promise<PipelineSiteDetail> {
+    const site = await this.get(id);
+
+    await this.prisma.pipelineSite.update({
+      where: { id },
+      data: {
+        owner: assignment.owner === undefined ? undefined : assignment.owner,
+        dueDate: assignment.dueDate === undefined ? undefined : assignment.dueDate,
+      },
+    });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'PipelineSite',
+      entityId: id,
+      action: 'UPDATE',
+      oldData: { owner: site.owner, dueDate: site.dueDate },
+      newData: { owner: assignment.owner ?? site.owner, dueDate: assignment.dueDate ?? site.dueDate },
+    });
+
+    return this.get(id);
+  }
+
+  /** Ticks or unticks an item on the current stage's checklist */
+  async setChecklistItem(
+    id: string,
+    itemKey: string,
+    done: boolean,
+    actor: string,
+    note?: string,
+  ): Promise<PipelineSiteDetail> {
+    const site = await this.get(id);
+    const stage = this.definition(site.stage);
+    if (!stage.checklist.some((item) => item.key === itemKey)) {
+      throw new BadRequestException(`"${itemKey}" is not on the ${stage.label} checklist`);
+    }
+
+    const checklist = this.parseChecklist(site.checklist);
+    if (done) {
+      checklist[itemKey] = { completedBy: actor, completedAt: new Date().toISOString(), ...(note ? { note } : {}) };
+    } else {
+      delete checklist[itemKey];
+    }
+
+    await this.prisma.pipelineSite.update({ where: { id }, data: { checklist: JSON.stringify(checklist) } });
+    return this.get(id);
+  }
+
+  async moveToStage(id: string, transition: StageTransition, actor: string): Promise<PipelineSiteDetail> {
+    const site = await this.get(id);
+    const from = this.definition(site.stage);
+    const to = this.definition(transition.stage);
+    const fromIndex = PIPELINE_STAGES.indexOf(from.stage);
+    const toIndex = PIPELINE_STAGES.indexOf(to.stage);
+
+    if (from.stage === to.stage) {
+      throw new BadRequestException(`Site is already ${from.label}`);
+    }
+    if (from.terminal) {
+      throw new BadRequestException(`Site is ${from.label.toLowerCase()} and can no longer move`);
+    }
+    if (to.stage === 'ABANDONED') {
+      if (!transition.reason?.trim()) {
+        throw new BadRequestException('A reason is required to abandon a site');
+      }
+    } else if (toIndex > fromIndex + 1) {
+      throw new BadRequestException(`Sites move forward one stage at a time; next is ${PIPELINE_STAGES[fromIndex + 1]}`);
+    } else if (toIndex === fromIndex + 1) {
+      const missing = this.missingChecklistItems(site.stage, site.checklist);
+      if (missing.length > 0) {
+        throw new BadRequestException(
+          `Complete the ${from.label} checklist first: ${missing.map((item) => item.label).join(', ')}`,
+        );
+      }
+    }
+
+    // Checklist entries belong to the stage they were ticked in, so moving back keeps earlier ones
+    const checklist = this.parseChecklist(site.checklist);
+    const storeStatus = STORE_STATUS[to.stage];
+    const owner = transition.owner ?? site.owner;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.pipelineSite.update({
+        where: { id },
+        data: {
+          stage: to.stage,
+          stageEnteredAt: new Date(),
+          owner,
+          dueDate: transition.dueDate ?? null,
+          checklist: JSON.stringify(checklist),
+          abandonedReason: to.stage === 'ABANDONED' ? transition.reason!.trim() : null,
+        },
+      });
+      await tx.pipelineStageChange.create({
+        data: {
+          siteId: id,
+          fromStage: from.stage,
+          toStage: to.stage,
+          owner,
+          dueDate: transition.dueDate,
+          note: transition.reason?.trim() || transition.note,
+          changedBy: actor,
+        },
+      });
+      if (storeStatus) {
+        await tx.store.update({
+          where: { id: site.storeId },
+          data: { status: storeStatus, ...(to.stage === 'OPENED' ? { openedAt: new Date() } : {}) },
+        });
+      }
+    });
+
+    await createAuditUtil(this.prisma).createAuditEntry({
+      actor,
+      entity: 'PipelineSite',
+      entityId: id,
+      action: 'STAGE_CHANGE',
+      oldData: { stage: from.stage },
+      newData: { stage: to.stage },
+      metadata: transition.reason ? { reason: transition.reason } : undefined,
+    });
+
+    return this.get(id);
+  }
+
+  missingChecklistItems(stage: string, checklistJson: string): ChecklistItemDefinition[] {
+    const checklist = this.parseChecklist(checklistJson);
+    return this.definition(stage).checklist.filter((item) => !checklist[item.key]);
+  }
+
+  private definition(stage: string): StageDefinition {
+    const definition = STAGE_DEFINITIONS.find((d) => d.stage === stage);
+    if (!definition) {
+      throw new BadRequestException(`Unknown pipeline stage: ${stage}`);
+    }
+    return definition;
+  }
+
+  private parseChecklist(json: string): Record<string, ChecklistEntry> {
+    try {
+      const parsed = JSON.parse(json);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private scenarioCountry(regionFilter: string): string | null {
+    try {
+      const region = JSON.parse(regionFilter) as { country?: string };
+      return region.country ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
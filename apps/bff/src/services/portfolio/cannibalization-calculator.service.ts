@@ -1,5 +1,11 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Optional } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
+import { Router } from '@subway/routing';
+
+/** Drive time the catchments compared for network overlap are drawn at */
+const CATCHMENT_DRIVE_MINUTES = 10;
+/** Share of revenue lost to a new store on the same spot, i.e. with full overlap */
+const BASE_CANNIBALIZATION = 0.40;
 
 export interface CannibalizationImpact {
   affectedStores: Array<{
@@ -10,6 +16,8 @@ export interface CannibalizationImpact {
     lossPercentage: number;
     distance: number;
     marketOverlap: number;
+    /** 'network' when marketOverlap is the shared share of both drive-time catchments */
+    overlapMethod: 'network' | 'heuristic';
   }>;
   totalNetworkLoss: number;
   netGain: number;
@@ -36,7 +44,10 @@ export interface Store {
 
 @Injectable()
 export class CannibalizationCalculatorService {
-  constructor(private readonly prisma: PrismaClient) {}
+  constructor(
+    private readonly prisma: PrismaClient,
+    @Optional() @Inject(Router) private readonly router?: Router,
+  ) {}
 
   async calculateImpact(
     newStore: Location,
@@ -59,12 +70,11 @@ export class CannibalizationCalculatorService {
       // Only consider stores within 10km
       if (distance > 10) continue;
 
-      const marketOverlap = this.calculateMarketOverlap(newStore, store);
-      const projectedLoss = this.calculateRevenueLoss(
-        store.annualTurnover || 0,
-        distance,
-        marketOverlap
-      );
+      const networkOverlap = this.calculateNetworkOverlap(newStore, store);
+      const marketOverlap = networkOverlap ?? this.calculateMarketOverlap(newStore, store);
+      const projectedLoss = networkOverlap !== null
+        ? Math.round((store.annualTurnover || 0) * BASE_CANNIBALIZATION * networkOverlap)
+        : this.calculateRevenueLoss(store.annualTurnover || 0, distance, marketOverlap);
 
       if (projectedLoss > 0) {
         affectedStores.push({
@@ -74,7 +84,8 @@ export class CannibalizationCalculatorService {
           projectedLoss,
           lossPercentage: ((projectedLoss / (store.annualTurnover || 1)) * 100),
           distance,
-          marketOverlap
+          marketOverlap,
+          overlapMethod: networkOverlap !== null ? 'network' : 'heuristic'
         });
       }
     }
@@ -116,6 +127,20 @@ export class CannibalizationCalculatorService {
     return degrees * (Math.PI / 180);
   }
 
+  /**
+   * Share of the existing store's drive-time catchment the new store would
+   * also cover. Catchments follow the road network, so a store across a river
+   * or motorway without a crossing nearby takes little even when it is close.
+   * Null when either store is outside the loaded road graphs.
+   */
+  private calculateNetworkOverlap(newStore: Location, existingStore: Store): number | null {
+    const a = { lat: newStore.latitude, lng: newStore.longitude };
+    const b = { lat: existingStore.latitude!, lng: existingStore.longitude! };
+    if (!this.router?.hasNetwork(a, 'drive') || !this.router.hasNetwork(b, 'drive')) return null;
+
+    return this.router.catchmentOverlap(a, b, 'drive', CATCHMENT_DRIVE_MINUTES).overlap;
+  }
+
   private calculateMarketOverlap(newStore: Location, existingStore: Store): number {
     // Market overlap based on demographic similarity
     let overlap = 0.5; // Base overlap
@@ -149,14 +174,13 @@ export class CannibalizationCalculatorService {
     marketOverlap: number
   ): number {
     // Cannibalization model: revenue loss decreases with distance
-    const baseCannibalization = 0.40; // 40% at 0km
     const decayRate = 0.15; // per km
 
     // Exponential decay with distance
     const distanceFactor = Math.exp(-decayRate * distance);
 
     // Calculate loss
-    const loss = storeRevenue * baseCannibalization * distanceFactor * marketOverlap;
+    const loss = storeRevenue * BASE_CANNIBALIZATION * distanceFactor * marketOverlap;
 
     return Math.round(loss);
   }
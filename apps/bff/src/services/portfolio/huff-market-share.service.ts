@@ -0,0 +1,149 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_HUFF_PARAMETERS, DemandCell, HuffFacility, HuffNetwork, HuffParameters } from './huff-model';
+
+export interface MarketPoint {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  annualTurnover?: number | null;
+}
+
+export interface MarketShareModel {
+  network: HuffNetwork;
+  parameters: HuffParameters;
+  /** Annual spend per resident the grid demand was scaled by */
+  spendPerCapita: number;
+  /** Whether spendPerCapita was fitted to existing store turnover rather than defaulted */
+  calibrated: boolean;
+  populationCells: number;
+  competitors: number;
+}
+
+// Used when no store in the area reports turnover to calibrate against
+const DEFAULT_SPEND_PER_CAPITA = 40;
+const OWN_ATTRACTIVENESS = 1;
+const COMPETITOR_ATTRACTIVENESS = 1;
+const KM_PER_DEGREE = 111;
+
+/**
+ * Builds a Huff market-share network for a set of candidates from the
+ * DemographicCache population grid, open stores and CompetitorPlace rows.
+ */
+@Injectable()
+export class HuffMarketShareService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Returns null when there is no population data around the candidates,
+   * in which case callers fall back to the distance heuristic.
+   */
+  async buildModel(
+    candidates: MarketPoint[],
+    existingStores: MarketPoint[],
+    parameters: HuffParameters = DEFAULT_HUFF_PARAMETERS,
+  ): Promise<MarketShareModel | null> {
+    if (candidates.length === 0) return null;
+
+    // Demand within reach of a candidate, and every facility within reach of that demand
+    const demandBounds = this.bounds(candidates, parameters.maxDistanceKm);
+    const facilityBounds = this.bounds(candidates, 2 * parameters.maxDistanceKm);
+
+    const [population, competitors] = await Promise.all([
+      this.prisma.demographicCache.findMany({
+        where: {
+          population: { gt: 0 },
+          lat: { gte: demandBounds.minLat, lte: demandBounds.maxLat },
+          lng: { gte: demandBounds.minLng, lte: demandBounds.maxLng },
+        },
+        select: { lat: true, lng: true, population: true },
+      }),
+      this.prisma.competitorPlace.findMany({
+        where: {
+          isActive: true,
+          latitude: { gte: facilityBounds.minLat, lte: facilityBounds.maxLat },
+          longitude: { gte: facilityBounds.minLng, lte: facilityBounds.maxLng },
+        },
+        select: { id: true, brand: true, name: true, latitude: true, longitude: true },
+      }),
+    ]);
+
+    if (population.length === 0) return null;
+
+    const stores = existingStores.filter((store) => this.contains(facilityBounds, store));
+    const incumbents: HuffFacility[] = [
+      ...stores.map((store) => ({
+        id: store.id,
+        name: store.name,
+        lat: store.latitude,
+        lng: store.longitude,
+        owner: 'own' as const,
+        attractiveness: OWN_ATTRACTIVENESS,
+      })),
+      ...competitors.map((competitor) => ({
+        id: competitor.id,
+        name: `${competitor.brand} – ${competitor.name}`,
+        lat: competitor.latitude,
+        lng: competitor.longitude,
+        owner: 'competitor' as const,
+        attractiveness: COMPETITOR_ATTRACTIVENESS,
+      })),
+    ];
+
+    const residents: DemandCell[] = population.map((cell) => ({ lat: cell.lat, lng: cell.lng, demand: cell.population! }));
+    const spendPerCapita = this.calibrate(new HuffNetwork(residents, incumbents, parameters), stores);
+
+    return {
+      network: new HuffNetwork(
+        residents.map((cell) => ({ ...cell, demand: cell.demand * (spendPerCapita ?? DEFAULT_SPEND_PER_CAPITA) })),
+        incumbents,
+        parameters,
+      ),
+      parameters,
+      spendPerCapita: spendPerCapita ?? DEFAULT_SPEND_PER_CAPITA,
+      calibrated: spendPerCapita !== null,
+      populationCells: population.length,
+      competitors: competitors.length,
+    };
+  }
+
+  /**
+   * Spend per resident that makes modelled revenue of the stores reporting
+   * turnover add up to what they actually turn over
+   */
+  private calibrate(residentNetwork: HuffNetwork, stores: MarketPoint[]): number | null {
+    let turnover = 0;
+    let residents = 0;
+    for (const store of stores) {
+      if (!store.annualTurnover || store.annualTurnover <= 0) continue;
+      turnover += store.annualTurnover;
+      residents += residentNetwork.revenue(store.id);
+    }
+    return residents > 0 ? turnover / residents : null;
+  }
+
+  private bounds(points: MarketPoint[], paddingKm: number) {
+    const latitudes = points.map((p) => p.latitude);
+    const longitudes = points.map((p) => p.longitude);
+    const maxAbsLat = Math.min(85, Math.max(...latitudes.map(Math.abs)) + paddingKm / KM_PER_DEGREE);
+    const latPadding = paddingKm / KM_PER_DEGREE;
+    const lngPadding = paddingKm / (KM_PER_DEGREE * Math.cos((maxAbsLat * Math.PI) / 180));
+
+    return {
+      minLat: Math.min(...latitudes) - latPadding,
+      maxLat: Math.max(...latitudes) + latPadding,
+      minLng: Math.min(...longitudes) - lngPadding,
+      maxLng: Math.max(...longitudes) + lngPadding,
+    };
+  }
+
+  private contains(bounds: ReturnType<HuffMarketShareService['bounds']>, point: MarketPoint): boolean {
+    return (
+      point.latitude >= bounds.minLat &&
+      point.latitude <= bounds.maxLat &&
+      point.longitude >= bounds.minLng &&
+      point.longitude <= bounds.maxLng
+    );
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Huff gravity model over a population grid.
+ *
+ * Each grid cell spends its demand across every facility in reach in
+ * proportion to utility u = attractiveness / distance^beta. Because shares
+ * within a cell are proportional, adding facilities scales every incumbent's
+ * share by the same factor, which gives closed forms for how much revenue a
+ * new store takes from each incumbent. The network is evaluated jointly, so a
+ * candidate added after another candidate is charged for the overlap.
+ */
+
+export interface DemandCell {
+  lat: number;
+  lng: number;
+  /** Annual spend available in the cell, in currency */
+  demand: number;
+}
+
+export type FacilityOwner = 'own' | 'competitor';
+
+export interface HuffFacility {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  owner: FacilityOwner;
+  attractiveness: number;
+}
+
+export interface HuffParameters {
+  /** Distance decay exponent */
+  beta: number;
+  /** Cells further than this from a facility never visit it */
+  maxDistanceKm: number;
+  /** Distances are floored here so a store on top of a cell centroid does not take all of it */
+  minDistanceKm: number;
+}
+
+export const DEFAULT_HUFF_PARAMETERS: HuffParameters = {
+  beta: 2,
+  maxDistanceKm: 25,
+  minDistanceKm: 0.5,
+};
+
+export interface MarginalImpact {
+  /** Revenue the facility would capture in the current network */
+  captured: number;
+  /** Part of `captured` taken from own stores (existing and already added) */
+  ownLoss: number;
+  /** Part of `captured` taken from competitors */
+  competitorLoss: number;
+  /** Part of `captured` from cells no facility reached before */
+  newDemand: number;
+}
+
+export interface Transfer {
+  facilityId: string;
+  name: string;
+  amount: number;
+}
+
+export interface FacilityRevenue {
+  facilityId: string;
+  name: string;
+  owner: FacilityOwner;
+  baselineRevenue: number;
+  projectedRevenue: number;
+}
+
+export interface AddedFacilityTransfers {
+  facilityId: string;
+  name: string;
+  /** Revenue with the whole network open */
+  networkRevenue: number;
+  /** Revenue if it were the only facility added */
+  standaloneRevenue: number;
+  /** Revenue taken from each incumbent, largest first */
+  fromIncumbents: Transfer[];
+  newDemand: number;
+  /** Revenue each other added facility takes from this one, i.e. what it would regain without that facility */
+  lostToAdded: Transfer[];
+}
+
+export interface NetworkTransfers {
+  incumbents: FacilityRevenue[];
+  added: AddedFacilityTransfers[];
+}
+
+interface Reach {
+  cell: number;
+  utility: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * A network of incumbent facilities that candidate facilities can be added
+ * to one at a time. Incumbents are fixed at construction.
+ */
+export class HuffNetwork {
+  private readonly reach = new Map<string, Reach[]>();
+  private readonly utilityByCell = new Map<string, Map<number, number>>();
+  private readonly facilities = new Map<string, HuffFacility>();
+  private readonly incumbentIds: string[] = [];
+  private readonly addedIds: string[] = [];
+  /** Sum of utilities per cell before anything was added */
+  private readonly baseTotal: Float64Array;
+  /** Current sum of utilities per cell */
+  private readonly total: Float64Array;
+  /** Current sum of own-facility utilities per cell */
+  private readonly ownTotal: Float64Array;
+
+  constructor(
+    private readonly cells: DemandCell[],
+    incumbents: HuffFacility[],
+    private readonly params: HuffParameters = DEFAULT_HUFF_PARAMETERS,
+  ) {
+    this.baseTotal = new Float64Array(cells.length);
+    this.total = new Float64Array(cells.length);
+    this.ownTotal = new Float64Array(cells.length);
+
+    for (const facility of incumbents) {
+      this.register(facility);
+      this.incumbentIds.push(facility.id);
+      for (const { cell, utility } of this.reach.get(facility.id)!) {
+        this.baseTotal[cell] += utility;
+        this.total[cell] += utility;
+        if (facility.owner === 'own') this.ownTotal[cell] += utility;
+      }
+    }
+  }
+
+  get added(): readonly string[] {
+    return this.addedIds;
+  }
+
+  /** Revenue of a facility already in the network */
+  revenue(facilityId: string): number {
+    return this.sumOverReach(facilityId, (cell, utility) => (this.cells[cell].demand * utility) / this.total[cell]);
+  }
+
+  /** What a facility would capture, and from whom, if added to the network as it stands */
+  marginalImpact(facility: HuffFacility): MarginalImpact {
+    this.register(facility);
+
+    const impact: MarginalImpact = { captured: 0, ownLoss: 0, competitorLoss: 0, newDemand: 0 };
+    for (const { cell, utility } of this.reach.get(facility.id)!) {
+      const demand = this.cells[cell].demand;
+      const before = this.total[cell];
+      if (before === 0) {
+        impact.captured += demand;
+        impact.newDemand += demand;
+        continue;
+      }
+      // Incumbent revenue in the cell is demand * u / S; it falls to demand * u / (S + utility)
+      const captured = (demand * utility) / (before + utility);
+      const ownLoss = (captured * this.ownTotal[cell]) / before;
+      impact.captured += captured;
+      impact.ownLoss += ownLoss;
+      impact.competitorLoss += captured - ownLoss;
+    }
+    return impact;
+  }
+
+  /** Revenue `a` would lose to `b` if both joined the network as it stands */
+  overlap(a: HuffFacility, b: HuffFacility): number {
+    if (haversineKm(a.lat, a.lng, b.lat, b.lng) > 2 * this.params.maxDistanceKm) return 0;
+    this.register(a);
+    this.register(b);
+
+    const utilityOfA = this.utilities(a.id);
+    return this.sumOverReach(b.id, (cell, utilityB) => {
+      const utilityA = utilityOfA.get(cell);
+      if (!utilityA) return 0;
+      const withA = this.total[cell] + utilityA;
+      return (this.cells[cell].demand * utilityA * utilityB) / (withA * (withA + utilityB));
+    });
+  }
+
+  add(facility: HuffFacility): void {
+    if (this.addedIds.includes(facility.id) || this.incumbentIds.includes(facility.id)) return;
+    this.register(facility);
+    this.addedIds.push(facility.id);
+    for (const { cell, utility } of this.reach.get(facility.id)!) {
+      this.total[cell] += utility;
+      if (facility.owner === 'own') this.ownTotal[cell] += utility;
+    }
+  }
+
+  /**
+   * Revenue transfer matrices between the network before and after the
+   * added facilities, returned as sparse rows.
+   */
+  transfers(): NetworkTransfers {
+    const incumbents: FacilityRevenue[] = this.incumbentIds.map((id) => {
+      const facility = this.facilities.get(id)!;
+      return {
+        facilityId: id,
+        name: facility.name,
+        owner: facility.owner,
+        baselineRevenue: this.sumOverReach(id, (cell, utility) => (this.cells[cell].demand * utility) / this.baseTotal[cell]),
+        projectedRevenue: this.revenue(id),
+      };
+    });
+
+    const added = this.addedIds.map((id): AddedFacilityTransfers => {
+      const facility = this.facilities.get(id)!;
+      const reach = this.reach.get(id)!;
+      const utilityByCell = this.utilities(id);
+
+      let newDemand = 0;
+      let standaloneRevenue = 0;
+      for (const { cell, utility } of reach) {
+        const demand = this.cells[cell].demand;
+        const base = this.baseTotal[cell];
+        standaloneRevenue += (demand * utility) / (base + utility);
+        if (base === 0) newDemand += (demand * utility) / this.total[cell];
+      }
+
+      // Incumbent j loses demand * u_j * u_k / (S0 * S1) in each cell to added facility k
+      const fromIncumbents = this.incumbentIds
+        .map((incumbentId) => ({
+          facilityId: incumbentId,
+          name: this.facilities.get(incumbentId)!.name,
+          amount: this.sumOverReach(incumbentId, (cell, incumbentUtility) => {
+            const utility = utilityByCell.get(cell);
+            if (!utility) return 0;
+            return (this.cells[cell].demand * incumbentUtility * utility) / (this.baseTotal[cell] * this.total[cell]);
+          }),
+        }))
+        .filter((transfer) => transfer.amount > 0)
+        .sort((a, b) => b.amount - a.amount);
+
+      // Other added facility b takes demand * u_a * u_b / ((S1 - u_b) * S1) from a in each cell
+      const lostToAdded = this.addedIds
+        .filter((otherId) => otherId !== id)
+        .map((otherId) => ({
+          facilityId: otherId,
+          name: this.facilities.get(otherId)!.name,
+          amount: this.sumOverReach(otherId, (cell, otherUtility) => {
+            const utility = utilityByCell.get(cell);
+            if (!utility) return 0;
+            const total = this.total[cell];
+            return (this.cells[cell].demand * utility * otherUtility) / ((total - otherUtility) * total);
+          }),
+        }))
+        .filter((transfer) => transfer.amount > 0)
+        .sort((a, b) => b.amount - a.amount);
+
+      return {
+        facilityId: id,
+        name: facility.name,
+        networkRevenue: this.revenue(id),
+        standaloneRevenue,
+        fromIncumbents,
+        newDemand,
+        lostToAdded,
+      };
+    });
+
+    return { incumbents, added };
+  }
+
+  private register(facility: HuffFacility): void {
+    if (this.reach.has(facility.id)) return;
+    this.facilities.set(facility.id, facility);
+
+    const reach: Reach[] = [];
+    this.cells.forEach((cell, index) => {
+      const distance = haversineKm(cell.lat, cell.lng, facility.lat, facility.lng);
+      if (distance > this.params.maxDistanceKm) return;
+      const utility = facility.attractiveness / Math.max(distance, this.params.minDistanceKm) ** this.params.beta;
+      if (utility > 0) reach.push({ cell: index, utility });
+    });
+    this.reach.set(facility.id, reach);
+  }
+
+  private utilities(facilityId: string): Map<number, number> {
+    let utilities = this.utilityByCell.get(facilityId);
+    if (!utilities) {
+      utilities = new Map(this.reach.get(facilityId)!.map((r) => [r.cell, r.utility]));
+      this.utilityByCell.set(facilityId, utilities);
+    }
+    return utilities;
+  }
+
+  private sumOverReach(facilityId: string, term: (cell: number, utility: number) => number): number {
+    let sum = 0;
+    for (const { cell, utility } of this.reach.get(facilityId) ?? []) sum += term(cell, utility);
+    return sum;
+  }
+}
@@ -1,17 +1,24 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Inject, Injectable, Optional } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
 import { ROICalculatorService, ROIMetrics, CandidateLocation } from './roi-calculator.service';
-import { CannibalizationCalculatorService, CannibalizationImpact } from './cannibalization-calculator.service';
-import OpenAI from 'openai';
+import { CannibalizationCalculatorService, Store } from './cannibalization-calculator.service';
+import { HuffMarketShareService, MarketShareModel } from './huff-market-share.service';
+import { HuffFacility, HuffParameters, NetworkTransfers } from './huff-model';
+import { RegionQuota, SolverItem, solvePortfolio } from './portfolio-solver';
+import { LlmClient } from '@subway/shared-ai';
 
 export interface OptimizationRequest {
   budget: number;
-  mode: 'maximize_count' | 'maximize_roi' | 'balanced';
+  mode: 'maximize_count' | 'maximize_roi' | 'balanced' | 'optimal';
   constraints: {
     minROI: number;
     maxCannibalization: number;
     regionFilter?: string;
     countryFilter?: string;
+    /** Store count bounds per region (optimal mode only) */
+    regionQuotas?: Record<string, RegionQuota>;
+    /** Minimum distance between any two selected sites (optimal mode only) */
+    minSpacingKm?: number;
   };
   candidateIds?: string[];
 }
@@ -31,6 +38,58 @@ export interface SelectedStore {
   reasoning: string;
 }
 
+/**
+ * Joint Huff market-share evaluation of the selected portfolio: how revenue
+ * moves from existing stores and competitors to the new sites, and between
+ * the new sites themselves.
+ */
+export interface RevenueTransferReport {
+  model: 'huff';
+  parameters: HuffParameters;
+  spendPerCapita: number;
+  calibrated: boolean;
+  populationCells: number;
+  competitors: number;
+  /** Existing stores whose modelled revenue changes, largest loss first */
+  existingStores: Array<{
+    storeId: string;
+    storeName: string;
+    baselineRevenue: number;
+    projectedRevenue: number;
+    loss: number;
+  }>;
+  /** Per selected site: where its revenue comes from */
+  selectedStores: Array<{
+    candidateId: string;
+    name: string;
+    networkRevenue: number;
+    standaloneRevenue: number;
+    fromExistingStores: Array<{ storeId: string; storeName: string; amount: number }>;
+    fromCompetitors: number;
+    newDemand: number;
+    /** Revenue other selected sites take from this one */
+    lostToSelected: Array<{ candidateId: string; name: string; amount: number }>;
+  }>;
+  totalTransferFromExisting: number;
+  totalTransferFromCompetitors: number;
+}
+
+/** How the optimal-mode selection compares with the bound and the greedy heuristic */
+export interface OptimalityReport {
+  /** Five-year NPV of the selected sites net of the present value of cannibalization */
+  objective: number;
+  /** Same objective for a greedy pass under the same constraints; null if greedy missed a quota */
+  greedyObjective: number | null;
+  /** Percent improvement of the objective over greedy */
+  improvementOverGreedy: number | null;
+  upperBound: number;
+  /** Percent between the objective and the upper bound; 0 when optimality is proven */
+  optimalityGap: number;
+  proven: boolean;
+  nodesExplored: number;
+  candidatesConsidered: number;
+}
+
 export interface OptimizationResult {
   selectedStores: SelectedStore[];
   summary: {
@@ -44,6 +103,10 @@ export interface OptimizationResult {
   };
   aiInsights: string;
   warnings: string[];
+  /** Null when there is no population data for the area and the distance heuristic was used */
+  revenueTransfers: RevenueTransferReport | null;
+  /** Only set in optimal mode */
+  optimality: OptimalityReport | null;
 }
 
 interface ScoredCandidate {
@@ -52,23 +115,36 @@ interface ScoredCandidate {
   score: number;
 }
 
+// Present value of one dollar a year for five years at 10%, matching the ROI calculator's NPV
+const CANNIBALIZATION_PV_FACTOR = (1 - Math.pow(1.1, -5)) / 0.1;
+
 @Injectable()
 export class PortfolioOptimizerService {
-  private openai: OpenAI;
-
   constructor(
     private readonly prisma: PrismaClient,
     private readonly roiCalculator: ROICalculatorService,
-    private readonly cannibalizationCalculator: CannibalizationCalculatorService
-  ) {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
-  }
+    private readonly cannibalizationCalculator: CannibalizationCalculatorService,
+    private readonly marketShare: HuffMarketShareService,
+    @Optional() @Inject(LlmClient) private readonly llm: LlmClient = LlmClient.getInstance()
+  ) {}
 
   async optimizePortfolio(request: OptimizationRequest): Promise<OptimizationResult> {
     console.log('🎯 Starting portfolio optimization:', request);
 
+    const result = await this.runOptimization(request);
+    result.aiInsights = await this.generateAIInsights(result.selectedStores, request);
+
+    return result;
+  }
+
+  /** Same selection as optimizePortfolio without the AI commentary */
+  async previewPortfolio(request: OptimizationRequest): Promise<OptimizationResult> {
+    console.log('👀 Previewing portfolio optimization:', request);
+
+    return this.runOptimization(request);
+  }
+
+  private async runOptimization(request: OptimizationRequest): Promise<OptimizationResult> {
     // 1. Get all candidates
     const candidates = await this.getCandidates(request);
     console.log(`📊 Found ${candidates.length} candidates`);
@@ -85,27 +161,46 @@ export class PortfolioOptimizerService {
     const existingStores = await this.getExistingStores();
     console.log(`🏪 Found ${existingStores.length} existing stores`);
 
-    // 4. Run optimization algorithm
-    const portfolio = await this.selectOptimalPortfolio(
-      scoredCandidates,
-      existingStores,
-      request.budget,
-      request.mode,
-      request.constraints
+    // 4. Build the network market-share model over the candidates' area
+    const marketModel = await this.marketShare.buildModel(
+      candidates,
+      existingStores.map(s => ({ ...s, latitude: s.latitude!, longitude: s.longitude! }))
+    );
+    console.log(
+      marketModel
+        ? `🧲 Huff model: ${marketModel.populationCells} population cells, ${marketModel.competitors} competitors`
+        : '⚠️ No population grid for this area, using distance-based cannibalization'
     );
-    console.log(`🎯 Selected ${portfolio.length} stores`);
 
-    // 5. Generate AI insights
-    const insights = await this.generateAIInsights(portfolio, request);
+    // 5. Run optimization algorithm
+    const { portfolio, optimality } = request.mode === 'optimal'
+      ? await this.selectExactPortfolio(scoredCandidates, existingStores, marketModel, request.budget, request.constraints)
+      : {
+          portfolio: await this.selectOptimalPortfolio(
+            scoredCandidates,
+            existingStores,
+            marketModel,
+            request.budget,
+            request.mode,
+            request.constraints
+          ),
+          optimality: null
+        };
+    console.log(`🎯 Selected ${portfolio.length} stores`);
 
     // 6. Generate warnings
     const warnings = this.generateWarnings(portfolio, request);
+    if (optimality && !optimality.proven) {
+      warnings.push(`Search stopped before proving optimality; the selection is within ${optimality.optimalityGap}% of the best possible.`);
+    }
 
     return {
       selectedStores: portfolio,
       summary: this.calculateSummary(portfolio),
-      aiInsights: insights,
-      warnings
+      aiInsights: '',
+      warnings,
+      revenueTransfers: marketModel ? this.buildTransferReport(marketModel) : null,
+      optimality
     };
   }
 
@@ -128,6 +223,7 @@ export class PortfolioOptimizerService {
         longitude: s.longitude!,
         city: s.city || '',
         country: s.country || '',
+        region: s.region || undefined,
         population: this.extractPopulation(s.cityPopulationBand),
         medianIncome: undefined,
         competitorCount: undefined
@@ -158,6 +254,7 @@ export class PortfolioOptimizerService {
       longitude: s.longitude!,
       city: s.city || '',
       country: s.country || '',
+      region: s.region || undefined,
       population: this.extractPopulation(s.cityPopulationBand),
       medianIncome: undefined,
       competitorCount: undefined
@@ -235,6 +332,7 @@ export class PortfolioOptimizerService {
   private async selectOptimalPortfolio(
     scoredCandidates: ScoredCandidate[],
     existingStores: any[],
+    marketModel: MarketShareModel | null,
     budget: number,
     mode: string,
     constraints: any
@@ -255,21 +353,32 @@ export class PortfolioOptimizerService {
         continue;
       }
 
-      // Calculate cannibalization impact
-      const cannibalization = await this.cannibalizationCalculator.calculateImpact(
-        candidate,
-        existingStores,
-        roi.expectedAnnualRevenue
-      );
+      // Calculate cannibalization impact. With the Huff model this is measured against
+      // the network as selected so far, so overlapping candidates are penalised
+      const facility = this.toFacility(candidate);
+      let cannibalizationLoss: number;
+      let cannibalizationPct: number;
+      if (marketModel) {
+        const impact = marketModel.network.marginalImpact(facility);
+        cannibalizationLoss = impact.ownLoss;
+        cannibalizationPct = impact.captured > 0 ? (impact.ownLoss / impact.captured) * 100 : 100;
+      } else {
+        const cannibalization = await this.cannibalizationCalculator.calculateImpact(
+          candidate,
+          existingStores,
+          roi.expectedAnnualRevenue
+        );
+        cannibalizationLoss = cannibalization.totalNetworkLoss;
+        cannibalizationPct = (cannibalization.totalNetworkLoss / roi.expectedAnnualRevenue) * 100;
+      }
 
       // Check cannibalization constraint
-      const cannibalizationPct = (cannibalization.totalNetworkLoss / roi.expectedAnnualRevenue) * 100;
       if (cannibalizationPct > constraints.maxCannibalization) {
         continue;
       }
 
       // Check if net gain is positive
-      if (!cannibalization.isWorthOpening) {
+      if (roi.expectedAnnualRevenue - cannibalizationLoss <= 0) {
         continue;
       }
 
@@ -283,12 +392,13 @@ export class PortfolioOptimizerService {
         roi: Math.round(roi.adjustedROI * 100) / 100,
         cost: roi.estimatedCosts.initial,
         expectedRevenue: roi.expectedAnnualRevenue,
-        cannibalizationImpact: cannibalization.totalNetworkLoss,
+        cannibalizationImpact: Math.round(cannibalizationLoss),
         paybackPeriod: Math.round(roi.paybackPeriod * 10) / 10,
         npv: roi.npv,
         reasoning: `Strong ROI (${Math.round(roi.adjustedROI)}%) with minimal cannibalization (${Math.round(cannibalizationPct)}%)`
       });
 
+      marketModel?.network.add(facility);
       remainingBudget -= roi.estimatedCosts.initial;
 
       // Mode-specific stopping criteria
@@ -304,6 +414,172 @@ export class PortfolioOptimizerService {
     return selected;
   }
 
+  /**
+   * Branch-and-bound over all eligible candidates at once, maximising NPV net
+   * of cannibalization under the budget, ROI, cannibalization, region quota
+   * and spacing constraints together
+   */
+  private async selectExactPortfolio(
+    scoredCandidates: ScoredCandidate[],
+    existingStores: Store[],
+    marketModel: MarketShareModel | null,
+    budget: number,
+    constraints: OptimizationRequest['constraints']
+  ): Promise<{ portfolio: SelectedStore[]; optimality: OptimalityReport }> {
+    const eligible = scoredCandidates.filter(
+      ({ roi }) => roi.adjustedROI >= constraints.minROI && roi.estimatedCosts.initial <= budget
+    );
+    const facilities = eligible.map(({ candidate }) => this.toFacility(candidate));
+
+    const items: SolverItem[] = [];
+    for (const [i, { candidate, roi }] of eligible.entries()) {
+      let captured = roi.expectedAnnualRevenue;
+      let baseOwnLoss: number;
+      if (marketModel) {
+        const impact = marketModel.network.marginalImpact(facilities[i]);
+        captured = impact.captured;
+        baseOwnLoss = impact.ownLoss;
+      } else {
+        const impact = await this.cannibalizationCalculator.calculateImpact(candidate, existingStores, roi.expectedAnnualRevenue);
+        baseOwnLoss = impact.totalNetworkLoss;
+      }
+      items.push({
+        id: candidate.id,
+        cost: roi.estimatedCosts.initial,
+        value: roi.npv - baseOwnLoss * CANNIBALIZATION_PV_FACTOR,
+        region: candidate.region,
+        lat: candidate.latitude,
+        lng: candidate.longitude,
+        captured,
+        baseOwnLoss
+      });
+    }
+
+    // Revenue each candidate would lose to each other one; without a population grid only spacing separates them
+    const overlap = facilities.map((a, i) =>
+      facilities.map((b, j) => (marketModel && i !== j ? marketModel.network.overlap(a, b) : 0))
+    );
+
+    const solution = solvePortfolio({
+      items,
+      budget,
+      maxCannibalizationPct: constraints.maxCannibalization,
+      minSpacingKm: constraints.minSpacingKm,
+      regionQuotas: constraints.regionQuotas,
+      overlap: (i, j) => overlap[i][j],
+      penalty: (i, j) => (overlap[i][j] + overlap[j][i]) * CANNIBALIZATION_PV_FACTOR
+    });
+
+    if (!Number.isFinite(solution.objective)) {
+      throw new BadRequestException('No portfolio satisfies the region quotas within the budget and constraints');
+    }
+
+    // Report cannibalization the same way greedy does: against the network as selected so far
+    const ordered = [...solution.selected].sort((a, b) => items[b].value / items[b].cost - items[a].value / items[a].cost);
+    const portfolio = ordered.map((index, position): SelectedStore => {
+      const { candidate, roi } = eligible[index];
+      let cannibalizationLoss = items[index].baseOwnLoss;
+      if (marketModel) {
+        cannibalizationLoss = marketModel.network.marginalImpact(facilities[index]).ownLoss;
+        marketModel.network.add(facilities[index]);
+      }
+
+      return {
+        candidateId: candidate.id,
+        rank: position + 1,
+        name: candidate.name,
+        city: candidate.city,
+        country: candidate.country,
+        roi: Math.round(roi.adjustedROI * 100) / 100,
+        cost: roi.estimatedCosts.initial,
+        expectedRevenue: roi.expectedAnnualRevenue,
+        cannibalizationImpact: Math.round(cannibalizationLoss),
+        paybackPeriod: Math.round(roi.paybackPeriod * 10) / 10,
+        npv: roi.npv,
+        reasoning: `Part of the highest-value portfolio: NPV ${Math.round(items[index].value / 1000)}k net of cannibalization for ${Math.round(roi.estimatedCosts.initial / 1000)}k invested`
+      };
+    });
+
+    const greedyObjective = solution.greedy ? Math.round(solution.greedy.objective) : null;
+    return {
+      portfolio,
+      optimality: {
+        objective: Math.round(solution.objective),
+        greedyObjective,
+        improvementOverGreedy:
+          greedyObjective !== null && greedyObjective !== 0
+            ? Math.round(((solution.objective - greedyObjective) / Math.abs(greedyObjective)) * 1000) / 10
+            : null,
+        upperBound: Math.round(solution.upperBound),
+        optimalityGap: Math.round(solution.gap * 1000) / 10,
+        proven: solution.proven,
+        nodesExplored: solution.nodesExplored,
+        candidatesConsidered: items.length
+      }
+    };
+  }
+
+  private toFacility(candidate: CandidateLocation): HuffFacility {
+    return {
+      id: candidate.id,
+      name: candidate.name,
+      lat: candidate.latitude,
+      lng: candidate.longitude,
+      owner: 'own',
+      attractiveness: 1
+    };
+  }
+
+  private buildTransferReport(marketModel: MarketShareModel): RevenueTransferReport {
+    const transfers: NetworkTransfers = marketModel.network.transfers();
+    const ownIds = new Set(transfers.incumbents.filter(f => f.owner === 'own').map(f => f.facilityId));
+
+    const selectedStores = transfers.added.map(site => {
+      const fromExistingStores = site.fromIncumbents
+        .filter(t => ownIds.has(t.facilityId))
+        .map(t => ({ storeId: t.facilityId, storeName: t.name, amount: Math.round(t.amount) }));
+      const fromCompetitors = site.fromIncumbents
+        .filter(t => !ownIds.has(t.facilityId))
+        .reduce((sum, t) => sum + t.amount, 0);
+
+      return {
+        candidateId: site.facilityId,
+        name: site.name,
+        networkRevenue: Math.round(site.networkRevenue),
+        standaloneRevenue: Math.round(site.standaloneRevenue),
+        fromExistingStores,
+        fromCompetitors: Math.round(fromCompetitors),
+        newDemand: Math.round(site.newDemand),
+        lostToSelected: site.lostToAdded.map(t => ({ candidateId: t.facilityId, name: t.name, amount: Math.round(t.amount) }))
+      };
+    });
+
+    const existingStores = transfers.incumbents
+      .filter(f => f.owner === 'own')
+      .map(f => ({
+        storeId: f.facilityId,
+        storeName: f.name,
+        baselineRevenue: Math.round(f.baselineRevenue),
+        projectedRevenue: Math.round(f.projectedRevenue),
+        loss: Math.round(f.baselineRevenue - f.projectedRevenue)
+      }))
+      .filter(f => f.loss > 0)
+      .sort((a, b) => b.loss - a.loss);
+
+    return {
+      model: 'huff',
+      parameters: marketModel.parameters,
+      spendPerCapita: Math.round(marketModel.spendPerCapita * 100) / 100,
+      calibrated: marketModel.calibrated,
+      populationCells: marketModel.populationCells,
+      competitors: marketModel.competitors,
+      existingStores,
+      selectedStores,
+      totalTransferFromExisting: existingStores.reduce((sum, s) => sum + s.loss, 0),
+      totalTransferFromCompetitors: selectedStores.reduce((sum, s) => sum + s.fromCompetitors, 0)
+    };
+  }
+
   private calculateSummary(portfolio: SelectedStore[]) {
     const totalStores = portfolio.length;
     const totalInvestment = portfolio.reduce((sum, s) => sum + s.cost, 0);
@@ -359,14 +635,15 @@ Provide 2-3 concise strategic insights about this portfolio. Focus on:
 Keep it brief and executive-focused.`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.PORTFOLIO_ANALYSIS_MODEL || 'gpt-5-mini',
+      const response = await this.llm.complete({
+        purpose: 'portfolio.insights',
+        model: process.env.PORTFOLIO_ANALYSIS_MODEL,
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.7,
-        max_tokens: 300
+        maxOutputTokens: 300
       });
 
-      return response.choices[0]?.message?.content || 'Analysis unavailable';
+      return response.text || 'Analysis unavailable';
     } catch (error) {
       console.error('AI insights generation failed:', error);
       return 'AI analysis temporarily unavailable. Portfolio metrics are available above.';
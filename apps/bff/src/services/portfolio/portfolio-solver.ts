@@ -0,0 +1,280 @@
+/**
+ * Exact portfolio selection by branch-and-bound.
+ *
+ * Maximises the sum of item values minus pairwise overlap penalties subject
+ * to a budget, per-item cannibalization limits (including overlap with other
+ * selected items), per-region count quotas and a minimum spacing between
+ * selected items. The bound is the fractional knapsack relaxation of the
+ * remaining items, which ignores penalties and side constraints and so never
+ * underestimates. A constraint-aware greedy pass seeds the incumbent and is
+ * reported alongside so callers can see what exactness bought.
+ */
+
+import { haversineKm } from './huff-model';
+
+export interface SolverItem {
+  id: string;
+  cost: number;
+  value: number;
+  region?: string;
+  lat: number;
+  lng: number;
+  /** Revenue the item captures on its own, the denominator of its cannibalization share */
+  captured: number;
+  /** Revenue it takes from the existing network on its own */
+  baseOwnLoss: number;
+}
+
+export interface RegionQuota {
+  min?: number;
+  max?: number;
+}
+
+export interface SolverProblem {
+  items: SolverItem[];
+  budget: number;
+  /** Largest share of an item's revenue, in percent, that may come from own stores */
+  maxCannibalizationPct: number;
+  minSpacingKm?: number;
+  regionQuotas?: Record<string, RegionQuota>;
+  /** Revenue item i loses when item j is also selected */
+  overlap(i: number, j: number): number;
+  /** Objective penalty for selecting both i and j */
+  penalty(i: number, j: number): number;
+  nodeLimit?: number;
+  timeLimitMs?: number;
+}
+
+export interface SolverSelection {
+  /** Indices into problem.items */
+  selected: number[];
+  objective: number;
+}
+
+export interface SolverResult extends SolverSelection {
+  /** Best objective any feasible selection could reach; equals objective when proven */
+  upperBound: number;
+  /** (upperBound - objective) / |upperBound| */
+  gap: number;
+  proven: boolean;
+  nodesExplored: number;
+  /** Null when greedy could not meet the minimum region quotas */
+  greedy: SolverSelection | null;
+}
+
+const DEFAULT_NODE_LIMIT = 500_000;
+const DEFAULT_TIME_LIMIT_MS = 10_000;
+const EPSILON = 1e-6;
+
+export function solvePortfolio(problem: SolverProblem): SolverResult {
+  const n = problem.items.length;
+  // Ratio order makes the first dives good and the fractional bound tight
+  const order = problem.items
+    .map((item, index) => index)
+    .sort((a, b) => ratio(problem.items[b]) - ratio(problem.items[a]));
+
+  const conflicts = spacingConflicts(problem);
+  const regionRemaining = new Map<string, number[]>();
+  order.forEach((index, position) => {
+    const region = problem.items[index].region;
+    if (!region) return;
+    if (!regionRemaining.has(region)) regionRemaining.set(region, new Array(n + 1).fill(0));
+    const counts = regionRemaining.get(region)!;
+    for (let p = 0; p <= position; p++) counts[p]++;
+  });
+
+  const state = new SelectionState(problem, conflicts);
+  const greedy = greedySelection(problem, order, state);
+
+  let best: SolverSelection = greedy ?? { selected: [], objective: minimumQuotasMet(problem, new Map()) ? 0 : -Infinity };
+  let openBound = -Infinity;
+  let nodes = 0;
+  const nodeLimit = problem.nodeLimit ?? DEFAULT_NODE_LIMIT;
+  const deadline = Date.now() + (problem.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS);
+
+  const bound = (position: number) => {
+    let room = problem.budget - state.cost;
+    let value = state.objective;
+    for (let p = position; p < n && room > 0; p++) {
+      const item = problem.items[order[p]];
+      if (item.value <= 0) break;
+      if (item.cost <= room) {
+        room -= item.cost;
+        value += item.value;
+      } else {
+        value += (item.value * room) / item.cost;
+        room = 0;
+      }
+    }
+    return value;
+  };
+
+  const quotasReachable = (position: number) => {
+    for (const [region, quota] of Object.entries(problem.regionQuotas ?? {})) {
+      if (!quota.min) continue;
+      const remaining = regionRemaining.get(region)?.[position] ?? 0;
+      if ((state.regionCounts.get(region) ?? 0) + remaining < quota.min) return false;
+    }
+    return true;
+  };
+
+  const search = (position: number): void => {
+    const upper = bound(position);
+    if (upper <= best.objective + EPSILON) return;
+    if (!quotasReachable(position)) return;
+
+    if (nodes >= nodeLimit || (nodes % 1024 === 0 && Date.now() > deadline)) {
+      openBound = Math.max(openBound, upper);
+      return;
+    }
+    nodes++;
+
+    if (position === n) {
+      if (minimumQuotasMet(problem, state.regionCounts) && state.objective > best.objective) {
+        best = { selected: [...state.selected], objective: state.objective };
+      }
+      return;
+    }
+
+    const index = order[position];
+    if (state.canAdd(index)) {
+      state.add(index);
+      search(position + 1);
+      state.remove(index);
+    }
+    search(position + 1);
+  };
+
+  search(0);
+
+  const upperBound = Math.max(best.objective, openBound);
+  const proven = openBound === -Infinity;
+  return {
+    selected: best.selected,
+    objective: best.objective,
+    upperBound,
+    gap: proven || !Number.isFinite(upperBound) ? 0 : (upperBound - best.objective) / Math.max(Math.abs(upperBound), EPSILON),
+    proven,
+    nodesExplored: nodes,
+    greedy,
+  };
+}
+
+/**
+ * Adds items in ratio order whenever they fit and improve the objective, then
+ * tops up any region short of its minimum quota with its best feasible items.
+ */
+function greedySelection(problem: SolverProblem, order: number[], state: SelectionState): SolverSelection | null {
+  for (const index of order) {
+    if (state.canAdd(index) && state.gain(index) > 0) state.add(index);
+  }
+  for (const [region, quota] of Object.entries(problem.regionQuotas ?? {})) {
+    for (const index of order) {
+      if ((state.regionCounts.get(region) ?? 0) >= (quota.min ?? 0)) break;
+      if (problem.items[index].region === region && !state.selected.includes(index) && state.canAdd(index)) {
+        state.add(index);
+      }
+    }
+  }
+
+  const result = minimumQuotasMet(problem, state.regionCounts)
+    ? { selected: [...state.selected], objective: state.objective }
+    : null;
+  for (const index of [...state.selected].reverse()) state.remove(index);
+  return result;
+}
+
+function minimumQuotasMet(problem: SolverProblem, counts: Map<string, number>): boolean {
+  return Object.entries(problem.regionQuotas ?? {}).every(([region, quota]) => (counts.get(region) ?? 0) >= (quota.min ?? 0));
+}
+
+function ratio(item: SolverItem): number {
+  return item.cost > 0 ? item.value / item.cost : item.value > 0 ? Infinity : item.value;
+}
+
+function spacingConflicts(problem: SolverProblem): Set<number>[] {
+  const conflicts = problem.items.map(() => new Set<number>());
+  if (!problem.minSpacingKm) return conflicts;
+  for (let i = 0; i < problem.items.length; i++) {
+    for (let j = i + 1; j < problem.items.length; j++) {
+      const a = problem.items[i];
+      const b = problem.items[j];
+      if (haversineKm(a.lat, a.lng, b.lat, b.lng) < problem.minSpacingKm) {
+        conflicts[i].add(j);
+        conflicts[j].add(i);
+      }
+    }
+  }
+  return conflicts;
+}
+
+/** Incrementally maintained selection with its cost, objective and per-item own losses */
+class SelectionState {
+  readonly selected: number[] = [];
+  readonly regionCounts = new Map<string, number>();
+  cost = 0;
+  objective = 0;
+  private readonly ownLoss: number[];
+
+  constructor(
+    private readonly problem: SolverProblem,
+    private readonly conflicts: Set<number>[],
+  ) {
+    this.ownLoss = problem.items.map((item) => item.baseOwnLoss);
+  }
+
+  canAdd(index: number): boolean {
+    const item = this.problem.items[index];
+    if (this.cost + item.cost > this.problem.budget) return false;
+
+    if (item.region) {
+      const max = this.problem.regionQuotas?.[item.region]?.max;
+      if (max !== undefined && (this.regionCounts.get(item.region) ?? 0) >= max) return false;
+    }
+
+    let loss = this.ownLoss[index];
+    for (const other of this.selected) {
+      if (this.conflicts[index].has(other)) return false;
+      // The other item must stay within the limit once this one joins
+      if (!this.withinLimit(other, this.ownLoss[other] + this.problem.overlap(other, index))) return false;
+      loss += this.problem.overlap(index, other);
+    }
+    return this.withinLimit(index, loss);
+  }
+
+  gain(index: number): number {
+    let gain = this.problem.items[index].value;
+    for (const other of this.selected) gain -= this.problem.penalty(index, other);
+    return gain;
+  }
+
+  add(index: number): void {
+    const item = this.problem.items[index];
+    this.objective += this.gain(index);
+    for (const other of this.selected) {
+      this.ownLoss[other] += this.problem.overlap(other, index);
+      this.ownLoss[index] += this.problem.overlap(index, other);
+    }
+    this.selected.push(index);
+    this.cost += item.cost;
+    if (item.region) this.regionCounts.set(item.region, (this.regionCounts.get(item.region) ?? 0) + 1);
+  }
+
+  remove(index: number): void {
+    const item = this.problem.items[index];
+    this.selected.splice(this.selected.lastIndexOf(index), 1);
+    for (const other of this.selected) {
+      this.ownLoss[other] -= this.problem.overlap(other, index);
+      this.ownLoss[index] -= this.problem.overlap(index, other);
+    }
+    this.objective -= this.gain(index);
+    this.cost -= item.cost;
+    if (item.region) this.regionCounts.set(item.region, this.regionCounts.get(item.region)! - 1);
+  }
+
+  private withinLimit(index: number, loss: number): boolean {
+    const captured = this.problem.items[index].captured;
+    if (captured <= 0) return loss <= 0;
+    return (loss / captured) * 100 <= this.problem.maxCannibalizationPct + EPSILON;
+  }
+}
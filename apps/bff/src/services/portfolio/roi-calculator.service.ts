@@ -23,6 +23,7 @@ export interface CandidateLocation {
   longitude: number;
   city: string;
   country: string;
+  region?: string;
   population?: number;
   medianIncome?: number;
   competitorCount?: number;
@@ -0,0 +1,117 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaClient, TradeArea } from '@prisma/client';
+import { Isochrone, LatLng, Router, RoutingMethod, TravelMode, TravelTimeOptions, TravelTimes } from '@subway/routing';
+import * as crypto from 'crypto';
+
+/** Cached polygons are keyed by graph version, so this only bounds how long unused entries linger */
+const CACHE_TTL_DAYS = 90;
+/** Origins are rounded to about 10 m, close enough to share an isochrone */
+const ORIGIN_DECIMALS = 4;
+
+export interface IsochroneResult {
+  origin: LatLng;
+  mode: TravelMode;
+  minutes: number;
+  method: RoutingMethod;
+  graph: string | null;
+  geometry: Isochrone['geometry'];
+  areaKm2: number;
+  cached: boolean;
+}
+
+/**
+ * Drive and walk isochrones over the locally loaded road graphs, cached in
+ * IsochroneCache. Where no graph covers an origin the polygon is a
+ * straight-line disc and `method` says so.
+ */
+@Injectable()
+export class IsochroneService {
+  private readonly logger = new Logger(IsochroneService.name);
+
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    @Inject(Router) private readonly router: Router,
+  ) {}
+
+  graphVersions(): string[] {
+    return this.router.graphVersions;
+  }
+
+  async getIsochrone(origin: LatLng, mode: TravelMode, minutes: number): Promise<IsochroneResult> {
+    const point = this.rounded(origin);
+    const graph = this.router.graphAt(point, mode);
+    const cacheKey = this.cacheKey(point, mode, minutes, graph);
+
+    const cached = await this.prisma.isochroneCache.findUnique({ where: { cacheKey } });
+    if (cached && cached.expiresAt > new Date()) {
+      return {
+        origin: { lat: cached.originLat, lng: cached.originLng },
+        mode,
+        minutes,
+        method: cached.method as RoutingMethod,
+        graph: cached.graphVersion,
+        geometry: JSON.parse(cached.polygon),
+        areaKm2: cached.areaKm2,
+        cached: true,
+      };
+    }
+
+    const isochrone = this.router.isochrone(point, mode, minutes);
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + CACHE_TTL_DAYS);
+    const data = {
+      originLat: isochrone.origin.lat,
+      originLng: isochrone.origin.lng,
+      mode,
+      minutes,
+      method: isochrone.method,
+      graphVersion: isochrone.graph,
+      polygon: JSON.stringify(isochrone.geometry),
+      areaKm2: isochrone.areaKm2,
+      expiresAt,
+    };
+
+    try {
+      await this.prisma.isochroneCache.upsert({ where: { cacheKey }, create: { cacheKey, ...data }, update: data });
+    } catch (error) {
+      // Caching failure shouldn't break the request
+      this.logger.error('Isochrone cache write error:', error);
+    }
+
+    return { ...isochrone, cached: false };
+  }
+
+  travelTimes(origin: LatLng, destinations: LatLng[], mode: TravelMode, options: TravelTimeOptions = {}): TravelTimes {
+    return this.router.travelTimes(origin, destinations, mode, options);
+  }
+
+  /** Stores the isochrone around a trade area's centroid on the trade area */
+  async attachToTradeArea(tradeAreaId: string, mode: TravelMode, minutes: number): Promise<TradeArea> {
+    const tradeArea = await this.prisma.tradeArea.findUnique({ where: { id: tradeAreaId } });
+    if (!tradeArea) {
+      throw new NotFoundException(`Trade area ${tradeAreaId} not found`);
+    }
+
+    const isochrone = await this.getIsochrone({ lat: tradeArea.centroidLat, lng: tradeArea.centroidLng }, mode, minutes);
+    return this.prisma.tradeArea.update({
+      where: { id: tradeAreaId },
+      data: {
+        isochronePolygon: JSON.stringify(isochrone.geometry),
+        isochroneMinutes: minutes,
+        travelMode: mode,
+        isochroneMethod: isochrone.method,
+      },
+    });
+  }
+
+  private rounded(point: LatLng): LatLng {
+    return { lat: Number(point.lat.toFixed(ORIGIN_DECIMALS)), lng: Number(point.lng.toFixed(ORIGIN_DECIMALS)) };
+  }
+
+  private cacheKey({ lat, lng }: LatLng, mode: TravelMode, minutes: number, graph: string | null): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${lat},${lng}|${mode}|${minutes}|${graph ?? 'straight_line'}`)
+      .digest('hex');
+  }
+}
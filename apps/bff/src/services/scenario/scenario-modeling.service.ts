@@ -1,7 +1,7 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Optional } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
 import { PortfolioOptimizerService, OptimizationResult } from '../portfolio/portfolio-optimizer.service';
-import OpenAI from 'openai';
+import { LlmClient } from '@subway/shared-ai';
 
 export interface ScenarioConfig {
   name: string;
@@ -82,16 +82,11 @@ export interface ComparisonMatrix {
 
 @Injectable()
 export class ScenarioModelingService {
-  private openai: OpenAI;
-
   constructor(
     private readonly prisma: PrismaClient,
-    private readonly portfolioOptimizer: PortfolioOptimizerService
-  ) {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
-  }
+    private readonly portfolioOptimizer: PortfolioOptimizerService,
+    @Optional() @Inject(LlmClient) private readonly llm: LlmClient = LlmClient.getInstance()
+  ) {}
 
   async generateScenario(config: ScenarioConfig): Promise<ScenarioResult> {
     console.log('🎯 Generating scenario:', config.name);
@@ -501,14 +496,15 @@ ${timeline.years.slice(0, 3).map(y => `- Year ${y.year}: ${y.storesOpened} store
 Provide a concise executive recommendation (2-3 sentences). Be specific, actionable, and focus on strategic implications. Consider ROI, risk, and execution feasibility.`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.SCENARIO_ANALYSIS_MODEL || 'gpt-5.2',
+      const response = await this.llm.complete({
+        purpose: 'scenario.recommendation',
+        model: process.env.SCENARIO_ANALYSIS_MODEL,
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.7,
-        max_tokens: 250
+        maxOutputTokens: 250
       });
 
-      return response.choices[0]?.message?.content || 'Analysis unavailable';
+      return response.text || 'Analysis unavailable';
     } catch (error) {
       console.error('AI recommendation failed:', error);
       return 'AI analysis temporarily unavailable. Review metrics above for decision-making.';
@@ -545,14 +541,15 @@ Provide an executive recommendation (3-4 sentences):
 Be decisive and strategic. Consider both financial returns and risk management.`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.SCENARIO_ANALYSIS_MODEL || 'gpt-5.2',
+      const response = await this.llm.complete({
+        purpose: 'scenario.comparison',
+        model: process.env.SCENARIO_ANALYSIS_MODEL,
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.7,
-        max_tokens: 300
+        maxOutputTokens: 300
       });
 
-      return response.choices[0]?.message?.content || 'Analysis unavailable';
+      return response.text || 'Analysis unavailable';
     } catch (error) {
       console.error('Comparative recommendation failed:', error);
       return 'AI analysis temporarily unavailable. Review comparison metrics above for decision-making.';
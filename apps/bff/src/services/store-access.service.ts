@@ -0,0 +1,70 @@
+import { ForbiddenException, Inject, Injectable } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedUser, SYSTEM_ROLE } from '../types/auth.types';
+
+/**
+ * Row-level scoping: works out which stores a caller may see or change.
+ *
+ * - SYSTEM, ADMIN and ANALYST see every store (analysts are read-only by permission)
+ * - REGIONAL_MANAGER sees stores in their assigned region/country
+ * - STORE_MANAGER and STAFF see stores they are assigned to through StoreStaff
+ */
+@Injectable()
+export class StoreAccessService {
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  /**
+   * Store IDs the user is limited to, or null when access is unrestricted.
+   */
+  async getAccessibleStoreIds(user: AuthenticatedUser | undefined): Promise<string[] | null> {
+    if (!user) return [];
+
+    switch (user.role) {
+      case SYSTEM_ROLE:
+      case 'ADMIN':
+      case 'ANALYST':
+        return null;
+      case 'REGIONAL_MANAGER': {
+        if (!user.region && !user.country) return [];
+        const where: Record<string, unknown> = {};
+        if (user.region) where.region = { equals: user.region, mode: 'insensitive' };
+        if (user.country) where.country = { equals: user.country, mode: 'insensitive' };
+        const stores = await this.prisma.store.findMany({ where, select: { id: true } });
+        return stores.map(s => s.id);
+      }
+      default: {
+        const assignments = await this.prisma.storeStaff.findMany({
+          where: { userId: user.id },
+          select: { storeId: true },
+        });
+        return assignments.map(a => a.storeId);
+      }
+    }
+  }
+
+  async canAccessStore(user: AuthenticatedUser | undefined, storeId: string): Promise<boolean> {
+    const storeIds = await this.getAccessibleStoreIds(user);
+    return storeIds === null || storeIds.includes(storeId);
+  }
+
+  async assertStoreAccess(user: AuthenticatedUser | undefined, storeId: string): Promise<void> {
+    if (!(await this.canAccessStore(user, storeId))) {
+      throw new ForbiddenException('You do not have access to this store');
+    }
+  }
+
+  /**
+   * Narrows a Prisma where clause on a store-owned model (Order, MenuItem, ...)
+   * to the caller's stores.
+   */
+  async restrictByStoreId<T extends Record<string, unknown>>(
+    user: AuthenticatedUser | undefined,
+    where: T,
+  ): Promise<T> {
+    const storeIds = await this.getAccessibleStoreIds(user);
+    if (storeIds === null) return where;
+
+    const existing = Array.isArray(where.AND) ? where.AND : where.AND ? [where.AND] : [];
+    return { ...where, AND: [...existing, { storeId: { in: storeIds } }] };
+  }
+}
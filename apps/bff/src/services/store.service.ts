@@ -92,6 +92,10 @@ export class StoreService {
       updateData.postcode = updates.postcode;
     }
 
+    if (updates.currency !== undefined) {
+      updateData.currency = updates.currency ? updates.currency.toUpperCase() : null;
+    }
+
     return this.storeRepository.update(id, updateData);
   }
 
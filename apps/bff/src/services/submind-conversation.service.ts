@@ -0,0 +1,120 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaClient, SubMindConversation, SubMindMessage } from '@prisma/client';
+import { LlmMessage } from '@subway/shared-ai';
+import { SubMindSource } from './submind-tools.service';
+
+export interface SubMindTurn extends LlmMessage {
+  sources?: SubMindSource[];
+  tokensUsed?: number;
+}
+
+export interface SubMindConversationDetail extends SubMindConversation {
+  messages: Array<Omit<SubMindMessage, 'toolCalls' | 'sources'> & {
+    toolCalls: LlmMessage['toolCalls'] | null;
+    sources: SubMindSource[] | null;
+  }>;
+}
+
+// Earlier turns are dropped from the prompt beyond this many questions
+const HISTORY_QUESTIONS = 10;
+const TITLE_LENGTH = 80;
+
+/**
+ * Per-user SubMind threads. Every turn is stored, including tool calls and
+ * their results, so a follow-up question replays exactly what the model saw.
+ */
+@Injectable()
+export class SubMindConversationService {
+  constructor(@Inject(PrismaClient) private readonly prisma: PrismaClient) {}
+
+  async start(userId: string, prompt: string, screen?: string): Promise<SubMindConversation> {
+    const title = prompt.length > TITLE_LENGTH ? `${prompt.slice(0, TITLE_LENGTH - 1)}…` : prompt;
+    return this.prisma.subMindConversation.create({ data: { userId, title, screen } });
+  }
+
+  /** The conversation, if it exists and belongs to the user */
+  async get(userId: string, id: string): Promise<SubMindConversation> {
+    const conversation = await this.prisma.subMindConversation.findFirst({ where: { id, userId } });
+    if (!conversation) {
+      throw new NotFoundException(`Conversation ${id} not found`);
+    }
+    return conversation;
+  }
+
+  async list(userId: string, limit = 20): Promise<SubMindConversation[]> {
+    return this.prisma.subMindConversation.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+
+  async detail(userId: string, id: string): Promise<SubMindConversationDetail> {
+    const conversation = await this.get(userId, id);
+    const messages = await this.prisma.subMindMessage.findMany({
+      where: { conversationId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+    return {
+      ...conversation,
+      messages: messages.map(message => ({
+        ...message,
+        toolCalls: message.toolCalls ? JSON.parse(message.toolCalls) : null,
+        sources: message.sources ? JSON.parse(message.sources) : null,
+      })),
+    };
+  }
+
+  /**
+   * Prior turns as LLM messages, starting at a question so tool calls are
+   * never separated from their results
+   */
+  async history(conversationId: string): Promise<LlmMessage[]> {
+    const questions = await this.prisma.subMindMessage.findMany({
+      where: { conversationId, role: 'user' },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_QUESTIONS,
+      select: { createdAt: true },
+    });
+    if (questions.length === 0) return [];
+
+    const messages = await this.prisma.subMindMessage.findMany({
+      where: { conversationId, createdAt: { gte: questions[questions.length - 1].createdAt } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return messages.map(message => ({
+      role: message.role as LlmMessage['role'],
+      content: message.content,
+      ...(message.toolCalls && { toolCalls: JSON.parse(message.toolCalls) }),
+      ...(message.toolCallId && { toolCallId: message.toolCallId }),
+    }));
+  }
+
+  /** Stores a question's turns in order and bumps the conversation's updatedAt */
+  async append(conversationId: string, turns: SubMindTurn[]): Promise<void> {
+    // Explicit timestamps keep the order of turns written in the same millisecond
+    const start = Date.now();
+    await this.prisma.$transaction([
+      ...turns.map((turn, index) =>
+        this.prisma.subMindMessage.create({
+          data: {
+            conversationId,
+            role: turn.role,
+            content: turn.content,
+            toolCalls: turn.toolCalls?.length ? JSON.stringify(turn.toolCalls) : null,
+            toolCallId: turn.toolCallId ?? null,
+            sources: turn.sources ? JSON.stringify(turn.sources) : null,
+            tokensUsed: turn.tokensUsed ?? null,
+            createdAt: new Date(start + index),
+          },
+        }),
+      ),
+      this.prisma.subMindConversation.update({ where: { id: conversationId }, data: { updatedAt: new Date() } }),
+    ]);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    await this.get(userId, id);
+    await this.prisma.subMindConversation.delete({ where: { id } });
+  }
+}
@@ -0,0 +1,430 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { LlmTool, LlmToolCall } from '@subway/shared-ai';
+import { AuthenticatedUser, Permission, hasPermission } from '../types/auth.types';
+import { makeWhere, parseScope } from '../util/scope';
+import { StoreAccessService } from './store-access.service';
+import { StoreService } from './store.service';
+import { RevenueForecastingService } from './forecasting/revenue-forecasting.service';
+import { CompetitorService } from './competitive/competitor.service';
+import { FranchiseeService } from './franchisee/franchisee.service';
+import { haversineKm } from './portfolio/huff-model';
+
+export interface SubMindSource {
+  type: 'api' | 'sql' | 'note';
+  ref: string;
+}
+
+export interface SubMindToolResult {
+  /** JSON-serialisable result handed back to the model */
+  data: unknown;
+  /** Citation for the answer's sources; absent when the call failed */
+  source?: SubMindSource;
+}
+
+type ToolArgs = Record<string, unknown>;
+
+interface SubMindTool extends LlmTool {
+  /** Callers without it never see the tool */
+  permission: Permission;
+  run(args: ToolArgs, user: AuthenticatedUser): Promise<{ data: unknown; ref: string }>;
+}
+
+const MAX_STORES = 20;
+const MAX_COMPETITOR_RADIUS_KM = 10;
+const DATE_RANGES = ['today', '7days', '30days', '90days', 'all'];
+
+const SCOPE_PROPERTIES = {
+  region: { type: 'string', description: 'Region code, e.g. EMEA, AMER, APAC' },
+  country: { type: 'string', description: 'Country name as stored on stores, e.g. Germany' },
+  storeId: { type: 'string', description: 'A single store' },
+};
+
+/**
+ * Read-only tools SubMind may call to answer from live data. Each maps onto an
+ * existing service or endpoint, runs with the caller's permissions and store
+ * access, and returns a compact summary rather than raw rows.
+ */
+@Injectable()
+export class SubMindToolsService {
+  private readonly logger = new Logger(SubMindToolsService.name);
+  private readonly tools: SubMindTool[];
+
+  constructor(
+    @Inject(PrismaClient) private readonly prisma: PrismaClient,
+    private readonly storeAccess: StoreAccessService,
+    private readonly stores: StoreService,
+    private readonly forecasting: RevenueForecastingService,
+    private readonly competitors: CompetitorService,
+    private readonly franchisees: FranchiseeService,
+  ) {
+    this.tools = [
+      {
+        name: 'lookup_stores',
+        description: 'Find stores by id, name, city, region, country or status. Returns up to 20 stores with location, status, turnover and franchisee.',
+        parameters: {
+          type: 'object',
+          properties: {
+            storeId: SCOPE_PROPERTIES.storeId,
+            name: { type: 'string', description: 'Part of the store name' },
+            city: { type: 'string' },
+            region: SCOPE_PROPERTIES.region,
+            country: SCOPE_PROPERTIES.country,
+            status: { type: 'string', description: 'e.g. ACTIVE, INACTIVE, PLANNED' },
+          },
+        },
+        permission: 'stores:read',
+        run: (args, user) => this.lookupStores(args, user),
+      },
+      {
+        name: 'get_kpis',
+        description: 'Headline KPIs (order count, revenue, menu items, pending orders) for the whole network, a region/country or one store.',
+        parameters: { type: 'object', properties: SCOPE_PROPERTIES },
+        permission: 'analytics:read',
+        run: (args, user) => this.kpis(args, user),
+      },
+      {
+        name: 'order_analytics',
+        description: 'Order totals, average order value, orders by status and the top stores by revenue over a date range, for the network, a region/country or one store.',
+        parameters: {
+          type: 'object',
+          properties: {
+            ...SCOPE_PROPERTIES,
+            dateRange: { type: 'string', enum: DATE_RANGES, description: 'Defaults to 30days' },
+          },
+        },
+        permission: 'analytics:read',
+        run: (args, user) => this.orderAnalytics(args, user),
+      },
+      {
+        name: 'store_forecast',
+        description: 'The latest saved revenue forecast for a store: next month, next quarter and year-end revenue, growth, the model used and the next few monthly points.',
+        parameters: { type: 'object', properties: { storeId: SCOPE_PROPERTIES.storeId }, required: ['storeId'] },
+        permission: 'analytics:read',
+        run: (args, user) => this.storeForecast(args, user),
+      },
+      {
+        name: 'competitors_nearby',
+        description: 'Active competitor outlets within a radius (km, max 10) of a store or a lat/lng: counts per brand and the nearest outlets.',
+        parameters: {
+          type: 'object',
+          properties: {
+            storeId: SCOPE_PROPERTIES.storeId,
+            lat: { type: 'number' },
+            lng: { type: 'number' },
+            radiusKm: { type: 'number', description: 'Defaults to 2' },
+          },
+        },
+        permission: 'stores:read',
+        run: (args, user) => this.competitorsNearby(args, user),
+      },
+      {
+        name: 'franchisee_portfolio',
+        description: 'A franchisee\'s profile, scores and store portfolio with revenue over the last year. Store lookups return franchiseeId.',
+        parameters: {
+          type: 'object',
+          properties: { franchiseeId: { type: 'string' } },
+          required: ['franchiseeId'],
+        },
+        permission: 'analytics:read',
+        run: (args, user) => this.franchiseePortfolio(args, user),
+      },
+    ];
+  }
+
+  /** Tool definitions the user may call, in the shape the LLM client sends */
+  definitionsFor(user: AuthenticatedUser | undefined): LlmTool[] {
+    return this.tools
+      .filter(tool => hasPermission(user, tool.permission))
+      .map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  /**
+   * Runs one tool call. Failures come back as { error } for the model to
+   * read and recover from rather than aborting the conversation.
+   */
+  async run(call: LlmToolCall, user: AuthenticatedUser | undefined): Promise<SubMindToolResult> {
+    const tool = this.tools.find(candidate => candidate.name === call.name);
+    if (!tool || !user || !hasPermission(user, tool.permission)) {
+      return { data: { error: `Tool ${call.name} is not available` } };
+    }
+
+    try {
+      const { data, ref } = await tool.run(call.arguments ?? {}, user);
+      return { data, source: { type: 'api', ref } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`SubMind tool ${call.name} failed: ${message}`);
+      return { data: { error: message } };
+    }
+  }
+
+  private async lookupStores(args: ToolArgs, user: AuthenticatedUser) {
+    const storeId = optionalString(args.storeId);
+    if (storeId) {
+      await this.storeAccess.assertStoreAccess(user, storeId);
+      const store = await this.stores.getStoreById(storeId);
+      if (!store) throw new Error(`Store ${storeId} not found`);
+      return { data: { stores: [summariseStore(store)] }, ref: `GET /stores/${storeId}` };
+    }
+
+    const filters = {
+      region: optionalString(args.region),
+      country: optionalString(args.country),
+      city: optionalString(args.city),
+      status: optionalString(args.status),
+    };
+    const storeIds = await this.storeAccess.getAccessibleStoreIds(user);
+    let stores = await this.stores.getStores({ ...filters, ...(storeIds && { storeIds }) });
+    const name = optionalString(args.name)?.toLowerCase();
+    if (name) {
+      stores = stores.filter(store => store.name.toLowerCase().includes(name));
+    }
+
+    return {
+      data: { total: stores.length, stores: stores.slice(0, MAX_STORES).map(summariseStore) },
+      ref: `GET /stores${queryString({ ...filters, name })}`,
+    };
+  }
+
+  private async kpis(args: ToolArgs, user: AuthenticatedUser) {
+    const scope = this.scopeOf(args);
+    // Orders and menu items share the storeId / Store relation filter
+    const where = await this.orderWhere(scope, user);
+
+    const [orders, revenue, menuItems, pendingOrders] = await Promise.all([
+      this.prisma.order.count({ where }),
+      this.prisma.order.aggregate({ _sum: { total: true }, where }),
+      this.prisma.menuItem.count({ where }),
+      this.prisma.order.count({ where: { ...where, status: 'PENDING' } }),
+    ]);
+
+    return {
+      data: { scope, orders, revenue: Number(revenue._sum.total ?? 0), menuItems, pendingOrders },
+      ref: `GET /kpis${queryString(scope)}`,
+    };
+  }
+
+  private async orderAnalytics(args: ToolArgs, user: AuthenticatedUser) {
+    const scope = this.scopeOf(args);
+    const dateRange = DATE_RANGES.includes(String(args.dateRange)) ? String(args.dateRange) : '30days';
+    const where = await this.orderWhere(scope, user);
+    const since = rangeStart(dateRange);
+    if (since) where.createdAt = { gte: since };
+
+    const [totalOrders, revenue, byStatus, byStore] = await Promise.all([
+      this.prisma.order.count({ where }),
+      this.prisma.order.aggregate({ where, _sum: { total: true } }),
+      this.prisma.order.groupBy({ by: ['status'], where, _count: true }),
+      this.prisma.order.groupBy({
+        by: ['storeId'],
+        where,
+        _sum: { total: true },
+        _count: true,
+        orderBy: { _sum: { total: 'desc' } },
+        take: 5,
+      }),
+    ]);
+    const storeNames = new Map(
+      (await this.prisma.store.findMany({
+        where: { id: { in: byStore.map(row => row.storeId) } },
+        select: { id: true, name: true },
+      })).map(store => [store.id, store.name]),
+    );
+
+    const totalRevenue = Number(revenue._sum.total ?? 0);
+    return {
+      data: {
+        scope,
+        dateRange,
+        totalOrders,
+        totalRevenue,
+        avgOrderValue: totalOrders > 0 ? round(totalRevenue / totalOrders) : 0,
+        ordersByStatus: byStatus.map(row => ({ status: row.status, count: row._count })),
+        topStores: byStore.map(row => ({
+          storeId: row.storeId,
+          name: storeNames.get(row.storeId) ?? null,
+          orders: row._count,
+          revenue: Number(row._sum.total ?? 0),
+        })),
+      },
+      ref: `GET /orders/analytics/summary${queryString({ ...scope, dateRange })}`,
+    };
+  }
+
+  private async storeForecast(args: ToolArgs, user: AuthenticatedUser) {
+    const storeId = requiredString(args.storeId, 'storeId');
+    await this.storeAccess.assertStoreAccess(user, storeId);
+    const ref = `GET /forecasts/store/${storeId}`;
+
+    // Only saved forecasts: fitting a new one is a write and can take a while
+    const forecast = await this.forecasting.getStoreForecast(storeId);
+    if (!forecast) {
+      return { data: { storeId, available: false, note: 'No forecast has been generated for this store yet' }, ref };
+    }
+
+    return {
+      data: {
+        storeId,
+        storeName: forecast.storeName,
+        summary: forecast.summary,
+        model: { name: forecast.model.name, reason: forecast.model.reason, backtestMape: forecast.model.backtestMape },
+        nextMonths: forecast.forecasts.slice(0, 3).map(point => ({
+          year: point.year,
+          month: point.month,
+          predictedRevenue: round(point.predictedRevenue),
+          confidenceLow: round(point.confidenceLow),
+          confidenceHigh: round(point.confidenceHigh),
+        })),
+      },
+      ref,
+    };
+  }
+
+  private async competitorsNearby(args: ToolArgs, user: AuthenticatedUser) {
+    const radiusKm = Math.min(Math.max(Number(args.radiusKm) || 2, 0.1), MAX_COMPETITOR_RADIUS_KM);
+    let lat = Number(args.lat);
+    let lng = Number(args.lng);
+    let origin = `${lat},${lng}`;
+
+    const storeId = optionalString(args.storeId);
+    if (storeId) {
+      await this.storeAccess.assertStoreAccess(user, storeId);
+      const store = await this.stores.getStoreById(storeId);
+      if (!store || store.latitude == null || store.longitude == null) {
+        throw new Error(`Store ${storeId} has no location`);
+      }
+      lat = store.latitude;
+      lng = store.longitude;
+      origin = `store ${storeId}`;
+    } else if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+      throw new Error('Give a storeId or both lat and lng');
+    }
+
+    const dLat = radiusKm / 111;
+    const dLng = radiusKm / (111 * Math.cos((lat * Math.PI) / 180));
+    const places = await this.competitors.getCompetitors({
+      boundingBox: { north: lat + dLat, south: lat - dLat, east: lng + dLng, west: lng - dLng },
+      centerLat: lat,
+      centerLng: lng,
+      radiusKm,
+    });
+
+    const byBrand: Record<string, number> = {};
+    for (const place of places) byBrand[place.brand] = (byBrand[place.brand] ?? 0) + 1;
+    const nearest = places
+      .map(place => ({
+        brand: place.brand,
+        name: place.name,
+        address: place.address,
+        distanceKm: round(haversineKm(lat, lng, place.latitude, place.longitude)),
+      }))
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, 10);
+
+    return {
+      data: { origin, radiusKm, total: places.length, byBrand, nearest },
+      ref: `CompetitorPlace within ${radiusKm} km of ${origin}`,
+    };
+  }
+
+  private async franchiseePortfolio(args: ToolArgs, user: AuthenticatedUser) {
+    const franchiseeId = requiredString(args.franchiseeId, 'franchiseeId');
+    const portfolio = await this.franchisees.getFranchiseePortfolio(franchiseeId);
+    if (!portfolio) throw new Error(`Franchisee ${franchiseeId} not found`);
+
+    // Restricted callers only see the part of the portfolio they have access to
+    const storeIds = await this.storeAccess.getAccessibleStoreIds(user);
+    const stores = storeIds === null ? portfolio.stores : portfolio.stores.filter(store => storeIds.includes(store.id));
+    if (stores.length === 0 && portfolio.stores.length > 0) {
+      throw new Error('You do not have access to any store of this franchisee');
+    }
+
+    const { franchisee } = portfolio;
+    return {
+      data: {
+        franchisee: {
+          id: franchisee.id,
+          name: franchisee.name,
+          companyName: franchisee.companyName,
+          status: franchisee.status,
+          performanceScore: franchisee.performanceScore,
+          expansionScore: franchisee.expansionScore,
+          riskScore: franchisee.riskScore,
+        },
+        metrics: storeIds === null ? portfolio.metrics : undefined,
+        stores: stores.map(summariseStore),
+      },
+      ref: `GET /franchisees/${franchiseeId}/portfolio`,
+    };
+  }
+
+  private scopeOf(args: ToolArgs): ReturnType<typeof parseScope> {
+    const storeId = optionalString(args.storeId);
+    const region = optionalString(args.region);
+    const country = optionalString(args.country);
+    const scope = storeId ? 'store' : region || country ? 'region' : 'global';
+    return parseScope({ scope, storeId, region, country });
+  }
+
+  /** Order filter for a scope, narrowed to the caller's stores (as GET /kpis and the order analytics do) */
+  private async orderWhere(scope: ReturnType<typeof parseScope>, user: AuthenticatedUser) {
+    if (scope.storeId) await this.storeAccess.assertStoreAccess(user, scope.storeId);
+    const where: Record<string, unknown> = { ...makeWhere(scope) };
+    if (where.store) {
+      where.Store = { is: where.store };
+      delete where.store;
+    }
+    return this.storeAccess.restrictByStoreId(user, where);
+  }
+}
+
+function summariseStore(store: Awaited<ReturnType<StoreService['getStoreById']>> & object) {
+  return {
+    id: store.id,
+    name: store.name,
+    city: store.city,
+    country: store.country,
+    region: store.region,
+    status: store.status,
+    annualTurnover: store.annualTurnover,
+    openedAt: store.openedAt,
+    franchiseeId: store.franchiseeId,
+  };
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function requiredString(value: unknown, name: string): string {
+  const text = optionalString(value);
+  if (!text) throw new Error(`${name} is required`);
+  return text;
+}
+
+function queryString(params: Record<string, unknown>): string {
+  const entries = Object.entries(params).filter(([key, value]) => value !== undefined && key !== 'scope');
+  return entries.length ? `?${new URLSearchParams(entries.map(([key, value]) => [key, String(value)])).toString()}` : '';
+}
+
+function rangeStart(dateRange: string): Date | null {
+  const now = new Date();
+  const day = 24 * 60 * 60 * 1000;
+  switch (dateRange) {
+    case 'today':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case '7days':
+      return new Date(now.getTime() - 7 * day);
+    case '30days':
+      return new Date(now.getTime() - 30 * day);
+    case '90days':
+      return new Date(now.getTime() - 90 * day);
+    default:
+      return null;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -22,7 +22,8 @@ export class SubMindRateLimitService implements OnModuleDestroy {
   constructor() {
     // Default: 10 requests per 60 seconds
     this.maxTokens = parseInt(process.env.SUBMIND_RATE_LIMIT_REQUESTS || '10', 10);
-    this.windowMs = parseInt(process.env.SUBMIND_RATE_LIMIT_WINDOW || '60', 10) * 1000;
+    // Seconds, fractions allowed
+    this.windowMs = parseFloat(process.env.SUBMIND_RATE_LIMIT_WINDOW || '60') * 1000;
     
     // Set up periodic cleanup every 5 minutes
     this.cleanupInterval = setInterval(() => {
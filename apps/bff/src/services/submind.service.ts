@@ -1,26 +1,41 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { fetch } from 'undici';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { LlmClient, LlmMessage, LlmResponse } from '@subway/shared-ai';
 import { SubMindQueryDto, SubMindResponseDto } from '../dto/submind.dto';
+import { AuthenticatedUser } from '../types/auth.types';
 import { SubMindSecurityUtil } from '../util/submind-security.util';
+import { SubMindSource, SubMindToolsService } from './submind-tools.service';
+import { SubMindConversationService, SubMindTurn } from './submind-conversation.service';
+
+// Rounds of tool calls before the model must answer with what it has
+const MAX_TOOL_ROUNDS = 4;
+const MAX_TOOL_RESULT_CHARS = 6000;
 
 @Injectable()
 export class SubMindService {
   private readonly logger = new Logger(SubMindService.name);
-  private readonly OPENAI_API_KEY = process.env.OPENAI_API_KEY;
   private readonly isEnabled: boolean;
 
-  constructor() {
-    this.isEnabled = !!this.OPENAI_API_KEY;
+  constructor(
+    @Optional() @Inject(LlmClient) private readonly llm: LlmClient = LlmClient.getInstance(),
+    @Optional() private readonly tools?: SubMindToolsService,
+    @Optional() private readonly conversations?: SubMindConversationService,
+  ) {
+    this.isEnabled = this.llm.isConfigured();
     
     if (this.isEnabled) {
-      this.logger.log('SubMind service initialized with OpenAI integration');
+      this.logger.log(`SubMind service initialized with ${this.llm.providerName} LLM provider`);
     } else {
-      this.logger.warn('SubMind service disabled - OPENAI_API_KEY not found');
+      this.logger.warn('SubMind service disabled - no LLM provider configured (OPENAI_API_KEY or LLM_PROVIDER)');
     }
   }
 
-  async processQuery(query: SubMindQueryDto): Promise<SubMindResponseDto> {
-    if (!this.isEnabled || !this.OPENAI_API_KEY) {
+  /**
+   * Answers a question. With a signed-in user the model may call read-only
+   * tools over live data, cited in `sources`, and the exchange is saved to the
+   * user's conversation so follow-up questions keep their context.
+   */
+  async processQuery(query: SubMindQueryDto, user?: AuthenticatedUser): Promise<SubMindResponseDto> {
+    if (!this.isEnabled) {
       // Return placeholder response for expansion analysis when AI is disabled
       if (this.isExpansionAnalysisQuery(query)) {
         return this.getExpansionAnalysisPlaceholder(query);
@@ -40,61 +55,87 @@ export class SubMindService {
     const logEntry = SubMindSecurityUtil.createSafeLogEntry(sanitizedPrompt, sanitizedContext);
     this.logger.debug(`Processing query with hash: ${logEntry.promptHash}`);
 
+    // Outside the try so an unknown conversation stays a 404
+    const conversation = user && this.conversations && query.conversationId
+      ? await this.conversations.get(user.id, query.conversationId)
+      : null;
+
     try {
       // Build context-aware prompt with sanitized context
       const enhancedPrompt = this.buildContextualPrompt(sanitizedPrompt, sanitizedContext);
-      const systemPrompt = this.getSystemPrompt();
-      
-      // Combine system and user prompts for Responses API
-      const fullPrompt = `${systemPrompt}\n\n${enhancedPrompt}`;
-      
-      // Call OpenAI Responses API (same as expansion system)
-      const response = await fetch('https://api.openai.com/v1/responses', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-5-mini',
-          input: fullPrompt,
-          max_output_tokens: 1000,
-          reasoning: { effort: 'low' }
-        })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        this.logger.error(`OpenAI API error: ${response.status} - ${errorText}`);
-        throw new Error(`OpenAI API error: ${response.status}`);
+      const tools = user && this.tools ? this.tools.definitionsFor(user) : [];
+      const history = conversation ? await this.conversations!.history(conversation.id) : [];
+
+      const question: LlmMessage = { role: 'user', content: enhancedPrompt };
+      const messages: LlmMessage[] = [{ role: 'system', content: this.getSystemPrompt(tools.length > 0) }, ...history, question];
+      const turns: SubMindTurn[] = [question];
+      const sources = this.extractSources(sanitizedContext);
+      let tokensUsed = 0;
+      let toolCalls = 0;
+      let response: LlmResponse;
+
+      for (let round = 0; ; round++) {
+        const canCallTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+        response = await this.llm.complete({
+          purpose: 'submind.query',
+          messages,
+          maxOutputTokens: 1000,
+          reasoningEffort: 'low',
+          ...(canCallTools && { tools }),
+        });
+        tokensUsed += response.usage.totalTokens;
+        if (!canCallTools || !response.toolCalls?.length) break;
+
+        const call: LlmMessage = { role: 'assistant', content: response.text, toolCalls: response.toolCalls };
+        messages.push(call);
+        turns.push(call);
+        for (const toolCall of response.toolCalls) {
+          const result = await this.tools!.run(toolCall, user);
+          toolCalls++;
+          if (result.source && !sources.some(source => source.ref === result.source!.ref)) {
+            sources.push(result.source);
+          }
+          const output: LlmMessage = {
+            role: 'tool',
+            toolCallId: toolCall.id,
+            content: JSON.stringify(result.data).slice(0, MAX_TOOL_RESULT_CHARS),
+          };
+          messages.push(output);
+          turns.push(output);
+        }
       }
 
-      const data: any = await response.json();
-      const tokensUsed = data.usage?.total_tokens || 0;
-
-      // Extract the response (same format as expansion system)
-      const messageOutput = data.output?.find((item: any) => item.type === 'message');
-      if (!messageOutput?.content?.[0]?.text) {
-        this.logger.error('No message output from GPT');
-        throw new Error('No message output from GPT');
+      if (!response.text) {
+        this.logger.error('No message output from LLM');
+        throw new Error('No message output from LLM');
       }
 
-      const responseText = messageOutput.content[0].text;
+      const responseText = response.text;
       const latencyMs = Date.now() - startTime;
 
-      this.logger.debug(`Query processed in ${latencyMs}ms, used ${tokensUsed} tokens`);
+      // New threads are only created once there is an answer to keep
+      let conversationId: string | undefined;
+      if (user && this.conversations) {
+        conversationId = (conversation ?? (await this.conversations.start(user.id, sanitizedPrompt, query.context?.screen))).id;
+        turns.push({ role: 'assistant', content: responseText, sources, tokensUsed });
+        await this.conversations.append(conversationId, turns);
+      }
+
+      this.logger.debug(`Query processed in ${latencyMs}ms with ${toolCalls} tool calls, used ${tokensUsed} tokens`);
 
       return {
         message: responseText,
-        sources: this.extractSources(sanitizedContext),
+        ...(conversationId && { conversationId }),
+        sources,
         meta: {
           tokens: tokensUsed,
           latencyMs,
+          ...(toolCalls > 0 && { toolCalls }),
         },
       };
     } catch (error) {
       const latencyMs = Date.now() - startTime;
-      this.logger.error(`OpenAI API error after ${latencyMs}ms:`, error);
+      this.logger.error(`LLM error after ${latencyMs}ms:`, error);
       
       if (error instanceof Error) {
         throw new Error(`AI processing failed: ${error.message}`);
@@ -104,7 +145,7 @@ export class SubMindService {
   }
 
   async processExpansionAnalysis(region: string, reasons: string[]): Promise<SubMindResponseDto> {
-    if (!this.isEnabled || !this.OPENAI_API_KEY) {
+    if (!this.isEnabled) {
       return this.getExpansionAnalysisPlaceholder({ 
         prompt: `Analyze expansion opportunities in ${region}`,
         context: { 
@@ -121,37 +162,13 @@ export class SubMindService {
       // Build expansion-specific prompt
       const expansionPrompt = this.buildExpansionPrompt(region, reasons);
       const systemPrompt = this.getExpansionSystemPrompt();
-      const fullPrompt = `${systemPrompt}\n\n${expansionPrompt}`;
-      
-      // Call OpenAI Responses API
-      const response = await fetch('https://api.openai.com/v1/responses', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-5-mini',
-          input: fullPrompt,
-          max_output_tokens: 1200,
-          reasoning: { effort: 'low' }
-        })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data: any = await response.json();
-      const tokensUsed = data.usage?.total_tokens || 0;
-      const messageOutput = data.output?.find((item: any) => item.type === 'message');
-      
-      if (!messageOutput?.content?.[0]?.text) {
-        throw new Error('No message output from GPT');
+      const response = await this.complete('submind.expansion', systemPrompt, expansionPrompt, 1200);
+      const tokensUsed = response.usage.totalTokens;
+      if (!response.text) {
+        throw new Error('No message output from LLM');
       }
 
-      const responseText = messageOutput.content[0].text;
+      const responseText = response.text;
       const latencyMs = Date.now() - startTime;
 
       this.logger.debug(`Expansion analysis processed in ${latencyMs}ms, used ${tokensUsed} tokens`);
@@ -197,7 +214,7 @@ export class SubMindService {
     },
     reasons?: string[]
   ): Promise<SubMindResponseDto> {
-    if (!this.isEnabled || !this.OPENAI_API_KEY) {
+    if (!this.isEnabled) {
       return this.getScopeExpansionPlaceholder(scope, suggestion);
     }
 
@@ -207,37 +224,13 @@ export class SubMindService {
       // Build scope-aware expansion prompt
       const expansionPrompt = this.buildScopeExpansionPrompt(scope, suggestion, reasons);
       const systemPrompt = this.getScopeExpansionSystemPrompt();
-      const fullPrompt = `${systemPrompt}\n\n${expansionPrompt}`;
-      
-      // Call OpenAI Responses API
-      const response = await fetch('https://api.openai.com/v1/responses', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-5-mini',
-          input: fullPrompt,
-          max_output_tokens: 1500,
-          reasoning: { effort: 'low' }
-        })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`OpenAI API error: ${response.status}`);
+      const response = await this.complete('submind.scope-expansion', systemPrompt, expansionPrompt, 1500);
+      const tokensUsed = response.usage.totalTokens;
+      if (!response.text) {
+        throw new Error('No message output from LLM');
       }
 
-      const data: any = await response.json();
-      const tokensUsed = data.usage?.total_tokens || 0;
-      const messageOutput = data.output?.find((item: any) => item.type === 'message');
-      
-      if (!messageOutput?.content?.[0]?.text) {
-        throw new Error('No message output from GPT');
-      }
-
-      const responseText = messageOutput.content[0].text;
+      const responseText = response.text;
       const latencyMs = Date.now() - startTime;
 
       this.logger.debug(`Scope expansion analysis processed in ${latencyMs}ms, used ${tokensUsed} tokens`);
@@ -264,6 +257,18 @@ export class SubMindService {
     }
   }
 
+  private complete(purpose: string, systemPrompt: string, userPrompt: string, maxOutputTokens: number): Promise<LlmResponse> {
+    return this.llm.complete({
+      purpose,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      maxOutputTokens,
+      reasoningEffort: 'low',
+    });
+  }
+
   private sanitizePrompt(prompt: string): string {
     // Use security utility for validation and clamping
     const validated = SubMindSecurityUtil.validatePromptLength(prompt, 4000);
@@ -363,7 +368,13 @@ export class SubMindService {
     return enhancedPrompt;
   }
 
-  private getSystemPrompt(): string {
+  private getSystemPrompt(withTools = false): string {
+    const toolGuidance = withTools
+      ? `
+- You can call read-only tools for live store, KPI, order, forecast, competitor and franchisee data. Use them instead of guessing whenever a question needs figures, and say which figures you used
+- Tools only return data the user is allowed to see; if a tool reports an error, explain what you could not look up`
+      : '';
+
     return `You are SubMind, an AI assistant for the Subway Enterprise management system. You help users understand their restaurant data, metrics, and operations.
 
 Key guidelines:
@@ -374,13 +385,13 @@ Key guidelines:
 - If asked about geographic data, consider regional and country-level insights
 - For store-specific questions, focus on operational efficiency and performance
 - Always maintain a professional, helpful tone
-- If you don't have specific data, provide general best practices for restaurant management
+- If you don't have specific data, provide general best practices for restaurant management${toolGuidance}
 
 Remember: You're helping restaurant managers and executives make better decisions.`;
   }
 
-  private extractSources(context?: SubMindQueryDto['context']): Array<{ type: 'api' | 'sql' | 'note'; ref: string }> {
-    const sources: Array<{ type: 'api' | 'sql' | 'note'; ref: string }> = [];
+  private extractSources(context?: SubMindQueryDto['context']): SubMindSource[] {
+    const sources: SubMindSource[] = [];
 
     if (context?.screen) {
       sources.push({
@@ -0,0 +1,77 @@
+/**
+ * Roles, permissions and the authenticated principal attached to requests
+ */
+
+export const USER_ROLES = ['ADMIN', 'REGIONAL_MANAGER', 'STORE_MANAGER', 'ANALYST', 'STAFF'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+/** Role given to the internal admin service when no acting user is supplied */
+export const SYSTEM_ROLE = 'SYSTEM';
+
+export type Permission =
+  | 'stores:read'
+  | 'stores:write'
+  | 'orders:read'
+  | 'orders:write'
+  | 'menu:read'
+  | 'menu:write'
+  | 'pricing:write'
+  | 'hours:write'
+  | 'staff:manage'
+  | 'analytics:read'
+  | 'ai:run'
+  | 'experiments:manage'
+  | 'settings:manage';
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  ADMIN: [
+    'stores:read', 'stores:write', 'orders:read', 'orders:write', 'menu:read', 'menu:write',
+    'pricing:write', 'hours:write', 'staff:manage', 'analytics:read', 'ai:run', 'experiments:manage',
+    'settings:manage',
+  ],
+  REGIONAL_MANAGER: [
+    'stores:read', 'stores:write', 'orders:read', 'orders:write', 'menu:read', 'menu:write',
+    'pricing:write', 'hours:write', 'staff:manage', 'analytics:read', 'ai:run', 'experiments:manage',
+  ],
+  STORE_MANAGER: [
+    'stores:read', 'orders:read', 'orders:write', 'menu:read', 'pricing:write',
+    'hours:write', 'staff:manage', 'analytics:read',
+  ],
+  ANALYST: ['stores:read', 'orders:read', 'menu:read', 'analytics:read'],
+  STAFF: ['stores:read', 'orders:read', 'orders:write', 'menu:read'],
+};
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  role: UserRole | typeof SYSTEM_ROLE;
+  region?: string | null;
+  country?: string | null;
+  source: 'internal-admin' | 'dev-bypass';
+}
+
+// AuthGuard attaches the principal to the Express request
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+/**
+ * Maps stored role strings onto the permission model. `MANAGER` predates the
+ * split into regional and store managers and keeps its store-level meaning.
+ */
+export function normalizeRole(role: string | null | undefined): UserRole {
+  const upper = (role || '').toUpperCase();
+  if (upper === 'MANAGER') return 'STORE_MANAGER';
+  return (USER_ROLES as readonly string[]).includes(upper) ? (upper as UserRole) : 'STAFF';
+}
+
+export function hasPermission(user: AuthenticatedUser | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  if (user.role === SYSTEM_ROLE) return true;
+  return ROLE_PERMISSIONS[user.role].includes(permission);
+}
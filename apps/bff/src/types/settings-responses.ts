@@ -6,6 +6,8 @@ export interface UserResponse {
   id: string;
   email: string;
   role: string;
+  region?: string | null;
+  country?: string | null;
   firstName?: string | null;
   lastName?: string | null;
   active: boolean;
@@ -28,10 +30,28 @@ export interface FeatureFlagResponse {
   key: string;
   enabled: boolean;
   description?: string | null;
+  category: string;
+  rolloutPercentage?: number | null;
+  conditions: Array<{ type: string; operator: string; value: unknown }>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface FeatureFlagEvaluationResponse {
+  flagName: string;
+  enabled: boolean;
+  reason: string;
+  evaluatedAt: Date;
+}
+
+export interface FeatureFlagHistoryResponse {
+  id: string;
+  actor: string;
+  action: string;
+  diff: Record<string, unknown> | null;
+  timestamp: Date;
+}
+
 export interface AuditLogPaginatedResponse {
   entries: AuditEntryResponse[];
   pagination: {
@@ -17,6 +17,11 @@ export interface TelemetryEventData {
   properties?: Record<string, unknown>;
 }
 
+// Matches prefixed actions too, e.g. FEATURE_FLAG_CREATE
+function isAction(action: string, verb: 'CREATE' | 'DELETE'): boolean {
+  return action === verb || action.endsWith(`_${verb}`);
+}
+
 export class AuditUtil {
   constructor(private readonly prisma: PrismaClient) {}
 
@@ -46,9 +51,9 @@ export class AuditUtil {
         if (Object.keys(changes).length > 0) {
           diff = JSON.stringify(changes);
         }
-      } else if (context.action === 'CREATE' && context.newData) {
+      } else if (isAction(context.action, 'CREATE') && context.newData) {
         diff = JSON.stringify({ created: context.newData });
-      } else if (context.action === 'DELETE' && context.oldData) {
+      } else if (isAction(context.action, 'DELETE') && context.oldData) {
         diff = JSON.stringify({ deleted: context.oldData });
       }
 
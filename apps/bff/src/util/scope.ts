@@ -1,3 +1,5 @@
+import { Prisma } from '@prisma/client';
+
 export type Scope = 'global' | 'region' | 'store';
 
 export function parseScope(q: Record<string, unknown>) {
@@ -20,3 +22,15 @@ export function makeWhere({ scope, storeId, country, region }: ReturnType<typeof
   }
   return {}; // global
 }
+
+// The same filter as SQL over "Order" o joined to "Store" s, for queries Prisma cannot express
+export function makeOrderSql({ scope, storeId, country, region }: ReturnType<typeof parseScope>): Prisma.Sql {
+  if (scope === 'store' && storeId) return Prisma.sql`o."storeId" = ${storeId}`;
+  if (scope === 'region' && (country || region)) {
+    const conditions: Prisma.Sql[] = [];
+    if (country) conditions.push(Prisma.sql`lower(s.country) = lower(${country})`);
+    if (region) conditions.push(Prisma.sql`lower(s.region) = lower(${region})`);
+    return Prisma.join(conditions, ' AND ');
+  }
+  return Prisma.sql`TRUE`; // global
+}
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "basePrice" DECIMAL(65,30),
+ADD COLUMN     "priceOverrideId" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderItemModifier" (
+    "id" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "modifierId" TEXT NOT NULL,
+    "modifierGroupId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priceAdjustment" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderItemModifier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderItemModifier_orderItemId_idx" ON "OrderItemModifier"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "OrderItemModifier_modifierId_idx" ON "OrderItemModifier"("modifierId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItemModifier" ADD CONSTRAINT "OrderItemModifier_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItemModifier" ADD CONSTRAINT "OrderItemModifier_modifierId_fkey" FOREIGN KEY ("modifierId") REFERENCES "Modifier"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
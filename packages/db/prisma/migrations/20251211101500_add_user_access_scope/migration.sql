@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "country" TEXT,
+ADD COLUMN     "region" TEXT;
+
+-- Legacy MANAGER role keeps its store-level meaning
+UPDATE "User" SET "role" = 'STORE_MANAGER' WHERE "role" = 'MANAGER';
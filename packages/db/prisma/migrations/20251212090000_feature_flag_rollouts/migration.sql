@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "FeatureFlag" ADD COLUMN     "category" TEXT NOT NULL DEFAULT 'general',
+ADD COLUMN     "conditions" TEXT,
+ADD COLUMN     "metadata" TEXT,
+ADD COLUMN     "rolloutPercentage" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "FeatureFlag_category_idx" ON "FeatureFlag"("category");
@@ -0,0 +1,64 @@
+-- AlterTable
+ALTER TABLE "Experiment" ADD COLUMN     "createdBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "PriceOverride" ADD COLUMN     "experimentVariantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ExperimentVariant" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isControl" BOOLEAN NOT NULL DEFAULT false,
+    "weight" INTEGER NOT NULL DEFAULT 50,
+    "priceRules" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExperimentVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExperimentAssignment" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "pinned" BOOLEAN NOT NULL DEFAULT false,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExperimentAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExperimentVariant_experimentId_idx" ON "ExperimentVariant"("experimentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExperimentVariant_experimentId_key_key" ON "ExperimentVariant"("experimentId", "key");
+
+-- CreateIndex
+CREATE INDEX "ExperimentAssignment_variantId_idx" ON "ExperimentAssignment"("variantId");
+
+-- CreateIndex
+CREATE INDEX "ExperimentAssignment_storeId_idx" ON "ExperimentAssignment"("storeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExperimentAssignment_experimentId_storeId_key" ON "ExperimentAssignment"("experimentId", "storeId");
+
+-- CreateIndex
+CREATE INDEX "PriceOverride_experimentVariantId_idx" ON "PriceOverride"("experimentVariantId");
+
+-- AddForeignKey
+ALTER TABLE "PriceOverride" ADD CONSTRAINT "PriceOverride_experimentVariantId_fkey" FOREIGN KEY ("experimentVariantId") REFERENCES "ExperimentVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExperimentVariant" ADD CONSTRAINT "ExperimentVariant_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "Experiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExperimentAssignment" ADD CONSTRAINT "ExperimentAssignment_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "Experiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExperimentAssignment" ADD CONSTRAINT "ExperimentAssignment_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ExperimentVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExperimentAssignment" ADD CONSTRAINT "ExperimentAssignment_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- AlterTable
+ALTER TABLE "CompetitorRefreshJob" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "cancelRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "progressMessage" TEXT,
+ADD COLUMN     "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "ExpansionJob" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "cancelRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "progress" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "progressMessage" TEXT,
+ADD COLUMN     "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "ForecastJob" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "cancelRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "progressMessage" TEXT,
+ADD COLUMN     "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "StoreAnalysisJob" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "cancelRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "progress" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "progressMessage" TEXT,
+ADD COLUMN     "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "JobEvent" (
+    "id" TEXT NOT NULL,
+    "jobType" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "progress" INTEGER,
+    "message" TEXT,
+    "workerId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JobEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CompetitorRefreshJob_status_runAfter_idx" ON "CompetitorRefreshJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "ExpansionJob_status_runAfter_idx" ON "ExpansionJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "ForecastJob_status_runAfter_idx" ON "ForecastJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "StoreAnalysisJob_status_runAfter_idx" ON "StoreAnalysisJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "JobEvent_jobType_jobId_createdAt_idx" ON "JobEvent"("jobType", "jobId", "createdAt");
+
+-- The old worker marked claimed rows as "processing"; the queue uses "running"
+UPDATE "ExpansionJob" SET "status" = 'running' WHERE "status" = 'processing';
+UPDATE "StoreAnalysisJob" SET "status" = 'running' WHERE "status" = 'processing';
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "RevenueForecast" ADD COLUMN     "backtestCoverage" DOUBLE PRECISION,
+ADD COLUMN     "backtestMape" DOUBLE PRECISION,
+ADD COLUMN     "model" TEXT NOT NULL DEFAULT 'trend-seasonal',
+ADD COLUMN     "selectionReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ForecastBacktest" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "horizonMonths" INTEGER NOT NULL,
+    "mape" DOUBLE PRECISION,
+    "coverage" DOUBLE PRECISION,
+    "origins" INTEGER NOT NULL,
+    "points" INTEGER NOT NULL,
+    "selected" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ForecastBacktest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ForecastBacktest_storeId_idx" ON "ForecastBacktest"("storeId");
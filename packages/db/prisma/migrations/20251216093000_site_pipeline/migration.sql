@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "PipelineSite" (
+    "id" TEXT NOT NULL,
+    "suggestionId" TEXT,
+    "scenarioId" TEXT,
+    "storeId" TEXT NOT NULL,
+    "stage" TEXT NOT NULL DEFAULT 'IDENTIFIED',
+    "owner" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "checklist" TEXT NOT NULL DEFAULT '{}',
+    "stageEnteredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "abandonedReason" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PipelineSite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PipelineStageChange" (
+    "id" TEXT NOT NULL,
+    "siteId" TEXT NOT NULL,
+    "fromStage" TEXT,
+    "toStage" TEXT NOT NULL,
+    "owner" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "note" TEXT,
+    "changedBy" TEXT NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PipelineStageChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PipelineSite_suggestionId_key" ON "PipelineSite"("suggestionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PipelineSite_storeId_key" ON "PipelineSite"("storeId");
+
+-- CreateIndex
+CREATE INDEX "PipelineSite_stage_idx" ON "PipelineSite"("stage");
+
+-- CreateIndex
+CREATE INDEX "PipelineSite_scenarioId_idx" ON "PipelineSite"("scenarioId");
+
+-- CreateIndex
+CREATE INDEX "PipelineSite_owner_idx" ON "PipelineSite"("owner");
+
+-- CreateIndex
+CREATE INDEX "PipelineSite_dueDate_idx" ON "PipelineSite"("dueDate");
+
+-- CreateIndex
+CREATE INDEX "PipelineStageChange_siteId_changedAt_idx" ON "PipelineStageChange"("siteId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "PipelineSite" ADD CONSTRAINT "PipelineSite_suggestionId_fkey" FOREIGN KEY ("suggestionId") REFERENCES "ExpansionSuggestion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PipelineSite" ADD CONSTRAINT "PipelineSite_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "ExpansionScenario"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PipelineSite" ADD CONSTRAINT "PipelineSite_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PipelineStageChange" ADD CONSTRAINT "PipelineStageChange_siteId_fkey" FOREIGN KEY ("siteId") REFERENCES "PipelineSite"("id") ON DELETE CASCADE ON UPDATE CASCADE;
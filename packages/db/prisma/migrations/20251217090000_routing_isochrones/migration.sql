@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "TradeArea" ADD COLUMN     "isochroneMethod" TEXT,
+ADD COLUMN     "isochroneMinutes" INTEGER,
+ADD COLUMN     "isochronePolygon" TEXT,
+ADD COLUMN     "travelMode" TEXT;
+
+-- CreateTable
+CREATE TABLE "IsochroneCache" (
+    "id" TEXT NOT NULL,
+    "cacheKey" TEXT NOT NULL,
+    "originLat" DOUBLE PRECISION NOT NULL,
+    "originLng" DOUBLE PRECISION NOT NULL,
+    "mode" TEXT NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "method" TEXT NOT NULL,
+    "graphVersion" TEXT,
+    "polygon" TEXT NOT NULL,
+    "areaKm2" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IsochroneCache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IsochroneCache_cacheKey_key" ON "IsochroneCache"("cacheKey");
+
+-- CreateIndex
+CREATE INDEX "IsochroneCache_expiresAt_idx" ON "IsochroneCache"("expiresAt");
@@ -0,0 +1,70 @@
+-- AlterTable
+ALTER TABLE "CompetitorPlace" ADD COLUMN     "region" TEXT;
+
+-- CreateTable
+CREATE TABLE "CompetitorImport" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT,
+    "region" TEXT,
+    "country" TEXT,
+    "closeMissing" BOOLEAN NOT NULL DEFAULT false,
+    "rowsTotal" INTEGER NOT NULL DEFAULT 0,
+    "rowsRejected" INTEGER NOT NULL DEFAULT 0,
+    "duplicatesInFile" INTEGER NOT NULL DEFAULT 0,
+    "matched" INTEGER NOT NULL DEFAULT 0,
+    "opened" INTEGER NOT NULL DEFAULT 0,
+    "closed" INTEGER NOT NULL DEFAULT 0,
+    "relocated" INTEGER NOT NULL DEFAULT 0,
+    "reopened" INTEGER NOT NULL DEFAULT 0,
+    "rejections" TEXT NOT NULL DEFAULT '[]',
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompetitorImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CompetitorChange" (
+    "id" TEXT NOT NULL,
+    "competitorId" TEXT NOT NULL,
+    "importId" TEXT,
+    "changeType" TEXT NOT NULL,
+    "brand" TEXT NOT NULL,
+    "region" TEXT,
+    "country" TEXT,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "previousLatitude" DOUBLE PRECISION,
+    "previousLongitude" DOUBLE PRECISION,
+    "distanceM" DOUBLE PRECISION,
+    "source" TEXT NOT NULL,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompetitorChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CompetitorPlace_region_idx" ON "CompetitorPlace"("region");
+
+-- CreateIndex
+CREATE INDEX "CompetitorPlace_osmId_idx" ON "CompetitorPlace"("osmId");
+
+-- CreateIndex
+CREATE INDEX "CompetitorImport_createdAt_idx" ON "CompetitorImport"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "CompetitorChange_region_detectedAt_idx" ON "CompetitorChange"("region", "detectedAt");
+
+-- CreateIndex
+CREATE INDEX "CompetitorChange_country_detectedAt_idx" ON "CompetitorChange"("country", "detectedAt");
+
+-- CreateIndex
+CREATE INDEX "CompetitorChange_competitorId_detectedAt_idx" ON "CompetitorChange"("competitorId", "detectedAt");
+
+-- AddForeignKey
+ALTER TABLE "CompetitorChange" ADD CONSTRAINT "CompetitorChange_competitorId_fkey" FOREIGN KEY ("competitorId") REFERENCES "CompetitorPlace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompetitorChange" ADD CONSTRAINT "CompetitorChange_importId_fkey" FOREIGN KEY ("importId") REFERENCES "CompetitorImport"("id") ON DELETE SET NULL ON UPDATE CASCADE;
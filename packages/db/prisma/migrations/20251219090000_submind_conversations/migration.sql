@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "SubMindConversation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "screen" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SubMindConversation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SubMindMessage" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "toolCalls" TEXT,
+    "toolCallId" TEXT,
+    "sources" TEXT,
+    "tokensUsed" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SubMindMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SubMindConversation_userId_updatedAt_idx" ON "SubMindConversation"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "SubMindMessage_conversationId_createdAt_idx" ON "SubMindMessage"("conversationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SubMindMessage" ADD CONSTRAINT "SubMindMessage_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "SubMindConversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
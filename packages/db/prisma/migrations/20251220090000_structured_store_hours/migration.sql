@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "Store" ADD COLUMN     "timezone" TEXT,
+ADD COLUMN     "holidayPolicy" TEXT NOT NULL DEFAULT 'CLOSED';
+
+-- AlterTable
+ALTER TABLE "RevenueForecast" ADD COLUMN     "tradingHoursFactor" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "StoreOpeningHours" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "opensAt" TEXT NOT NULL,
+    "closesAt" TEXT NOT NULL,
+
+    CONSTRAINT "StoreOpeningHours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StoreHoursException" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "closed" BOOLEAN NOT NULL DEFAULT false,
+    "intervals" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StoreHoursException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StoreOpeningHours_storeId_dayOfWeek_idx" ON "StoreOpeningHours"("storeId", "dayOfWeek");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoreHoursException_storeId_date_key" ON "StoreHoursException"("storeId", "date");
+
+-- AddForeignKey
+ALTER TABLE "StoreOpeningHours" ADD CONSTRAINT "StoreOpeningHours_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoreHoursException" ADD CONSTRAINT "StoreHoursException_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Copy the old { monday: { open, close, closed } } JSON into one interval per open day
+INSERT INTO "StoreOpeningHours" ("id", "storeId", "dayOfWeek", "opensAt", "closesAt")
+SELECT md5(s."id" || ':' || d."name"), s."id", d."isoDay", h."day"->>'open', h."day"->>'close'
+FROM "Store" s
+CROSS JOIN (VALUES
+    ('monday', 1), ('tuesday', 2), ('wednesday', 3), ('thursday', 4),
+    ('friday', 5), ('saturday', 6), ('sunday', 7)
+) AS d("name", "isoDay")
+CROSS JOIN LATERAL (SELECT s."operatingHours"::jsonb -> d."name" AS "day") h
+WHERE s."operatingHours" IS NOT NULL
+  AND jsonb_typeof(h."day") = 'object'
+  AND COALESCE((h."day"->>'closed')::boolean, false) = false
+  AND h."day"->>'open' ~ '^\d{2}:\d{2}$'
+  AND h."day"->>'close' ~ '^\d{2}:\d{2}$';
+
+-- AlterTable
+ALTER TABLE "Store" DROP COLUMN "operatingHours";
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "ScheduledJob" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "cron" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "params" TEXT NOT NULL DEFAULT '{}',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "catchUp" TEXT NOT NULL DEFAULT 'ONCE',
+    "monthlyBudgetUsd" DOUBLE PRECISION,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScheduledJobRun" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "jobType" TEXT,
+    "jobId" TEXT,
+    "message" TEXT,
+    "tokensUsed" INTEGER,
+    "actor" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ScheduledJobRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledJob_enabled_nextRunAt_idx" ON "ScheduledJob"("enabled", "nextRunAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduledJobRun_scheduleId_scheduledFor_key" ON "ScheduledJobRun"("scheduleId", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "ScheduledJobRun_scheduleId_startedAt_idx" ON "ScheduledJobRun"("scheduleId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "ScheduledJobRun_status_idx" ON "ScheduledJobRun"("status");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledJobRun" ADD CONSTRAINT "ScheduledJobRun_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "ScheduledJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "StoreAlert" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "metrics" TEXT NOT NULL DEFAULT '{}',
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "firstDetectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastDetectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acknowledgedBy" TEXT,
+    "acknowledgedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolution" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StoreAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StoreAlert_storeId_status_idx" ON "StoreAlert"("storeId", "status");
+
+-- CreateIndex
+CREATE INDEX "StoreAlert_status_severity_idx" ON "StoreAlert"("status", "severity");
+
+-- CreateIndex
+CREATE INDEX "StoreAlert_lastDetectedAt_idx" ON "StoreAlert"("lastDetectedAt");
+
+-- AddForeignKey
+ALTER TABLE "StoreAlert" ADD CONSTRAINT "StoreAlert_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "MenuItem" ADD COLUMN "masterItemId" TEXT;
+
+-- CreateTable
+CREATE TABLE "MasterMenuItem" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "price" DECIMAL(65,30) NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "categoryIds" TEXT NOT NULL DEFAULT '[]',
+    "modifierGroupIds" TEXT NOT NULL DEFAULT '[]',
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MasterMenuItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MenuOverride" (
+    "id" TEXT NOT NULL,
+    "masterItemId" TEXT NOT NULL,
+    "level" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "available" BOOLEAN,
+    "price" DECIMAL(65,30),
+    "categoryIds" TEXT,
+    "modifierGroupIds" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MenuOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MasterMenuItem_name_key" ON "MasterMenuItem"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MenuOverride_masterItemId_level_scope_key" ON "MenuOverride"("masterItemId", "level", "scope");
+
+-- CreateIndex
+CREATE INDEX "MenuOverride_level_scope_idx" ON "MenuOverride"("level", "scope");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MenuItem_storeId_masterItemId_key" ON "MenuItem"("storeId", "masterItemId");
+
+-- CreateIndex
+CREATE INDEX "MenuItem_masterItemId_idx" ON "MenuItem"("masterItemId");
+
+-- AddForeignKey
+ALTER TABLE "MenuItem" ADD CONSTRAINT "MenuItem_masterItemId_fkey" FOREIGN KEY ("masterItemId") REFERENCES "MasterMenuItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MenuOverride" ADD CONSTRAINT "MenuOverride_masterItemId_fkey" FOREIGN KEY ("masterItemId") REFERENCES "MasterMenuItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "MenuVersion" (
+    "id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "notes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "content" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "submittedBy" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MenuVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MenuRollout" (
+    "id" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "market" TEXT NOT NULL,
+    "goLiveAt" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "previousRolloutId" TEXT,
+    "scheduledBy" TEXT NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+    "rolledBackBy" TEXT,
+    "rolledBackAt" TIMESTAMP(3),
+    "result" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MenuRollout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MenuVersion_number_key" ON "MenuVersion"("number");
+
+-- CreateIndex
+CREATE INDEX "MenuVersion_status_idx" ON "MenuVersion"("status");
+
+-- CreateIndex
+CREATE INDEX "MenuRollout_status_goLiveAt_idx" ON "MenuRollout"("status", "goLiveAt");
+
+-- CreateIndex
+CREATE INDEX "MenuRollout_market_status_idx" ON "MenuRollout"("market", "status");
+
+-- CreateIndex
+CREATE INDEX "MenuRollout_versionId_idx" ON "MenuRollout"("versionId");
+
+-- AddForeignKey
+ALTER TABLE "MenuRollout" ADD CONSTRAINT "MenuRollout_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "MenuVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "MenuItem" ADD COLUMN "allergens" TEXT,
+ADD COLUMN "mayContain" TEXT NOT NULL DEFAULT '[]',
+ADD COLUMN "nutrition" TEXT;
+
+-- AlterTable
+ALTER TABLE "Modifier" ADD COLUMN "allergensAdded" TEXT NOT NULL DEFAULT '[]',
+ADD COLUMN "allergensRemoved" TEXT NOT NULL DEFAULT '[]',
+ADD COLUMN "nutritionDelta" TEXT;
@@ -0,0 +1,68 @@
+-- AlterTable
+ALTER TABLE "Store" ADD COLUMN "currency" TEXT;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "netTotal" DECIMAL(65,30),
+ADD COLUMN "taxTotal" DECIMAL(65,30),
+ADD COLUMN "currency" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN "taxRate" DECIMAL(65,30),
+ADD COLUMN "taxAmount" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "TaxSetting" (
+    "country" TEXT NOT NULL,
+    "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT true,
+    "standardRate" DECIMAL(65,30) NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxSetting_pkey" PRIMARY KEY ("country")
+);
+
+-- CreateTable
+CREATE TABLE "TaxCategoryRate" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxCategoryRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FxRate" (
+    "id" TEXT NOT NULL,
+    "base" TEXT NOT NULL,
+    "quote" TEXT NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "source" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxCategoryRate_country_categoryId_key" ON "TaxCategoryRate"("country", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "TaxCategoryRate_categoryId_idx" ON "TaxCategoryRate"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FxRate_base_quote_effectiveFrom_key" ON "FxRate"("base", "quote", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "FxRate_effectiveFrom_idx" ON "FxRate"("effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "TaxCategoryRate" ADD CONSTRAINT "TaxCategoryRate_country_fkey" FOREIGN KEY ("country") REFERENCES "TaxSetting"("country") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaxCategoryRate" ADD CONSTRAINT "TaxCategoryRate_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
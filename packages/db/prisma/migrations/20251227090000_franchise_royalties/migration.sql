@@ -0,0 +1,87 @@
+-- CreateTable
+CREATE TABLE "FranchiseAgreement" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "franchiseeId" TEXT NOT NULL,
+    "reference" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "renewalOptions" INTEGER NOT NULL DEFAULT 0,
+    "renewalTermMonths" INTEGER,
+    "royaltyRate" DECIMAL(65,30) NOT NULL,
+    "marketingFundRate" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "minimumMonthlyRoyalty" DECIMAL(65,30),
+    "minimumMonthlyMarketingFee" DECIMAL(65,30),
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "notes" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FranchiseAgreement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RoyaltyStatement" (
+    "id" TEXT NOT NULL,
+    "franchiseeId" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "netSales" DECIMAL(65,30) NOT NULL,
+    "royaltyTotal" DECIMAL(65,30) NOT NULL,
+    "adjustmentTotal" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "totalDue" DECIMAL(65,30) NOT NULL,
+    "generatedBy" TEXT NOT NULL,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "issuedBy" TEXT,
+    "issuedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoyaltyStatement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RoyaltyStatementLine" (
+    "id" TEXT NOT NULL,
+    "statementId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "storeId" TEXT,
+    "agreementId" TEXT,
+    "description" TEXT NOT NULL,
+    "salesBase" DECIMAL(65,30),
+    "rate" DECIMAL(65,30),
+    "amount" DECIMAL(65,30) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoyaltyStatementLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FranchiseAgreement_storeId_startDate_idx" ON "FranchiseAgreement"("storeId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "FranchiseAgreement_franchiseeId_idx" ON "FranchiseAgreement"("franchiseeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoyaltyStatement_franchiseeId_period_currency_key" ON "RoyaltyStatement"("franchiseeId", "period", "currency");
+
+-- CreateIndex
+CREATE INDEX "RoyaltyStatement_period_idx" ON "RoyaltyStatement"("period");
+
+-- CreateIndex
+CREATE INDEX "RoyaltyStatementLine_statementId_idx" ON "RoyaltyStatementLine"("statementId");
+
+-- AddForeignKey
+ALTER TABLE "FranchiseAgreement" ADD CONSTRAINT "FranchiseAgreement_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FranchiseAgreement" ADD CONSTRAINT "FranchiseAgreement_franchiseeId_fkey" FOREIGN KEY ("franchiseeId") REFERENCES "Franchisee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoyaltyStatement" ADD CONSTRAINT "RoyaltyStatement_franchiseeId_fkey" FOREIGN KEY ("franchiseeId") REFERENCES "Franchisee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoyaltyStatementLine" ADD CONSTRAINT "RoyaltyStatementLine_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "RoyaltyStatement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "OrderItemModifier" DROP CONSTRAINT "OrderItemModifier_modifierId_fkey";
+
+-- AlterTable
+ALTER TABLE "OrderItemModifier" ALTER COLUMN "modifierId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "OrderItemModifier" ADD CONSTRAINT "OrderItemModifier_modifierId_fkey" FOREIGN KEY ("modifierId") REFERENCES "Modifier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
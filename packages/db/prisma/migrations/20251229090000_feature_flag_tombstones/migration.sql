@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "FeatureFlagTombstone" (
+    "key" TEXT NOT NULL,
+    "deletedBy" TEXT,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeatureFlagTombstone_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+/**
+ * Rebuilds the boundary bundles in ../data from Natural Earth sources.
+ *
+ *   node scripts/build-bundles.mjs [--admin0 countries-10m.json] [--admin1 ne_10m_admin_1_states_provinces.geojson]
+ *                                  [--skip-admin0] [--out dir]
+ *
+ * --admin0 defaults to the world-atlas countries-10m TopoJSON. Only countries
+ * listed in data/countries.json are kept. Arcs that belong to a single
+ * country in the full world topology are coastline, since land borders are
+ * always shared by two countries. Coastline and land borders are written as
+ * separate `coastline` and `borders` objects, so distance-to-coast never
+ * measures to a land border and points outside every bundled country can be
+ * told apart as sea or foreign land.
+ *
+ * --admin1 takes the Natural Earth admin-1 GeoJSON and writes the states and
+ * provinces of the same countries as a GeoJSON bundle. --skip-admin0 writes
+ * only that bundle, and --out writes to another directory than ../data.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const dataDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'data');
+const countries = JSON.parse(readFileSync(join(dataDir, 'countries.json'), 'utf8'));
+
+function argument(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const outDir = argument('out') ?? dataDir;
+
+const arcIndex = (i) => (i < 0 ? ~i : i);
+
+function eachArc(geometry, visit) {
+  const polygons = geometry.type === 'Polygon' ? [geometry.arcs] : geometry.type === 'MultiPolygon' ? geometry.arcs : [];
+  for (const polygon of polygons) for (const ring of polygon) for (const arc of ring) visit(arc);
+}
+
+function buildAdmin0(sourcePath) {
+  const world = JSON.parse(readFileSync(sourcePath, 'utf8'));
+  const geometries = world.objects.countries.geometries;
+  const byNumeric = new Map(countries.map((country) => [country.isoNumeric, country]));
+
+  const usage = new Map();
+  for (const geometry of geometries) eachArc(geometry, (arc) => usage.set(arcIndex(arc), (usage.get(arcIndex(arc)) ?? 0) + 1));
+
+  const selected = geometries.filter((geometry) => byNumeric.has(geometry.id));
+  const remap = new Map();
+  const arcs = [];
+  const keep = (arc) => {
+    const index = arcIndex(arc);
+    if (!remap.has(index)) {
+      remap.set(index, arcs.length);
+      arcs.push(world.arcs[index]);
+    }
+    return arc < 0 ? ~remap.get(index) : remap.get(index);
+  };
+
+  const countryGeometries = [];
+  const coastlineGeometries = [];
+  const borderArcs = new Set();
+  for (const geometry of selected) {
+    const country = byNumeric.get(geometry.id);
+    const rewrite = (rings) => rings.map((ring) => ring.map(keep));
+    countryGeometries.push({
+      type: geometry.type,
+      id: country.iso2,
+      properties: { iso2: country.iso2, iso3: country.iso3, name: country.name },
+      arcs: geometry.type === 'Polygon' ? rewrite(geometry.arcs) : geometry.arcs.map(rewrite),
+    });
+
+    const coast = [];
+    eachArc(geometry, (arc) => {
+      if (usage.get(arcIndex(arc)) === 1) coast.push([keep(arc)]);
+      else borderArcs.add(arcIndex(keep(arc)));
+    });
+    if (coast.length > 0) {
+      coastlineGeometries.push({ type: 'MultiLineString', id: country.iso2, properties: { iso2: country.iso2 }, arcs: coast });
+    }
+  }
+
+  const missing = countries.filter((country) => !selected.some((geometry) => geometry.id === country.isoNumeric));
+  if (missing.length > 0) {
+    throw new Error(`No admin-0 geometry for ${missing.map((country) => country.iso2).join(', ')}`);
+  }
+
+  return {
+    type: 'Topology',
+    transform: world.transform,
+    objects: {
+      countries: { type: 'GeometryCollection', geometries: countryGeometries },
+      coastline: { type: 'GeometryCollection', geometries: coastlineGeometries },
+      borders: {
+        type: 'GeometryCollection',
+        geometries: [{ type: 'MultiLineString', arcs: [...borderArcs].sort((a, b) => a - b).map((arc) => [arc]) }],
+      },
+    },
+    arcs,
+  };
+}
+
+function buildAdmin1(sourcePath) {
+  const source = JSON.parse(readFileSync(sourcePath, 'utf8'));
+  const operated = new Set(countries.map((country) => country.iso2));
+  const round = (value) => (Array.isArray(value) ? value.map(round) : Math.round(value * 1e5) / 1e5);
+
+  return {
+    type: 'FeatureCollection',
+    features: source.features
+      .filter((feature) => operated.has(feature.properties.iso_a2))
+      .map((feature) => ({
+        type: 'Feature',
+        properties: {
+          level: 1,
+          iso2: feature.properties.iso_a2,
+          code: feature.properties.iso_3166_2,
+          name: feature.properties.name,
+        },
+        geometry: { type: feature.geometry.type, coordinates: round(feature.geometry.coordinates) },
+      })),
+  };
+}
+
+if (!process.argv.includes('--skip-admin0')) {
+  const require = createRequire(import.meta.url);
+  const admin0Source = argument('admin0') ?? require.resolve('world-atlas/countries-10m.json');
+  const admin0 = buildAdmin0(admin0Source);
+  writeFileSync(join(outDir, 'admin0.topo.json'), JSON.stringify(admin0));
+  console.log(`admin0.topo.json: ${admin0.objects.countries.geometries.length} countries, ${admin0.arcs.length} arcs`);
+}
+
+const admin1Source = argument('admin1');
+if (admin1Source) {
+  const admin1 = buildAdmin1(admin1Source);
+  writeFileSync(join(outDir, 'admin1.geo.json'), JSON.stringify(admin1));
+  console.log(`admin1.geo.json: ${admin1.features.length} regions`);
+}
@@ -0,0 +1,112 @@
+import { BoundaryIndex } from '../boundary-index';
+import { loadBoundaryIndex } from '../loader';
+import { Topology } from '../types';
+
+describe('BoundaryIndex with the bundled admin-0 data', () => {
+  const index = loadBoundaryIndex();
+
+  it('finds the country a point is in', () => {
+    expect(index.countryAt(52.52, 13.405)?.iso2).toBe('DE'); // Berlin
+    expect(index.countryAt(48.2082, 16.3738)?.iso2).toBe('AT'); // Vienna
+    expect(index.countryAt(47.5596, 7.5886)?.iso2).toBe('CH'); // Basel, on the DE/FR/CH tripoint
+    expect(index.countryAt(28.1, -15.43)?.iso2).toBe('ES'); // Las Palmas
+    expect(index.isInCountry(51.5074, -0.1278, 'United Kingdom')).toBe(true);
+    expect(index.isInCountry(51.5074, -0.1278, 'IE')).toBe(false);
+  });
+
+  it('tells sea from land in countries that are not loaded', () => {
+    expect(index.isOnLand(54.5, 5.0)).toBe(false); // North Sea
+    expect(index.isOnLand(43.0, 5.0)).toBe(false); // Gulf of Lion
+    expect(index.isOnLand(44.787, 20.457)).toBe(true); // Belgrade, Serbia
+    expect(index.countryAt(44.787, 20.457)).toBeNull();
+    expect(index.isOnLand(-60, -120)).toBeNull(); // Southern Ocean, nothing within range
+  });
+
+  it('measures distance to the coast but not to land borders', () => {
+    const kiel = index.distanceToCoastKm(54.3233, 10.1228)!;
+    expect(kiel).toBeLessThan(10);
+
+    // Basel is on three land borders and far from the sea
+    expect(index.distanceToCoastKm(47.5596, 7.5886)).toBeNull();
+
+    const berlin = index.distanceToCoastKm(52.52, 13.405, 400)!;
+    expect(berlin).toBeGreaterThan(100);
+    expect(berlin).toBeLessThan(200);
+  });
+
+  it('keeps overseas territories out of core bounds', () => {
+    const core = index.getBounds('France')!;
+    expect(core.west).toBeGreaterThan(-6);
+    expect(core.east).toBeLessThan(10);
+    expect(index.getFullBounds('FR')!.west).toBeLessThan(-50);
+  });
+
+  it('resolves codes, names and aliases', () => {
+    expect(index.findCountry('deu')?.iso2).toBe('DE');
+    expect(index.findCountry('Turkey')?.iso2).toBe('TR');
+    expect(index.findCountry(' united kingdom ')?.iso2).toBe('GB');
+    expect(index.findCountry('Atlantis')).toBeUndefined();
+    expect(index.listCountries()).toHaveLength(47);
+  });
+});
+
+describe('BoundaryIndex with hand-built bundles', () => {
+  // A 4x4 degree square at the origin with a 2x2 hole, quantized to whole degrees
+  const topology: Topology = {
+    type: 'Topology',
+    transform: { scale: [1, 1], translate: [0, 0] },
+    objects: {
+      countries: {
+        type: 'GeometryCollection',
+        geometries: [{ type: 'Polygon', id: 'XX', properties: { iso2: 'XX', name: 'Squareland' }, arcs: [[0], [1]] }],
+      },
+      coastline: {
+        type: 'GeometryCollection',
+        geometries: [{ type: 'MultiLineString', arcs: [[0]] }],
+      },
+    },
+    arcs: [
+      [[0, 0], [4, 0], [0, 4], [-4, 0], [0, -4]],
+      [[1, 1], [0, 2], [2, 0], [0, -2], [-2, 0]],
+    ],
+  };
+
+  it('decodes delta-encoded arcs and excludes holes', () => {
+    const index = new BoundaryIndex().addBundle(topology);
+
+    expect(index.countryAt(0.5, 0.5)?.name).toBe('Squareland');
+    expect(index.countryAt(2, 2)).toBeNull();
+    expect(index.countryAt(5, 5)).toBeNull();
+    expect(index.getBounds('XX')).toEqual({ north: 4, south: 0, east: 4, west: 0 });
+  });
+
+  it('has no bounds for a listed country without polygons', () => {
+    const index = new BoundaryIndex([{ iso2: 'YY', iso3: 'YYY', isoNumeric: '999', name: 'Nowhere' }]).addBundle(topology);
+
+    expect(index.findCountry('Nowhere')?.iso2).toBe('YY');
+    expect(index.getBounds('YY')).toBeNull();
+    expect(index.getFullBounds('YY')).toBeNull();
+  });
+
+  it('attaches admin-1 regions to loaded countries', () => {
+    const index = new BoundaryIndex().addBundle(topology).addBundle({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { level: 1, iso2: 'XX', code: 'XX-W', name: 'West' },
+          geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 4], [0, 4], [0, 0]]] },
+        },
+        {
+          type: 'Feature',
+          properties: { level: 1, iso2: 'YY', code: 'YY-1', name: 'Unknown country' },
+          geometry: { type: 'Polygon', coordinates: [[[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]]] },
+        },
+      ],
+    });
+
+    expect(index.locate(2, 0.5).region).toEqual({ code: 'XX-W', name: 'West', iso2: 'XX' });
+    expect(index.locate(0.5, 3.5).region).toBeNull();
+    expect(index.locate(0.5, 3.5).distanceToCoastKm).toBeCloseTo(0.5 * 111.19, 0);
+  });
+});
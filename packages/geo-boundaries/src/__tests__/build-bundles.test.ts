@@ -0,0 +1,46 @@
+import { execFileSync } from 'child_process';
+import { copyFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { loadBoundaryIndex } from '../loader';
+import { BoundaryFeatureCollection } from '../types';
+
+describe('build-bundles admin-1', () => {
+  const packageDir = resolve(__dirname, '..', '..');
+  let outDir: string;
+
+  beforeAll(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'geo-boundaries-'));
+    execFileSync(process.execPath, [
+      join(packageDir, 'scripts', 'build-bundles.mjs'),
+      '--skip-admin0',
+      '--admin1', join(__dirname, 'fixtures', 'ne_admin1_sample.geojson'),
+      '--out', outDir,
+    ]);
+    for (const file of ['countries.json', 'admin0.topo.json']) {
+      copyFileSync(join(packageDir, 'data', file), join(outDir, file));
+    }
+  });
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('keeps the regions of operated countries only', () => {
+    const bundle = JSON.parse(readFileSync(join(outDir, 'admin1.geo.json'), 'utf8')) as BoundaryFeatureCollection;
+
+    expect(bundle.features.map((feature) => feature.properties)).toEqual([
+      { level: 1, iso2: 'DE', code: 'DE-BE', name: 'Berlin' },
+      { level: 1, iso2: 'DE', code: 'DE-HB', name: 'Bremen' },
+    ]);
+  });
+
+  it('fills in locate().region once the bundle sits next to admin-0', () => {
+    const index = loadBoundaryIndex(outDir);
+
+    expect(index.locate(52.52, 13.405).region).toEqual({ code: 'DE-BE', name: 'Berlin', iso2: 'DE' });
+    expect(index.locate(53.55, 8.58).region?.code).toBe('DE-HB'); // Bremerhaven, the exclave
+    expect(index.locate(48.137, 11.575).region).toBeNull(); // Munich, not in the sample
+    expect(index.locate(44.787, 20.457).region).toBeNull(); // Belgrade, not an operated country
+  });
+});
@@ -0,0 +1,243 @@
+import { DecodedGeometry, decodeTopologyObject } from './topojson';
+import { GridIndex, IndexedPolygon } from './spatial-index';
+import { KM_PER_DEGREE, boundsGapKm, mergeBounds, pointToSegmentKm, polygonAreaKm2, ringsBounds } from './geometry';
+import {
+  BoundaryBundle,
+  BoundaryFeatureCollection,
+  BoundingBox,
+  CountryInfo,
+  PointLocation,
+  PolygonRings,
+  Position,
+  RegionInfo,
+  Topology,
+} from './types';
+
+const POLYGON_CELL_DEG = 1;
+const COAST_CELL_DEG = 0.25;
+export const DEFAULT_COAST_SEARCH_KM = 100;
+/** How far to look for a boundary when deciding whether a point outside every country is sea */
+const SEA_SEARCH_KM = 500;
+/** Islands and exclaves further than this from a country's largest polygon are left out of its core bounds */
+const CORE_BOUNDS_RADIUS_KM = 1000;
+
+interface CountryEntry {
+  info: CountryInfo;
+  polygons: PolygonRings[];
+  bounds: BoundingBox;
+  coreBounds: BoundingBox;
+  hasRegions: boolean;
+}
+
+/**
+ * Offline admin-0/admin-1 boundaries answering point-in-country, point-on-land
+ * and distance-to-coast queries. Only the countries we operate in are loaded,
+ * so a point outside all of them is classified by its nearest boundary: sea if
+ * that is coastline, land in another country if it is a land border.
+ */
+export class BoundaryIndex {
+  private readonly countries = new Map<string, CountryEntry>();
+  private readonly lookup = new Map<string, string>();
+  private readonly countryPolygons = new GridIndex<IndexedPolygon<string>>(POLYGON_CELL_DEG);
+  private readonly regionPolygons = new GridIndex<IndexedPolygon<RegionInfo>>(POLYGON_CELL_DEG);
+  private readonly coastSegments = new GridIndex<[Position, Position]>(COAST_CELL_DEG);
+  private readonly borderSegments = new GridIndex<[Position, Position]>(COAST_CELL_DEG);
+
+  constructor(countryInfo: CountryInfo[] = []) {
+    for (const info of countryInfo) this.register(info);
+  }
+
+  /** Adds a TopoJSON bundle with `countries` and optional `coastline`/`borders` objects, or a GeoJSON bundle */
+  addBundle(bundle: BoundaryBundle): this {
+    if (bundle.type === 'Topology') this.addTopology(bundle);
+    else this.addFeatureCollection(bundle);
+    return this;
+  }
+
+  /** Resolves an ISO alpha-2/alpha-3 code, name or alias to the country's metadata */
+  findCountry(input: string | null | undefined): CountryInfo | undefined {
+    if (!input) return undefined;
+    const iso2 = this.lookup.get(input.trim().toLowerCase());
+    return iso2 ? this.countries.get(iso2)?.info : undefined;
+  }
+
+  listCountries(): CountryInfo[] {
+    return [...this.countries.values()].filter((entry) => entry.polygons.length > 0).map((entry) => entry.info);
+  }
+
+  countryAt(lat: number, lng: number): CountryInfo | null {
+    for (const polygon of this.countryPolygons.at(lat, lng)) {
+      if (polygon.contains(lat, lng)) return this.countries.get(polygon.owner)!.info;
+    }
+    return null;
+  }
+
+  regionAt(lat: number, lng: number): RegionInfo | null {
+    for (const polygon of this.regionPolygons.at(lat, lng)) {
+      if (polygon.contains(lat, lng)) return polygon.owner;
+    }
+    return null;
+  }
+
+  isInCountry(lat: number, lng: number, country: string): boolean {
+    const info = this.findCountry(country);
+    return !!info && this.countryAt(lat, lng)?.iso2 === info.iso2;
+  }
+
+  /** Null when the point is too far from any loaded boundary to tell */
+  isOnLand(lat: number, lng: number): boolean | null {
+    if (this.countryAt(lat, lng)) return true;
+    const coast = this.nearestKm(this.coastSegments, lat, lng, SEA_SEARCH_KM);
+    const border = this.nearestKm(this.borderSegments, lat, lng, SEA_SEARCH_KM);
+    if (coast === null && border === null) return null;
+    return border !== null && (coast === null || border < coast);
+  }
+
+  /**
+   * Distance to the nearest coastline of a loaded country, or null if there
+   * is none within `maxKm`. Land borders are not coastline.
+   */
+  distanceToCoastKm(lat: number, lng: number, maxKm = DEFAULT_COAST_SEARCH_KM): number | null {
+    return this.nearestKm(this.coastSegments, lat, lng, maxKm);
+  }
+
+  locate(lat: number, lng: number, coastSearchKm = DEFAULT_COAST_SEARCH_KM): PointLocation {
+    const country = this.countryAt(lat, lng);
+    return {
+      country: country ? { iso2: country.iso2, name: country.name } : null,
+      region: country && this.countries.get(country.iso2)!.hasRegions ? this.regionAt(lat, lng) : null,
+      isOnLand: country ? true : this.isOnLand(lat, lng),
+      distanceToCoastKm: this.distanceToCoastKm(lat, lng, coastSearchKm),
+    };
+  }
+
+  /**
+   * Bounds of a country's core territory: its largest polygon plus anything
+   * within 1,000 km, so overseas territories do not stretch the box. Null for
+   * an unknown country or one listed without polygons.
+   */
+  getBounds(country: string): BoundingBox | null {
+    const info = this.findCountry(country);
+    const entry = info && this.countries.get(info.iso2);
+    return entry && entry.polygons.length > 0 ? entry.coreBounds : null;
+  }
+
+  /** Bounds of every polygon of the country, including overseas territories */
+  getFullBounds(country: string): BoundingBox | null {
+    const info = this.findCountry(country);
+    const entry = info && this.countries.get(info.iso2);
+    return entry && entry.polygons.length > 0 ? entry.bounds : null;
+  }
+
+  /**
+   * Distance to the nearest segment in `segments`, searching outwards ring by
+   * ring. Rings are widened in longitude so each one covers the same distance
+   * east-west as north-south up to the furthest latitude the search can reach.
+   */
+  private nearestKm(segments: GridIndex<[Position, Position]>, lat: number, lng: number, maxKm: number): number | null {
+    const [row, col] = segments.cellOf(lat, lng);
+    const farLat = Math.min(89, Math.abs(lat) + maxKm / KM_PER_DEGREE + COAST_CELL_DEG);
+    const colsPerRow = 1 / Math.cos((farLat * Math.PI) / 180);
+    let best = Infinity;
+    let previousCols = -1;
+
+    for (let ring = 0; ; ring++) {
+      const cols = Math.ceil(ring * colsPerRow);
+      for (let r = row - ring; r <= row + ring; r++) {
+        const innerRow = Math.abs(r - row) < ring;
+        for (let c = col - cols; c <= col + cols; c++) {
+          // Cells inside the previous ring have already been searched
+          if (innerRow && Math.abs(c - col) <= previousCols) continue;
+          for (const [a, b] of segments.cell(r, c)) {
+            const distance = pointToSegmentKm(lat, lng, a, b);
+            if (distance < best) best = distance;
+          }
+        }
+      }
+      previousCols = cols;
+
+      // Everything closer than the rings searched so far has been seen
+      const searchedKm = ring * COAST_CELL_DEG * KM_PER_DEGREE;
+      if (best <= searchedKm || searchedKm > maxKm) break;
+    }
+
+    return best <= maxKm ? best : null;
+  }
+
+  private addTopology(topology: Topology): void {
+    for (const geometry of decodeTopologyObject(topology, 'countries')) {
+      const iso2 = String(geometry.properties.iso2 ?? geometry.id ?? '');
+      this.addCountryPolygons(iso2, geometry.properties, geometry.polygons);
+    }
+    this.addSegments(this.coastSegments, decodeTopologyObject(topology, 'coastline'));
+    this.addSegments(this.borderSegments, decodeTopologyObject(topology, 'borders'));
+  }
+
+  private addSegments(grid: GridIndex<[Position, Position]>, geometries: DecodedGeometry[]): void {
+    for (const geometry of geometries) {
+      for (const line of geometry.lines) {
+        for (let i = 0; i < line.length - 1; i++) {
+          grid.insert(ringsBounds([[line[i], line[i + 1]]]), [line[i], line[i + 1]]);
+        }
+      }
+    }
+  }
+
+  private addFeatureCollection(collection: BoundaryFeatureCollection): void {
+    for (const feature of collection.features) {
+      const polygons = feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+      const iso2 = String(feature.properties.iso2 ?? '');
+
+      if (feature.properties.level === 1) {
+        const entry = this.countries.get(iso2);
+        if (!entry) continue;
+        entry.hasRegions = true;
+        const region: RegionInfo = { code: String(feature.properties.code), name: String(feature.properties.name), iso2 };
+        for (const polygon of polygons) {
+          const indexed = new IndexedPolygon(region, polygon);
+          this.regionPolygons.insert(indexed.bounds, indexed);
+        }
+      } else {
+        this.addCountryPolygons(iso2, feature.properties, polygons);
+      }
+    }
+  }
+
+  private addCountryPolygons(iso2: string, properties: Record<string, unknown>, polygons: PolygonRings[]): void {
+    if (!iso2 || polygons.length === 0) return;
+    const entry =
+      this.countries.get(iso2) ??
+      this.register({
+        iso2,
+        iso3: String(properties.iso3 ?? ''),
+        isoNumeric: String(properties.isoNumeric ?? ''),
+        name: String(properties.name ?? iso2),
+      });
+
+    for (const polygon of polygons) {
+      const indexed = new IndexedPolygon(iso2, polygon);
+      this.countryPolygons.insert(indexed.bounds, indexed);
+      entry.polygons.push(polygon);
+      entry.bounds = entry.polygons.length === 1 ? indexed.bounds : mergeBounds(entry.bounds, indexed.bounds);
+    }
+    entry.coreBounds = coreBounds(entry.polygons);
+  }
+
+  private register(info: CountryInfo): CountryEntry {
+    const empty: BoundingBox = { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity };
+    const entry: CountryEntry = { info, polygons: [], bounds: empty, coreBounds: empty, hasRegions: false };
+    this.countries.set(info.iso2, entry);
+    for (const key of [info.iso2, info.iso3, info.name, ...(info.aliases ?? [])]) {
+      if (key) this.lookup.set(key.toLowerCase(), info.iso2);
+    }
+    return entry;
+  }
+}
+
+function coreBounds(polygons: PolygonRings[]): BoundingBox {
+  const withBounds = polygons.map((polygon) => ({ bounds: ringsBounds(polygon), area: polygonAreaKm2(polygon) }));
+  const largest = withBounds.reduce((a, b) => (b.area > a.area ? b : a));
+  return withBounds
+    .filter((polygon) => boundsGapKm(polygon.bounds, largest.bounds) <= CORE_BOUNDS_RADIUS_KM)
+    .reduce((bounds, polygon) => mergeBounds(bounds, polygon.bounds), largest.bounds);
+}
@@ -0,0 +1,68 @@
+import { BoundingBox, PolygonRings, Position } from './types';
+
+export const KM_PER_DEGREE = (Math.PI / 180) * 6371;
+
+export function ringsBounds(rings: Position[][]): BoundingBox {
+  const bounds: BoundingBox = { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity };
+  for (const ring of rings) {
+    for (const [lng, lat] of ring) {
+      if (lat > bounds.north) bounds.north = lat;
+      if (lat < bounds.south) bounds.south = lat;
+      if (lng > bounds.east) bounds.east = lng;
+      if (lng < bounds.west) bounds.west = lng;
+    }
+  }
+  return bounds;
+}
+
+export function mergeBounds(a: BoundingBox, b: BoundingBox): BoundingBox {
+  return {
+    north: Math.max(a.north, b.north),
+    south: Math.min(a.south, b.south),
+    east: Math.max(a.east, b.east),
+    west: Math.min(a.west, b.west),
+  };
+}
+
+export function boundsContain(bounds: BoundingBox, lat: number, lng: number): boolean {
+  return lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east;
+}
+
+/** Approximate distance in km between the closest edges of two boxes; 0 when they overlap */
+export function boundsGapKm(a: BoundingBox, b: BoundingBox): number {
+  const latGap = Math.max(0, a.south - b.north, b.south - a.north);
+  const lngGap = Math.max(0, a.west - b.east, b.west - a.east);
+  const midLat = (Math.max(a.south, b.south) + Math.min(a.north, b.north)) / 2;
+  return Math.hypot(latGap, lngGap * Math.cos((midLat * Math.PI) / 180)) * KM_PER_DEGREE;
+}
+
+/** Area of the outer ring in km², on an equirectangular projection at the ring's latitude */
+export function polygonAreaKm2(polygon: PolygonRings): number {
+  const outer = polygon[0];
+  if (!outer || outer.length < 3) return 0;
+  const bounds = ringsBounds([outer]);
+  const cosLat = Math.cos((((bounds.north + bounds.south) / 2) * Math.PI) / 180);
+  let twiceArea = 0;
+  for (let i = 0, j = outer.length - 1; i < outer.length; j = i++) {
+    twiceArea += (outer[j][0] - outer[i][0]) * (outer[j][1] + outer[i][1]);
+  }
+  return (Math.abs(twiceArea) / 2) * cosLat * KM_PER_DEGREE * KM_PER_DEGREE;
+}
+
+/**
+ * Distance in km from a point to a segment, on an equirectangular projection
+ * centred on the point. Accurate to well under 1% within a few hundred km.
+ */
+export function pointToSegmentKm(lat: number, lng: number, a: Position, b: Position): number {
+  const kx = Math.cos((lat * Math.PI) / 180) * KM_PER_DEGREE;
+  const ky = KM_PER_DEGREE;
+  const ax = (a[0] - lng) * kx;
+  const ay = (a[1] - lat) * ky;
+  const bx = (b[0] - lng) * kx;
+  const by = (b[1] - lat) * ky;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
@@ -0,0 +1,5 @@
+export { BoundaryIndex, DEFAULT_COAST_SEARCH_KM } from './boundary-index';
+export { DEFAULT_DATA_DIR, getBoundaryIndex, loadBoundaryIndex } from './loader';
+export { decodeTopologyObject } from './topojson';
+export type { DecodedGeometry } from './topojson';
+export * from './types';
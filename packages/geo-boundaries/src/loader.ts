@@ -0,0 +1,34 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { BoundaryIndex } from './boundary-index';
+import { BoundaryBundle, CountryInfo } from './types';
+
+/** Bundled data, overridable to point at a directory with more detailed or additional bundles */
+export const DEFAULT_DATA_DIR = process.env.GEO_BOUNDARIES_DATA_DIR || resolve(__dirname, '..', 'data');
+
+/**
+ * Builds an index from a data directory: countries.json for metadata, then
+ * every *.topo.json and *.geo.json bundle. TopoJSON bundles are loaded first
+ * so admin-1 GeoJSON can attach to the countries they define.
+ */
+export function loadBoundaryIndex(dataDir: string = DEFAULT_DATA_DIR): BoundaryIndex {
+  const readJson = <T>(file: string): T => JSON.parse(readFileSync(join(dataDir, file), 'utf8')) as T;
+  const files = readdirSync(dataDir).sort();
+
+  const index = new BoundaryIndex(files.includes('countries.json') ? readJson<CountryInfo[]>('countries.json') : []);
+  for (const file of files.filter((name) => name.endsWith('.topo.json'))) {
+    index.addBundle(readJson<BoundaryBundle>(file));
+  }
+  for (const file of files.filter((name) => name.endsWith('.geo.json'))) {
+    index.addBundle(readJson<BoundaryBundle>(file));
+  }
+  return index;
+}
+
+let sharedIndex: BoundaryIndex | null = null;
+
+/** Process-wide index over the default data directory, built on first use */
+export function getBoundaryIndex(): BoundaryIndex {
+  if (!sharedIndex) sharedIndex = loadBoundaryIndex();
+  return sharedIndex;
+}
@@ -0,0 +1,92 @@
+import { BoundingBox, PolygonRings, Position } from './types';
+import { ringsBounds } from './geometry';
+
+/**
+ * Fixed-size lat/lng grid. Items are registered in every cell their bounding
+ * box touches, so a point query only has to look at one cell.
+ */
+export class GridIndex<T> {
+  private readonly cells = new Map<number, T[]>();
+
+  constructor(readonly cellSizeDeg: number) {}
+
+  insert(bounds: BoundingBox, item: T): void {
+    const [rowMin, colMin] = this.cellOf(bounds.south, bounds.west);
+    const [rowMax, colMax] = this.cellOf(bounds.north, bounds.east);
+    for (let row = rowMin; row <= rowMax; row++) {
+      for (let col = colMin; col <= colMax; col++) {
+        const key = this.key(row, col);
+        const items = this.cells.get(key);
+        if (items) items.push(item);
+        else this.cells.set(key, [item]);
+      }
+    }
+  }
+
+  at(lat: number, lng: number): readonly T[] {
+    const [row, col] = this.cellOf(lat, lng);
+    return this.cell(row, col);
+  }
+
+  cell(row: number, col: number): readonly T[] {
+    return this.cells.get(this.key(row, col)) ?? [];
+  }
+
+  cellOf(lat: number, lng: number): [number, number] {
+    return [Math.floor((lat + 90) / this.cellSizeDeg), Math.floor((lng + 180) / this.cellSizeDeg)];
+  }
+
+  private key(row: number, col: number): number {
+    return row * 100_000 + col;
+  }
+}
+
+const STRIP_DEG = 0.05;
+
+/**
+ * A polygon with its edges bucketed into horizontal strips, so point-in-polygon
+ * ray casting only tests the edges that cross the point's latitude.
+ */
+export class IndexedPolygon<T> {
+  readonly bounds: BoundingBox;
+  private readonly strips = new Map<number, Array<[Position, Position]>>();
+
+  constructor(
+    readonly owner: T,
+    rings: PolygonRings,
+  ) {
+    this.bounds = ringsBounds(rings);
+    for (const ring of rings) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const a = ring[i];
+        const b = ring[i + 1];
+        if (a[1] === b[1]) continue;
+        const first = this.stripOf(Math.min(a[1], b[1]));
+        const last = this.stripOf(Math.max(a[1], b[1]));
+        for (let strip = first; strip <= last; strip++) {
+          const edges = this.strips.get(strip);
+          if (edges) edges.push([a, b]);
+          else this.strips.set(strip, [[a, b]]);
+        }
+      }
+    }
+  }
+
+  /** Even-odd rule over all rings, so holes are excluded */
+  contains(lat: number, lng: number): boolean {
+    if (lat < this.bounds.south || lat > this.bounds.north || lng < this.bounds.west || lng > this.bounds.east) {
+      return false;
+    }
+    let inside = false;
+    for (const [a, b] of this.strips.get(this.stripOf(lat)) ?? []) {
+      if (a[1] > lat === b[1] > lat) continue;
+      const crossingLng = a[0] + ((lat - a[1]) * (b[0] - a[0])) / (b[1] - a[1]);
+      if (crossingLng > lng) inside = !inside;
+    }
+    return inside;
+  }
+
+  private stripOf(lat: number): number {
+    return Math.floor((lat - this.bounds.south) / STRIP_DEG);
+  }
+}
@@ -0,0 +1,63 @@
+import { PolygonRings, Position, Ring, Topology, TopologyGeometry } from './types';
+
+export interface DecodedGeometry {
+  id?: string;
+  properties: Record<string, unknown>;
+  polygons: PolygonRings[];
+  lines: Position[][];
+}
+
+/** Converts one object of a (quantized, delta-encoded) topology to coordinates */
+export function decodeTopologyObject(topology: Topology, objectName: string): DecodedGeometry[] {
+  const object = topology.objects[objectName];
+  if (!object) return [];
+
+  const arcs = decodeArcs(topology);
+  // Arc ~i is arc i reversed
+  const arcPositions = (index: number): Position[] => (index < 0 ? [...arcs[~index]].reverse() : arcs[index]);
+  const ring = (indices: number[]): Ring => {
+    const positions: Position[] = [];
+    indices.forEach((index, i) => {
+      const points = arcPositions(index);
+      // Consecutive arcs share their joining point
+      positions.push(...(i === 0 ? points : points.slice(1)));
+    });
+    return positions;
+  };
+
+  return object.geometries.map((geometry: TopologyGeometry) => {
+    const decoded: DecodedGeometry = { id: geometry.id, properties: geometry.properties ?? {}, polygons: [], lines: [] };
+    switch (geometry.type) {
+      case 'Polygon':
+        decoded.polygons.push((geometry.arcs as number[][]).map(ring));
+        break;
+      case 'MultiPolygon':
+        decoded.polygons.push(...(geometry.arcs as number[][][]).map((polygon) => polygon.map(ring)));
+        break;
+      case 'LineString':
+        decoded.lines.push(ring(geometry.arcs as number[]));
+        break;
+      case 'MultiLineString':
+        decoded.lines.push(...(geometry.arcs as number[][]).map(ring));
+        break;
+    }
+    return decoded;
+  });
+}
+
+function decodeArcs(topology: Topology): Position[][] {
+  const transform = topology.transform;
+  if (!transform) return topology.arcs;
+
+  const [scaleX, scaleY] = transform.scale;
+  const [translateX, translateY] = transform.translate;
+  return topology.arcs.map((arc) => {
+    let x = 0;
+    let y = 0;
+    return arc.map(([dx, dy]): Position => {
+      x += dx;
+      y += dy;
+      return [x * scaleX + translateX, y * scaleY + translateY];
+    });
+  });
+}
@@ -0,0 +1,71 @@
+/** [lng, lat] */
+export type Position = [number, number];
+export type Ring = Position[];
+/** Outer ring followed by holes */
+export type PolygonRings = Ring[];
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface CountryInfo {
+  iso2: string;
+  iso3: string;
+  isoNumeric: string;
+  name: string;
+  aliases?: string[];
+}
+
+export interface RegionInfo {
+  /** ISO 3166-2 code, e.g. DE-BY */
+  code: string;
+  name: string;
+  iso2: string;
+}
+
+export interface PointLocation {
+  country: Pick<CountryInfo, 'iso2' | 'name'> | null;
+  /** Admin-1 region, when an admin-1 bundle covering the country is loaded */
+  region: RegionInfo | null;
+  /** True inside a loaded country or nearer a land border than the coast; null when too far from either to tell */
+  isOnLand: boolean | null;
+  /** Null when no coastline lies within the search radius */
+  distanceToCoastKm: number | null;
+}
+
+// Bundle formats. Only the subset of TopoJSON and GeoJSON the builder writes is supported.
+
+export interface TopologyTransform {
+  scale: [number, number];
+  translate: [number, number];
+}
+
+export interface TopologyGeometry {
+  type: 'Polygon' | 'MultiPolygon' | 'LineString' | 'MultiLineString';
+  id?: string;
+  properties?: Record<string, unknown>;
+  arcs: number[] | number[][] | number[][][];
+}
+
+export interface Topology {
+  type: 'Topology';
+  transform?: TopologyTransform;
+  objects: Record<string, { type: 'GeometryCollection'; geometries: TopologyGeometry[] }>;
+  arcs: Position[][];
+}
+
+export interface BoundaryFeature {
+  type: 'Feature';
+  properties: Record<string, unknown>;
+  geometry: { type: 'Polygon'; coordinates: PolygonRings } | { type: 'MultiPolygon'; coordinates: PolygonRings[] };
+}
+
+export interface BoundaryFeatureCollection {
+  type: 'FeatureCollection';
+  features: BoundaryFeature[];
+}
+
+export type BoundaryBundle = Topology | BoundaryFeatureCollection;
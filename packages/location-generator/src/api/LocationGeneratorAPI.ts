@@ -1,6 +1,6 @@
 import { LocationGenerator } from '../core/LocationGenerator';
 import { GenerationRequest, GenerationResult } from '../types/config';
-import { LocationCandidate, ScoreWeights } from '../types/core';
+import { CountryConfig, ExistingStore, LocationCandidate, ScoreWeights } from '../types/core';
 import { 
   ParetoService, 
   ScenarioService, 
@@ -288,7 +288,7 @@ export class LocationGeneratorAPI {
     targetSite: LocationCandidate,
     allCandidates: LocationCandidate[],
     weights: ScoreWeights,
-    targetImprovement: 'next_rank' | 'top_10' | 'top_5' = 'next_rank'
+    targetImprovement: 'next_rank' | 'top_20' | 'top_10' | 'top_5' = 'next_rank'
   ) {
     return this.counterfactualService.generateCounterfactuals(
       targetSite,
@@ -353,6 +353,22 @@ export class LocationGeneratorAPI {
     return this.backtestService.runBacktest(allStores, candidates, config, options);
   }
 
+  /**
+   * Backtest against stores held out by opening date
+   */
+  async runHoldoutBacktest(
+    trainingStores: ExistingStore[],
+    heldOutStores: ExistingStore[],
+    candidates: LocationCandidate[],
+    config: CountryConfig,
+    options?: {
+      targetK?: number;
+      distanceThreshold?: number;
+    }
+  ) {
+    return this.backtestService.runHoldoutBacktest(trainingStores, heldOutStores, candidates, config, options);
+  }
+
   /**
    * Generate board pack for executives
    */
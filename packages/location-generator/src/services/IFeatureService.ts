@@ -1,3 +1,4 @@
+import type * as GeoJSON from 'geojson';
 import { H3Cell } from '../types/geospatial';
 import { CandidateFeatures, ExistingStore, CompetitorLocation, PopulationGrid, AnchorPoint } from '../types/core';
 
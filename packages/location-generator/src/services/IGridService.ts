@@ -1,4 +1,4 @@
-import { GeoJSON } from 'geojson';
+import type * as GeoJSON from 'geojson';
 import { H3Cell, GridWindow } from '../types/geospatial';
 
 /**
@@ -110,6 +110,58 @@ export class BacktestService {
     };
   }
 
+  /**
+   * Backtest against real openings: stores opened after a cutoff are held out,
+   * the portfolio is built from candidates scored against the stores that
+   * existed before it, and each opening is checked against the predictions.
+   */
+  async runHoldoutBacktest(
+    trainingStores: ExistingStore[],
+    heldOutStores: ExistingStore[],
+    candidates: LocationCandidate[],
+    config: CountryConfig,
+    options: {
+      targetK?: number;
+      distanceThreshold?: number;
+    } = {}
+  ): Promise<BacktestResult> {
+    const {
+      targetK = heldOutStores.length,
+      distanceThreshold = 2.5
+    } = options;
+
+    const { metrics, predictions } = this.evaluateHoldout(
+      heldOutStores,
+      trainingStores,
+      candidates,
+      config,
+      targetK,
+      distanceThreshold
+    );
+
+    const thresholds = {
+      hitRateMin: 0.6,
+      medianDistanceMax: distanceThreshold,
+      coverageUpliftMin: 0.1
+    };
+
+    const validation = {
+      passed:
+        metrics.hitRate >= thresholds.hitRateMin &&
+        metrics.medianDistance <= thresholds.medianDistanceMax &&
+        metrics.coverageUplift >= thresholds.coverageUpliftMin,
+      thresholds
+    };
+
+    return {
+      maskedStores: heldOutStores,
+      predictions,
+      metrics,
+      validation,
+      recommendations: this.generateBacktestRecommendations(metrics, validation)
+    };
+  }
+
   /**
    * Run single backtest iteration
    */
@@ -133,6 +185,30 @@ export class BacktestService {
     const maskedStores = shuffled.slice(0, maskCount);
     const remainingStores = shuffled.slice(maskCount);
 
+    return this.evaluateHoldout(
+      maskedStores,
+      remainingStores,
+      candidates,
+      config,
+      targetK,
+      distanceThreshold
+    ).metrics;
+  }
+
+  /**
+   * Build a portfolio from the remaining stores and score it against the held-out ones
+   */
+  private evaluateHoldout(
+    maskedStores: ExistingStore[],
+    remainingStores: ExistingStore[],
+    candidates: LocationCandidate[],
+    config: CountryConfig,
+    targetK: number,
+    distanceThreshold: number
+  ): {
+    metrics: BacktestResult['metrics'];
+    predictions: LocationCandidate[];
+  } {
     // Generate predictions using remaining stores
     const portfolioResult = this.portfolioService.buildPortfolio(
       candidates,
@@ -150,11 +226,14 @@ export class BacktestService {
     const { precision, recall } = this.calculatePrecisionRecall(maskedStores, predictions, distanceThreshold);
 
     return {
-      hitRate,
-      medianDistance,
-      coverageUplift,
-      precision,
-      recall
+      metrics: {
+        hitRate,
+        medianDistance,
+        coverageUplift,
+        precision,
+        recall
+      },
+      predictions
     };
   }
 
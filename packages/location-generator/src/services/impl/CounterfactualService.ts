@@ -38,7 +38,7 @@ export class CounterfactualService {
     targetSite: LocationCandidate,
     allCandidates: LocationCandidate[],
     weights: ScoreWeights,
-    targetImprovement: 'next_rank' | 'top_10' | 'top_5' = 'next_rank'
+    targetImprovement: 'next_rank' | 'top_20' | 'top_10' | 'top_5' = 'next_rank'
   ): CounterfactualAnalysis {
     const currentRank = this.getCurrentRank(targetSite, allCandidates);
     const targetRank = this.getTargetRank(currentRank, targetImprovement, allCandidates.length);
@@ -274,6 +274,8 @@ export class CounterfactualService {
     switch (improvement) {
       case 'next_rank':
         return Math.max(1, currentRank - 1);
+      case 'top_20':
+        return Math.min(20, currentRank - 1);
       case 'top_10':
         return Math.min(10, currentRank - 1);
       case 'top_5':
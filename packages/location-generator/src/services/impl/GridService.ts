@@ -1,4 +1,4 @@
-import { GeoJSON } from 'geojson';
+import type * as GeoJSON from 'geojson';
 import { cellToBoundary, latLngToCell, cellToLatLng, polygonToCells, getResolution, gridDisk, gridDistance } from 'h3-js';
 import * as turf from '@turf/turf';
 import { IGridService } from '../IGridService';
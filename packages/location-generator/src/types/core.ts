@@ -1,4 +1,4 @@
-import { GeoJSON } from 'geojson';
+import type * as GeoJSON from 'geojson';
 
 /**
  * Core data models for the National Store Location Generator
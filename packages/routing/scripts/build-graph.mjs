@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+/**
+ * Preprocesses an OpenStreetMap extract into a road graph bundle.
+ *
+ *   node scripts/build-graph.mjs --input berlin.osm --name berlin [--out data/berlin.graph.json]
+ *
+ * --input is OSM XML (e.g. `osmium cat berlin-latest.osm.pbf -o berlin.osm`)
+ * or Overpass JSON. Only ways with a routable highway class are kept, and
+ * only the nodes they use. Speeds are not baked in: each edge stores its
+ * length, road class and access flags, and the router applies its speed
+ * profiles when the graph is loaded.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Must cover every class in src/profiles.ts
+const ROAD_CLASSES = [
+  'motorway', 'motorway_link', 'trunk', 'trunk_link', 'primary', 'primary_link',
+  'secondary', 'secondary_link', 'tertiary', 'tertiary_link', 'unclassified', 'residential',
+  'living_street', 'service', 'pedestrian', 'footway', 'path', 'track', 'cycleway', 'steps',
+];
+const EDGE_FLAGS = { DRIVE_FORWARD: 1, DRIVE_BACKWARD: 2, WALK: 4 };
+const NO_ACCESS = new Set(['no', 'private']);
+
+function argument(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function attributes(text) {
+  const values = {};
+  for (const [, key, value] of text.matchAll(/(\w+)="([^"]*)"/g)) values[key] = value;
+  return values;
+}
+
+function readOsmXml(text) {
+  const nodes = new Map();
+  const ways = [];
+  for (const [, type, attrs, body = ''] of text.matchAll(/<(node|way)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g)) {
+    const element = attributes(attrs);
+    if (type === 'node') {
+      nodes.set(element.id, [Number(element.lat), Number(element.lon)]);
+      continue;
+    }
+    const tags = {};
+    for (const [, key, value] of body.matchAll(/<tag k="([^"]*)" v="([^"]*)"/g)) tags[key] = value;
+    ways.push({ nodes: [...body.matchAll(/<nd ref="(\d+)"/g)].map((match) => match[1]), tags });
+  }
+  return { nodes, ways };
+}
+
+function readOverpassJson(text) {
+  const nodes = new Map();
+  const ways = [];
+  for (const element of JSON.parse(text).elements) {
+    if (element.type === 'node') nodes.set(String(element.id), [element.lat, element.lon]);
+    else if (element.type === 'way') ways.push({ nodes: element.nodes.map(String), tags: element.tags ?? {} });
+  }
+  return { nodes, ways };
+}
+
+function haversineM([lat1, lng1], [lat2, lng2]) {
+  const toRadians = (degrees) => (degrees * Math.PI) / 180;
+  const a =
+    Math.sin(toRadians(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(toRadians(lng2 - lng1) / 2) ** 2;
+  return 2 * 6371000 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function flagsFor(tags) {
+  if (NO_ACCESS.has(tags.access)) return 0;
+  let flags = tags.foot === 'no' ? 0 : EDGE_FLAGS.WALK;
+  if (tags.motor_vehicle === 'no' || tags.motorcar === 'no') return flags;
+
+  const oneway = tags.oneway ?? (tags.highway === 'motorway' || tags.junction === 'roundabout' ? 'yes' : 'no');
+  if (oneway === '-1') flags |= EDGE_FLAGS.DRIVE_BACKWARD;
+  else if (['yes', 'true', '1'].includes(oneway)) flags |= EDGE_FLAGS.DRIVE_FORWARD;
+  else flags |= EDGE_FLAGS.DRIVE_FORWARD | EDGE_FLAGS.DRIVE_BACKWARD;
+  return flags;
+}
+
+const input = argument('input');
+const name = argument('name');
+if (!input || !name) {
+  console.error('Usage: build-graph.mjs --input <extract.osm|overpass.json> --name <name> [--out <file>]');
+  process.exit(1);
+}
+
+const text = readFileSync(input, 'utf8');
+const osm = text.trimStart().startsWith('{') ? readOverpassJson(text) : readOsmXml(text);
+
+const nodeIndex = new Map();
+const nodes = [];
+const edges = [];
+const indexOf = (id) => {
+  if (!nodeIndex.has(id)) {
+    const [lat, lng] = osm.nodes.get(id);
+    nodeIndex.set(id, nodes.length / 2);
+    nodes.push(Math.round(lat * 1e6), Math.round(lng * 1e6));
+  }
+  return nodeIndex.get(id);
+};
+
+for (const way of osm.ways) {
+  const roadClass = ROAD_CLASSES.indexOf(way.tags.highway);
+  const flags = flagsFor(way.tags);
+  if (roadClass === -1 || way.tags.area === 'yes' || flags === 0) continue;
+
+  const ids = way.nodes.filter((id) => osm.nodes.has(id));
+  for (let i = 0; i < ids.length - 1; i++) {
+    const lengthM = Math.max(1, Math.round(haversineM(osm.nodes.get(ids[i]), osm.nodes.get(ids[i + 1]))));
+    edges.push(indexOf(ids[i]), indexOf(ids[i + 1]), lengthM, roadClass, flags);
+  }
+}
+
+const out = argument('out') ?? join(dirname(fileURLToPath(import.meta.url)), '..', 'data', `${name}.graph.json`);
+mkdirSync(dirname(out), { recursive: true });
+writeFileSync(
+  out,
+  JSON.stringify({
+    type: 'RoadGraph',
+    version: 1,
+    name,
+    builtAt: new Date().toISOString(),
+    source: basename(input),
+    roadClasses: ROAD_CLASSES,
+    nodes,
+    edges,
+  }),
+);
+console.log(`${basename(out)}: ${nodes.length / 2} nodes, ${edges.length / 5} edges`);
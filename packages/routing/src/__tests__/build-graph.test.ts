@@ -0,0 +1,61 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { loadRouter } from '../loader';
+import { RoadGraphBundle } from '../types';
+
+/**
+ * A 1.1 km by 0.7 km block whose east side is one-way northbound, with a
+ * private footpath across it and a canal that is not a road
+ */
+describe('build-graph', () => {
+  const packageDir = resolve(__dirname, '..', '..');
+  const southWest = { lat: 52.5, lng: 13.4 };
+  const southEast = { lat: 52.5, lng: 13.41 };
+  const northEast = { lat: 52.51, lng: 13.41 };
+  let outDir: string;
+
+  beforeAll(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'routing-'));
+    execFileSync(process.execPath, [
+      join(packageDir, 'scripts', 'build-graph.mjs'),
+      '--input', join(__dirname, 'fixtures', 'block.osm'),
+      '--name', 'block',
+      '--out', join(outDir, 'block.graph.json'),
+    ]);
+  });
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('keeps routable ways and only the nodes they use', () => {
+    const bundle = JSON.parse(readFileSync(join(outDir, 'block.graph.json'), 'utf8')) as RoadGraphBundle;
+
+    expect(bundle).toMatchObject({ type: 'RoadGraph', version: 1, name: 'block', source: 'block.osm' });
+    expect(bundle.nodes).toHaveLength(5 * 2);
+    expect(bundle.edges).toHaveLength(5 * 5);
+  });
+
+  it('routes over the built graph once it is in the graph directory', () => {
+    const router = loadRouter(outDir);
+
+    const north = router.travelTimes(southEast, [northEast], 'drive');
+    const south = router.travelTimes(northEast, [southEast], 'drive');
+
+    expect(north.method).toBe('network');
+    expect(north.graph).toMatch(/^block@/);
+    // 1.1 km straight up the one-way street at 30 km/h
+    expect(north.minutes[0]).toBeCloseTo(2.2, 1);
+    // 2.5 km back round the other three sides
+    expect(south.minutes[0]).toBeCloseTo(4.9, 1);
+  });
+
+  it('leaves private paths out of walking routes', () => {
+    const [minutes] = loadRouter(outDir).travelTimes(southWest, [northEast], 'walk').minutes;
+
+    // 1.8 km along the streets at 4.8 km/h rather than 1.3 km across the block
+    expect(minutes).toBeCloseTo(22.4, 0);
+  });
+});
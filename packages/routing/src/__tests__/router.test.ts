@@ -0,0 +1,148 @@
+import { CatchmentRaster } from '../catchment-raster';
+import { LocalProjection } from '../geometry';
+import { Router } from '../router';
+import { EDGE_FLAGS, Isochrone, RoadGraphBundle } from '../types';
+
+const ROAD_CLASSES = ['residential', 'footway'];
+const BOTH_WAYS = EDGE_FLAGS.DRIVE_FORWARD | EDGE_FLAGS.DRIVE_BACKWARD | EDGE_FLAGS.WALK;
+const WEST = 13.395;
+const EAST = 13.415;
+
+/**
+ * Two streets running north-south either side of a river. Cars cross on a
+ * two-way bridge in the north and a one-way bridge in the south that only
+ * goes east to west. Pedestrians also have a footbridge in the middle.
+ */
+function riverTown(): RoadGraphBundle {
+  const nodes: number[] = [];
+  const edges: number[] = [];
+  const node = (lat: number, lng: number) => {
+    nodes.push(Math.round(lat * 1e6), Math.round(lng * 1e6));
+    return nodes.length / 2 - 1;
+  };
+  const edge = (from: number, to: number, roadClass: number, flags: number) => {
+    const metres = Math.hypot((nodes[2 * to] - nodes[2 * from]) / 1e6 * 111195, ((nodes[2 * to + 1] - nodes[2 * from + 1]) / 1e6) * 111195 * Math.cos((52.5 * Math.PI) / 180));
+    edges.push(from, to, Math.round(metres), roadClass, flags);
+  };
+
+  const west: number[] = [];
+  const east: number[] = [];
+  for (let lat = 52.49; lat <= 52.5301; lat += 0.005) {
+    west.push(node(lat, WEST));
+    east.push(node(lat, EAST));
+  }
+  for (let i = 0; i < west.length - 1; i++) {
+    edge(west[i], west[i + 1], 0, BOTH_WAYS);
+    edge(east[i], east[i + 1], 0, BOTH_WAYS);
+  }
+  edge(west[west.length - 1], east[east.length - 1], 0, BOTH_WAYS); // north bridge at 52.53
+  edge(east[0], west[0], 0, EDGE_FLAGS.DRIVE_FORWARD | EDGE_FLAGS.WALK); // one-way south bridge at 52.49
+  edge(west[2], east[2], 1, BOTH_WAYS); // footbridge at 52.50
+
+  return { type: 'RoadGraph', version: 1, name: 'river-town', builtAt: '2026-01-01T00:00:00Z', roadClasses: ROAD_CLASSES, nodes, edges };
+}
+
+function contains(isochrone: Isochrone, lat: number, lng: number): boolean {
+  return isochrone.geometry.coordinates.some((polygon) => {
+    let inside = false;
+    for (const ring of polygon) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [ax, ay] = ring[i];
+        const [bx, by] = ring[i + 1];
+        if (ay > lat !== by > lat && ax + ((lat - ay) * (bx - ax)) / (by - ay) > lng) inside = !inside;
+      }
+    }
+    return inside;
+  });
+}
+
+describe('Router', () => {
+  const router = new Router().addGraph(riverTown());
+  const westBank = { lat: 52.5, lng: WEST };
+  const eastBank = { lat: 52.5, lng: EAST };
+
+  it('routes around the river instead of across it', () => {
+    const [there] = router.travelTimes(westBank, [eastBank], 'drive').minutes;
+    const [back] = router.travelTimes(eastBank, [westBank], 'drive').minutes;
+
+    // North over the two-way bridge: 3.3 km up, 1.4 km across, 3.3 km down at 30 km/h
+    expect(there).toBeGreaterThan(15);
+    expect(there).toBeLessThan(17);
+    // South over the one-way bridge is shorter but only goes west
+    expect(back).toBeGreaterThan(6.5);
+    expect(back).toBeLessThan(8);
+  });
+
+  it('uses footpaths only when walking', () => {
+    const walk = router.travelTimes(westBank, [eastBank], 'walk');
+    expect(walk.method).toBe('network');
+    expect(walk.graph).toBe('river-town@2026-01-01T00:00:00Z');
+    // 1.36 km over the footbridge at 4.8 km/h
+    expect(walk.minutes[0]).toBeCloseTo(17, 0);
+  });
+
+  it('leaves destinations beyond the budget unreached', () => {
+    const { minutes } = router.travelTimes(westBank, [eastBank, { lat: 52.51, lng: WEST }], 'drive', { maxMinutes: 10 });
+    expect(minutes[0]).toBeNull();
+    expect(minutes[1]).toBeCloseTo(2.2, 1);
+  });
+
+  it('falls back to straight lines away from any graph', () => {
+    const result = router.travelTimes({ lat: 48.0, lng: 11.0 }, [{ lat: 48.0, lng: 11.1 }], 'drive', { fallbackSpeedKmh: 60 });
+    expect(result.method).toBe('straight_line');
+    expect(result.graph).toBeNull();
+    expect(result.minutes[0]).toBeCloseTo(7.4, 1);
+  });
+
+  it('draws isochrones that stop at the river', () => {
+    const isochrone = router.isochrone(westBank, 'drive', 5);
+
+    expect(isochrone.method).toBe('network');
+    expect(contains(isochrone, 52.51, WEST)).toBe(true);
+    expect(contains(isochrone, 52.5, (WEST + EAST) / 2)).toBe(false);
+    expect(contains(isochrone, 52.5, EAST)).toBe(false);
+    // 2.5 km of street each way, roughly 300 m wide after widening
+    expect(isochrone.areaKm2).toBeGreaterThan(1);
+    expect(isochrone.areaKm2).toBeLessThan(2.5);
+  });
+
+  it('measures catchment overlap along the network', () => {
+    const sameBank = router.catchmentOverlap(westBank, { lat: 52.505, lng: WEST }, 'drive', 5);
+    // Short of the 4.9 minutes it takes to reach the west bank over the one-way bridge
+    const acrossRiver = router.catchmentOverlap(westBank, eastBank, 'drive', 4);
+
+    expect(sameBank.overlap).toBeGreaterThan(0.7);
+    expect(acrossRiver).toEqual({ overlap: 0, method: 'network' });
+    // Straight-line catchments of 3.3 km would overlap almost entirely
+    expect(new Router().catchmentOverlap(westBank, eastBank, 'drive', 4).overlap).toBeGreaterThan(0.7);
+  });
+});
+
+describe('CatchmentRaster', () => {
+  const projection = new LocalProjection({ lat: 52.5, lng: 13.4 });
+  const offset = (x: number, y: number): [number, number] => {
+    const [lng, lat] = projection.toLngLat(x, y);
+    return [lat, lng];
+  };
+
+  it('traces holes inside a catchment', () => {
+    const raster = new CatchmentRaster(projection, 100);
+    const corners = [offset(50, 50), offset(950, 50), offset(950, 950), offset(50, 950)];
+    corners.forEach((corner, i) => raster.markSegment(corner, corners[(i + 1) % corners.length]));
+
+    const polygons = raster.toMultiPolygon();
+    expect(polygons).toHaveLength(1);
+    expect(polygons[0]).toHaveLength(2);
+    expect(raster.areaKm2).toBeCloseTo(0.36, 5);
+  });
+
+  it('joins cells that only touch at a corner', () => {
+    const raster = new CatchmentRaster(projection, 100);
+    raster.markPoint(...offset(50, 50));
+    raster.markPoint(...offset(150, 150));
+
+    const polygons = raster.toMultiPolygon();
+    expect(polygons).toHaveLength(1);
+    expect(polygons[0]).toHaveLength(1);
+  });
+});
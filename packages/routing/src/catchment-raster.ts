@@ -0,0 +1,220 @@
+import { LocalProjection } from './geometry';
+
+type Ring = Array<[number, number]>;
+
+const KEY_OFFSET = 2 ** 20;
+const KEY_SPAN = 2 ** 21;
+
+/**
+ * The area reachable from an origin as a set of square cells in a local
+ * projection. Reached roads are drawn into the raster, widened by a cell on
+ * each side for the plots fronting them, and the outline is traced into
+ * polygons. Anything the roads do not reach, like a river between two
+ * bridges, stays out of the catchment.
+ */
+export class CatchmentRaster {
+  private readonly cells = new Set<number>();
+
+  constructor(
+    readonly projection: LocalProjection,
+    readonly cellSizeM: number,
+  ) {}
+
+  get cellCount(): number {
+    return this.cells.size;
+  }
+
+  get areaKm2(): number {
+    return (this.cells.size * this.cellSizeM ** 2) / 1e6;
+  }
+
+  markPoint(lat: number, lng: number): void {
+    const [x, y] = this.projection.toXY(lat, lng);
+    this.cells.add(this.key(Math.floor(x / this.cellSizeM), Math.floor(y / this.cellSizeM)));
+  }
+
+  /** Marks the segment from a to the point `fraction` of the way to b */
+  markSegment(a: [number, number], b: [number, number], fraction = 1): void {
+    const [ax, ay] = this.projection.toXY(a[0], a[1]);
+    const [bx, by] = this.projection.toXY(b[0], b[1]);
+    const dx = (bx - ax) * fraction;
+    const dy = (by - ay) * fraction;
+    const steps = Math.max(1, Math.ceil(Math.hypot(dx, dy) / (this.cellSizeM / 2)));
+    for (let step = 0; step <= steps; step++) {
+      const x = ax + (dx * step) / steps;
+      const y = ay + (dy * step) / steps;
+      this.cells.add(this.key(Math.floor(x / this.cellSizeM), Math.floor(y / this.cellSizeM)));
+    }
+  }
+
+  markDisc(lat: number, lng: number, radiusM: number): void {
+    const [cx, cy] = this.projection.toXY(lat, lng);
+    const reach = Math.ceil(radiusM / this.cellSizeM) + 1;
+    const [ci, cj] = [Math.floor(cx / this.cellSizeM), Math.floor(cy / this.cellSizeM)];
+    for (let i = ci - reach; i <= ci + reach; i++) {
+      for (let j = cj - reach; j <= cj + reach; j++) {
+        const x = (i + 0.5) * this.cellSizeM - cx;
+        const y = (j + 0.5) * this.cellSizeM - cy;
+        if (x * x + y * y <= radiusM * radiusM) this.cells.add(this.key(i, j));
+      }
+    }
+  }
+
+  /** Grows the catchment by one cell in every direction, including diagonals */
+  dilate(): void {
+    for (const key of [...this.cells]) {
+      const [i, j] = this.unkey(key);
+      for (let di = -1; di <= 1; di++) {
+        for (let dj = -1; dj <= 1; dj++) this.cells.add(this.key(i + di, j + dj));
+      }
+    }
+  }
+
+  /** Number of cells both rasters cover. Both must share a projection and cell size. */
+  sharedCells(other: CatchmentRaster): number {
+    const [small, large] = this.cells.size <= other.cells.size ? [this.cells, other.cells] : [other.cells, this.cells];
+    let shared = 0;
+    for (const key of small) if (large.has(key)) shared++;
+    return shared;
+  }
+
+  /** Outline as GeoJSON MultiPolygon coordinates, outer rings counter-clockwise */
+  toMultiPolygon(): Ring[][] {
+    if (this.cells.size === 0) return [];
+
+    let minI = Infinity;
+    let minJ = Infinity;
+    let maxI = -Infinity;
+    let maxJ = -Infinity;
+    for (const key of this.cells) {
+      const [i, j] = this.unkey(key);
+      minI = Math.min(minI, i);
+      minJ = Math.min(minJ, j);
+      maxI = Math.max(maxI, i);
+      maxJ = Math.max(maxJ, j);
+    }
+
+    // Dense grid with an empty border, so every boundary is closed
+    const width = maxI - minI + 3;
+    const height = maxJ - minJ + 3;
+    const filled = new Uint8Array(width * height);
+    for (const key of this.cells) {
+      const [i, j] = this.unkey(key);
+      filled[i - minI + 1 + (j - minJ + 1) * width] = 1;
+    }
+    closeDiagonalGaps(filled, width, height);
+
+    const rings = traceRings(filled, width, height);
+    const outers = rings.filter((ring) => signedArea(ring) > 0).map((ring) => ({ ring, area: signedArea(ring), holes: [] as Ring[] }));
+    for (const hole of rings.filter((ring) => signedArea(ring) < 0)) {
+      // The cell left of the hole's first edge is filled and belongs to the innermost outer ring around it
+      const [x0, y0] = hole[0];
+      const dx = Math.sign(hole[1][0] - x0);
+      const dy = Math.sign(hole[1][1] - y0);
+      const inside: [number, number] = [x0 + 0.5 * (dx - dy), y0 + 0.5 * (dy + dx)];
+      const owner = outers
+        .filter((outer) => ringContains(outer.ring, inside))
+        .reduce<(typeof outers)[number] | null>((best, outer) => (!best || outer.area < best.area ? outer : best), null);
+      owner?.holes.push(hole);
+    }
+
+    const toLngLat = (ring: Ring): Ring =>
+      ring.map(([u, v]) => this.projection.toLngLat((u + minI - 1) * this.cellSizeM, (v + minJ - 1) * this.cellSizeM));
+    return outers.map((outer) => [toLngLat(outer.ring), ...outer.holes.map(toLngLat)]);
+  }
+
+  private key(i: number, j: number): number {
+    return (i + KEY_OFFSET) * KEY_SPAN + (j + KEY_OFFSET);
+  }
+
+  private unkey(key: number): [number, number] {
+    return [Math.floor(key / KEY_SPAN) - KEY_OFFSET, (key % KEY_SPAN) - KEY_OFFSET];
+  }
+}
+
+/**
+ * Cells touching only at a corner would make two boundaries meet at one
+ * vertex. Filling one of the empty cells joins them, so every boundary
+ * vertex has exactly one way out and tracing is unambiguous.
+ */
+function closeDiagonalGaps(filled: Uint8Array, width: number, height: number): void {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let v = 0; v < height - 1; v++) {
+      for (let u = 0; u < width - 1; u++) {
+        const a = filled[u + v * width];
+        const b = filled[u + 1 + v * width];
+        const c = filled[u + (v + 1) * width];
+        const d = filled[u + 1 + (v + 1) * width];
+        if (a && d && !b && !c) {
+          filled[u + 1 + v * width] = 1;
+          changed = true;
+        } else if (b && c && !a && !d) {
+          filled[u + v * width] = 1;
+          changed = true;
+        }
+      }
+    }
+  }
+}
+
+/** Follows cell edges between filled and empty cells, keeping filled cells on the left */
+function traceRings(filled: Uint8Array, width: number, height: number): Ring[] {
+  const columns = width + 1;
+  const next = new Int32Array(columns * (height + 1)).fill(-1);
+  const vertex = (u: number, v: number) => u + v * columns;
+  const isFilled = (u: number, v: number) => u >= 0 && v >= 0 && u < width && v < height && filled[u + v * width] === 1;
+
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      if (!isFilled(u, v)) continue;
+      if (!isFilled(u, v - 1)) next[vertex(u, v)] = vertex(u + 1, v);
+      if (!isFilled(u + 1, v)) next[vertex(u + 1, v)] = vertex(u + 1, v + 1);
+      if (!isFilled(u, v + 1)) next[vertex(u + 1, v + 1)] = vertex(u, v + 1);
+      if (!isFilled(u - 1, v)) next[vertex(u, v + 1)] = vertex(u, v);
+    }
+  }
+
+  const rings: Ring[] = [];
+  for (let start = 0; start < next.length; start++) {
+    if (next[start] === -1) continue;
+    const points: Ring = [];
+    let current = start;
+    while (next[current] !== -1) {
+      points.push([current % columns, Math.floor(current / columns)]);
+      const following = next[current];
+      next[current] = -1;
+      current = following;
+    }
+    rings.push(withoutCollinearPoints(points));
+  }
+  return rings;
+}
+
+function withoutCollinearPoints(points: Ring): Ring {
+  const corners = points.filter((point, index) => {
+    const previous = points[(index + points.length - 1) % points.length];
+    const following = points[(index + 1) % points.length];
+    return (point[0] - previous[0]) * (following[1] - point[1]) !== (point[1] - previous[1]) * (following[0] - point[0]);
+  });
+  return [...corners, corners[0]];
+}
+
+/** Shoelace area of a closed ring, positive when counter-clockwise */
+function signedArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  return area / 2;
+}
+
+function ringContains(ring: Ring, [x, y]: [number, number]): boolean {
+  let inside = false;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [ax, ay] = ring[i];
+    const [bx, by] = ring[i + 1];
+    if (ay > y === by > y) continue;
+    if (ax + ((y - ay) * (bx - ax)) / (by - ay) > x) inside = !inside;
+  }
+  return inside;
+}
@@ -0,0 +1,34 @@
+import { LatLng } from './types';
+
+const EARTH_RADIUS_KM = 6371;
+export const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Equirectangular projection in metres around an anchor. Accurate to well
+ * under a percent across the few tens of kilometres an isochrone spans.
+ */
+export class LocalProjection {
+  private readonly metresPerDegreeLng: number;
+  private readonly metresPerDegreeLat = KM_PER_DEGREE * 1000;
+
+  constructor(readonly anchor: LatLng) {
+    this.metresPerDegreeLng = this.metresPerDegreeLat * Math.cos((anchor.lat * Math.PI) / 180);
+  }
+
+  toXY(lat: number, lng: number): [number, number] {
+    return [(lng - this.anchor.lng) * this.metresPerDegreeLng, (lat - this.anchor.lat) * this.metresPerDegreeLat];
+  }
+
+  toLngLat(x: number, y: number): [number, number] {
+    return [this.anchor.lng + x / this.metresPerDegreeLng, this.anchor.lat + y / this.metresPerDegreeLat];
+  }
+}
@@ -0,0 +1,7 @@
+export { Router } from './router';
+export type { TravelTimeOptions } from './router';
+export { RoadGraph } from './road-graph';
+export { DEFAULT_GRAPH_DIR, getRouter, loadRouter } from './loader';
+export { DEFAULT_ROUTING_OPTIONS, DRIVE_PROFILE, WALK_PROFILE } from './profiles';
+export { haversineKm } from './geometry';
+export * from './types';
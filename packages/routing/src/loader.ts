@@ -0,0 +1,34 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { Router } from './router';
+import { RoadGraphBundle, RoutingOptions } from './types';
+
+/** Directory of *.graph.json bundles, usually a volume with extracts for the regions being planned */
+export const DEFAULT_GRAPH_DIR = process.env.ROUTING_GRAPH_DIR || resolve(__dirname, '..', 'data');
+
+/**
+ * Builds a router over every *.graph.json bundle in a directory. A missing
+ * or empty directory gives a router that only answers in straight lines.
+ */
+export function loadRouter(graphDir: string = DEFAULT_GRAPH_DIR, options: Partial<RoutingOptions> = {}): Router {
+  const router = new Router(options);
+  if (!existsSync(graphDir)) return router;
+
+  for (const file of readdirSync(graphDir).filter((name) => name.endsWith('.graph.json')).sort()) {
+    router.addGraph(JSON.parse(readFileSync(join(graphDir, file), 'utf8')) as RoadGraphBundle);
+  }
+  return router;
+}
+
+let sharedRouter: Router | null = null;
+
+/** Process-wide router over the default graph directory, built on first use */
+export function getRouter(): Router {
+  if (!sharedRouter) {
+    sharedRouter = loadRouter();
+    if (sharedRouter.graphVersions.length === 0) {
+      console.warn(`No road graphs in ${DEFAULT_GRAPH_DIR}; travel times fall back to straight lines (see build:graph)`);
+    }
+  }
+  return sharedRouter;
+}
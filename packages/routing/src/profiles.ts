@@ -0,0 +1,46 @@
+import { RoutingOptions, SpeedProfile } from './types';
+
+/** Typical urban and regional speeds in Europe, before traffic */
+export const DRIVE_PROFILE: SpeedProfile = {
+  motorway: 110,
+  motorway_link: 60,
+  trunk: 90,
+  trunk_link: 50,
+  primary: 65,
+  primary_link: 40,
+  secondary: 55,
+  secondary_link: 35,
+  tertiary: 45,
+  tertiary_link: 30,
+  unclassified: 40,
+  residential: 30,
+  living_street: 10,
+  service: 15,
+};
+
+export const WALK_PROFILE: SpeedProfile = {
+  primary: 4.8,
+  primary_link: 4.8,
+  secondary: 4.8,
+  secondary_link: 4.8,
+  tertiary: 4.8,
+  tertiary_link: 4.8,
+  unclassified: 4.8,
+  residential: 4.8,
+  living_street: 4.8,
+  service: 4.8,
+  pedestrian: 4.8,
+  footway: 4.8,
+  path: 4.5,
+  track: 4.5,
+  cycleway: 4.8,
+  steps: 3,
+};
+
+export const DEFAULT_ROUTING_OPTIONS: RoutingOptions = {
+  profiles: { drive: DRIVE_PROFILE, walk: WALK_PROFILE },
+  fallbackSpeedKmh: { drive: 50, walk: 4.8 },
+  accessSpeedKmh: { drive: 15, walk: 4.8 },
+  maxSnapKm: 1,
+  cellSizeM: 100,
+};
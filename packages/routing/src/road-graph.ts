@@ -0,0 +1,163 @@
+import { KM_PER_DEGREE, haversineKm } from './geometry';
+import { BoundingBox, EDGE_FLAGS, RoadGraphBundle, SpeedProfile, TRAVEL_MODES, TravelMode } from './types';
+
+const NODE_CELL_DEG = 0.01;
+
+/** Outgoing edges per node in compressed sparse row form */
+interface Adjacency {
+  offsets: Int32Array;
+  targets: Int32Array;
+  seconds: Float32Array;
+}
+
+export interface SnappedNode {
+  node: number;
+  distanceKm: number;
+}
+
+/**
+ * A road network extract, with adjacency for each travel mode
+ * built from the speed profiles. Edges a mode cannot use are left out of
+ * that mode's adjacency entirely.
+ */
+export class RoadGraph {
+  readonly bounds: BoundingBox;
+  private readonly lat: Float64Array;
+  private readonly lng: Float64Array;
+  private readonly adjacency = {} as Record<TravelMode, Adjacency>;
+  private readonly nodeCells = new Map<number, number[]>();
+
+  constructor(
+    private readonly bundle: RoadGraphBundle,
+    profiles: Record<TravelMode, SpeedProfile>,
+  ) {
+    const nodeCount = bundle.nodes.length / 2;
+    this.lat = new Float64Array(nodeCount);
+    this.lng = new Float64Array(nodeCount);
+    let north = -90;
+    let south = 90;
+    let east = -180;
+    let west = 180;
+
+    for (let node = 0; node < nodeCount; node++) {
+      const lat = bundle.nodes[2 * node] / 1e6;
+      const lng = bundle.nodes[2 * node + 1] / 1e6;
+      this.lat[node] = lat;
+      this.lng[node] = lng;
+      north = Math.max(north, lat);
+      south = Math.min(south, lat);
+      east = Math.max(east, lng);
+      west = Math.min(west, lng);
+    }
+    this.bounds = { north, south, east, west };
+
+    for (const mode of TRAVEL_MODES) this.adjacency[mode] = this.buildAdjacency(mode, profiles[mode]);
+
+    // Only nodes with an edge in some mode can be snapped to
+    for (let node = 0; node < nodeCount; node++) {
+      if (TRAVEL_MODES.every((mode) => this.degree(mode, node) === 0)) continue;
+      const key = this.cellKey(this.cellOf(this.lat[node]), this.cellOf(this.lng[node]));
+      const nodes = this.nodeCells.get(key);
+      if (nodes) nodes.push(node);
+      else this.nodeCells.set(key, [node]);
+    }
+  }
+
+  get name(): string {
+    return this.bundle.name;
+  }
+
+  /** Identifies the extract a result was computed on, for cache keys */
+  get version(): string {
+    return `${this.bundle.name}@${this.bundle.builtAt}`;
+  }
+
+  get nodeCount(): number {
+    return this.lat.length;
+  }
+
+  nodeLat(node: number): number {
+    return this.lat[node];
+  }
+
+  nodeLng(node: number): number {
+    return this.lng[node];
+  }
+
+  covers(lat: number, lng: number): boolean {
+    return lat >= this.bounds.south && lat <= this.bounds.north && lng >= this.bounds.west && lng <= this.bounds.east;
+  }
+
+  /** Nearest node usable in `mode` within `maxKm`, or null */
+  nearestNode(lat: number, lng: number, mode: TravelMode, maxKm: number): SnappedNode | null {
+    const latCells = Math.ceil(maxKm / KM_PER_DEGREE / NODE_CELL_DEG);
+    const lngCells = Math.ceil(maxKm / (KM_PER_DEGREE * Math.cos((Math.min(89, Math.abs(lat) + 1) * Math.PI) / 180)) / NODE_CELL_DEG);
+    const row = this.cellOf(lat);
+    const col = this.cellOf(lng);
+    let best: SnappedNode | null = null;
+
+    for (let r = row - latCells; r <= row + latCells; r++) {
+      for (let c = col - lngCells; c <= col + lngCells; c++) {
+        for (const node of this.nodeCells.get(this.cellKey(r, c)) ?? []) {
+          if (this.degree(mode, node) === 0) continue;
+          const distanceKm = haversineKm(lat, lng, this.lat[node], this.lng[node]);
+          if (distanceKm <= maxKm && (!best || distanceKm < best.distanceKm)) best = { node, distanceKm };
+        }
+      }
+    }
+    return best;
+  }
+
+  /** Calls `visit` for each edge leaving `node` that `mode` can use */
+  forEachEdge(mode: TravelMode, node: number, visit: (target: number, seconds: number) => void): void {
+    const { offsets, targets, seconds } = this.adjacency[mode];
+    for (let i = offsets[node]; i < offsets[node + 1]; i++) visit(targets[i], seconds[i]);
+  }
+
+  private degree(mode: TravelMode, node: number): number {
+    const { offsets } = this.adjacency[mode];
+    return offsets[node + 1] - offsets[node];
+  }
+
+  private buildAdjacency(mode: TravelMode, profile: SpeedProfile): Adjacency {
+    const { edges, roadClasses } = this.bundle;
+    const speeds = roadClasses.map((roadClass) => profile[roadClass] ?? 0);
+    const arcs: Array<[number, number, number]> = [];
+
+    for (let i = 0; i < edges.length; i += 5) {
+      const from = edges[i];
+      const to = edges[i + 1];
+      const flags = edges[i + 4];
+      const speed = speeds[edges[i + 3]];
+      if (speed <= 0) continue;
+      const seconds = edges[i + 2] / ((speed * 1000) / 3600);
+
+      const forward = mode === 'walk' ? flags & EDGE_FLAGS.WALK : flags & EDGE_FLAGS.DRIVE_FORWARD;
+      const backward = mode === 'walk' ? flags & EDGE_FLAGS.WALK : flags & EDGE_FLAGS.DRIVE_BACKWARD;
+      if (forward) arcs.push([from, to, seconds]);
+      if (backward) arcs.push([to, from, seconds]);
+    }
+
+    const offsets = new Int32Array(this.nodeCount + 1);
+    for (const [from] of arcs) offsets[from + 1]++;
+    for (let node = 0; node < this.nodeCount; node++) offsets[node + 1] += offsets[node];
+
+    const targets = new Int32Array(arcs.length);
+    const seconds = new Float32Array(arcs.length);
+    const next = offsets.slice(0, this.nodeCount);
+    for (const [from, to, time] of arcs) {
+      targets[next[from]] = to;
+      seconds[next[from]] = time;
+      next[from]++;
+    }
+    return { offsets, targets, seconds };
+  }
+
+  private cellOf(degrees: number): number {
+    return Math.floor(degrees / NODE_CELL_DEG);
+  }
+
+  private cellKey(row: number, col: number): number {
+    return row * 100_000 + col;
+  }
+}
@@ -0,0 +1,180 @@
+import { CatchmentRaster } from './catchment-raster';
+import { LocalProjection, haversineKm } from './geometry';
+import { DEFAULT_ROUTING_OPTIONS } from './profiles';
+import { RoadGraph, SnappedNode } from './road-graph';
+import { shortestTimes } from './shortest-paths';
+import {
+  CatchmentOverlap,
+  Isochrone,
+  LatLng,
+  RoadGraphBundle,
+  RoutingMethod,
+  RoutingOptions,
+  TravelMode,
+  TravelTimes,
+} from './types';
+
+/** Rasters are kept to about this many cells across, coarsening the cells for long isochrones */
+const MAX_RASTER_CELLS_ACROSS = 600;
+
+export interface TravelTimeOptions {
+  /** Stop searching beyond this; destinations further away come back as null */
+  maxMinutes?: number;
+  /** Overrides the straight-line speed used where no graph covers the origin */
+  fallbackSpeedKmh?: number;
+}
+
+interface NetworkOrigin {
+  graph: RoadGraph;
+  snapped: SnappedNode;
+  accessSeconds: number;
+}
+
+/**
+ * Travel times, isochrones and catchment overlaps over the loaded road
+ * graphs. Where no graph covers an origin, results fall back to a
+ * straight-line model at a fixed speed and say so in `method`.
+ */
+export class Router {
+  readonly options: RoutingOptions;
+  private readonly graphs: RoadGraph[] = [];
+
+  constructor(options: Partial<RoutingOptions> = {}) {
+    this.options = { ...DEFAULT_ROUTING_OPTIONS, ...options };
+  }
+
+  addGraph(bundle: RoadGraphBundle): this {
+    this.graphs.push(new RoadGraph(bundle, this.options.profiles));
+    return this;
+  }
+
+  /** Versions of the loaded graphs */
+  get graphVersions(): string[] {
+    return this.graphs.map((graph) => graph.version);
+  }
+
+  /** Whether travel from `point` in `mode` would be routed over a road graph */
+  hasNetwork(point: LatLng, mode: TravelMode): boolean {
+    return this.networkOrigin(point, mode) !== null;
+  }
+
+  /** Version of the graph travel from `point` in `mode` would be routed over, or null for straight lines */
+  graphAt(point: LatLng, mode: TravelMode): string | null {
+    return this.networkOrigin(point, mode)?.graph.version ?? null;
+  }
+
+  travelTimes(origin: LatLng, destinations: LatLng[], mode: TravelMode, options: TravelTimeOptions = {}): TravelTimes {
+    const budgetSeconds = (options.maxMinutes ?? Infinity) * 60;
+    const start = this.networkOrigin(origin, mode);
+
+    if (!start) {
+      const speed = options.fallbackSpeedKmh ?? this.options.fallbackSpeedKmh[mode];
+      return {
+        minutes: destinations.map((destination) => {
+          const minutes = (haversineKm(origin.lat, origin.lng, destination.lat, destination.lng) / speed) * 60;
+          return minutes * 60 <= budgetSeconds ? minutes : null;
+        }),
+        method: 'straight_line',
+        graph: null,
+      };
+    }
+
+    const { graph, snapped, accessSeconds } = start;
+    const times = shortestTimes(graph, mode, [{ node: snapped.node, seconds: accessSeconds }], budgetSeconds);
+    const accessSpeed = this.options.accessSpeedKmh[mode];
+
+    return {
+      minutes: destinations.map((destination) => {
+        const end = graph.nearestNode(destination.lat, destination.lng, mode, this.options.maxSnapKm);
+        const seconds = end ? times[end.node] + (end.distanceKm / accessSpeed) * 3600 : Infinity;
+        return seconds <= budgetSeconds ? seconds / 60 : null;
+      }),
+      method: 'network',
+      graph: graph.version,
+    };
+  }
+
+  isochrone(origin: LatLng, mode: TravelMode, minutes: number): Isochrone {
+    const projection = new LocalProjection(origin);
+    const { raster, method, graph } = this.catchment(origin, mode, minutes, projection, this.cellSizeFor(mode, minutes));
+
+    return {
+      origin,
+      mode,
+      minutes,
+      method,
+      graph,
+      geometry: { type: 'MultiPolygon', coordinates: raster.toMultiPolygon() },
+      areaKm2: Math.round(raster.areaKm2 * 100) / 100,
+    };
+  }
+
+  /**
+   * How much of b's catchment a's catchment also covers, e.g. the share of an
+   * existing store's trade area a new store would compete for
+   */
+  catchmentOverlap(a: LatLng, b: LatLng, mode: TravelMode, minutes: number): CatchmentOverlap {
+    const projection = new LocalProjection(a);
+    const cellSizeM = this.cellSizeFor(mode, minutes);
+    const first = this.catchment(a, mode, minutes, projection, cellSizeM);
+    const second = this.catchment(b, mode, minutes, projection, cellSizeM);
+
+    return {
+      overlap: second.raster.cellCount > 0 ? first.raster.sharedCells(second.raster) / second.raster.cellCount : 0,
+      method: first.method === 'network' && second.method === 'network' ? 'network' : 'straight_line',
+    };
+  }
+
+  private catchment(
+    origin: LatLng,
+    mode: TravelMode,
+    minutes: number,
+    projection: LocalProjection,
+    cellSizeM: number,
+  ): { raster: CatchmentRaster; method: RoutingMethod; graph: string | null } {
+    const raster = new CatchmentRaster(projection, cellSizeM);
+    const start = this.networkOrigin(origin, mode);
+
+    if (!start) {
+      raster.markDisc(origin.lat, origin.lng, (this.options.fallbackSpeedKmh[mode] * minutes * 1000) / 60);
+      return { raster, method: 'straight_line', graph: null };
+    }
+
+    const { graph, snapped, accessSeconds } = start;
+    const budgetSeconds = minutes * 60;
+    const times = shortestTimes(graph, mode, [{ node: snapped.node, seconds: accessSeconds }], budgetSeconds);
+
+    raster.markSegment([origin.lat, origin.lng], [graph.nodeLat(snapped.node), graph.nodeLng(snapped.node)]);
+    for (let node = 0; node < graph.nodeCount; node++) {
+      const time = times[node];
+      if (time === Infinity) continue;
+      const from: [number, number] = [graph.nodeLat(node), graph.nodeLng(node)];
+      raster.markPoint(from[0], from[1]);
+      graph.forEachEdge(mode, node, (target, seconds) => {
+        // Edges the budget runs out on are drawn as far as they are driven
+        const fraction = Math.min(1, (budgetSeconds - time) / seconds);
+        raster.markSegment(from, [graph.nodeLat(target), graph.nodeLng(target)], fraction);
+      });
+    }
+    raster.dilate();
+
+    return { raster, method: 'network', graph: graph.version };
+  }
+
+  private networkOrigin(point: LatLng, mode: TravelMode): NetworkOrigin | null {
+    for (const graph of this.graphs) {
+      if (!graph.covers(point.lat, point.lng)) continue;
+      const snapped = graph.nearestNode(point.lat, point.lng, mode, this.options.maxSnapKm);
+      if (snapped) {
+        return { graph, snapped, accessSeconds: (snapped.distanceKm / this.options.accessSpeedKmh[mode]) * 3600 };
+      }
+    }
+    return null;
+  }
+
+  private cellSizeFor(mode: TravelMode, minutes: number): number {
+    const fastestKmh = Math.max(this.options.fallbackSpeedKmh[mode], ...Object.values(this.options.profiles[mode]));
+    const reachM = (fastestKmh * minutes * 1000) / 60;
+    return Math.max(this.options.cellSizeM, (2 * reachM) / MAX_RASTER_CELLS_ACROSS);
+  }
+}
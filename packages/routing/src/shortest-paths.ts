@@ -0,0 +1,86 @@
+import { RoadGraph } from './road-graph';
+import { TravelMode } from './types';
+
+/** Binary min-heap of node ids keyed by a parallel priority array */
+class NodeHeap {
+  private nodes: number[] = [];
+  private keys: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, key: number): void {
+    this.nodes.push(node);
+    this.keys.push(key);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= key) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  /** Removes the smallest entry, returning [node, key] */
+  pop(): [number, number] {
+    const top: [number, number] = [this.nodes[0], this.keys[0]];
+    const lastNode = this.nodes.pop()!;
+    const lastKey = this.keys.pop()!;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.keys[0] = lastKey;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.keys.length && this.keys[left] < this.keys[smallest]) smallest = left;
+        if (right < this.keys.length && this.keys[right] < this.keys[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+  }
+}
+
+/**
+ * Dijkstra from one or more sources with their starting times. Nodes not
+ * reached within `budgetSeconds` are left at Infinity.
+ */
+export function shortestTimes(
+  graph: RoadGraph,
+  mode: TravelMode,
+  sources: Array<{ node: number; seconds: number }>,
+  budgetSeconds = Infinity,
+): Float64Array {
+  const times = new Float64Array(graph.nodeCount).fill(Infinity);
+  const heap = new NodeHeap();
+  for (const { node, seconds } of sources) {
+    if (seconds < times[node] && seconds <= budgetSeconds) {
+      times[node] = seconds;
+      heap.push(node, seconds);
+    }
+  }
+
+  while (heap.size > 0) {
+    const [node, time] = heap.pop();
+    // Stale entry for a node already settled at a lower time
+    if (time > times[node]) continue;
+    graph.forEachEdge(mode, node, (target, seconds) => {
+      const arrival = time + seconds;
+      if (arrival < times[target] && arrival <= budgetSeconds) {
+        times[target] = arrival;
+        heap.push(target, arrival);
+      }
+    });
+  }
+  return times;
+}
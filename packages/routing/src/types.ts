@@ -0,0 +1,82 @@
+export type TravelMode = 'drive' | 'walk';
+
+export const TRAVEL_MODES: readonly TravelMode[] = ['drive', 'walk'];
+
+/** How a travel time or isochrone was computed */
+export type RoutingMethod = 'network' | 'straight_line';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/** Speed in km/h per OSM highway class. Classes missing or at 0 cannot be used in that mode. */
+export type SpeedProfile = Record<string, number>;
+
+export interface RoutingOptions {
+  /** Speeds per road class, per mode */
+  profiles: Record<TravelMode, SpeedProfile>;
+  /** Straight-line speeds used where no graph covers the origin */
+  fallbackSpeedKmh: Record<TravelMode, number>;
+  /** Speed between a point and the nearest graph node, e.g. a car park or driveway */
+  accessSpeedKmh: Record<TravelMode, number>;
+  /** Points further than this from any graph node are not on the network */
+  maxSnapKm: number;
+  /** Side of the raster cells isochrones and catchment overlaps are computed on */
+  cellSizeM: number;
+}
+
+export interface TravelTimes {
+  /** Minutes to each destination, in input order. Null when not reachable within the budget. */
+  minutes: Array<number | null>;
+  method: RoutingMethod;
+  graph: string | null;
+}
+
+export interface Isochrone {
+  origin: LatLng;
+  mode: TravelMode;
+  minutes: number;
+  method: RoutingMethod;
+  /** Name and version of the graph used, null for straight-line isochrones */
+  graph: string | null;
+  geometry: { type: 'MultiPolygon'; coordinates: Array<Array<Array<[number, number]>>> };
+  areaKm2: number;
+}
+
+export interface CatchmentOverlap {
+  /** Share of the second catchment's area that the first catchment also covers, 0-1 */
+  overlap: number;
+  method: RoutingMethod;
+}
+
+/**
+ * Graph bundle written by scripts/build-graph.mjs. Coordinates are stored as
+ * integer microdegrees and edges as flat tuples to keep the files small.
+ */
+export interface RoadGraphBundle {
+  type: 'RoadGraph';
+  version: 1;
+  name: string;
+  /** When the source extract was processed, ISO 8601 */
+  builtAt: string;
+  source?: string;
+  roadClasses: string[];
+  /** [latE6, lngE6] per node */
+  nodes: number[];
+  /** [from, to, lengthM, roadClass, flags] per edge, see EDGE_FLAGS */
+  edges: number[];
+}
+
+export const EDGE_FLAGS = {
+  DRIVE_FORWARD: 1,
+  DRIVE_BACKWARD: 2,
+  WALK: 4,
+} as const;
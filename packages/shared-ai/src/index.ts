@@ -11,4 +11,9 @@ export * from './utils/openai-response.util';
 export * from './utils/json-parser.util';
 export * from './schemas/zone-identification.schema';
 export * from './schemas/location-discovery.schema';
-export * from './schemas/viability-validation.schema';
\ No newline at end of file
+export * from './schemas/viability-validation.schema';
+export * from './types/llm.types';
+export * from './providers/openai.provider';
+export * from './providers/openai-compatible.provider';
+export * from './providers/replay.provider';
+export * from './services/llm-client.service';
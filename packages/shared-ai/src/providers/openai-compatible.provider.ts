@@ -0,0 +1,107 @@
+/**
+ * OpenAI-Compatible Provider
+ * Calls the Chat Completions API of local or self-hosted servers
+ * (Ollama, llama.cpp server, vLLM, LM Studio)
+ */
+
+import { LlmMessage, LlmProvider, LlmProviderError, LlmRequest, LlmResponse, LlmToolCall } from '../types/llm.types';
+import { parseToolArguments, responseText } from './openai.provider';
+
+export interface OpenAICompatibleProviderOptions {
+  /** e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Most local servers don't check it */
+  apiKey?: string;
+  defaultModel: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 300_000;
+
+interface ChatToolCall {
+  id: string;
+  function: { name: string; arguments: string };
+}
+
+/** The parts of a Chat Completions reply the provider reads */
+interface ChatCompletionPayload {
+  model?: string;
+  choices?: Array<{ message?: { tool_calls?: ChatToolCall[] } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'local';
+  readonly defaultModel: string;
+
+  constructor(private readonly options: OpenAICompatibleProviderOptions) {
+    this.defaultModel = options.defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.baseUrl;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const model = request.model ?? this.defaultModel;
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages.map(toChatMessage),
+        ...(request.tools?.length && {
+          tools: request.tools.map(tool => ({ type: 'function', function: tool })),
+        }),
+        ...(request.maxOutputTokens && { max_tokens: request.maxOutputTokens }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.json && { response_format: { type: 'json_object' } }),
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LlmProviderError(`LLM server error: ${response.status} ${detail.slice(0, 500)}`, this.name, response.status);
+    }
+
+    const data = (await response.json()) as ChatCompletionPayload;
+    const toolCalls: LlmToolCall[] = (data.choices?.[0]?.message?.tool_calls ?? []).map(call => ({
+      id: call.id,
+      name: call.function?.name,
+      arguments: parseToolArguments(call.function?.arguments),
+    }));
+    return {
+      text: responseText(data),
+      model: data.model ?? model,
+      provider: this.name,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+        totalTokens: data.usage?.total_tokens ?? 0,
+      },
+      ...(toolCalls.length > 0 && { toolCalls }),
+      replayed: false,
+    };
+  }
+}
+
+function toChatMessage(message: LlmMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
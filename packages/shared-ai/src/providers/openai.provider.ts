@@ -0,0 +1,136 @@
+/**
+ * OpenAI Provider
+ * Calls the OpenAI Responses API, which the reasoning models (gpt-5 family) need
+ */
+
+import { LlmMessage, LlmProvider, LlmProviderError, LlmRequest, LlmResponse, LlmToolCall } from '../types/llm.types';
+import { extractTextSafe } from '../utils/openai-response.util';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  defaultModel: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+interface ResponsesFunctionCall {
+  type: 'function_call';
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+/** The parts of a Responses API reply the provider reads */
+interface ResponsesPayload {
+  model?: string;
+  output?: Array<ResponsesFunctionCall | { type: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number; total_tokens?: number };
+}
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name = 'openai';
+  readonly defaultModel: string;
+
+  constructor(private readonly options: OpenAIProviderOptions) {
+    this.defaultModel = options.defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.apiKey;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    if (!this.options.apiKey) {
+      throw new LlmProviderError('OPENAI_API_KEY not configured', this.name);
+    }
+
+    const model = request.model ?? this.defaultModel;
+    const reasoning = isReasoningModel(model);
+    const body: Record<string, unknown> = {
+      model,
+      input: request.messages.flatMap(toInputItems),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({ type: 'function', ...tool })),
+      }),
+      ...(request.maxOutputTokens && { max_output_tokens: request.maxOutputTokens }),
+      ...(reasoning && request.reasoningEffort && { reasoning: { effort: request.reasoningEffort } }),
+      ...(!reasoning && request.temperature !== undefined && { temperature: request.temperature }),
+    };
+    const text: Record<string, unknown> = {
+      ...(reasoning && request.verbosity && { verbosity: request.verbosity }),
+      ...(request.json && { format: { type: 'json_object' } }),
+    };
+    if (Object.keys(text).length > 0) body.text = text;
+
+    const response = await fetch(`${this.options.baseUrl ?? DEFAULT_BASE_URL}/responses`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.options.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LlmProviderError(`OpenAI API error: ${response.status} ${detail.slice(0, 500)}`, this.name, response.status);
+    }
+
+    const data = (await response.json()) as ResponsesPayload;
+    const toolCalls: LlmToolCall[] = (Array.isArray(data.output) ? data.output : [])
+      .filter((item): item is ResponsesFunctionCall => item.type === 'function_call')
+      .map(item => ({ id: item.call_id, name: item.name, arguments: parseToolArguments(item.arguments) }));
+    return {
+      text: responseText(data),
+      model: data.model ?? model,
+      provider: this.name,
+      usage: {
+        inputTokens: data.usage?.input_tokens ?? 0,
+        outputTokens: data.usage?.output_tokens ?? 0,
+        totalTokens: data.usage?.total_tokens ?? 0,
+      },
+      ...(toolCalls.length > 0 && { toolCalls }),
+      replayed: false,
+    };
+  }
+}
+
+/** Tool calls and their results are separate input items in the Responses API */
+function toInputItems(message: LlmMessage): Record<string, unknown>[] {
+  if (message.role === 'tool') {
+    return [{ type: 'function_call_output', call_id: message.toolCallId, output: message.content }];
+  }
+  const items: Record<string, unknown>[] = [];
+  if (message.content || !message.toolCalls?.length) {
+    items.push({ role: message.role, content: message.content });
+  }
+  for (const call of message.toolCalls ?? []) {
+    items.push({ type: 'function_call', call_id: call.id, name: call.name, arguments: JSON.stringify(call.arguments) });
+  }
+  return items;
+}
+
+/** Models send tool arguments as a JSON string; malformed ones become {} for the tool to reject */
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === 'object') return raw as Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(String(raw ?? '{}'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The gpt-5 and o-series models take reasoning controls and reject temperature */
+export function isReasoningModel(model: string): boolean {
+  return /^(gpt-5|o\d)/.test(model);
+}
+
+/** The response's text, or '' when the model produced none (e.g. it ran out of tokens while reasoning) */
+export function responseText(data: unknown): string {
+  const text = extractTextSafe(data, '');
+  return typeof text === 'string' ? text : '';
+}
@@ -0,0 +1,132 @@
+/**
+ * Record/Replay Providers
+ * RecordingProvider saves every live response as a JSON fixture; ReplayProvider
+ * serves those fixtures without network access, so tests and demos are
+ * deterministic. Fixtures are keyed by purpose and prompt, not by model or
+ * token limits, so they survive model changes.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LlmFixtureMissingError, LlmProvider, LlmRequest, LlmResponse, LlmToolCall, LlmUsage } from '../types/llm.types';
+
+export interface LlmFixture {
+  purpose: string;
+  key: string;
+  recordedAt: string;
+  model: string;
+  messages: LlmRequest['messages'];
+  json: boolean;
+  response: { text: string; usage: LlmUsage; toolCalls?: LlmToolCall[] };
+}
+
+const NO_USAGE: LlmUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+export function fixtureKey(request: LlmRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify({
+        purpose: request.purpose,
+        messages: request.messages,
+        json: !!request.json,
+        tools: request.tools?.map(tool => tool.name),
+      }),
+    )
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export function fixturePath(fixturesDir: string, request: LlmRequest): string {
+  const folder = request.purpose.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return path.join(fixturesDir, folder, `${fixtureKey(request)}.json`);
+}
+
+export class RecordingProvider implements LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly fixturesDir: string,
+  ) {
+    this.name = `${inner.name}+record`;
+    this.defaultModel = inner.defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.inner.complete(request);
+    const file = fixturePath(this.fixturesDir, request);
+    const fixture: LlmFixture = {
+      purpose: request.purpose,
+      key: fixtureKey(request),
+      recordedAt: new Date().toISOString(),
+      model: response.model,
+      messages: request.messages,
+      json: !!request.json,
+      response: { text: response.text, usage: response.usage, toolCalls: response.toolCalls },
+    };
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+    return response;
+  }
+}
+
+export interface ReplayProviderOptions {
+  fixturesDir: string;
+  /**
+   * 'error' fails requests without a fixture (for tests); 'stub' answers them
+   * with a fixed placeholder ('{}' for JSON requests) so callers take their
+   * fallback paths (for demos)
+   */
+  onMissing: 'error' | 'stub';
+}
+
+export class ReplayProvider implements LlmProvider {
+  readonly name: string;
+  readonly defaultModel = 'replay';
+
+  constructor(private readonly options: ReplayProviderOptions) {
+    this.name = options.onMissing === 'stub' ? 'stub' : 'replay';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const file = fixturePath(this.options.fixturesDir, request);
+    let fixture: LlmFixture | null = null;
+    try {
+      fixture = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    if (fixture) {
+      return {
+        text: fixture.response.text,
+        model: fixture.model,
+        provider: this.name,
+        usage: fixture.response.usage,
+        ...(fixture.response.toolCalls && { toolCalls: fixture.response.toolCalls }),
+        replayed: true,
+      };
+    }
+    if (this.options.onMissing === 'error') {
+      throw new LlmFixtureMissingError(request.purpose, file);
+    }
+    return {
+      text: request.json ? '{}' : `[offline] No recorded response for ${request.purpose}.`,
+      model: 'stub',
+      provider: this.name,
+      usage: NO_USAGE,
+      replayed: true,
+    };
+  }
+}
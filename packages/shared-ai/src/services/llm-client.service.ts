@@ -0,0 +1,129 @@
+/**
+ * LLM Client
+ * The single entry point for model calls. The backend is chosen by
+ * environment, and every call's tokens are counted per purpose and against
+ * any enclosing trackTokens() scope.
+ *
+ * LLM_PROVIDER      openai (default) | local | replay | stub
+ * LLM_MODEL         default model (gpt-5-mini for openai, llama3.1 for local)
+ * LLM_BASE_URL      OpenAI-compatible server for 'local', e.g. http://localhost:11434/v1
+ * LLM_API_KEY       key for that server, if it wants one
+ * LLM_RECORD        'true' saves live responses as fixtures
+ * LLM_FIXTURES_DIR  fixture directory (default ./llm-fixtures)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as path from 'path';
+import { OpenAICompatibleProvider } from '../providers/openai-compatible.provider';
+import { OpenAIProvider } from '../providers/openai.provider';
+import { RecordingProvider, ReplayProvider } from '../providers/replay.provider';
+import { LlmProvider, LlmProviderKind, LlmRequest, LlmResponse, LlmUsage } from '../types/llm.types';
+import { extractJSON } from '../utils/json-parser.util';
+
+export interface LlmUsageTotals extends LlmUsage {
+  calls: number;
+}
+
+interface TokenAccount {
+  tokens: number;
+  parent?: TokenAccount;
+}
+
+const accounts = new AsyncLocalStorage<TokenAccount>();
+
+/**
+ * Runs fn and counts the tokens of every LLM call made within it, however
+ * deeply nested, e.g. to fill a job's tokensUsed column
+ */
+export async function trackTokens<T>(fn: () => Promise<T>): Promise<{ result: T; tokensUsed: number }> {
+  const account: TokenAccount = { tokens: 0, parent: accounts.getStore() };
+  const result = await accounts.run(account, fn);
+  return { result, tokensUsed: account.tokens };
+}
+
+export function createLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const kind = (env.LLM_PROVIDER || 'openai') as LlmProviderKind;
+  const fixturesDir = env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'llm-fixtures');
+
+  let provider: LlmProvider;
+  switch (kind) {
+    case 'openai':
+      provider = new OpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL,
+        defaultModel: env.LLM_MODEL || 'gpt-5-mini',
+      });
+      break;
+    case 'local':
+      provider = new OpenAICompatibleProvider({
+        baseUrl: env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: env.LLM_API_KEY,
+        defaultModel: env.LLM_MODEL || 'llama3.1',
+      });
+      break;
+    case 'replay':
+    case 'stub':
+      return new ReplayProvider({ fixturesDir, onMissing: kind === 'replay' ? 'error' : 'stub' });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}"; use openai, local, replay or stub`);
+  }
+
+  return env.LLM_RECORD === 'true' ? new RecordingProvider(provider, fixturesDir) : provider;
+}
+
+export class LlmClient {
+  private static instance: LlmClient | null = null;
+  private readonly totals = new Map<string, LlmUsageTotals>();
+
+  constructor(readonly provider: LlmProvider) {}
+
+  /** Shared client configured from process.env */
+  static getInstance(): LlmClient {
+    if (!LlmClient.instance) {
+      LlmClient.instance = new LlmClient(createLlmProvider());
+    }
+    return LlmClient.instance;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  get defaultModel(): string {
+    return this.provider.defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.provider.complete(request);
+    this.account(request.purpose, response.usage);
+    return response;
+  }
+
+  /** Requests a JSON object and parses it, tolerating code fences and surrounding prose */
+  async completeJson<T>(request: LlmRequest): Promise<{ data: T; response: LlmResponse }> {
+    const response = await this.complete({ ...request, json: true });
+    return { data: JSON.parse(extractJSON(response.text)) as T, response };
+  }
+
+  /** Calls and tokens per purpose since the client was created */
+  usageByPurpose(): Record<string, LlmUsageTotals> {
+    return Object.fromEntries([...this.totals].map(([purpose, totals]) => [purpose, { ...totals }]));
+  }
+
+  private account(purpose: string, usage: LlmUsage): void {
+    const totals = this.totals.get(purpose) ?? { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    totals.calls++;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.totalTokens += usage.totalTokens;
+    this.totals.set(purpose, totals);
+
+    for (let account = accounts.getStore(); account; account = account.parent) {
+      account.tokens += usage.totalTokens;
+    }
+  }
+}
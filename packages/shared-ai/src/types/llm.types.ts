@@ -0,0 +1,96 @@
+/**
+ * LLM Provider Types
+ * One request/response shape for every backend, so services don't depend on
+ * a particular vendor API
+ */
+
+export type LlmRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string;
+  /** On assistant turns: the tools the model asked to call */
+  toolCalls?: LlmToolCall[];
+  /** On tool turns: the call this message answers */
+  toolCallId?: string;
+}
+
+/** A function the model may call, described by a JSON Schema for its arguments */
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LlmRequest {
+  /** What the call is for, e.g. 'submind.query'; names fixtures and groups token usage */
+  purpose: string;
+  messages: LlmMessage[];
+  /** Defaults to the provider's configured model (LLM_MODEL) */
+  model?: string;
+  maxOutputTokens?: number;
+  /** Ignored by reasoning models, which don't accept it */
+  temperature?: number;
+  /** Only used by backends that support reasoning controls */
+  reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high';
+  verbosity?: 'low' | 'medium' | 'high';
+  /** Ask for a JSON object response */
+  json?: boolean;
+  /** Tools the model may call instead of answering */
+  tools?: LlmTool[];
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  provider: string;
+  usage: LlmUsage;
+  /** Tool calls the model made; when present, answer them with tool messages and call again */
+  toolCalls?: LlmToolCall[];
+  /** Served from a recorded fixture or the offline stub rather than a live model */
+  replayed: boolean;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  /** Model used when a request doesn't name one */
+  readonly defaultModel: string;
+  /** Whether the backend has what it needs (e.g. an API key) to serve requests */
+  isConfigured(): boolean;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export type LlmProviderKind = 'openai' | 'local' | 'replay' | 'stub';
+
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+export class LlmFixtureMissingError extends Error {
+  constructor(
+    public readonly purpose: string,
+    public readonly fixturePath: string,
+  ) {
+    super(`No recorded LLM response for ${purpose} (${fixturePath}); record one with LLM_RECORD=true`);
+    this.name = 'LlmFixtureMissingError';
+  }
+}